@@ -49,6 +49,7 @@ const LazyAdvancedFeatures = lazy(() => import('./components/admin/AdvancedFeatu
 const LazyReports = lazy(() => import('./components/admin/Reports'));
 const LazyRealTimeDashboard = lazy(() => import('./components/admin/RealTime/RealTimeDashboard'));
 const LazyAdminUserIntegrations = lazy(() => import('./components/admin/AdminUserIntegrations'));
+const LazyBackgroundJobs = lazy(() => import('./components/admin/BackgroundJobs'));
 
 function App() {
   return (
@@ -237,6 +238,11 @@ function App() {
                                   </Suspense>
                                 } />
                                 <Route path="audit" element={<AuditLogs />} />
+                                <Route path="jobs" element={
+                                  <Suspense fallback={<div>Loading...</div>}>
+                                    <LazyBackgroundJobs />
+                                  </Suspense>
+                                } />
                                 <Route path="communication" element={<Communication />} />
                                 <Route path="advanced" element={
                                   <Suspense fallback={<div>Loading...</div>}>
@@ -16,7 +16,8 @@ import {
   Phone,
   Plug,
   UserCheck,
-  Wrench
+  Wrench,
+  ListChecks
 } from 'lucide-react';
 import { useAdmin } from '@/contexts/AdminContext';
 import { useFocusTrap } from '../../hooks/useAccessibility';
@@ -82,6 +83,12 @@ const adminMenuItems: AdminMenuItem[] = [
     icon: FileText,
     href: '/admin/audit',
   },
+  {
+    id: 'jobs',
+    label: 'Background Jobs',
+    icon: ListChecks,
+    href: '/admin/jobs',
+  },
   {
     id: 'communication',
     label: 'Communication',
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { adminApiService } from '@/services/adminApiService';
+import type {
+  BackgroundJob,
+  BackgroundJobStats,
+  BackgroundJobStatus,
+  BackgroundJobType,
+} from '@/types/admin';
+
+const PAGE_SIZE = 50;
+
+const STATUS_OPTIONS: BackgroundJobStatus[] = ['pending', 'running', 'completed', 'dead', 'cancelled'];
+
+const JOB_TYPE_LABELS: Record<BackgroundJobType, string> = {
+  scheduled_email: 'Scheduled follow-up email',
+  email_campaign: 'Email campaign',
+};
+
+const STATUS_VARIANTS: Record<BackgroundJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'default',
+  completed: 'secondary',
+  dead: 'destructive',
+  cancelled: 'outline',
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+/**
+ * Background job queue: counts per type/status, dead-lettered jobs and manual retry/cancel
+ */
+export const BackgroundJobsDashboard: React.FC = () => {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [stats, setStats] = useState<BackgroundJobStats[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<BackgroundJobStatus | 'all'>('dead');
+  const [jobType, setJobType] = useState<BackgroundJobType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [actionJobId, setActionJobId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [jobsResponse, statsResponse] = await Promise.all([
+        adminApiService.getBackgroundJobs({
+          status: status === 'all' ? undefined : status,
+          job_type: jobType === 'all' ? undefined : jobType,
+          limit: PAGE_SIZE,
+          offset,
+        }),
+        adminApiService.getBackgroundJobStats(),
+      ]);
+      setJobs(jobsResponse.data || []);
+      setTotal(jobsResponse.pagination?.total || 0);
+      setStats(statsResponse.data || []);
+    } catch (error) {
+      console.error('Failed to load background jobs:', error);
+      toast.error('Failed to load background jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, jobType, offset]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const runAction = async (job: BackgroundJob, action: 'retry' | 'cancel') => {
+    try {
+      setActionJobId(job.id);
+      if (action === 'retry') {
+        await adminApiService.retryBackgroundJob(job.id);
+        toast.success('Job queued again');
+      } else {
+        await adminApiService.cancelBackgroundJob(job.id);
+        toast.success('Job cancelled');
+      }
+      await loadJobs();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} job`);
+    } finally {
+      setActionJobId(null);
+    }
+  };
+
+  const countFor = (jobStatus: BackgroundJobStatus) =>
+    stats.filter(row => row.status === jobStatus).reduce((sum, row) => sum + Number(row.count), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Background Jobs</h1>
+          <p className="text-muted-foreground">
+            Scheduled follow-up emails and email campaign sends. Failed jobs retry with backoff; dead jobs need attention.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadJobs} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {STATUS_OPTIONS.map(jobStatus => (
+          <Card
+            key={jobStatus}
+            className={`cursor-pointer ${status === jobStatus ? 'border-primary' : ''}`}
+            onClick={() => {
+              setStatus(jobStatus);
+              setOffset(0);
+            }}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription className="capitalize">{jobStatus}</CardDescription>
+              <CardTitle className="text-2xl">{countFor(jobStatus)}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle>Jobs</CardTitle>
+            <div className="flex gap-2">
+              <Select
+                value={status}
+                onValueChange={value => {
+                  setStatus(value as BackgroundJobStatus | 'all');
+                  setOffset(0);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {STATUS_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={jobType}
+                onValueChange={value => {
+                  setJobType(value as BackgroundJobType | 'all');
+                  setOffset(0);
+                }}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Job type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All job types</SelectItem>
+                  {(Object.keys(JOB_TYPE_LABELS) as BackgroundJobType[]).map(option => (
+                    <SelectItem key={option} value={option}>{JOB_TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Run at</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead>Payload</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    {loading ? 'Loading jobs...' : 'No jobs match these filters'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell>{JOB_TYPE_LABELS[job.job_type] || job.job_type}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">{job.status}</Badge>
+                  </TableCell>
+                  <TableCell>{job.attempts}/{job.max_attempts}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatTime(job.run_at)}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={job.last_error || undefined}>
+                    {job.last_error || '—'}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs max-w-xs truncate" title={JSON.stringify(job.payload)}>
+                    {JSON.stringify(job.payload)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(job.status === 'dead' || job.status === 'cancelled') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={actionJobId === job.id}
+                        onClick={() => runAction(job, 'retry')}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                    {job.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={actionJobId === job.id}
+                        onClick={() => runAction(job, 'cancel')}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between pt-4 text-sm text-muted-foreground">
+            <span>
+              {total === 0 ? 'No jobs' : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset === 0 || loading}
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset + PAGE_SIZE >= total || loading}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BackgroundJobsDashboard;
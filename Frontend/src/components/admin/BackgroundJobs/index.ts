@@ -0,0 +1,2 @@
+export { BackgroundJobsDashboard } from './BackgroundJobsDashboard';
+export { default } from './BackgroundJobsDashboard';
@@ -4,6 +4,7 @@ import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
 import { Label } from '../../ui/label';
 import { Switch } from '../../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
 import { useToast } from '../../ui/use-toast';
 import { Loader2, Save, RotateCcw } from 'lucide-react';
 import { adminApiService } from '../../../services/adminApiService';
@@ -15,6 +16,8 @@ interface SystemConfig {
   new_user_bonus_credits: number;
   minimum_credit_purchase: number;
   max_contacts_per_upload: number;
+  voicemail_billing_mode: 'full' | 'free' | 'capped';
+  voicemail_billable_seconds: number; // Used when voicemail_billing_mode is capped
   
   // Authentication & Security Configuration
   session_duration_hours: number;
@@ -107,7 +110,7 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ className }) => {
   };
 
   // Update config value
-  const updateConfig = (key: keyof SystemConfig, value: number | boolean) => {
+  const updateConfig = (key: keyof SystemConfig, value: number | boolean | string) => {
     if (!config) return;
     setConfig({ ...config, [key]: value });
   };
@@ -243,6 +246,41 @@ const SystemSettings: React.FC<SystemSettingsProps> = ({ className }) => {
                 Maximum contacts allowed in bulk upload
               </p>
             </div>
+
+            <div>
+              <Label htmlFor="voicemail_billing_mode">Voicemail Billing</Label>
+              <Select
+                value={config.voicemail_billing_mode}
+                onValueChange={(value) => updateConfig('voicemail_billing_mode', value as SystemConfig['voicemail_billing_mode'])}
+              >
+                <SelectTrigger id="voicemail_billing_mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Bill like any call</SelectItem>
+                  <SelectItem value="capped">Bill up to a limit</SelectItem>
+                  <SelectItem value="free">Don't bill</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                How calls that reached voicemail are charged
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="voicemail_billable_seconds">Voicemail Billing Limit (seconds)</Label>
+              <Input
+                id="voicemail_billable_seconds"
+                type="number"
+                min="0"
+                disabled={config.voicemail_billing_mode !== 'capped'}
+                value={config.voicemail_billable_seconds}
+                onChange={(e) => updateConfig('voicemail_billable_seconds', parseInt(e.target.value))}
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Longest voicemail duration charged when billing up to a limit
+              </p>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -45,7 +45,10 @@ import { toast } from 'sonner';
 import apiService from '@/services/apiService';
 import { API_ENDPOINTS } from '@/config/api';
 import emailTemplateService from '@/services/emailTemplateService';
-import type { CreateFlowRequest, ActionType, ConditionType, ConditionOperator } from '@/types/autoEngagement';
+import type { CreateFlowRequest, ActionType, ConditionType, ConditionOperator, TriggerConditionInput } from '@/types/autoEngagement';
+import TriggerConditionGroupCard from './TriggerConditionGroupCard';
+import FlowCrmActionFields from './FlowCrmActionFields';
+import { buildTriggerConditionTree, getTriggerConditionPlaceholder } from '@/utils/triggerConditions';
 
 interface FormValues {
   name: string;
@@ -157,10 +160,7 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
 
   const emailTemplates = Array.isArray(emailTemplatesData) ? emailTemplatesData : [];
 
-  const [triggerConditions, setTriggerConditions] = useState<Array<{
-    condition_type: ConditionType;
-    condition_operator: ConditionOperator;
-    condition_value: string | null;
+  const [triggerConditions, setTriggerConditions] = useState<Array<TriggerConditionInput & {
     is_custom?: boolean; // Track if custom option is selected
   }>>([]);
 
@@ -207,11 +207,7 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
       setValue('business_hours_timezone', flow.business_hours_timezone || 'America/New_York');
       
       if (flow.trigger_conditions) {
-        setTriggerConditions(flow.trigger_conditions.map(c => ({
-          condition_type: c.condition_type as ConditionType,
-          condition_operator: c.condition_operator as ConditionOperator,
-          condition_value: c.condition_value,
-        })));
+        setTriggerConditions(buildTriggerConditionTree(flow.trigger_conditions));
       }
 
       if (flow.actions) {
@@ -278,6 +274,18 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
     ]);
   };
 
+  const addTriggerConditionGroup = () => {
+    setTriggerConditions([
+      ...triggerConditions,
+      {
+        condition_type: 'group',
+        condition_operator: 'or',
+        condition_value: null,
+        conditions: [{ condition_type: 'city', condition_operator: 'equals', condition_value: '' }],
+      },
+    ]);
+  };
+
   const removeTriggerCondition = (index: number) => {
     setTriggerConditions(triggerConditions.filter((_, i) => i !== index));
   };
@@ -345,9 +353,11 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                       <ul className="list-disc list-inside space-y-1 text-teal-800 dark:text-teal-200 ml-2">
                         <li><strong>Lead Source:</strong> Select from common sources (IndiaMART, TradeIndia, etc.)</li>
                         <li><strong>Entry Type:</strong> How contacts enter (Manual Upload, API, Webhook, etc.)</li>
-                        <li><strong>Custom Field:</strong> Any custom field in your contact data</li>
+                        <li><strong>Custom Field:</strong> A contact field or a custom field extracted from calls (e.g., budget &gt; 50k)</li>
+                        <li><strong>Tag, Lead Stage, City, Country:</strong> Match on the contact's details</li>
                         <li><strong>No Conditions:</strong> Matches ALL contacts (use for universal flows)</li>
                         <li><strong>Multiple Conditions:</strong> ALL must match (AND logic)</li>
+                        <li><strong>Groups:</strong> Match when all (AND) or any (OR) of the grouped conditions match (e.g., city is Mumbai OR Pune)</li>
                       </ul>
                     </div>
                     
@@ -358,6 +368,9 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                         <li><strong>WhatsApp Message:</strong> Send template message via WhatsApp</li>
                         <li><strong>Email:</strong> Send automated email</li>
                         <li><strong>Wait:</strong> Add delay between actions (e.g., wait 2 hours before calling)</li>
+                        <li><strong>Update Lead Stage / Tags:</strong> Move the lead in your pipeline or tag it</li>
+                        <li><strong>Assign Team Member:</strong> Assign the lead and notify the team member in-app</li>
+                        <li><strong>Webhook:</strong> POST the lead as signed JSON to your own system</li>
                       </ul>
                     </div>
                     
@@ -497,26 +510,48 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                   Define when this flow should be triggered
                 </p>
               </div>
-              <Button 
-                type="button" 
-                size="sm" 
-                onClick={addTriggerCondition}
-                className="bg-teal-600 hover:bg-teal-700 text-white"
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Add Condition
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={addTriggerConditionGroup}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Group
+                </Button>
+                <Button 
+                  type="button" 
+                  size="sm" 
+                  onClick={addTriggerCondition}
+                  className="bg-teal-600 hover:bg-teal-700 text-white"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Condition
+                </Button>
+              </div>
             </div>
 
             {triggerConditions.length === 0 && (
               <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  No conditions = matches all contacts
+                  No conditions = matches all new contacts
                 </p>
               </div>
             )}
 
-            {triggerConditions.map((condition, index) => (
+            {triggerConditions.map((condition, index) => condition.condition_type === 'group' ? (
+              <TriggerConditionGroupCard
+                key={index}
+                condition={condition}
+                onChange={(group) => {
+                  const updated = [...triggerConditions];
+                  updated[index] = group;
+                  setTriggerConditions(updated);
+                }}
+                onRemove={() => removeTriggerCondition(index)}
+              />
+            ) : (
               <Card key={index} className="border-gray-200 dark:border-gray-700">
                 <CardContent className="pt-6">
                   <div className="grid grid-cols-4 gap-4">
@@ -532,7 +567,9 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                               <p className="text-xs max-w-xs">
                                 <strong>Lead Source:</strong> Where contact came from<br/>
                                 <strong>Entry Type:</strong> How contact entered system<br/>
-                                <strong>Custom Field:</strong> Any custom data field
+                                <strong>Custom Field:</strong> Contact field or extracted custom field<br/>
+                                <strong>Tag / Lead Stage / City / Country:</strong> Contact details<br/>
+                                <strong>Event triggers</strong> (lead stage, call, email, WhatsApp) run the flow on that event instead of contact creation
                               </p>
                             </TooltipContent>
                           </Tooltip>
@@ -553,6 +590,16 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                           <SelectItem value="lead_source">Lead Source</SelectItem>
                           <SelectItem value="entry_type">Entry Type</SelectItem>
                           <SelectItem value="custom_field">Custom Field</SelectItem>
+                          <SelectItem value="tag">Tag</SelectItem>
+                          <SelectItem value="lead_stage">Lead Stage</SelectItem>
+                          <SelectItem value="city">City</SelectItem>
+                          <SelectItem value="country">Country</SelectItem>
+                          <SelectItem value="lead_stage_changed">Lead Stage Changed To</SelectItem>
+                          <SelectItem value="call_completed">Call Completed (Intent Level)</SelectItem>
+                          <SelectItem value="call_lead_score">Call Completed (Lead Score)</SelectItem>
+                          <SelectItem value="email_opened">Email Opened (Subject)</SelectItem>
+                          <SelectItem value="email_clicked">Email Link Clicked (URL)</SelectItem>
+                          <SelectItem value="whatsapp_button_clicked">WhatsApp Button Clicked</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -569,6 +616,9 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                                 <strong>Equals:</strong> Exact match<br/>
                                 <strong>Not Equals:</strong> Doesn't match<br/>
                                 <strong>Contains:</strong> Partial match<br/>
+                                <strong>Greater/Less Than:</strong> Numeric comparison (lead score, budget)<br/>
+                                <strong>Between:</strong> Numeric range as min,max<br/>
+                                <strong>Matches Regex:</strong> Case-insensitive pattern<br/>
                                 <strong>Any:</strong> Matches anything
                               </p>
                             </TooltipContent>
@@ -590,6 +640,10 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                           <SelectItem value="equals">Equals</SelectItem>
                           <SelectItem value="not_equals">Not Equals</SelectItem>
                           <SelectItem value="contains">Contains</SelectItem>
+                          <SelectItem value="greater_than">Greater Than</SelectItem>
+                          <SelectItem value="less_than">Less Than</SelectItem>
+                          <SelectItem value="between">Between</SelectItem>
+                          <SelectItem value="matches_regex">Matches Regex</SelectItem>
                           <SelectItem value="any">Any</SelectItem>
                         </SelectContent>
                       </Select>
@@ -607,6 +661,16 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                                 {condition.condition_type === 'lead_source' && 'Select common lead source or enter custom value'}
                                 {condition.condition_type === 'entry_type' && 'Select how contacts enter your system'}
                                 {condition.condition_type === 'custom_field' && 'Enter custom field name and value'}
+                                {condition.condition_type === 'tag' && 'Tag the contact has'}
+                                {condition.condition_type === 'lead_stage' && 'Current lead stage of the contact'}
+                                {condition.condition_type === 'city' && 'City of the contact'}
+                                {condition.condition_type === 'country' && 'Country of the contact'}
+                                {condition.condition_type === 'lead_stage_changed' && 'Lead stage the contact moved to'}
+                                {condition.condition_type === 'call_completed' && 'Intent level of the call analysis (e.g. High)'}
+                                {condition.condition_type === 'call_lead_score' && 'Lead score of the call analysis (0-100)'}
+                                {condition.condition_type === 'email_opened' && 'Subject of the opened email'}
+                                {condition.condition_type === 'email_clicked' && 'URL of the clicked link'}
+                                {condition.condition_type === 'whatsapp_button_clicked' && 'Text of the clicked button'}
                               </p>
                             </TooltipContent>
                           </Tooltip>
@@ -667,15 +731,29 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                           </SelectContent>
                         </Select>
                       ) : (
-                        <Input
-                          value={condition.condition_value || ''}
-                          onChange={(e) => {
-                            const updated = [...triggerConditions];
-                            updated[index].condition_value = e.target.value;
-                            setTriggerConditions(updated);
-                          }}
-                          placeholder="Enter custom field value"
-                        />
+                        <>
+                          {condition.condition_type === 'custom_field' && (
+                            <Input
+                              className="mb-2"
+                              value={condition.field_name || ''}
+                              onChange={(e) => {
+                                const updated = [...triggerConditions];
+                                updated[index].field_name = e.target.value;
+                                setTriggerConditions(updated);
+                              }}
+                              placeholder="Field name e.g., budget"
+                            />
+                          )}
+                          <Input
+                            value={condition.condition_value || ''}
+                            onChange={(e) => {
+                              const updated = [...triggerConditions];
+                              updated[index].condition_value = e.target.value;
+                              setTriggerConditions(updated);
+                            }}
+                            placeholder={condition.condition_type === 'custom_field' ? 'Enter custom field value' : getTriggerConditionPlaceholder(condition)}
+                          />
+                        </>
                       )}
                       {/* Custom value input when 'custom' is selected */}
                       {condition.is_custom && (condition.condition_type === 'lead_source' || condition.condition_type === 'entry_type') && (
@@ -770,6 +848,12 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                               updated[index].action_config = { agent_id: '', phone_number_id: '' };
                             } else if (value === 'wait') {
                               updated[index].action_config = { duration_minutes: 30 };
+                            } else if (value === 'update_tags') {
+                              updated[index].action_config = { add_tags: [], remove_tags: [] };
+                            } else if (value === 'assign_team_member') {
+                              updated[index].action_config = { team_member_id: '', notify: true };
+                            } else if (value === 'update_lead_stage' || value === 'webhook') {
+                              updated[index].action_config = {};
                             }
                             setActions(updated);
                           }}
@@ -782,6 +866,10 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                             <SelectItem value="whatsapp_message">WhatsApp Message</SelectItem>
                             <SelectItem value="email">Email</SelectItem>
                             <SelectItem value="wait">Wait</SelectItem>
+                            <SelectItem value="update_lead_stage">Update Lead Stage</SelectItem>
+                            <SelectItem value="update_tags">Add / Remove Tags</SelectItem>
+                            <SelectItem value="assign_team_member">Assign Team Member</SelectItem>
+                            <SelectItem value="webhook">Webhook</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -838,11 +926,12 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
 
                       {/* Wait Config */}
                       {action.action_type === 'wait' && (
-                        <div>
+                        <div className="space-y-3">
                           <Label>Duration (minutes)</Label>
                           <Input
                             type="number"
                             min={1}
+                            max={129600}
                             value={action.action_config.duration_minutes || 30}
                             onChange={(e) => {
                               const updated = [...actions];
@@ -850,9 +939,41 @@ const AutoEngagementFlowBuilderModal: React.FC<AutoEngagementFlowBuilderModalPro
                               setActions(updated);
                             }}
                           />
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id={`wait_business_hours_${index}`}
+                              checked={!!action.action_config.wait_until_business_hours}
+                              onCheckedChange={(checked) => {
+                                const updated = [...actions];
+                                updated[index].action_config.wait_until_business_hours = checked;
+                                setActions(updated);
+                              }}
+                            />
+                            <Label htmlFor={`wait_business_hours_${index}`} className="cursor-pointer text-sm">
+                              Continue only during business hours
+                            </Label>
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Waits can last up to 90 days (129600 minutes). Business hours use the flow's custom business hours.
+                          </p>
                         </div>
                       )}
 
+                      {/* CRM Action Config */}
+                      {['update_lead_stage', 'update_tags', 'assign_team_member', 'webhook'].includes(action.action_type) && (
+                        <FlowCrmActionFields
+                          key={action.action_type}
+                          actionType={action.action_type}
+                          config={action.action_config}
+                          idPrefix={`action_${index}`}
+                          onChange={(config) => {
+                            const updated = [...actions];
+                            updated[index].action_config = config;
+                            setActions(updated);
+                          }}
+                        />
+                      )}
+
                       {/* WhatsApp Message Config */}
                       {action.action_type === 'whatsapp_message' && (
                         <div className="space-y-4">
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiService } from '@/services/apiService';
+import { useLeadStages } from '@/hooks/useLeadStages';
+import { generateUUID } from '@/utils/uuid';
+import type {
+  ActionType,
+  UpdateLeadStageActionConfig,
+  UpdateTagsActionConfig,
+  AssignTeamMemberActionConfig,
+  WebhookActionConfig,
+} from '@/types/autoEngagement';
+
+type CrmActionConfig = Partial<
+  UpdateLeadStageActionConfig & UpdateTagsActionConfig & AssignTeamMemberActionConfig & WebhookActionConfig
+>;
+
+interface AssignableTeamMember {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface FlowCrmActionFieldsProps {
+  actionType: ActionType;
+  config: CrmActionConfig;
+  onChange: (config: CrmActionConfig) => void;
+  idPrefix: string;
+}
+
+const parseTags = (value: string): string[] =>
+  value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Configuration fields for the CRM flow actions
+ * (update_lead_stage, update_tags, assign_team_member, webhook)
+ */
+const FlowCrmActionFields: React.FC<FlowCrmActionFieldsProps> = ({
+  actionType,
+  config,
+  onChange,
+  idPrefix,
+}) => {
+  const { stages } = useLeadStages();
+
+  const { data: teamMembers = [] } = useQuery({
+    queryKey: ['lead-intelligence-team-members'],
+    queryFn: async (): Promise<AssignableTeamMember[]> => {
+      const response = await apiService.getTeamMembersForAssignment();
+      // The endpoint responds without the data envelope
+      return response.data?.team_members
+        || (response as unknown as { team_members?: AssignableTeamMember[] }).team_members
+        || [];
+    },
+    enabled: actionType === 'assign_team_member',
+  });
+
+  // Keep the typed text so commas and spaces can be entered between tags
+  const [addTagsText, setAddTagsText] = useState((config.add_tags || []).join(', '));
+  const [removeTagsText, setRemoveTagsText] = useState((config.remove_tags || []).join(', '));
+
+  if (actionType === 'update_lead_stage') {
+    return (
+      <div>
+        <Label>Lead Stage</Label>
+        <Select
+          value={config.stage || ''}
+          onValueChange={(value) => onChange({ ...config, stage: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select lead stage" />
+          </SelectTrigger>
+          <SelectContent>
+            {stages.map((stage) => (
+              <SelectItem key={stage.name} value={stage.name}>
+                {stage.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  if (actionType === 'update_tags') {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Add Tags</Label>
+          <Input
+            value={addTagsText}
+            onChange={(e) => {
+              setAddTagsText(e.target.value);
+              onChange({ ...config, add_tags: parseTags(e.target.value) });
+            }}
+            placeholder="e.g., hot-lead, expo-2026"
+          />
+        </div>
+        <div>
+          <Label>Remove Tags</Label>
+          <Input
+            value={removeTagsText}
+            onChange={(e) => {
+              setRemoveTagsText(e.target.value);
+              onChange({ ...config, remove_tags: parseTags(e.target.value) });
+            }}
+            placeholder="e.g., cold"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (actionType === 'assign_team_member') {
+    return (
+      <div className="space-y-3">
+        <div>
+          <Label>Team Member</Label>
+          <Select
+            value={config.team_member_id || ''}
+            onValueChange={(value) => onChange({ ...config, team_member_id: value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select team member" />
+            </SelectTrigger>
+            <SelectContent>
+              {teamMembers.length === 0 ? (
+                <SelectItem value="none" disabled>
+                  No team members available
+                </SelectItem>
+              ) : (
+                teamMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name} ({member.role})
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`${idPrefix}_notify`}
+            checked={config.notify !== false}
+            onCheckedChange={(checked) => onChange({ ...config, notify: checked })}
+          />
+          <Label htmlFor={`${idPrefix}_notify`} className="cursor-pointer text-sm">
+            Send the team member an in-app notification
+          </Label>
+        </div>
+        {config.notify !== false && (
+          <div>
+            <Label>Notification Message</Label>
+            <Input
+              value={config.message || ''}
+              onChange={(e) => onChange({ ...config, message: e.target.value })}
+              placeholder="New lead assigned to you: {{name}} ({{phone_number}})"
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (actionType === 'webhook') {
+    return (
+      <div className="space-y-3">
+        <div>
+          <Label>Webhook URL</Label>
+          <Input
+            type="url"
+            value={config.url || ''}
+            onChange={(e) => onChange({ ...config, url: e.target.value })}
+            placeholder="https://example.com/hooks/leads"
+          />
+        </div>
+        <div>
+          <Label>Signing Secret</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              value={config.secret || ''}
+              onChange={(e) => onChange({ ...config, secret: e.target.value })}
+              placeholder="At least 16 characters"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...config, secret: generateUUID().replace(/-/g, '') })}
+            >
+              Generate
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The contact is sent as JSON. Verify requests with the X-Webhook-Signature header:
+          sha256=HMAC-SHA256(secret, "&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;").
+        </p>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default FlowCrmActionFields;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { getTriggerConditionPlaceholder } from '@/utils/triggerConditions';
+import type { ConditionType, ConditionOperator, TriggerConditionInput } from '@/types/autoEngagement';
+
+interface TriggerConditionGroupCardProps {
+  condition: TriggerConditionInput;
+  onChange: (condition: TriggerConditionInput) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Condition group in the flow builders
+ * Combines its child conditions with AND (all match) or OR (any matches).
+ */
+const TriggerConditionGroupCard: React.FC<TriggerConditionGroupCardProps> = ({
+  condition,
+  onChange,
+  onRemove,
+}) => {
+  const children = condition.conditions || [];
+
+  const updateChild = (index: number, changes: Partial<TriggerConditionInput>) => {
+    onChange({
+      ...condition,
+      conditions: children.map((child, i) => (i === index ? { ...child, ...changes } : child)),
+    });
+  };
+
+  const addChild = () => {
+    onChange({
+      ...condition,
+      conditions: [...children, { condition_type: 'city', condition_operator: 'equals', condition_value: '' }],
+    });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...condition, conditions: children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card className="border-teal-200 dark:border-teal-800">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div className="w-64">
+            <Label>Group (match when)</Label>
+            <Select
+              value={condition.condition_operator}
+              onValueChange={(value) => onChange({ ...condition, condition_operator: value as ConditionOperator })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="and">All conditions match (AND)</SelectItem>
+                <SelectItem value="or">Any condition matches (OR)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={addChild}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add to Group
+            </Button>
+            <Button type="button" variant="destructive" size="sm" onClick={onRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {children.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Add at least one condition to this group
+          </p>
+        )}
+
+        {children.map((child, index) => (
+          <div key={index} className="grid grid-cols-4 gap-4 pl-4 border-l-2 border-teal-200 dark:border-teal-800">
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={child.condition_type}
+                onValueChange={(value) => updateChild(index, { condition_type: value as ConditionType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lead_source">Lead Source</SelectItem>
+                  <SelectItem value="entry_type">Entry Type</SelectItem>
+                  <SelectItem value="custom_field">Custom Field</SelectItem>
+                  <SelectItem value="tag">Tag</SelectItem>
+                  <SelectItem value="lead_stage">Lead Stage</SelectItem>
+                  <SelectItem value="city">City</SelectItem>
+                  <SelectItem value="country">Country</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Operator</Label>
+              <Select
+                value={child.condition_operator}
+                onValueChange={(value) => updateChild(index, { condition_operator: value as ConditionOperator })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="equals">Equals</SelectItem>
+                  <SelectItem value="not_equals">Not Equals</SelectItem>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="greater_than">Greater Than</SelectItem>
+                  <SelectItem value="less_than">Less Than</SelectItem>
+                  <SelectItem value="between">Between</SelectItem>
+                  <SelectItem value="matches_regex">Matches Regex</SelectItem>
+                  <SelectItem value="any">Any</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Value</Label>
+              {child.condition_type === 'custom_field' && (
+                <Input
+                  className="mb-2"
+                  value={child.field_name || ''}
+                  onChange={(e) => updateChild(index, { field_name: e.target.value })}
+                  placeholder="Field name e.g., budget"
+                />
+              )}
+              <Input
+                value={child.condition_value || ''}
+                onChange={(e) => updateChild(index, { condition_value: e.target.value })}
+                placeholder={getTriggerConditionPlaceholder(child)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeChild(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TriggerConditionGroupCard;
@@ -66,6 +66,11 @@ export const API_ENDPOINTS = {
     VOICES: `${API_URL}/agents/voices`,
     TEST_CONNECTION: `${API_URL}/agents/test-connection`,
     UPDATE_STATUS: (id: string) => `${API_URL}/agents/${id}/status`,
+    PROMPT_VERSIONS: (id: string) => `${API_URL}/agents/${id}/prompt-versions`,
+    PROMPT_VERSION: (id: string, versionId: string) => `${API_URL}/agents/${id}/prompt-versions/${versionId}`,
+    PROMPT_ROLLBACK: (id: string, versionId: string) => `${API_URL}/agents/${id}/prompt-versions/${versionId}/rollback`,
+    CALL_VARIABLES: (id: string) => `${API_URL}/agents/${id}/call-variables`,
+    CALL_VARIABLES_PREVIEW: (id: string) => `${API_URL}/agents/${id}/call-variables/preview`,
   },
 
   // Dashboard
@@ -87,6 +92,13 @@ export const API_ENDPOINTS = {
     CHECK: `${API_URL}/billing/check`,
     ADMIN_ADJUST: `${API_URL}/billing/admin/adjust`,
     PROCESS_CALL: `${API_URL}/billing/process-call`,
+    PLANS: `${API_URL}/billing/plans`,
+    SUBSCRIPTION: `${API_URL}/billing/subscription`,
+    PROFILE: `${API_URL}/billing/profile`,
+    INVOICES: `${API_URL}/billing/invoices`,
+    INVOICE_DOWNLOAD: (invoiceId: string) => `${API_URL}/billing/invoices/${invoiceId}/download`,
+    STATEMENT: (month: string) => `${API_URL}/billing/statements/${month}`,
+    STATEMENT_DOWNLOAD: (month: string) => `${API_URL}/billing/statements/${month}/download`,
   },
 
   // Calls
@@ -182,12 +194,19 @@ export const API_ENDPOINTS = {
     MARK_ALL_READ: `${API_URL}/notifications/read-all`,
   },
 
+  // Dashboard event stream (SSE)
+  EVENTS: {
+    TICKET: `${API_URL}/events/ticket`,
+    STREAM: `${API_URL}/events/stream`,
+  },
+
   // Transcripts
   TRANSCRIPTS: {
     SEARCH: `${API_URL}/transcripts/search`,
     ANALYTICS: `${API_URL}/transcripts/analytics`,
     BY_CALL: (callId: string) => `${API_URL}/transcripts/call/${callId}`,
     EXPORT: (callId: string) => `${API_URL}/transcripts/call/${callId}/export`,
+    BULK_EXPORT: `${API_URL}/transcripts/export/bulk`,
     FORMATTED: (callId: string) => `${API_URL}/transcripts/call/${callId}/formatted`,
   },
 
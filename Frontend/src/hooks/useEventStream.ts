@@ -0,0 +1,138 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { API_ENDPOINTS } from '../config/api';
+import { queryKeys } from '../lib/queryClient';
+import { useAuth } from '../contexts/AuthContext';
+
+const EVENT_TYPES = [
+  'call.status',
+  'queue.updated',
+  'campaign.progress',
+  'lead_analytics.created',
+  'notification.created',
+] as const;
+
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+const SEEN_EVENT_ID_WINDOW = 200;
+
+/**
+ * Keeps dashboard queries fresh from the per-user event stream instead of polling.
+ *
+ * EventSource can't send an Authorization header, so each connection uses a short-lived
+ * ticket. The browser's own reconnect would reuse an expired ticket, so reconnects are
+ * done here with a fresh ticket and the last event ID; the server replays what was
+ * missed, or sends `resync` when it can't. Replays overlap the events already received
+ * (a late commit can have a lower ID), so those are dropped by ID.
+ */
+export const useEventStream = () => {
+  const { user, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const lastEventIdRef = useRef<string | null>(null);
+  const seenEventIdsRef = useRef<Set<string>>(new Set());
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const invalidate = (type: string) => {
+      switch (type) {
+        case 'call.status':
+          queryClient.invalidateQueries({ queryKey: queryKeys.calls(userId) });
+          queryClient.invalidateQueries({ queryKey: queryKeys.dashboard });
+          queryClient.invalidateQueries({ queryKey: queryKeys.billing });
+          break;
+        case 'queue.updated':
+        case 'campaign.progress':
+          queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+          break;
+        case 'lead_analytics.created':
+          queryClient.invalidateQueries({ queryKey: queryKeys.leads(userId) });
+          queryClient.invalidateQueries({ queryKey: queryKeys.dashboard });
+          break;
+        case 'notification.created':
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+          break;
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (closed || reconnectTimer) return;
+      const delay = Math.min(RECONNECT_DELAY_MS * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+      attempts += 1;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    };
+
+    const connect = async () => {
+      try {
+        const token = localStorage.getItem('auth_token');
+        if (!token) return;
+
+        const response = await fetch(API_ENDPOINTS.EVENTS.TICKET, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        // The server has the event stream turned off; queries keep their own refresh
+        if (response.status === 503) return;
+        if (!response.ok) throw new Error(`Ticket request failed with ${response.status}`);
+        const { data } = await response.json();
+        if (closed) return;
+
+        const params = new URLSearchParams({ ticket: data.ticket });
+        if (lastEventIdRef.current) params.set('lastEventId', lastEventIdRef.current);
+        source = new EventSource(`${API_ENDPOINTS.EVENTS.STREAM}?${params.toString()}`);
+
+        source.onopen = () => {
+          attempts = 0;
+        };
+
+        for (const type of EVENT_TYPES) {
+          source.addEventListener(type, (event) => {
+            const { lastEventId } = event as MessageEvent;
+            if (lastEventId) {
+              const seen = seenEventIdsRef.current;
+              if (seen.has(lastEventId)) return;
+              seen.add(lastEventId);
+              if (seen.size > SEEN_EVENT_ID_WINDOW) seen.delete(seen.values().next().value as string);
+              if (!lastEventIdRef.current || Number(lastEventId) > Number(lastEventIdRef.current)) {
+                lastEventIdRef.current = lastEventId;
+              }
+            }
+            invalidate(type);
+          });
+        }
+
+        // Missed events can't be replayed: reload everything and stop resuming from the stale ID
+        source.addEventListener('resync', () => {
+          lastEventIdRef.current = null;
+          queryClient.invalidateQueries();
+        });
+
+        source.onerror = () => {
+          source?.close();
+          source = null;
+          scheduleReconnect();
+        };
+      } catch (error) {
+        console.warn('Dashboard event stream unavailable, retrying', error);
+        scheduleReconnect();
+      }
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [isAuthenticated, userId, queryClient]);
+};
@@ -24,6 +24,7 @@ const AutoEngagementExecutionDetail: React.FC = () => {
   const getStatusIcon = (status: ExecutionStatus | ActionLogStatus) => {
     const icons = {
       running: Clock,
+      waiting: Clock,
       pending: Clock,
       completed: CheckCircle,
       success: CheckCircle,
@@ -37,6 +38,7 @@ const AutoEngagementExecutionDetail: React.FC = () => {
   const getStatusColor = (status: ExecutionStatus | ActionLogStatus) => {
     const colors = {
       running: 'text-blue-600',
+      waiting: 'text-amber-600',
       pending: 'text-gray-600',
       completed: 'text-green-600',
       success: 'text-green-600',
@@ -128,6 +130,12 @@ const AutoEngagementExecutionDetail: React.FC = () => {
                     <span className="font-medium">Current Step:</span> {execution.current_action_step}
                   </div>
                 )}
+                {execution.status === 'waiting' && execution.next_run_at && (
+                  <div>
+                    <span className="font-medium">{execution.awaiting_call_id ? 'Call outcome due by:' : 'Resumes:'}</span>{' '}
+                    {new Date(execution.next_run_at).toLocaleString()}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -192,6 +200,7 @@ const AutoEngagementExecutionDetail: React.FC = () => {
                           log.status === 'failed' ? 'border-red-500' :
                           log.status === 'skipped' ? 'border-gray-400' :
                           log.status === 'running' ? 'border-blue-500' :
+                          log.status === 'waiting' ? 'border-amber-500' :
                           'border-gray-300'
                         }`}>
                           <ActionIcon className={`h-6 w-6 ${getStatusColor(log.status)}`} />
@@ -233,6 +242,12 @@ const AutoEngagementExecutionDetail: React.FC = () => {
                                     {new Date(log.completed_at).toLocaleString()}
                                   </div>
                                 )}
+                                {log.status === 'waiting' && log.scheduled_for && (
+                                  <div>
+                                    <span className="font-medium">{log.action_type === 'ai_call' ? 'Call outcome due by:' : 'Resumes:'}</span>{' '}
+                                    {new Date(log.scheduled_for).toLocaleString()}
+                                  </div>
+                                )}
                               </div>
 
                               {log.skip_reason && (
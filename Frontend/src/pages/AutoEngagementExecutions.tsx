@@ -50,6 +50,7 @@ const AutoEngagementExecutions: React.FC = () => {
   const getStatusBadge = (status: ExecutionStatus) => {
     const statusConfig = {
       running: { variant: 'default' as const, className: '', icon: Clock, label: 'Running' },
+      waiting: { variant: 'outline' as const, className: 'border-amber-300 text-amber-700 dark:text-amber-300', icon: Clock, label: 'Waiting' },
       completed: { variant: 'secondary' as const, className: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-300', icon: CheckCircle, label: 'Completed' },
       failed: { variant: 'destructive' as const, className: '', icon: XCircle, label: 'Failed' },
       cancelled: { variant: 'secondary' as const, className: '', icon: PauseCircle, label: 'Cancelled' },
@@ -133,6 +134,7 @@ const AutoEngagementExecutions: React.FC = () => {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="running">Running</SelectItem>
+                <SelectItem value="waiting">Waiting</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
                 <SelectItem value="failed">Failed</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
@@ -191,6 +193,16 @@ const AutoEngagementExecutions: React.FC = () => {
                             Step {execution.current_action_step}
                           </span>
                         )}
+                        {execution.status === 'waiting' && execution.awaiting_call_id && (
+                          <span className="text-sm text-gray-600 dark:text-gray-400">
+                            Waiting for call outcome
+                          </span>
+                        )}
+                        {execution.status === 'waiting' && !execution.awaiting_call_id && execution.next_run_at && (
+                          <span className="text-sm text-gray-600 dark:text-gray-400">
+                            Resumes {new Date(execution.next_run_at).toLocaleString()}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="text-sm">
@@ -221,7 +233,7 @@ const AutoEngagementExecutions: React.FC = () => {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          {execution.status === 'running' && (
+                          {(execution.status === 'running' || execution.status === 'waiting') && (
                             <Button
                               variant="ghost"
                               size="sm"
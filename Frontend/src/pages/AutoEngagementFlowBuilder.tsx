@@ -28,7 +28,10 @@ import { ArrowLeft, Save, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import apiService from '@/services/apiService';
 import { API_ENDPOINTS } from '@/config/api';
-import type { CreateFlowRequest, ActionType, ConditionType, ConditionOperator } from '@/types/autoEngagement';
+import type { CreateFlowRequest, ActionType, ConditionType, ConditionOperator, TriggerConditionInput } from '@/types/autoEngagement';
+import TriggerConditionGroupCard from '@/components/autoEngagement/TriggerConditionGroupCard';
+import FlowCrmActionFields from '@/components/autoEngagement/FlowCrmActionFields';
+import { buildTriggerConditionTree, getTriggerConditionPlaceholder } from '@/utils/triggerConditions';
 
 interface FormValues {
   name: string;
@@ -60,11 +63,7 @@ const AutoEngagementFlowBuilder: React.FC = () => {
     },
   });
 
-  const [triggerConditions, setTriggerConditions] = useState<Array<{
-    condition_type: ConditionType;
-    condition_operator: ConditionOperator;
-    condition_value: string | null;
-  }>>([]);
+  const [triggerConditions, setTriggerConditions] = useState<TriggerConditionInput[]>([]);
 
   const [actions, setActions] = useState<Array<{
     action_order: number;
@@ -108,11 +107,7 @@ const AutoEngagementFlowBuilder: React.FC = () => {
       setValue('business_hours_timezone', flow.business_hours_timezone || 'America/New_York');
       
       if (flow.trigger_conditions) {
-        setTriggerConditions(flow.trigger_conditions.map(c => ({
-          condition_type: c.condition_type as ConditionType,
-          condition_operator: c.condition_operator as ConditionOperator,
-          condition_value: c.condition_value,
-        })));
+        setTriggerConditions(buildTriggerConditionTree(flow.trigger_conditions));
       }
 
       if (flow.actions) {
@@ -183,6 +178,18 @@ const AutoEngagementFlowBuilder: React.FC = () => {
     ]);
   };
 
+  const addTriggerConditionGroup = () => {
+    setTriggerConditions([
+      ...triggerConditions,
+      {
+        condition_type: 'group',
+        condition_operator: 'or',
+        condition_value: null,
+        conditions: [{ condition_type: 'city', condition_operator: 'equals', condition_value: '' }],
+      },
+    ]);
+  };
+
   const removeTriggerCondition = (index: number) => {
     setTriggerConditions(triggerConditions.filter((_, i) => i !== index));
   };
@@ -352,26 +359,48 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                     Define when this flow should be triggered
                   </p>
                 </div>
-                <Button 
-                  type="button" 
-                  size="sm" 
-                  onClick={addTriggerCondition}
-                  className="bg-teal-600 hover:bg-teal-700 text-white"
-                >
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Condition
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={addTriggerConditionGroup}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Group
+                  </Button>
+                  <Button 
+                    type="button" 
+                    size="sm" 
+                    onClick={addTriggerCondition}
+                    className="bg-teal-600 hover:bg-teal-700 text-white"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Condition
+                  </Button>
+                </div>
               </div>
 
               {triggerConditions.length === 0 && (
                 <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    No conditions = matches all contacts
+                    No conditions = matches all new contacts
                   </p>
                 </div>
               )}
 
-              {triggerConditions.map((condition, index) => (
+              {triggerConditions.map((condition, index) => condition.condition_type === 'group' ? (
+                <TriggerConditionGroupCard
+                  key={index}
+                  condition={condition}
+                  onChange={(group) => {
+                    const updated = [...triggerConditions];
+                    updated[index] = group;
+                    setTriggerConditions(updated);
+                  }}
+                  onRemove={() => removeTriggerCondition(index)}
+                />
+              ) : (
                 <Card key={index} className="border-gray-200 dark:border-gray-700">
                   <CardContent className="pt-6">
                     <div className="grid grid-cols-4 gap-4">
@@ -392,6 +421,16 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                             <SelectItem value="lead_source">Lead Source</SelectItem>
                             <SelectItem value="entry_type">Entry Type</SelectItem>
                             <SelectItem value="custom_field">Custom Field</SelectItem>
+                            <SelectItem value="tag">Tag</SelectItem>
+                            <SelectItem value="lead_stage">Lead Stage</SelectItem>
+                            <SelectItem value="city">City</SelectItem>
+                            <SelectItem value="country">Country</SelectItem>
+                            <SelectItem value="lead_stage_changed">Lead Stage Changed To</SelectItem>
+                            <SelectItem value="call_completed">Call Completed (Intent Level)</SelectItem>
+                            <SelectItem value="call_lead_score">Call Completed (Lead Score)</SelectItem>
+                            <SelectItem value="email_opened">Email Opened (Subject)</SelectItem>
+                            <SelectItem value="email_clicked">Email Link Clicked (URL)</SelectItem>
+                            <SelectItem value="whatsapp_button_clicked">WhatsApp Button Clicked</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -412,12 +451,28 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                             <SelectItem value="equals">Equals</SelectItem>
                             <SelectItem value="not_equals">Not Equals</SelectItem>
                             <SelectItem value="contains">Contains</SelectItem>
+                            <SelectItem value="greater_than">Greater Than</SelectItem>
+                            <SelectItem value="less_than">Less Than</SelectItem>
+                            <SelectItem value="between">Between</SelectItem>
+                            <SelectItem value="matches_regex">Matches Regex</SelectItem>
                             <SelectItem value="any">Any</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
                       <div>
                         <Label>Value</Label>
+                        {condition.condition_type === 'custom_field' && (
+                          <Input
+                            className="mb-2"
+                            value={condition.field_name || ''}
+                            onChange={(e) => {
+                              const updated = [...triggerConditions];
+                              updated[index].field_name = e.target.value;
+                              setTriggerConditions(updated);
+                            }}
+                            placeholder="Field name e.g., budget"
+                          />
+                        )}
                         <Input
                           value={condition.condition_value || ''}
                           onChange={(e) => {
@@ -425,7 +480,7 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                             updated[index].condition_value = e.target.value;
                             setTriggerConditions(updated);
                           }}
-                          placeholder="e.g., IndiaMART"
+                          placeholder={getTriggerConditionPlaceholder(condition)}
                         />
                       </div>
                       <div className="flex items-end">
@@ -507,6 +562,12 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                                 updated[index].action_config = { agent_id: '', phone_number_id: '' };
                               } else if (value === 'wait') {
                                 updated[index].action_config = { duration_minutes: 30 };
+                              } else if (value === 'update_tags') {
+                                updated[index].action_config = { add_tags: [], remove_tags: [] };
+                              } else if (value === 'assign_team_member') {
+                                updated[index].action_config = { team_member_id: '', notify: true };
+                              } else if (value === 'update_lead_stage' || value === 'webhook') {
+                                updated[index].action_config = {};
                               }
                               setActions(updated);
                             }}
@@ -519,6 +580,10 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                               <SelectItem value="whatsapp_message">WhatsApp Message</SelectItem>
                               <SelectItem value="email">Email</SelectItem>
                               <SelectItem value="wait">Wait</SelectItem>
+                              <SelectItem value="update_lead_stage">Update Lead Stage</SelectItem>
+                              <SelectItem value="update_tags">Add / Remove Tags</SelectItem>
+                              <SelectItem value="assign_team_member">Assign Team Member</SelectItem>
+                              <SelectItem value="webhook">Webhook</SelectItem>
                             </SelectContent>
                           </Select>
                         </div>
@@ -575,11 +640,12 @@ const AutoEngagementFlowBuilder: React.FC = () => {
 
                         {/* Wait Config */}
                         {action.action_type === 'wait' && (
-                          <div>
+                          <div className="space-y-3">
                             <Label>Duration (minutes)</Label>
                             <Input
                               type="number"
                               min={1}
+                              max={129600}
                               value={action.action_config.duration_minutes || 30}
                               onChange={(e) => {
                                 const updated = [...actions];
@@ -587,9 +653,41 @@ const AutoEngagementFlowBuilder: React.FC = () => {
                                 setActions(updated);
                               }}
                             />
+                            <div className="flex items-center space-x-2">
+                              <Switch
+                                id={`wait_business_hours_${index}`}
+                                checked={!!action.action_config.wait_until_business_hours}
+                                onCheckedChange={(checked) => {
+                                  const updated = [...actions];
+                                  updated[index].action_config.wait_until_business_hours = checked;
+                                  setActions(updated);
+                                }}
+                              />
+                              <Label htmlFor={`wait_business_hours_${index}`} className="cursor-pointer text-sm">
+                                Continue only during business hours
+                              </Label>
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              Waits can last up to 90 days (129600 minutes). Business hours use the flow's custom business hours.
+                            </p>
                           </div>
                         )}
 
+                        {/* CRM Action Config */}
+                        {['update_lead_stage', 'update_tags', 'assign_team_member', 'webhook'].includes(action.action_type) && (
+                          <FlowCrmActionFields
+                            key={action.action_type}
+                            actionType={action.action_type}
+                            config={action.action_config}
+                            idPrefix={`action_${index}`}
+                            onChange={(config) => {
+                              const updated = [...actions];
+                              updated[index].action_config = config;
+                              setActions(updated);
+                            }}
+                          />
+                        )}
+
                         {/* Placeholder for WhatsApp and Email */}
                         {(action.action_type === 'whatsapp_message' || action.action_type === 'email') && (
                           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -524,6 +524,7 @@ const Campaigns: React.FC = () => {
                       no_answer: 0,
                       contacted: 0,
                       failed: 0,
+                      voicemail: 0,
                       not_attempted: 0,
                     };
 
@@ -578,6 +579,9 @@ const Campaigns: React.FC = () => {
                             <div className={theme === 'dark' ? 'text-orange-400' : 'text-orange-600'}>
                               Busy: {attemptDist.busy}
                             </div>
+                            <div className={theme === 'dark' ? 'text-purple-400' : 'text-purple-600'}>
+                              Voicemail: {attemptDist.voicemail ?? 0}
+                            </div>
                             <div className={theme === 'dark' ? 'text-red-400' : 'text-red-600'}>
                               Failed: {failedCalls}
                             </div>
@@ -19,6 +19,7 @@ import AutoEngagementAnalytics from "@/pages/AutoEngagementAnalytics";
 import { useTheme } from "@/components/theme/ThemeProvider";
 import { useAgents } from "@/contexts/AgentContext";
 import { NavigationProvider, useNavigation } from "@/contexts/NavigationContext";
+import { useEventStream } from "@/hooks/useEventStream";
 import AgentSelector from "@/components/ui/AgentSelector";
 import { Toaster } from "sonner";
 import LeadProfileTab from "@/components/chat/LeadProfileTab";
@@ -102,6 +103,9 @@ const DashboardContent = ({
   const { activeTab, activeSubTab, setActiveTab, setActiveSubTab } = useNavigation();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
+  // Live updates for calls, campaigns, leads and notifications
+  useEventStream();
+
   // Agents are now managed by the useAgents hook from AgentContext
 
   // State for profile/lead viewing
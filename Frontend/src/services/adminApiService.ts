@@ -31,6 +31,10 @@ import type {
   PhoneNumber,
   PhoneNumberStats,
   AssignableAgent,
+  BackgroundJob,
+  BackgroundJobStats,
+  BackgroundJobStatus,
+  BackgroundJobType,
 } from '../types/admin';
 
 // Base API configuration
@@ -117,6 +121,15 @@ const ADMIN_ENDPOINTS = {
   HEALTH: {
     SYSTEM: `${ADMIN_API_BASE}/health/system`,
   },
+
+  // Background Jobs
+  JOBS: {
+    LIST: `${ADMIN_API_BASE}/jobs`,
+    STATS: `${ADMIN_API_BASE}/jobs/stats`,
+    GET: (id: string) => `${ADMIN_API_BASE}/jobs/${id}`,
+    RETRY: (id: string) => `${ADMIN_API_BASE}/jobs/${id}/retry`,
+    CANCEL: (id: string) => `${ADMIN_API_BASE}/jobs/${id}/cancel`,
+  },
   
   // Phone Number Management
   PHONE_NUMBERS: {
@@ -1036,6 +1049,33 @@ class AdminApiService {
   async getSystemHealth(): Promise<ApiResponse<any>> {
     return adminRequest<any>(ADMIN_ENDPOINTS.HEALTH.SYSTEM);
   }
+
+  // ============================================================================
+  // BACKGROUND JOB METHODS
+  // ============================================================================
+
+  async getBackgroundJobs(options: {
+    status?: BackgroundJobStatus;
+    job_type?: BackgroundJobType;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<PaginatedResponse<BackgroundJob>> {
+    const queryString = buildQueryString(options);
+    const url = queryString ? `${ADMIN_ENDPOINTS.JOBS.LIST}?${queryString}` : ADMIN_ENDPOINTS.JOBS.LIST;
+    return adminRequest<BackgroundJob[]>(url) as Promise<PaginatedResponse<BackgroundJob>>;
+  }
+
+  async getBackgroundJobStats(): Promise<ApiResponse<BackgroundJobStats[]>> {
+    return adminRequest<BackgroundJobStats[]>(ADMIN_ENDPOINTS.JOBS.STATS);
+  }
+
+  async retryBackgroundJob(jobId: string): Promise<ApiResponse<BackgroundJob>> {
+    return adminRequest<BackgroundJob>(ADMIN_ENDPOINTS.JOBS.RETRY(jobId), { method: 'POST' });
+  }
+
+  async cancelBackgroundJob(jobId: string): Promise<ApiResponse<BackgroundJob>> {
+    return adminRequest<BackgroundJob>(ADMIN_ENDPOINTS.JOBS.CANCEL(jobId), { method: 'POST' });
+  }
 }
 
 // Export singleton instance
@@ -8,6 +8,7 @@ import type {
   CreateFlowRequest,
   UpdateFlowRequest,
   BulkPriorityUpdateRequest,
+  TriggerConditionInput,
   FlowsListResponse,
   FlowResponse,
   ExecutionsListResponse,
@@ -64,18 +65,17 @@ export const autoEngagementService = {
 
   async updateTriggerConditions(
     id: string,
-    conditions: Array<{
-      condition_type: string;
-      condition_operator: string;
-      condition_value: string | null;
-    }>
+    conditions: TriggerConditionInput[]
   ): Promise<{ success: boolean; data: any[] }> {
     // Backend expects camelCase, normalize from snake_case
-    const normalizedConditions = conditions.map(c => ({
+    const normalizeCondition = (c: TriggerConditionInput): Record<string, unknown> => ({
       conditionType: c.condition_type,
       conditionOperator: c.condition_operator,
-      conditionValue: c.condition_value ?? null
-    }));
+      conditionValue: c.condition_value ?? null,
+      fieldName: c.field_name ?? null,
+      conditions: c.conditions?.map(normalizeCondition)
+    });
+    const normalizedConditions = conditions.map(normalizeCondition);
 
     return apiService.put<{ success: boolean; data: any[] }>(
       API_ENDPOINTS.AUTO_ENGAGEMENT.FLOW_CONDITIONS(id),
@@ -690,6 +690,40 @@ export interface LeadWithCustomFields {
   created_at: string;
 }
 
+// ============================================================================
+// BACKGROUND JOBS
+// ============================================================================
+
+export type BackgroundJobStatus = 'pending' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+export type BackgroundJobType = 'scheduled_email' | 'email_campaign';
+
+export interface BackgroundJob {
+  id: string;
+  job_type: BackgroundJobType;
+  payload: Record<string, unknown>;
+  user_id: string | null;
+  status: BackgroundJobStatus;
+  run_at: string;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  locked_by: string | null;
+  locked_until: string | null;
+  dedupe_key: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BackgroundJobStats {
+  job_type: BackgroundJobType;
+  status: BackgroundJobStatus;
+  count: number;
+  oldest_run_at: string | null;
+}
+
 // ============================================================================
 // EXPORT ALL TYPES
 // ============================================================================
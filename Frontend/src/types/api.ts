@@ -430,6 +430,20 @@ export interface CustomRetrySchedule {
   retries: CustomRetryEntry[];
 }
 
+export type CampaignWeekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+export interface CampaignDayWindow {
+  first_call_time: string; // HH:MM:SS format
+  last_call_time: string;  // HH:MM:SS format
+}
+
 export interface Campaign {
   id: string;
   user_id: string;
@@ -450,6 +464,14 @@ export interface Campaign {
   campaign_timezone?: string | null;
   use_custom_timezone?: boolean;
   
+  // Calendar and pacing
+  weekly_schedule?: Partial<Record<CampaignWeekday, CampaignDayWindow>> | null; // null = every day
+  blackout_dates?: string[];          // YYYY-MM-DD dates with no calls
+  max_calls_per_day?: number | null;  // null = no cap
+  max_calls_per_hour?: number | null; // null = no cap
+  call_pace_seconds?: number;         // Minimum seconds between calls (0 = no pacing)
+  use_contact_timezone?: boolean;     // Calling window applies in each contact's timezone
+  
   // Retry configuration
   max_retries?: number;
   retry_interval_minutes?: number;
@@ -508,6 +530,7 @@ export interface CampaignAnalytics {
     no_answer: number;      // call_lifecycle_status = 'no-answer'
     contacted: number;      // call_lifecycle_status IN ('completed', 'in-progress')
     failed: number;         // call_lifecycle_status = 'failed'
+    voicemail: number;      // call_lifecycle_status = 'voicemail'
     not_attempted: number;  // call_lifecycle_status = 'initiated' or null
   };
   
@@ -1012,7 +1035,7 @@ export interface CallCreditsRequest {
 export interface CallCreditsResponse {
   creditsUsed: number;
   remainingCredits: number;
-  transaction: CreditTransaction;
+  transaction: CreditTransaction | null; // null when nothing was charged
 }
 
 export interface CreditCheckResponse {
@@ -3,6 +3,7 @@
 
 export type ExecutionStatus = 
   | 'running'
+  | 'waiting'
   | 'completed'
   | 'failed'
   | 'cancelled'
@@ -11,6 +12,7 @@ export type ExecutionStatus =
 export type ActionLogStatus = 
   | 'pending'
   | 'running'
+  | 'waiting'
   | 'success'
   | 'failed'
   | 'skipped';
@@ -19,27 +21,53 @@ export type ActionType =
   | 'ai_call'
   | 'whatsapp_message'
   | 'email'
-  | 'wait';
+  | 'wait'
+  | 'update_lead_stage'
+  | 'update_tags'
+  | 'assign_team_member'
+  | 'webhook';
 
 export type ConditionType = 
   | 'lead_source'
   | 'entry_type'
-  | 'custom_field';
+  | 'custom_field'
+  | 'tag'
+  | 'lead_stage'
+  | 'city'
+  | 'country'
+  // Combines its child conditions with the and/or operator
+  | 'group'
+  // Event triggers - flows with one of these run on that event instead of contact creation
+  | 'lead_stage_changed'
+  | 'call_completed'
+  | 'call_lead_score'
+  | 'email_opened'
+  | 'email_clicked'
+  | 'whatsapp_button_clicked';
 
 export type ConditionOperator = 
   | 'equals'
   | 'not_equals'
   | 'contains'
-  | 'any';
+  | 'greater_than'
+  | 'less_than'
+  | 'between'        // condition_value is "min,max" (inclusive)
+  | 'matches_regex'
+  | 'any'
+  // Group operators
+  | 'and'
+  | 'or';
 
 export type ActionConditionType = 
   | 'call_outcome'
   | 'previous_action_status'
+  | 'lead_score'
   | 'always';
 
 export type CallOutcome = 
   | 'answered'
   | 'missed'
+  | 'voicemail'
   | 'failed';
 
 // Auto Engagement Flow
@@ -67,12 +95,24 @@ export interface AutoEngagementFlow {
 export interface FlowTriggerCondition {
   id: string;
   flow_id: string;
+  parent_id: string | null;
   condition_type: ConditionType;
   condition_operator: ConditionOperator;
   condition_value: string | null;
+  field_name: string | null;
+  condition_order: number;
   created_at: string;
 }
 
+// Trigger condition as edited in the flow builder; groups carry their children
+export interface TriggerConditionInput {
+  condition_type: ConditionType;
+  condition_operator: ConditionOperator;
+  condition_value: string | null;
+  field_name?: string | null;
+  conditions?: TriggerConditionInput[];
+}
+
 // Action Configurations
 export interface AICallActionConfig {
   agent_id: string;
@@ -98,11 +138,36 @@ export interface WaitActionConfig {
   wait_until_business_hours?: boolean;
 }
 
+export interface UpdateLeadStageActionConfig {
+  stage: string;
+}
+
+export interface UpdateTagsActionConfig {
+  add_tags?: string[];
+  remove_tags?: string[];
+}
+
+export interface AssignTeamMemberActionConfig {
+  team_member_id: string;
+  notify?: boolean;
+  message?: string | null;
+}
+
+export interface WebhookActionConfig {
+  url: string;
+  secret: string;
+  headers?: Record<string, string>;
+}
+
 export type ActionConfig = 
   | AICallActionConfig 
   | WhatsAppActionConfig 
   | EmailActionConfig 
-  | WaitActionConfig;
+  | WaitActionConfig
+  | UpdateLeadStageActionConfig
+  | UpdateTagsActionConfig
+  | AssignTeamMemberActionConfig
+  | WebhookActionConfig;
 
 // Flow Action
 export interface FlowAction {
@@ -130,6 +195,11 @@ export interface FlowExecution {
   status: ExecutionStatus;
   current_action_step: number;
   
+  // Scheduled resumption (wait actions)
+  next_run_at: string | null;
+  resume_action_order: number | null;
+  awaiting_call_id: string | null;
+  
   completed_at: string | null;
   error_message: string | null;
   
@@ -156,6 +226,7 @@ export interface FlowActionLog {
   
   started_at: string;
   completed_at: string | null;
+  scheduled_for: string | null;
   
   status: ActionLogStatus;
   
@@ -185,11 +256,7 @@ export interface CreateFlowRequest {
   business_hours_timezone?: string;
   
   // Triggers and actions
-  trigger_conditions?: Array<{
-    condition_type: ConditionType;
-    condition_operator: ConditionOperator;
-    condition_value: string | null;
-  }>;
+  trigger_conditions?: TriggerConditionInput[];
   
   actions?: Array<{
     action_order: number;
@@ -226,6 +293,7 @@ export interface FlowExecutionStats {
   completed: number;
   failed: number;
   running: number;
+  waiting: number;
   cancelled: number;
   skipped: number;
 }
@@ -0,0 +1,55 @@
+/**
+ * Trigger condition helpers for the auto engagement flow builders
+ */
+
+import type { FlowTriggerCondition, TriggerConditionInput } from '@/types/autoEngagement';
+
+/**
+ * Build the nested condition list edited by the flow builders from the flat
+ * rows returned by the API (group membership is given by parent_id)
+ */
+export function buildTriggerConditionTree(
+  conditions: FlowTriggerCondition[],
+  parentId: string | null = null
+): TriggerConditionInput[] {
+  return conditions
+    .filter(c => (c.parent_id || null) === parentId)
+    .sort((a, b) => (a.condition_order || 0) - (b.condition_order || 0))
+    .map(c => ({
+      condition_type: c.condition_type,
+      condition_operator: c.condition_operator,
+      condition_value: c.condition_value,
+      field_name: c.field_name,
+      conditions: c.condition_type === 'group' ? buildTriggerConditionTree(conditions, c.id) : undefined,
+    }));
+}
+
+/**
+ * Placeholder for the value input of a trigger condition
+ */
+export function getTriggerConditionPlaceholder(condition: TriggerConditionInput): string {
+  switch (condition.condition_operator) {
+    case 'between':
+      return 'min,max e.g., 50000,100000';
+    case 'matches_regex':
+      return 'Regex e.g., ^(mumbai|pune)$';
+    case 'greater_than':
+    case 'less_than':
+      return condition.condition_type === 'call_lead_score' ? 'e.g., 70' : 'e.g., 50000';
+  }
+
+  switch (condition.condition_type) {
+    case 'tag':
+      return 'e.g., VIP';
+    case 'lead_stage':
+      return 'e.g., Qualified';
+    case 'city':
+      return 'e.g., Mumbai';
+    case 'country':
+      return 'e.g., India';
+    case 'call_lead_score':
+      return 'e.g., 70';
+    default:
+      return 'e.g., IndiaMART';
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Lead Source Presets
+ *
+ * Payload formats of the lead portals users connect most often. A preset gives a new lead
+ * source its authentication mode, its default field mapping and the function that pulls
+ * the lead records out of a request body. The mapping stays editable per source.
+ *
+ * - IndiaMART: CRM Push API, one lead in RESPONSE
+ * - TradeIndia: inquiry push, one lead object or an array of them
+ * - JustDial: lead push, sent as query parameters or a form/JSON body
+ * - Facebook Lead Ads: lead objects with field_data (Graph API format, alone or in `data`); the page
+ *   webhook itself only carries leadgen ids, which the service fetches with a page access token
+ */
+
+import { LeadFieldMapping, LeadSourceAuthMode, LeadSourcePresetName } from '../types/leadSource';
+
+export interface LeadSourcePreset {
+  name: LeadSourcePresetName;
+  label: string;
+  description: string;
+  auth_mode: LeadSourceAuthMode;
+  signature_header: string;
+  source_label: string;
+  field_mapping: LeadFieldMapping[];
+  extractRecords: (payload: any) => Record<string, any>[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A body that is one record or an array of records
+const recordsOf = (value: unknown): Record<string, any>[] => {
+  if (Array.isArray(value)) return value.filter(isObject);
+  return isObject(value) ? [value] : [];
+};
+
+/**
+ * Facebook lead object (Graph API format) as a flat record:
+ * field_data entries become keys, next to the lead's id, created_time, form_id, ad_id...
+ */
+export const flattenFacebookLead = (lead: Record<string, any>): Record<string, any> => {
+  const { field_data: fieldData, ...rest } = lead;
+  const record: Record<string, any> = { ...rest };
+  if (Array.isArray(fieldData)) {
+    for (const field of fieldData) {
+      if (field && typeof field.name === 'string') {
+        record[field.name] = Array.isArray(field.values) ? field.values.join(', ') : field.values;
+      }
+    }
+  }
+  return record;
+};
+
+/**
+ * Lead ids in a Facebook page webhook (object "page", leadgen changes)
+ */
+export const facebookLeadgenIds = (payload: any): string[] => {
+  if (!isObject(payload) || !Array.isArray(payload.entry)) return [];
+  const ids: string[] = [];
+  for (const entry of payload.entry) {
+    for (const change of Array.isArray(entry?.changes) ? entry.changes : []) {
+      if (change?.field === 'leadgen' && change.value?.leadgen_id) {
+        ids.push(String(change.value.leadgen_id));
+      }
+    }
+  }
+  return ids;
+};
+
+export const LEAD_SOURCE_PRESETS: Record<LeadSourcePresetName, LeadSourcePreset> = {
+  custom: {
+    name: 'custom',
+    label: 'Custom',
+    description: 'Any JSON payload; map its fields to contact fields yourself',
+    auth_mode: 'hmac_sha256',
+    signature_header: 'x-signature',
+    source_label: 'Webhook',
+    field_mapping: [
+      { source_path: 'name', target: 'name' },
+      { source_path: 'phone', target: 'phone_number' },
+      { source_path: 'email', target: 'email' },
+      { source_path: 'company', target: 'company' },
+      { source_path: 'city', target: 'city' },
+      { source_path: 'country', target: 'country' },
+      { source_path: 'notes', target: 'notes' }
+    ],
+    extractRecords: recordsOf
+  },
+  indiamart: {
+    name: 'indiamart',
+    label: 'IndiaMART',
+    description: 'IndiaMART CRM Push API',
+    auth_mode: 'shared_secret',
+    signature_header: 'x-lead-source-secret',
+    source_label: 'IndiaMART',
+    field_mapping: [
+      { source_path: 'SENDER_NAME', target: 'name' },
+      { source_path: 'SENDER_MOBILE', target: 'phone_number' },
+      { source_path: 'SENDER_MOBILE_ALT', target: 'phone_number' },
+      { source_path: 'SENDER_EMAIL', target: 'email' },
+      { source_path: 'SENDER_COMPANY', target: 'company' },
+      { source_path: 'SENDER_CITY', target: 'city' },
+      { source_path: 'SENDER_COUNTRY_ISO', target: 'country' },
+      { source_path: 'SUBJECT', target: 'notes' },
+      { source_path: 'QUERY_MESSAGE', target: 'notes' },
+      { source_path: 'QUERY_PRODUCT_NAME', target: 'custom.product' },
+      { source_path: 'SENDER_STATE', target: 'custom.state' },
+      { source_path: 'UNIQUE_QUERY_ID', target: 'custom.indiamart_query_id' }
+    ],
+    extractRecords: payload => (isObject(payload) && 'RESPONSE' in payload ? recordsOf(payload.RESPONSE) : recordsOf(payload))
+  },
+  tradeindia: {
+    name: 'tradeindia',
+    label: 'TradeIndia',
+    description: 'TradeIndia inquiry push',
+    auth_mode: 'shared_secret',
+    signature_header: 'x-lead-source-secret',
+    source_label: 'TradeIndia',
+    field_mapping: [
+      { source_path: 'sender_name', target: 'name' },
+      { source_path: 'sender_mobile', target: 'phone_number' },
+      { source_path: 'sender_email', target: 'email' },
+      { source_path: 'sender_co', target: 'company' },
+      { source_path: 'sender_city', target: 'city' },
+      { source_path: 'sender_country', target: 'country' },
+      { source_path: 'subject', target: 'notes' },
+      { source_path: 'message', target: 'notes' },
+      { source_path: 'product_name', target: 'custom.product' },
+      { source_path: 'sender_state', target: 'custom.state' },
+      { source_path: 'rfi_id', target: 'custom.tradeindia_inquiry_id' }
+    ],
+    extractRecords: payload => (isObject(payload) && Array.isArray(payload.data) ? recordsOf(payload.data) : recordsOf(payload))
+  },
+  justdial: {
+    name: 'justdial',
+    label: 'JustDial',
+    description: 'JustDial lead push (query parameters or form body)',
+    auth_mode: 'shared_secret',
+    signature_header: 'x-lead-source-secret',
+    source_label: 'JustDial',
+    field_mapping: [
+      { source_path: 'name', target: 'name' },
+      { source_path: 'mobile', target: 'phone_number' },
+      { source_path: 'phone', target: 'phone_number' },
+      { source_path: 'email', target: 'email' },
+      { source_path: 'company', target: 'company' },
+      { source_path: 'city', target: 'city' },
+      { source_path: 'category', target: 'notes' },
+      { source_path: 'area', target: 'custom.area' },
+      { source_path: 'pincode', target: 'custom.pincode' },
+      { source_path: 'leadid', target: 'custom.justdial_lead_id' }
+    ],
+    extractRecords: recordsOf
+  },
+  facebook_lead_ads: {
+    name: 'facebook_lead_ads',
+    label: 'Facebook Lead Ads',
+    description: 'Facebook page leadgen webhook (signed with the app secret)',
+    auth_mode: 'hmac_sha256',
+    signature_header: 'x-hub-signature-256',
+    source_label: 'Facebook Lead Ads',
+    field_mapping: [
+      { source_path: 'full_name', target: 'name' },
+      { source_path: 'first_name', target: 'name' },
+      { source_path: 'phone_number', target: 'phone_number' },
+      { source_path: 'email', target: 'email' },
+      { source_path: 'company_name', target: 'company' },
+      { source_path: 'city', target: 'city' },
+      { source_path: 'country', target: 'country' },
+      { source_path: 'form_id', target: 'custom.facebook_form_id' },
+      { source_path: 'id', target: 'custom.facebook_lead_id' }
+    ],
+    extractRecords: payload =>
+      recordsOf(isObject(payload) && Array.isArray(payload.data) ? payload.data : payload)
+        .filter(lead => Array.isArray(lead.field_data))
+        .map(flattenFacebookLead)
+  }
+};
+
+export const LEAD_SOURCE_PRESET_NAMES = Object.keys(LEAD_SOURCE_PRESETS) as LeadSourcePresetName[];
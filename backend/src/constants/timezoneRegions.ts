@@ -0,0 +1,212 @@
+/**
+ * Lookup tables for inferring a contact's timezone
+ * Countries spanning several timezones map to their most populous one; the city and
+ * (for +1 numbers) area code tables refine that where it matters most.
+ */
+
+/**
+ * International calling code -> IANA timezone
+ */
+export const CALLING_CODE_TIMEZONES: Record<string, string> = {
+  '1': 'America/New_York',
+  '7': 'Europe/Moscow',
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '30': 'Europe/Athens',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '36': 'Europe/Budapest',
+  '39': 'Europe/Rome',
+  '40': 'Europe/Bucharest',
+  '41': 'Europe/Zurich',
+  '43': 'Europe/Vienna',
+  '44': 'Europe/London',
+  '45': 'Europe/Copenhagen',
+  '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo',
+  '48': 'Europe/Warsaw',
+  '49': 'Europe/Berlin',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '54': 'America/Argentina/Buenos_Aires',
+  '55': 'America/Sao_Paulo',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '58': 'America/Caracas',
+  '60': 'Asia/Kuala_Lumpur',
+  '61': 'Australia/Sydney',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '66': 'Asia/Bangkok',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '84': 'Asia/Ho_Chi_Minh',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '93': 'Asia/Kabul',
+  '94': 'Asia/Colombo',
+  '95': 'Asia/Yangon',
+  '98': 'Asia/Tehran',
+  '212': 'Africa/Casablanca',
+  '213': 'Africa/Algiers',
+  '216': 'Africa/Tunis',
+  '234': 'Africa/Lagos',
+  '233': 'Africa/Accra',
+  '254': 'Africa/Nairobi',
+  '255': 'Africa/Dar_es_Salaam',
+  '256': 'Africa/Kampala',
+  '251': 'Africa/Addis_Ababa',
+  '351': 'Europe/Lisbon',
+  '353': 'Europe/Dublin',
+  '358': 'Europe/Helsinki',
+  '380': 'Europe/Kiev',
+  '420': 'Europe/Prague',
+  '852': 'Asia/Hong_Kong',
+  '880': 'Asia/Dhaka',
+  '886': 'Asia/Taipei',
+  '960': 'Indian/Maldives',
+  '961': 'Asia/Beirut',
+  '962': 'Asia/Amman',
+  '965': 'Asia/Kuwait',
+  '966': 'Asia/Riyadh',
+  '968': 'Asia/Muscat',
+  '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem',
+  '973': 'Asia/Bahrain',
+  '974': 'Asia/Qatar',
+  '977': 'Asia/Kathmandu'
+};
+
+/**
+ * North American (+1) area codes outside US Eastern time, by timezone
+ * Area codes not listed here use America/New_York.
+ */
+export const NANP_AREA_CODE_TIMEZONES: Record<string, number[]> = {
+  'America/Los_Angeles': [
+    209, 213, 279, 310, 323, 341, 350, 408, 415, 424, 442, 510, 530, 559, 562, 619, 626, 628, 650,
+    657, 661, 669, 707, 714, 747, 760, 805, 818, 820, 831, 840, 858, 909, 916, 925, 949, 951,
+    206, 253, 360, 425, 509, 564, 458, 503, 541, 971, 702, 725, 775
+  ],
+  'America/Denver': [
+    303, 719, 720, 970, 983, 385, 435, 801, 505, 575, 406, 307, 208, 986, 915
+  ],
+  'America/Phoenix': [480, 520, 602, 623, 928],
+  'America/Chicago': [
+    210, 214, 254, 281, 325, 346, 361, 409, 430, 432, 469, 512, 682, 713, 726, 737, 806, 817, 830,
+    832, 903, 936, 940, 945, 956, 972, 979, 217, 224, 309, 312, 331, 447, 464, 618, 630, 708, 773,
+    779, 815, 847, 872, 218, 320, 507, 612, 651, 763, 952, 262, 274, 414, 534, 608, 715, 920, 319,
+    515, 563, 641, 712, 314, 417, 557, 573, 636, 660, 816, 975, 316, 620, 785, 913, 308, 402, 531,
+    405, 539, 572, 580, 918, 327, 479, 501, 870, 225, 318, 337, 504, 985, 228, 601, 662, 769, 205,
+    251, 256, 334, 659, 938, 615, 629, 731, 901, 931, 701, 605
+  ],
+  'America/Anchorage': [907],
+  'Pacific/Honolulu': [808],
+  'America/Vancouver': [236, 250, 604, 672, 778],
+  'America/Edmonton': [368, 403, 587, 780, 825],
+  'America/Regina': [306, 639],
+  'America/Winnipeg': [204, 431],
+  'America/Halifax': [782, 902],
+  'America/St_Johns': [709],
+  'America/Puerto_Rico': [787, 939]
+};
+
+/**
+ * Country name or ISO 3166-1 alpha-2 code (lowercase) -> IANA timezone
+ */
+export const COUNTRY_TIMEZONES: Record<string, string> = {
+  'india': 'Asia/Kolkata', 'in': 'Asia/Kolkata',
+  'united states': 'America/New_York', 'usa': 'America/New_York', 'us': 'America/New_York',
+  'united states of america': 'America/New_York',
+  'canada': 'America/Toronto', 'ca': 'America/Toronto',
+  'united kingdom': 'Europe/London', 'uk': 'Europe/London', 'gb': 'Europe/London',
+  'great britain': 'Europe/London', 'england': 'Europe/London',
+  'ireland': 'Europe/Dublin', 'ie': 'Europe/Dublin',
+  'germany': 'Europe/Berlin', 'de': 'Europe/Berlin',
+  'france': 'Europe/Paris', 'fr': 'Europe/Paris',
+  'spain': 'Europe/Madrid', 'es': 'Europe/Madrid',
+  'italy': 'Europe/Rome', 'it': 'Europe/Rome',
+  'netherlands': 'Europe/Amsterdam', 'nl': 'Europe/Amsterdam',
+  'portugal': 'Europe/Lisbon', 'pt': 'Europe/Lisbon',
+  'switzerland': 'Europe/Zurich', 'ch': 'Europe/Zurich',
+  'poland': 'Europe/Warsaw', 'pl': 'Europe/Warsaw',
+  'sweden': 'Europe/Stockholm', 'se': 'Europe/Stockholm',
+  'russia': 'Europe/Moscow', 'ru': 'Europe/Moscow',
+  'turkey': 'Europe/Istanbul', 'tr': 'Europe/Istanbul',
+  'united arab emirates': 'Asia/Dubai', 'uae': 'Asia/Dubai', 'ae': 'Asia/Dubai',
+  'saudi arabia': 'Asia/Riyadh', 'sa': 'Asia/Riyadh',
+  'qatar': 'Asia/Qatar', 'qa': 'Asia/Qatar',
+  'kuwait': 'Asia/Kuwait', 'kw': 'Asia/Kuwait',
+  'oman': 'Asia/Muscat', 'om': 'Asia/Muscat',
+  'bahrain': 'Asia/Bahrain', 'bh': 'Asia/Bahrain',
+  'israel': 'Asia/Jerusalem', 'il': 'Asia/Jerusalem',
+  'egypt': 'Africa/Cairo', 'eg': 'Africa/Cairo',
+  'south africa': 'Africa/Johannesburg', 'za': 'Africa/Johannesburg',
+  'nigeria': 'Africa/Lagos', 'ng': 'Africa/Lagos',
+  'kenya': 'Africa/Nairobi', 'ke': 'Africa/Nairobi',
+  'pakistan': 'Asia/Karachi', 'pk': 'Asia/Karachi',
+  'bangladesh': 'Asia/Dhaka', 'bd': 'Asia/Dhaka',
+  'sri lanka': 'Asia/Colombo', 'lk': 'Asia/Colombo',
+  'nepal': 'Asia/Kathmandu', 'np': 'Asia/Kathmandu',
+  'singapore': 'Asia/Singapore', 'sg': 'Asia/Singapore',
+  'malaysia': 'Asia/Kuala_Lumpur', 'my': 'Asia/Kuala_Lumpur',
+  'indonesia': 'Asia/Jakarta', 'id': 'Asia/Jakarta',
+  'philippines': 'Asia/Manila', 'ph': 'Asia/Manila',
+  'thailand': 'Asia/Bangkok', 'th': 'Asia/Bangkok',
+  'vietnam': 'Asia/Ho_Chi_Minh', 'vn': 'Asia/Ho_Chi_Minh',
+  'china': 'Asia/Shanghai', 'cn': 'Asia/Shanghai',
+  'hong kong': 'Asia/Hong_Kong', 'hk': 'Asia/Hong_Kong',
+  'japan': 'Asia/Tokyo', 'jp': 'Asia/Tokyo',
+  'south korea': 'Asia/Seoul', 'korea': 'Asia/Seoul', 'kr': 'Asia/Seoul',
+  'australia': 'Australia/Sydney', 'au': 'Australia/Sydney',
+  'new zealand': 'Pacific/Auckland', 'nz': 'Pacific/Auckland',
+  'mexico': 'America/Mexico_City', 'mx': 'America/Mexico_City',
+  'brazil': 'America/Sao_Paulo', 'br': 'America/Sao_Paulo',
+  'argentina': 'America/Argentina/Buenos_Aires', 'ar': 'America/Argentina/Buenos_Aires',
+  'chile': 'America/Santiago', 'cl': 'America/Santiago',
+  'colombia': 'America/Bogota', 'co': 'America/Bogota',
+  'peru': 'America/Lima', 'pe': 'America/Lima'
+};
+
+/**
+ * City (lowercase) -> IANA timezone, mainly for countries spanning several timezones
+ */
+export const CITY_TIMEZONES: Record<string, string> = {
+  // United States
+  'new york': 'America/New_York', 'boston': 'America/New_York', 'miami': 'America/New_York',
+  'atlanta': 'America/New_York', 'washington': 'America/New_York', 'philadelphia': 'America/New_York',
+  'detroit': 'America/Detroit', 'chicago': 'America/Chicago', 'houston': 'America/Chicago',
+  'dallas': 'America/Chicago', 'austin': 'America/Chicago', 'san antonio': 'America/Chicago',
+  'minneapolis': 'America/Chicago', 'nashville': 'America/Chicago', 'new orleans': 'America/Chicago',
+  'denver': 'America/Denver', 'salt lake city': 'America/Denver', 'phoenix': 'America/Phoenix',
+  'los angeles': 'America/Los_Angeles', 'san francisco': 'America/Los_Angeles',
+  'san diego': 'America/Los_Angeles', 'san jose': 'America/Los_Angeles', 'seattle': 'America/Los_Angeles',
+  'portland': 'America/Los_Angeles', 'las vegas': 'America/Los_Angeles',
+  'anchorage': 'America/Anchorage', 'honolulu': 'Pacific/Honolulu',
+  // Canada
+  'toronto': 'America/Toronto', 'montreal': 'America/Toronto', 'ottawa': 'America/Toronto',
+  'vancouver': 'America/Vancouver', 'calgary': 'America/Edmonton', 'edmonton': 'America/Edmonton',
+  'winnipeg': 'America/Winnipeg', 'regina': 'America/Regina', 'halifax': 'America/Halifax',
+  // Australia
+  'sydney': 'Australia/Sydney', 'melbourne': 'Australia/Melbourne', 'brisbane': 'Australia/Brisbane',
+  'perth': 'Australia/Perth', 'adelaide': 'Australia/Adelaide', 'darwin': 'Australia/Darwin',
+  // Brazil, Mexico, Russia, Indonesia
+  'sao paulo': 'America/Sao_Paulo', 'rio de janeiro': 'America/Sao_Paulo', 'manaus': 'America/Manaus',
+  'mexico city': 'America/Mexico_City', 'monterrey': 'America/Monterrey', 'tijuana': 'America/Tijuana',
+  'cancun': 'America/Cancun', 'moscow': 'Europe/Moscow', 'novosibirsk': 'Asia/Novosibirsk',
+  'vladivostok': 'Asia/Vladivostok', 'jakarta': 'Asia/Jakarta', 'denpasar': 'Asia/Makassar',
+  'bali': 'Asia/Makassar', 'jayapura': 'Asia/Jayapura',
+  // Single-timezone hubs often given without a country
+  'london': 'Europe/London', 'dubai': 'Asia/Dubai', 'abu dhabi': 'Asia/Dubai', 'singapore': 'Asia/Singapore',
+  'mumbai': 'Asia/Kolkata', 'delhi': 'Asia/Kolkata', 'new delhi': 'Asia/Kolkata', 'bangalore': 'Asia/Kolkata',
+  'bengaluru': 'Asia/Kolkata', 'chennai': 'Asia/Kolkata', 'hyderabad': 'Asia/Kolkata', 'kolkata': 'Asia/Kolkata',
+  'pune': 'Asia/Kolkata', 'riyadh': 'Asia/Riyadh', 'doha': 'Asia/Qatar', 'karachi': 'Asia/Karachi',
+  'lahore': 'Asia/Karachi', 'dhaka': 'Asia/Dhaka', 'kathmandu': 'Asia/Kathmandu',
+  'hong kong': 'Asia/Hong_Kong', 'tokyo': 'Asia/Tokyo', 'paris': 'Europe/Paris', 'berlin': 'Europe/Berlin',
+  'lagos': 'Africa/Lagos', 'nairobi': 'Africa/Nairobi', 'johannesburg': 'Africa/Johannesburg'
+};
@@ -1,6 +1,5 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/User';
-import { CreditTransactionModel } from '../models/CreditTransaction';
 import AdminAuditLogModel from '../models/AdminAuditLog';
 import { adminService } from '../services/adminService';
 import { logAdminActionManual } from '../middleware/adminAuth';
@@ -11,6 +10,9 @@ import { databaseAnalyticsService } from '../services/databaseAnalyticsService';
 import { monitoringService } from '../services/monitoringService';
 import { configService } from '../services/configService';
 import { chatCreditsService } from '../services/chatCreditsService';
+import { BillingService } from '../services/billingService';
+import { VOICEMAIL_BILLING_MODES } from '../services/voicemailService';
+import { AgentPromptService } from '../services/agentPromptService';
 
 // Admin controller - handles admin panel functionality
 export class AdminController {
@@ -292,7 +294,6 @@ export class AdminController {
       }
 
       const userModel = new UserModel();
-      const creditTransactionModel = new CreditTransactionModel();
 
       const user = await userModel.findById(userId);
 
@@ -331,41 +332,26 @@ export class AdminController {
         return;
       }
 
-      // Update user credits
-      const updatedUser = await userModel.updateCredits(userId, newBalance);
-
-      if (!updatedUser) {
-        res.status(500).json({
-          error: {
-            code: 'CREDIT_UPDATE_FAILED',
-            message: 'Failed to update user credits',
-            timestamp: new Date(),
-          },
-        });
-        return;
-      }
-
-      // Create credit transaction record
-      console.log('Creating credit transaction with adminUser:', req.adminUser?.id);
-      await creditTransactionModel.create({
-        user_id: userId,
-        type: 'admin_adjustment',
-        amount: adjustmentAmount,
-        balance_after: newBalance,
-        description: adjustmentReason,
-        created_by: req.adminUser?.id || null
-      });
+      // Post through the credit ledger so the balance change and its transaction are atomic
+      const { user: updatedUser, transaction } = await BillingService.adminAdjustCredits(
+        userId,
+        adjustmentAmount,
+        adjustmentReason,
+        req.adminUser?.id
+      );
+      const appliedAmount = Number(transaction.amount);
+      const finalBalance = Number(updatedUser.credits);
 
       res.json({
         success: true,
         data: {
-          newBalance: newBalance,
+          newBalance: finalBalance,
           user: updatedUser,
           adjustment: {
-            amount: adjustmentAmount,
+            amount: appliedAmount,
             description: adjustmentReason,
-            previous_balance: currentCredits,
-            new_balance: newBalance
+            previous_balance: Number(transaction.balance_before ?? currentCredits),
+            new_balance: finalBalance
           }
         },
         message: 'Credits adjusted successfully',
@@ -1256,6 +1242,17 @@ export class AdminController {
         // Legacy Billing Configuration
         credits_per_minute: configService.get('credits_per_minute'),
         billing_pulse_seconds: configService.get('billing_pulse_seconds'),
+        default_credit_overdraft_limit: configService.get('default_credit_overdraft_limit'),
+        credit_reservation_seconds: configService.get('credit_reservation_seconds'),
+        voicemail_billing_mode: configService.get('voicemail_billing_mode'),
+        voicemail_billable_seconds: configService.get('voicemail_billable_seconds'),
+        invoice_number_prefix: configService.get('invoice_number_prefix'),
+        invoice_tax_name: configService.get('invoice_tax_name'),
+        invoice_tax_rate_percent: configService.get('invoice_tax_rate_percent'),
+        invoice_seller_name: configService.get('invoice_seller_name'),
+        invoice_seller_address: configService.get('invoice_seller_address'),
+        invoice_seller_tax_id: configService.get('invoice_seller_tax_id'),
+        invoice_seller_region: configService.get('invoice_seller_region'),
         max_contacts_per_upload: configService.get('max_contacts_per_upload'),
         new_user_bonus_credits: configService.get('new_user_bonus_credits'),
         minimum_credit_purchase: configService.get('minimum_credit_purchase'),
@@ -1324,6 +1321,17 @@ export class AdminController {
         return;
       }
 
+      if (config.voicemail_billing_mode !== undefined && !VOICEMAIL_BILLING_MODES.includes(config.voicemail_billing_mode)) {
+        res.status(400).json({
+          error: {
+            code: 'INVALID_CONFIG',
+            message: `voicemail_billing_mode must be one of: ${VOICEMAIL_BILLING_MODES.join(', ')}`,
+            timestamp: new Date(),
+          },
+        });
+        return;
+      }
+
       // Update system configuration in database and refresh cache
       await configService.updateConfig(config);
 
@@ -1831,24 +1839,21 @@ export class AdminController {
       const updateData: any = {};
       if (name !== undefined) updateData.name = name;
       if (description !== undefined) updateData.description = description;
-      if (system_prompt !== undefined) updateData.system_prompt = system_prompt;
-      if (dynamic_information !== undefined) updateData.dynamic_information = dynamic_information;
       if (user_id !== undefined) updateData.user_id = user_id;
 
-      await agentModel.update(agentId, updateData);
+      if (Object.keys(updateData).length > 0) {
+        await agentModel.update(agentId, updateData);
+      }
 
-      // If agent has Bolna ID, update Bolna as well
-      if (agent.bolna_agent_id) {
-        const { bolnaService } = await import('../services/bolnaService');
-        
-        // Combine system_prompt with dynamic_information for Bolna
-        const finalSystemPrompt = dynamic_information
-          ? `${system_prompt || agent.system_prompt}\n\n${dynamic_information}`
-          : (system_prompt || agent.system_prompt);
-
-        if (finalSystemPrompt) {
-          await bolnaService.patchAgentSystemPrompt(agent.bolna_agent_id, finalSystemPrompt);
-          logger.info(`Updated Bolna agent ${agent.bolna_agent_id} system prompt`);
+      // Prompt changes are saved as a new version, which also updates the Bolna agent
+      if (system_prompt !== undefined || dynamic_information !== undefined) {
+        const { version, created } = await AgentPromptService.saveVersion(
+          agentId,
+          { system_prompt, dynamic_information },
+          { author: { id: req.user?.id, name: req.user?.name } }
+        );
+        if (created) {
+          logger.info(`Saved prompt version ${version.version_number} for agent ${agentId}`);
         }
       }
 
@@ -0,0 +1,103 @@
+import { Response } from 'express';
+import { AgentOwnershipRequest } from '../middleware/agentOwnership';
+import { AgentPromptError, AgentPromptService } from '../services/agentPromptService';
+import { agentCacheService } from '../services/agentCache';
+import { isValidUUID } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * Version history of an agent's prompt (routes run after validateAgentOwnership)
+ */
+export class AgentPromptController {
+  static async listVersions(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const versions = await AgentPromptService.listVersions(req.agent!);
+      res.json({ success: true, data: versions });
+    } catch (error) {
+      AgentPromptController.sendError(res, error, 'Failed to fetch prompt versions');
+    }
+  }
+
+  /**
+   * A version with its diff against the previous version, or against ?compareTo=<versionId>
+   */
+  static async getVersion(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const { versionId } = req.params;
+      const compareTo = typeof req.query.compareTo === 'string' ? req.query.compareTo : undefined;
+      if (!isValidUUID(versionId) || (compareTo && !isValidUUID(compareTo))) {
+        throw new AgentPromptError('Invalid prompt version ID');
+      }
+
+      const result = await AgentPromptService.getVersion(req.agent!.id, versionId, compareTo);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      AgentPromptController.sendError(res, error, 'Failed to fetch prompt version');
+    }
+  }
+
+  /**
+   * Save a new version of the system prompt and/or dynamic information and make it live
+   */
+  static async createVersion(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const { system_prompt, dynamic_information, note } = req.body || {};
+      if (system_prompt === undefined && dynamic_information === undefined) {
+        throw new AgentPromptError('system_prompt or dynamic_information is required');
+      }
+      for (const [field, value] of Object.entries({ system_prompt, dynamic_information, note })) {
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+          throw new AgentPromptError(`${field} must be a string`);
+        }
+      }
+
+      const { version, created } = await AgentPromptService.saveVersion(
+        req.agent!.id,
+        { system_prompt, dynamic_information },
+        { author: { id: req.user!.id, name: req.user!.name }, note }
+      );
+      agentCacheService.invalidateAgentCache(req.user!.id, req.agent!.id);
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        data: version,
+        message: created ? `Saved prompt version ${version.version_number}` : 'Prompt unchanged'
+      });
+    } catch (error) {
+      AgentPromptController.sendError(res, error, 'Failed to save prompt version');
+    }
+  }
+
+  static async rollback(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const { versionId } = req.params;
+      if (!isValidUUID(versionId)) {
+        throw new AgentPromptError('Invalid prompt version ID');
+      }
+
+      const version = await AgentPromptService.rollback(req.agent!.id, versionId, { id: req.user!.id, name: req.user!.name });
+      agentCacheService.invalidateAgentCache(req.user!.id, req.agent!.id);
+
+      res.status(201).json({
+        success: true,
+        data: version,
+        message: `Rolled back to version ${version.rolled_back_to_version}`
+      });
+    } catch (error) {
+      AgentPromptController.sendError(res, error, 'Failed to roll back prompt');
+    }
+  }
+
+  private static sendError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AgentPromptError) {
+      res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+      return;
+    }
+
+    logger.error(`[AgentPromptController] ${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : message
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { ApiKeyModel } from '../models/ApiKey';
+import { ApiKeyService, ApiKeyValidationError, API_KEY_SCOPES } from '../services/apiKeyService';
+import { logger } from '../utils/logger';
+
+// API key controller - management of the user's own API keys
+export class ApiKeyController {
+  /**
+   * List API keys (without secrets) and the available scopes
+   * GET /api/api-keys
+   */
+  static async getApiKeys(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const apiKeys = await ApiKeyModel.findByUser(userId);
+
+      return res.json({ success: true, data: { api_keys: apiKeys, available_scopes: API_KEY_SCOPES } });
+    } catch (error) {
+      logger.error('[ApiKeyController] Error listing API keys:', error);
+      return res.status(500).json({ error: 'Failed to get API keys' });
+    }
+  }
+
+  /**
+   * Create an API key - the plaintext key is only returned in this response
+   * POST /api/api-keys
+   */
+  static async createApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { name, scopes, rate_limit_per_minute, expires_at } = req.body || {};
+      const { apiKey, key } = await ApiKeyService.createKey(userId, { name, scopes, rate_limit_per_minute, expires_at });
+
+      return res.status(201).json({
+        success: true,
+        data: { api_key: apiKey, key },
+        message: 'Copy the key now - it will not be shown again'
+      });
+    } catch (error) {
+      if (error instanceof ApiKeyValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ApiKeyController] Error creating API key:', error);
+      return res.status(500).json({ error: 'Failed to create API key' });
+    }
+  }
+
+  /**
+   * Update name, scopes, rate limit or expiry
+   * PATCH /api/api-keys/:id
+   */
+  static async updateApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { name, scopes, rate_limit_per_minute, expires_at } = req.body || {};
+      const apiKey = await ApiKeyService.updateKey(userId, req.params.id, { name, scopes, rate_limit_per_minute, expires_at });
+
+      if (!apiKey) {
+        return res.status(404).json({ error: 'API key not found or revoked' });
+      }
+
+      return res.json({ success: true, data: { api_key: apiKey } });
+    } catch (error) {
+      if (error instanceof ApiKeyValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ApiKeyController] Error updating API key:', error);
+      return res.status(500).json({ error: 'Failed to update API key' });
+    }
+  }
+
+  /**
+   * Rotate an API key - revokes it and returns a replacement key
+   * POST /api/api-keys/:id/rotate
+   */
+  static async rotateApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await ApiKeyService.rotateKey(userId, req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: 'API key not found or revoked' });
+      }
+
+      return res.json({
+        success: true,
+        data: { api_key: result.apiKey, key: result.key },
+        message: 'Copy the new key now - it will not be shown again'
+      });
+    } catch (error) {
+      logger.error('[ApiKeyController] Error rotating API key:', error);
+      return res.status(500).json({ error: 'Failed to rotate API key' });
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/api-keys/:id
+   */
+  static async revokeApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const revoked = await ApiKeyService.revokeKey(userId, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found or already revoked' });
+      }
+
+      return res.json({ success: true, message: 'API key revoked' });
+    } catch (error) {
+      logger.error('[ApiKeyController] Error revoking API key:', error);
+      return res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  }
+}
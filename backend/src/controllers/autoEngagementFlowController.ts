@@ -3,13 +3,25 @@ import { AuthenticatedRequest } from '../middleware/auth';
 import { AutoEngagementFlowModel } from '../models/AutoEngagementFlow';
 import { FlowTriggerConditionModel, FlowActionModel } from '../models/FlowComponents';
 import { FlowExecutionModel, FlowActionLogModel } from '../models/FlowExecution';
+import { FlowMatchingService } from '../services/flowMatchingService';
 import {
   CreateFlowRequest,
   UpdateFlowRequest,
-  BulkPriorityUpdateRequest
+  BulkPriorityUpdateRequest,
+  TriggerConditionInput
 } from '../types/autoEngagement';
 import { logger } from '../utils/logger';
 import { pool } from '../config/database';
+import { assertOutboundUrl } from '../utils/outboundUrl';
+
+// Longest supported wait step (90 days)
+const MAX_WAIT_DURATION_MINUTES = 90 * 24 * 60;
+
+// Longest regex accepted in a matches_regex trigger condition
+const MAX_CONDITION_REGEX_LENGTH = 200;
+
+// Shortest signing secret accepted for webhook actions
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
 
 /**
  * Validation helper functions
@@ -35,7 +47,45 @@ const validateActionConfig = (actionType: string, actionConfig: any): { valid: b
       if (!actionConfig.duration_minutes || actionConfig.duration_minutes <= 0) {
         return { valid: false, error: 'Wait action requires positive duration_minutes' };
       }
+      if (actionConfig.duration_minutes > MAX_WAIT_DURATION_MINUTES) {
+        return { valid: false, error: 'Wait action duration_minutes cannot exceed 90 days' };
+      }
+      break;
+    case 'update_lead_stage':
+      if (!actionConfig.stage || typeof actionConfig.stage !== 'string') {
+        return { valid: false, error: 'Update lead stage action requires stage' };
+      }
+      break;
+    case 'update_tags': {
+      const addTags = actionConfig.add_tags || [];
+      const removeTags = actionConfig.remove_tags || [];
+      if (!Array.isArray(addTags) || !Array.isArray(removeTags)) {
+        return { valid: false, error: 'Update tags action add_tags and remove_tags must be arrays' };
+      }
+      if (addTags.length === 0 && removeTags.length === 0) {
+        return { valid: false, error: 'Update tags action requires add_tags or remove_tags' };
+      }
+      break;
+    }
+    case 'assign_team_member':
+      if (!actionConfig.team_member_id) {
+        return { valid: false, error: 'Assign team member action requires team_member_id' };
+      }
+      break;
+    case 'webhook': {
+      if (!actionConfig.url || typeof actionConfig.url !== 'string') {
+        return { valid: false, error: 'Webhook action requires a valid url' };
+      }
+      try {
+        assertOutboundUrl(actionConfig.url);
+      } catch (e) {
+        return { valid: false, error: `Webhook action url is not allowed: ${e instanceof Error ? e.message : 'invalid url'}` };
+      }
+      if (!actionConfig.secret || String(actionConfig.secret).length < MIN_WEBHOOK_SECRET_LENGTH) {
+        return { valid: false, error: `Webhook action requires a secret of at least ${MIN_WEBHOOK_SECRET_LENGTH} characters` };
+      }
       break;
+    }
   }
   return { valid: true };
 };
@@ -75,6 +125,70 @@ const validateBusinessHours = (data: any): { valid: boolean; error?: string } =>
   return { valid: true };
 };
 
+const validateTriggerConditions = (conditions: TriggerConditionInput[]): { valid: boolean; error?: string } => {
+  for (const condition of conditions) {
+    const { condition_type, condition_operator, condition_value } = condition;
+
+    if (condition_type === 'group') {
+      if (condition_operator !== 'and' && condition_operator !== 'or') {
+        return { valid: false, error: 'Condition groups require the and or or operator' };
+      }
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        return { valid: false, error: 'Condition groups require at least one condition' };
+      }
+      const groupValidation = validateTriggerConditions(condition.conditions);
+      if (!groupValidation.valid) {
+        return groupValidation;
+      }
+      continue;
+    }
+
+    if (condition_operator === 'and' || condition_operator === 'or') {
+      return { valid: false, error: `The ${condition_operator} operator is only valid for condition groups` };
+    }
+
+    switch (condition_operator) {
+      case 'between': {
+        const bounds = (condition_value || '').split(',').map(bound => bound.trim());
+        if (bounds.length !== 2 || bounds.some(bound => !bound)) {
+          return { valid: false, error: 'The between operator requires a "min,max" value' };
+        }
+        break;
+      }
+      case 'matches_regex':
+        if (!condition_value || condition_value.length > MAX_CONDITION_REGEX_LENGTH) {
+          return { valid: false, error: `Regex must be between 1 and ${MAX_CONDITION_REGEX_LENGTH} characters` };
+        }
+        try {
+          new RegExp(condition_value, 'i');
+        } catch (e) {
+          return { valid: false, error: `Invalid regex: ${condition_value}` };
+        }
+        break;
+    }
+
+    if (
+      condition_type === 'custom_field' &&
+      ['greater_than', 'less_than', 'between', 'matches_regex'].includes(condition_operator) &&
+      !condition.field_name
+    ) {
+      return { valid: false, error: `custom_field conditions using ${condition_operator} require field_name` };
+    }
+  }
+  return { valid: true };
+};
+
+/**
+ * Map trigger conditions from the camelCase conditions endpoint payload
+ */
+const mapConditionInput = (condition: any): TriggerConditionInput => ({
+  condition_type: condition.conditionType,
+  condition_operator: condition.conditionOperator,
+  condition_value: condition.conditionValue ?? null,
+  field_name: condition.fieldName || null,
+  conditions: Array.isArray(condition.conditions) ? condition.conditions.map(mapConditionInput) : undefined
+});
+
 /**
  * Controller for Auto Engagement Flow endpoints
  */
@@ -174,6 +288,27 @@ export class AutoEngagementFlowController {
         return;
       }
 
+      // Validate trigger conditions if provided
+      if (flowData.trigger_conditions && flowData.trigger_conditions.length > 0) {
+        const conditionsValidation = validateTriggerConditions(flowData.trigger_conditions);
+        if (!conditionsValidation.valid) {
+          res.status(400).json({
+            success: false,
+            error: conditionsValidation.error
+          });
+          return;
+        }
+
+        const triggerValidation = FlowMatchingService.validateTriggerEvents(flowData.trigger_conditions);
+        if (!triggerValidation.valid) {
+          res.status(400).json({
+            success: false,
+            error: triggerValidation.error
+          });
+          return;
+        }
+      }
+
       // Validate actions if provided
       if (flowData.actions && flowData.actions.length > 0) {
         // Check for unique action orders
@@ -233,14 +368,7 @@ export class AutoEngagementFlowController {
 
         // Create trigger conditions if provided
         if (flowData.trigger_conditions && flowData.trigger_conditions.length > 0) {
-          await FlowTriggerConditionModel.createBatch(
-            flowData.trigger_conditions.map(cond => ({
-              flowId: flow.id,
-              conditionType: cond.condition_type,
-              conditionOperator: cond.condition_operator,
-              conditionValue: cond.condition_value
-            }))
-          );
+          await FlowTriggerConditionModel.createBatch(flow.id, flowData.trigger_conditions);
         }
 
         // Create actions if provided
@@ -498,7 +626,27 @@ export class AutoEngagementFlowController {
         return;
       }
 
-      const updatedConditions = await FlowTriggerConditionModel.replaceConditions(id, conditions);
+      const conditionInputs = conditions.map(mapConditionInput);
+
+      const conditionsValidation = validateTriggerConditions(conditionInputs);
+      if (!conditionsValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: conditionsValidation.error
+        });
+        return;
+      }
+
+      const triggerValidation = FlowMatchingService.validateTriggerEvents(conditionInputs);
+      if (!triggerValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: triggerValidation.error
+        });
+        return;
+      }
+
+      const updatedConditions = await FlowTriggerConditionModel.replaceConditions(id, conditionInputs);
 
       res.json({
         success: true,
@@ -687,7 +835,7 @@ export class AutoEngagementFlowController {
   }
 
   /**
-   * Cancel a running execution
+   * Cancel a running or waiting execution
    * POST /api/auto-engagement/executions/:id/cancel
    */
   async cancelExecution(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -705,6 +853,9 @@ export class AutoEngagementFlowController {
         return;
       }
 
+      // A pending wait step will never resume now
+      await FlowActionLogModel.skipWaiting(id, 'Execution cancelled');
+
       res.json({
         success: true,
         data: cancelledExecution
@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import { BillingService } from '../services/billingService';
+import { BillingPlanError, SubscriptionService } from '../services/subscriptionService';
+import { InvoiceError, InvoiceService, RenderedDocument } from '../services/invoiceService';
+import { SubscriptionWithPlan } from '../models/UserSubscription';
+import { Invoice } from '../models/Invoice';
 import { AuthenticatedRequest } from '../middleware/auth';
 
 // Billing controller - handles credit management and Stripe payments
@@ -10,12 +14,15 @@ export class BillingController {
   static async getCredits(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const credits = await BillingService.getUserCredits(userId);
+      const balance = await BillingService.getCreditBalance(userId);
       
       res.json({
         success: true,
         data: {
-          credits,
+          credits: balance.credits,
+          reservedCredits: balance.reserved,
+          availableCredits: balance.available,
+          overdraftLimit: balance.overdraftLimit,
           userId
         }
       });
@@ -259,7 +266,8 @@ export class BillingController {
         data: {
           creditsUsed: result.creditsUsed,
           remainingCredits: result.user.credits,
-          transaction: result.transaction
+          // null when nothing was charged (the call never connected, or plan minutes covered it)
+          transaction: result.transaction ?? null
         }
       });
     } catch (error) {
@@ -295,14 +303,14 @@ export class BillingController {
       const { requiredCredits } = req.query;
 
       const required = parseInt(requiredCredits as string) || 1;
-      const hasEnough = await BillingService.hasEnoughCredits(userId, required);
-      const currentCredits = await BillingService.getUserCredits(userId);
+      const balance = await BillingService.getCreditBalance(userId);
       
       res.json({
         success: true,
         data: {
-          hasEnoughCredits: hasEnough,
-          currentCredits,
+          hasEnoughCredits: balance.available >= required,
+          currentCredits: balance.credits,
+          availableCredits: balance.available,
           requiredCredits: required
         }
       });
@@ -481,4 +489,332 @@ export class BillingController {
       });
     }
   }
+
+  /**
+   * List plans available for purchase
+   */
+  static async getPlans(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const plans = await SubscriptionService.listPlans();
+
+      res.json({
+        success: true,
+        data: {
+          plans: plans.map(plan => ({
+            id: plan.id,
+            name: plan.name,
+            slug: plan.slug,
+            description: plan.description,
+            monthlyPriceCents: plan.monthly_price_cents,
+            currency: plan.currency,
+            includedMinutes: plan.included_minutes,
+            overageCreditsPerMinute: plan.overage_credits_per_minute,
+            billingPulseSeconds: plan.billing_pulse_seconds,
+            concurrentCallsLimit: plan.concurrent_calls_limit,
+            chatCreditAllowance: plan.chat_credit_allowance,
+            rolloverMaxMinutes: plan.rollover_max_minutes,
+            purchasable: !!plan.stripe_price_id
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error getting plans:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PLANS_FETCH_ERROR',
+          message: 'Failed to fetch plans',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the user's current subscription and remaining plan minutes
+   */
+  static async getSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const subscription = await SubscriptionService.getSubscription(req.user!.id);
+
+      res.json({
+        success: true,
+        data: {
+          subscription: subscription ? BillingController.formatSubscription(subscription) : null
+        }
+      });
+    } catch (error) {
+      console.error('Error getting subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SUBSCRIPTION_FETCH_ERROR',
+          message: 'Failed to fetch subscription',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Subscribe to a plan via Stripe
+   */
+  static async subscribe(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { StripeService } = await import('../services/stripeService');
+
+      if (!StripeService.isConfigured()) {
+        res.status(503).json({
+          success: false,
+          error: {
+            code: 'STRIPE_NOT_CONFIGURED',
+            message: 'Payment processing is currently unavailable. Please contact support.'
+          }
+        });
+        return;
+      }
+
+      const result = await StripeService.createSubscription(req.user!.id, req.user!.email, req.body.planId);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          clientSecret: result.clientSecret,
+          subscriptionId: result.subscriptionId,
+          subscription: BillingController.formatSubscription(result.subscription)
+        }
+      });
+    } catch (error) {
+      BillingController.sendSubscriptionError(res, error, 'SUBSCRIBE_ERROR', 'Failed to create subscription');
+    }
+  }
+
+  /**
+   * Change the user's plan mid-cycle (prorated)
+   */
+  static async changePlan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { StripeService } = await import('../services/stripeService');
+      const subscription = await StripeService.changeSubscriptionPlan(req.user!.id, req.body.planId);
+
+      res.json({
+        success: true,
+        data: {
+          subscription: BillingController.formatSubscription(subscription)
+        }
+      });
+    } catch (error) {
+      BillingController.sendSubscriptionError(res, error, 'PLAN_CHANGE_ERROR', 'Failed to change plan');
+    }
+  }
+
+  /**
+   * Cancel the user's subscription at the end of the current period
+   */
+  static async cancelSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { StripeService } = await import('../services/stripeService');
+      await StripeService.cancelSubscription(req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Subscription will end at the close of the current billing period'
+      });
+    } catch (error) {
+      BillingController.sendSubscriptionError(res, error, 'SUBSCRIPTION_CANCEL_ERROR', 'Failed to cancel subscription');
+    }
+  }
+
+  /**
+   * Stripe webhook (raw body, verified by signature)
+   */
+  static async handleStripeWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const { StripeService } = await import('../services/stripeService');
+      const signature = req.headers['stripe-signature'];
+
+      if (typeof signature !== 'string') {
+        res.status(400).json({ success: false, error: { code: 'MISSING_SIGNATURE', message: 'Missing Stripe signature' } });
+        return;
+      }
+
+      const result = await StripeService.handleWebhook(req.body, signature);
+      res.json({ received: true, eventType: result.eventType });
+    } catch (error) {
+      console.error('Error handling Stripe webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'STRIPE_WEBHOOK_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the billing details printed on the user's invoices
+   */
+  static async getBillingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const profile = await InvoiceService.getBillingProfile(req.user!.id);
+      res.json({ success: true, data: { profile } });
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'BILLING_PROFILE_FETCH_ERROR', 'Failed to fetch billing profile');
+    }
+  }
+
+  /**
+   * Update the billing details (applies to invoices issued from now on)
+   */
+  static async updateBillingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const profile = await InvoiceService.updateBillingProfile(req.user!.id, req.body || {});
+      res.json({ success: true, data: { profile } });
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'BILLING_PROFILE_UPDATE_ERROR', 'Failed to update billing profile');
+    }
+  }
+
+  /**
+   * List the user's invoices
+   */
+  static async getInvoices(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const result = await InvoiceService.listInvoices({ userId: req.user!.id }, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          invoices: result.invoices.map(BillingController.formatInvoice),
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: Math.ceil(result.total / result.limit)
+          }
+        }
+      });
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'INVOICES_FETCH_ERROR', 'Failed to fetch invoices');
+    }
+  }
+
+  /**
+   * Download an invoice as PDF (default) or CSV
+   */
+  static async downloadInvoice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const invoice = await InvoiceService.getInvoice(req.params.invoiceId, req.user!.id);
+      BillingController.sendDocument(res, InvoiceService.renderInvoice(invoice, req.query.format === 'csv' ? 'csv' : 'pdf'));
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'INVOICE_DOWNLOAD_ERROR', 'Failed to download invoice');
+    }
+  }
+
+  /**
+   * Get the account statement for a month (YYYY-MM)
+   */
+  static async getStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const statement = await InvoiceService.getStatement(req.user!.id, req.params.month);
+      res.json({ success: true, data: { statement } });
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'STATEMENT_FETCH_ERROR', 'Failed to fetch statement');
+    }
+  }
+
+  /**
+   * Download the account statement for a month as PDF (default) or CSV
+   */
+  static async downloadStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const statement = await InvoiceService.getStatement(req.user!.id, req.params.month);
+      BillingController.sendDocument(res, InvoiceService.renderStatement(statement, req.query.format === 'csv' ? 'csv' : 'pdf'));
+    } catch (error) {
+      BillingController.sendInvoiceError(res, error, 'STATEMENT_DOWNLOAD_ERROR', 'Failed to download statement');
+    }
+  }
+
+  private static formatInvoice(invoice: Invoice) {
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      status: invoice.status,
+      currency: invoice.currency,
+      subtotal: invoice.subtotal,
+      taxTotal: invoice.tax_total,
+      total: invoice.total,
+      taxLines: invoice.tax_lines,
+      issuedAt: invoice.issued_at,
+      voidedAt: invoice.voided_at
+    };
+  }
+
+  private static sendDocument(res: Response, document: RenderedDocument): void {
+    res.setHeader('Content-Type', document.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+    res.send(document.body);
+  }
+
+  private static sendInvoiceError(res: Response, error: unknown, code: string, message: string): void {
+    if (error instanceof InvoiceError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: { code: 'INVALID_INVOICE_REQUEST', message: error.message }
+      });
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code,
+        message,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+  }
+
+  private static formatSubscription(subscription: SubscriptionWithPlan) {
+    return {
+      id: subscription.id,
+      status: subscription.status,
+      plan: {
+        id: subscription.plan.id,
+        name: subscription.plan.name,
+        slug: subscription.plan.slug
+      },
+      currentPeriodStart: subscription.current_period_start,
+      currentPeriodEnd: subscription.current_period_end,
+      includedMinutes: Math.round(subscription.included_seconds / 60),
+      includedMinutesRemaining: Math.floor(subscription.included_seconds_remaining / 60),
+      rolloverMinutesRemaining: Math.floor(subscription.rollover_seconds_remaining / 60),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      managedByStripe: !!subscription.stripe_subscription_id
+    };
+  }
+
+  private static sendSubscriptionError(res: Response, error: unknown, code: string, message: string): void {
+    if (error instanceof BillingPlanError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: { code: 'INVALID_PLAN_REQUEST', message: error.message }
+      });
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code,
+        message,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+  }
 }
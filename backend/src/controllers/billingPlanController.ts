@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { BillingPlanError, SubscriptionService } from '../services/subscriptionService';
+import { isValidUUID } from '../utils/validation';
+
+/**
+ * Admin management of subscription plans and users' plan assignments
+ */
+export class BillingPlanController {
+  /**
+   * List all plans, including inactive ones
+   */
+  static async getPlans(req: Request, res: Response): Promise<void> {
+    try {
+      const plans = await SubscriptionService.listPlans(true);
+      res.json({ success: true, data: plans, timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'GET_PLANS_ERROR', 'Failed to fetch plans');
+    }
+  }
+
+  static async createPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await SubscriptionService.createPlan(req.body || {});
+      res.status(201).json({ success: true, data: plan, message: 'Plan created successfully', timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'CREATE_PLAN_ERROR', 'Failed to create plan');
+    }
+  }
+
+  /**
+   * Update a plan
+   * Pulse and overage pricing apply to subscribers immediately; included minutes,
+   * allowances and concurrency limits from their next period.
+   */
+  static async updatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { planId } = req.params;
+      if (!isValidUUID(planId)) {
+        throw new BillingPlanError('Invalid plan ID');
+      }
+
+      const plan = await SubscriptionService.updatePlan(planId, req.body || {});
+      res.json({ success: true, data: plan, message: 'Plan updated successfully', timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'UPDATE_PLAN_ERROR', 'Failed to update plan');
+    }
+  }
+
+  static async getUserSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await SubscriptionService.getSubscription(req.params.userId);
+      res.json({ success: true, data: subscription, timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'GET_SUBSCRIPTION_ERROR', 'Failed to fetch subscription');
+    }
+  }
+
+  /**
+   * Assign a plan to a user without Stripe billing (resellers invoice these themselves)
+   * A user already on a plan is moved to the new one with prorated included minutes.
+   */
+  static async assignPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { planId } = req.body || {};
+      if (!isValidUUID(planId)) {
+        throw new BillingPlanError('planId is required');
+      }
+      const current = await SubscriptionService.getSubscription(req.params.userId);
+      if (current?.stripe_subscription_id) {
+        throw new BillingPlanError('This subscription is billed through Stripe; change its plan from the customer billing page', 409);
+      }
+
+      const subscription = await SubscriptionService.assignPlan(req.params.userId, planId);
+      res.json({ success: true, data: subscription, message: 'Plan assigned successfully', timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'ASSIGN_PLAN_ERROR', 'Failed to assign plan');
+    }
+  }
+
+  /**
+   * Cancel a user's subscription, immediately unless ?atPeriodEnd=true
+   */
+  static async cancelUserSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const atPeriodEnd = req.query.atPeriodEnd === 'true';
+      const current = await SubscriptionService.getSubscription(req.params.userId);
+      if (current?.stripe_subscription_id) {
+        throw new BillingPlanError('This subscription is billed through Stripe; cancel it from the customer billing page', 409);
+      }
+
+      const subscription = await SubscriptionService.cancel(req.params.userId, atPeriodEnd);
+      res.json({ success: true, data: subscription, message: 'Subscription canceled', timestamp: new Date() });
+    } catch (error: any) {
+      BillingPlanController.sendError(res, error, 'CANCEL_SUBSCRIPTION_ERROR', 'Failed to cancel subscription');
+    }
+  }
+
+  private static sendError(res: Response, error: any, code: string, message: string): void {
+    if (error instanceof BillingPlanError) {
+      res.status(error.statusCode).json({
+        error: {
+          code: 'INVALID_PLAN_REQUEST',
+          message: error.message,
+          timestamp: new Date(),
+        },
+      });
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      error: {
+        code,
+        message,
+        timestamp: new Date(),
+      },
+    });
+  }
+}
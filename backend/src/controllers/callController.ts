@@ -4,6 +4,8 @@ import { ContactService } from '../services/contactService';
 import { userService } from '../services/userService';
 import { bolnaService } from '../services/bolnaService';
 import { concurrencyManager } from '../services/ConcurrencyManager';
+import { SuppressionService, SuppressedRecipientError } from '../services/suppressionService';
+import { BillingService } from '../services/billingService';
 import database from '../config/database';
 import { AgentOwnershipRequest } from '../middleware/agentOwnership';
 import { logger } from '../utils/logger';
@@ -44,7 +46,7 @@ export class CallController {
       if (req.query.status) {
         const validLifecycleStatuses = [
           'initiated', 'ringing', 'in-progress', 'call-disconnected', 
-          'completed', 'no-answer', 'busy', 'failed'
+          'completed', 'no-answer', 'busy', 'failed', 'voicemail'
         ];
         
         // Handle both single status and array of statuses
@@ -708,10 +710,11 @@ export class CallController {
         recipientPhone = contact.phone_number;
       }
 
-      // Check user credits - block if zero or negative
+      // Check user credits - block if none are left (beyond the overdraft limit) and no plan minutes remain
       const user = await userService.getUserProfile(userId);
+      const creditBalance = user ? await BillingService.getCreditBalance(userId) : null;
       
-      if (!user || user.credits <= 0) {
+      if (!user || !creditBalance || !BillingService.canPlaceCalls(creditBalance)) {
         logger.warn('[CallController] Call blocked due to insufficient credits', {
           userId,
           credits: user?.credits || 0,
@@ -728,6 +731,14 @@ export class CallController {
         });
       }
 
+      // Reject numbers on the do-not-call list before reserving a slot or queueing
+      await SuppressionService.assertNotSuppressed(
+        userId,
+        { phoneNumber: recipientPhone, contactId },
+        'call',
+        { agent_id: agentId, source: 'direct' }
+      );
+
       // Generate call ID for atomic slot reservation
       const callId = randomUUID();
 
@@ -784,6 +795,23 @@ export class CallController {
         });
       }
       
+      // Remaining credits are all held by calls already in flight
+      if (slotReservation.insufficientCredits) {
+        logger.warn('[CallController] Direct call blocked - credits reserved by in-flight calls', {
+          userId,
+          contactId,
+          agentId,
+          callId
+        });
+
+        return res.status(402).json({
+          error: 'Insufficient credits',
+          message: 'Your available credits are reserved by calls in progress. Please wait for them to finish or purchase more credits.',
+          credits: creditBalance.credits,
+          reserved: creditBalance.reserved
+        });
+      }
+
       if (!slotReservation.success) {
         // This shouldn't happen if shouldQueue logic is correct, but keep as safety net
         logger.warn('[CallController] Direct call blocked due to concurrency limits', {
@@ -854,13 +882,21 @@ export class CallController {
           error: error instanceof Error ? error.message : String(error)
         });
         
-        await concurrencyManager.releaseCallSlot(callId);
+        await concurrencyManager.releaseCallSlot(callId, { releaseCredits: true });
         
         // Re-throw the error for normal error handling
         throw error;
       }
 
     } catch (error) {
+      if (error instanceof SuppressedRecipientError) {
+        return res.status(409).json({
+          error: 'Recipient suppressed',
+          code: error.code,
+          message: 'This phone number is on your do-not-call list'
+        });
+      }
+
       logger.error('[CallController] Error initiating call:', error);
       return res.status(500).json({
         error: 'Failed to initiate call',
@@ -0,0 +1,109 @@
+import { Response } from 'express';
+import { AgentOwnershipRequest } from '../middleware/agentOwnership';
+import Contact from '../models/Contact';
+import { CallCampaignModel } from '../models/CallCampaign';
+import {
+  CALL_VARIABLE_FIELDS,
+  CallContextService,
+  CallVariableError
+} from '../services/callContextService';
+import { agentCacheService } from '../services/agentCache';
+import { isValidUUID } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * Variables sent to an agent's calls (routes run after validateAgentOwnership)
+ */
+export class CallVariablesController {
+  static async getVariables(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const agent = req.agent!;
+      res.json({
+        success: true,
+        data: {
+          variables: CallContextService.getVariables(agent),
+          is_default: !agent.call_variables,
+          fields: CALL_VARIABLE_FIELDS
+        }
+      });
+    } catch (error) {
+      CallVariablesController.sendError(res, error, 'Failed to fetch call variables');
+    }
+  }
+
+  /**
+   * Replace the mapping; { variables: null } goes back to the default variables
+   */
+  static async updateVariables(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const { variables } = req.body || {};
+      if (variables === undefined) {
+        throw new CallVariableError('variables is required');
+      }
+
+      const saved = await CallContextService.updateVariables(req.agent!.id, variables);
+      agentCacheService.invalidateAgentCache(req.user!.id, req.agent!.id);
+
+      res.json({
+        success: true,
+        data: { variables: saved, is_default: variables === null },
+        message: 'Call variables updated successfully'
+      });
+    } catch (error) {
+      CallVariablesController.sendError(res, error, 'Failed to update call variables');
+    }
+  }
+
+  /**
+   * The user_data a contact would get on a call from this agent now
+   * ?campaignId= adds the contact's upload columns and the campaign timezone.
+   */
+  static async preview(req: AgentOwnershipRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const contactId = typeof req.query.contactId === 'string' ? req.query.contactId : '';
+      const campaignId = typeof req.query.campaignId === 'string' ? req.query.campaignId : '';
+      if (!isValidUUID(contactId)) {
+        throw new CallVariableError('contactId is required');
+      }
+      if (campaignId && !isValidUUID(campaignId)) {
+        throw new CallVariableError('Invalid campaignId');
+      }
+
+      const contact = await Contact.findById(contactId);
+      if (!contact || contact.user_id !== userId) {
+        throw new CallVariableError('Contact not found', 404, 'CONTACT_NOT_FOUND');
+      }
+
+      const campaign = campaignId ? await CallCampaignModel.findById(campaignId, userId) : null;
+      if (campaignId && !campaign) {
+        throw new CallVariableError('Campaign not found', 404, 'CAMPAIGN_NOT_FOUND');
+      }
+
+      const preview = await CallContextService.preview({
+        agent: req.agent!,
+        userId,
+        contact,
+        csvColumns: campaign ? await CallContextService.findCampaignColumns(campaign.id, contact.id) : null,
+        timezone: campaign?.campaign_timezone
+      });
+
+      res.json({ success: true, data: preview });
+    } catch (error) {
+      CallVariablesController.sendError(res, error, 'Failed to preview call variables');
+    }
+  }
+
+  private static sendError(res: Response, error: unknown, message: string): void {
+    if (error instanceof CallVariableError) {
+      res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+      return;
+    }
+
+    logger.error(`[CallVariablesController] ${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : message
+    });
+  }
+}
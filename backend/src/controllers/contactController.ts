@@ -3,6 +3,8 @@ import { ContactService } from '../services/contactService';
 import { logger } from '../utils/logger';
 import { queryCache } from '../services/queryCacheService';
 import { AutoEngagementTriggerService } from '../services/autoEngagementTriggerService';
+import { isValidTimezone } from '../utils/timezoneUtils';
+import { PhoneNumberError } from '../utils/phoneNumber';
 
 // Contact controller - handles contact management and bulk uploads
 export class ContactController {
@@ -133,13 +135,6 @@ export class ContactController {
         });
       }
 
-      // Validate phone number format
-      if (!ContactService.validatePhoneNumber(phone)) {
-        return res.status(400).json({ 
-          error: 'Invalid phone number format' 
-        });
-      }
-
       const contact = await ContactService.createContact(userId, {
         name,
         phone_number: phone,
@@ -177,6 +172,11 @@ export class ContactController {
       });
     } catch (error) {
       logger.error('Error in createContact:', error);
+
+      // Invalid or ambiguous phone number (parsed in the user's default region)
+      if (error instanceof PhoneNumberError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
       
       if (error instanceof Error && error.message.includes('already exists')) {
         return res.status(409).json({ 
@@ -213,12 +213,12 @@ export class ContactController {
         country,
         business_context,
         lead_stage,
+        timezone,
       } = req.body;
 
-      // Validate phone number format if provided
-      if (phone_number && !ContactService.validatePhoneNumber(phone_number)) {
-        return res.status(400).json({ 
-          error: 'Invalid phone number format' 
+      if (timezone && !isValidTimezone(timezone)) {
+        return res.status(400).json({
+          error: `Invalid timezone: ${timezone}. Please provide a valid IANA timezone.`
         });
       }
 
@@ -233,6 +233,7 @@ export class ContactController {
       if (country !== undefined) updateData.country = country;
       if (business_context !== undefined) updateData.business_context = business_context;
       if (lead_stage !== undefined) updateData.lead_stage = lead_stage;
+      if (timezone !== undefined) updateData.timezone = timezone || null;
 
       const contact = await ContactService.updateContact(userId, id, updateData);
 
@@ -245,6 +246,10 @@ export class ContactController {
       });
     } catch (error) {
       logger.error('Error in updateContact:', error);
+
+      if (error instanceof PhoneNumberError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
       
       if (error instanceof Error && error.message.includes('not found')) {
         return res.status(404).json({ 
@@ -369,10 +374,15 @@ export class ContactController {
 
   /**
    * Lookup contact by phone number (for ElevenLabs integration)
-   * This endpoint is used by ElevenLabs to check if a phone number exists in our database
+   * This endpoint is used by ElevenLabs to check if a phone number exists in the caller's contacts
    */
   static async lookupContact(req: Request, res: Response): Promise<Response | void> {
     try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
       const { phone } = req.params;
       const startTime = Date.now();
 
@@ -389,7 +399,8 @@ export class ContactController {
       }
 
       // Validate phone number format
-      if (!ContactService.validatePhoneNumber(phone)) {
+      const phoneRegion = await ContactService.getDefaultPhoneRegion(userId);
+      if (!ContactService.validatePhoneNumber(phone, phoneRegion)) {
         logger.warn('Contact lookup called with invalid phone format:', {
           phone: phone.substring(0, 5) + '...',
           ip: req.ip
@@ -400,8 +411,8 @@ export class ContactController {
         });
       }
 
-      // Perform lookup
-      const contact = await ContactService.lookupContactByPhone(phone);
+      // Perform lookup within the authenticated user's contacts
+      const contact = await ContactService.findByPhone(userId, phone, phoneRegion);
       const responseTime = Date.now() - startTime;
 
       if (contact) {
@@ -464,6 +475,11 @@ export class ContactController {
    */
   static async batchLookupContacts(req: Request, res: Response): Promise<Response | void> {
     try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
       const { phones } = req.body;
       const startTime = Date.now();
 
@@ -490,8 +506,9 @@ export class ContactController {
       }
 
       // Validate all phone numbers
+      const phoneRegion = await ContactService.getDefaultPhoneRegion(userId);
       const invalidPhones = phones.filter((phone: string) => 
-        !phone || typeof phone !== 'string' || !ContactService.validatePhoneNumber(phone)
+        !phone || typeof phone !== 'string' || !ContactService.validatePhoneNumber(phone, phoneRegion)
       );
 
       if (invalidPhones.length > 0) {
@@ -505,7 +522,7 @@ export class ContactController {
       const results = await Promise.all(
         phones.map(async (phone: string) => {
           try {
-            const contact = await ContactService.lookupContactByPhone(phone);
+            const contact = await ContactService.findByPhone(userId, phone, phoneRegion);
             return {
               phone,
               found: !!contact,
@@ -737,13 +754,14 @@ export class ContactController {
       }
 
       const contactIds: string[] = [];
+      const phoneRegion = await ContactService.getDefaultPhoneRegion(userId);
       
       for (const lead of leads) {
         if (!lead.phone) continue;
         
         try {
           // Try to find existing contact first
-          const existingContact = await ContactService.findByPhone(userId, lead.phone);
+          const existingContact = await ContactService.findByPhone(userId, lead.phone, phoneRegion);
           
           if (existingContact) {
             contactIds.push(existingContact.id);
@@ -754,7 +772,7 @@ export class ContactController {
               phone_number: lead.phone,
               email: lead.email || undefined,
               company: lead.company || undefined,
-            });
+            }, phoneRegion);
             
             if (newContact?.id) {
               contactIds.push(newContact.id);
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
-import { gmailService } from '../services/gmailService';
+import { EmailSendingService, EmailSenderNotReadyError, EmailThrottledError } from '../services/emailSendingService';
 import { v4 as uuidv4 } from 'uuid';
 
 interface SendEmailRequest {
@@ -12,6 +12,7 @@ interface SendEmailRequest {
   subject: string;
   bodyHtml: string;
   bodyText?: string;
+  senderIdentityId?: string; // Defaults to the user's default sender
   attachments?: Array<{
     filename: string;
     content: string; // base64 encoded
@@ -44,6 +45,7 @@ export class ContactEmailController {
         subject,
         bodyHtml,
         bodyText,
+        senderIdentityId,
         attachments = [],
       } = req.body as SendEmailRequest;
 
@@ -70,42 +72,42 @@ export class ContactEmailController {
         }
       }
 
-      // Check Gmail connection status first
-      const gmailStatus = await gmailService.getGmailStatus(userId);
-      
-      if (!gmailStatus.connected || !gmailStatus.hasGmailScope) {
-        return response.status(400).json({
-          success: false,
-          error: gmailStatus.message,
-          requiresReconnect: gmailStatus.requiresReconnect,
-          code: 'GMAIL_NOT_CONNECTED'
+      // Send email through the chosen sender (the user's default, or their connected Gmail account)
+      let result;
+      try {
+        result = await EmailSendingService.send(userId, {
+          to: { address: to, name: toName },
+          subject,
+          htmlBody: bodyHtml,
+          textBody: bodyText || bodyHtml.replace(/<[^>]*>/g, ''), // Strip HTML for text
+          senderIdentityId,
+          cc: cc?.map(email => ({ address: email })),
+          bcc: bcc?.map(email => ({ address: email })),
+          attachments: attachments?.map(att => ({
+            filename: att.filename,
+            content: att.content,
+            contentType: att.contentType || 'application/octet-stream',
+          }))
         });
+      } catch (error) {
+        if (error instanceof EmailSenderNotReadyError) {
+          return response.status(400).json({
+            success: false,
+            error: error.message,
+            code: error.code
+          });
+        }
+        if (error instanceof EmailThrottledError) {
+          return response.status(429).json({
+            success: false,
+            error: error.message,
+            retryAt: error.retryAt,
+            code: error.code
+          });
+        }
+        throw error;
       }
 
-      // Get user's name for sender display
-      const userResult = await pool.query(
-        'SELECT name FROM users WHERE id = $1',
-        [userId]
-      );
-      const fromName = userResult.rows[0]?.name || '';
-
-      // Send email via Gmail API
-      const result = await gmailService.sendEmail(userId, {
-        to: { address: to, name: toName },
-        subject,
-        htmlBody: bodyHtml,
-        textBody: bodyText || bodyHtml.replace(/<[^>]*>/g, ''), // Strip HTML for text
-        fromName, // User's display name
-        fromEmail: gmailStatus.email, // User's Gmail address
-        cc: cc?.map(email => ({ address: email })),
-        bcc: bcc?.map(email => ({ address: email })),
-        attachments: attachments?.map(att => ({
-          filename: att.filename,
-          content: att.content,
-          contentType: att.contentType || 'application/octet-stream',
-        }))
-      });
-
       if (!result.success) {
         return response.status(result.requiresReconnect ? 400 : 500).json({
           success: false,
@@ -115,22 +117,23 @@ export class ContactEmailController {
         });
       }
 
-      // Store email record in database (use Gmail sender email)
+      // Store email record in database (with the sender it went out from)
       const emailId = uuidv4();
       const insertResult = await pool.query(
         `INSERT INTO emails (
           id, user_id, contact_id, from_email, from_name,
           to_email, to_name, cc_emails, bcc_emails,
           subject, body_html, body_text,
-          has_attachments, attachment_count, status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, 'sent')
+          has_attachments, attachment_count, status,
+          tracking_id, external_message_id, sender_identity_id, provider
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, 'sent', $15, $16, $17, $18)
         RETURNING *`,
         [
           emailId,
           userId,
           contactId || null,
-          gmailStatus.email, // Use user's Gmail address
-          null, // Gmail uses user's profile name automatically
+          result.fromEmail,
+          result.fromName,
           to,
           toName || to.split('@')[0],
           cc || [],
@@ -140,6 +143,10 @@ export class ContactEmailController {
           bodyText || null,
           attachments.length > 0,
           attachments.length,
+          result.trackingId || null,
+          result.messageId || null,
+          result.identity.id,
+          result.identity.provider,
         ]
       );
 
@@ -76,7 +76,7 @@ export class EmailCampaignController {
         return;
       }
 
-      const { campaign_name, subject, body, contact_ids, attachments } = req.body;
+      const { campaign_name, subject, body, contact_ids, attachments, sender_identity_id } = req.body;
 
       if (!campaign_name || !subject || !body || !contact_ids || !Array.isArray(contact_ids)) {
         res.status(400).json({
@@ -98,6 +98,7 @@ export class EmailCampaignController {
           body,
           contact_ids,
           attachments,
+          sender_identity_id,
         }
       );
 
@@ -0,0 +1,305 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { EmailSendingService } from '../services/emailSendingService';
+import { EmailBounceService } from '../services/emailBounceService';
+import { EmailDeliveryEventType } from '../types/emailProvider';
+import { logger } from '../utils/logger';
+
+const DELIVERY_EVENT_TYPES: EmailDeliveryEventType[] = ['hard_bounce', 'soft_bounce', 'complaint'];
+
+// Email sender controller - sending identities (Gmail, SMTP, ZeptoMail) and delivery problems
+export class EmailSenderController {
+  /**
+   * List the user's sender identities
+   * GET /api/email-senders
+   */
+  static async getSenders(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const [senders, status] = await Promise.all([
+        EmailSendingService.listIdentities(userId),
+        EmailSendingService.getSendingStatus(userId)
+      ]);
+
+      return res.json({ success: true, data: { senders, status } });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error listing senders:', error);
+      return res.status(500).json({ error: 'Failed to get email senders' });
+    }
+  }
+
+  /**
+   * Add a sender identity (SMTP and ZeptoMail senders get a verification email)
+   * POST /api/email-senders
+   */
+  static async createSender(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let sender;
+      try {
+        sender = await EmailSendingService.createIdentity(userId, req.body || {});
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid sender'
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: sender,
+        message: sender.verification_status === 'verified'
+          ? 'Sender added'
+          : `Verification email sent to ${sender.provider === 'zeptomail' ? sender.reply_to || sender.from_email : sender.from_email}`
+      });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error creating sender:', error);
+      return res.status(500).json({ error: 'Failed to add email sender' });
+    }
+  }
+
+  /**
+   * Update a sender's display name, reply-to, limits or SMTP settings
+   * PUT /api/email-senders/:id
+   */
+  static async updateSender(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let sender;
+      try {
+        sender = await EmailSendingService.updateIdentity(userId, req.params.id, req.body || {});
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid sender'
+        });
+      }
+
+      if (!sender) {
+        return res.status(404).json({ error: 'Email sender not found' });
+      }
+
+      return res.json({ success: true, data: sender });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error updating sender:', error);
+      return res.status(500).json({ error: 'Failed to update email sender' });
+    }
+  }
+
+  /**
+   * Make a verified sender the default
+   * POST /api/email-senders/:id/default
+   */
+  static async setDefaultSender(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let sender;
+      try {
+        sender = await EmailSendingService.setDefaultIdentity(userId, req.params.id);
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid sender'
+        });
+      }
+
+      if (!sender) {
+        return res.status(404).json({ error: 'Email sender not found' });
+      }
+
+      return res.json({ success: true, data: EmailSendingService.toPublic(sender) });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error setting default sender:', error);
+      return res.status(500).json({ error: 'Failed to set default email sender' });
+    }
+  }
+
+  /**
+   * Send the verification email again
+   * POST /api/email-senders/:id/resend-verification
+   */
+  static async resendVerification(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let sent;
+      try {
+        sent = await EmailSendingService.resendVerification(userId, req.params.id);
+      } catch (sendError) {
+        return res.status(400).json({
+          error: sendError instanceof Error ? sendError.message : 'Failed to send the verification email'
+        });
+      }
+
+      if (!sent) {
+        return res.status(404).json({ error: 'Email sender not found' });
+      }
+
+      return res.json({ success: true, message: 'Verification email sent' });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error resending verification:', error);
+      return res.status(500).json({ error: 'Failed to resend verification email' });
+    }
+  }
+
+  /**
+   * Check a sender's connection and its usage against its limits
+   * POST /api/email-senders/:id/test
+   */
+  static async testSender(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await EmailSendingService.testIdentity(userId, req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: 'Email sender not found' });
+      }
+
+      return res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error testing sender:', error);
+      return res.status(500).json({ error: 'Failed to test email sender' });
+    }
+  }
+
+  /**
+   * Remove a sender
+   * DELETE /api/email-senders/:id
+   */
+  static async deleteSender(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const deleted = await EmailSendingService.deleteIdentity(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Email sender not found' });
+      }
+
+      return res.json({ success: true, message: 'Email sender removed' });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error deleting sender:', error);
+      return res.status(500).json({ error: 'Failed to remove email sender' });
+    }
+  }
+
+  /**
+   * List bounces and complaints
+   * GET /api/email-senders/delivery-events?event_type=&limit=&offset=
+   */
+  static async getDeliveryEvents(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const eventType = req.query.event_type as EmailDeliveryEventType | undefined;
+      if (eventType && !DELIVERY_EVENT_TYPES.includes(eventType)) {
+        return res.status(400).json({ error: `event_type must be one of: ${DELIVERY_EVENT_TYPES.join(', ')}` });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const result = await EmailBounceService.listEvents(userId, { eventType, limit, offset });
+
+      return res.json({
+        success: true,
+        data: {
+          events: result.events,
+          pagination: { total: result.total, limit, offset, hasMore: offset + limit < result.total }
+        }
+      });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error listing delivery events:', error);
+      return res.status(500).json({ error: 'Failed to get delivery events' });
+    }
+  }
+
+  /**
+   * ZeptoMail bounce and complaint webhook
+   * POST /api/webhooks/email/zeptomail (Authorization header must be ZEPTOMAIL_WEBHOOK_SECRET)
+   */
+  static async handleZeptoMailWebhook(req: Request, res: Response): Promise<Response> {
+    const secret = process.env.ZEPTOMAIL_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.error('[EmailSenderController] ZEPTOMAIL_WEBHOOK_SECRET is not configured, rejecting webhook');
+      return res.status(503).json({ error: 'Webhook not configured' });
+    }
+
+    const provided = req.headers.authorization || '';
+    const expectedHash = crypto.createHash('sha256').update(secret).digest();
+    const providedHash = crypto.createHash('sha256').update(provided).digest();
+    if (!provided || !crypto.timingSafeEqual(expectedHash, providedHash)) {
+      logger.warn('[EmailSenderController] Invalid ZeptoMail webhook secret', { ip: req.ip });
+      return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    try {
+      const recorded = await EmailBounceService.handleZeptoMailWebhook(req.body);
+      return res.json({ success: true, recorded });
+    } catch (error) {
+      logger.error('[EmailSenderController] Error handling ZeptoMail webhook:', error);
+      return res.status(500).json({ error: 'Failed to process webhook' });
+    }
+  }
+
+  /**
+   * Verify a sender from the emailed link (public)
+   * GET /api/email-senders/verify/:token
+   */
+  static async verifySender(req: Request, res: Response): Promise<void> {
+    try {
+      const sender = await EmailSendingService.verifyToken(req.params.token);
+      if (!sender) {
+        res.status(404).send('Verification link is invalid or has expired');
+        return;
+      }
+
+      res.send(`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Sender verified</title>
+        <style>
+          body { font-family: Arial, sans-serif; text-align: center; padding: 50px; }
+          .container { max-width: 400px; margin: 0 auto; }
+          h1 { color: #333; }
+          p { color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <h1>Sender verified</h1>
+          <p>Emails can now be sent from this address. You can close this page.</p>
+        </div>
+      </body>
+      </html>
+    `);
+    } catch (error) {
+      logger.error('[EmailSenderController] Error verifying sender:', error);
+      res.status(500).send('An error occurred');
+    }
+  }
+}
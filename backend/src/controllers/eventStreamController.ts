@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { authService } from '../services/authService';
+import { UserEvent, userEventService } from '../services/userEventService';
+import { logger } from '../utils/logger';
+
+const MAX_CONNECTIONS_PER_USER = 10;
+const HEARTBEAT_INTERVAL = 25 * 1000; // Below common proxy idle timeouts
+const RECONNECT_DELAY_MS = 3000;
+const EVENT_ID_PATTERN = /^\d{1,18}$/;
+
+/**
+ * Server-sent event stream of the user's dashboard events
+ */
+export class EventStreamController {
+  /**
+   * Issue a short-lived ticket for opening the stream with EventSource
+   */
+  static async createTicket(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!userEventService.isEnabled()) {
+      res.status(503).json({
+        success: false,
+        error: { code: 'EVENT_STREAM_DISABLED', message: 'The event stream is not enabled on this server' }
+      });
+      return;
+    }
+
+    try {
+      const { ticket, expiresIn } = authService.generateEventStreamTicket(req.user!.id, req.user!.teamMemberId);
+      res.json({ success: true, data: { ticket, expiresIn } });
+    } catch (error) {
+      logger.error('[EventStream] Failed to create ticket', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'EVENT_TICKET_ERROR',
+          message: 'Failed to create event stream ticket',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Stream events as text/event-stream
+   * Resumes after the Last-Event-ID header (sent by EventSource on reconnect) or
+   * ?lastEventId= (for a new EventSource opened with a fresh ticket). When the gap
+   * can't be replayed a `resync` event tells the client to reload its data.
+   */
+  static async stream(req: Request, res: Response): Promise<void> {
+    const userId = req.user!.id;
+
+    const lastEventId = (req.header('Last-Event-ID') || (req.query.lastEventId as string | undefined) || '').trim();
+    if (lastEventId && !EVENT_ID_PATTERN.test(lastEventId)) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_EVENT_ID', message: 'Last event ID must be a numeric event ID' }
+      });
+      return;
+    }
+
+    if (userEventService.connectionCount(userId) >= MAX_CONNECTIONS_PER_USER) {
+      res.status(429).json({
+        success: false,
+        error: { code: 'TOO_MANY_STREAMS', message: 'Too many open event streams for this account' }
+      });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    // Subscribe before replaying so nothing published meanwhile is lost; buffer live
+    // events until the replay has been written
+    let pending: UserEvent[] | null = [];
+    const unsubscribe = userEventService.subscribe(userId, event => {
+      if (pending) {
+        pending.push(event);
+      } else {
+        writeEvent(res, event);
+      }
+    });
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      const replayed = new Set<string>();
+      if (lastEventId) {
+        const events = await userEventService.replay(userId, lastEventId);
+        if (events) {
+          for (const event of events) {
+            replayed.add(event.id);
+            writeEvent(res, event);
+          }
+        } else {
+          res.write(`event: resync\ndata: ${JSON.stringify({ reason: 'Missed events are no longer available' })}\n\n`);
+        }
+      }
+
+      for (const event of pending) {
+        if (!replayed.has(event.id)) {
+          writeEvent(res, event);
+        }
+      }
+    } catch (error) {
+      logger.error('[EventStream] Failed to replay events', {
+        userId,
+        lastEventId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      res.write(`event: resync\ndata: ${JSON.stringify({ reason: 'Missed events could not be loaded' })}\n\n`);
+    } finally {
+      pending = null;
+    }
+  }
+}
+
+function writeEvent(res: Response, event: UserEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, createdAt: event.createdAt })}\n\n`);
+}
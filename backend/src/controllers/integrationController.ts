@@ -844,29 +844,25 @@ export class IntegrationController {
         return;
       }
 
-      // Update dynamic_information in database
-      await agentModel.update(agentId, {
-        dynamic_information: dynamicInformation || null
-      });
-
-      // Combine system_prompt with dynamic_information
-      const finalSystemPrompt = dynamicInformation
-        ? `${agent.system_prompt}\n\n${dynamicInformation}`
-        : agent.system_prompt;
-
-      // Update Bolna agent system prompt via PATCH
-      const { bolnaService } = await import('../services/bolnaService');
-      await bolnaService.patchAgentSystemPrompt(agent.bolna_agent_id, finalSystemPrompt);
+      // Save as a new prompt version; also updates the Bolna agent system prompt
+      const { AgentPromptService } = await import('../services/agentPromptService');
+      const { version } = await AgentPromptService.saveVersion(
+        agentId,
+        { dynamic_information: dynamicInformation || null },
+        { author: { id: userId, name: req.user?.name } }
+      );
 
       logger.info('Successfully updated agent dynamic info and Bolna system prompt', {
         userId,
         agentId,
-        bolnaAgentId: agent.bolna_agent_id
+        bolnaAgentId: agent.bolna_agent_id,
+        promptVersion: version.version_number
       });
 
       res.json({
         success: true,
-        message: 'Dynamic information updated successfully'
+        message: 'Dynamic information updated successfully',
+        data: { prompt_version_id: version.id, version_number: version.version_number }
       });
     } catch (error) {
       logger.error('Failed to update agent dynamic info', {
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { InvoiceStatus } from '../models/Invoice';
+import { InvoiceError, InvoiceService } from '../services/invoiceService';
+import { isValidUUID } from '../utils/validation';
+
+/**
+ * Admin view of invoices: list, download, regenerate and void
+ */
+export class InvoiceAdminController {
+  /**
+   * List invoices, optionally for one user (?userId=) or status (?status=issued|void)
+   */
+  static async getInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string | undefined;
+      const status = req.query.status as string | undefined;
+      if (userId && !isValidUUID(userId)) {
+        throw new InvoiceError('Invalid user ID');
+      }
+      if (status && status !== 'issued' && status !== 'void') {
+        throw new InvoiceError('status must be issued or void');
+      }
+
+      const result = await InvoiceService.listInvoices(
+        { userId, status: status as InvoiceStatus | undefined },
+        parseInt(req.query.page as string) || 1,
+        parseInt(req.query.limit as string) || 50
+      );
+      res.json({ success: true, data: result, timestamp: new Date() });
+    } catch (error: any) {
+      InvoiceAdminController.sendError(res, error, 'GET_INVOICES_ERROR', 'Failed to fetch invoices');
+    }
+  }
+
+  static async downloadInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await InvoiceService.getInvoice(InvoiceAdminController.invoiceId(req));
+      const document = InvoiceService.renderInvoice(invoice, req.query.format === 'csv' ? 'csv' : 'pdf');
+
+      res.setHeader('Content-Type', document.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+      res.send(document.body);
+    } catch (error: any) {
+      InvoiceAdminController.sendError(res, error, 'DOWNLOAD_INVOICE_ERROR', 'Failed to download invoice');
+    }
+  }
+
+  /**
+   * Rebuild an invoice with the current billing profile and tax settings
+   * Issued invoices keep their number; voided ones are reissued under a new number.
+   */
+  static async regenerateInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await InvoiceService.regenerateInvoice(InvoiceAdminController.invoiceId(req));
+      res.json({ success: true, data: invoice, message: 'Invoice regenerated', timestamp: new Date() });
+    } catch (error: any) {
+      InvoiceAdminController.sendError(res, error, 'REGENERATE_INVOICE_ERROR', 'Failed to regenerate invoice');
+    }
+  }
+
+  static async voidInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await InvoiceService.voidInvoice(
+        InvoiceAdminController.invoiceId(req),
+        req.body?.reason,
+        req.adminUser?.id || null
+      );
+      res.json({ success: true, data: invoice, message: 'Invoice voided', timestamp: new Date() });
+    } catch (error: any) {
+      InvoiceAdminController.sendError(res, error, 'VOID_INVOICE_ERROR', 'Failed to void invoice');
+    }
+  }
+
+  private static invoiceId(req: Request): string {
+    const { invoiceId } = req.params;
+    if (!isValidUUID(invoiceId)) {
+      throw new InvoiceError('Invalid invoice ID');
+    }
+    return invoiceId;
+  }
+
+  private static sendError(res: Response, error: any, code: string, message: string): void {
+    if (error instanceof InvoiceError) {
+      res.status(error.statusCode).json({
+        error: {
+          code: 'INVALID_INVOICE_REQUEST',
+          message: error.message,
+          timestamp: new Date(),
+        },
+      });
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      error: {
+        code,
+        message,
+        timestamp: new Date(),
+      },
+    });
+  }
+}
@@ -0,0 +1,344 @@
+import { Request, Response } from 'express';
+import { LeadSourceService, LeadSourceNotFoundError } from '../services/leadSourceService';
+import { LeadSourceRequestStatus } from '../types/leadSource';
+import { logger } from '../utils/logger';
+
+const REQUEST_STATUSES: LeadSourceRequestStatus[] = ['processed', 'rejected', 'failed'];
+
+// Lead source controller - inbound lead endpoints, their field mapping and request log
+export class LeadSourceController {
+  /**
+   * List the presets (IndiaMART, TradeIndia, JustDial, Facebook Lead Ads, custom)
+   * GET /api/lead-sources/presets
+   */
+  static async getPresets(req: Request, res: Response): Promise<Response> {
+    return res.json({ success: true, data: LeadSourceService.listPresets() });
+  }
+
+  /**
+   * List the user's lead sources
+   * GET /api/lead-sources
+   */
+  static async getSources(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const sources = await LeadSourceService.listSources(userId);
+      return res.json({ success: true, data: sources });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error listing lead sources:', error);
+      return res.status(500).json({ error: 'Failed to get lead sources' });
+    }
+  }
+
+  /**
+   * Get one lead source
+   * GET /api/lead-sources/:id
+   */
+  static async getSource(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const source = await LeadSourceService.getSource(userId, req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({ success: true, data: source });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error getting lead source:', error);
+      return res.status(500).json({ error: 'Failed to get lead source' });
+    }
+  }
+
+  /**
+   * Create a lead source (the secret is only returned here and on rotation)
+   * POST /api/lead-sources
+   */
+  static async createSource(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let created;
+      try {
+        created = await LeadSourceService.createSource(userId, req.body || {});
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid lead source'
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { ...created.source, secret: created.secret },
+        message: 'Lead source created - copy the secret now, it will not be shown again'
+      });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error creating lead source:', error);
+      return res.status(500).json({ error: 'Failed to create lead source' });
+    }
+  }
+
+  /**
+   * Update a lead source's name, authentication, field mapping or source label
+   * PUT /api/lead-sources/:id
+   */
+  static async updateSource(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let source;
+      try {
+        source = await LeadSourceService.updateSource(userId, req.params.id, req.body || {});
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid lead source'
+        });
+      }
+
+      if (!source) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({ success: true, data: source });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error updating lead source:', error);
+      return res.status(500).json({ error: 'Failed to update lead source' });
+    }
+  }
+
+  /**
+   * Replace the secret (generated, or the one given in the body)
+   * POST /api/lead-sources/:id/rotate-secret
+   */
+  static async rotateSecret(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let rotated;
+      try {
+        rotated = await LeadSourceService.rotateSecret(userId, req.params.id, req.body?.secret);
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid secret'
+        });
+      }
+
+      if (!rotated) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({ success: true, data: { ...rotated.source, secret: rotated.secret } });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error rotating lead source secret:', error);
+      return res.status(500).json({ error: 'Failed to rotate secret' });
+    }
+  }
+
+  /**
+   * Remove a lead source and its request log
+   * DELETE /api/lead-sources/:id
+   */
+  static async deleteSource(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const deleted = await LeadSourceService.deleteSource(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({ success: true, message: 'Lead source removed' });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error deleting lead source:', error);
+      return res.status(500).json({ error: 'Failed to remove lead source' });
+    }
+  }
+
+  /**
+   * Show the contact data a sample payload maps to, optionally with an unsaved mapping
+   * POST /api/lead-sources/:id/preview  { payload, field_mapping? }
+   */
+  static async previewMapping(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      if (req.body?.payload === undefined) {
+        return res.status(400).json({ error: 'payload is required' });
+      }
+
+      let preview;
+      try {
+        preview = await LeadSourceService.previewMapping(userId, req.params.id, req.body.payload, req.body.field_mapping);
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid field mapping'
+        });
+      }
+
+      if (!preview) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({ success: true, data: preview });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error previewing lead source mapping:', error);
+      return res.status(500).json({ error: 'Failed to preview field mapping' });
+    }
+  }
+
+  /**
+   * List the requests a source received
+   * GET /api/lead-sources/:id/requests?status=&limit=&offset=
+   */
+  static async getRequests(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const status = req.query.status as LeadSourceRequestStatus | undefined;
+      if (status && !REQUEST_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${REQUEST_STATUSES.join(', ')}` });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const result = await LeadSourceService.listRequests(userId, req.params.id, { status, limit, offset });
+      if (!result) {
+        return res.status(404).json({ error: 'Lead source not found' });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          requests: result.requests,
+          pagination: { total: result.total, limit, offset, hasMore: offset + limit < result.total }
+        }
+      });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error listing lead source requests:', error);
+      return res.status(500).json({ error: 'Failed to get lead source requests' });
+    }
+  }
+
+  /**
+   * Get one logged request with its headers and body
+   * GET /api/lead-sources/:id/requests/:requestId
+   */
+  static async getRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const request = await LeadSourceService.getRequest(userId, req.params.id, req.params.requestId);
+      if (!request) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      return res.json({ success: true, data: request });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error getting lead source request:', error);
+      return res.status(500).json({ error: 'Failed to get lead source request' });
+    }
+  }
+
+  /**
+   * Process a logged request again with the current field mapping
+   * POST /api/lead-sources/:id/requests/:requestId/replay
+   */
+  static async replayRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let result;
+      try {
+        result = await LeadSourceService.replayRequest(userId, req.params.id, req.params.requestId);
+      } catch (replayError) {
+        return res.status(400).json({
+          error: replayError instanceof Error ? replayError.message : 'Request cannot be replayed'
+        });
+      }
+
+      if (!result) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      return res.json({ success: result.status === 'processed', data: result });
+    } catch (error) {
+      logger.error('[LeadSourceController] Error replaying lead source request:', error);
+      return res.status(500).json({ error: 'Failed to replay request' });
+    }
+  }
+
+  /**
+   * Inbound endpoint of a lead source (public, verified with the source's secret)
+   * GET|POST /api/webhooks/lead-sources/:token
+   */
+  static async receive(req: Request, res: Response): Promise<Response> {
+    try {
+      // Facebook checks the endpoint with a GET before sending leads
+      if (req.method === 'GET' && req.query['hub.mode'] !== undefined) {
+        const challenge = await LeadSourceService.verifySubscription(req.params.token, req.query);
+        return challenge
+          ? res.type('text/plain').send(challenge)
+          : res.status(403).json({ error: 'Invalid verify token' });
+      }
+
+      const result = await LeadSourceService.receive(req.params.token, {
+        method: req.method,
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+        rawBody: req.rawBody
+      });
+
+      if (result.status === 'rejected') {
+        return res.status(401).json({ success: false, error: result.error, request_id: result.requestId });
+      }
+
+      // Failed leads are logged for replay; 422 tells the sender nothing was imported
+      return res.status(result.status === 'processed' ? 200 : 422).json({
+        success: result.status === 'processed',
+        request_id: result.requestId,
+        leads_received: result.leadsReceived,
+        contacts_created: result.contactsCreated,
+        contacts_updated: result.contactsUpdated,
+        ...(result.error ? { error: result.error } : {})
+      });
+    } catch (error) {
+      if (error instanceof LeadSourceNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      logger.error('[LeadSourceController] Error receiving lead source request:', error);
+      return res.status(500).json({ error: 'Failed to process lead' });
+    }
+  }
+}
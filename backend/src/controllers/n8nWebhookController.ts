@@ -1,6 +1,5 @@
 import { Request, Response } from 'express';
 import Agent from '../models/Agent';
-import Contact from '../models/Contact';
 import { ContactService } from '../services/contactService';
 import { AutoEngagementTriggerService } from '../services/autoEngagementTriggerService';
 import { logger } from '../utils/logger';
@@ -126,73 +125,21 @@ export class N8nWebhookController {
 
       // ==================== CONTACT CREATE/UPDATE ====================
       
-      // Normalize phone number
-      const normalizedPhone = ContactService.normalizePhoneNumber(recipient_phone_number);
-      
-      // Check if contact exists for this user
-      let contact = await ContactService.findByPhone(userId, normalizedPhone);
-      let isNewContact = false;
-      
-      if (contact) {
-        // Update existing contact with any new information
-        logger.info(`[${requestId}] Updating existing contact: ${contact.id}`);
-        
-        const updateData: Record<string, any> = {};
-        
-        // Only update fields that have new values
-        if (payload.lead_name && payload.lead_name !== contact.name) {
-          updateData.name = payload.lead_name;
-        }
-        if (payload.email && payload.email !== contact.email) {
-          updateData.email = payload.email;
-        }
-        if (payload.company && payload.company !== contact.company) {
-          updateData.company = payload.company;
-        }
-        if (payload.Notes && payload.Notes !== contact.notes) {
-          // Append new notes to existing notes
-          updateData.notes = contact.notes 
-            ? `${contact.notes}\n---\n[${new Date().toISOString()}] ${payload.Notes}`
-            : payload.Notes;
-        }
-        if (payload.city && payload.city !== contact.city) {
-          updateData.city = payload.city;
-        }
-        if (payload.country && payload.country !== contact.country) {
-          updateData.country = payload.country;
-        }
-        // Update source if provided (this tracks latest lead source)
-        if (payload.Source) {
-          updateData.auto_creation_source = payload.Source;
-        }
-        
-        // Only update if there are changes
-        if (Object.keys(updateData).length > 0) {
-          contact = await ContactService.updateContact(userId, contact.id, updateData);
-          logger.info(`[${requestId}] Contact updated with fields: ${Object.keys(updateData).join(', ')}`);
-        } else {
-          logger.info(`[${requestId}] No contact fields to update`);
-        }
-      } else {
-        // Create new contact
-        logger.info(`[${requestId}] Creating new contact for phone: ${normalizedPhone}`);
-        isNewContact = true;
-        
-        const contactData = {
-          name: payload.lead_name,
-          phone_number: normalizedPhone,
-          email: payload.email || null,
-          company: payload.company || null,
-          notes: payload.Notes || null,
-          city: payload.city || null,
-          country: payload.country || null,
-          is_auto_created: true,
-          auto_creation_source: payload.Source || 'n8n_webhook'
-        };
-        
-        contact = await ContactService.createContact(userId, contactData);
-        logger.info(`[${requestId}] New contact created: ${contact.id}`);
-      }
+      const { contact, isNewContact } = await ContactService.upsertInboundLead(
+        userId,
+        {
+          name: lead_name,
+          phone_number: recipient_phone_number,
+          email: payload.email,
+          company: payload.company,
+          notes: payload.Notes,
+          city: payload.city,
+          country: payload.country
+        },
+        payload.Source,
+        'n8n_webhook'
+      );
+      logger.info(`[${requestId}] ${isNewContact ? 'New contact created' : 'Existing contact updated'}: ${contact.id}`);
 
       // ==================== TRIGGER AUTO ENGAGEMENT FLOW ====================
       // For new contacts, trigger Auto Engagement Flow matching and execution
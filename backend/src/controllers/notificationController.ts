@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
 import { logger } from '../utils/logger';
+import { TeamMemberNotificationModel } from '../models/TeamMemberNotification';
 
 interface Notification {
   id: string;
@@ -50,7 +51,7 @@ export const getNotifications = async (req: Request, res: Response): Promise<voi
 
     const result = await pool.query(query, [userId]);
     
-    const notifications: Notification[] = result.rows.map((row: any) => ({
+    const leadNotifications: Notification[] = result.rows.map((row: any) => ({
       id: row.id,
       leadId: row.lead_id,
       contactId: row.contact_id,
@@ -64,6 +65,28 @@ export const getNotifications = async (req: Request, res: Response): Promise<voi
       totalScore: row.total_score || 0
     }));
 
+    // Team members also get the notifications addressed to them (e.g. lead assignments)
+    const teamMemberId = (req as any).isTeamMember ? (req as any).teamMemberId : null;
+    const teamMemberNotifications: Notification[] = teamMemberId
+      ? (await TeamMemberNotificationModel.getByTeamMember(teamMemberId)).map(row => ({
+        id: row.id,
+        leadId: row.notification_data?.call_id || '',
+        contactId: row.contact_id || '',
+        phoneNumber: row.notification_data?.phone_number || '',
+        email: row.notification_data?.email || '',
+        smartNotification: row.message,
+        demoBookDateTime: null,
+        createdAt: new Date(row.created_at).toISOString(),
+        isRead: row.is_read,
+        leadType: 'assigned',
+        totalScore: row.notification_data?.lead_score || 0
+      }))
+      : [];
+
+    const notifications = [...teamMemberNotifications, ...leadNotifications]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, 20);
+
     // Get unread count
     const unreadCount = notifications.filter(n => !n.isRead).length;
 
@@ -95,6 +118,16 @@ export const markNotificationAsRead = async (req: Request, res: Response): Promi
       return;
     }
 
+    // Notifications addressed to the logged in team member
+    const teamMemberId = (req as any).isTeamMember ? (req as any).teamMemberId : null;
+    if (teamMemberId && await TeamMemberNotificationModel.markAsRead(id, teamMemberId)) {
+      res.json({
+        success: true,
+        message: 'Notification marked as read'
+      });
+      return;
+    }
+
     // Update the notification as read
     const query = `
       UPDATE lead_analytics 
@@ -155,11 +188,16 @@ export const markAllNotificationsAsRead = async (req: Request, res: Response): P
 
     const result = await pool.query(query, [userId]);
 
+    const teamMemberId = (req as any).isTeamMember ? (req as any).teamMemberId : null;
+    const teamMemberMarkedCount = teamMemberId
+      ? await TeamMemberNotificationModel.markAllAsRead(teamMemberId)
+      : 0;
+
     res.json({
       success: true,
       message: 'All notifications marked as read',
       data: {
-        markedCount: result.rows.length
+        markedCount: result.rows.length + teamMemberMarkedCount
       }
     });
 
@@ -67,7 +67,10 @@ export class PlivoDialerController {
 
       let normalizedToPhone: string;
       try {
-        normalizedToPhone = ContactService.normalizePhoneNumber(toPhoneNumber);
+        normalizedToPhone = ContactService.normalizePhoneNumber(
+          toPhoneNumber,
+          await ContactService.getDefaultPhoneRegion(userId)
+        );
       } catch {
         return res.status(400).json({ success: false, error: 'Invalid toPhoneNumber format' });
       }
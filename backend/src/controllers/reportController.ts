@@ -1,109 +1,324 @@
 import { Request, Response } from 'express';
-import { pool } from '../config/database';
+import { ReportBuilderService, ReportValidationError } from '../services/reportBuilderService';
+import { SavedReportService } from '../services/savedReportService';
+import { ReportFormat } from '../types/report';
 import { logger } from '../utils/logger';
 
+// Legacy admin report metrics on calls, mapped onto the report builder
+const LEGACY_CALL_METRICS: Record<string, string> = {
+  total_calls: 'total_calls',
+  call_success_rate: 'success_rate',
+  average_duration: 'avg_duration_seconds',
+  call_costs: 'credits_used',
+  calls_by_hour: 'total_calls'
+};
+
+const parseFormat = (value: unknown): ReportFormat => (value === 'xlsx' ? 'xlsx' : 'csv');
+
 export class ReportController {
+  /**
+   * System-wide report for the admin panel
+   * POST /api/admin/reports/generate
+   * Accepts a report builder definition, or the legacy { dataSource: 'calls', metrics, filters, groupBy, sortBy }
+   */
   static async generateReport(req: Request, res: Response) {
     try {
-      const { dataSource, metrics, filters, groupBy, sortBy } = req.body;
+      const { dataSource, metrics, filters, sortBy, definition } = req.body;
 
-      if (!dataSource || !metrics || !Array.isArray(metrics)) {
-        res.status(400).json({ error: 'Invalid report configuration' });
-        return;
-      }
-
-      let query = '';
-      let params: any[] = [];
-
-      if (dataSource === 'calls') {
-        const selectFields = metrics.map((metric: string) => {
-          switch (metric) {
-            case 'total_calls':
-              return 'COUNT(*) as total_calls';
-            case 'call_success_rate':
-              return "COUNT(CASE WHEN status = 'completed' THEN 1 END) * 100.0 / COUNT(*) as call_success_rate";
-            case 'average_duration':
-              return 'AVG(duration_seconds) as average_duration';
-            case 'calls_by_hour':
-              return 'EXTRACT(HOUR FROM created_at) as hour, COUNT(*) as count';
-            case 'call_costs':
-              return 'SUM(credits_used) as call_costs';
-            default:
-              return null;
-          }
-        }).filter(Boolean).join(', ');
-
-        if (!selectFields) {
-            res.status(400).json({ error: 'No valid metrics selected' });
-            return;
+      let reportDefinition: unknown = definition;
+      if (!reportDefinition) {
+        if (!dataSource || !metrics || !Array.isArray(metrics)) {
+          res.status(400).json({ error: 'Invalid report configuration' });
+          return;
         }
-
-        query = `SELECT ${selectFields} FROM calls`;
-        
-        // Add filters
-        const whereClauses: string[] = [];
-        if (filters && Array.isArray(filters)) {
-            filters.forEach((filter: any) => {
-                if (filter.id === 'date_range' && filter.value) {
-                    if (filter.value.start) {
-                        whereClauses.push(`created_at >= $${params.length + 1}`);
-                        params.push(filter.value.start);
-                    }
-                    if (filter.value.end) {
-                        whereClauses.push(`created_at <= $${params.length + 1}`);
-                        params.push(filter.value.end);
-                    }
-                }
-                // Add more filters as needed
-            });
+        if (dataSource !== 'calls') {
+          res.status(400).json({ error: `Data source '${dataSource}' not supported yet` });
+          return;
         }
 
-        if (whereClauses.length > 0) {
-            query += ` WHERE ${whereClauses.join(' AND ')}`;
+        const dateFilter = Array.isArray(filters)
+          ? filters.find((filter: any) => filter?.id === 'date_range' && filter.value)
+          : undefined;
+        const mappedMetrics = [...new Set(metrics.map((metric: string) => LEGACY_CALL_METRICS[metric]).filter(Boolean))];
+        if (mappedMetrics.length === 0) {
+          res.status(400).json({ error: 'No valid metrics selected' });
+          return;
         }
 
-        // Add Group By
-        if (groupBy && Array.isArray(groupBy) && groupBy.length > 0) {
-             // Basic group by support - needs to be safe
-             // For now, only support grouping by hour if calls_by_hour metric is present
-             if (metrics.includes('calls_by_hour')) {
-                 query += ' GROUP BY hour';
-             }
-        }
-        
-        // Add Sort By
-        if (sortBy && Array.isArray(sortBy) && sortBy.length > 0) {
-             const sortClauses = sortBy.map((sort: any) => {
-                 // Sanitize field name
-                 const field = sort.field === 'hour' ? 'hour' : sort.field; 
-                 const direction = sort.direction === 'desc' ? 'DESC' : 'ASC';
-                 return `${field} ${direction}`;
-             });
-             query += ` ORDER BY ${sortClauses.join(', ')}`;
-        } else if (metrics.includes('calls_by_hour')) {
-            query += ' ORDER BY hour ASC';
-        }
-
-      } else {
-        res.status(400).json({ error: `Data source '${dataSource}' not supported yet` });
-        return;
+        reportDefinition = {
+          source: 'calls',
+          dimensions: metrics.includes('calls_by_hour') ? ['created_hour_of_day'] : [],
+          metrics: mappedMetrics,
+          date_range: dateFilter ? { start: dateFilter.value.start, end: dateFilter.value.end } : undefined,
+          sort: Array.isArray(sortBy)
+            ? sortBy.map((sort: any) => ({
+              field: sort.field === 'hour' ? 'created_hour_of_day' : LEGACY_CALL_METRICS[sort.field] || sort.field,
+              direction: sort.direction
+            }))
+            : undefined
+        };
       }
 
-      const result = await pool.query(query, params);
-      
-      // Format data for frontend
-      // The frontend expects { data: any[], summary: any }
-      // For now, just return the rows
-      
+      const result = await ReportBuilderService.runSystemReport(reportDefinition);
+
       res.json({
         data: result.rows,
-        generated_at: new Date().toISOString(),
+        columns: result.columns,
+        truncated: result.truncated,
+        generated_at: result.generated_at,
         config: req.body
       });
 
     } catch (error) {
+      if (error instanceof ReportValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       logger.error('Error generating report:', error);
       res.status(500).json({ error: 'Failed to generate report' });
     }
   }
+
+  /**
+   * Sources, dimensions, metrics and filters available to the report builder
+   * GET /api/reports/catalog
+   */
+  static async getCatalog(req: Request, res: Response): Promise<Response> {
+    return res.json({ success: true, data: ReportBuilderService.getCatalog() });
+  }
+
+  /**
+   * Run an ad-hoc report definition
+   * POST /api/reports/run
+   */
+  static async runReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await ReportBuilderService.runReport(userId, req.body?.definition, req.user?.timezone);
+
+      return res.json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error running report:', error);
+      return res.status(500).json({ error: 'Failed to run report' });
+    }
+  }
+
+  /**
+   * Download an ad-hoc report definition as CSV or XLSX
+   * POST /api/reports/export?format=csv|xlsx
+   */
+  static async exportReport(req: Request, res: Response): Promise<Response | void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const result = await ReportBuilderService.runReport(userId, req.body?.definition, req.user?.timezone);
+      const file = SavedReportService.toExport(result, req.body?.name || 'report', parseFormat(req.query.format));
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.send(file.content);
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error exporting report:', error);
+      return res.status(500).json({ error: 'Failed to export report' });
+    }
+  }
+
+  /**
+   * List saved reports
+   * GET /api/reports/saved
+   */
+  static async getSavedReports(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const reports = await SavedReportService.listReports(userId);
+
+      return res.json({ success: true, data: reports });
+    } catch (error) {
+      logger.error('[ReportController] Error listing saved reports:', error);
+      return res.status(500).json({ error: 'Failed to get saved reports' });
+    }
+  }
+
+  /**
+   * Get a saved report
+   * GET /api/reports/saved/:id
+   */
+  static async getSavedReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const report = await SavedReportService.getReport(userId, req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      return res.json({ success: true, data: report });
+    } catch (error) {
+      logger.error('[ReportController] Error getting saved report:', error);
+      return res.status(500).json({ error: 'Failed to get report' });
+    }
+  }
+
+  /**
+   * Save a report definition, optionally with an email schedule
+   * POST /api/reports/saved
+   */
+  static async createSavedReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { name, description, definition, schedule } = req.body || {};
+      const report = await SavedReportService.createReport(
+        userId,
+        { name, description, definition, schedule },
+        req.user?.timezone
+      );
+
+      return res.status(201).json({ success: true, data: report });
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error saving report:', error);
+      return res.status(500).json({ error: 'Failed to save report' });
+    }
+  }
+
+  /**
+   * Update a saved report (schedule: null removes the schedule)
+   * PATCH /api/reports/saved/:id
+   */
+  static async updateSavedReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { name, description, definition, schedule } = req.body || {};
+      const report = await SavedReportService.updateReport(
+        userId,
+        req.params.id,
+        { name, description, definition, schedule },
+        req.user?.timezone
+      );
+
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      return res.json({ success: true, data: report });
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error updating report:', error);
+      return res.status(500).json({ error: 'Failed to update report' });
+    }
+  }
+
+  /**
+   * Delete a saved report
+   * DELETE /api/reports/saved/:id
+   */
+  static async deleteSavedReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const deleted = await SavedReportService.deleteReport(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      return res.json({ success: true, message: 'Report deleted' });
+    } catch (error) {
+      logger.error('[ReportController] Error deleting report:', error);
+      return res.status(500).json({ error: 'Failed to delete report' });
+    }
+  }
+
+  /**
+   * Run a saved report
+   * GET /api/reports/saved/:id/run
+   */
+  static async runSavedReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const report = await SavedReportService.getReport(userId, req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      const result = await ReportBuilderService.runReport(userId, report.definition, req.user?.timezone);
+
+      return res.json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error running saved report:', error);
+      return res.status(500).json({ error: 'Failed to run report' });
+    }
+  }
+
+  /**
+   * Download a saved report as CSV or XLSX
+   * GET /api/reports/saved/:id/export?format=csv|xlsx
+   */
+  static async exportSavedReport(req: Request, res: Response): Promise<Response | void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const report = await SavedReportService.getReport(userId, req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      const result = await ReportBuilderService.runReport(userId, report.definition, req.user?.timezone);
+      const file = SavedReportService.toExport(result, report.name, parseFormat(req.query.format));
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.send(file.content);
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('[ReportController] Error exporting saved report:', error);
+      return res.status(500).json({ error: 'Failed to export report' });
+    }
+  }
 }
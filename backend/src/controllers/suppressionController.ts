@@ -0,0 +1,235 @@
+import { Request, Response } from 'express';
+import { SuppressionListModel } from '../models/SuppressionList';
+import { SuppressionService, MAX_SUPPRESSION_IMPORT_ROWS } from '../services/suppressionService';
+import { SuppressionActor, SuppressionAuditAction, SuppressionEntryInput } from '../types/suppression';
+import { logger } from '../utils/logger';
+
+const AUDIT_ACTIONS: SuppressionAuditAction[] = ['added', 'removed', 'blocked', 'exported'];
+
+/**
+ * Actor recorded in the audit trail for the authenticated request
+ */
+function getActor(req: Request): SuppressionActor {
+  return req.isTeamMember
+    ? { type: 'team_member', id: req.teamMemberId }
+    : { type: 'user', id: req.userId };
+}
+
+// Suppression controller - do-not-call / opt-out list management
+export class SuppressionController {
+  /**
+   * List suppression entries
+   * GET /api/suppression-list?search=&limit=&offset=
+   */
+  static async getEntries(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const result = await SuppressionListModel.findByUser(userId, {
+        search: (req.query.search as string) || undefined,
+        limit,
+        offset
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          entries: result.entries,
+          pagination: { total: result.total, limit, offset, hasMore: offset + limit < result.total }
+        }
+      });
+    } catch (error) {
+      logger.error('[SuppressionController] Error listing suppression entries:', error);
+      return res.status(500).json({ error: 'Failed to get suppression list' });
+    }
+  }
+
+  /**
+   * Check whether a phone number or email is suppressed
+   * GET /api/suppression-list/check?phone_number=&email=
+   */
+  static async checkRecipient(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const phoneNumber = req.query.phone_number as string | undefined;
+      const email = req.query.email as string | undefined;
+      if (!phoneNumber && !email) {
+        return res.status(400).json({ error: 'phone_number or email is required' });
+      }
+
+      const result = await SuppressionService.checkRecipient(userId, { phoneNumber, email });
+
+      return res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('[SuppressionController] Error checking recipient:', error);
+      return res.status(500).json({ error: 'Failed to check recipient' });
+    }
+  }
+
+  /**
+   * Add a phone number and/or email
+   * POST /api/suppression-list
+   */
+  static async addEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const { phone_number, email, reason, notes } = req.body || {};
+
+      let entries;
+      try {
+        entries = await SuppressionService.addEntry(
+          userId,
+          { phone_number, email, reason, notes },
+          'manual',
+          getActor(req)
+        );
+      } catch (validationError) {
+        return res.status(400).json({
+          error: validationError instanceof Error ? validationError.message : 'Invalid entry'
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { entries },
+        message: entries.length > 0 ? 'Added to suppression list' : 'Already on suppression list'
+      });
+    } catch (error) {
+      logger.error('[SuppressionController] Error adding suppression entry:', error);
+      return res.status(500).json({ error: 'Failed to add suppression entry' });
+    }
+  }
+
+  /**
+   * Remove an entry
+   * DELETE /api/suppression-list/:id
+   */
+  static async removeEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const removed = await SuppressionService.removeEntry(userId, req.params.id, getActor(req));
+      if (!removed) {
+        return res.status(404).json({ error: 'Suppression entry not found' });
+      }
+
+      return res.json({ success: true, message: 'Removed from suppression list' });
+    } catch (error) {
+      logger.error('[SuppressionController] Error removing suppression entry:', error);
+      return res.status(500).json({ error: 'Failed to remove suppression entry' });
+    }
+  }
+
+  /**
+   * Bulk import from an uploaded CSV/Excel file (field "file") or a JSON body { entries: [...] }
+   * POST /api/suppression-list/import
+   */
+  static async importEntries(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      let inputs: SuppressionEntryInput[];
+      if (req.file) {
+        inputs = SuppressionService.parseImportFile(req.file.buffer);
+      } else if (Array.isArray(req.body?.entries)) {
+        inputs = req.body.entries;
+      } else {
+        return res.status(400).json({ error: 'Upload a CSV/Excel file or provide an entries array' });
+      }
+
+      if (inputs.length === 0) {
+        return res.status(400).json({ error: 'No entries to import' });
+      }
+
+      if (inputs.length > MAX_SUPPRESSION_IMPORT_ROWS) {
+        return res.status(400).json({
+          error: `Too many rows. At most ${MAX_SUPPRESSION_IMPORT_ROWS} entries can be imported at once.`
+        });
+      }
+
+      const result = await SuppressionService.importEntries(userId, inputs, getActor(req));
+
+      return res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('[SuppressionController] Error importing suppression entries:', error);
+      return res.status(500).json({ error: 'Failed to import suppression list' });
+    }
+  }
+
+  /**
+   * Download the list as CSV
+   * GET /api/suppression-list/export
+   */
+  static async exportEntries(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const csv = await SuppressionService.exportCsv(userId, getActor(req));
+      const filename = `suppression_list_${new Date().toISOString().slice(0, 10)}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(csv);
+    } catch (error) {
+      logger.error('[SuppressionController] Error exporting suppression list:', error);
+      return res.status(500).json({ error: 'Failed to export suppression list' });
+    }
+  }
+
+  /**
+   * Audit trail of list changes, exports and blocked sends
+   * GET /api/suppression-list/audit-log?action=&limit=&offset=
+   */
+  static async getAuditLog(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const action = req.query.action as SuppressionAuditAction | undefined;
+      if (action && !AUDIT_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `Invalid action. Use one of: ${AUDIT_ACTIONS.join(', ')}` });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const result = await SuppressionListModel.getAuditLog(userId, { action, limit, offset });
+
+      return res.json({
+        success: true,
+        data: {
+          entries: result.entries,
+          pagination: { total: result.total, limit, offset, hasMore: offset + limit < result.total }
+        }
+      });
+    } catch (error) {
+      logger.error('[SuppressionController] Error getting suppression audit log:', error);
+      return res.status(500).json({ error: 'Failed to get suppression audit log' });
+    }
+  }
+}
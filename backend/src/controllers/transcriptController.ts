@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import { TranscriptService, TranscriptSearchOptions } from '../services/transcriptService';
+import {
+  TranscriptExportService,
+  TranscriptExportError,
+  TranscriptExportFormat,
+  TRANSCRIPT_EXPORT_FORMATS
+} from '../services/transcriptExportService';
+import { isValidUUID } from '../utils/validation';
 import { logger } from '../utils/logger';
 
 // Transcript controller - handles transcript-specific operations
@@ -155,7 +162,7 @@ export class TranscriptController {
   }
 
   /**
-   * Export transcript in various formats
+   * Export transcript in various formats (txt, json, csv, srt, vtt, pdf, docx)
    * GET /api/transcripts/call/:callId/export
    */
   static async exportTranscript(req: Request, res: Response): Promise<Response | void> {
@@ -170,35 +177,71 @@ export class TranscriptController {
         return res.status(400).json({ error: 'Call ID is required' });
       }
 
-      const format = req.query.format as string || 'txt';
-      if (!['txt', 'json', 'csv'].includes(format)) {
-        return res.status(400).json({ error: 'Invalid format. Supported formats: txt, json, csv' });
+      const format = (req.query.format as string || 'txt') as TranscriptExportFormat;
+      if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Invalid format. Supported formats: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}`
+        });
       }
 
-      const transcript = await TranscriptService.getTranscriptByCallId(callId, userId);
+      const file = await TranscriptExportService.exportCallTranscript(callId, userId, format);
 
-      if (!transcript) {
+      if (!file) {
         return res.status(404).json({ error: 'Transcript not found' });
       }
 
-      const exportedContent = TranscriptService.exportTranscript(transcript, format as any);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.send(file.content);
+    } catch (error) {
+      logger.error('Error in exportTranscript controller:', error);
+      return res.status(500).json({
+        error: 'Failed to export transcript',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 
-      // Set appropriate content type and filename
-      const contentTypes = {
-        txt: 'text/plain',
-        json: 'application/json',
-        csv: 'text/csv'
-      };
+  /**
+   * Export all transcripts of a campaign and/or date range as a zip
+   * GET /api/transcripts/export/bulk?format=pdf&campaign_id=...&start_date=...&end_date=...
+   */
+  static async exportTranscriptsBulk(req: Request, res: Response): Promise<Response | void> {
+    try {
+      const userId = (req.user as any)?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-      const filename = `transcript_${callId}.${format}`;
+      const format = (req.query.format as string || 'txt') as TranscriptExportFormat;
+      if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Invalid format. Supported formats: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}`
+        });
+      }
 
-      res.setHeader('Content-Type', contentTypes[format as keyof typeof contentTypes]);
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      return res.send(exportedContent);
+      const campaignId = req.query.campaign_id as string | undefined;
+      if (campaignId && !isValidUUID(campaignId)) {
+        return res.status(400).json({ error: 'Invalid campaign_id' });
+      }
+      const startDate = req.query.start_date ? new Date(req.query.start_date as string) : undefined;
+      const endDate = req.query.end_date ? new Date(req.query.end_date as string) : undefined;
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: 'start_date and end_date must be valid dates' });
+      }
+
+      const file = await TranscriptExportService.exportBulk(userId, { format, campaignId, startDate, endDate });
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.send(file.content);
     } catch (error) {
-      logger.error('Error in exportTranscript controller:', error);
+      if (error instanceof TranscriptExportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error('Error in exportTranscriptsBulk controller:', error);
       return res.status(500).json({
-        error: 'Failed to export transcript',
+        error: 'Failed to export transcripts',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
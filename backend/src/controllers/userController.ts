@@ -17,7 +17,7 @@ export class UserController {
     const updates: ProfileUpdateData = {};
 
     // Extract and validate each field with enhanced validation
-    const { name, email, company, website, location, bio, phone, timezone, timezoneAutoDetected } = body;
+    const { name, email, company, website, location, bio, phone, timezone, timezoneAutoDetected, default_phone_region } = body;
 
     // Enhanced validation for name
     if (name !== undefined) {
@@ -173,6 +173,19 @@ export class UserController {
       }
     }
 
+    // Validation for default_phone_region (null resets to the default region)
+    if (default_phone_region !== undefined) {
+      if (default_phone_region === null || default_phone_region === '') {
+        updates.default_phone_region = null;
+      } else if (typeof default_phone_region !== 'string') {
+        errors.push('Default phone region must be a string');
+      } else if (!/^[A-Za-z]{2}$/.test(default_phone_region.trim())) {
+        errors.push('Default phone region must be a 2-letter country code (e.g., IN, US)');
+      } else {
+        updates.default_phone_region = default_phone_region.trim().toUpperCase();
+      }
+    }
+
     // Check if at least one field is provided
     if (Object.keys(updates).length === 0) {
       errors.push('At least one field is required for update');
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { webhookService } from '../services/webhookService';
+import { getVoiceProvider } from '../services/voiceProvider';
 import { logger } from '../utils/logger';
 import * as Sentry from '@sentry/node';
 import { sanitizeMetadata } from '../utils/sentryHelpers';
@@ -131,7 +132,9 @@ export class WebhookController {
           }
 
           // Process webhook based on status
-          await webhookService.processWebhook(payload, status);
+          // Bolna posts here whichever provider places calls (the simulator delivers in-process)
+          const callEvent = getVoiceProvider('bolna').normalizeWebhook(payload) || payload;
+          await webhookService.processWebhook(callEvent, status);
 
           const processingTime = Date.now() - startTime;
           logger.info('✅ Webhook processed successfully', {
@@ -454,7 +454,7 @@ export const getCampaignStatus = async (req: Request, res: Response) => {
       if (phoneNumbers.length > 0) {
         // Normalize phones in JS to both formats for efficient index-based lookup
         // External API may return: +919876543210 (no space)
-        // Contacts table stores: +91 9876543210 (with space after country code)
+        // Contacts table stores E.164 (+919876543210); a few older rows keep +91 9876543210
         const normalizedPhones = phoneNumbers.flatMap((p: string) => {
           const noSpace = p.replace(/\s/g, '');
           // Add space after country code: +91 -> +91 , +1 -> +1 , +44 -> +44 
@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import Contact from '../models/Contact';
+import { ContactService } from '../services/contactService';
+import { AutoEngagementTriggerService } from '../services/autoEngagementTriggerService';
+import { logger } from '../utils/logger';
+
+/**
+ * WhatsApp Webhook Controller
+ *
+ * Receives WhatsApp events from the Chat Agent Server and turns them into
+ * Auto Engagement Flow triggers.
+ *
+ * Authentication: X-API-Key (the tenant's API key); events apply to the key's owner
+ */
+export class WhatsAppWebhookController {
+  /**
+   * Handle a WhatsApp template button click
+   * POST /api/webhooks/whatsapp/button-click
+   *
+   * Expected payload:
+   * {
+   *   "customer_phone": "919876543210", // Required: Phone of the customer who clicked
+   *   "button_text": "Book a demo",     // Required: Text of the clicked button
+   *   "button_payload": "BOOK_DEMO",    // Optional
+   *   "template_id": "uuid",            // Optional
+   *   "message_id": "wamid..."          // Optional
+   * }
+   */
+  async handleButtonClick(req: Request, res: Response): Promise<void> {
+    try {
+      // The tenant comes from the API key, never from the payload
+      const user_id = req.userId;
+      if (!user_id) {
+        res.status(401).json({ success: false, error: 'User not authenticated' });
+        return;
+      }
+
+      const { customer_phone, button_text, button_payload, template_id, message_id } = req.body;
+
+      if (req.body.user_id !== undefined && req.body.user_id !== user_id) {
+        res.status(403).json({
+          success: false,
+          error: 'user_id does not match the API key owner'
+        });
+        return;
+      }
+
+      if (!customer_phone || !button_text) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required fields: customer_phone, button_text'
+        });
+        return;
+      }
+
+      let normalizedPhone: string;
+      try {
+        const phone = String(customer_phone).trim();
+        normalizedPhone = ContactService.normalizePhoneNumber(phone.startsWith('+') ? phone : `+${phone}`);
+      } catch {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer_phone'
+        });
+        return;
+      }
+
+      const contactResult = await Contact.query(
+        'SELECT id FROM contacts WHERE user_id = $1 AND phone_number = $2 LIMIT 1',
+        [user_id, normalizedPhone]
+      );
+
+      if (contactResult.rows.length === 0) {
+        logger.info('WhatsApp button click for unknown contact, no flows triggered', {
+          userId: user_id,
+          phoneNumber: normalizedPhone
+        });
+        res.status(200).json({
+          success: true,
+          data: { contact_found: false, flows_triggered: false }
+        });
+        return;
+      }
+
+      const contactId = contactResult.rows[0].id;
+
+      // Trigger asynchronously - don't make the Chat Agent Server wait for flow actions
+      AutoEngagementTriggerService.onWhatsAppButtonClicked(contactId, user_id, {
+        button_text,
+        button_payload: button_payload || null,
+        template_id: template_id || null,
+        message_id: message_id || null
+      }).catch(error => {
+        logger.error('WhatsApp button click flow trigger failed (non-blocking):', {
+          error: error instanceof Error ? error.message : String(error),
+          contactId
+        });
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { contact_found: true, contact_id: contactId, flows_triggered: true }
+      });
+    } catch (error) {
+      logger.error('Error handling WhatsApp button click webhook:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process WhatsApp button click'
+      });
+    }
+  }
+}
+
+export const whatsappWebhookController = new WhatsAppWebhookController();
@@ -0,0 +1,109 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response, NextFunction } from 'express';
+import {
+  createRateLimit,
+  clientKeyGenerator,
+  MemoryRateLimitStore,
+  RateLimitStore
+} from '../../middleware/rateLimit';
+
+jest.mock('../../config/database');
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const buildResponse = () => {
+  const res: Partial<Response> = {};
+  res.status = jest.fn(() => res as Response);
+  res.json = jest.fn(() => res as Response);
+  res.setHeader = jest.fn(() => res as Response);
+  return res;
+};
+
+describe('Rate Limit Middleware', () => {
+  let store: MemoryRateLimitStore;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    mockNext = jest.fn();
+  });
+
+  test('should allow requests up to the limit and reject the next one', async () => {
+    const limiter = createRateLimit({ name: 'test', windowMs: 60000, maxRequests: 2, store });
+    const req = { ip: '10.0.0.1' } as Request;
+
+    const first = buildResponse();
+    await limiter(req, first as Response, mockNext);
+    expect(first.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', 1);
+
+    await limiter(req, buildResponse() as Response, mockNext);
+
+    const third = buildResponse();
+    await limiter(req, third as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(third.status).toHaveBeenCalledWith(429);
+    expect(third.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'RATE_LIMIT_EXCEEDED', limit: 2, remaining: 0 })
+    });
+  });
+
+  test('should keep separate buckets per API key, user and IP', async () => {
+    expect(clientKeyGenerator({ ip: '10.0.0.1', apiKey: { id: 'key-1' }, user: { id: 'user-1' } } as any)).toBe('api_key:key-1');
+    expect(clientKeyGenerator({ ip: '10.0.0.1', user: { id: 'user-1' } } as any)).toBe('user:user-1');
+    expect(clientKeyGenerator({ ip: '10.0.0.1' } as any)).toBe('ip:10.0.0.1');
+
+    const limiter = createRateLimit({ name: 'test', windowMs: 60000, maxRequests: 1, store, keyGenerator: clientKeyGenerator });
+
+    await limiter({ ip: '10.0.0.1', user: { id: 'user-1' } } as any, buildResponse() as Response, mockNext);
+    await limiter({ ip: '10.0.0.1', user: { id: 'user-2' } } as any, buildResponse() as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    await expect(store.get('test:user:user-1')).resolves.toEqual(expect.objectContaining({ count: 1 }));
+  });
+
+  test('should resolve per-request limits and block after exceeding them', async () => {
+    const limiter = createRateLimit({
+      name: 'test',
+      windowMs: 60000,
+      maxRequests: (req: Request) => (req as any).apiKey.rate_limit_per_minute,
+      blockDuration: 60000,
+      store,
+      keyGenerator: clientKeyGenerator
+    });
+    const req = { ip: '10.0.0.1', apiKey: { id: 'key-1', rate_limit_per_minute: 1 } } as any;
+
+    await limiter(req, buildResponse() as Response, mockNext);
+    await limiter(req, buildResponse() as Response, mockNext);
+
+    const blocked = buildResponse();
+    await limiter(req, blocked as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledTimes(1);
+    expect(blocked.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'IP_TEMPORARILY_BLOCKED' })
+    });
+  });
+
+  test('should allow requests when the store is unavailable', async () => {
+    const failingStore: RateLimitStore = {
+      increment: jest.fn(async () => { throw new Error('connection refused'); }),
+      block: jest.fn(async () => undefined),
+      get: jest.fn(async () => null),
+      clear: jest.fn(async () => undefined)
+    };
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 1, store: failingStore });
+
+    await limiter({ ip: '10.0.0.1' } as Request, buildResponse() as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,69 +1,82 @@
 import { Request, Response, NextFunction } from 'express';
+import { ApiKey, ApiKeyScope } from '../models/ApiKey';
+import { ApiKeyService, DEFAULT_API_KEY_RATE_LIMIT } from '../services/apiKeyService';
+import { authService } from '../services/authService';
+import { createRateLimit, clientKeyGenerator } from './rateLimit';
 import { logger } from '../utils/logger';
 
 // API Key authentication middleware for external services
 export interface ApiKeyRequest extends Request {
   apiKeyValid?: boolean;
   apiKeySource?: string;
+  apiKey?: ApiKey;
 }
 
 /**
- * Middleware to authenticate API key for external services
- * This is used for endpoints that external services (like ElevenLabs) call
+ * Middleware to authenticate a user's API key (X-API-Key header)
+ * The request runs as the key's owner: req.user / req.userId are set like for a JWT,
+ * so existing controllers only see that user's data.
  */
-export const authenticateApiKey = (req: ApiKeyRequest, res: Response, next: NextFunction): void => {
+export const authenticateApiKey = async (req: ApiKeyRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const apiKey = req.headers['x-api-key'] as string;
-    
+
     if (!apiKey) {
       logger.warn('API key missing in external request:', {
         path: req.path,
         ip: req.ip,
         userAgent: req.get('User-Agent')
       });
-      res.status(401).json({ 
+      res.status(401).json({
         error: 'API key required',
         message: 'Please provide a valid API key in the X-API-Key header'
       });
       return;
     }
 
-    // For now, we'll use a simple API key validation
-    // In production, this should be configurable and stored securely
-    const validApiKeys = [
-      process.env.ELEVENLABS_API_KEY, // Allow ElevenLabs to use their own API key
-      process.env.EXTERNAL_API_KEY,   // Dedicated external API key
-      'contact-lookup-key-dev'        // Development key
-    ].filter(Boolean);
+    const key = await ApiKeyService.authenticate(apiKey, req.ip || null);
+    const user = key ? await authService.getUserById(key.user_id) : null;
 
-    if (!validApiKeys.includes(apiKey)) {
+    if (!key || !user || !user.isActive) {
       logger.warn('Invalid API key used in external request:', {
         path: req.path,
         ip: req.ip,
         apiKeyPrefix: apiKey.substring(0, 8) + '...',
         userAgent: req.get('User-Agent')
       });
-      res.status(401).json({ 
+      res.status(401).json({
         error: 'Invalid API key',
-        message: 'The provided API key is not valid'
+        message: 'The provided API key is not valid, has expired or was revoked'
       });
       return;
     }
 
     // Mark request as authenticated
     req.apiKeyValid = true;
-    req.apiKeySource = 'external';
-    
+    req.apiKeySource = 'user';
+    req.apiKey = key;
+    req.user = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      credits: user.credits,
+      timezone: user.timezone,
+      isTeamMember: false
+    };
+    req.userId = user.id;
+    req.isTeamMember = false;
+
     logger.info('External API request authenticated:', {
       path: req.path,
       ip: req.ip,
-      apiKeyPrefix: apiKey.substring(0, 8) + '...'
+      apiKeyId: key.id,
+      userId: key.user_id
     });
 
     next();
   } catch (error) {
     logger.error('Error in API key authentication:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       error: 'Authentication error',
       message: 'Failed to authenticate API key'
     });
@@ -71,36 +84,37 @@ export const authenticateApiKey = (req: ApiKeyRequest, res: Response, next: Next
 };
 
 /**
- * Optional API key authentication - allows both authenticated and unauthenticated requests
- * This is useful for endpoints that can work with or without authentication
+ * Require a scope on the authenticated API key (use after authenticateApiKey)
  */
-export const optionalApiKeyAuth = (req: ApiKeyRequest, res: Response, next: NextFunction): void => {
-  const apiKey = req.headers['x-api-key'] as string;
-  
-  if (!apiKey) {
-    // No API key provided, continue without authentication
-    req.apiKeyValid = false;
+export const requireApiKeyScope = (scope: ApiKeyScope) => {
+  return (req: ApiKeyRequest, res: Response, next: NextFunction): void => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+      res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This API key does not have the ${scope} scope`
+      });
+      return;
+    }
+
     next();
-    return;
-  }
+  };
+};
 
-  // API key provided, validate it
-  authenticateApiKey(req, res, next);
+/**
+ * Continue with the route only for requests that carry an API key (X-API-Key header);
+ * other requests skip to the next route registered for the same path (e.g. the JWT one)
+ */
+export const whenApiKeyPresent = (req: Request, _res: Response, next: NextFunction): void => {
+  next(req.headers['x-api-key'] ? undefined : 'route');
 };
 
 /**
  * Rate limiting for external API requests
- * More restrictive than internal API rate limiting
+ * Limited per API key using the key's rate_limit_per_minute (use after authenticateApiKey)
  */
-export const externalApiRateLimit = (req: Request, res: Response, next: NextFunction): void => {
-  // For now, just log the request
-  // In production, implement proper rate limiting based on IP/API key
-  logger.info('External API request:', {
-    path: req.path,
-    method: req.method,
-    ip: req.ip,
-    userAgent: req.get('User-Agent')
-  });
-  
-  next();
-};
\ No newline at end of file
+export const externalApiRateLimit = createRateLimit({
+  name: 'external_api',
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: (req: Request) => (req as ApiKeyRequest).apiKey?.rate_limit_per_minute || DEFAULT_API_KEY_RATE_LIMIT,
+  keyGenerator: clientKeyGenerator
+});
@@ -110,6 +110,62 @@ export const authenticateToken = async (
   }
 };
 
+/**
+ * Authentication for the event stream
+ * Accepts a ticket from POST /api/events/ticket in ?ticket= (EventSource cannot set
+ * headers) and falls back to the Authorization header for other clients.
+ */
+export const authenticateEventStream = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : null;
+  if (!ticket) {
+    await authenticateToken(req, res, next);
+    return;
+  }
+
+  try {
+    const payload = authService.verifyEventStreamTicket(ticket);
+    const user = payload ? await authService.getUserById(payload.userId) : null;
+
+    if (!payload || !user || !user.isActive) {
+      res.status(401).json({
+        error: {
+          code: 'INVALID_TICKET',
+          message: 'Invalid or expired event stream ticket',
+          timestamp: new Date(),
+        },
+      });
+      return;
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      credits: user.credits,
+      isTeamMember: !!payload.teamMemberId,
+      teamMemberId: payload.teamMemberId,
+    };
+    req.userId = user.id;
+    req.isTeamMember = !!payload.teamMemberId;
+    req.teamMemberId = payload.teamMemberId;
+
+    next();
+  } catch (error) {
+    console.error('Event stream authentication error:', error);
+    res.status(401).json({
+      error: {
+        code: 'AUTH_ERROR',
+        message: 'Authentication failed',
+        timestamp: new Date(),
+      },
+    });
+  }
+};
+
 /**
  * Optional authentication middleware - doesn't fail if no token provided
  */
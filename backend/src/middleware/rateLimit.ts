@@ -1,32 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
+import { RateLimitStore, getRateLimitStore } from './rateLimitStore';
+import { logger } from '../utils/logger';
 
-// Enhanced rate limiting middleware - prevents abuse and manages API usage
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  blocked: boolean;
-  blockUntil?: number;
-}
-
-interface RateLimitStore {
-  [key: string]: RateLimitEntry;
-}
-
-const store: RateLimitStore = {};
-
-// Clean up expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(store).forEach(key => {
-    if (store[key].resetTime < now && (!store[key].blockUntil || store[key].blockUntil < now)) {
-      delete store[key];
-    }
-  });
-}, 5 * 60 * 1000);
+export * from './rateLimitStore';
 
+// Enhanced rate limiting middleware - prevents abuse and manages API usage
 export interface RateLimitOptions {
   windowMs: number;
-  maxRequests: number;
+  maxRequests: number | ((req: Request) => number); // Function form for per-client limits (e.g. per API key)
+  name?: string; // Namespaces bucket keys so limiters with different windows don't share counters
+  store?: RateLimitStore; // Defaults to the store selected by RATE_LIMIT_STORE
   blockDuration?: number; // How long to block after exceeding limit
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
@@ -34,24 +17,53 @@ export interface RateLimitOptions {
   onLimitReached?: (req: Request, res: Response) => void;
 }
 
+/**
+ * Bucket per API key, then per user, then per IP
+ */
+export const clientKeyGenerator = (req: Request): string => {
+  const apiKeyId = (req as any).apiKey?.id;
+  if (apiKeyId) {
+    return `api_key:${apiKeyId}`;
+  }
+
+  const userId = (req as any).user?.id;
+  return userId ? `user:${userId}` : `ip:${req.ip || 'unknown'}`;
+};
+
+export const ipKeyGenerator = (req: Request): string => `ip:${req.ip || 'unknown'}`;
+
 export const createRateLimit = (options: RateLimitOptions) => {
   const {
     windowMs,
-    maxRequests,
+    maxRequests: maxRequestsOption,
+    name,
     blockDuration = 0,
-    skipSuccessfulRequests = false,
-    skipFailedRequests = false,
-    keyGenerator = (req: Request) => req.ip || 'unknown',
+    keyGenerator = ipKeyGenerator,
     onLimitReached
   } = options;
 
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const key = keyGenerator(req);
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = name ? `${name}:${keyGenerator(req)}` : keyGenerator(req);
     const now = Date.now();
+    const maxRequests = typeof maxRequestsOption === 'function' ? maxRequestsOption(req) : maxRequestsOption;
+    const store = options.store || getRateLimitStore();
+
+    let bucket;
+    try {
+      bucket = await store.increment(key, windowMs);
+    } catch (error) {
+      // Fail open - a store outage should not take the API down with it
+      logger.warn('[RateLimit] Rate limit store unavailable, allowing request', {
+        key,
+        error: error instanceof Error ? error.message : error
+      });
+      next();
+      return;
+    }
 
-    // Check if IP is currently blocked
-    if (store[key]?.blocked && store[key].blockUntil && now < store[key].blockUntil) {
-      const remainingTime = Math.ceil((store[key].blockUntil! - now) / 1000);
+    // Check if client is currently blocked
+    if (bucket.blockUntil && now < bucket.blockUntil) {
+      const remainingTime = Math.ceil((bucket.blockUntil - now) / 1000);
       res.status(429).json({
         error: {
           code: 'IP_TEMPORARILY_BLOCKED',
@@ -63,23 +75,16 @@ export const createRateLimit = (options: RateLimitOptions) => {
       return;
     }
 
-    // Initialize or reset counter if window expired
-    if (!store[key] || now > store[key].resetTime) {
-      store[key] = {
-        count: 1,
-        resetTime: now + windowMs,
-        blocked: false
-      };
-      next();
-      return;
-    }
-
     // Check if limit exceeded
-    if (store[key].count >= maxRequests) {
-      // Block IP if blockDuration is set
+    if (bucket.count > maxRequests) {
+      // Block client if blockDuration is set
       if (blockDuration > 0) {
-        store[key].blocked = true;
-        store[key].blockUntil = now + blockDuration;
+        await store.block(key, now + blockDuration).catch((error: unknown) => {
+          logger.warn('[RateLimit] Failed to block rate limited client', {
+            key,
+            error: error instanceof Error ? error.message : error
+          });
+        });
       }
 
       // Call custom handler if provided
@@ -87,7 +92,7 @@ export const createRateLimit = (options: RateLimitOptions) => {
         onLimitReached(req, res);
       }
 
-      const resetTime = Math.ceil((store[key].resetTime - now) / 1000);
+      const resetTime = Math.max(0, Math.ceil((bucket.resetTime - now) / 1000));
       res.status(429).json({
         error: {
           code: 'RATE_LIMIT_EXCEEDED',
@@ -101,13 +106,10 @@ export const createRateLimit = (options: RateLimitOptions) => {
       return;
     }
 
-    // Increment counter
-    store[key].count++;
-
     // Add rate limit headers
     res.setHeader('X-RateLimit-Limit', maxRequests);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, maxRequests - store[key].count));
-    res.setHeader('X-RateLimit-Reset', new Date(store[key].resetTime).toISOString());
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, maxRequests - bucket.count));
+    res.setHeader('X-RateLimit-Reset', new Date(bucket.resetTime).toISOString());
 
     next();
   };
@@ -115,84 +117,79 @@ export const createRateLimit = (options: RateLimitOptions) => {
 
 // Enhanced rate limiting configurations
 export const generalRateLimit = createRateLimit({
+  name: 'general',
   windowMs: 30 * 60 * 1000, // 30 minutes
   maxRequests: 1000, // 1000 requests per 30 minutes
-  keyGenerator: (req: Request) => {
-    // Use user ID if authenticated, fallback to IP
-    const userId = (req as any).user?.id;
-    return userId ? `user:${userId}` : req.ip || 'unknown';
-  }
+  keyGenerator: clientKeyGenerator // Per user (or API key) once authenticated, fallback to IP
 });
 
 export const authRateLimit = createRateLimit({
+  name: 'auth',
   windowMs: 30 * 60 * 1000, // 30 minutes
   maxRequests: 1000, // 1000 requests per 30 minutes
   blockDuration: 0, // No blocking - just rate limit
-  keyGenerator: (req: Request) => req.ip || 'unknown',
+  keyGenerator: ipKeyGenerator,
   onLimitReached: (req: Request, res: Response) => {
     console.warn(`Authentication rate limit exceeded for IP: ${req.ip}`);
   }
 });
 
 export const uploadRateLimit = createRateLimit({
+  name: 'upload',
   windowMs: 15 * 60 * 1000, // 15 minutes (shorter window for development)
   maxRequests: 50, // More generous limit for development
-  keyGenerator: (req: Request) => req.ip || 'unknown'
+  keyGenerator: ipKeyGenerator
 });
 
 export const webhookRateLimit = createRateLimit({
+  name: 'webhook',
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 100, // Allow high frequency for webhooks
-  keyGenerator: (req: Request) => req.ip || 'unknown'
+  keyGenerator: ipKeyGenerator
 });
 
 export const adminRateLimit = createRateLimit({
+  name: 'admin',
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 200, // Higher limit for admin operations
-  keyGenerator: (req: Request) => req.ip || 'unknown'
+  keyGenerator: ipKeyGenerator
 });
 
 // Very lenient rate limit for session validation
 export const sessionValidationRateLimit = createRateLimit({
+  name: 'session',
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 10, // 10 requests per minute should be plenty
-  keyGenerator: (req: Request) => {
-    const userId = (req as any).user?.id;
-    return userId ? `session:${userId}` : req.ip || 'unknown';
-  }
+  keyGenerator: clientKeyGenerator
 });
 
 // User-specific rate limiting (requires authentication)
 export const createUserRateLimit = (options: RateLimitOptions) => {
   return createRateLimit({
     ...options,
-    keyGenerator: (req: Request) => {
-      // Use user ID if authenticated, fallback to IP
-      const userId = (req as any).user?.id;
-      return userId ? `user:${userId}` : req.ip || 'unknown';
-    }
+    keyGenerator: clientKeyGenerator
   });
 };
 
 export const userApiRateLimit = createUserRateLimit({
+  name: 'user_api',
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 60 // 60 requests per minute per user
 });
 
 export const userUploadRateLimit = createUserRateLimit({
+  name: 'user_upload',
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 5 // 5 uploads per hour per user
 });
 
 // Development utility to clear rate limit store
-export const clearRateLimitStore = () => {
-  Object.keys(store).forEach(key => {
-    delete store[key];
-  });
+export const clearRateLimitStore = async (): Promise<void> => {
+  await getRateLimitStore().clear();
   console.log('Rate limit store cleared');
 };
 
-// Get current rate limit status for debugging
-export const getRateLimitStatus = (ip: string) => {
-  return store[ip] || null;
-};
\ No newline at end of file
+// Get current rate limit status for debugging (key as built by the limiter, e.g. general:user:<id>)
+export const getRateLimitStatus = async (key: string) => {
+  return await getRateLimitStore().get(key);
+};
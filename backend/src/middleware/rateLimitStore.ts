@@ -0,0 +1,175 @@
+import { pool } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Counter state of one rate limit bucket (fixed window)
+export interface RateLimitState {
+  count: number;
+  resetTime: number; // Epoch ms when the current window ends
+  blockUntil?: number; // Epoch ms until which the bucket is blocked
+}
+
+/**
+ * Storage backend for rate limit counters
+ * increment() must be atomic so concurrent requests (and replicas sharing the store) count correctly.
+ */
+export interface RateLimitStore {
+  /** Count a request, starting a new window if the current one has expired */
+  increment(key: string, windowMs: number): Promise<RateLimitState>;
+  /** Block a bucket until the given time */
+  block(key: string, blockUntil: number): Promise<void>;
+  get(key: string): Promise<RateLimitState | null>;
+  clear(): Promise<void>;
+}
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * In-process store - counters are per server instance and reset on restart
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitState>();
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    this.startCleanup();
+
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+
+    if (!bucket || now > bucket.resetTime) {
+      const fresh: RateLimitState = { count: 1, resetTime: now + windowMs, blockUntil: bucket?.blockUntil };
+      this.buckets.set(key, fresh);
+      return { ...fresh };
+    }
+
+    bucket.count++;
+    return { ...bucket };
+  }
+
+  async block(key: string, blockUntil: number): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (bucket) {
+      bucket.blockUntil = blockUntil;
+    } else {
+      this.buckets.set(key, { count: 0, resetTime: Date.now(), blockUntil });
+    }
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const bucket = this.buckets.get(key);
+    return bucket ? { ...bucket } : null;
+  }
+
+  async clear(): Promise<void> {
+    this.buckets.clear();
+  }
+
+  // Clean up expired entries every 5 minutes
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.resetTime < now && (!bucket.blockUntil || bucket.blockUntil < now)) {
+          this.buckets.delete(key);
+        }
+      }
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+}
+
+/**
+ * Postgres store - counters live in rate_limit_buckets, so limits survive restarts
+ * and are shared by every replica. Uses the database clock for window boundaries.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    this.startCleanup();
+
+    const result = await pool.query(
+      `INSERT INTO rate_limit_buckets (key, count, reset_at)
+       VALUES ($1, 1, NOW() + ($2::integer * INTERVAL '1 millisecond'))
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN 1 ELSE rate_limit_buckets.count + 1 END,
+         reset_at = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limit_buckets.reset_at END
+       RETURNING count, reset_at, block_until`,
+      [key, windowMs]
+    );
+
+    return this.toState(result.rows[0]);
+  }
+
+  async block(key: string, blockUntil: number): Promise<void> {
+    await pool.query(
+      `INSERT INTO rate_limit_buckets (key, count, reset_at, block_until)
+       VALUES ($1, 0, NOW(), $2)
+       ON CONFLICT (key) DO UPDATE SET block_until = EXCLUDED.block_until`,
+      [key, new Date(blockUntil)]
+    );
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const result = await pool.query(
+      'SELECT count, reset_at, block_until FROM rate_limit_buckets WHERE key = $1',
+      [key]
+    );
+    return result.rows[0] ? this.toState(result.rows[0]) : null;
+  }
+
+  async clear(): Promise<void> {
+    await pool.query('DELETE FROM rate_limit_buckets');
+  }
+
+  private toState(row: { count: number; reset_at: Date; block_until: Date | null }): RateLimitState {
+    return {
+      count: Number(row.count),
+      resetTime: new Date(row.reset_at).getTime(),
+      blockUntil: row.block_until ? new Date(row.block_until).getTime() : undefined
+    };
+  }
+
+  // Purge expired buckets every 5 minutes
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      pool.query(
+        `DELETE FROM rate_limit_buckets
+         WHERE reset_at < NOW() AND (block_until IS NULL OR block_until < NOW())`
+      ).catch((error: unknown) => {
+        logger.warn('[RateLimitStore] Failed to purge expired rate limit buckets', {
+          error: error instanceof Error ? error.message : error
+        });
+      });
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Store used by rate limiters that don't configure their own
+ * RATE_LIMIT_STORE=postgres|memory (defaults to memory; postgres writes to the database on every
+ * limited request, so it is opt-in for deployments with several replicas)
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!defaultStore) {
+    const configured = process.env.RATE_LIMIT_STORE || 'memory';
+    defaultStore = configured === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+    logger.info(`[RateLimitStore] Using ${configured === 'postgres' ? 'postgres' : 'memory'} rate limit store`);
+  }
+  return defaultStore;
+};
+
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  defaultStore = store;
+};
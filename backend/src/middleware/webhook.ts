@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 
+// Raw request body, set by the body parsers in server.ts (needed to check HMAC signatures)
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
 /**
  * Simple request logging middleware for webhooks
  * Logs incoming webhook requests for debugging and monitoring
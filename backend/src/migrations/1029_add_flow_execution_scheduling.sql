@@ -0,0 +1,34 @@
+-- Migration: Durable wait steps for auto engagement flows
+-- Description: Persists wait actions as scheduled resumption points so flow
+-- executions survive restarts and can wait for multiple days
+-- Date: 2026-10-18
+
+-- =====================================================
+-- flow_executions: scheduled resumption
+-- =====================================================
+ALTER TABLE flow_executions
+  ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS resume_action_order INTEGER;
+
+ALTER TABLE flow_executions DROP CONSTRAINT IF EXISTS valid_execution_status;
+ALTER TABLE flow_executions ADD CONSTRAINT valid_execution_status
+  CHECK (status IN ('running', 'waiting', 'completed', 'failed', 'cancelled', 'skipped'));
+
+-- Poller lookup: waiting executions that are due
+CREATE INDEX IF NOT EXISTS idx_executions_waiting_due
+  ON flow_executions(next_run_at)
+  WHERE status = 'waiting';
+
+-- =====================================================
+-- flow_action_logs: waiting wait-steps
+-- =====================================================
+ALTER TABLE flow_action_logs
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE flow_action_logs DROP CONSTRAINT IF EXISTS valid_action_log_status;
+ALTER TABLE flow_action_logs ADD CONSTRAINT valid_action_log_status
+  CHECK (status IN ('pending', 'running', 'waiting', 'success', 'failed', 'skipped'));
+
+COMMENT ON COLUMN flow_executions.next_run_at IS 'When a waiting execution should be resumed by the flow scheduler';
+COMMENT ON COLUMN flow_executions.resume_action_order IS 'action_order of the first action to run when the execution resumes';
+COMMENT ON COLUMN flow_action_logs.scheduled_for IS 'For wait actions: the time the wait ends (after business hours adjustment)';
@@ -0,0 +1,25 @@
+-- Migration: Wait for real call outcomes in auto engagement flows
+-- Description: Flow executions suspend after an AI call action until the call
+-- webhook reports the outcome, so conditional actions can branch on it
+-- Date: 2026-10-18
+
+-- =====================================================
+-- flow_executions: call the execution is waiting on
+-- =====================================================
+ALTER TABLE flow_executions
+  ADD COLUMN IF NOT EXISTS awaiting_call_id UUID REFERENCES calls(id) ON DELETE SET NULL;
+
+-- Webhook lookup: waiting executions for a finished call
+CREATE INDEX IF NOT EXISTS idx_executions_awaiting_call
+  ON flow_executions(awaiting_call_id)
+  WHERE status = 'waiting' AND awaiting_call_id IS NOT NULL;
+
+-- =====================================================
+-- flow_actions: lead score condition
+-- =====================================================
+ALTER TABLE flow_actions DROP CONSTRAINT IF EXISTS valid_condition_type;
+ALTER TABLE flow_actions ADD CONSTRAINT valid_condition_type
+  CHECK (condition_type IS NULL OR condition_type IN ('call_outcome', 'always', 'previous_action_status', 'lead_score'));
+
+COMMENT ON COLUMN flow_executions.awaiting_call_id IS 'Call started by an ai_call action whose outcome the waiting execution needs before it continues (next_run_at is the timeout)';
+COMMENT ON COLUMN flow_actions.condition_value IS 'Expected value for the condition; for lead_score the minimum lead analytics total score';
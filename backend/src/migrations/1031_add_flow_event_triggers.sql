@@ -0,0 +1,22 @@
+-- Migration: Event triggers for auto engagement flows
+-- Description: Flows can be triggered by lead stage changes, completed calls,
+-- email opens/clicks and WhatsApp button clicks in addition to contact creation
+-- Date: 2026-10-18
+
+-- =====================================================
+-- flow_trigger_conditions: event trigger types
+-- =====================================================
+ALTER TABLE flow_trigger_conditions DROP CONSTRAINT IF EXISTS valid_condition_type;
+ALTER TABLE flow_trigger_conditions ADD CONSTRAINT valid_condition_type
+  CHECK (condition_type IN (
+    'lead_source', 'entry_type', 'custom_field',
+    'lead_stage_changed', 'call_completed', 'call_lead_score',
+    'email_opened', 'email_clicked', 'whatsapp_button_clicked'
+  ));
+
+-- Numeric comparisons (lead score)
+ALTER TABLE flow_trigger_conditions DROP CONSTRAINT IF EXISTS valid_condition_operator;
+ALTER TABLE flow_trigger_conditions ADD CONSTRAINT valid_condition_operator
+  CHECK (condition_operator IN ('equals', 'any', 'contains', 'not_equals', 'greater_than', 'less_than'));
+
+COMMENT ON COLUMN flow_trigger_conditions.condition_type IS 'Contact condition (lead_source, entry_type, custom_field) or event trigger (lead_stage_changed, call_completed, call_lead_score, email_opened, email_clicked, whatsapp_button_clicked); flows without event conditions run on contact creation';
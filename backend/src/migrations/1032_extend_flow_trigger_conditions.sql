@@ -0,0 +1,41 @@
+-- Migration: Richer trigger conditions for auto engagement flows
+-- Description: Adds tag, lead stage, city and country conditions, numeric
+-- (between) and regex operators, custom field names and nested AND/OR groups
+-- Date: 2026-10-18
+
+-- =====================================================
+-- flow_trigger_conditions: groups and custom fields
+-- =====================================================
+ALTER TABLE flow_trigger_conditions
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES flow_trigger_conditions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS field_name VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS condition_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_conditions_parent ON flow_trigger_conditions(parent_id);
+
+ALTER TABLE flow_trigger_conditions DROP CONSTRAINT IF EXISTS valid_condition_type;
+ALTER TABLE flow_trigger_conditions ADD CONSTRAINT valid_condition_type
+  CHECK (condition_type IN (
+    'lead_source', 'entry_type', 'custom_field',
+    'tag', 'lead_stage', 'city', 'country', 'group',
+    'lead_stage_changed', 'call_completed', 'call_lead_score',
+    'email_opened', 'email_clicked', 'whatsapp_button_clicked'
+  ));
+
+ALTER TABLE flow_trigger_conditions DROP CONSTRAINT IF EXISTS valid_condition_operator;
+ALTER TABLE flow_trigger_conditions ADD CONSTRAINT valid_condition_operator
+  CHECK (condition_operator IN (
+    'equals', 'any', 'contains', 'not_equals',
+    'greater_than', 'less_than', 'between', 'matches_regex',
+    'and', 'or'
+  ));
+
+-- Groups combine their child conditions with and/or; all other conditions compare values
+ALTER TABLE flow_trigger_conditions DROP CONSTRAINT IF EXISTS valid_group_operator;
+ALTER TABLE flow_trigger_conditions ADD CONSTRAINT valid_group_operator
+  CHECK ((condition_type = 'group') = (condition_operator IN ('and', 'or')));
+
+COMMENT ON COLUMN flow_trigger_conditions.parent_id IS 'Group condition this condition belongs to; top level conditions (NULL) are combined with AND';
+COMMENT ON COLUMN flow_trigger_conditions.field_name IS 'For custom_field conditions: contact field or lead analytics custom field to compare';
+COMMENT ON COLUMN flow_trigger_conditions.condition_order IS 'Display order of the condition within its group';
+COMMENT ON COLUMN flow_trigger_conditions.condition_value IS 'Value to compare against; "min,max" for between, a pattern for matches_regex, NULL for groups';
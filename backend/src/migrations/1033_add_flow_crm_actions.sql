@@ -0,0 +1,45 @@
+-- Migration: CRM actions for auto engagement flows
+-- Description: Flow actions that update the lead stage, add/remove tags,
+-- assign the lead to a team member and call a signed webhook, plus in-app
+-- notifications for team members
+-- Date: 2026-10-18
+
+-- =====================================================
+-- flow_actions: new action types
+-- =====================================================
+ALTER TABLE flow_actions DROP CONSTRAINT IF EXISTS valid_action_type;
+ALTER TABLE flow_actions ADD CONSTRAINT valid_action_type
+  CHECK (action_type IN (
+    'ai_call', 'whatsapp_message', 'email', 'wait',
+    'update_lead_stage', 'update_tags', 'assign_team_member', 'webhook'
+  ));
+
+COMMENT ON COLUMN flow_actions.action_type IS 'ai_call, whatsapp_message, email, wait, update_lead_stage, update_tags, assign_team_member or webhook';
+
+-- =====================================================
+-- team_member_notifications: in-app notifications for team members
+-- =====================================================
+CREATE TABLE IF NOT EXISTS team_member_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team_member_id UUID NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+
+  notification_type VARCHAR(50) NOT NULL DEFAULT 'lead_assigned',
+  message TEXT NOT NULL,
+  notification_data JSONB DEFAULT '{}',
+
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT valid_team_member_notification_type CHECK (notification_type IN ('lead_assigned'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_member_notifications_member
+  ON team_member_notifications(team_member_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_team_member_notifications_unread
+  ON team_member_notifications(team_member_id)
+  WHERE is_read = false;
+
+COMMENT ON TABLE team_member_notifications IS 'In-app notifications for team members, e.g. leads assigned to them by auto engagement flows';
+COMMENT ON COLUMN team_member_notifications.notification_data IS 'Context such as flow_id, flow_execution_id and phone_number';
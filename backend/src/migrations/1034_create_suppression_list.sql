@@ -0,0 +1,86 @@
+-- Migration: Do-not-call / opt-out suppression list
+-- Description: Per-user suppression list of phone numbers and email addresses
+-- that every outbound channel (calls, campaigns, emails, WhatsApp) consults
+-- before contacting someone, plus an audit trail of changes and blocked sends
+-- Date: 2026-10-18
+
+-- =====================================================
+-- suppression_list: suppressed phone numbers and emails
+-- =====================================================
+CREATE TABLE IF NOT EXISTS suppression_list (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Exactly one of phone_number / email is set per entry
+  phone_number VARCHAR(20),
+  email VARCHAR(255),
+
+  reason VARCHAR(50) NOT NULL DEFAULT 'do_not_call',
+  source VARCHAR(50) NOT NULL DEFAULT 'manual',
+  notes TEXT,
+
+  created_by_type VARCHAR(20) NOT NULL DEFAULT 'user',
+  created_by_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT suppression_single_target CHECK (
+    (phone_number IS NOT NULL AND email IS NULL) OR (phone_number IS NULL AND email IS NOT NULL)
+  ),
+  CONSTRAINT valid_suppression_reason CHECK (reason IN (
+    'do_not_call', 'opt_out', 'unsubscribed', 'complaint', 'bounced', 'legal', 'other'
+  )),
+  CONSTRAINT valid_suppression_source CHECK (source IN (
+    'manual', 'import', 'unsubscribe_link', 'api', 'flow'
+  )),
+  CONSTRAINT valid_suppression_created_by_type CHECK (created_by_type IN (
+    'user', 'team_member', 'system', 'recipient'
+  ))
+);
+
+-- Phone numbers are stored as +<digits>, emails in lower case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppression_list_user_phone
+  ON suppression_list(user_id, phone_number)
+  WHERE phone_number IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppression_list_user_email
+  ON suppression_list(user_id, email)
+  WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_suppression_list_user_created
+  ON suppression_list(user_id, created_at DESC);
+
+COMMENT ON TABLE suppression_list IS 'Per-user do-not-call / opt-out list enforced on calls, campaigns, emails and WhatsApp sends';
+COMMENT ON COLUMN suppression_list.phone_number IS 'Normalized phone number: + followed by digits only';
+COMMENT ON COLUMN suppression_list.email IS 'Lower-cased email address';
+
+-- =====================================================
+-- suppression_audit_log: who changed the list and which sends it blocked
+-- =====================================================
+CREATE TABLE IF NOT EXISTS suppression_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  action VARCHAR(20) NOT NULL,
+  phone_number VARCHAR(20),
+  email VARCHAR(255),
+  reason VARCHAR(50),
+  source VARCHAR(50),
+  channel VARCHAR(20),
+
+  actor_type VARCHAR(20) NOT NULL DEFAULT 'system',
+  actor_id UUID,
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT valid_suppression_audit_action CHECK (action IN ('added', 'removed', 'blocked', 'exported')),
+  CONSTRAINT valid_suppression_audit_channel CHECK (
+    channel IS NULL OR channel IN ('call', 'campaign', 'email', 'email_campaign', 'whatsapp')
+  ),
+  CONSTRAINT valid_suppression_audit_actor_type CHECK (actor_type IN (
+    'user', 'team_member', 'system', 'recipient'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_audit_log_user_created
+  ON suppression_audit_log(user_id, created_at DESC);
+
+COMMENT ON TABLE suppression_audit_log IS 'Audit trail of suppression list changes, exports and outbound sends blocked by the list';
+COMMENT ON COLUMN suppression_audit_log.channel IS 'For blocked sends: call, campaign, email, email_campaign or whatsapp';
@@ -0,0 +1,37 @@
+-- Migration: Per-user API keys for the external API
+-- Description: Named, scoped API keys owned by a user. Only a SHA-256 hash of
+-- the key is stored; the plaintext key is shown once on creation/rotation.
+-- Replaces the shared keys from environment variables.
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(20) NOT NULL,        -- First characters of the key, shown in the UI to identify it
+  key_hash VARCHAR(64) NOT NULL UNIQUE,   -- SHA-256 hex digest of the full key
+
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  last_used_ip VARCHAR(45),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  rotated_from_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT valid_api_key_scopes CHECK (
+    scopes <@ ARRAY['contacts:read', 'contacts:write', 'calls:create', 'analytics:read']::TEXT[]
+  ),
+  CONSTRAINT valid_api_key_rate_limit CHECK (rate_limit_per_minute BETWEEN 1 AND 1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at DESC);
+
+COMMENT ON TABLE api_keys IS 'Per-user API keys for the external API (X-API-Key header)';
+COMMENT ON COLUMN api_keys.scopes IS 'contacts:read, contacts:write, calls:create and/or analytics:read';
+COMMENT ON COLUMN api_keys.rotated_from_id IS 'Key this one replaced when it was rotated';
@@ -0,0 +1,16 @@
+-- Migration: Shared rate limit counters
+-- Description: Fixed-window request counters used by the Postgres rate limit
+-- store, so limits survive restarts and are shared by all server replicas.
+-- UNLOGGED: counters are short-lived and not worth WAL writes; losing them
+-- after a database crash only resets the current windows.
+-- Date: 2026-10-18
+
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_buckets (
+  key VARCHAR(255) PRIMARY KEY,             -- <limiter>:<user|api_key|ip>:<id>
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  block_until TIMESTAMP WITH TIME ZONE
+);
+
+-- Expired buckets are purged periodically
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset_at ON rate_limit_buckets(reset_at);
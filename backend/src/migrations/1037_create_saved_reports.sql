@@ -0,0 +1,37 @@
+-- Migration: Saved custom reports
+-- Description: Report definitions saved per user (source, dimensions, metrics,
+-- filters) with an optional cron schedule that emails the report as CSV/XLSX.
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS saved_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  definition JSONB NOT NULL,              -- ReportDefinition, validated against the field whitelist on save
+
+  -- Email schedule
+  schedule_cron VARCHAR(100),             -- 5-field cron expression, NULL = not scheduled
+  schedule_timezone VARCHAR(50) NOT NULL DEFAULT 'UTC',
+  schedule_format VARCHAR(10) NOT NULL DEFAULT 'csv',
+  schedule_recipients TEXT[] NOT NULL DEFAULT '{}',
+  schedule_enabled BOOLEAN NOT NULL DEFAULT false,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status VARCHAR(20),
+  last_run_error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT saved_reports_schedule_format_check CHECK (schedule_format IN ('csv', 'xlsx')),
+  CONSTRAINT saved_reports_last_run_status_check CHECK (last_run_status IS NULL OR last_run_status IN ('success', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_reports_user_id ON saved_reports(user_id, created_at DESC);
+
+-- Scheduler polls for due reports
+CREATE INDEX IF NOT EXISTS idx_saved_reports_next_run_at
+  ON saved_reports(next_run_at)
+  WHERE schedule_enabled = true;
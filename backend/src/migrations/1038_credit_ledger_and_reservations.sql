@@ -0,0 +1,65 @@
+-- Migration: Atomic credit ledger with reservations for in-flight calls
+-- Description: Every balance change is one credit_transactions entry written in the
+-- same transaction as an atomic users.credits update, calls hold a credit reservation
+-- while in flight, and balances can only go below zero down to an overdraft limit
+-- Date: 2026-10-18
+
+-- 1. Ledger entries: balances are allowed below zero (down to the overdraft limit),
+--    idempotency keys stop webhook retries from charging a call twice
+ALTER TABLE credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_balance_after_check;
+
+ALTER TABLE credit_transactions
+ADD COLUMN IF NOT EXISTS balance_before DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_idempotency
+ON credit_transactions(user_id, idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_call_id
+ON credit_transactions(call_id)
+WHERE call_id IS NOT NULL;
+
+-- 2. Per-user overdraft limit (NULL = system default_credit_overdraft_limit)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS credit_overdraft_limit DECIMAL(10,2) CHECK (credit_overdraft_limit >= 0);
+
+COMMENT ON COLUMN users.credit_overdraft_limit IS 'How far below zero credits may go; NULL uses the system default_credit_overdraft_limit';
+
+-- 3. Credit reservations held by in-flight calls
+CREATE TABLE IF NOT EXISTS credit_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL,                      -- active_calls / calls id (the call row may not exist yet)
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'settled', 'released')),
+    settled_amount DECIMAL(10,2),
+    transaction_id UUID REFERENCES credit_transactions(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,            -- Holds past this are ignored (e.g. a call whose webhook never arrived)
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMPTZ,
+    CONSTRAINT credit_reservations_call_unique UNIQUE (call_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_user_held
+ON credit_reservations(user_id, expires_at)
+WHERE status = 'held';
+
+-- 4. Billing configuration
+INSERT INTO system_config (config_key, config_value, description, created_at, updated_at)
+VALUES
+  (
+    'default_credit_overdraft_limit',
+    '0',
+    'How many credits a user may go below zero (per-user users.credit_overdraft_limit overrides this). New calls need a positive available balance.',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+  ),
+  (
+    'credit_reservation_seconds',
+    '300',
+    'Call duration whose cost is reserved while a call is in flight, so concurrent calls cannot overspend the balance.',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+  )
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,73 @@
+-- Migration: Subscription plans and per-user pricing
+-- Description: Named billing plans (included minutes, overage rate, pulse size, concurrency
+-- limit, chat credit allowance) assignable per user. Calls consume rollover and included
+-- minutes first; only overage is charged to the credit ledger at the plan's rate.
+-- Date: 2026-10-18
+
+-- 1. Plans
+CREATE TABLE IF NOT EXISTS billing_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    slug VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    monthly_price_cents INTEGER NOT NULL DEFAULT 0 CHECK (monthly_price_cents >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+    included_minutes INTEGER NOT NULL DEFAULT 0 CHECK (included_minutes >= 0),
+    overage_credits_per_minute DECIMAL(10,4) NOT NULL DEFAULT 1 CHECK (overage_credits_per_minute >= 0),
+    billing_pulse_seconds INTEGER NOT NULL DEFAULT 60 CHECK (billing_pulse_seconds BETWEEN 1 AND 60),
+    concurrent_calls_limit INTEGER CHECK (concurrent_calls_limit > 0),      -- NULL keeps the user's own limit
+    chat_credit_allowance INTEGER NOT NULL DEFAULT 0 CHECK (chat_credit_allowance >= 0), -- Granted each period
+    rollover_max_minutes INTEGER NOT NULL DEFAULT 0 CHECK (rollover_max_minutes >= 0),   -- 0 = unused minutes expire
+    stripe_price_id VARCHAR(255) UNIQUE,                                     -- Recurring Stripe price; NULL = admin-assigned only
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Subscriptions (one live subscription per user)
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    plan_id UUID NOT NULL REFERENCES billing_plans(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (status IN ('incomplete', 'active', 'past_due', 'canceled')),
+    current_period_start TIMESTAMPTZ NOT NULL,
+    current_period_end TIMESTAMPTZ NOT NULL,
+    included_seconds INTEGER NOT NULL DEFAULT 0,            -- This period's allowance (prorated on plan changes)
+    included_seconds_remaining INTEGER NOT NULL DEFAULT 0,
+    rollover_seconds_remaining INTEGER NOT NULL DEFAULT 0,  -- Carried from the previous period, used first, expires at period end
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    stripe_subscription_id VARCHAR(255) UNIQUE,             -- NULL = assigned by an admin, renewed by the scheduler
+    canceled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_subscriptions_live
+ON user_subscriptions(user_id)
+WHERE status IN ('incomplete', 'active', 'past_due');
+
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_period_end
+ON user_subscriptions(current_period_end)
+WHERE status = 'active';
+
+-- 3. Per-call plan usage (unique per call so a retried webhook is not counted twice)
+CREATE TABLE IF NOT EXISTS subscription_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES user_subscriptions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL UNIQUE,
+    billed_seconds INTEGER NOT NULL,
+    rollover_seconds_used INTEGER NOT NULL DEFAULT 0,
+    included_seconds_used INTEGER NOT NULL DEFAULT 0,
+    overage_seconds INTEGER NOT NULL DEFAULT 0,
+    credits_charged DECIMAL(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_usage_subscription
+ON subscription_usage(subscription_id, created_at);
+
+-- 4. Stripe customer used for plan subscriptions
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS stripe_customer_id VARCHAR(255);
@@ -0,0 +1,72 @@
+-- Migration: Invoices and billing profiles
+-- Description: Per-purchase invoices with sequential numbering per account, the
+-- billing details printed on them, and invoice tax settings
+-- Date: 2026-10-18
+
+-- 1. Billing details printed on invoices and statements
+CREATE TABLE IF NOT EXISTS billing_profiles (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    company_name VARCHAR(255),
+    tax_id VARCHAR(50),                        -- GSTIN / VAT ID
+    tax_id_type VARCHAR(10) CHECK (tax_id_type IN ('gstin', 'vat', 'other')),
+    address_line1 VARCHAR(255),
+    address_line2 VARCHAR(255),
+    city VARCHAR(100),
+    region VARCHAR(100),                       -- State / province (GST state code for Indian buyers)
+    postal_code VARCHAR(20),
+    country VARCHAR(2),                        -- ISO 3166-1 alpha-2
+    billing_email VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Next invoice number per account (numbers are never reused, even for voided invoices)
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- 3. Invoices for credit purchases
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    invoice_number VARCHAR(50) NOT NULL,
+    credit_transaction_id UUID NOT NULL REFERENCES credit_transactions(id),
+    status VARCHAR(10) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'void')),
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+    subtotal DECIMAL(12,2) NOT NULL,
+    tax_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total DECIMAL(12,2) NOT NULL,
+    line_items JSONB NOT NULL DEFAULT '[]',
+    tax_lines JSONB NOT NULL DEFAULT '[]',
+    billing_details JSONB NOT NULL DEFAULT '{}', -- Snapshot of the buyer's billing profile
+    seller_details JSONB NOT NULL DEFAULT '{}',  -- Snapshot of the seller settings
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    regenerated_at TIMESTAMPTZ,
+    voided_at TIMESTAMPTZ,
+    voided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    void_reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT invoices_user_number_unique UNIQUE (user_id, invoice_number)
+);
+
+-- One issued invoice per purchase (a voided invoice can be reissued under a new number)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_issued_transaction
+ON invoices(credit_transaction_id)
+WHERE status = 'issued';
+
+CREATE INDEX IF NOT EXISTS idx_invoices_user_issued
+ON invoices(user_id, issued_at DESC);
+
+-- 4. Invoice settings
+INSERT INTO system_config (config_key, config_value, description, created_at, updated_at)
+VALUES
+  ('invoice_number_prefix', 'INV', 'Prefix of invoice numbers (INV-000001); numbering is sequential per account.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_tax_name', '', 'Tax shown on invoices, e.g. GST or VAT. Empty = no tax lines.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_tax_rate_percent', '0', 'Tax rate included in credit purchase prices.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_seller_name', '', 'Seller name printed on invoices.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_seller_address', '', 'Seller address printed on invoices (one line per line).', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_seller_tax_id', '', 'Seller GSTIN / VAT ID printed on invoices.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+  ('invoice_seller_region', '', 'Seller GST state code; buyers in the same state are charged CGST + SGST instead of IGST.', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,22 @@
+-- Migration: User event stream
+-- Description: Per-user dashboard events (call status, queue, campaign progress, lead
+-- analytics, notifications) pushed over /api/events/stream and kept briefly so
+-- reconnecting clients can resume from their last event ID
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS user_events (
+    id BIGSERIAL PRIMARY KEY,                  -- SSE event ID (monotonic, used for resume)
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_events_user_id
+ON user_events(user_id, id);
+
+-- Retention pruning scans by age
+CREATE INDEX IF NOT EXISTS idx_user_events_created_at
+ON user_events(created_at);
+
+COMMENT ON TABLE user_events IS 'Recent per-user dashboard events; delivered live via NOTIFY user_events and replayed on reconnect';
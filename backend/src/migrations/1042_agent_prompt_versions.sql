@@ -0,0 +1,57 @@
+-- Migration: Agent prompt versions and campaign prompt A/B tests
+-- Description: Every change to an agent's system prompt or dynamic information is kept
+-- as an immutable version; campaigns can split their calls between two versions
+-- Date: 2026-10-18
+
+-- 1. Prompt versions (never updated, except to record the provider agent used for A/B calls)
+CREATE TABLE IF NOT EXISTS agent_prompt_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    system_prompt TEXT,
+    dynamic_information TEXT,
+    diff JSONB NOT NULL DEFAULT '[]',          -- Changed lines against the previous version
+    source VARCHAR(20) NOT NULL DEFAULT 'edit' CHECK (source IN ('initial', 'edit', 'rollback')),
+    rolled_back_to_version INTEGER,            -- Version whose content a rollback restored
+    note TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_by_name VARCHAR(255),              -- Kept if the author is deleted
+    provider_agent_id VARCHAR(255),            -- Copy of the agent running this version, for A/B calls
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT agent_prompt_versions_number_unique UNIQUE (agent_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_prompt_versions_provider_agent
+ON agent_prompt_versions(provider_agent_id)
+WHERE provider_agent_id IS NOT NULL;
+
+-- 2. Version currently live on the agent
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS current_prompt_version_id UUID REFERENCES agent_prompt_versions(id) ON DELETE SET NULL;
+
+-- 3. Campaign A/B test between two versions of the campaign agent's prompt
+ALTER TABLE call_campaigns
+ADD COLUMN IF NOT EXISTS prompt_version_a_id UUID REFERENCES agent_prompt_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_version_b_id UUID REFERENCES agent_prompt_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_split_percent INTEGER NOT NULL DEFAULT 50
+    CHECK (prompt_split_percent BETWEEN 0 AND 100); -- Share of contacts called with version B
+
+-- 4. Version each call was made with
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES agent_prompt_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calls_campaign_prompt_version
+ON calls(campaign_id, prompt_version_id)
+WHERE prompt_version_id IS NOT NULL;
+
+-- 5. Existing prompts become version 1
+INSERT INTO agent_prompt_versions (agent_id, version_number, system_prompt, dynamic_information, source, note)
+SELECT a.id, 1, a.system_prompt, a.dynamic_information, 'initial', 'Prompt before versioning'
+FROM agents a
+WHERE (a.system_prompt IS NOT NULL OR a.dynamic_information IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM agent_prompt_versions v WHERE v.agent_id = a.id);
+
+UPDATE agents a
+SET current_prompt_version_id = v.id
+FROM agent_prompt_versions v
+WHERE v.agent_id = a.id AND v.version_number = 1 AND a.current_prompt_version_id IS NULL;
@@ -0,0 +1,16 @@
+-- Migration: Configurable call context variables
+-- Description: Per-agent mapping of the variables sent to the voice agent as user_data,
+-- and an optional per-contact timezone used to format dates in those variables
+-- Date: 2026-10-18
+
+-- 1. Variable mapping; NULL keeps the default variables (lead_name, business_name, ...)
+ALTER TABLE agents
+ADD COLUMN IF NOT EXISTS call_variables JSONB;
+
+COMMENT ON COLUMN agents.call_variables IS
+'Variables sent to the voice agent with each call. Structure:
+[{"key": "lead_name", "source": "contact", "field": "name", "format": "first_name", "default": "there"}]';
+
+-- 2. Contact timezone (IANA); NULL falls back to the campaign or user timezone
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
@@ -0,0 +1,61 @@
+-- Migration: Voicemail call outcome
+-- Description: Calls that reached an answering machine are tracked as 'voicemail' instead of
+-- 'completed', counted on contacts, retried on their own campaign schedule and billed by an
+-- admin-configurable rule
+-- Date: 2026-10-18
+
+-- 1. Voicemail lifecycle status and how it was detected
+ALTER TABLE calls
+DROP CONSTRAINT IF EXISTS calls_lifecycle_status_check;
+
+ALTER TABLE calls
+ADD CONSTRAINT calls_lifecycle_status_check
+CHECK (call_lifecycle_status IN (
+  'initiated',
+  'ringing',
+  'in-progress',
+  'call-disconnected',
+  'completed',
+  'no-answer',
+  'busy',
+  'failed',
+  'voicemail'
+));
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS voicemail_detected_by VARCHAR(20)
+  CHECK (voicemail_detected_by IN ('provider', 'transcript'));
+
+COMMENT ON COLUMN calls.voicemail_detected_by IS
+'Set on voicemail calls: provider = the voice provider flagged the answering machine, transcript = short transcript matched a greeting';
+
+-- 2. Contact counter alongside call_attempted_busy / call_attempted_no_answer
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS call_attempted_voicemail INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Campaign retry schedule for voicemail calls; NULL = voicemail calls are not retried
+ALTER TABLE call_campaigns
+ADD COLUMN IF NOT EXISTS voicemail_retry_schedule JSONB;
+
+COMMENT ON COLUMN call_campaigns.voicemail_retry_schedule IS
+'Retries for calls that reached voicemail, independent of custom_retry_schedule. Structure:
+{"retries": [{"attempt": 1, "delay_minutes": 240}, {"attempt": 2, "delay_minutes": 1440}]}';
+
+-- 4. Billing rule for voicemail calls
+INSERT INTO system_config (config_key, config_value, description, created_at, updated_at)
+VALUES
+  (
+    'voicemail_billing_mode',
+    'full',
+    'How calls that reached voicemail are billed: full (like any call), free, or capped (at most voicemail_billable_seconds).',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+  ),
+  (
+    'voicemail_billable_seconds',
+    '30',
+    'Longest duration billed for a voicemail call when voicemail_billing_mode is capped.',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+  )
+ON CONFLICT (config_key) DO NOTHING;
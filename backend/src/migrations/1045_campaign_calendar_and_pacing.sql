@@ -0,0 +1,153 @@
+-- Migration: Campaign calendars, daily/hourly caps and pacing
+-- Description: Campaigns get optional per-weekday calling windows, blackout dates, caps on
+-- calls per day and per hour, and a minimum gap between dials. get_next_queued_call only
+-- hands out calls for campaigns that are open and under their limits right now.
+-- Date: 2026-10-18
+
+-- 1. Calendar and pacing settings
+ALTER TABLE call_campaigns
+ADD COLUMN IF NOT EXISTS weekly_schedule JSONB,
+ADD COLUMN IF NOT EXISTS blackout_dates DATE[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS max_calls_per_day INTEGER CHECK (max_calls_per_day IS NULL OR max_calls_per_day > 0),
+ADD COLUMN IF NOT EXISTS max_calls_per_hour INTEGER CHECK (max_calls_per_hour IS NULL OR max_calls_per_hour > 0),
+ADD COLUMN IF NOT EXISTS call_pace_seconds INTEGER NOT NULL DEFAULT 0 CHECK (call_pace_seconds >= 0);
+
+COMMENT ON COLUMN call_campaigns.weekly_schedule IS
+'Calling window per weekday in the campaign timezone; days not listed are not called. NULL = every day
+from first_call_time to last_call_time. Structure:
+{"monday": {"first_call_time": "09:00:00", "last_call_time": "18:00:00"}, "saturday": {...}}';
+
+COMMENT ON COLUMN call_campaigns.blackout_dates IS
+'Dates (in the campaign timezone) on which the campaign places no calls, e.g. public holidays';
+
+COMMENT ON COLUMN call_campaigns.max_calls_per_day IS
+'Most calls placed per calendar day in the campaign timezone; NULL = no cap';
+
+COMMENT ON COLUMN call_campaigns.max_calls_per_hour IS
+'Most calls placed in any rolling 60 minutes; NULL = no cap';
+
+COMMENT ON COLUMN call_campaigns.call_pace_seconds IS
+'Minimum seconds between two calls of the campaign; 0 = dial as fast as concurrency allows';
+
+-- Counting a campaign's recent calls uses calls.campaign_id + created_at
+CREATE INDEX IF NOT EXISTS idx_calls_campaign_created_at
+ON calls(campaign_id, created_at DESC)
+WHERE campaign_id IS NOT NULL;
+
+-- 2. Recent call counts for a campaign, shared by the queue and the scheduler
+CREATE OR REPLACE FUNCTION get_campaign_call_counts(p_campaign_id UUID, p_timezone TEXT)
+RETURNS TABLE (
+  calls_today INTEGER,
+  calls_last_hour INTEGER,
+  oldest_call_last_hour TIMESTAMPTZ,
+  last_call_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    COUNT(*) FILTER (
+      WHERE cl.created_at >= (date_trunc('day', NOW() AT TIME ZONE p_timezone) AT TIME ZONE p_timezone)
+    )::INTEGER,
+    COUNT(*) FILTER (WHERE cl.created_at > NOW() - INTERVAL '1 hour')::INTEGER,
+    MIN(cl.created_at) FILTER (WHERE cl.created_at > NOW() - INTERVAL '1 hour'),
+    MAX(cl.created_at)
+  FROM calls cl
+  WHERE cl.campaign_id = p_campaign_id
+    AND cl.created_at >= LEAST(
+      date_trunc('day', NOW() AT TIME ZONE p_timezone) AT TIME ZONE p_timezone,
+      NOW() - INTERVAL '1 hour'
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_campaign_call_counts(UUID, TEXT) IS
+'Calls placed by a campaign today (in the given timezone) and in the last hour, plus the oldest call
+of that hour and the latest call. Used for max_calls_per_day, max_calls_per_hour and call_pace_seconds.';
+
+-- 3. Next queued call honours the campaign calendar, caps and pace
+DROP FUNCTION IF EXISTS get_next_queued_call(UUID);
+
+CREATE OR REPLACE FUNCTION get_next_queued_call(p_user_id UUID)
+RETURNS call_queue AS $$
+DECLARE
+  result call_queue;
+BEGIN
+  -- First try to get a direct call (highest priority, no calendar restrictions)
+  SELECT * INTO result
+  FROM call_queue q
+  WHERE q.user_id = p_user_id
+    AND q.call_type = 'direct'
+    AND q.status = 'queued'
+    AND q.scheduled_for <= NOW()
+  ORDER BY q.priority DESC, q."position" ASC, q.created_at ASC
+  LIMIT 1;
+
+  -- If no direct call, get a call from a campaign that may dial right now
+  IF result.id IS NULL THEN
+    WITH open_campaigns AS (
+      SELECT c.id
+      FROM call_campaigns c
+      INNER JOIN users u ON c.user_id = u.id
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN c.use_custom_timezone = true AND c.campaign_timezone IS NOT NULL THEN c.campaign_timezone
+          ELSE COALESCE(u.timezone, 'UTC')
+        END AS tz
+      ) zone
+      CROSS JOIN LATERAL (
+        SELECT (CURRENT_TIMESTAMP AT TIME ZONE zone.tz) AS local_now
+      ) clock
+      CROSS JOIN LATERAL (
+        -- Today's window: the weekday's entry when a weekly schedule is set
+        SELECT
+          CASE WHEN c.weekly_schedule IS NULL THEN c.first_call_time
+            ELSE (c.weekly_schedule -> lower(to_char(clock.local_now, 'FMDay')) ->> 'first_call_time')::TIME
+          END AS first_call_time,
+          CASE WHEN c.weekly_schedule IS NULL THEN c.last_call_time
+            ELSE (c.weekly_schedule -> lower(to_char(clock.local_now, 'FMDay')) ->> 'last_call_time')::TIME
+          END AS last_call_time
+      ) day_window
+      CROSS JOIN LATERAL get_campaign_call_counts(c.id, zone.tz) counts
+      WHERE c.user_id = p_user_id
+        AND c.status = 'active'
+        AND clock.local_now::TIME BETWEEN day_window.first_call_time AND day_window.last_call_time
+        AND NOT (clock.local_now::DATE = ANY (c.blackout_dates))
+        AND (c.max_calls_per_day IS NULL OR counts.calls_today < c.max_calls_per_day)
+        AND (c.max_calls_per_hour IS NULL OR counts.calls_last_hour < c.max_calls_per_hour)
+        AND (
+          c.call_pace_seconds = 0
+          OR counts.last_call_at IS NULL
+          OR counts.last_call_at <= NOW() - make_interval(secs => c.call_pace_seconds)
+        )
+    )
+    SELECT q.* INTO result
+    FROM call_queue q
+    WHERE q.user_id = p_user_id
+      AND q.call_type = 'campaign'
+      AND q.status = 'queued'
+      AND q.scheduled_for <= NOW()
+      AND q.campaign_id IN (SELECT id FROM open_campaigns)
+    ORDER BY
+      COALESCE(q.last_system_allocation_at, '1970-01-01'::timestamptz) ASC,
+      q.priority DESC,
+      q."position" ASC,
+      q.created_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- Update last_system_allocation_at for round-robin
+  IF result.id IS NOT NULL THEN
+    UPDATE call_queue
+    SET last_system_allocation_at = NOW()
+    WHERE id = result.id;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION get_next_queued_call(UUID) IS
+'Gets the next queued call for a user.
+Prioritizes:
+1. Direct calls (no time window restrictions)
+2. Campaign calls whose campaign is inside today''s window (weekly_schedule or first/last_call_time,
+   in the campaign or user timezone), not on a blackout date, under max_calls_per_day and
+   max_calls_per_hour, and at least call_pace_seconds after its previous call
+Uses round-robin allocation via last_system_allocation_at timestamp.';
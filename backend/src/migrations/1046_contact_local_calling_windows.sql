@@ -0,0 +1,129 @@
+-- Migration: Contact-local calling windows
+-- Description: Campaigns can evaluate their calling window in each contact's own timezone
+-- (contact override, else inferred from city/country/phone when queued). get_next_queued_call
+-- skips contacts outside their local window; the queue processor reschedules them.
+-- Date: 2026-10-18
+
+-- 1. Campaign switch; false keeps the campaign/user timezone for every contact
+ALTER TABLE call_campaigns
+ADD COLUMN IF NOT EXISTS use_contact_timezone BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN call_campaigns.use_contact_timezone IS
+'When true, weekly_schedule/first_call_time/last_call_time and blackout_dates apply in each contact''s
+timezone (contacts.timezone, else call_queue.contact_timezone) instead of the campaign timezone';
+
+-- 2. Timezone resolved for the contact when the item was queued
+ALTER TABLE call_queue
+ADD COLUMN IF NOT EXISTS contact_timezone VARCHAR(64);
+
+COMMENT ON COLUMN call_queue.contact_timezone IS
+'Contact timezone when queued: contacts.timezone or inferred from city, country or phone number';
+
+-- 3. Calling window check shared by the queue function and the queue processor
+CREATE OR REPLACE FUNCTION is_campaign_window_open(
+  p_campaign call_campaigns,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+  SELECT
+    local_at::TIME BETWEEN
+      CASE WHEN p_campaign.weekly_schedule IS NULL THEN p_campaign.first_call_time
+        ELSE (p_campaign.weekly_schedule -> lower(to_char(local_at, 'FMDay')) ->> 'first_call_time')::TIME
+      END
+    AND
+      CASE WHEN p_campaign.weekly_schedule IS NULL THEN p_campaign.last_call_time
+        ELSE (p_campaign.weekly_schedule -> lower(to_char(local_at, 'FMDay')) ->> 'last_call_time')::TIME
+      END
+    AND NOT (local_at::DATE = ANY (p_campaign.blackout_dates))
+  FROM (SELECT p_at AT TIME ZONE p_timezone AS local_at) clock;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION is_campaign_window_open(call_campaigns, TEXT, TIMESTAMPTZ) IS
+'Whether p_at falls inside the campaign''s window for that local day (weekly_schedule or
+first/last_call_time) in p_timezone and is not a blackout date. NULL (never true) on days without a window.';
+
+-- 4. Next queued call checks the window per contact for contact-timezone campaigns
+DROP FUNCTION IF EXISTS get_next_queued_call(UUID);
+
+CREATE OR REPLACE FUNCTION get_next_queued_call(p_user_id UUID)
+RETURNS call_queue AS $$
+DECLARE
+  result call_queue;
+BEGIN
+  -- First try to get a direct call (highest priority, no calendar restrictions)
+  SELECT * INTO result
+  FROM call_queue q
+  WHERE q.user_id = p_user_id
+    AND q.call_type = 'direct'
+    AND q.status = 'queued'
+    AND q.scheduled_for <= NOW()
+  ORDER BY q.priority DESC, q."position" ASC, q.created_at ASC
+  LIMIT 1;
+
+  -- If no direct call, get a call from a campaign under its caps and pace,
+  -- inside the window in the campaign's or the contact's timezone
+  IF result.id IS NULL THEN
+    WITH dialable_campaigns AS (
+      SELECT c AS campaign, zone.tz
+      FROM call_campaigns c
+      INNER JOIN users u ON c.user_id = u.id
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN c.use_custom_timezone = true AND c.campaign_timezone IS NOT NULL THEN c.campaign_timezone
+          ELSE COALESCE(u.timezone, 'UTC')
+        END AS tz
+      ) zone
+      CROSS JOIN LATERAL get_campaign_call_counts(c.id, zone.tz) counts
+      WHERE c.user_id = p_user_id
+        AND c.status = 'active'
+        AND (c.max_calls_per_day IS NULL OR counts.calls_today < c.max_calls_per_day)
+        AND (c.max_calls_per_hour IS NULL OR counts.calls_last_hour < c.max_calls_per_hour)
+        AND (
+          c.call_pace_seconds = 0
+          OR counts.last_call_at IS NULL
+          OR counts.last_call_at <= NOW() - make_interval(secs => c.call_pace_seconds)
+        )
+        -- Campaign-timezone campaigns are open or closed for every contact at once
+        AND (c.use_contact_timezone OR is_campaign_window_open(c, zone.tz, NOW()))
+    )
+    SELECT q.* INTO result
+    FROM call_queue q
+    INNER JOIN dialable_campaigns dc ON (dc.campaign).id = q.campaign_id
+    LEFT JOIN contacts ct ON ct.id = q.contact_id
+    WHERE q.user_id = p_user_id
+      AND q.call_type = 'campaign'
+      AND q.status = 'queued'
+      AND q.scheduled_for <= NOW()
+      AND (
+        NOT (dc.campaign).use_contact_timezone
+        OR is_campaign_window_open(dc.campaign, COALESCE(ct.timezone, q.contact_timezone, dc.tz), NOW())
+      )
+    ORDER BY
+      COALESCE(q.last_system_allocation_at, '1970-01-01'::timestamptz) ASC,
+      q.priority DESC,
+      q."position" ASC,
+      q.created_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- Update last_system_allocation_at for round-robin
+  IF result.id IS NOT NULL THEN
+    UPDATE call_queue
+    SET last_system_allocation_at = NOW()
+    WHERE id = result.id;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION get_next_queued_call(UUID) IS
+'Gets the next queued call for a user.
+Prioritizes:
+1. Direct calls (no time window restrictions)
+2. Campaign calls whose campaign is under max_calls_per_day and max_calls_per_hour, at least
+   call_pace_seconds after its previous call, and inside today''s window (weekly_schedule or
+   first/last_call_time, off blackout dates). The window is checked in the campaign or user timezone,
+   or per contact (contacts.timezone, else call_queue.contact_timezone) when use_contact_timezone is set.
+Uses round-robin allocation via last_system_allocation_at timestamp.';
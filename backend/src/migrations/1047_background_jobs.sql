@@ -0,0 +1,82 @@
+-- Migration: Persistent background jobs
+-- Description: Postgres-backed job queue (row leases, retries with backoff, dead-letter state) used to
+-- send scheduled follow-up emails and scheduled email campaigns. Creates scheduled_emails, which the
+-- follow-up service already wrote to, and keeps an email campaign's recipients on the campaign so a send
+-- can resume after a restart.
+-- Date: 2026-10-18
+
+-- 1. Job queue
+CREATE TABLE IF NOT EXISTS background_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead', 'cancelled')),
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  last_error TEXT,
+
+  -- Worker holding the job; a running job whose lease has expired is picked up again
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  -- At most one pending/running job per key (e.g. one send per scheduled email)
+  dedupe_key VARCHAR(255),
+
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_due
+  ON background_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_lease
+  ON background_jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_type_status
+  ON background_jobs(job_type, status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_background_jobs_dedupe
+  ON background_jobs(dedupe_key) WHERE status IN ('pending', 'running');
+
+COMMENT ON TABLE background_jobs IS 'Persistent job queue polled by the job runner (safe with several replicas)';
+COMMENT ON COLUMN background_jobs.status IS
+'pending (waiting for run_at, including retries), running (leased until locked_until), completed,
+dead (failed max_attempts times), cancelled';
+COMMENT ON COLUMN background_jobs.locked_until IS 'Lease end; the runner extends it while the job runs';
+
+-- 2. Follow-up emails delayed by send_delay_minutes
+CREATE TABLE IF NOT EXISTS scheduled_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL UNIQUE REFERENCES calls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  contact_email VARCHAR(255) NOT NULL,
+  scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  call_data JSONB NOT NULL DEFAULT '{}',
+  job_id UUID REFERENCES background_jobs(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_user_status ON scheduled_emails(user_id, status);
+
+COMMENT ON COLUMN scheduled_emails.call_data IS 'Call details the follow-up is generated from when it is sent';
+
+-- 3. Email campaigns keep their recipients and attachments for the send job
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS contact_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS attachments JSONB;
+
+-- Statuses the campaign service sets (the table may have been created by 1004 with another list)
+ALTER TABLE email_campaigns DROP CONSTRAINT IF EXISTS email_campaigns_status_check;
+ALTER TABLE email_campaigns ADD CONSTRAINT email_campaigns_status_check
+  CHECK (status IN ('draft', 'scheduled', 'active', 'paused', 'in_progress', 'completed', 'cancelled', 'failed'));
+
+COMMENT ON COLUMN email_campaigns.contact_ids IS 'Recipients; contacts with an email row for the campaign are skipped when a send resumes';
+COMMENT ON COLUMN email_campaigns.attachments IS 'Attachments (base64) sent with every campaign email';
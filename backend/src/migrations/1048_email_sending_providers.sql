@@ -0,0 +1,113 @@
+-- Migration: Pluggable email sending providers
+-- Description: Per-user sender identities on Gmail, SMTP or ZeptoMail with verification and send limits,
+-- hourly send counts for throttling, and bounce/complaint events that mark the contact's address and put
+-- it on the suppression list so nothing is sent to it again.
+-- Date: 2026-10-18
+
+-- 1. Sender identities (address + transport a user sends from)
+CREATE TABLE IF NOT EXISTS email_sender_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL CHECK (provider IN ('gmail', 'smtp', 'zeptomail')),
+
+  from_email VARCHAR(255) NOT NULL,
+  from_name VARCHAR(255),
+  reply_to VARCHAR(255),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+
+  -- SMTP transport (provider = 'smtp'); the password is AES-256-GCM encrypted
+  smtp_host VARCHAR(255),
+  smtp_port INTEGER,
+  smtp_secure BOOLEAN NOT NULL DEFAULT false,
+  smtp_username VARCHAR(255),
+  smtp_password_encrypted TEXT,
+
+  -- Ownership of from_email is proven by a link mailed to it (Gmail is verified by OAuth)
+  verification_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'failed')),
+  verification_token VARCHAR(100),
+  verification_sent_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+
+  -- Send limits; NULL uses the provider default
+  hourly_limit INTEGER CHECK (hourly_limit IS NULL OR hourly_limit > 0),
+  daily_limit INTEGER CHECK (daily_limit IS NULL OR daily_limit > 0),
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT email_sender_smtp_settings CHECK (
+    provider <> 'smtp' OR (smtp_host IS NOT NULL AND smtp_port IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sender_identities_user_address
+  ON email_sender_identities(user_id, provider, LOWER(from_email));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sender_identities_default
+  ON email_sender_identities(user_id) WHERE is_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sender_identities_token
+  ON email_sender_identities(verification_token) WHERE verification_token IS NOT NULL;
+
+COMMENT ON TABLE email_sender_identities IS 'Sender addresses and the transport (Gmail, SMTP, ZeptoMail) each user sends email through';
+COMMENT ON COLUMN email_sender_identities.is_default IS 'Identity used for campaign, follow-up and flow emails; without one the connected Gmail account is used';
+COMMENT ON COLUMN email_sender_identities.reply_to IS 'ZeptoMail sends from the platform domain with the user''s address as Reply-To';
+
+-- 2. Sends per identity and hour (throttling)
+CREATE TABLE IF NOT EXISTS email_sender_usage (
+  sender_identity_id UUID NOT NULL REFERENCES email_sender_identities(id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (sender_identity_id, window_start)
+);
+
+COMMENT ON TABLE email_sender_usage IS 'Emails sent per sender identity per hour, checked against hourly and daily limits';
+
+-- 3. Provider on sent emails (bounces are matched back to them)
+ALTER TABLE emails
+  ADD COLUMN IF NOT EXISTS sender_identity_id UUID REFERENCES email_sender_identities(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS provider VARCHAR(20);
+
+-- Sender chosen for an email campaign (NULL: the user's default sender)
+ALTER TABLE email_campaigns
+  ADD COLUMN IF NOT EXISTS sender_identity_id UUID REFERENCES email_sender_identities(id) ON DELETE SET NULL;
+
+-- 4. Bounces and complaints
+CREATE TABLE IF NOT EXISTS email_delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email_id UUID REFERENCES emails(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  sender_identity_id UUID REFERENCES email_sender_identities(id) ON DELETE SET NULL,
+  provider VARCHAR(20) NOT NULL,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('hard_bounce', 'soft_bounce', 'complaint')),
+  recipient VARCHAR(255) NOT NULL,
+  reason TEXT,
+  raw JSONB,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_events_user_created
+  ON email_delivery_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_delivery_events_recipient
+  ON email_delivery_events(user_id, LOWER(recipient));
+
+-- 5. Deliverability of a contact's address
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS email_status VARCHAR(20) NOT NULL DEFAULT 'valid',
+  ADD COLUMN IF NOT EXISTS email_status_reason TEXT,
+  ADD COLUMN IF NOT EXISTS email_status_updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS email_soft_bounce_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_email_status_check;
+ALTER TABLE contacts ADD CONSTRAINT contacts_email_status_check
+  CHECK (email_status IN ('valid', 'soft_bounced', 'bounced', 'complained'));
+
+COMMENT ON COLUMN contacts.email_status IS 'valid, soft_bounced (temporary failures), bounced (hard bounce) or complained (marked as spam)';
+
+-- 6. Suppression entries added by bounce/complaint handling
+ALTER TABLE suppression_list DROP CONSTRAINT IF EXISTS valid_suppression_source;
+ALTER TABLE suppression_list ADD CONSTRAINT valid_suppression_source CHECK (source IN (
+  'manual', 'import', 'unsubscribe_link', 'api', 'flow', 'bounce'
+));
@@ -0,0 +1,51 @@
+-- Migration: Email campaign A/B testing and send-time optimization
+-- Description: 2-4 subject/body variants per campaign sent to a test slice, with the winner (by open or
+-- click rate after the test window) sent to the remaining contacts, and an optional mode that sends each
+-- contact at the hour they have historically opened emails.
+-- Date: 2026-10-18
+
+-- 1. Subject/body variants of a campaign
+CREATE TABLE IF NOT EXISTS email_campaign_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  variant_key CHAR(1) NOT NULL CHECK (variant_key IN ('A', 'B', 'C', 'D')),
+  subject TEXT NOT NULL,
+  body_html TEXT NOT NULL,
+  body_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, variant_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaign_variants_campaign ON email_campaign_variants(campaign_id);
+
+-- 2. A/B test and send-time settings of a campaign
+ALTER TABLE email_campaigns
+  ADD COLUMN IF NOT EXISTS ab_test_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS ab_test_percentage INTEGER,
+  ADD COLUMN IF NOT EXISTS ab_winner_metric VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS ab_test_duration_hours INTEGER,
+  ADD COLUMN IF NOT EXISTS ab_test_ends_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS ab_winner_variant_id UUID REFERENCES email_campaign_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS ab_winner_selected_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS send_time_optimization BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS remainder_started_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE email_campaigns DROP CONSTRAINT IF EXISTS email_campaigns_ab_test_check;
+ALTER TABLE email_campaigns ADD CONSTRAINT email_campaigns_ab_test_check CHECK (
+  NOT ab_test_enabled OR (
+    ab_test_percentage BETWEEN 5 AND 50
+    AND ab_winner_metric IN ('open_rate', 'click_rate')
+    AND ab_test_duration_hours BETWEEN 1 AND 168
+  )
+);
+
+COMMENT ON COLUMN email_campaigns.ab_test_percentage IS 'Share of the contacts (percent) that get a variant during the test';
+COMMENT ON COLUMN email_campaigns.ab_test_ends_at IS 'When the winner is picked (set once the test slice is sent)';
+COMMENT ON COLUMN email_campaigns.send_time_optimization IS 'Send each remaining contact at the hour they usually open emails';
+COMMENT ON COLUMN email_campaigns.remainder_started_at IS 'When sending to the contacts outside the test slice began';
+
+-- 3. Variant an email was sent with
+ALTER TABLE emails
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES email_campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_emails_variant_id ON emails(variant_id) WHERE variant_id IS NOT NULL;
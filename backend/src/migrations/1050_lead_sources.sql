@@ -0,0 +1,70 @@
+-- Migration: Lead sources
+-- Description: Named inbound lead endpoints per user, each with its own secret (HMAC-SHA256 signature or
+-- shared secret), a field mapping from JSON paths in the payload to contact fields and custom fields, and a
+-- log of the requests received so they can be inspected and replayed. Contacts get a custom_fields column
+-- for the mapped values that have no contact column.
+-- Date: 2026-10-18
+
+-- 1. Custom fields on contacts
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN contacts.custom_fields IS 'Lead data without a contact column (e.g. product, state), filled by lead source field mappings';
+
+-- 2. Lead sources
+CREATE TABLE IF NOT EXISTS lead_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  preset VARCHAR(30) NOT NULL DEFAULT 'custom'
+    CHECK (preset IN ('custom', 'indiamart', 'tradeindia', 'justdial', 'facebook_lead_ads')),
+  endpoint_token VARCHAR(64) NOT NULL UNIQUE,
+  auth_mode VARCHAR(20) NOT NULL DEFAULT 'hmac_sha256' CHECK (auth_mode IN ('hmac_sha256', 'shared_secret')),
+  secret_encrypted TEXT NOT NULL,
+  signature_header VARCHAR(100) NOT NULL,
+  field_mapping JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source_label VARCHAR(100) NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_sources_user ON lead_sources(user_id);
+
+COMMENT ON COLUMN lead_sources.endpoint_token IS 'Random path segment of the inbound URL /api/webhooks/lead-sources/:token';
+COMMENT ON COLUMN lead_sources.source_label IS 'Stored as contacts.auto_creation_source, which Auto Engagement Flows match on';
+COMMENT ON COLUMN lead_sources.settings IS 'Preset options, e.g. the encrypted Facebook page access token and verify token';
+
+-- 3. Inbound request log
+CREATE TABLE IF NOT EXISTS lead_source_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_source_id UUID NOT NULL REFERENCES lead_sources(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  method VARCHAR(10) NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  query JSONB NOT NULL DEFAULT '{}'::jsonb,
+  body JSONB,
+  signature_valid BOOLEAN,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('processed', 'rejected', 'failed')),
+  error_message TEXT,
+  leads_received INTEGER NOT NULL DEFAULT 0,
+  contacts_created INTEGER NOT NULL DEFAULT 0,
+  contacts_updated INTEGER NOT NULL DEFAULT 0,
+  contact_ids UUID[] NOT NULL DEFAULT '{}',
+  replay_of UUID REFERENCES lead_source_requests(id) ON DELETE SET NULL,
+  processing_time_ms INTEGER,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_source_requests_source ON lead_source_requests(lead_source_id, received_at DESC);
+
+COMMENT ON COLUMN lead_source_requests.signature_valid IS 'NULL for replays, which are not verified again';
+
+-- 4. updated_at trigger
+DROP TRIGGER IF EXISTS update_lead_sources_updated_at ON lead_sources;
+CREATE TRIGGER update_lead_sources_updated_at
+  BEFORE UPDATE ON lead_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,131 @@
+-- Migration: E.164 phone numbers
+-- Description: Phone numbers are now parsed against per-country numbering metadata and stored in E.164
+-- (+919876543210) instead of "+ISD number". Contacts record the detected country and line type, and users
+-- get a default region used for numbers entered without a country code. Existing "+ISD number" values are
+-- rewritten to E.164 by dropping the space. A contact whose E.164 form already exists for the same user is
+-- merged into that contact (calls, queue entries and other references are moved over) and then deleted.
+-- Date: 2026-10-18
+
+-- 1. Default region per user
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_phone_region CHAR(2);
+
+COMMENT ON COLUMN users.default_phone_region IS 'ISO 3166-1 alpha-2 region for phone numbers without a country code (NULL = IN)';
+
+-- 2. Detected country and line type on contacts
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phone_country CHAR(2);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phone_line_type VARCHAR(30);
+
+COMMENT ON COLUMN contacts.phone_country IS 'Region the phone number belongs to (NULL for numbers shared by several regions or not parsed yet)';
+COMMENT ON COLUMN contacts.phone_line_type IS 'mobile, landline, landline_or_mobile, toll_free, voip, ... or unknown';
+
+-- 3. Merge contacts whose E.164 form already exists. The survivor is the contact already stored in
+--    E.164, otherwise the oldest of the legacy rows.
+CREATE TEMP TABLE contact_phone_merges ON COMMIT DROP AS
+SELECT duplicate_id, survivor_id
+FROM (
+  SELECT
+    id AS duplicate_id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY user_id, REPLACE(phone_number, ' ', '')
+      ORDER BY phone_number ~ '^\+\d{1,3} \d+$', created_at, id
+    ) AS survivor_id
+  FROM contacts
+  WHERE phone_number ~ '^\+\d{1,3} \d+$' OR phone_number ~ '^\+\d+$'
+) ranked
+WHERE duplicate_id <> survivor_id;
+
+DO $$
+DECLARE
+  pair RECORD;
+  fk RECORD;
+  merged_count INTEGER := 0;
+BEGIN
+  FOR pair IN SELECT * FROM contact_phone_merges LOOP
+    -- Keep the survivor's details, filling gaps from the duplicate
+    UPDATE contacts s
+    SET email = COALESCE(s.email, d.email),
+        company = COALESCE(s.company, d.company),
+        notes = CASE
+          WHEN d.notes IS NULL OR d.notes = '' THEN s.notes
+          WHEN s.notes IS NULL OR s.notes = '' THEN d.notes
+          ELSE s.notes || E'\n\n' || d.notes
+        END,
+        city = COALESCE(s.city, d.city),
+        country = COALESCE(s.country, d.country),
+        business_context = COALESCE(s.business_context, d.business_context),
+        tags = ARRAY(SELECT DISTINCT tag FROM unnest(COALESCE(s.tags, '{}') || COALESCE(d.tags, '{}')) AS tag),
+        custom_fields = COALESCE(d.custom_fields, '{}'::jsonb) || COALESCE(s.custom_fields, '{}'::jsonb),
+        is_customer = COALESCE(s.is_customer, FALSE) OR COALESCE(d.is_customer, FALSE),
+        last_contact_at = GREATEST(s.last_contact_at, d.last_contact_at),
+        updated_at = CURRENT_TIMESTAMP
+    FROM contacts d
+    WHERE s.id = pair.survivor_id AND d.id = pair.duplicate_id;
+
+    -- A contact is queued once per campaign
+    DELETE FROM call_queue q
+    WHERE q.contact_id = pair.duplicate_id
+      AND EXISTS (
+        SELECT 1 FROM call_queue other
+        WHERE other.contact_id = pair.survivor_id AND other.campaign_id = q.campaign_id
+      );
+
+    -- Move every row that references the duplicate (calls, call_queue, customers, ...)
+    FOR fk IN
+      SELECT con.conrelid::regclass AS table_name, att.attname AS column_name
+      FROM pg_constraint con
+      JOIN pg_attribute att
+        ON att.attrelid = con.conrelid
+       AND att.attnum = con.conkey[array_position(con.confkey, (
+         SELECT attnum FROM pg_attribute WHERE attrelid = 'contacts'::regclass AND attname = 'id'
+       ))]
+      WHERE con.contype = 'f' AND con.confrelid = 'contacts'::regclass
+    LOOP
+      EXECUTE format('UPDATE %s SET %I = $1 WHERE %I = $2', fk.table_name, fk.column_name, fk.column_name)
+      USING pair.survivor_id, pair.duplicate_id;
+    END LOOP;
+
+    UPDATE email_campaigns SET contact_ids = array_replace(contact_ids, pair.duplicate_id, pair.survivor_id)
+    WHERE pair.duplicate_id = ANY(contact_ids);
+    UPDATE lead_source_requests SET contact_ids = array_replace(contact_ids, pair.duplicate_id, pair.survivor_id)
+    WHERE pair.duplicate_id = ANY(contact_ids);
+
+    DELETE FROM contacts WHERE id = pair.duplicate_id;
+    merged_count := merged_count + 1;
+  END LOOP;
+
+  RAISE NOTICE 'Migration 1051: merged % contact(s) into the contact with the same E.164 number', merged_count;
+END $$;
+
+-- 4. "+ISD number" -> E.164
+UPDATE contacts SET phone_number = REPLACE(phone_number, ' ', '')
+WHERE phone_number ~ '^\+\d{1,3} \d+$';
+
+UPDATE calls SET phone_number = REPLACE(phone_number, ' ', '')
+WHERE phone_number ~ '^\+\d{1,3} \d+$';
+
+-- Only one complete analysis may exist per user and number: keep the most recent
+DELETE FROM lead_analytics
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        PARTITION BY user_id, REPLACE(phone_number, ' ', '')
+        ORDER BY analysis_timestamp DESC
+      ) AS rn
+    FROM lead_analytics
+    WHERE analysis_type = 'complete'
+      AND (phone_number ~ '^\+\d{1,3} \d+$' OR phone_number ~ '^\+\d+$')
+  ) sub
+  WHERE rn > 1
+);
+
+UPDATE lead_analytics SET phone_number = REPLACE(phone_number, ' ', '')
+WHERE phone_number ~ '^\+\d{1,3} \d+$';
+
+UPDATE call_queue SET phone_number = REPLACE(phone_number, ' ', '')
+WHERE phone_number ~ '^\+\d{1,3} \d+$';
+
+UPDATE lead_intelligence_events SET phone_number = REPLACE(phone_number, ' ', '')
+WHERE phone_number ~ '^\+\d{1,3} \d+$';
@@ -1,4 +1,6 @@
 import BaseModel, { BaseModelInterface } from './BaseModel';
+import { AgentPromptVersionModel } from './AgentPromptVersion';
+import { CallVariableDefinition } from '../types/callVariables';
 
 export interface AgentInterface extends BaseModelInterface {
   id: string;
@@ -10,6 +12,8 @@ export interface AgentInterface extends BaseModelInterface {
   is_active: boolean;
   system_prompt?: string | null;
   dynamic_information?: string | null;
+  current_prompt_version_id?: string | null;
+  call_variables?: CallVariableDefinition[] | null; // null sends the default variables
   created_at: Date;
   updated_at: Date;
 }
@@ -33,9 +37,16 @@ export class AgentModel extends BaseModel<AgentInterface> {
 
   /**
    * Find agent by Bolna agent ID
+   * Also matches the provider agents that run a prompt version for campaign A/B tests.
    */
   async findByBolnaId(bolnaAgentId: string): Promise<AgentInterface | null> {
-    return await this.findOne({ bolna_agent_id: bolnaAgentId });
+    const agent = await this.findOne({ bolna_agent_id: bolnaAgentId });
+    if (agent) {
+      return agent;
+    }
+
+    const agentId = await AgentPromptVersionModel.findAgentIdByProviderAgent(bolnaAgentId);
+    return agentId ? await this.findById(agentId) : null;
   }
 
   /**
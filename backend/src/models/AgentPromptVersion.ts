@@ -0,0 +1,133 @@
+import { pool } from '../config/database';
+import { DiffLine } from '../utils/textDiff';
+
+export type PromptVersionSource = 'initial' | 'edit' | 'rollback';
+
+export interface PromptVersionDiffLine extends DiffLine {
+  field: 'system_prompt' | 'dynamic_information';
+}
+
+export interface AgentPromptVersion {
+  id: string;
+  agent_id: string;
+  version_number: number;
+  system_prompt: string | null;
+  dynamic_information: string | null;
+  diff: PromptVersionDiffLine[];
+  source: PromptVersionSource;
+  rolled_back_to_version: number | null;
+  note: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  provider_agent_id: string | null;
+  created_at: Date;
+}
+
+export interface PromptContent {
+  system_prompt: string | null;
+  dynamic_information: string | null;
+}
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+/**
+ * Immutable history of an agent's system prompt and dynamic information
+ */
+export class AgentPromptVersionModel {
+  static async findLatest(db: Queryable, agentId: string): Promise<AgentPromptVersion | null> {
+    const result = await db.query(
+      `SELECT * FROM agent_prompt_versions WHERE agent_id = $1 ORDER BY version_number DESC LIMIT 1`,
+      [agentId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async create(
+    client: Queryable,
+    agentId: string,
+    versionNumber: number,
+    content: PromptContent,
+    details: {
+      diff: PromptVersionDiffLine[];
+      source: PromptVersionSource;
+      rolledBackToVersion?: number | null;
+      note?: string | null;
+      createdBy?: string | null;
+      createdByName?: string | null;
+    }
+  ): Promise<AgentPromptVersion> {
+    const result = await client.query(
+      `INSERT INTO agent_prompt_versions
+        (agent_id, version_number, system_prompt, dynamic_information, diff, source,
+         rolled_back_to_version, note, created_by, created_by_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        agentId,
+        versionNumber,
+        content.system_prompt,
+        content.dynamic_information,
+        JSON.stringify(details.diff),
+        details.source,
+        details.rolledBackToVersion ?? null,
+        details.note ?? null,
+        details.createdBy ?? null,
+        details.createdByName ?? null
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(id: string, agentId?: string): Promise<AgentPromptVersion | null> {
+    const result = await pool.query(
+      `SELECT * FROM agent_prompt_versions WHERE id = $1 ${agentId ? 'AND agent_id = $2' : ''}`,
+      agentId ? [id, agentId] : [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Versions newest first, without their content
+   */
+  static async listByAgent(agentId: string): Promise<Omit<AgentPromptVersion, 'system_prompt' | 'dynamic_information' | 'diff'>[]> {
+    const result = await pool.query(
+      `SELECT id, agent_id, version_number, source, rolled_back_to_version, note,
+              created_by, created_by_name, provider_agent_id, created_at
+       FROM agent_prompt_versions
+       WHERE agent_id = $1
+       ORDER BY version_number DESC`,
+      [agentId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record the provider agent that runs this version; returns the one stored first
+   */
+  static async setProviderAgent(id: string, providerAgentId: string): Promise<string> {
+    const result = await pool.query(
+      `UPDATE agent_prompt_versions
+       SET provider_agent_id = COALESCE(provider_agent_id, $2)
+       WHERE id = $1
+       RETURNING provider_agent_id`,
+      [id, providerAgentId]
+    );
+    return result.rows[0]?.provider_agent_id || providerAgentId;
+  }
+
+  static async findAgentIdByProviderAgent(providerAgentId: string): Promise<string | null> {
+    const result = await pool.query(
+      'SELECT agent_id FROM agent_prompt_versions WHERE provider_agent_id = $1 LIMIT 1',
+      [providerAgentId]
+    );
+    return result.rows[0]?.agent_id || null;
+  }
+
+  static async listProviderAgents(agentId: string): Promise<string[]> {
+    const result = await pool.query(
+      'SELECT provider_agent_id FROM agent_prompt_versions WHERE agent_id = $1 AND provider_agent_id IS NOT NULL',
+      [agentId]
+    );
+    return result.rows.map((row: any) => row.provider_agent_id);
+  }
+}
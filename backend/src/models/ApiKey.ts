@@ -0,0 +1,171 @@
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type ApiKeyScope = 'contacts:read' | 'contacts:write' | 'calls:create' | 'analytics:read';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  rotated_from_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateApiKeyParams {
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt?: Date | null;
+  rotatedFromId?: string | null;
+}
+
+export interface UpdateApiKeyParams {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date | null;
+}
+
+// Columns returned to API clients - never includes key_hash
+const PUBLIC_COLUMNS = `id, user_id, name, key_prefix, scopes, rate_limit_per_minute,
+  last_used_at, last_used_ip, expires_at, revoked_at, rotated_from_id, created_at, updated_at`;
+
+/**
+ * Per-user API keys for the external API
+ */
+export class ApiKeyModel {
+  /**
+   * Create a key
+   */
+  static async create(params: CreateApiKeyParams, client?: PoolClient): Promise<Omit<ApiKey, 'key_hash'>> {
+    const result = await (client || pool).query(
+      `INSERT INTO api_keys
+        (user_id, name, key_prefix, key_hash, scopes, rate_limit_per_minute, expires_at, rotated_from_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [
+        params.userId,
+        params.name,
+        params.keyPrefix,
+        params.keyHash,
+        params.scopes,
+        params.rateLimitPerMinute,
+        params.expiresAt || null,
+        params.rotatedFromId || null
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find an active (not revoked, not expired) key by the hash of its plaintext
+   */
+  static async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await pool.query(
+      `SELECT * FROM api_keys
+       WHERE key_hash = $1
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`,
+      [keyHash]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a key of a user
+   */
+  static async findById(id: string, userId: string): Promise<Omit<ApiKey, 'key_hash'> | null> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List the keys of a user, newest first (revoked keys included)
+   */
+  static async findByUser(userId: string): Promise<Omit<ApiKey, 'key_hash'>[]> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Update name, scopes, rate limit or expiry of an active key
+   */
+  static async update(id: string, userId: string, params: UpdateApiKeyParams): Promise<Omit<ApiKey, 'key_hash'> | null> {
+    const updates: string[] = ['updated_at = CURRENT_TIMESTAMP'];
+    const values: any[] = [id, userId];
+
+    if (params.name !== undefined) {
+      values.push(params.name);
+      updates.push(`name = $${values.length}`);
+    }
+    if (params.scopes !== undefined) {
+      values.push(params.scopes);
+      updates.push(`scopes = $${values.length}`);
+    }
+    if (params.rateLimitPerMinute !== undefined) {
+      values.push(params.rateLimitPerMinute);
+      updates.push(`rate_limit_per_minute = $${values.length}`);
+    }
+    if (params.expiresAt !== undefined) {
+      values.push(params.expiresAt);
+      updates.push(`expires_at = $${values.length}`);
+    }
+
+    const result = await pool.query(
+      `UPDATE api_keys SET ${updates.join(', ')}
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING ${PUBLIC_COLUMNS}`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Revoke a key
+   * @returns false if the key does not exist or is already revoked
+   */
+  static async revoke(id: string, userId: string, client?: PoolClient): Promise<boolean> {
+    const result = await (client || pool).query(
+      `UPDATE api_keys
+       SET revoked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [id, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Record that a key was used
+   */
+  static async touchLastUsed(id: string, ipAddress: string | null): Promise<void> {
+    await pool.query(
+      'UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP, last_used_ip = $2 WHERE id = $1',
+      [id, ipAddress]
+    );
+  }
+}
@@ -41,7 +41,7 @@ export class AutoEngagementFlowModel {
 
     // Fetch trigger conditions
     const conditionsResult = await pool.query(
-      `SELECT * FROM flow_trigger_conditions WHERE flow_id = $1 ORDER BY created_at`,
+      `SELECT * FROM flow_trigger_conditions WHERE flow_id = $1 ORDER BY condition_order, created_at`,
       [id]
     );
 
@@ -115,7 +115,7 @@ export class AutoEngagementFlowModel {
     // Get all trigger conditions for these flows
     const flowIds = flows.map((f: any) => f.id);
     const conditionsResult = await pool.query(
-      `SELECT * FROM flow_trigger_conditions WHERE flow_id = ANY($1::uuid[])`,
+      `SELECT * FROM flow_trigger_conditions WHERE flow_id = ANY($1::uuid[]) ORDER BY condition_order, created_at`,
       [flowIds]
     );
 
@@ -0,0 +1,251 @@
+import { pool } from '../config/database';
+import {
+  BackgroundJob,
+  BackgroundJobFilters,
+  BackgroundJobStats,
+  BackgroundJobType,
+  EnqueueJobOptions
+} from '../types/job';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Persistent background jobs claimed by the job runner
+ */
+export class BackgroundJobModel {
+  /**
+   * Add a job to the queue
+   * With a dedupe key, a pending job with the same key is moved to the new run time and
+   * payload instead; returns null when that job is already running.
+   */
+  static async enqueue(
+    jobType: BackgroundJobType,
+    payload: Record<string, any>,
+    options: EnqueueJobOptions = {},
+    db: Queryable = pool
+  ): Promise<BackgroundJob | null> {
+    const result = await db.query(
+      `INSERT INTO background_jobs (job_type, payload, user_id, run_at, max_attempts, dedupe_key)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') DO UPDATE SET
+         payload = EXCLUDED.payload,
+         run_at = EXCLUDED.run_at,
+         max_attempts = EXCLUDED.max_attempts,
+         updated_at = NOW()
+       WHERE background_jobs.status = 'pending'
+       RETURNING *`,
+      [
+        jobType,
+        JSON.stringify(payload),
+        options.userId || null,
+        options.runAt || new Date(),
+        options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        options.dedupeKey || null
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim due jobs for a worker
+   * Pending jobs whose run_at has passed and running jobs whose lease expired (their worker
+   * died) are leased to this worker; SKIP LOCKED keeps replicas from claiming the same job.
+   */
+  static async claimDue(limit: number, workerId: string, leaseSeconds: number): Promise<BackgroundJob[]> {
+    const result = await pool.query(
+      `UPDATE background_jobs
+       SET status = 'running',
+           attempts = attempts + 1,
+           locked_by = $2,
+           locked_until = NOW() + make_interval(secs => $3),
+           started_at = NOW(),
+           updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM background_jobs
+         WHERE (status = 'pending' AND run_at <= NOW())
+            OR (status = 'running' AND locked_until < NOW() AND attempts < max_attempts)
+         ORDER BY run_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, workerId, leaseSeconds]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Dead-letter running jobs whose lease expired on their last attempt
+   */
+  static async deadLetterExpired(): Promise<BackgroundJob[]> {
+    const result = await pool.query(
+      `UPDATE background_jobs
+       SET status = 'dead',
+           last_error = COALESCE(last_error, 'Worker stopped before the job finished'),
+           locked_by = NULL,
+           locked_until = NULL,
+           completed_at = NOW(),
+           updated_at = NOW()
+       WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+       RETURNING *`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Push out the lease of a job this worker is still running
+   */
+  static async extendLease(id: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE background_jobs
+       SET locked_until = NOW() + make_interval(secs => $3), updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId, leaseSeconds]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async markCompleted(id: string, workerId: string): Promise<void> {
+    await pool.query(
+      `UPDATE background_jobs
+       SET status = 'completed', locked_by = NULL, locked_until = NULL,
+           completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId]
+    );
+  }
+
+  /**
+   * Record a failed attempt: back to pending at retryAt, or dead when retryAt is null
+   */
+  static async markFailed(id: string, workerId: string, error: string, retryAt: Date | null): Promise<void> {
+    await pool.query(
+      `UPDATE background_jobs
+       SET status = CASE WHEN $4::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+           run_at = COALESCE($4::timestamptz, run_at),
+           last_error = $3,
+           locked_by = NULL,
+           locked_until = NULL,
+           completed_at = CASE WHEN $4::timestamptz IS NULL THEN NOW() ELSE NULL END,
+           updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId, error, retryAt]
+    );
+  }
+
+  /**
+   * Put a running job back to pending at runAt without using up an attempt
+   */
+  static async defer(id: string, workerId: string, runAt: Date, reason: string): Promise<void> {
+    await pool.query(
+      `UPDATE background_jobs
+       SET status = 'pending',
+           run_at = $3,
+           attempts = GREATEST(attempts - 1, 0),
+           last_error = $4,
+           locked_by = NULL,
+           locked_until = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId, runAt, reason]
+    );
+  }
+
+  static async findById(id: string): Promise<BackgroundJob | null> {
+    const result = await pool.query('SELECT * FROM background_jobs WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  static async list(filters: BackgroundJobFilters = {}): Promise<{ jobs: BackgroundJob[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.jobType) {
+      params.push(filters.jobType);
+      conditions.push(`job_type = $${params.length}`);
+    }
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`user_id = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(filters.limit || 50, 200);
+    const offset = filters.offset || 0;
+
+    const [jobsResult, countResult] = await Promise.all([
+      pool.query(
+        `SELECT * FROM background_jobs ${where}
+         ORDER BY created_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total FROM background_jobs ${where}`, params)
+    ]);
+
+    return { jobs: jobsResult.rows, total: countResult.rows[0]?.total || 0 };
+  }
+
+  /**
+   * Job counts per type and status
+   */
+  static async getStats(): Promise<BackgroundJobStats[]> {
+    const result = await pool.query(
+      `SELECT job_type, status, COUNT(*)::int AS count, MIN(run_at) AS oldest_run_at
+       FROM background_jobs
+       GROUP BY job_type, status
+       ORDER BY job_type, status`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Queue a dead or cancelled job again with a fresh set of attempts
+   */
+  static async retry(id: string): Promise<BackgroundJob | null> {
+    const result = await pool.query(
+      `UPDATE background_jobs
+       SET status = 'pending', run_at = NOW(), attempts = 0, completed_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND status IN ('dead', 'cancelled')
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Cancel a job that has not started
+   */
+  static async cancel(id: string): Promise<BackgroundJob | null> {
+    const result = await pool.query(
+      `UPDATE background_jobs
+       SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Cancel the pending job with a dedupe key (e.g. when what it would send is cancelled)
+   */
+  static async cancelByDedupeKey(dedupeKey: string, db: Queryable = pool): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE background_jobs
+       SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+       WHERE dedupe_key = $1 AND status = 'pending'`,
+      [dedupeKey]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
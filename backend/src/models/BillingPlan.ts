@@ -0,0 +1,97 @@
+import { pool } from '../config/database';
+
+export interface BillingPlan {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  monthly_price_cents: number;
+  currency: string;
+  included_minutes: number;
+  overage_credits_per_minute: number;
+  billing_pulse_seconds: number;
+  concurrent_calls_limit: number | null;
+  chat_credit_allowance: number;
+  rollover_max_minutes: number;
+  stripe_price_id: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type BillingPlanFields = Omit<BillingPlan, 'id' | 'created_at' | 'updated_at'>;
+
+const PLAN_COLUMNS: (keyof BillingPlanFields)[] = [
+  'name',
+  'slug',
+  'description',
+  'monthly_price_cents',
+  'currency',
+  'included_minutes',
+  'overage_credits_per_minute',
+  'billing_pulse_seconds',
+  'concurrent_calls_limit',
+  'chat_credit_allowance',
+  'rollover_max_minutes',
+  'stripe_price_id',
+  'is_active'
+];
+
+/**
+ * Named billing plans that can be assigned to users (admin-managed)
+ */
+export class BillingPlanModel {
+  static async findAll(includeInactive = false): Promise<BillingPlan[]> {
+    const result = await pool.query(
+      `SELECT * FROM billing_plans
+       ${includeInactive ? '' : 'WHERE is_active = true'}
+       ORDER BY monthly_price_cents ASC, name ASC`
+    );
+    return result.rows.map(normalizePlan);
+  }
+
+  static async findById(id: string): Promise<BillingPlan | null> {
+    const result = await pool.query('SELECT * FROM billing_plans WHERE id = $1', [id]);
+    return result.rows[0] ? normalizePlan(result.rows[0]) : null;
+  }
+
+  static async findByStripePriceId(priceId: string): Promise<BillingPlan | null> {
+    const result = await pool.query('SELECT * FROM billing_plans WHERE stripe_price_id = $1', [priceId]);
+    return result.rows[0] ? normalizePlan(result.rows[0]) : null;
+  }
+
+  static async create(fields: BillingPlanFields): Promise<BillingPlan> {
+    const values = PLAN_COLUMNS.map(column => fields[column]);
+    const result = await pool.query(
+      `INSERT INTO billing_plans (${PLAN_COLUMNS.join(', ')})
+       VALUES (${PLAN_COLUMNS.map((_, i) => `$${i + 1}`).join(', ')})
+       RETURNING *`,
+      values
+    );
+    return normalizePlan(result.rows[0]);
+  }
+
+  static async update(id: string, fields: Partial<BillingPlanFields>): Promise<BillingPlan | null> {
+    const columns = PLAN_COLUMNS.filter(column => fields[column] !== undefined);
+    if (columns.length === 0) {
+      return this.findById(id);
+    }
+
+    const result = await pool.query(
+      `UPDATE billing_plans
+       SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...columns.map(column => fields[column])]
+    );
+    return result.rows[0] ? normalizePlan(result.rows[0]) : null;
+  }
+}
+
+// DECIMAL columns come back from pg as strings
+export function normalizePlan(row: any): BillingPlan {
+  return {
+    ...row,
+    overage_credits_per_minute: Number(row.overage_credits_per_minute)
+  };
+}
@@ -0,0 +1,58 @@
+import { pool } from '../config/database';
+
+export type TaxIdType = 'gstin' | 'vat' | 'other';
+
+export interface BillingProfile {
+  user_id: string;
+  company_name: string | null;
+  tax_id: string | null;
+  tax_id_type: TaxIdType | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country: string | null;
+  billing_email: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type BillingProfileFields = Omit<BillingProfile, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const BILLING_PROFILE_FIELDS: (keyof BillingProfileFields)[] = [
+  'company_name',
+  'tax_id',
+  'tax_id_type',
+  'address_line1',
+  'address_line2',
+  'city',
+  'region',
+  'postal_code',
+  'country',
+  'billing_email'
+];
+
+/**
+ * Billing details (company, tax ID, address) printed on a user's invoices
+ */
+export class BillingProfileModel {
+  static async findByUser(userId: string): Promise<BillingProfile | null> {
+    const result = await pool.query('SELECT * FROM billing_profiles WHERE user_id = $1', [userId]);
+    return result.rows[0] || null;
+  }
+
+  static async upsert(userId: string, fields: BillingProfileFields): Promise<BillingProfile> {
+    const values = BILLING_PROFILE_FIELDS.map(field => fields[field]);
+    const result = await pool.query(
+      `INSERT INTO billing_profiles (user_id, ${BILLING_PROFILE_FIELDS.join(', ')})
+       VALUES ($1, ${BILLING_PROFILE_FIELDS.map((_, i) => `$${i + 2}`).join(', ')})
+       ON CONFLICT (user_id) DO UPDATE SET
+         ${BILLING_PROFILE_FIELDS.map(field => `${field} = EXCLUDED.${field}`).join(', ')},
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, ...values]
+    );
+    return result.rows[0];
+  }
+}
@@ -28,6 +28,9 @@ export interface CallInterface extends BaseModelInterface {
   ringing_started_at?: Date;
   call_answered_at?: Date;
   call_disconnected_at?: Date;
+  voicemail_detected_by?: 'provider' | 'transcript' | null; // Set when call_lifecycle_status is 'voicemail'
+
+  prompt_version_id?: string | null; // Agent prompt version used (campaign prompt A/B tests)
   
   created_at: Date;
   completed_at?: Date;
@@ -358,6 +361,7 @@ export class CallModel extends BaseModel<CallInterface> {
     credits_used?: number;
     recording_url?: string;
     bolna_execution_id?: string;
+    prompt_version_id?: string | null;
     metadata?: any;
   }): Promise<CallInterface> {
     const updateFields: string[] = [];
@@ -394,6 +398,11 @@ export class CallModel extends BaseModel<CallInterface> {
       updateFields.push(`bolna_execution_id = $${paramIndex++}`);
       params.push(updateData.bolna_execution_id);
     }
+
+    if (updateData.prompt_version_id !== undefined) {
+      updateFields.push(`prompt_version_id = $${paramIndex++}`);
+      params.push(updateData.prompt_version_id);
+    }
     
     if (updateData.metadata !== undefined) {
       updateFields.push(`metadata = $${paramIndex++}`);
@@ -915,6 +924,7 @@ export class CallModel extends BaseModel<CallInterface> {
       transcript_id?: string; // Add transcript_id support
       credits_used?: number; // Add credits_used support
       completed_at?: Date; // Add completed_at support
+      voicemail_detected_by?: 'provider' | 'transcript' | null;
       metadata?: any;
     }
   ): Promise<CallInterface | null> {
@@ -993,6 +1003,11 @@ export class CallModel extends BaseModel<CallInterface> {
       params.push(updateData.completed_at);
     }
 
+    if (updateData.voicemail_detected_by !== undefined) {
+      updateFields.push(`voicemail_detected_by = $${paramIndex++}`);
+      params.push(updateData.voicemail_detected_by);
+    }
+
     if (updateData.metadata !== undefined) {
       updateFields.push(`metadata = $${paramIndex++}`);
       params.push(JSON.stringify(updateData.metadata));
@@ -4,7 +4,8 @@ import {
   CampaignStatus,
   CreateCampaignRequest,
   UpdateCampaignRequest,
-  CampaignAnalytics 
+  CampaignAnalytics,
+  PromptVersionStats
 } from '../types/campaign';
 
 export class CallCampaignModel {
@@ -86,8 +87,11 @@ export class CallCampaignModel {
         user_id, name, description, agent_id, phone_number_id, next_action,
         first_call_time, last_call_time, status, start_date, end_date, started_at,
         campaign_timezone, use_custom_timezone, max_retries, retry_interval_minutes,
-        retry_strategy, custom_retry_schedule
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+        retry_strategy, custom_retry_schedule, voicemail_retry_schedule, prompt_version_a_id,
+        prompt_version_b_id, prompt_split_percent, weekly_schedule, blackout_dates,
+        max_calls_per_day, max_calls_per_hour, call_pace_seconds, use_contact_timezone
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22,
+        $23, $24, $25, $26, $27, $28)
       RETURNING *`,
       [
         userId,
@@ -107,7 +111,17 @@ export class CallCampaignModel {
         data.max_retries || 0,
         data.retry_interval_minutes || 1, // Default 1 min for testing
         data.retry_strategy || 'simple',
-        data.custom_retry_schedule ? JSON.stringify(data.custom_retry_schedule) : null
+        data.custom_retry_schedule ? JSON.stringify(data.custom_retry_schedule) : null,
+        data.voicemail_retry_schedule ? JSON.stringify(data.voicemail_retry_schedule) : null,
+        data.prompt_version_a_id || null,
+        data.prompt_version_b_id || null,
+        data.prompt_split_percent ?? 50,
+        data.weekly_schedule ? JSON.stringify(data.weekly_schedule) : null,
+        data.blackout_dates || [],
+        data.max_calls_per_day ?? null,
+        data.max_calls_per_hour ?? null,
+        data.call_pace_seconds || 0,
+        data.use_contact_timezone || false
       ]
     );
     return result.rows[0];
@@ -250,6 +264,8 @@ export class CallCampaignModel {
          WHERE campaign_id = c.id AND call_lifecycle_status = 'completed') as calculated_successful_calls,
 
         c.failed_calls,
+        c.prompt_version_a_id,
+        c.prompt_version_b_id,
         c.created_at,
         c.started_at,
         c.completed_at,
@@ -279,17 +295,21 @@ export class CallCampaignModel {
          FROM calls 
          WHERE campaign_id = c.id AND call_lifecycle_status = 'failed') as failed_count,
         
+        (SELECT COUNT(DISTINCT contact_id) 
+         FROM calls 
+         WHERE campaign_id = c.id AND call_lifecycle_status = 'voicemail') as voicemail_count,
+        
         -- Handled contacts: unique contacts with any terminal outcome (for progress %)
         (SELECT COUNT(DISTINCT contact_id) 
          FROM calls 
          WHERE campaign_id = c.id 
-         AND call_lifecycle_status IN ('completed', 'no-answer', 'busy', 'failed', 'call-disconnected')) as handled_contacts,
+         AND call_lifecycle_status IN ('completed', 'no-answer', 'busy', 'failed', 'voicemail', 'call-disconnected')) as handled_contacts,
         
         -- Total call attempts (includes retries)
         (SELECT COUNT(*) 
          FROM calls 
          WHERE campaign_id = c.id 
-         AND call_lifecycle_status IN ('completed', 'no-answer', 'busy', 'failed', 'call-disconnected')) as total_call_attempts,
+         AND call_lifecycle_status IN ('completed', 'no-answer', 'busy', 'failed', 'voicemail', 'call-disconnected')) as total_call_attempts,
         
         -- Attempted calls: calls that left queue (have a call record)
         (SELECT COUNT(*) 
@@ -325,6 +345,7 @@ export class CallCampaignModel {
     const busyCount = parseInt(row.busy_count) || 0;
     const noAnswerCount = parseInt(row.no_answer_count) || 0;
     const failedCount = parseInt(row.failed_count) || 0;
+    const voicemailCount = parseInt(row.voicemail_count) || 0;
     const queuedCalls = parseInt(row.queued_calls) || 0;
     
     // Progress is based on unique contacts handled, not total call attempts
@@ -374,6 +395,7 @@ export class CallCampaignModel {
         no_answer: noAnswerCount,
         contacted: contactedCalls,
         failed: failedCount,
+        voicemail: voicemailCount,
         not_attempted: queuedCalls
       },
       
@@ -383,14 +405,72 @@ export class CallCampaignModel {
         busy: busyCount,
         no_answer: noAnswerCount,
         failed: failedCount,
-        voicemail: 0 // Not tracking voicemail separately
+        voicemail: voicemailCount
       },
       
       // Daily breakdown (empty for now, can be implemented later)
-      daily_stats: []
+      daily_stats: [],
+
+      prompt_versions: await this.getPromptVersionStats(id, row.prompt_version_a_id, row.prompt_version_b_id)
     };
   }
 
+  /**
+   * Answer rate, lead score and meetings booked per agent prompt version used in the campaign
+   */
+  private static async getPromptVersionStats(
+    campaignId: string,
+    versionAId: string | null,
+    versionBId: string | null
+  ): Promise<PromptVersionStats[]> {
+    const result = await pool.query(
+      `WITH campaign_calls AS (
+         SELECT
+           ca.prompt_version_id,
+           ca.call_lifecycle_status IN ('completed', 'no-answer', 'busy', 'failed', 'voicemail', 'call-disconnected') as attempted,
+           (ca.call_lifecycle_status <> 'voicemail'
+            AND (ca.call_answered_at IS NOT NULL
+                 OR ca.call_lifecycle_status IN ('completed', 'call-disconnected'))) as answered,
+           (SELECT la.total_score FROM lead_analytics la
+            WHERE la.call_id = ca.id AND la.analysis_type = 'individual'
+            ORDER BY la.created_at DESC LIMIT 1) as lead_score,
+           EXISTS (SELECT 1 FROM calendar_meetings m
+                   WHERE m.call_id = ca.id AND m.status <> 'cancelled') as meeting_booked
+         FROM calls ca
+         WHERE ca.campaign_id = $1 AND ca.prompt_version_id IS NOT NULL
+       )
+       SELECT
+         v.id as prompt_version_id,
+         v.version_number,
+         COUNT(*) FILTER (WHERE cc.attempted) as attempted_calls,
+         COUNT(*) FILTER (WHERE cc.answered) as answered_calls,
+         AVG(cc.lead_score) as average_lead_score,
+         COUNT(*) FILTER (WHERE cc.meeting_booked) as meetings_booked
+       FROM campaign_calls cc
+       JOIN agent_prompt_versions v ON v.id = cc.prompt_version_id
+       GROUP BY v.id, v.version_number
+       ORDER BY v.version_number`,
+      [campaignId]
+    );
+
+    return result.rows.map((row: any) => {
+      const attempted = parseInt(row.attempted_calls) || 0;
+      const answered = parseInt(row.answered_calls) || 0;
+      const meetings = parseInt(row.meetings_booked) || 0;
+      return {
+        prompt_version_id: row.prompt_version_id,
+        version_number: row.version_number,
+        variant: row.prompt_version_id === versionAId ? 'A' : row.prompt_version_id === versionBId ? 'B' : null,
+        attempted_calls: attempted,
+        answered_calls: answered,
+        answer_rate: attempted > 0 ? (answered / attempted * 100) : 0,
+        average_lead_score: row.average_lead_score !== null ? parseFloat(row.average_lead_score) : null,
+        meetings_booked: meetings,
+        meeting_booked_rate: answered > 0 ? (meetings / answered * 100) : 0
+      };
+    });
+  }
+
   /**
    * Get active campaigns (scheduled or active status)
    */
@@ -3,6 +3,7 @@ import {
   CallQueueItem, 
   QueueStatus
 } from '../types/campaign';
+import { userEventService } from '../services/userEventService';
 
 // Simple console logger for debugging
 const logDebug = (message: string, data?: any) => {
@@ -103,6 +104,8 @@ export class CallQueueModel {
 
   /**
    * Get next queued call for a user (uses helper function)
+   * Campaign calls are only returned while their campaign is inside today's window, off its
+   * blackout dates, under its daily/hourly caps and past its pace gap.
    */
   static async getNextQueued(userId: string): Promise<CallQueueItem | null> {
     logDebug('getNextQueued called', { userId });
@@ -112,6 +115,8 @@ export class CallQueueModel {
       `SELECT q.id, q.status, q.scheduled_for, q.call_type, q.retry_count,
               c.status as campaign_status, c.first_call_time, c.last_call_time,
               c.campaign_timezone, c.use_custom_timezone,
+              c.weekly_schedule, c.blackout_dates, c.max_calls_per_day,
+              c.max_calls_per_hour, c.call_pace_seconds,
               u.timezone as user_timezone,
               NOW() as db_now,
               CURRENT_TIME as db_current_time
@@ -134,6 +139,9 @@ export class CallQueueModel {
           time_window: `${r.first_call_time}-${r.last_call_time}`,
           campaign_tz: r.campaign_timezone,
           use_custom_tz: r.use_custom_timezone,
+          weekly_schedule: r.weekly_schedule,
+          blackout_dates: r.blackout_dates?.length || 0,
+          caps: `${r.max_calls_per_day ?? '-'}/day ${r.max_calls_per_hour ?? '-'}/hour pace ${r.call_pace_seconds ?? 0}s`,
           user_tz: r.user_timezone,
           db_now: r.db_now,
           db_time: r.db_current_time
@@ -169,12 +177,13 @@ export class CallQueueModel {
     priority: number;
     position: number;
     scheduled_for: Date;
+    contact_timezone?: string | null;
   }): Promise<CallQueueItem> {
     const result = await pool.query(
       `INSERT INTO call_queue (
         user_id, campaign_id, agent_id, contact_id,
-        phone_number, contact_name, user_data, priority, position, scheduled_for
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        phone_number, contact_name, user_data, priority, position, scheduled_for, contact_timezone
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *`,
       [
         data.user_id,
@@ -186,7 +195,8 @@ export class CallQueueModel {
         JSON.stringify(data.user_data),
         data.priority,
         data.position,
-        data.scheduled_for
+        data.scheduled_for,
+        data.contact_timezone || null
       ]
     );
     return result.rows[0];
@@ -207,12 +217,13 @@ export class CallQueueModel {
     priority: number;
     position: number;
     scheduled_for: Date;
+    contact_timezone?: string | null;
   }>): Promise<CallQueueItem[]> {
     if (items.length === 0) return [];
 
     // PostgreSQL has a parameter limit of ~65535
-    // With 10 params per item, we can safely do 6000 items per batch
-    const BATCH_SIZE = 6000;
+    // With 11 params per item, we can safely do 5000 items per batch
+    const BATCH_SIZE = 5000;
     const allResults: CallQueueItem[] = [];
 
     for (let batchStart = 0; batchStart < items.length; batchStart += BATCH_SIZE) {
@@ -225,7 +236,7 @@ export class CallQueueModel {
 
       batch.forEach((item) => {
         const placeholders = [];
-        for (let i = 0; i < 10; i++) {
+        for (let i = 0; i < 11; i++) {
           placeholders.push(`$${++paramCount}`);
         }
         values.push(`(${placeholders.join(', ')})`);
@@ -240,14 +251,15 @@ export class CallQueueModel {
           JSON.stringify(item.user_data),
           item.priority,
           item.position,
-          item.scheduled_for
+          item.scheduled_for,
+          item.contact_timezone || null
         );
       });
 
       const query = `
         INSERT INTO call_queue (
           user_id, campaign_id, agent_id, contact_id,
-          phone_number, contact_name, user_data, priority, position, scheduled_for
+          phone_number, contact_name, user_data, priority, position, scheduled_for, contact_timezone
         ) VALUES ${values.join(', ')}
         RETURNING *
       `;
@@ -320,6 +332,9 @@ export class CallQueueModel {
     `;
 
     const result = await pool.query(query, params);
+    if (result.rows[0]) {
+      this.publishQueueUpdate(result.rows[0]);
+    }
     return result.rows[0] || null;
   }
 
@@ -583,6 +598,7 @@ export class CallQueueModel {
       ]
     );
     
+    this.publishQueueUpdate(result.rows[0]);
     return result.rows[0];
   }
 
@@ -619,6 +635,85 @@ export class CallQueueModel {
     return result.rows[0].position;
   }
 
+  /**
+   * Push a campaign's counters to the owner's event stream
+   * Counters are maintained by call_queue triggers, so read them after the queue update.
+   */
+  static async publishCampaignProgress(campaignId: string, userId: string): Promise<void> {
+    const result = await pool.query(
+      `SELECT status, total_contacts, completed_calls, successful_calls, failed_calls
+       FROM call_campaigns
+       WHERE id = $1 AND user_id = $2`,
+      [campaignId, userId]
+    );
+    const campaign = result.rows[0];
+    if (!campaign) {
+      return;
+    }
+
+    const handled = campaign.completed_calls + campaign.failed_calls;
+    await userEventService.publish(userId, 'campaign.progress', {
+      campaignId,
+      status: campaign.status,
+      totalContacts: campaign.total_contacts,
+      completedCalls: campaign.completed_calls,
+      successfulCalls: campaign.successful_calls,
+      failedCalls: campaign.failed_calls,
+      progressPercentage: campaign.total_contacts > 0
+        ? Math.min(100, Math.round((handled / campaign.total_contacts) * 100))
+        : 0
+    });
+  }
+
+  /**
+   * Push a queue change to the owner's event stream: the item, the user's queue counts
+   * and the positions of their queued direct calls (plus campaign progress)
+   */
+  private static publishQueueUpdate(item: CallQueueItem): void {
+    this.publishQueueEvents(item).catch(error => {
+      logDebug('Failed to publish queue update', {
+        queueItemId: item.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  private static async publishQueueEvents(item: CallQueueItem): Promise<void> {
+    const [counts, directQueue] = await Promise.all([
+      pool.query(
+        `SELECT
+          COUNT(*) FILTER (WHERE status = 'queued')::int AS queued,
+          COUNT(*) FILTER (WHERE status = 'processing')::int AS processing
+         FROM call_queue
+         WHERE user_id = $1`,
+        [item.user_id]
+      ),
+      // Same ordering as get_call_queue_position()
+      pool.query(
+        `SELECT id FROM call_queue
+         WHERE user_id = $1 AND call_type = 'direct' AND status = 'queued'
+         ORDER BY priority DESC, position ASC, created_at ASC
+         LIMIT 20`,
+        [item.user_id]
+      )
+    ]);
+
+    await userEventService.publish(item.user_id, 'queue.updated', {
+      queueItemId: item.id,
+      status: item.status,
+      callType: item.call_type,
+      campaignId: item.campaign_id,
+      callId: item.call_id || null,
+      queued: counts.rows[0].queued,
+      processing: counts.rows[0].processing,
+      directQueue: directQueue.rows.map((row: any, index: number) => ({ queueItemId: row.id, position: index + 1 }))
+    });
+
+    if (item.campaign_id && item.status !== 'queued') {
+      await this.publishCampaignProgress(item.campaign_id, item.user_id);
+    }
+  }
+
   /**
    * Get queue status by type (for monitoring)
    */
@@ -678,6 +773,7 @@ export class CallQueueModel {
     campaign_last_call_time: string;
     campaign_timezone?: string | null;
     use_custom_timezone?: boolean;
+    contact_timezone?: string | null;
   }): Promise<CallQueueItem> {
     // Determine the timezone to use
     // Priority: custom timezone > campaign timezone > UTC
@@ -768,8 +864,8 @@ export class CallQueueModel {
       `INSERT INTO call_queue (
         user_id, campaign_id, agent_id, contact_id,
         phone_number, contact_name, user_data, priority, position, scheduled_for,
-        retry_count, original_queue_id, last_call_outcome, call_type
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'campaign')
+        retry_count, original_queue_id, last_call_outcome, call_type, contact_timezone
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'campaign', $14)
       RETURNING *`,
       [
         data.user_id,
@@ -784,12 +880,89 @@ export class CallQueueModel {
         scheduledFor,
         data.retry_count,
         data.original_queue_id || null,
-        data.last_call_outcome
+        data.last_call_outcome,
+        data.contact_timezone || null
       ]
     );
     return result.rows[0];
   }
 
+  /**
+   * Due queue items of contact-timezone campaigns whose contact is outside the calling window
+   * Rows carry the campaign's calendar and the contact's effective timezone.
+   */
+  static async findDueOutsideContactWindow(limit: number): Promise<Array<{
+    id: string;
+    user_id: string;
+    campaign_id: string;
+    contact_timezone: string;
+    first_call_time: string;
+    last_call_time: string;
+    weekly_schedule: any;
+    blackout_dates: string[];
+  }>> {
+    const result = await pool.query(
+      `SELECT q.id, q.user_id, q.campaign_id, zone.tz as contact_timezone,
+              c.first_call_time, c.last_call_time, c.weekly_schedule,
+              c.blackout_dates::text[] as blackout_dates
+       FROM call_queue q
+       INNER JOIN call_campaigns c ON c.id = q.campaign_id
+       INNER JOIN users u ON u.id = q.user_id
+       LEFT JOIN contacts ct ON ct.id = q.contact_id
+       CROSS JOIN LATERAL (
+         SELECT COALESCE(
+           ct.timezone,
+           q.contact_timezone,
+           CASE WHEN c.use_custom_timezone AND c.campaign_timezone IS NOT NULL
+             THEN c.campaign_timezone ELSE COALESCE(u.timezone, 'UTC') END
+         ) AS tz
+       ) zone
+       WHERE q.status = 'queued'
+         AND q.call_type = 'campaign'
+         AND q.scheduled_for <= NOW()
+         AND c.status = 'active'
+         AND c.use_contact_timezone
+         AND NOT COALESCE(is_campaign_window_open(c, zone.tz, NOW()), false)
+       ORDER BY q.scheduled_for ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Move queued items to new scheduled times (only while still queued)
+   */
+  static async reschedule(items: Array<{ id: string; scheduled_for: Date }>): Promise<number> {
+    if (items.length === 0) return 0;
+
+    const result = await pool.query(
+      `UPDATE call_queue q
+       SET scheduled_for = s.scheduled_for, updated_at = CURRENT_TIMESTAMP
+       FROM UNNEST($1::uuid[], $2::timestamptz[]) AS s(id, scheduled_for)
+       WHERE q.id = s.id AND q.status = 'queued'`,
+      [items.map(item => item.id), items.map(item => item.scheduled_for)]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Count a contact's retries in a campaign that were scheduled after the given outcome
+   */
+  static async countRetriesByOutcome(
+    campaignId: string,
+    contactId: string,
+    outcome: string
+  ): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*)::int as retry_count
+       FROM call_queue
+       WHERE campaign_id = $1 AND contact_id = $2 AND last_call_outcome = $3`,
+      [campaignId, contactId, outcome]
+    );
+    return result.rows[0]?.retry_count ?? 0;
+  }
+
   /**
    * Check if a contact should be retried for a campaign
    */
@@ -1,17 +1,27 @@
 import BaseModel, { BaseModelInterface } from './BaseModel';
+import { ContactEmailStatus } from '../types/emailProvider';
+import { PhoneLineType } from '../utils/phoneNumber';
 
 // Contact model - defines contact data structure
 export interface ContactInterface extends BaseModelInterface {
   id: string;
   user_id: string;
   name: string;
-  phone_number: string;
+  phone_number: string; // E.164
+  phone_country?: string | null; // Region of the phone number (ISO 3166-1 alpha-2)
+  phone_line_type?: PhoneLineType | null;
   email?: string;
   company?: string;
   notes?: string;
   city?: string;
   country?: string;
   business_context?: string;
+  timezone?: string | null; // IANA timezone; null uses the campaign or user timezone
+  email_status?: ContactEmailStatus; // Set by bounce / complaint handling
+  email_status_reason?: string | null;
+  email_status_updated_at?: Date | null;
+  email_soft_bounce_count?: number;
+  custom_fields?: Record<string, string>; // Lead data without a column, filled by lead source mappings
   auto_created_from_call_id?: string;
   is_auto_created: boolean;
   auto_creation_source?: string; // Custom source strings like 'TradeIndia', 'n8n_webhook', etc.
@@ -30,12 +40,15 @@ export interface CreateContactData {
   user_id: string;
   name: string;
   phone_number: string;
+  phone_country?: string | null;
+  phone_line_type?: PhoneLineType | null;
   email?: string;
   company?: string;
   notes?: string;
   city?: string;
   country?: string;
   business_context?: string;
+  custom_fields?: Record<string, string>;
   auto_created_from_call_id?: string;
   is_auto_created?: boolean;
   auto_creation_source?: string; // Custom source strings like 'TradeIndia', 'n8n_webhook', etc.
@@ -51,6 +64,8 @@ export interface CreateContactData {
 export interface UpdateContactData {
   name?: string;
   phone_number?: string;
+  phone_country?: string | null;
+  phone_line_type?: PhoneLineType | null;
   email?: string;
   company?: string;
   notes?: string;
@@ -58,7 +73,13 @@ export interface UpdateContactData {
   country?: string;
   business_context?: string;
   lead_stage?: string | null; // Lead pipeline stage (can be null to clear)
+  timezone?: string | null; // IANA timezone (null to clear)
   lead_stage_updated_at?: Date; // When lead stage was last changed
+  email_status?: ContactEmailStatus;
+  email_status_reason?: string | null;
+  email_status_updated_at?: Date;
+  email_soft_bounce_count?: number;
+  custom_fields?: Record<string, string>;
   tags?: string[];
   auto_creation_source?: string; // Custom source strings like 'TradeIndia', 'n8n_webhook', etc.
   last_contact_at?: Date;
@@ -191,9 +212,9 @@ export class ContactModel extends BaseModel<ContactInterface> {
     const valuePlaceholders: string[] = [];
     
     contactsData.forEach((contact, index) => {
-      const baseIndex = index * 17; // Updated to 17 for lead_stage field
+      const baseIndex = index * 19; // Updated to 19 for phone_country and phone_line_type
       valuePlaceholders.push(
-        `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6}, $${baseIndex + 7}, $${baseIndex + 8}, $${baseIndex + 9}, $${baseIndex + 10}, $${baseIndex + 11}, $${baseIndex + 12}, $${baseIndex + 13}, $${baseIndex + 14}, $${baseIndex + 15}, $${baseIndex + 16}, $${baseIndex + 17})`
+        `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6}, $${baseIndex + 7}, $${baseIndex + 8}, $${baseIndex + 9}, $${baseIndex + 10}, $${baseIndex + 11}, $${baseIndex + 12}, $${baseIndex + 13}, $${baseIndex + 14}, $${baseIndex + 15}, $${baseIndex + 16}, $${baseIndex + 17}, $${baseIndex + 18}, $${baseIndex + 19})`
       );
       values.push(
         contact.user_id,
@@ -212,14 +233,17 @@ export class ContactModel extends BaseModel<ContactInterface> {
         contact.last_contact_at || null,
         contact.call_attempted_busy ?? 0,
         contact.call_attempted_no_answer ?? 0,
-        contact.call_attempted_failed ?? 0
+        contact.call_attempted_failed ?? 0,
+        contact.phone_country || null,
+        contact.phone_line_type || null
       );
     });
 
     const query = `
       INSERT INTO contacts (
         user_id, name, phone_number, email, company, notes, city, country, business_context,
-        is_auto_created, auto_creation_source, lead_stage, tags, last_contact_at, call_attempted_busy, call_attempted_no_answer, call_attempted_failed
+        is_auto_created, auto_creation_source, lead_stage, tags, last_contact_at, call_attempted_busy, call_attempted_no_answer, call_attempted_failed,
+        phone_country, phone_line_type
       ) VALUES ${valuePlaceholders.join(', ')}
       RETURNING id
     `;
@@ -0,0 +1,98 @@
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type CreditReservationStatus = 'held' | 'settled' | 'released';
+
+export interface CreditReservation {
+  id: string;
+  user_id: string;
+  call_id: string;
+  amount: number;
+  status: CreditReservationStatus;
+  settled_amount: number | null;
+  transaction_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+  resolved_at: Date | null;
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Credits held by in-flight calls so concurrent calls cannot overspend a balance
+ * Methods taking a client run inside the caller's transaction (after the user row is locked).
+ */
+export class CreditReservationModel {
+  /**
+   * Total credits currently held for a user, optionally excluding one call's hold
+   */
+  static async getHeldAmount(client: Queryable, userId: string, excludeCallId?: string): Promise<number> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) AS held
+       FROM credit_reservations
+       WHERE user_id = $1 AND status = 'held' AND expires_at > NOW()
+         AND ($2::uuid IS NULL OR call_id <> $2::uuid)`,
+      [userId, excludeCallId || null]
+    );
+    return Number(result.rows[0].held);
+  }
+
+  /**
+   * Hold credits for a call; an existing reservation for the call is returned unchanged
+   */
+  static async hold(
+    client: Queryable,
+    userId: string,
+    callId: string,
+    amount: number,
+    ttlMinutes: number
+  ): Promise<CreditReservation> {
+    const result = await client.query(
+      `INSERT INTO credit_reservations (user_id, call_id, amount, expires_at)
+       VALUES ($1, $2, $3, NOW() + ($4::integer * INTERVAL '1 minute'))
+       ON CONFLICT (call_id) DO NOTHING
+       RETURNING *`,
+      [userId, callId, amount, ttlMinutes]
+    );
+
+    if (result.rows[0]) {
+      return result.rows[0];
+    }
+
+    const existing = await client.query('SELECT * FROM credit_reservations WHERE call_id = $1', [callId]);
+    return existing.rows[0];
+  }
+
+  /**
+   * Mark a call's hold as settled by a usage ledger entry
+   */
+  static async settle(
+    client: Queryable,
+    callId: string,
+    settledAmount: number,
+    transactionId: string | null
+  ): Promise<CreditReservation | null> {
+    const result = await client.query(
+      `UPDATE credit_reservations
+       SET status = 'settled', settled_amount = $2, transaction_id = $3, resolved_at = NOW()
+       WHERE call_id = $1 AND status = 'held'
+       RETURNING *`,
+      [callId, settledAmount, transactionId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Release a call's hold without charging (call failed or was never placed)
+   */
+  static async release(callId: string): Promise<CreditReservation | null> {
+    const result = await pool.query(
+      `UPDATE credit_reservations
+       SET status = 'released', resolved_at = NOW()
+       WHERE call_id = $1 AND status = 'held'
+       RETURNING *`,
+      [callId]
+    );
+    return result.rows[0] || null;
+  }
+}
@@ -6,11 +6,13 @@ export interface CreditTransactionInterface extends BaseModelInterface {
   user_id: string;
   type: 'purchase' | 'usage' | 'bonus' | 'admin_adjustment' | 'refund';
   amount: number;
+  balance_before?: number | null; // Null for entries written before the atomic ledger
   balance_after: number;
   description: string;
   stripe_payment_id?: string;
   call_id?: string;
   created_by?: string; // For admin adjustments
+  idempotency_key?: string | null;
   created_at: Date;
 }
 
@@ -0,0 +1,221 @@
+import { pool } from '../config/database';
+import {
+  EmailProviderName,
+  EmailSenderIdentity,
+  SenderVerificationStatus
+} from '../types/emailProvider';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+// Columns a user may set directly (the SMTP password is stored encrypted by the service)
+const UPDATABLE_COLUMNS = [
+  'from_name',
+  'reply_to',
+  'smtp_host',
+  'smtp_port',
+  'smtp_secure',
+  'smtp_username',
+  'smtp_password_encrypted',
+  'hourly_limit',
+  'daily_limit'
+] as const;
+
+export type SenderIdentityColumns = Partial<Pick<EmailSenderIdentity, typeof UPDATABLE_COLUMNS[number]>>;
+
+/**
+ * Sender identities (address + transport) users send email from
+ */
+export class EmailSenderIdentityModel {
+  static async create(
+    userId: string,
+    provider: EmailProviderName,
+    fromEmail: string,
+    columns: SenderIdentityColumns,
+    verificationStatus: SenderVerificationStatus = 'pending',
+    db: Queryable = pool
+  ): Promise<EmailSenderIdentity> {
+    const result = await db.query(
+      `INSERT INTO email_sender_identities (
+         user_id, provider, from_email, from_name, reply_to,
+         smtp_host, smtp_port, smtp_secure, smtp_username, smtp_password_encrypted,
+         hourly_limit, daily_limit, verification_status, verified_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+         CASE WHEN $13 = 'verified' THEN NOW() ELSE NULL END)
+       RETURNING *`,
+      [
+        userId,
+        provider,
+        fromEmail,
+        columns.from_name ?? null,
+        columns.reply_to ?? null,
+        columns.smtp_host ?? null,
+        columns.smtp_port ?? null,
+        columns.smtp_secure ?? false,
+        columns.smtp_username ?? null,
+        columns.smtp_password_encrypted ?? null,
+        columns.hourly_limit ?? null,
+        columns.daily_limit ?? null,
+        verificationStatus
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(id: string, userId?: string): Promise<EmailSenderIdentity | null> {
+    const result = userId
+      ? await pool.query('SELECT * FROM email_sender_identities WHERE id = $1 AND user_id = $2', [id, userId])
+      : await pool.query('SELECT * FROM email_sender_identities WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByUser(userId: string): Promise<EmailSenderIdentity[]> {
+    const result = await pool.query(
+      `SELECT * FROM email_sender_identities
+       WHERE user_id = $1
+       ORDER BY is_default DESC, created_at`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  static async findDefault(userId: string): Promise<EmailSenderIdentity | null> {
+    const result = await pool.query(
+      'SELECT * FROM email_sender_identities WHERE user_id = $1 AND is_default',
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByAddress(
+    userId: string,
+    provider: EmailProviderName,
+    fromEmail: string
+  ): Promise<EmailSenderIdentity | null> {
+    const result = await pool.query(
+      `SELECT * FROM email_sender_identities
+       WHERE user_id = $1 AND provider = $2 AND LOWER(from_email) = LOWER($3)`,
+      [userId, provider, fromEmail]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByVerificationToken(token: string): Promise<EmailSenderIdentity | null> {
+    const result = await pool.query(
+      'SELECT * FROM email_sender_identities WHERE verification_token = $1',
+      [token]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update user-editable settings
+   */
+  static async update(id: string, userId: string, columns: SenderIdentityColumns): Promise<EmailSenderIdentity | null> {
+    const sets: string[] = [];
+    const params: any[] = [];
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (columns[column] !== undefined) {
+        params.push(columns[column]);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (sets.length === 0) {
+      return this.findById(id, userId);
+    }
+
+    params.push(id, userId);
+    const result = await pool.query(
+      `UPDATE email_sender_identities
+       SET ${sets.join(', ')}, updated_at = NOW()
+       WHERE id = $${params.length - 1} AND user_id = $${params.length}
+       RETURNING *`,
+      params
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Make an identity the user's default (unsets the previous default)
+   */
+  static async setDefault(id: string, userId: string): Promise<EmailSenderIdentity | null> {
+    return pool.transaction(async (client) => {
+      await client.query(
+        'UPDATE email_sender_identities SET is_default = false, updated_at = NOW() WHERE user_id = $1 AND is_default AND id <> $2',
+        [userId, id]
+      );
+      const result = await client.query(
+        `UPDATE email_sender_identities SET is_default = true, updated_at = NOW()
+         WHERE id = $1 AND user_id = $2
+         RETURNING *`,
+        [id, userId]
+      );
+      return result.rows[0] || null;
+    });
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM email_sender_identities WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Store a new verification token (status back to pending)
+   */
+  static async setVerificationToken(id: string, token: string): Promise<void> {
+    await pool.query(
+      `UPDATE email_sender_identities
+       SET verification_token = $2, verification_status = 'pending', verification_sent_at = NOW(),
+           verified_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [id, token]
+    );
+  }
+
+  static async setVerificationStatus(
+    id: string,
+    status: SenderVerificationStatus,
+    error: string | null = null
+  ): Promise<EmailSenderIdentity | null> {
+    const result = await pool.query(
+      `UPDATE email_sender_identities
+       SET verification_status = $2,
+           verified_at = CASE WHEN $2 = 'verified' THEN NOW() ELSE verified_at END,
+           verification_token = CASE WHEN $2 = 'verified' THEN NULL ELSE verification_token END,
+           last_error = $3,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, status, error]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Emails sent in the last hour and the last 24 hours
+   */
+  static async getUsage(id: string): Promise<{ lastHour: number; lastDay: number }> {
+    const result = await pool.query(
+      `SELECT
+         COALESCE(SUM(sent_count) FILTER (WHERE window_start >= date_trunc('hour', NOW())), 0)::int AS last_hour,
+         COALESCE(SUM(sent_count), 0)::int AS last_day
+       FROM email_sender_usage
+       WHERE sender_identity_id = $1 AND window_start > date_trunc('hour', NOW()) - INTERVAL '24 hours'`,
+      [id]
+    );
+    return { lastHour: result.rows[0].last_hour, lastDay: result.rows[0].last_day };
+  }
+
+  static async recordSend(id: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO email_sender_usage (sender_identity_id, window_start, sent_count)
+       VALUES ($1, date_trunc('hour', NOW()), 1)
+       ON CONFLICT (sender_identity_id, window_start) DO UPDATE SET sent_count = email_sender_usage.sent_count + 1`,
+      [id]
+    );
+  }
+}
@@ -1,5 +1,6 @@
+import { PoolClient } from 'pg';
 import { pool } from '../config/database';
-import { FlowTriggerCondition, FlowAction } from '../types/autoEngagement';
+import { FlowTriggerCondition, FlowAction, TriggerConditionInput } from '../types/autoEngagement';
 
 /**
  * Model for Flow Trigger Conditions
@@ -8,10 +9,11 @@ import { FlowTriggerCondition, FlowAction } from '../types/autoEngagement';
 export class FlowTriggerConditionModel {
   /**
    * Find all conditions for a flow
+   * Returned flat; group membership is given by parent_id.
    */
   static async findByFlowId(flowId: string): Promise<FlowTriggerCondition[]> {
     const result = await pool.query(
-      `SELECT * FROM flow_trigger_conditions WHERE flow_id = $1 ORDER BY created_at`,
+      `SELECT * FROM flow_trigger_conditions WHERE flow_id = $1 ORDER BY condition_order, created_at`,
       [flowId]
     );
     return result.rows;
@@ -24,40 +26,39 @@ export class FlowTriggerConditionModel {
     flowId: string,
     conditionType: string,
     conditionOperator: string,
-    conditionValue: string | null
+    conditionValue: string | null,
+    options: { parentId?: string | null; fieldName?: string | null; conditionOrder?: number } = {}
   ): Promise<FlowTriggerCondition> {
     const result = await pool.query(
-      `INSERT INTO flow_trigger_conditions (flow_id, condition_type, condition_operator, condition_value)
-       VALUES ($1, $2, $3, $4)
-       RETURNING *`,
-      [flowId, conditionType, conditionOperator, conditionValue]
+      `INSERT INTO flow_trigger_conditions (
+        flow_id, parent_id, condition_type, condition_operator, condition_value, field_name, condition_order
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        flowId,
+        options.parentId || null,
+        conditionType,
+        conditionOperator,
+        conditionValue,
+        options.fieldName || null,
+        options.conditionOrder || 0
+      ]
     );
     return result.rows[0];
   }
 
   /**
-   * Create multiple conditions in a transaction
+   * Create multiple conditions (including nested groups) in a transaction
    */
-  static async createBatch(conditions: Array<{
-    flowId: string;
-    conditionType: string;
-    conditionOperator: string;
-    conditionValue: string | null;
-  }>): Promise<FlowTriggerCondition[]> {
+  static async createBatch(
+    flowId: string,
+    conditions: TriggerConditionInput[]
+  ): Promise<FlowTriggerCondition[]> {
     const client = await pool.getClient();
     try {
       await client.query('BEGIN');
 
-      const created: FlowTriggerCondition[] = [];
-      for (const cond of conditions) {
-        const result = await client.query(
-          `INSERT INTO flow_trigger_conditions (flow_id, condition_type, condition_operator, condition_value)
-           VALUES ($1, $2, $3, $4)
-           RETURNING *`,
-          [cond.flowId, cond.conditionType, cond.conditionOperator, cond.conditionValue]
-        );
-        created.push(result.rows[0]);
-      }
+      const created = await this.insertConditions(client, flowId, conditions, null);
 
       await client.query('COMMIT');
       return created;
@@ -85,33 +86,20 @@ export class FlowTriggerConditionModel {
    */
   static async replaceConditions(
     flowId: string,
-    conditions: Array<{
-      conditionType: string;
-      conditionOperator: string;
-      conditionValue: string | null;
-    }>
+    conditions: TriggerConditionInput[]
   ): Promise<FlowTriggerCondition[]> {
     const client = await pool.getClient();
     try {
       await client.query('BEGIN');
 
-      // Delete existing conditions
+      // Delete existing conditions (group children cascade)
       await client.query(
         `DELETE FROM flow_trigger_conditions WHERE flow_id = $1`,
         [flowId]
       );
 
       // Insert new conditions
-      const created: FlowTriggerCondition[] = [];
-      for (const cond of conditions) {
-        const result = await client.query(
-          `INSERT INTO flow_trigger_conditions (flow_id, condition_type, condition_operator, condition_value)
-           VALUES ($1, $2, $3, $4)
-           RETURNING *`,
-          [flowId, cond.conditionType, cond.conditionOperator, cond.conditionValue]
-        );
-        created.push(result.rows[0]);
-      }
+      const created = await this.insertConditions(client, flowId, conditions, null);
 
       await client.query('COMMIT');
       return created;
@@ -122,6 +110,44 @@ export class FlowTriggerConditionModel {
       client.release();
     }
   }
+
+  /**
+   * Insert conditions and, recursively, the children of group conditions
+   */
+  private static async insertConditions(
+    client: PoolClient,
+    flowId: string,
+    conditions: TriggerConditionInput[],
+    parentId: string | null
+  ): Promise<FlowTriggerCondition[]> {
+    const created: FlowTriggerCondition[] = [];
+
+    for (const [index, cond] of conditions.entries()) {
+      const result = await client.query(
+        `INSERT INTO flow_trigger_conditions (
+          flow_id, parent_id, condition_type, condition_operator, condition_value, field_name, condition_order
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [
+          flowId,
+          parentId,
+          cond.condition_type,
+          cond.condition_operator,
+          cond.condition_type === 'group' ? null : cond.condition_value,
+          cond.field_name || null,
+          index
+        ]
+      );
+      const condition: FlowTriggerCondition = result.rows[0];
+      created.push(condition);
+
+      if (cond.condition_type === 'group' && cond.conditions) {
+        created.push(...await this.insertConditions(client, flowId, cond.conditions, condition.id));
+      }
+    }
+
+    return created;
+  }
 }
 
 /**
@@ -214,13 +214,80 @@ export class FlowExecutionModel {
   }
 
   /**
-   * Cancel a running execution
+   * Suspend an execution until a later time (wait action)
+   * The result of the last executed action is kept in metadata so that
+   * conditional actions can still be evaluated after the flow resumes.
+   * When awaitingCallId is given the execution waits for that call's outcome
+   * and nextRunAt acts as the timeout.
+   */
+  static async scheduleResume(
+    id: string,
+    resumeActionOrder: number,
+    nextRunAt: Date,
+    lastActionResult: any = null,
+    awaitingCallId: string | null = null
+  ): Promise<FlowExecution | null> {
+    const result = await pool.query(
+      `UPDATE flow_executions 
+       SET status = 'waiting',
+           next_run_at = $1,
+           resume_action_order = $2,
+           awaiting_call_id = $3,
+           metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('last_action_result', $4::jsonb)
+       WHERE id = $5 AND status = 'running'
+       RETURNING *`,
+      [nextRunAt, resumeActionOrder, awaitingCallId, JSON.stringify(lastActionResult), id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim the waiting executions that are waiting on a call's outcome
+   * Only one caller (webhook or timeout poller) can move an execution back to 'running'.
+   */
+  static async claimByAwaitingCall(callId: string): Promise<FlowExecution[]> {
+    const result = await pool.query(
+      `UPDATE flow_executions 
+       SET status = 'running', next_run_at = NULL, awaiting_call_id = NULL
+       WHERE awaiting_call_id = $1 AND status = 'waiting'
+       RETURNING *`,
+      [callId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Claim waiting executions that are due for resumption
+   * Uses SKIP LOCKED so several server instances can poll safely - each
+   * execution is moved back to 'running' by exactly one of them.
+   * awaiting_call_id is left in place so the caller can tell a call outcome
+   * timeout from a finished wait step.
+   */
+  static async claimDueExecutions(limit: number = 50): Promise<FlowExecution[]> {
+    const result = await pool.query(
+      `UPDATE flow_executions 
+       SET status = 'running', next_run_at = NULL
+       WHERE id IN (
+         SELECT id FROM flow_executions
+         WHERE status = 'waiting' AND next_run_at <= NOW()
+         ORDER BY next_run_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Cancel a running or waiting execution
    */
   static async cancel(id: string, userId: string): Promise<FlowExecution | null> {
     const result = await pool.query(
       `UPDATE flow_executions 
-       SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP
-       WHERE id = $1 AND user_id = $2 AND status = 'running'
+       SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP, next_run_at = NULL, awaiting_call_id = NULL
+       WHERE id = $1 AND user_id = $2 AND status IN ('running', 'waiting')
        RETURNING *`,
       [id, userId]
     );
@@ -237,6 +304,7 @@ export class FlowExecutionModel {
         COUNT(*) FILTER (WHERE status = 'completed') as completed,
         COUNT(*) FILTER (WHERE status = 'failed') as failed,
         COUNT(*) FILTER (WHERE status = 'running') as running,
+        COUNT(*) FILTER (WHERE status = 'waiting') as waiting,
         COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled,
         COUNT(*) FILTER (WHERE status = 'skipped') as skipped
       FROM flow_executions
@@ -363,6 +431,60 @@ export class FlowActionLogModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Mark a wait action as waiting until the given time
+   */
+  static async markAsWaiting(
+    id: string,
+    scheduledFor: Date,
+    resultData?: any
+  ): Promise<FlowActionLog | null> {
+    const result = await pool.query(
+      `UPDATE flow_action_logs 
+       SET status = 'waiting',
+           scheduled_for = $1,
+           result_data = $2
+       WHERE id = $3
+       RETURNING *`,
+      [scheduledFor, resultData ? JSON.stringify(resultData) : null, id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Complete the waiting action log(s) of an execution when it resumes
+   * resultData (e.g. the resolved call outcome) is merged into the stored result.
+   */
+  static async completeWaiting(executionId: string, resultData: any = {}): Promise<FlowActionLog[]> {
+    const result = await pool.query(
+      `UPDATE flow_action_logs 
+       SET status = 'success',
+           completed_at = CURRENT_TIMESTAMP,
+           result_data = COALESCE(result_data, '{}'::jsonb)
+             || jsonb_build_object('waited', true, 'resumed_at', CURRENT_TIMESTAMP)
+             || $2::jsonb
+       WHERE flow_execution_id = $1 AND status = 'waiting'
+       RETURNING *`,
+      [executionId, JSON.stringify(resultData)]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Skip the waiting action log(s) of an execution (e.g. when it is cancelled)
+   */
+  static async skipWaiting(executionId: string, reason: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE flow_action_logs 
+       SET status = 'skipped',
+           completed_at = CURRENT_TIMESTAMP,
+           skip_reason = $1
+       WHERE flow_execution_id = $2 AND status = 'waiting'`,
+      [reason, executionId]
+    );
+    return result.rowCount || 0;
+  }
+
   /**
    * Get action statistics for a flow
    */
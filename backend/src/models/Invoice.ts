@@ -0,0 +1,196 @@
+import { pool } from '../config/database';
+
+export type InvoiceStatus = 'issued' | 'void';
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number; // Tax-inclusive
+}
+
+export interface InvoiceTaxLine {
+  name: string; // e.g. CGST, SGST, IGST, VAT
+  rate_percent: number;
+  amount: number;
+}
+
+export interface InvoiceParty {
+  name: string;
+  tax_id?: string | null;
+  address_lines: string[];
+  email?: string | null;
+}
+
+export interface Invoice {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  credit_transaction_id: string;
+  status: InvoiceStatus;
+  currency: string;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  line_items: InvoiceLineItem[];
+  tax_lines: InvoiceTaxLine[];
+  billing_details: InvoiceParty;
+  seller_details: InvoiceParty;
+  issued_at: Date;
+  regenerated_at: Date | null;
+  voided_at: Date | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type InvoiceContent = Pick<
+  Invoice,
+  'currency' | 'subtotal' | 'tax_total' | 'total' | 'line_items' | 'tax_lines' | 'billing_details' | 'seller_details'
+>;
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+/**
+ * Invoices issued for credit purchases
+ */
+export class InvoiceModel {
+  /**
+   * Take the account's next invoice number (gapless per account, never reused)
+   */
+  static async nextNumber(client: Queryable, userId: string): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO invoice_sequences (user_id, last_number)
+       VALUES ($1, 1)
+       ON CONFLICT (user_id) DO UPDATE SET last_number = invoice_sequences.last_number + 1
+       RETURNING last_number`,
+      [userId]
+    );
+    return result.rows[0].last_number;
+  }
+
+  static async create(
+    client: Queryable,
+    userId: string,
+    invoiceNumber: string,
+    creditTransactionId: string,
+    content: InvoiceContent
+  ): Promise<Invoice> {
+    const result = await client.query(
+      `INSERT INTO invoices
+        (user_id, invoice_number, credit_transaction_id, currency, subtotal, tax_total, total,
+         line_items, tax_lines, billing_details, seller_details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        userId,
+        invoiceNumber,
+        creditTransactionId,
+        content.currency,
+        content.subtotal,
+        content.tax_total,
+        content.total,
+        JSON.stringify(content.line_items),
+        JSON.stringify(content.tax_lines),
+        JSON.stringify(content.billing_details),
+        JSON.stringify(content.seller_details)
+      ]
+    );
+    return normalizeInvoice(result.rows[0]);
+  }
+
+  /**
+   * Replace an issued invoice's content, keeping its number
+   */
+  static async replaceContent(client: Queryable, id: string, content: InvoiceContent): Promise<Invoice | null> {
+    const result = await client.query(
+      `UPDATE invoices
+       SET currency = $2, subtotal = $3, tax_total = $4, total = $5, line_items = $6, tax_lines = $7,
+           billing_details = $8, seller_details = $9, regenerated_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'issued'
+       RETURNING *`,
+      [
+        id,
+        content.currency,
+        content.subtotal,
+        content.tax_total,
+        content.total,
+        JSON.stringify(content.line_items),
+        JSON.stringify(content.tax_lines),
+        JSON.stringify(content.billing_details),
+        JSON.stringify(content.seller_details)
+      ]
+    );
+    return result.rows[0] ? normalizeInvoice(result.rows[0]) : null;
+  }
+
+  static async markVoid(id: string, voidedBy: string | null, reason: string): Promise<Invoice | null> {
+    const result = await pool.query(
+      `UPDATE invoices
+       SET status = 'void', voided_at = NOW(), voided_by = $2, void_reason = $3, updated_at = NOW()
+       WHERE id = $1 AND status = 'issued'
+       RETURNING *`,
+      [id, voidedBy, reason]
+    );
+    return result.rows[0] ? normalizeInvoice(result.rows[0]) : null;
+  }
+
+  /**
+   * Find an invoice, optionally scoped to its owner
+   */
+  static async findById(id: string, userId?: string): Promise<Invoice | null> {
+    const result = await pool.query(
+      `SELECT * FROM invoices WHERE id = $1 ${userId ? 'AND user_id = $2' : ''}`,
+      userId ? [id, userId] : [id]
+    );
+    return result.rows[0] ? normalizeInvoice(result.rows[0]) : null;
+  }
+
+  static async findIssuedByTransaction(db: Queryable, creditTransactionId: string): Promise<Invoice | null> {
+    const result = await db.query(
+      `SELECT * FROM invoices WHERE credit_transaction_id = $1 AND status = 'issued'`,
+      [creditTransactionId]
+    );
+    return result.rows[0] ? normalizeInvoice(result.rows[0]) : null;
+  }
+
+  static async list(
+    filters: { userId?: string; status?: InvoiceStatus },
+    limit: number,
+    offset: number
+  ): Promise<{ invoices: Invoice[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`user_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows, count] = await Promise.all([
+      pool.query(
+        `SELECT * FROM invoices ${where} ORDER BY issued_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total FROM invoices ${where}`, params)
+    ]);
+
+    return { invoices: rows.rows.map(normalizeInvoice), total: count.rows[0].total };
+  }
+}
+
+// DECIMAL columns come back from pg as strings
+function normalizeInvoice(row: any): Invoice {
+  return {
+    ...row,
+    subtotal: Number(row.subtotal),
+    tax_total: Number(row.tax_total),
+    total: Number(row.total)
+  };
+}
@@ -0,0 +1,221 @@
+import { pool } from '../config/database';
+import {
+  LeadFieldMapping,
+  LeadSource,
+  LeadSourceAuthMode,
+  LeadSourcePresetName,
+  LeadSourceRequest,
+  LeadSourceRequestStatus,
+  LeadSourceSettings
+} from '../types/leadSource';
+
+// Columns a user may change after creating a source (the secret is rotated separately)
+const UPDATABLE_COLUMNS = [
+  'name',
+  'auth_mode',
+  'signature_header',
+  'field_mapping',
+  'source_label',
+  'settings',
+  'is_active'
+] as const;
+
+export type LeadSourceColumns = Partial<Pick<LeadSource, typeof UPDATABLE_COLUMNS[number]>>;
+
+// JSONB columns are passed as JSON text
+const JSON_COLUMNS: ReadonlyArray<string> = ['field_mapping', 'settings'];
+
+export interface NewLeadSource {
+  name: string;
+  preset: LeadSourcePresetName;
+  endpoint_token: string;
+  auth_mode: LeadSourceAuthMode;
+  secret_encrypted: string;
+  signature_header: string;
+  field_mapping: LeadFieldMapping[];
+  source_label: string;
+  settings: LeadSourceSettings;
+  is_active: boolean;
+}
+
+export interface NewLeadSourceRequest {
+  method: string;
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  body: unknown;
+  signature_valid: boolean | null;
+  status: LeadSourceRequestStatus;
+  error_message?: string | null;
+  leads_received?: number;
+  contacts_created?: number;
+  contacts_updated?: number;
+  contact_ids?: string[];
+  replay_of?: string | null;
+  processing_time_ms?: number | null;
+}
+
+/**
+ * Inbound lead endpoints and the requests they received
+ */
+export class LeadSourceModel {
+  static async create(userId: string, source: NewLeadSource): Promise<LeadSource> {
+    const result = await pool.query(
+      `INSERT INTO lead_sources (
+         user_id, name, preset, endpoint_token, auth_mode, secret_encrypted,
+         signature_header, field_mapping, source_label, settings, is_active
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        userId,
+        source.name,
+        source.preset,
+        source.endpoint_token,
+        source.auth_mode,
+        source.secret_encrypted,
+        source.signature_header,
+        JSON.stringify(source.field_mapping),
+        source.source_label,
+        JSON.stringify(source.settings),
+        source.is_active
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(id: string, userId: string): Promise<LeadSource | null> {
+    const result = await pool.query('SELECT * FROM lead_sources WHERE id = $1 AND user_id = $2', [id, userId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByUser(userId: string): Promise<LeadSource[]> {
+    const result = await pool.query(
+      'SELECT * FROM lead_sources WHERE user_id = $1 ORDER BY created_at',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  static async findByEndpointToken(token: string): Promise<LeadSource | null> {
+    const result = await pool.query('SELECT * FROM lead_sources WHERE endpoint_token = $1', [token]);
+    return result.rows[0] || null;
+  }
+
+  static async findByName(userId: string, name: string): Promise<LeadSource | null> {
+    const result = await pool.query(
+      'SELECT * FROM lead_sources WHERE user_id = $1 AND LOWER(name) = LOWER($2)',
+      [userId, name]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update user-editable settings
+   */
+  static async update(id: string, userId: string, columns: LeadSourceColumns): Promise<LeadSource | null> {
+    const sets: string[] = [];
+    const params: any[] = [];
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (columns[column] !== undefined) {
+        params.push(JSON_COLUMNS.includes(column) ? JSON.stringify(columns[column]) : columns[column]);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (sets.length === 0) {
+      return this.findById(id, userId);
+    }
+
+    params.push(id, userId);
+    const result = await pool.query(
+      `UPDATE lead_sources
+       SET ${sets.join(', ')}
+       WHERE id = $${params.length - 1} AND user_id = $${params.length}
+       RETURNING *`,
+      params
+    );
+    return result.rows[0] || null;
+  }
+
+  static async setSecret(id: string, userId: string, secretEncrypted: string): Promise<LeadSource | null> {
+    const result = await pool.query(
+      'UPDATE lead_sources SET secret_encrypted = $3 WHERE id = $1 AND user_id = $2 RETURNING *',
+      [id, userId, secretEncrypted]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async markReceived(id: string): Promise<void> {
+    await pool.query('UPDATE lead_sources SET last_received_at = NOW() WHERE id = $1', [id]);
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM lead_sources WHERE id = $1 AND user_id = $2', [id, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async logRequest(source: LeadSource, request: NewLeadSourceRequest): Promise<LeadSourceRequest> {
+    const result = await pool.query(
+      `INSERT INTO lead_source_requests (
+         lead_source_id, user_id, method, headers, query, body, signature_valid, status, error_message,
+         leads_received, contacts_created, contacts_updated, contact_ids, replay_of, processing_time_ms
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13::uuid[], $14, $15)
+       RETURNING *`,
+      [
+        source.id,
+        source.user_id,
+        request.method,
+        JSON.stringify(request.headers),
+        JSON.stringify(request.query),
+        request.body === undefined ? null : JSON.stringify(request.body),
+        request.signature_valid,
+        request.status,
+        request.error_message ?? null,
+        request.leads_received ?? 0,
+        request.contacts_created ?? 0,
+        request.contacts_updated ?? 0,
+        request.contact_ids ?? [],
+        request.replay_of ?? null,
+        request.processing_time_ms ?? null
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findRequest(id: string, sourceId: string, userId: string): Promise<LeadSourceRequest | null> {
+    const result = await pool.query(
+      'SELECT * FROM lead_source_requests WHERE id = $1 AND lead_source_id = $2 AND user_id = $3',
+      [id, sourceId, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Requests received by a source, newest first
+   */
+  static async listRequests(
+    sourceId: string,
+    userId: string,
+    options: { status?: LeadSourceRequestStatus; limit: number; offset: number }
+  ): Promise<{ requests: LeadSourceRequest[]; total: number }> {
+    const params: any[] = [sourceId, userId];
+    let where = 'lead_source_id = $1 AND user_id = $2';
+    if (options.status) {
+      params.push(options.status);
+      where += ` AND status = $${params.length}`;
+    }
+
+    const [rows, count] = await Promise.all([
+      pool.query(
+        `SELECT * FROM lead_source_requests
+         WHERE ${where}
+         ORDER BY received_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, options.limit, options.offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total FROM lead_source_requests WHERE ${where}`, params)
+    ]);
+
+    return { requests: rows.rows, total: count.rows[0]?.total ?? 0 };
+  }
+}
@@ -0,0 +1,180 @@
+import { pool } from '../config/database';
+import { ReportDefinition, ReportFormat, ReportRunStatus, SavedReport } from '../types/report';
+
+export interface SavedReportSchedule {
+  cron: string;
+  timezone: string;
+  format: ReportFormat;
+  recipients: string[];
+  enabled: boolean;
+  nextRunAt: Date | null;
+}
+
+export interface CreateSavedReportParams {
+  userId: string;
+  name: string;
+  description?: string | null;
+  definition: ReportDefinition;
+  schedule?: SavedReportSchedule | null;
+}
+
+export interface UpdateSavedReportParams {
+  name?: string;
+  description?: string | null;
+  definition?: ReportDefinition;
+  schedule?: SavedReportSchedule | null; // null removes the schedule
+}
+
+/**
+ * Custom report definitions saved per user, with an optional email schedule
+ */
+export class SavedReportModel {
+  /**
+   * Create a saved report
+   */
+  static async create(params: CreateSavedReportParams): Promise<SavedReport> {
+    const schedule = params.schedule || null;
+    const result = await pool.query(
+      `INSERT INTO saved_reports
+        (user_id, name, description, definition, schedule_cron, schedule_timezone, schedule_format,
+         schedule_recipients, schedule_enabled, next_run_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        params.userId,
+        params.name,
+        params.description || null,
+        JSON.stringify(params.definition),
+        schedule?.cron || null,
+        schedule?.timezone || 'UTC',
+        schedule?.format || 'csv',
+        schedule?.recipients || [],
+        schedule?.enabled || false,
+        schedule?.nextRunAt || null
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  static async findById(id: string, userId: string): Promise<SavedReport | null> {
+    const result = await pool.query(
+      'SELECT * FROM saved_reports WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByUser(userId: string): Promise<SavedReport[]> {
+    const result = await pool.query(
+      'SELECT * FROM saved_reports WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  static async countByUser(userId: string): Promise<number> {
+    const result = await pool.query(
+      'SELECT COUNT(*)::int AS total FROM saved_reports WHERE user_id = $1',
+      [userId]
+    );
+    return result.rows[0].total;
+  }
+
+  /**
+   * Update a saved report (only provided fields)
+   */
+  static async update(id: string, userId: string, params: UpdateSavedReportParams): Promise<SavedReport | null> {
+    const updates: string[] = ['updated_at = CURRENT_TIMESTAMP'];
+    const values: any[] = [id, userId];
+
+    if (params.name !== undefined) {
+      values.push(params.name);
+      updates.push(`name = $${values.length}`);
+    }
+    if (params.description !== undefined) {
+      values.push(params.description);
+      updates.push(`description = $${values.length}`);
+    }
+    if (params.definition !== undefined) {
+      values.push(JSON.stringify(params.definition));
+      updates.push(`definition = $${values.length}`);
+    }
+    if (params.schedule !== undefined) {
+      const schedule = params.schedule;
+      values.push(
+        schedule?.cron || null,
+        schedule?.timezone || 'UTC',
+        schedule?.format || 'csv',
+        schedule?.recipients || [],
+        schedule?.enabled || false,
+        schedule?.nextRunAt || null
+      );
+      const base = values.length - 6;
+      updates.push(
+        `schedule_cron = $${base + 1}`,
+        `schedule_timezone = $${base + 2}`,
+        `schedule_format = $${base + 3}`,
+        `schedule_recipients = $${base + 4}`,
+        `schedule_enabled = $${base + 5}`,
+        `next_run_at = $${base + 6}`
+      );
+    }
+
+    const result = await pool.query(
+      `UPDATE saved_reports SET ${updates.join(', ')}
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM saved_reports WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Claim scheduled reports that are due
+   * next_run_at is pushed out by a lease so other replicas skip them; the caller
+   * sets the real next run with recordRun (a crashed run is retried after the lease).
+   */
+  static async claimDueReports(limit: number, leaseMinutes: number): Promise<SavedReport[]> {
+    const result = await pool.query(
+      `UPDATE saved_reports
+       SET next_run_at = NOW() + ($2::integer * INTERVAL '1 minute')
+       WHERE id IN (
+         SELECT id FROM saved_reports
+         WHERE schedule_enabled = true AND next_run_at <= NOW()
+         ORDER BY next_run_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, leaseMinutes]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record the outcome of a scheduled run and when it runs next
+   */
+  static async recordRun(
+    id: string,
+    status: ReportRunStatus,
+    error: string | null,
+    nextRunAt: Date | null
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE saved_reports
+       SET last_run_at = NOW(), last_run_status = $2, last_run_error = $3, next_run_at = $4
+       WHERE id = $1`,
+      [id, status, error, nextRunAt]
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { pool } from '../config/database';
+import {
+  SuppressionEntry,
+  SuppressionAuditLogEntry,
+  SuppressionAuditAction,
+  SuppressionActor,
+  SuppressionChannel,
+  SuppressionReason,
+  SuppressionSource
+} from '../types/suppression';
+
+export interface CreateSuppressionEntryParams {
+  userId: string;
+  phoneNumber?: string | null;  // Already normalized (+<digits>)
+  email?: string | null;        // Already lower-cased
+  reason: SuppressionReason;
+  source: SuppressionSource;
+  notes?: string | null;
+  actor: SuppressionActor;
+}
+
+export interface CreateSuppressionAuditParams {
+  userId: string;
+  action: SuppressionAuditAction;
+  phoneNumber?: string | null;
+  email?: string | null;
+  reason?: SuppressionReason | null;
+  source?: SuppressionSource | null;
+  channel?: SuppressionChannel | null;
+  actor: SuppressionActor;
+  details?: Record<string, any>;
+}
+
+/**
+ * Do-not-call / opt-out list entries and their audit trail
+ */
+export class SuppressionListModel {
+  /**
+   * Add an entry
+   * @returns the new entry, or null if the phone number / email is already on the list
+   */
+  static async create(params: CreateSuppressionEntryParams): Promise<SuppressionEntry | null> {
+    const result = await pool.query(
+      `INSERT INTO suppression_list
+        (user_id, phone_number, email, reason, source, notes, created_by_type, created_by_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [
+        params.userId,
+        params.phoneNumber || null,
+        params.email || null,
+        params.reason,
+        params.source,
+        params.notes || null,
+        params.actor.type,
+        params.actor.id || null
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List entries, newest first
+   */
+  static async findByUser(
+    userId: string,
+    options: { search?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ entries: SuppressionEntry[]; total: number }> {
+    const params: any[] = [userId];
+    let where = 'WHERE user_id = $1';
+
+    if (options.search) {
+      params.push(`%${options.search.toLowerCase()}%`);
+      where += ` AND (phone_number LIKE $2 OR email LIKE $2)`;
+    }
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*)::int AS total FROM suppression_list ${where}`,
+      params
+    );
+
+    let query = `SELECT * FROM suppression_list ${where} ORDER BY created_at DESC`;
+    if (options.limit !== undefined) {
+      params.push(options.limit, options.offset || 0);
+      query += ` LIMIT $${params.length - 1} OFFSET $${params.length}`;
+    }
+
+    const result = await pool.query(query, params);
+
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Entries matching any of the given phone numbers or emails
+   */
+  static async findMatches(
+    userId: string,
+    phoneNumbers: string[],
+    emails: string[]
+  ): Promise<SuppressionEntry[]> {
+    if (phoneNumbers.length === 0 && emails.length === 0) {
+      return [];
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM suppression_list
+       WHERE user_id = $1
+         AND (phone_number = ANY($2::text[]) OR email = ANY($3::text[]))`,
+      [userId, phoneNumbers, emails]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Delete an entry
+   * @returns the deleted entry, or null if it does not belong to the user
+   */
+  static async delete(id: string, userId: string): Promise<SuppressionEntry | null> {
+    const result = await pool.query(
+      'DELETE FROM suppression_list WHERE id = $1 AND user_id = $2 RETURNING *',
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record an audit log entry
+   */
+  static async createAuditEntry(params: CreateSuppressionAuditParams): Promise<void> {
+    await pool.query(
+      `INSERT INTO suppression_audit_log
+        (user_id, action, phone_number, email, reason, source, channel, actor_type, actor_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        params.userId,
+        params.action,
+        params.phoneNumber || null,
+        params.email || null,
+        params.reason || null,
+        params.source || null,
+        params.channel || null,
+        params.actor.type,
+        params.actor.id || null,
+        JSON.stringify(params.details || {})
+      ]
+    );
+  }
+
+  /**
+   * Audit log, newest first
+   */
+  static async getAuditLog(
+    userId: string,
+    options: { action?: SuppressionAuditAction; limit?: number; offset?: number } = {}
+  ): Promise<{ entries: SuppressionAuditLogEntry[]; total: number }> {
+    const params: any[] = [userId];
+    let where = 'WHERE user_id = $1';
+
+    if (options.action) {
+      params.push(options.action);
+      where += ' AND action = $2';
+    }
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*)::int AS total FROM suppression_audit_log ${where}`,
+      params
+    );
+
+    params.push(options.limit || 50, options.offset || 0);
+    const result = await pool.query(
+      `SELECT * FROM suppression_audit_log ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+}
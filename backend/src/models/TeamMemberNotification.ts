@@ -0,0 +1,100 @@
+import { pool } from '../config/database';
+
+export type TeamMemberNotificationType = 'lead_assigned';
+
+export interface TeamMemberNotification {
+  id: string;
+  tenant_user_id: string;
+  team_member_id: string;
+  contact_id: string | null;
+  notification_type: TeamMemberNotificationType;
+  message: string;
+  notification_data: Record<string, any>;
+  is_read: boolean;
+  created_at: Date;
+}
+
+export interface CreateTeamMemberNotificationParams {
+  tenantUserId: string;
+  teamMemberId: string;
+  contactId?: string | null;
+  notificationType: TeamMemberNotificationType;
+  message: string;
+  notificationData?: Record<string, any>;
+}
+
+/**
+ * In-app notifications for team members
+ * Shown in the notification dropdown when the team member is logged in.
+ */
+export class TeamMemberNotificationModel {
+  /**
+   * Create a notification for a team member
+   */
+  static async create(params: CreateTeamMemberNotificationParams): Promise<TeamMemberNotification> {
+    const result = await pool.query(
+      `INSERT INTO team_member_notifications
+        (tenant_user_id, team_member_id, contact_id, notification_type, message, notification_data)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        params.tenantUserId,
+        params.teamMemberId,
+        params.contactId || null,
+        params.notificationType,
+        params.message,
+        JSON.stringify(params.notificationData || {})
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get recent notifications for a team member
+   */
+  static async getByTeamMember(
+    teamMemberId: string,
+    limit: number = 20
+  ): Promise<TeamMemberNotification[]> {
+    const result = await pool.query(
+      `SELECT * FROM team_member_notifications
+       WHERE team_member_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [teamMemberId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Mark a notification as read
+   * @returns true if the notification belongs to the team member
+   */
+  static async markAsRead(id: string, teamMemberId: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE team_member_notifications
+       SET is_read = true
+       WHERE id = $1 AND team_member_id = $2
+       RETURNING id`,
+      [id, teamMemberId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Mark all notifications of a team member as read
+   */
+  static async markAllAsRead(teamMemberId: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE team_member_notifications
+       SET is_read = true
+       WHERE team_member_id = $1 AND is_read = false`,
+      [teamMemberId]
+    );
+
+    return result.rowCount || 0;
+  }
+}
@@ -36,11 +36,15 @@ export interface UserInterface extends BaseModelInterface {
   google_email?: string | null;
   // Concurrency control
   concurrent_calls_limit?: number;
+  // How far credits may go below zero (null = system default)
+  credit_overdraft_limit?: number | null;
   // Timezone settings
   timezone?: string;
   timezone_auto_detected?: boolean;
   timezone_manually_set?: boolean;
   timezone_updated_at?: Date | null;
+  // Region for phone numbers entered without a country code (ISO 3166-1 alpha-2, null = IN)
+  default_phone_region?: string | null;
   // Custom lead stages
   custom_lead_stages?: CustomLeadStage[];
 }
@@ -145,33 +149,29 @@ export class UserModel extends BaseModel<UserInterface> {
 
   /**
    * Deduct credits from user account
+   * Applied in SQL so concurrent updates cannot overwrite each other (no ledger entry;
+   * use BillingService for billable changes)
    */
   async deductCredits(userId: string, amount: number): Promise<UserInterface | null> {
-    const user = await this.findById(userId);
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    // Allow credits to go negative - removed validation check
-    // if (user.credits < amount) {
-    //   throw new Error('Insufficient credits');
-    // }
-
-    const newCredits = user.credits - amount;
-    return await this.updateCredits(userId, newCredits);
+    return await this.adjustCreditsAtomically(userId, -amount);
   }
 
   /**
    * Add credits to user account
    */
   async addCredits(userId: string, amount: number): Promise<UserInterface | null> {
-    const user = await this.findById(userId);
-    if (!user) {
+    return await this.adjustCreditsAtomically(userId, amount);
+  }
+
+  private async adjustCreditsAtomically(userId: string, delta: number): Promise<UserInterface | null> {
+    const result = await this.query(
+      `UPDATE users SET credits = credits + $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+      [userId, delta]
+    );
+    if (result.rows.length === 0) {
       throw new Error('User not found');
     }
-
-    const newCredits = user.credits + amount;
-    return await this.updateCredits(userId, newCredits);
+    return result.rows[0];
   }
 
   /**
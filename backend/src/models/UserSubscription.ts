@@ -0,0 +1,171 @@
+import { pool } from '../config/database';
+import { BillingPlan, normalizePlan } from './BillingPlan';
+
+export type SubscriptionStatus = 'incomplete' | 'active' | 'past_due' | 'canceled';
+
+export interface UserSubscription {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  status: SubscriptionStatus;
+  current_period_start: Date;
+  current_period_end: Date;
+  included_seconds: number;
+  included_seconds_remaining: number;
+  rollover_seconds_remaining: number;
+  cancel_at_period_end: boolean;
+  stripe_subscription_id: string | null;
+  canceled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SubscriptionWithPlan extends UserSubscription {
+  plan: BillingPlan;
+}
+
+export interface SubscriptionUsage {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  call_id: string;
+  billed_seconds: number;
+  rollover_seconds_used: number;
+  included_seconds_used: number;
+  overage_seconds: number;
+  credits_charged: number;
+  created_at: Date;
+}
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+type SubscriptionFields = Partial<Omit<UserSubscription, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+const LIVE_STATUSES = `('incomplete', 'active', 'past_due')`;
+
+const SELECT_WITH_PLAN = `
+  SELECT s.*, to_jsonb(p.*) AS plan
+  FROM user_subscriptions s
+  JOIN billing_plans p ON p.id = s.plan_id`;
+
+/**
+ * Users' plan subscriptions and the per-call usage drawn from them
+ * Methods taking a client run inside the caller's transaction.
+ */
+export class UserSubscriptionModel {
+  /**
+   * The user's incomplete, active or past-due subscription
+   */
+  static async findLiveByUser(
+    db: Queryable,
+    userId: string,
+    forUpdate = false
+  ): Promise<SubscriptionWithPlan | null> {
+    const result = await db.query(
+      `${SELECT_WITH_PLAN}
+       WHERE s.user_id = $1 AND s.status IN ${LIVE_STATUSES}
+       ${forUpdate ? 'FOR UPDATE OF s' : ''}`,
+      [userId]
+    );
+    return result.rows[0] ? withPlan(result.rows[0]) : null;
+  }
+
+  static async findByStripeSubscriptionId(db: Queryable, stripeSubscriptionId: string): Promise<SubscriptionWithPlan | null> {
+    const result = await db.query(
+      `${SELECT_WITH_PLAN}
+       WHERE s.stripe_subscription_id = $1
+       FOR UPDATE OF s`,
+      [stripeSubscriptionId]
+    );
+    return result.rows[0] ? withPlan(result.rows[0]) : null;
+  }
+
+  /**
+   * Admin-assigned subscriptions whose period has ended (Stripe subscriptions renew on invoice.paid)
+   */
+  static async findDueForRenewal(limit: number): Promise<UserSubscription[]> {
+    const result = await pool.query(
+      `SELECT * FROM user_subscriptions
+       WHERE status = 'active' AND current_period_end <= NOW() AND stripe_subscription_id IS NULL
+       ORDER BY current_period_end ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  static async create(
+    db: Queryable,
+    userId: string,
+    fields: Required<Pick<SubscriptionFields, 'plan_id' | 'status' | 'current_period_start' | 'current_period_end'>> & SubscriptionFields
+  ): Promise<UserSubscription> {
+    const result = await db.query(
+      `INSERT INTO user_subscriptions
+        (user_id, plan_id, status, current_period_start, current_period_end, included_seconds,
+         included_seconds_remaining, rollover_seconds_remaining, stripe_subscription_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        userId,
+        fields.plan_id,
+        fields.status,
+        fields.current_period_start,
+        fields.current_period_end,
+        fields.included_seconds || 0,
+        fields.included_seconds_remaining || 0,
+        fields.rollover_seconds_remaining || 0,
+        fields.stripe_subscription_id || null
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async update(db: Queryable, id: string, fields: SubscriptionFields): Promise<UserSubscription> {
+    const columns = Object.keys(fields).filter(column => (fields as any)[column] !== undefined);
+    const result = await db.query(
+      `UPDATE user_subscriptions
+       SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(', ')}${columns.length ? ',' : ''} updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...columns.map(column => (fields as any)[column])]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Record a call's plan usage; returns null if the call was already recorded
+   */
+  static async recordUsage(
+    db: Queryable,
+    usage: Omit<SubscriptionUsage, 'id' | 'created_at'>
+  ): Promise<SubscriptionUsage | null> {
+    const result = await db.query(
+      `INSERT INTO subscription_usage
+        (subscription_id, user_id, call_id, billed_seconds, rollover_seconds_used,
+         included_seconds_used, overage_seconds, credits_charged)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (call_id) DO NOTHING
+       RETURNING *`,
+      [
+        usage.subscription_id,
+        usage.user_id,
+        usage.call_id,
+        usage.billed_seconds,
+        usage.rollover_seconds_used,
+        usage.included_seconds_used,
+        usage.overage_seconds,
+        usage.credits_charged
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findUsageByCallId(db: Queryable, callId: string): Promise<SubscriptionUsage | null> {
+    const result = await db.query('SELECT * FROM subscription_usage WHERE call_id = $1', [callId]);
+    return result.rows[0] || null;
+  }
+}
+
+function withPlan(row: any): SubscriptionWithPlan {
+  return { ...row, plan: normalizePlan(row.plan) };
+}
@@ -1,12 +1,15 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/adminController';
 import { FieldConfigurationController } from '../controllers/fieldConfigurationController';
+import { BillingPlanController } from '../controllers/billingPlanController';
+import { InvoiceAdminController } from '../controllers/invoiceAdminController';
 import { authenticateToken } from '../middleware/auth';
 import { requireAdmin, requireSuperAdmin, logAdminAction } from '../middleware/adminAuth';
 import phoneNumberRoutes from './phoneNumbers';
 import failureLogsRoutes from './admin/failureLogsRoutes';
 import manualTriggersRoutes from './admin/manualTriggersRoutes';
 import reportsRoutes from './admin/reportsRoutes';
+import jobsRoutes from './admin/jobsRoutes';
 
 const router = Router();
 
@@ -83,6 +86,78 @@ router.put(
   AdminController.updateUserConcurrency
 );
 
+// Subscription plans and per-user plan assignment
+router.get(
+  '/billing-plans',
+  requireAdmin,
+  logAdminAction('LIST_BILLING_PLANS', 'config'),
+  BillingPlanController.getPlans
+);
+
+router.post(
+  '/billing-plans',
+  requireSuperAdmin,
+  logAdminAction('CREATE_BILLING_PLAN', 'config'),
+  BillingPlanController.createPlan
+);
+
+router.put(
+  '/billing-plans/:planId',
+  requireSuperAdmin,
+  logAdminAction('UPDATE_BILLING_PLAN', 'config'),
+  BillingPlanController.updatePlan
+);
+
+router.get(
+  '/users/:userId/subscription',
+  requireAdmin,
+  logAdminAction('VIEW_USER_SUBSCRIPTION', 'user'),
+  BillingPlanController.getUserSubscription
+);
+
+router.put(
+  '/users/:userId/subscription',
+  requireAdmin,
+  logAdminAction('ASSIGN_USER_PLAN', 'user'),
+  BillingPlanController.assignPlan
+);
+
+router.delete(
+  '/users/:userId/subscription',
+  requireAdmin,
+  logAdminAction('CANCEL_USER_SUBSCRIPTION', 'user'),
+  BillingPlanController.cancelUserSubscription
+);
+
+// Invoices for credit purchases
+router.get(
+  '/invoices',
+  requireAdmin,
+  logAdminAction('LIST_INVOICES', 'billing'),
+  InvoiceAdminController.getInvoices
+);
+
+router.get(
+  '/invoices/:invoiceId/download',
+  requireAdmin,
+  logAdminAction('DOWNLOAD_INVOICE', 'billing'),
+  InvoiceAdminController.downloadInvoice
+);
+
+router.post(
+  '/invoices/:invoiceId/regenerate',
+  requireAdmin,
+  logAdminAction('REGENERATE_INVOICE', 'billing'),
+  InvoiceAdminController.regenerateInvoice
+);
+
+router.post(
+  '/invoices/:invoiceId/void',
+  requireSuperAdmin,
+  logAdminAction('VOID_INVOICE', 'billing'),
+  InvoiceAdminController.voidInvoice
+);
+
 // System statistics (admin access required)
 router.get(
   '/stats/system',
@@ -446,6 +521,9 @@ router.use('/failure-logs', failureLogsRoutes);
 // Manual triggers routes (webhook simulation, analysis trigger)
 router.use('/manual-triggers', manualTriggersRoutes);
 
+// Background job queue (scheduled emails, email campaigns)
+router.use('/jobs', jobsRoutes);
+
 // =============================================
 // Field Configuration Routes (Custom Fields)
 // =============================================
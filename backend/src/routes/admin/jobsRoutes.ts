@@ -0,0 +1,148 @@
+import { Router, Request, Response } from 'express';
+import { requireAdmin, logAdminAction } from '../../middleware/adminAuth';
+import { BackgroundJobModel } from '../../models/BackgroundJob';
+import { BackgroundJobStatus, BackgroundJobType } from '../../types/job';
+
+const router = Router();
+
+const JOB_STATUSES: BackgroundJobStatus[] = ['pending', 'running', 'completed', 'dead', 'cancelled'];
+const JOB_TYPES: BackgroundJobType[] = ['scheduled_email', 'email_campaign'];
+
+/**
+ * @route GET /api/admin/jobs
+ * @desc List background jobs (filter by status, job_type, user_id)
+ * @access Admin only
+ */
+router.get('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as BackgroundJobStatus | undefined;
+    const jobType = req.query.job_type as BackgroundJobType | undefined;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `Invalid status. Use one of: ${JOB_STATUSES.join(', ')}` });
+    }
+    if (jobType && !JOB_TYPES.includes(jobType)) {
+      return res.status(400).json({ success: false, message: `Invalid job_type. Use one of: ${JOB_TYPES.join(', ')}` });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+    const { jobs, total } = await BackgroundJobModel.list({
+      status,
+      jobType,
+      userId: (req.query.user_id as string) || undefined,
+      limit,
+      offset
+    });
+
+    return res.json({
+      success: true,
+      data: jobs,
+      pagination: { limit, offset, total, hasMore: offset + jobs.length < total }
+    });
+  } catch (error) {
+    console.error('Error fetching background jobs:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch background jobs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route GET /api/admin/jobs/stats
+ * @desc Job counts per type and status
+ * @access Admin only
+ */
+router.get('/stats', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const stats = await BackgroundJobModel.getStats();
+    res.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Error fetching background job stats:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch background job statistics',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route GET /api/admin/jobs/:id
+ * @desc Get a background job with its payload and last error
+ * @access Admin only
+ */
+router.get('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const job = await BackgroundJobModel.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+    return res.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Error fetching background job:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch background job',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route POST /api/admin/jobs/:id/retry
+ * @desc Queue a dead or cancelled job again
+ * @access Admin only
+ */
+router.post(
+  '/:id/retry',
+  requireAdmin,
+  logAdminAction('RETRY_BACKGROUND_JOB', 'system'),
+  async (req: Request, res: Response) => {
+    try {
+      const job = await BackgroundJobModel.retry(req.params.id);
+      if (!job) {
+        return res.status(409).json({ success: false, message: 'Only dead or cancelled jobs can be retried' });
+      }
+      return res.json({ success: true, data: job });
+    } catch (error) {
+      console.error('Error retrying background job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to retry background job',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/admin/jobs/:id/cancel
+ * @desc Cancel a pending job
+ * @access Admin only
+ */
+router.post(
+  '/:id/cancel',
+  requireAdmin,
+  logAdminAction('CANCEL_BACKGROUND_JOB', 'system'),
+  async (req: Request, res: Response) => {
+    try {
+      const job = await BackgroundJobModel.cancel(req.params.id);
+      if (!job) {
+        return res.status(409).json({ success: false, message: 'Only pending jobs can be cancelled' });
+      }
+      return res.json({ success: true, data: job });
+    } catch (error) {
+      console.error('Error cancelling background job:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to cancel background job',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { AgentController } from '../controllers/agentController';
+import { AgentPromptController } from '../controllers/agentPromptController';
+import { CallVariablesController } from '../controllers/callVariablesController';
 import { authenticateToken, requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { validateAgentOwnership, AgentOwnershipRequest } from '../middleware/agentOwnership';
 
@@ -23,4 +25,15 @@ router.put('/:id', validateAgentOwnership, (req, res) => agentController.updateA
 router.patch('/:id/status', validateAgentOwnership, (req, res) => agentController.updateAgentStatus(req as AgentOwnershipRequest, res));
 router.delete('/:id', validateAgentOwnership, (req, res) => agentController.deleteAgent(req as AgentOwnershipRequest, res));
 
+// Prompt version history and rollback
+router.get('/:id/prompt-versions', validateAgentOwnership, (req, res) => AgentPromptController.listVersions(req as AgentOwnershipRequest, res));
+router.post('/:id/prompt-versions', validateAgentOwnership, (req, res) => AgentPromptController.createVersion(req as AgentOwnershipRequest, res));
+router.get('/:id/prompt-versions/:versionId', validateAgentOwnership, (req, res) => AgentPromptController.getVersion(req as AgentOwnershipRequest, res));
+router.post('/:id/prompt-versions/:versionId/rollback', validateAgentOwnership, (req, res) => AgentPromptController.rollback(req as AgentOwnershipRequest, res));
+
+// Variables sent to the agent with each call
+router.get('/:id/call-variables', validateAgentOwnership, (req, res) => CallVariablesController.getVariables(req as AgentOwnershipRequest, res));
+router.put('/:id/call-variables', validateAgentOwnership, (req, res) => CallVariablesController.updateVariables(req as AgentOwnershipRequest, res));
+router.get('/:id/call-variables/preview', validateAgentOwnership, (req, res) => CallVariablesController.preview(req as AgentOwnershipRequest, res));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { authenticateToken, requireOwner } from '../middleware/auth';
+
+const router = Router();
+
+// API keys act with the account owner's permissions, so only the owner manages them
+router.get('/', authenticateToken, requireOwner, ApiKeyController.getApiKeys);
+router.post('/', authenticateToken, requireOwner, ApiKeyController.createApiKey);
+router.patch('/:id', authenticateToken, requireOwner, ApiKeyController.updateApiKey);
+router.post('/:id/rotate', authenticateToken, requireOwner, ApiKeyController.rotateApiKey);
+router.delete('/:id', authenticateToken, requireOwner, ApiKeyController.revokeApiKey);
+
+export default router;
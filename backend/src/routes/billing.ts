@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { BillingController } from '../controllers/billingController';
 import { authenticateToken, requireAuth, AuthenticatedRequest } from '../middleware/auth';
-import { body, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { configService } from '../services/configService';
 import { chatCreditsService } from '../services/chatCreditsService';
 
@@ -158,6 +158,89 @@ router.get('/pricing', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/billing/plans
+ * List subscription plans
+ */
+router.get('/plans', (req: Request, res: Response) => BillingController.getPlans(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/subscription
+ * Get the user's plan subscription and remaining included minutes
+ */
+router.get('/subscription', (req: Request, res: Response) => BillingController.getSubscription(req as AuthenticatedRequest, res));
+
+/**
+ * POST /api/billing/subscription
+ * Subscribe to a plan via Stripe
+ */
+router.post('/subscription', [
+  body('planId').isUUID().withMessage('Valid plan ID is required'),
+  validateRequest
+], (req: Request, res: Response) => BillingController.subscribe(req as AuthenticatedRequest, res));
+
+/**
+ * PUT /api/billing/subscription
+ * Change plan mid-cycle (prorated)
+ */
+router.put('/subscription', [
+  body('planId').isUUID().withMessage('Valid plan ID is required'),
+  validateRequest
+], (req: Request, res: Response) => BillingController.changePlan(req as AuthenticatedRequest, res));
+
+/**
+ * DELETE /api/billing/subscription
+ * Cancel the subscription at the end of the current period
+ */
+router.delete('/subscription', (req: Request, res: Response) => BillingController.cancelSubscription(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/profile
+ * Get the billing details printed on invoices
+ */
+router.get('/profile', (req: Request, res: Response) => BillingController.getBillingProfile(req as AuthenticatedRequest, res));
+
+/**
+ * PUT /api/billing/profile
+ * Update company name, GSTIN/VAT ID and billing address
+ */
+router.put('/profile', (req: Request, res: Response) => BillingController.updateBillingProfile(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/invoices
+ * List the user's credit purchase invoices
+ */
+router.get('/invoices', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  validateRequest
+], (req: Request, res: Response) => BillingController.getInvoices(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/invoices/:invoiceId/download?format=pdf|csv
+ * Download an invoice
+ */
+router.get('/invoices/:invoiceId/download', [
+  param('invoiceId').isUUID().withMessage('Valid invoice ID is required'),
+  query('format').optional().isIn(['pdf', 'csv']).withMessage('Format must be pdf or csv'),
+  validateRequest
+], (req: Request, res: Response) => BillingController.downloadInvoice(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/statements/:month
+ * Get the account statement for a month (YYYY-MM, in the user's timezone)
+ */
+router.get('/statements/:month', (req: Request, res: Response) => BillingController.getStatement(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/billing/statements/:month/download?format=pdf|csv
+ * Download the account statement for a month
+ */
+router.get('/statements/:month/download', [
+  query('format').optional().isIn(['pdf', 'csv']).withMessage('Format must be pdf or csv'),
+  validateRequest
+], (req: Request, res: Response) => BillingController.downloadStatement(req as AuthenticatedRequest, res));
+
 /**
  * GET /api/billing/payment-history
  * Get user's Stripe payment history
@@ -7,38 +7,11 @@ import { uploadExcel } from '../middleware/upload';
 import { configService } from '../services/configService';
 import * as XLSX from 'xlsx';
 import { ContactService } from '../services/contactService';
+import { CallContextService } from '../services/callContextService';
+import { PhoneNumberError, parsePhoneNumber } from '../utils/phoneNumber';
 
 const router = Router();
 
-/**
- * Normalize phone number format to +[ISD code] [10-digit number]
- * Must match the normalization logic in ContactService
- */
-function normalizePhoneNumber(phoneNumber: string): string {
-  // Remove all non-digit characters except +
-  const cleaned = phoneNumber.replace(/[^\d+]/g, '');
-  
-  // Remove leading + to work with digits only
-  const digitsOnly = cleaned.replace(/^\+/, '');
-  
-  // Basic validation - should have at least 10 digits
-  if (digitsOnly.length < 10) {
-    throw new Error('Invalid phone number format');
-  }
-  
-  // Take last 10 digits as the main number
-  const mainNumber = digitsOnly.slice(-10);
-  
-  // Take everything before the last 10 digits as ISD code
-  const isdCode = digitsOnly.slice(0, -10);
-  
-  // If no ISD code found, default to +91 (India)
-  const finalIsdCode = isdCode || '91';
-  
-  // Return formatted as +[ISD] [main number]
-  return `+${finalIsdCode} ${mainNumber}`;
-}
-
 /**
  * @route   GET /api/campaigns/template
  * @desc    Download campaign contact upload template (same as contact template)
@@ -138,6 +111,13 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
       retry_interval_minutes,
       retry_strategy,
       custom_retry_schedule,
+      voicemail_retry_schedule,
+      weekly_schedule,
+      blackout_dates,
+      max_calls_per_day,
+      max_calls_per_hour,
+      call_pace_seconds,
+      use_contact_timezone,
       use_custom_timezone,
       campaign_timezone
     } = req.body;
@@ -205,6 +185,8 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
             email: emailIdx !== -1 ? toStr(parts[emailIdx]) : undefined,
             company: companyIdx !== -1 ? toStr(parts[companyIdx]) : undefined,
             notes: notesIdx !== -1 ? toStr(parts[notesIdx]) : undefined,
+            // Every column, for the agent's call variables
+            columns: Object.fromEntries(headerParts.map((header, idx) => [header, toStr(parts[idx])])),
           });
         }
       } else {
@@ -236,6 +218,8 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
     const errors: string[] = [];
     const validContacts: any[] = [];
     const seenPhones = new Set<string>();
+    const csvColumnsByPhone = new Map<string, Record<string, string>>(); // phone -> upload columns
+    const phoneRegion = await ContactService.getDefaultPhoneRegion(userId);
     rows.forEach((row: any, index: number) => {
       // Only phone_number is required
       if (!row.phone_number || !row.phone_number.trim()) {
@@ -244,8 +228,9 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
       }
 
       try {
-        // Normalize phone number to match database format
-        const normalizedPhone = normalizePhoneNumber(row.phone_number);
+        // Parse in the user's default region to match the stored E.164 numbers
+        const phone = parsePhoneNumber(row.phone_number, phoneRegion);
+        const normalizedPhone = phone.e164;
         
         // Check for duplicate phone in CSV (using normalized format)
         if (seenPhones.has(normalizedPhone)) {
@@ -254,11 +239,16 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
         }
 
         seenPhones.add(normalizedPhone);
+        csvColumnsByPhone.set(normalizedPhone, CallContextService.toCsvColumns(row.columns || row));
         // Store the normalized phone number back to the row
         row.phone_number = normalizedPhone;
+        row.phone_country = phone.country;
+        row.phone_line_type = phone.lineType;
         validContacts.push(row);
       } catch (error) {
-        errors.push(`Row ${index + 1}: Invalid phone number format (${row.phone_number})`);
+        errors.push(error instanceof PhoneNumberError && error.code === 'AMBIGUOUS_PHONE_NUMBER'
+          ? `Row ${index + 1}: Ambiguous phone number (${row.phone_number}), add the country code`
+          : `Row ${index + 1}: Invalid phone number format (${row.phone_number})`);
         return;
       }
     });
@@ -279,7 +269,7 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
 
     // Get existing phone numbers for this user to check duplicates efficiently
     const existingContactsResult = await Contact.query(
-      'SELECT id, phone_number, name, email, company, notes FROM contacts WHERE user_id = $1',
+      'SELECT id, phone_number, name, email, company, notes, city, country, timezone FROM contacts WHERE user_id = $1',
       [userId]
     );
     const existingPhoneMap = new Map<string, any>();
@@ -299,13 +289,18 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
         contactIds.push(existingContact.id);
         skippedContacts.push(contactData.phone_number);
         // Store existing contact details for queue creation
-        contactDetailsMap.set(existingContact.id, existingContact);
+        contactDetailsMap.set(existingContact.id, {
+          ...existingContact,
+          csv_columns: csvColumnsByPhone.get(contactData.phone_number)
+        });
       } else {
         // Prepare for bulk insert
         const normalizedData = {
           user_id: userId,
           name: contactData.name || `Anonymous ${contactData.phone_number}`,
           phone_number: contactData.phone_number,
+          phone_country: contactData.phone_country,
+          phone_line_type: contactData.phone_line_type,
           email: contactData.email || undefined,
           company: contactData.company || undefined,
           notes: contactData.notes || undefined,
@@ -347,7 +342,7 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
           insertResult.rows.forEach((row: any) => {
             contactIds.push(row.id);
             // Update the map with the complete contact (including ID)
-            contactDetailsMap.set(row.id, row);
+            contactDetailsMap.set(row.id, { ...row, csv_columns: csvColumnsByPhone.get(row.phone_number) });
             // Also keep phone number mapping for potential lookups
             existingPhoneMap.set(row.phone_number, row);
           });
@@ -388,6 +383,13 @@ router.post('/upload-csv', uploadExcel.single('file'), async (req: Request, res:
       retry_interval_minutes: retry_interval_minutes ? parseInt(retry_interval_minutes) : 1, // Default 1 min for testing
       retry_strategy: retry_strategy || 'simple',
       custom_retry_schedule: custom_retry_schedule ? JSON.parse(custom_retry_schedule) : null,
+      voicemail_retry_schedule: voicemail_retry_schedule ? JSON.parse(voicemail_retry_schedule) : null,
+      weekly_schedule: weekly_schedule ? JSON.parse(weekly_schedule) : null,
+      blackout_dates: blackout_dates ? JSON.parse(blackout_dates) : [],
+      max_calls_per_day: max_calls_per_day ? parseInt(max_calls_per_day) : null,
+      max_calls_per_hour: max_calls_per_hour ? parseInt(max_calls_per_hour) : null,
+      call_pace_seconds: call_pace_seconds ? parseInt(call_pace_seconds) : 0,
+      use_contact_timezone: use_contact_timezone === 'true',
       use_custom_timezone: use_custom_timezone === 'true',
       campaign_timezone: campaign_timezone || undefined,
       contact_ids: contactIds,
@@ -584,7 +586,15 @@ router.put('/:id', async (req: Request, res: Response): Promise<any> => {
     }
 
     logger.info(`Campaign updated: ${campaign.id}`);
-    
+
+    // Window, calendar and pacing changes move the scheduler's next wake
+    try {
+      const { campaignScheduler } = await import('../services/InMemoryCampaignScheduler');
+      await campaignScheduler.onCampaignChange(campaign.id);
+    } catch (error) {
+      logger.error('Failed to notify campaign scheduler', { error });
+    }
+
     res.json({
       success: true,
       data: campaign
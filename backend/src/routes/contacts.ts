@@ -3,10 +3,11 @@ import { ContactController } from '../controllers/contactController';
 import { 
   authenticateToken, 
   requireAuth, 
-  uploadMiddleware, 
-
-  optionalApiKeyAuth,
-  externalApiRateLimit
+  uploadMiddleware,
+  whenApiKeyPresent,
+  authenticateApiKey,
+  externalApiRateLimit,
+  requireApiKeyScope
 } from '../middleware';
 
 const router = Router();
@@ -58,9 +59,13 @@ router.get('/:id', authenticateToken, requireAuth, ContactController.getContact)
 router.put('/:id', authenticateToken, requireAuth, ContactController.updateContact);
 router.delete('/:id', authenticateToken, requireAuth, ContactController.deleteContact);
 
-// External lookup endpoints for ElevenLabs and other services
-// These endpoints use optional API key authentication for security while maintaining accessibility
-router.get('/lookup/:phone', externalApiRateLimit, optionalApiKeyAuth, ContactController.lookupContact);
-router.post('/lookup/batch', externalApiRateLimit, optionalApiKeyAuth, ContactController.batchLookupContacts);
+// Lookup endpoints scoped to the authenticated user's contacts
+// Requests with an X-API-Key header use a per-user key with the contacts:read scope, so existing
+// integrations (ElevenLabs etc.) keep working; new ones should use /api/external/contacts/lookup
+const apiKeyLookupAuth = [whenApiKeyPresent, authenticateApiKey, externalApiRateLimit, requireApiKeyScope('contacts:read')];
+router.get('/lookup/:phone', ...apiKeyLookupAuth, ContactController.lookupContact);
+router.post('/lookup/batch', ...apiKeyLookupAuth, ContactController.batchLookupContacts);
+router.get('/lookup/:phone', authenticateToken, requireAuth, ContactController.lookupContact);
+router.post('/lookup/batch', authenticateToken, requireAuth, ContactController.batchLookupContacts);
 
 export default router;
\ No newline at end of file
@@ -33,10 +33,22 @@ router.post('/', async (req: Request, res: Response): Promise<any> => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { campaign_name, subject, body, contact_ids, schedule, attachments } = req.body;
-
-    // Validation
-    if (!campaign_name || !subject || !body) {
+    const {
+      campaign_name,
+      subject,
+      body,
+      contact_ids,
+      schedule,
+      attachments,
+      sender_identity_id,
+      variants,
+      ab_test,
+      send_time_optimization,
+    } = req.body;
+    const hasVariants = Array.isArray(variants) && variants.length > 0;
+
+    // Validation (an A/B test takes its subjects and bodies from the variants)
+    if (!campaign_name || (!hasVariants && (!subject || !body))) {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields: campaign_name, subject, body',
@@ -57,6 +69,10 @@ router.post('/', async (req: Request, res: Response): Promise<any> => {
       contact_ids,
       schedule,
       attachments,
+      sender_identity_id,
+      variants,
+      ab_test,
+      send_time_optimization: send_time_optimization === true,
     });
 
     logger.info(`Email campaign created: ${campaign.id} by user ${userId}`);
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { EmailSenderController } from '../controllers/emailSenderController';
+import { authenticateToken } from '../middleware';
+
+const router = Router();
+
+// Verification link opened from the emailed message - public
+router.get('/verify/:token', EmailSenderController.verifySender);
+
+// Sender identities (specific routes before /:id)
+router.get('/', authenticateToken, EmailSenderController.getSenders);
+router.get('/delivery-events', authenticateToken, EmailSenderController.getDeliveryEvents);
+router.post('/', authenticateToken, EmailSenderController.createSender);
+router.put('/:id', authenticateToken, EmailSenderController.updateSender);
+router.delete('/:id', authenticateToken, EmailSenderController.deleteSender);
+router.post('/:id/default', authenticateToken, EmailSenderController.setDefaultSender);
+router.post('/:id/resend-verification', authenticateToken, EmailSenderController.resendVerification);
+router.post('/:id/test', authenticateToken, EmailSenderController.testSender);
+
+export default router;
@@ -8,6 +8,7 @@
 
 import { Router, Request, Response } from 'express';
 import emailTrackingService from '../services/emailTrackingService';
+import { SuppressionService } from '../services/suppressionService';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -121,8 +122,8 @@ router.get('/click/:trackingId/:linkId', async (req: Request, res: Response) =>
 /**
  * GET /track/unsubscribe/:trackingId
  * 
- * Optional: Unsubscribe tracking endpoint.
- * Can be used to track unsubscribe clicks and handle list management.
+ * Unsubscribe endpoint.
+ * Records the click and adds the recipient's email to the sender's suppression list.
  */
 router.get('/unsubscribe/:trackingId', async (req: Request, res: Response) => {
   try {
@@ -141,8 +142,12 @@ router.get('/unsubscribe/:trackingId', async (req: Request, res: Response) => {
       linkId: 'unsubscribe'
     });
 
-    // TODO: Add actual unsubscribe logic here
-    // For now, show a simple confirmation page
+    const unsubscribed = await SuppressionService.unsubscribeByTrackingId(trackingId);
+    if (!unsubscribed) {
+      res.status(404).send('Unsubscribe link is invalid or has expired');
+      return;
+    }
+
     res.send(`
       <!DOCTYPE html>
       <html>
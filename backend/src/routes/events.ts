@@ -0,0 +1,21 @@
+import { Router, Request, Response } from 'express';
+import { EventStreamController } from '../controllers/eventStreamController';
+import { authenticateToken, authenticateEventStream, requireAuth, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /api/events/ticket
+ * Short-lived ticket for opening the stream with EventSource
+ */
+router.post('/ticket', authenticateToken, requireAuth, (req: Request, res: Response) =>
+  EventStreamController.createTicket(req as AuthenticatedRequest, res));
+
+/**
+ * GET /api/events/stream?ticket=&lastEventId=
+ * Server-sent events: call.status, queue.updated, campaign.progress,
+ * lead_analytics.created, notification.created (and resync)
+ */
+router.get('/stream', authenticateEventStream, EventStreamController.stream);
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { ContactController } from '../controllers/contactController';
+import { CallController } from '../controllers/callController';
+import { analyticsController } from '../controllers/analyticsController';
+import { authenticateApiKey, requireApiKeyScope, externalApiRateLimit } from '../middleware/apiKeyAuth';
+
+const router = Router();
+
+/**
+ * External API - authenticated with a per-user API key (X-API-Key header)
+ * Requests run as the key's owner and are limited to the key's scopes and rate limit.
+ */
+router.use(authenticateApiKey, externalApiRateLimit);
+
+// Contacts
+router.get('/contacts', requireApiKeyScope('contacts:read'), ContactController.getContacts);
+router.get('/contacts/lookup/:phone', requireApiKeyScope('contacts:read'), ContactController.lookupContact);
+router.post('/contacts/lookup/batch', requireApiKeyScope('contacts:read'), ContactController.batchLookupContacts);
+router.get('/contacts/:id', requireApiKeyScope('contacts:read'), ContactController.getContact);
+router.post('/contacts', requireApiKeyScope('contacts:write'), ContactController.createContact);
+
+// Calls
+router.post('/calls', requireApiKeyScope('calls:create'), CallController.initiateCall);
+
+// Analytics
+router.get('/analytics/summary', requireApiKeyScope('analytics:read'), analyticsController.getAnalyticsSummary.bind(analyticsController));
+router.get('/analytics/leads', requireApiKeyScope('analytics:read'), analyticsController.getLeadAnalyticsList.bind(analyticsController));
+
+export default router;
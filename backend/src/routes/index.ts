@@ -43,6 +43,13 @@ import plivoDialerRoutes from './plivoDialer';
 import emailTrackingRoutes from './emailTracking';
 import autoEngagementFlowRoutes from './autoEngagementFlowRoutes';
 import emailTemplateRoutes from './emailTemplateRoutes';
+import suppressionListRoutes from './suppressionList';
+import emailSenderRoutes from './emailSenders';
+import leadSourceRoutes from './leadSources';
+import apiKeyRoutes from './apiKeys';
+import reportRoutes from './reports';
+import eventRoutes from './events';
+import externalApiRoutes from './externalApi';
 
 // Import rate limiting middleware
 import { generalRateLimit, authRateLimit } from '../middleware/rateLimit';
@@ -80,6 +87,7 @@ router.use('/auth', authRateLimit, authRoutes);
 router.use('/email', generalRateLimit, emailRoutes);
 router.use('/webhooks', webhookRoutes); // Webhooks have their own rate limiting
 router.use('/track', emailTrackingRoutes); // Email tracking (open/click pixels) - public, no rate limiting to avoid blocking email clients
+router.use('/external', externalApiRoutes); // External API - authenticated and rate limited per API key
 
 // Protected routes - authentication + user-based rate limiting
 router.use('/user', authenticatedRateLimit, userRoutes);
@@ -89,6 +97,8 @@ router.use('/transcripts', authenticatedRateLimit, transcriptRoutes);
 router.use('/contacts', authenticatedRateLimit, contactRoutes);
 router.use('/contact-emails', authenticatedRateLimit, contactEmailRoutes);
 router.use('/email-campaigns', authenticatedRateLimit, emailCampaignRoutes);
+router.use('/email-senders', generalRateLimit, emailSenderRoutes); // Email sender identities (has mixed auth: verification links are public)
+router.use('/lead-sources', authenticatedRateLimit, leadSourceRoutes); // Inbound lead endpoints (the endpoints themselves are under /webhooks)
 router.use('/billing', authenticatedRateLimit, billingRoutes);
 router.use('/admin', authenticatedRateLimit, adminRoutes);
 router.use('/dashboard', authenticatedRateLimit, dashboardRoutes);
@@ -118,6 +128,10 @@ router.use('/extractions', authenticatedRateLimit, extractionsRoutes); // Chat A
 router.use('/plivo-dialer', authenticatedRateLimit, plivoDialerRoutes); // Plivo Browser SDK v2 dialer (Phase-1)
 router.use('/auto-engagement', authenticatedRateLimit, autoEngagementFlowRoutes); // Auto Engagement Flows for automated lead engagement
 router.use('/email-templates', authenticatedRateLimit, emailTemplateRoutes); // Email templates for auto-engagement flows
+router.use('/suppression-list', authenticatedRateLimit, suppressionListRoutes); // Do-not-call / opt-out list enforced on all outbound channels
+router.use('/api-keys', authenticatedRateLimit, apiKeyRoutes); // Per-user API keys for the external API
+router.use('/reports', authenticatedRateLimit, reportRoutes); // Custom report builder, saved and scheduled reports
+router.use('/events', generalRateLimit, eventRoutes); // Dashboard event stream (SSE; authenticates with a ticket or the Authorization header)
 
 // Monitoring routes - no rate limiting
 router.use('/monitoring', monitoringRoutes);
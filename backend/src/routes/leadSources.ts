@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { LeadSourceController } from '../controllers/leadSourceController';
+import { authenticateToken } from '../middleware';
+
+const router = Router();
+
+// All lead source management requires authentication (the inbound endpoint is under /api/webhooks)
+router.use(authenticateToken);
+
+// Lead sources (specific routes before /:id)
+router.get('/presets', LeadSourceController.getPresets);
+router.get('/', LeadSourceController.getSources);
+router.post('/', LeadSourceController.createSource);
+router.get('/:id', LeadSourceController.getSource);
+router.put('/:id', LeadSourceController.updateSource);
+router.delete('/:id', LeadSourceController.deleteSource);
+router.post('/:id/rotate-secret', LeadSourceController.rotateSecret);
+router.post('/:id/preview', LeadSourceController.previewMapping);
+
+// Inbound request log
+router.get('/:id/requests', LeadSourceController.getRequests);
+router.get('/:id/requests/:requestId', LeadSourceController.getRequest);
+router.post('/:id/requests/:requestId/replay', LeadSourceController.replayRequest);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ReportController } from '../controllers/reportController';
+import { authenticateToken, requireManagerOrOwner } from '../middleware';
+
+const router = Router();
+
+// Custom report builder (definitions are validated against the catalog whitelist)
+router.get('/catalog', authenticateToken, ReportController.getCatalog);
+router.post('/run', authenticateToken, ReportController.runReport);
+router.post('/export', authenticateToken, ReportController.exportReport);
+
+// Saved reports; only managers can change them since schedules email data outside the app
+router.get('/saved', authenticateToken, ReportController.getSavedReports);
+router.post('/saved', authenticateToken, requireManagerOrOwner, ReportController.createSavedReport);
+router.get('/saved/:id', authenticateToken, ReportController.getSavedReport);
+router.patch('/saved/:id', authenticateToken, requireManagerOrOwner, ReportController.updateSavedReport);
+router.delete('/saved/:id', authenticateToken, requireManagerOrOwner, ReportController.deleteSavedReport);
+router.get('/saved/:id/run', authenticateToken, ReportController.runSavedReport);
+router.get('/saved/:id/export', authenticateToken, ReportController.exportSavedReport);
+
+export default router;
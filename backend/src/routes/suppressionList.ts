@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SuppressionController } from '../controllers/suppressionController';
+import { authenticateToken, requireManagerOrOwner, uploadMiddleware } from '../middleware';
+
+const router = Router();
+
+// Do-not-call / opt-out list (specific routes before /:id)
+router.get('/', authenticateToken, SuppressionController.getEntries);
+router.get('/check', authenticateToken, SuppressionController.checkRecipient);
+router.get('/export', authenticateToken, requireManagerOrOwner, SuppressionController.exportEntries);
+router.get('/audit-log', authenticateToken, requireManagerOrOwner, SuppressionController.getAuditLog);
+
+// Anyone on the team can add numbers (e.g. a lead asking not to be called); only managers can remove or bulk import
+router.post('/', authenticateToken, SuppressionController.addEntry);
+router.post('/import', authenticateToken, requireManagerOrOwner, uploadMiddleware, SuppressionController.importEntries);
+router.delete('/:id', authenticateToken, requireManagerOrOwner, SuppressionController.removeEntry);
+
+export default router;
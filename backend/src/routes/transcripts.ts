@@ -10,6 +10,7 @@ router.use(authenticateToken, requireAuth);
 // Transcript management routes
 router.get('/search', TranscriptController.searchTranscripts);
 router.get('/analytics', TranscriptController.getTranscriptAnalytics);
+router.get('/export/bulk', TranscriptController.exportTranscriptsBulk);
 router.get('/call/:callId', TranscriptController.getTranscriptByCallId);
 router.get('/call/:callId/export', TranscriptController.exportTranscript);
 router.get('/call/:callId/formatted', TranscriptController.getFormattedTranscript);
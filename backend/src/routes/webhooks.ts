@@ -2,7 +2,12 @@ import { Router } from 'express';
 import { webhookController } from '../controllers/webhookController';
 import { n8nWebhookController } from '../controllers/n8nWebhookController';
 import { PlivoWebhookController } from '../controllers/plivoWebhookController';
+import { whatsappWebhookController } from '../controllers/whatsappWebhookController';
+import { BillingController } from '../controllers/billingController';
+import { EmailSenderController } from '../controllers/emailSenderController';
+import { LeadSourceController } from '../controllers/leadSourceController';
 import { logWebhookRequest } from '../middleware/webhook';
+import { authenticateApiKey, requireApiKeyScope, externalApiRateLimit } from '../middleware/apiKeyAuth';
 
 const router = Router();
 
@@ -28,6 +33,14 @@ router.post('/bolna',
   webhookController.handleWebhook.bind(webhookController)
 );
 
+/**
+ * STRIPE WEBHOOK
+ *
+ * Credit purchases and plan subscriptions (invoice.paid, customer.subscription.*).
+ * Receives the raw body (see server.ts) so the Stripe signature can be verified.
+ */
+router.post('/stripe', BillingController.handleStripeWebhook);
+
 /**
  * N8N LEAD CAPTURE WEBHOOK (Contact Creation Only)
  * 
@@ -72,6 +85,55 @@ router.post('/n8n/lead-call',
   n8nWebhookController.handleLeadCaptureAndCall.bind(n8nWebhookController)
 );
 
+/**
+ * LEAD SOURCE ENDPOINTS
+ *
+ * One endpoint per lead source a user creates (IndiaMART, TradeIndia, JustDial, Facebook Lead Ads
+ * or any custom sender). The payload is mapped to contact fields with the source's field mapping;
+ * every request is logged and can be replayed from the lead source's request log.
+ *
+ * Authentication: per source - HMAC-SHA256 signature of the raw body in the source's signature
+ * header, or the shared secret in that header / the `secret` query parameter.
+ * Facebook's subscription check (GET with hub.* parameters) is answered with the verify token.
+ */
+router.get('/lead-sources/:token', LeadSourceController.receive);
+router.post('/lead-sources/:token', LeadSourceController.receive);
+
+/**
+ * WHATSAPP BUTTON CLICK WEBHOOK
+ * 
+ * Called by the Chat Agent Server when a customer clicks a WhatsApp template button.
+ * Triggers Auto Engagement Flows with a whatsapp_button_clicked trigger condition.
+ * 
+ * Authentication: X-API-Key header with the tenant's API key (contacts:write scope);
+ * flows are triggered for the key's owner
+ * 
+ * Expected Payload:
+ * {
+ *   "customer_phone": "919876543210",
+ *   "button_text": "Book a demo",
+ *   "button_payload": "BOOK_DEMO",  // Optional
+ *   "template_id": "uuid",          // Optional
+ *   "message_id": "wamid..."        // Optional
+ * }
+ */
+router.post('/whatsapp/button-click',
+  authenticateApiKey,
+  externalApiRateLimit,
+  requireApiKeyScope('contacts:write'),
+  whatsappWebhookController.handleButtonClick.bind(whatsappWebhookController)
+);
+
+/**
+ * ZEPTOMAIL BOUNCE / COMPLAINT WEBHOOK
+ *
+ * Hard bounces, soft bounces and spam complaints for emails sent through ZeptoMail senders.
+ * Bounced and complaining addresses are marked on the contact and suppressed.
+ *
+ * Authentication: Authorization header with the ZEPTOMAIL_WEBHOOK_SECRET
+ */
+router.post('/email/zeptomail', EmailSenderController.handleZeptoMailWebhook);
+
 /**
  * PLIVO XML APPLICATION WEBHOOKS (Phase-1 Dialer)
  *
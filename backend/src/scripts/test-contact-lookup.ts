@@ -8,7 +8,8 @@
 import axios from 'axios';
 
 const BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
-const API_KEY = 'contact-lookup-key-dev'; // Development API key
+const API_KEY = process.env.API_KEY || ''; // Your API key with the contacts:read scope (Settings > API Keys)
+const AUTH_HEADERS = { headers: { 'X-API-Key': API_KEY } };
 
 interface ContactLookupResponse {
   success: boolean;
@@ -50,7 +51,7 @@ async function testContactLookup() {
     console.log('Test 1: Single contact lookup (no API key)');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/+1234567890`
+        `${BASE_URL}/api/external/contacts/lookup/+1234567890`
       );
       console.log('✅ Response:', JSON.stringify(response.data, null, 2));
     } catch (error: any) {
@@ -61,7 +62,7 @@ async function testContactLookup() {
     console.log('\nTest 2: Single contact lookup (with API key)');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/+1234567890`,
+        `${BASE_URL}/api/external/contacts/lookup/+1234567890`,
         {
           headers: {
             'X-API-Key': API_KEY
@@ -77,7 +78,8 @@ async function testContactLookup() {
     console.log('\nTest 3: Non-existent contact lookup');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/+9999999999`
+        `${BASE_URL}/api/external/contacts/lookup/+9999999999`,
+        AUTH_HEADERS
       );
       console.log('✅ Response:', JSON.stringify(response.data, null, 2));
     } catch (error: any) {
@@ -88,7 +90,8 @@ async function testContactLookup() {
     console.log('\nTest 4: Invalid phone number format');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/invalid-phone`
+        `${BASE_URL}/api/external/contacts/lookup/invalid-phone`,
+        AUTH_HEADERS
       );
       console.log('✅ Response:', JSON.stringify(response.data, null, 2));
     } catch (error: any) {
@@ -99,10 +102,11 @@ async function testContactLookup() {
     console.log('\nTest 5: Batch contact lookup');
     try {
       const response = await axios.post<BatchLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/batch`,
+        `${BASE_URL}/api/external/contacts/lookup/batch`,
         {
           phones: ['+1234567890', '+9999999999', '+5555555555']
-        }
+        },
+        AUTH_HEADERS
       );
       console.log('✅ Response:', JSON.stringify(response.data, null, 2));
     } catch (error: any) {
@@ -113,7 +117,7 @@ async function testContactLookup() {
     console.log('\nTest 6: Invalid API key');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/+1234567890`,
+        `${BASE_URL}/api/external/contacts/lookup/+1234567890`,
         {
           headers: {
             'X-API-Key': 'invalid-key'
@@ -129,7 +133,8 @@ async function testContactLookup() {
     console.log('\nTest 7: Phone number normalization');
     try {
       const response = await axios.get<ContactLookupResponse>(
-        `${BASE_URL}/api/contacts/lookup/1234567890` // Without + prefix
+        `${BASE_URL}/api/external/contacts/lookup/1234567890`, // Without + prefix
+        AUTH_HEADERS
       );
       console.log('✅ Response:', JSON.stringify(response.data, null, 2));
     } catch (error: any) {
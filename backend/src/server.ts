@@ -33,6 +33,14 @@ import {
 import { performanceMonitoring, addPerformanceEndpoints, _ipm } from './middleware/performanceMonitoring';
 import { scheduledTaskService } from './services/scheduledTaskService';
 import { webhookRetryService } from './services/webhookRetryService';
+import { flowSchedulerService } from './services/flowSchedulerService';
+import { reportSchedulerService } from './services/reportSchedulerService';
+import { jobRunnerService } from './services/jobRunnerService';
+import { followUpEmailService } from './services/followUpEmailService';
+import { EmailCampaignService } from './services/emailCampaignService';
+import { subscriptionRenewalService } from './services/subscriptionRenewalService';
+import { databaseNotificationListener } from './services/databaseNotificationListener';
+import { USER_EVENTS_CHANNEL, userEventService } from './services/userEventService';
 import { QueueProcessorService } from './services/QueueProcessorService';
 import { configService } from './services/configService';
 import { chatAgentUserSyncService } from './services/chatAgentUserSyncService';
@@ -221,6 +229,8 @@ app.use((req, res, next) => {
         if (buf.length === 0) {
           return;
         }
+        // Kept for signature checks over the exact bytes received (lead source webhooks)
+        (req as express.Request).rawBody = buf;
         try {
           JSON.parse(buf.toString());
         } catch (e) {
@@ -243,7 +253,10 @@ app.use((req, res, next) => {
 app.use(express.urlencoded({
   extended: true,
   limit: '10mb',
-  parameterLimit: 100 // Limit number of parameters
+  parameterLimit: 100, // Limit number of parameters
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
 }));
 
 // Input validation and sanitization for security (SQL injection, XSS protection)
@@ -301,11 +314,11 @@ app.get('/health', (_req, res) => {
 
 // Development-only rate limit reset endpoint
 if (process.env.NODE_ENV === 'development') {
-  app.post('/dev/reset-rate-limits', (req, res) => {
+  app.post('/dev/reset-rate-limits', async (req, res) => {
     // Clear the rate limit store
     const { clearRateLimitStore } = require('./middleware/rateLimit');
     if (clearRateLimitStore) {
-      clearRateLimitStore();
+      await clearRateLimitStore();
     }
     res.json({
       message: 'Rate limits cleared',
@@ -337,12 +350,8 @@ async function startServer() {
   // Initialize performance metrics
   await _ipm();
 
-  // Clear rate limits on server startup to unblock any previously blocked IPs
-  const { clearRateLimitStore } = require('./middleware/rateLimit');
-  if (clearRateLimitStore) {
-    clearRateLimitStore();
-    console.log('🔓 Rate limits cleared on server startup');
-  }
+  // Rate limits are not cleared on startup: with the shared Postgres store that would
+  // reset every replica's limits on each deploy (the memory store starts empty anyway)
 
   const server = app.listen(PORT, async () => {
     const startupInfo = {
@@ -401,6 +410,64 @@ async function startServer() {
       logger.error('Failed to start webhook retry processor', { error });
     }
 
+    // Start auto engagement flow scheduler (resumes flows suspended by wait actions)
+    if (process.env.ENABLE_FLOW_SCHEDULER !== 'false') {
+      try {
+        flowSchedulerService.start();
+        logger.info('Flow scheduler started');
+      } catch (error) {
+        logger.error('Failed to start flow scheduler', { error });
+      }
+    } else {
+      logger.info('Flow scheduler disabled by configuration');
+    }
+
+    // Start report scheduler (emails saved reports on their cron schedule)
+    if (process.env.ENABLE_REPORT_SCHEDULER !== 'false') {
+      try {
+        reportSchedulerService.start();
+        logger.info('Report scheduler started');
+      } catch (error) {
+        logger.error('Failed to start report scheduler', { error });
+      }
+    } else {
+      logger.info('Report scheduler disabled by configuration');
+    }
+
+    // Start background job runner (scheduled follow-up emails and email campaigns)
+    if (process.env.ENABLE_JOB_RUNNER !== 'false') {
+      try {
+        jobRunnerService.registerHandler(
+          'scheduled_email',
+          job => followUpEmailService.sendScheduledEmail(job),
+          (job, error) => followUpEmailService.failScheduledEmail(job, error)
+        );
+        jobRunnerService.registerHandler(
+          'email_campaign',
+          job => EmailCampaignService.runEmailCampaignJob(job),
+          (job, error) => EmailCampaignService.failEmailCampaign(job, error)
+        );
+        jobRunnerService.start();
+        logger.info('Job runner started');
+      } catch (error) {
+        logger.error('Failed to start job runner', { error });
+      }
+    } else {
+      logger.info('Job runner disabled by configuration');
+    }
+
+    // Start subscription renewals (new billing periods for admin-assigned plans)
+    if (process.env.ENABLE_SUBSCRIPTION_RENEWALS !== 'false') {
+      try {
+        subscriptionRenewalService.start();
+        logger.info('Subscription renewal scheduler started');
+      } catch (error) {
+        logger.error('Failed to start subscription renewal scheduler', { error });
+      }
+    } else {
+      logger.info('Subscription renewal scheduler disabled by configuration');
+    }
+
     // Start Chat Agent User Sync Service (for WhatsApp microservice user sync)
     try {
       chatAgentUserSyncService.initialize();
@@ -446,6 +513,23 @@ async function startServer() {
     // } catch (error) {
     //   logger.error('Failed to start database notification listener', { error });
     // }
+
+    // Start the dashboard event stream when enabled: the listener subscribes to user_events only
+    // (cache invalidation over LISTEN stays disabled, see above)
+    if (userEventService.isEnabled()) {
+      try {
+        databaseNotificationListener.onChannel(USER_EVENTS_CHANNEL, payload => {
+          userEventService.handleNotification(payload);
+        });
+        await databaseNotificationListener.startListening({ cacheInvalidation: false });
+        userEventService.start();
+        logger.info('Event stream started');
+      } catch (error) {
+        logger.error('Failed to start event stream', { error });
+      }
+    } else {
+      logger.info('Event stream disabled by configuration');
+    }
   });
 
   // Handle server errors
@@ -485,6 +569,24 @@ const gracefulShutdown = async (signal: string) => {
     webhookRetryService.stopRetryProcessor();
     logger.info('Webhook retry processor stopped');
 
+    // Stop flow scheduler
+    flowSchedulerService.stop();
+
+    // Stop report scheduler
+    reportSchedulerService.stop();
+
+    // Stop job runner (jobs in progress are picked up again when their lease expires)
+    jobRunnerService.stop();
+
+    // Stop subscription renewals
+    subscriptionRenewalService.stop();
+
+    // Stop the event stream
+    if (userEventService.isEnabled()) {
+      userEventService.stop();
+      await databaseNotificationListener.stopListening();
+    }
+
     // Stop database notification listener
     // TEMPORARILY DISABLED - potential memory leak/connection issue
     // await databaseNotificationListener.stopListening();
@@ -1,6 +1,11 @@
 import { CallCampaignModel } from '../models/CallCampaign';
 import { CallQueueModel } from '../models/CallQueue';
 import { userService } from './userService';
+import { SuppressionService } from './suppressionService';
+import { AgentPromptService } from './agentPromptService';
+import { VoicemailService } from './voicemailService';
+import { CampaignCalendarService } from './campaignCalendarService';
+import { ContactTimezoneService } from './contactTimezoneService';
 import { logger } from '../utils/logger';
 import { isValidTimezone } from '../utils/timezoneUtils';
 import { 
@@ -50,6 +55,17 @@ export class CallCampaignService {
     // Validate dates
     this.validateDates(data.start_date, data.end_date);
 
+    // Validate prompt A/B test
+    await AgentPromptService.validateCampaignTest(data.agent_id, data);
+
+    // Validate voicemail retry schedule
+    if (data.voicemail_retry_schedule !== undefined) {
+      data.voicemail_retry_schedule = VoicemailService.validateRetrySchedule(data.voicemail_retry_schedule);
+    }
+
+    // Validate calendar, caps and pace
+    Object.assign(data, CampaignCalendarService.validateSettings(data));
+
     // Create campaign
     const campaign = await CallCampaignModel.create(userId, data);
 
@@ -57,7 +73,7 @@ export class CallCampaignService {
     if (data.contact_ids && data.contact_ids.length > 0) {
       await this.addContactsToQueue(
         userId,
-        campaign.id,
+        campaign,
         data.agent_id,
         data.contact_ids,
         data.next_action,
@@ -137,6 +153,30 @@ export class CallCampaignService {
       this.validateDates(startDate, endDate);
     }
 
+    // Validate prompt A/B test if provided
+    if (
+      updates.prompt_version_a_id !== undefined ||
+      updates.prompt_version_b_id !== undefined ||
+      updates.prompt_split_percent !== undefined
+    ) {
+      const campaign = await CallCampaignModel.findById(id, userId);
+      if (!campaign) return null;
+
+      await AgentPromptService.validateCampaignTest(campaign.agent_id, {
+        prompt_version_a_id: updates.prompt_version_a_id !== undefined ? updates.prompt_version_a_id : campaign.prompt_version_a_id,
+        prompt_version_b_id: updates.prompt_version_b_id !== undefined ? updates.prompt_version_b_id : campaign.prompt_version_b_id,
+        prompt_split_percent: updates.prompt_split_percent ?? campaign.prompt_split_percent
+      });
+    }
+
+    // Validate voicemail retry schedule if provided
+    if (updates.voicemail_retry_schedule !== undefined) {
+      updates.voicemail_retry_schedule = VoicemailService.validateRetrySchedule(updates.voicemail_retry_schedule);
+    }
+
+    // Validate calendar, caps and pace if provided
+    Object.assign(updates, CampaignCalendarService.validateSettings(updates));
+
     return await CallCampaignModel.update(id, userId, updates);
   }
 
@@ -250,10 +290,12 @@ export class CallCampaignService {
 
   /**
    * Add contacts to campaign queue
+   * Each item records the contact's timezone; contact-timezone campaigns start each
+   * contact at their first local opening on or after the start date.
    */
   private static async addContactsToQueue(
     userId: string,
-    campaignId: string,
+    campaign: CallCampaign,
     agentId: string,
     contactIds: string[],
     nextAction: string,
@@ -262,6 +304,7 @@ export class CallCampaignService {
   ): Promise<void> {
     if (contactIds.length === 0) return;
 
+    const campaignId = campaign.id;
     let contactMap: Map<string, any>;
 
     // If contact details are provided (from CSV upload), use them directly
@@ -272,7 +315,7 @@ export class CallCampaignService {
       // Otherwise, fetch from database (for regular campaign creation)
       const { pool } = await import('../config/database');
       const contactsResult = await pool.query(
-        `SELECT id, phone_number, name, email, company, notes, last_contact_at 
+        `SELECT id, phone_number, name, email, company, notes, last_contact_at, city, country, timezone
          FROM contacts 
          WHERE id = ANY($1) AND user_id = $2`,
         [contactIds, userId]
@@ -311,11 +354,24 @@ export class CallCampaignService {
       }
     }
 
+    // Contacts on the do-not-call list are never queued
+    const { suppressed } = await SuppressionService.filterRecipients(
+      userId,
+      Array.from(contactMap.values()),
+      (contact: any) => ({ phoneNumber: contact.phone_number, contactId: contact.id }),
+      'campaign',
+      { campaign_id: campaignId }
+    );
+    const suppressedContactIds = new Set(suppressed.map((contact: any) => contact.id));
+    if (suppressedContactIds.size > 0) {
+      logger.info(`Skipped ${suppressedContactIds.size} suppressed contacts for campaign ${campaignId}`);
+    }
+
     const queueItems = [];
     
     for (let i = 0; i < contactIds.length; i++) {
       const contact = contactMap.get(contactIds[i]);
-      if (!contact) continue;
+      if (!contact || suppressedContactIds.has(contact.id)) continue;
 
       // Get lead analytics for this contact
       const analytics = leadAnalyticsMap.get(contact.phone_number);
@@ -334,6 +390,25 @@ export class CallCampaignService {
       // Calculate priority (contacts with names get +100)
       const priority = contact.name ? 100 : 0;
 
+      // Upload columns can carry location for contacts without it
+      const contactTimezone = ContactTimezoneService.resolve({
+        timezone: contact.timezone || contact.csv_columns?.timezone,
+        city: contact.city || contact.csv_columns?.city,
+        country: contact.country || contact.csv_columns?.country,
+        phone_number: contact.phone_number
+      })?.timezone || null;
+
+      let scheduledFor = new Date(startDate);
+      if (campaign.use_contact_timezone) {
+        scheduledFor = CampaignCalendarService.getNextOpening({
+          timezone: contactTimezone || campaign.campaign_timezone || 'UTC',
+          first_call_time: campaign.first_call_time,
+          last_call_time: campaign.last_call_time,
+          weekly_schedule: campaign.weekly_schedule,
+          blackout_dates: campaign.blackout_dates
+        }, scheduledFor) || scheduledFor;
+      }
+
       queueItems.push({
         user_id: userId,
         campaign_id: campaignId,
@@ -348,11 +423,13 @@ export class CallCampaignService {
           notes: contact.notes || '',
           product_interest: analytics?.requirements || '',
           last_interaction_summary: analytics?.transcript_summary || '',
-          last_interaction_date: lastInteractionDate
+          last_interaction_date: lastInteractionDate,
+          ...(contact.csv_columns && { csv_columns: contact.csv_columns }) // Upload columns for call variables
         },
         priority,
         position: i + 1,
-        scheduled_for: new Date(startDate)
+        scheduled_for: scheduledFor,
+        contact_timezone: contactTimezone
       });
     }
 
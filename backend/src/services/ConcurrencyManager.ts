@@ -1,5 +1,6 @@
 import database from '../config/database';
 import { logger } from '../utils/logger';
+import { BillingService, InsufficientCreditsError } from './billingService';
 
 export interface ActiveCallInfo {
   id: string;
@@ -31,6 +32,7 @@ export class ConcurrencyManager {
     success: boolean;
     reason?: string;
     shouldQueue?: boolean;
+    insufficientCredits?: boolean;
   }> {
     try {
       // Debug: Check current active calls for this user
@@ -127,6 +129,12 @@ export class ConcurrencyManager {
           started_at = NOW()
       `, [callId, userId]);
 
+      // Hold credits for the call; without any available balance the slot is given back
+      const creditCheck = await this.reserveCallCredits(userId, callId);
+      if (!creditCheck.success) {
+        return creditCheck;
+      }
+
       logger.info(`Atomically reserved direct call slot`, {
         userId,
         callId
@@ -152,6 +160,7 @@ export class ConcurrencyManager {
   async atomicReserveCampaignCallSlot(userId: string, callId: string): Promise<{
     success: boolean;
     reason?: string;
+    insufficientCredits?: boolean;
   }> {
     try {
       // Check and reserve in a single atomic operation
@@ -203,6 +212,11 @@ export class ConcurrencyManager {
           started_at = NOW()
       `, [callId, userId]);
 
+      const creditCheck = await this.reserveCallCredits(userId, callId);
+      if (!creditCheck.success) {
+        return creditCheck;
+      }
+
       logger.info(`Atomically reserved campaign call slot`, {
         userId,
         callId
@@ -244,8 +258,10 @@ export class ConcurrencyManager {
   /**
    * Release a call slot when call ends
    * Can release by call ID or execution ID
+   * @param options.releaseCredits Also free the call's credit reservation - for calls that failed
+   *        or were cancelled. A completed call's reservation is settled when its credits are processed.
    */
-  async releaseCallSlot(callId: string): Promise<void> {
+  async releaseCallSlot(callId: string, options: { releaseCredits?: boolean } = {}): Promise<void> {
     try {
       const result = await database.query(`
         DELETE FROM active_calls 
@@ -263,6 +279,10 @@ export class ConcurrencyManager {
       logger.error('Error releasing call slot:', error);
       throw error;
     }
+
+    if (options.releaseCredits) {
+      await this.releaseCallCredits(callId);
+    }
   }
 
   /**
@@ -291,6 +311,50 @@ export class ConcurrencyManager {
     }
   }
 
+  /**
+   * Hold credits for a call whose slot was just reserved
+   * When the user has no available credits the slot is deleted again, so the call is rejected
+   * rather than queued (waiting for a free slot would not help).
+   */
+  private async reserveCallCredits(userId: string, callId: string): Promise<{
+    success: boolean;
+    reason?: string;
+    insufficientCredits?: boolean;
+  }> {
+    try {
+      await BillingService.reserveCallCredits(userId, callId);
+      return { success: true };
+    } catch (error) {
+      await database.query('DELETE FROM active_calls WHERE id = $1', [callId]);
+
+      if (error instanceof InsufficientCreditsError) {
+        logger.warn('Call slot released - insufficient credits', {
+          userId,
+          callId,
+          available: error.available
+        });
+        return {
+          success: false,
+          reason: 'Insufficient credits',
+          insufficientCredits: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Release a call's credit reservation (a no-op once the call's usage has been settled)
+   * Failures are logged only: an unreleased hold stops counting when it expires.
+   */
+  private async releaseCallCredits(callId: string): Promise<void> {
+    try {
+      await BillingService.releaseCallReservation(callId);
+    } catch (error) {
+      logger.error('Error releasing call credit reservation:', error);
+    }
+  }
+
   /**
    * Get user's concurrency statistics
    */
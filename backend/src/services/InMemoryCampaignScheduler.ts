@@ -1,7 +1,7 @@
 import database from '../config/database';
 import { QueueProcessorService } from './QueueProcessorService';
 import { logger } from '../middleware';
-import { convertTimeWindowToTimezone } from '../utils/timezoneUtils';
+import { CampaignCalendar, CampaignCalendarService, CampaignCallCounts } from './campaignCalendarService';
 
 interface CampaignWindow {
   campaignId: string;
@@ -12,8 +12,30 @@ interface CampaignWindow {
   queuedCount: number;
   status: string;
   nextScheduledTime?: Date | null;
+  calendar: CampaignCalendar;       // Weekday windows, blackout dates, caps and pace
+  callCounts: CampaignCallCounts;   // Recent calls, as of the last load
 }
 
+// Calendar settings and recent call counts of call_campaigns cc (owned by users u)
+const CAMPAIGN_CALENDAR_COLUMNS = `
+          cc.weekly_schedule,
+          cc.blackout_dates::text[] as blackout_dates,
+          cc.max_calls_per_day,
+          cc.max_calls_per_hour,
+          cc.call_pace_seconds,
+          cc.use_contact_timezone,
+          counts.calls_today,
+          counts.calls_last_hour,
+          counts.oldest_call_last_hour,
+          counts.last_call_at`;
+
+const CAMPAIGN_CALL_COUNTS_JOIN = `
+        CROSS JOIN LATERAL get_campaign_call_counts(
+          cc.id,
+          CASE WHEN cc.use_custom_timezone AND cc.campaign_timezone IS NOT NULL
+            THEN cc.campaign_timezone ELSE COALESCE(u.timezone, 'UTC') END
+        ) counts`;
+
 /**
  * In-Memory Campaign Scheduler
  * 
@@ -106,7 +128,7 @@ export class InMemoryCampaignScheduler {
           cc.campaign_timezone,
           cc.use_custom_timezone,
           cc.status,
-          u.timezone as user_timezone,
+          u.timezone as user_timezone,${CAMPAIGN_CALENDAR_COLUMNS},
           (
             SELECT COUNT(*) 
             FROM call_queue cq 
@@ -120,7 +142,7 @@ export class InMemoryCampaignScheduler {
               AND cq.status = 'queued'
           ) as next_scheduled_time
         FROM call_campaigns cc
-        JOIN users u ON u.id = cc.user_id
+        JOIN users u ON u.id = cc.user_id${CAMPAIGN_CALL_COUNTS_JOIN}
         WHERE cc.status = 'active'
           AND cc.first_call_time IS NOT NULL
           AND cc.last_call_time IS NOT NULL
@@ -134,26 +156,15 @@ export class InMemoryCampaignScheduler {
       for (const row of result.rows) {
         loadedCampaignIds.add(row.campaign_id);
         
-        // Determine effective timezone (campaign override OR user timezone OR UTC)
-        const effectiveTimezone = (row.use_custom_timezone && row.campaign_timezone) 
-          ? row.campaign_timezone 
-          : (row.user_timezone || 'UTC');
+        const window = this.toCampaignWindow(row);
+        const effectiveTimezone = window.timezone;
 
         console.log(`[Scheduler] Campaign ${row.campaign_id.slice(0,8)}: ${effectiveTimezone} ${row.first_call_time}-${row.last_call_time} (${row.queued_count} queued)`);
         
         // KEEP times in original timezone - don't convert to UTC
         // We'll convert current time to campaign timezone when checking
         if (row.queued_count > 0) {
-          this.campaignWindows.set(row.campaign_id, {
-            campaignId: row.campaign_id,
-            userId: row.user_id,
-            firstCallTime: row.first_call_time,  // Keep in campaign timezone
-            lastCallTime: row.last_call_time,    // Keep in campaign timezone
-            timezone: effectiveTimezone,         // Store the timezone
-            queuedCount: row.queued_count,
-            status: row.status,
-            nextScheduledTime: row.next_scheduled_time ? new Date(row.next_scheduled_time) : null
-          });
+          this.campaignWindows.set(row.campaign_id, window);
         } else {
           // Campaign has no queued calls - remove from memory
           this.campaignWindows.delete(row.campaign_id);
@@ -272,41 +283,33 @@ export class InMemoryCampaignScheduler {
 
   /**
    * Calculate when to wake database for a specific campaign
-   * NEW: Works in campaign's timezone, not UTC
+   * Works in the campaign's timezone and honours its weekday windows, blackout dates,
+   * daily/hourly caps and pace
    */
   private calculateNextWakeTimeForCampaign(
     window: CampaignWindow,
     now: Date
   ): Date | null {
     try {
-      // Get current time in campaign's timezone
-      const currentTimeInTZ = new Date(now.toLocaleString('en-US', { timeZone: window.timezone }));
-      const currentTimeString = currentTimeInTZ.toTimeString().slice(0, 8); // HH:MM:SS
-      
-      console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} (${window.timezone}): current=${currentTimeString}, window=${window.firstCallTime}-${window.lastCallTime}`);
-
-      // Check if currently within campaign window
-      if (currentTimeString >= window.firstCallTime && currentTimeString <= window.lastCallTime) {
-        // Check if we have a specific scheduled time in the future
-        if (window.nextScheduledTime && window.nextScheduledTime > now) {
-          console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} active but next call scheduled for ${window.nextScheduledTime.toISOString()}`);
-          return window.nextScheduledTime;
-        }
+      let wakeTime = CampaignCalendarService.getNextCallTime(window.calendar, window.callCounts, now);
 
-        console.log(`[Scheduler] ✅ Campaign ${window.campaignId.slice(0,8)} is ACTIVE NOW - wake immediately`);
-        return now; // Wake immediately
+      // Queued calls may all be scheduled later (e.g. retries)
+      if (wakeTime && window.nextScheduledTime && window.nextScheduledTime > wakeTime) {
+        wakeTime = CampaignCalendarService.getNextOpening(window.calendar, window.nextScheduledTime);
+      }
+
+      if (!wakeTime) {
+        console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} has no calling window ahead (weekly schedule / blackout dates)`);
+        return null;
       }
 
-      // Check if before campaign window today
-      if (currentTimeString < window.firstCallTime) {
-        console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} starts later today at ${window.firstCallTime}`);
-        // Calculate wake time: today at firstCallTime in campaign's timezone
-        return this.getTimeInTimezone(window.timezone, window.firstCallTime, now, false);
+      if (wakeTime <= now) {
+        console.log(`[Scheduler] ✅ Campaign ${window.campaignId.slice(0,8)} is ACTIVE NOW - wake immediately`);
+        return now; // Wake immediately
       }
 
-      // After campaign window - wake at first_call_time tomorrow
-      console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} ended today, will start tomorrow at ${window.firstCallTime}`);
-      return this.getTimeInTimezone(window.timezone, window.firstCallTime, now, true);
+      console.log(`[Scheduler] Campaign ${window.campaignId.slice(0,8)} (${window.timezone}) can dial next at ${wakeTime.toISOString()}`);
+      return wakeTime;
       
     } catch (error) {
       logger.error('Error calculating wake time for campaign', {
@@ -319,68 +322,56 @@ export class InMemoryCampaignScheduler {
   }
 
   /**
-   * Get a specific time today or tomorrow in a given timezone
-   * Returns a UTC Date object representing that local time in the specified timezone
+   * Whether a campaign may place a call right now (window, calendar, caps and pace)
+   * and has a queued call that is already due
    */
-  private getTimeInTimezone(timezone: string, timeString: string, referenceDate: Date, tomorrow: boolean): Date {
-    const [hours, minutes, seconds = '00'] = timeString.split(':').map(Number);
-    
-    // Get the current date components in the target timezone
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone,
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour12: false
-    });
-    
-    const parts = formatter.formatToParts(referenceDate);
-    let year = parseInt(parts.find(p => p.type === 'year')?.value || '0');
-    let month = parseInt(parts.find(p => p.type === 'month')?.value || '1');
-    let day = parseInt(parts.find(p => p.type === 'day')?.value || '1');
-    
-    if (tomorrow) {
-      day += 1;
+  private canDialNow(window: CampaignWindow, now: Date): boolean {
+    const nextCallTime = CampaignCalendarService.getNextCallTime(window.calendar, window.callCounts, now);
+    if (!nextCallTime || nextCallTime > now) {
+      return false;
     }
-    
-    // Construct the date-time string in ISO format (this is timezone-naive)
-    const isoString = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-    
-    // Parse as local time, then calculate what the UTC equivalent would be
-    // by using a known reference point to find the offset
-    const testDate = new Date();
-    const testFormatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: timezone,
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    });
-    
-    // Get offset between UTC and target timezone using the test date
-    const testParts = testFormatter.formatToParts(testDate);
-    const testYear = parseInt(testParts.find(p => p.type === 'year')?.value || '0');
-    const testMonth = parseInt(testParts.find(p => p.type === 'month')?.value || '1') - 1;
-    const testDay = parseInt(testParts.find(p => p.type === 'day')?.value || '1');
-    const testHour = parseInt(testParts.find(p => p.type === 'hour')?.value || '0');
-    const testMinute = parseInt(testParts.find(p => p.type === 'minute')?.value || '0');
-    const testSecond = parseInt(testParts.find(p => p.type === 'second')?.value || '0');
-    
-    // Create dates using Date.UTC to ensure they're in UTC
-    const testInTZ = Date.UTC(testYear, testMonth, testDay, testHour, testMinute, testSecond);
-    const testInUTC = testDate.getTime();
-    const offsetMs = testInUTC - testInTZ;
-    
-    // Now construct our target date in the timezone and apply the offset
-    const targetInTZ = Date.UTC(year, month - 1, day, hours, minutes, parseInt(seconds.toString()));
-    const targetInUTC = new Date(targetInTZ + offsetMs);
-    
-    console.log(`[Scheduler] getTimeInTimezone: ${timeString} in ${timezone} (tomorrow=${tomorrow}) = ${targetInUTC.toISOString()} UTC (offset=${offsetMs}ms)`);
-    
-    return targetInUTC;
+    return !window.nextScheduledTime || window.nextScheduledTime <= now;
+  }
+
+  /**
+   * Build a campaign's in-memory window from a schedule query row
+   */
+  private toCampaignWindow(row: any): CampaignWindow {
+    // Determine effective timezone (campaign override OR user timezone OR UTC)
+    const timezone = (row.use_custom_timezone && row.campaign_timezone)
+      ? row.campaign_timezone
+      : (row.user_timezone || 'UTC');
+
+    // Contact-timezone campaigns open somewhere around the clock; the queue processor moves each
+    // contact's scheduled_for to their local opening, so only caps, pace and due items apply here
+    const contactLocal = row.use_contact_timezone === true;
+
+    return {
+      campaignId: row.campaign_id,
+      userId: row.user_id,
+      firstCallTime: row.first_call_time,  // Keep in campaign timezone
+      lastCallTime: row.last_call_time,    // Keep in campaign timezone
+      timezone,                            // Store the timezone
+      queuedCount: row.queued_count,
+      status: row.status,
+      nextScheduledTime: row.next_scheduled_time ? new Date(row.next_scheduled_time) : null,
+      calendar: {
+        timezone,
+        first_call_time: contactLocal ? '00:00:00' : row.first_call_time,
+        last_call_time: contactLocal ? '23:59:59' : row.last_call_time,
+        weekly_schedule: contactLocal ? null : row.weekly_schedule,
+        blackout_dates: contactLocal ? [] : (row.blackout_dates || []),
+        max_calls_per_day: row.max_calls_per_day,
+        max_calls_per_hour: row.max_calls_per_hour,
+        call_pace_seconds: row.call_pace_seconds || 0
+      },
+      callCounts: {
+        calls_today: row.calls_today || 0,
+        calls_last_hour: row.calls_last_hour || 0,
+        oldest_call_last_hour: row.oldest_call_last_hour ? new Date(row.oldest_call_last_hour) : null,
+        last_call_at: row.last_call_at ? new Date(row.last_call_at) : null
+      }
+    };
   }
 
   /**
@@ -440,19 +431,34 @@ export class InMemoryCampaignScheduler {
       // Quick query to check if any campaigns still have queued calls in active windows
       const result = await database.query(`
         SELECT 
-          cc.id,
+          cc.id as campaign_id,
+          cc.user_id,
           cc.first_call_time,
           cc.last_call_time,
           cc.campaign_timezone,
           cc.use_custom_timezone,
-          u.timezone as user_timezone,
-          COUNT(cq.id) as queued_count
+          cc.status,
+          u.timezone as user_timezone,${CAMPAIGN_CALENDAR_COLUMNS},
+          (
+            SELECT COUNT(*)
+            FROM call_queue cq
+            WHERE cq.campaign_id = cc.id
+              AND cq.status = 'queued'
+          ) as queued_count,
+          (
+            SELECT MIN(scheduled_for)
+            FROM call_queue cq
+            WHERE cq.campaign_id = cc.id
+              AND cq.status = 'queued'
+          ) as next_scheduled_time
         FROM call_campaigns cc
-        INNER JOIN call_queue cq ON cc.id = cq.campaign_id
-        INNER JOIN users u ON cc.user_id = u.id
+        INNER JOIN users u ON cc.user_id = u.id${CAMPAIGN_CALL_COUNTS_JOIN}
         WHERE cc.status = 'active'
-          AND cq.status = 'queued'
-        GROUP BY cc.id, cc.first_call_time, cc.last_call_time, cc.campaign_timezone, cc.use_custom_timezone, u.timezone
+          AND EXISTS (
+            SELECT 1 FROM call_queue cq
+            WHERE cq.campaign_id = cc.id
+              AND cq.status = 'queued'
+          )
       `);
 
       if (result.rows.length === 0) {
@@ -462,25 +468,10 @@ export class InMemoryCampaignScheduler {
         return;
       }
 
-      // Check if any campaigns are in active window NOW (timezone-aware)
+      // Check if any campaign may dial NOW (timezone, calendar, caps and pace);
+      // otherwise sleep until the earliest one can
       const now = new Date();
-      let hasActiveCampaigns = false;
-
-      for (const row of result.rows) {
-        // Get campaign's timezone
-        const campaignTZ = (row.use_custom_timezone && row.campaign_timezone) 
-          ? row.campaign_timezone 
-          : (row.user_timezone || 'UTC');
-        
-        // Get current time in campaign's timezone
-        const currentTimeInTZ = new Date(now.toLocaleString('en-US', { timeZone: campaignTZ }));
-        const currentTimeString = currentTimeInTZ.toTimeString().slice(0, 8);
-        
-        if (currentTimeString >= row.first_call_time && currentTimeString <= row.last_call_time) {
-          hasActiveCampaigns = true;
-          break;
-        }
-      }
+      const hasActiveCampaigns = result.rows.some((row: any) => this.canDialNow(this.toCampaignWindow(row), now));
 
       if (hasActiveCampaigns) {
         // Campaign is still active - use adaptive interval for continuous processing
@@ -550,15 +541,11 @@ export class InMemoryCampaignScheduler {
       // Reload schedules from database
       await this.loadCampaignSchedules();
 
-      // Check if we should wake immediately (timezone-aware)
+      // Check if we should wake immediately (timezone, calendar, caps and pace)
       const now = new Date();
 
       for (const [id, window] of this.campaignWindows) {
-        // Get current time in campaign's timezone
-        const currentTimeInTZ = new Date(now.toLocaleString('en-US', { timeZone: window.timezone }));
-        const currentTimeString = currentTimeInTZ.toTimeString().slice(0, 8);
-        
-        if (currentTimeString >= window.firstCallTime && currentTimeString <= window.lastCallTime) {
+        if (this.canDialNow(window, now)) {
           // Campaign window is active NOW - check if already processing
           if (this.isProcessing) {
             logger.info('⚠️ Campaign active but already processing - will catch on next cycle', {
@@ -573,7 +560,6 @@ export class InMemoryCampaignScheduler {
             campaignId: id,
             timezone: window.timezone,
             timeWindow: `${window.firstCallTime}-${window.lastCallTime}`,
-            currentTime: currentTimeString,
             queuedCount: window.queuedCount
           });
           await this.wakeAndProcessQueue();
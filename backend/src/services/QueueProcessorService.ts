@@ -2,6 +2,9 @@ import { CallQueueModel } from '../models/CallQueue';
 import { CallCampaignModel } from '../models/CallCampaign';
 import { userService } from './userService';
 import { concurrencyManager } from './ConcurrencyManager';
+import { SuppressionService } from './suppressionService';
+import { BillingService } from './billingService';
+import { CampaignCalendarService } from './campaignCalendarService';
 import database from '../config/database';
 import crypto from 'crypto';
 import * as Sentry from '@sentry/node';
@@ -84,6 +87,9 @@ export class QueueProcessorService {
       // Wrap ALL async logic in immediately-invoked async function
       // This guarantees that promise rejections are caught by the catch block
       await (async () => {
+        // Step 0: Push contacts who are outside their local calling window to their next opening
+        await this.deferContactsOutsideWindow();
+
         // Step 1: Check system-wide limit
         const systemActiveCalls = await CallQueueModel.countSystemActiveCalls();
         
@@ -146,6 +152,40 @@ export class QueueProcessorService {
     }
   }
 
+  /**
+   * Reschedule due items of contact-timezone campaigns to the contact's next local opening
+   * Keeps night-time contacts from being picked up (and re-checked) on every pass.
+   */
+  private async deferContactsOutsideWindow(): Promise<void> {
+    const items = await CallQueueModel.findDueOutsideContactWindow(500);
+    if (items.length === 0) return;
+
+    const now = new Date();
+    const rescheduled: Array<{ id: string; scheduled_for: Date }> = [];
+
+    for (const item of items) {
+      const nextOpening = CampaignCalendarService.getNextOpening({
+        timezone: item.contact_timezone,
+        first_call_time: item.first_call_time,
+        last_call_time: item.last_call_time,
+        weekly_schedule: item.weekly_schedule,
+        blackout_dates: item.blackout_dates
+      }, now);
+
+      if (nextOpening) {
+        rescheduled.push({ id: item.id, scheduled_for: nextOpening });
+      } else {
+        await CallQueueModel.updateStatus(item.id, item.user_id, 'skipped', {
+          completed_at: now,
+          failure_reason: `No calling window ahead in contact timezone ${item.contact_timezone}`
+        });
+      }
+    }
+
+    const count = await CallQueueModel.reschedule(rescheduled);
+    console.log(`[QueueProcessor] Deferred ${count} contact(s) to their local calling window`);
+  }
+
   /**
    * Get users who have pending calls in queue
    */
@@ -182,9 +222,10 @@ export class QueueProcessorService {
    * Allocate next call for a user
    */
   private async allocateNextCall(userId: string): Promise<boolean> {
-    // First check if user has credits available
+    // First check if user has credits (allowing for their overdraft limit) or plan minutes available
     const user = await userService.getUserProfile(userId);
-    if (!user || user.credits <= 0) {
+    const creditBalance = user ? await BillingService.getCreditBalance(userId) : null;
+    if (!user || !creditBalance || !BillingService.canPlaceCalls(creditBalance)) {
       console.log(`[QueueProcessor] User ${userId} has insufficient credits (${user?.credits || 0}), pausing campaigns`);
       
       // Pause all active campaigns for this user
@@ -194,6 +235,8 @@ export class QueueProcessorService {
     }
 
     // Get next queued call using the database function
+    // (campaign calls only while the campaign's calendar, daily/hourly caps and pace allow;
+    // each call placed here counts toward them before the next allocation)
     const queueItem = await CallQueueModel.getNextQueued(userId);
     
     if (!queueItem || !queueItem.id) {
@@ -272,6 +315,30 @@ export class QueueProcessorService {
           }
         });
 
+        // Numbers added to the do-not-call list after being queued are skipped, not dialed
+        const suppression = await SuppressionService.checkRecipient(queueItem.user_id, {
+          phoneNumber: queueItem.phone_number,
+          contactId: queueItem.contact_id
+        });
+
+        if (suppression.suppressed) {
+          console.log(`[QueueProcessor] Skipping suppressed ${callType} call for queue_id: ${queueItem.id} (${suppression.reason})`);
+
+          await SuppressionService.recordBlockedSend(
+            queueItem.user_id,
+            { phoneNumber: queueItem.phone_number, contactId: queueItem.contact_id },
+            isDirectCall ? 'call' : 'campaign',
+            suppression,
+            { queue_id: queueItem.id, campaign_id: queueItem.campaign_id || null }
+          );
+          await CallQueueModel.updateStatus(queueItem.id, queueItem.user_id, 'skipped', {
+            completed_at: new Date(),
+            failure_reason: `Suppressed: ${suppression.reason}`
+          });
+
+          return;
+        }
+
         // **Use appropriate atomic slot reservation based on call type**
         const reservationResult = isDirectCall
           ? await concurrencyManager.atomicReserveDirectCallSlot(queueItem.user_id, callId)
@@ -292,8 +359,11 @@ export class QueueProcessorService {
           });
           
           // Keep item in queue but add failure reason for tracking
+          // (credits held by in-flight calls free up once those calls settle)
           await CallQueueModel.updateStatus(queueItem.id, queueItem.user_id, 'queued', {
-            failure_reason: `Concurrency limit: ${reservationResult.reason}`
+            failure_reason: reservationResult.insufficientCredits
+              ? 'Insufficient credits: available credits are reserved by in-flight calls'
+              : `Concurrency limit: ${reservationResult.reason}`
           });
           
           return;
@@ -413,7 +483,7 @@ export class QueueProcessorService {
             }
           });
           
-          await concurrencyManager.releaseCallSlot(callId);
+          await concurrencyManager.releaseCallSlot(callId, { releaseCredits: true });
           
           // Update queue item to failed status
           await CallQueueModel.updateStatus(queueItem.id, queueItem.user_id, 'failed', {
@@ -0,0 +1,157 @@
+/**
+ * Agent Prompt Service Tests
+ *
+ * Verifies prompt versioning and campaign prompt A/B tests:
+ * - Each version stores the changed lines against the previous one
+ * - Saving unchanged content creates no version and doesn't touch the provider
+ * - A rollback is saved as a new version with the old content
+ * - Contacts are split between variants deterministically by the campaign's percentage
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { AgentPromptService, AgentPromptError } from '../agentPromptService';
+import { diffLines, changedLines } from '../../utils/textDiff';
+import { pool } from '../../config/database';
+
+const updateAgentPrompt = jest.fn<(agentId: string, prompt: string) => Promise<void>>();
+
+jest.mock('../../config/database');
+jest.mock('../voiceProvider', () => ({
+  getVoiceProvider: () => ({ updateAgentPrompt })
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const agentRow = {
+  id: 'agent-1',
+  bolna_agent_id: 'bolna-1',
+  system_prompt: 'You are Asha.\nBook a demo.',
+  dynamic_information: 'Offer: 10% off'
+};
+
+const versionOne = {
+  id: 'version-1',
+  agent_id: 'agent-1',
+  version_number: 1,
+  system_prompt: 'You are Asha.\nBook a demo.',
+  dynamic_information: 'Offer: 10% off',
+  diff: [],
+  source: 'initial'
+};
+
+function mockTransaction(latest: any) {
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM agents')) return { rows: [agentRow] };
+      if (sql.includes('SELECT * FROM agent_prompt_versions')) return { rows: latest ? [latest] : [] };
+      if (sql.includes('INSERT INTO agent_prompt_versions')) {
+        return {
+          rows: [{
+            id: `version-${params[1]}`,
+            agent_id: params[0],
+            version_number: params[1],
+            system_prompt: params[2],
+            dynamic_information: params[3],
+            diff: JSON.parse(params[4]),
+            source: params[5],
+            rolled_back_to_version: params[6]
+          }]
+        };
+      }
+      return { rows: [] };
+    })
+  };
+  jest.mocked(pool.transaction).mockImplementation(async (callback: any) => callback(client));
+  return client;
+}
+
+describe('AgentPromptService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('diffs prompts line by line', () => {
+    const diff = changedLines(diffLines('You are Asha.\nBook a demo.\nBe brief.', 'You are Asha.\nBook a call.\nBe brief.'));
+
+    expect(diff).toEqual([
+      { type: 'removed', text: 'Book a demo.', oldLine: 2 },
+      { type: 'added', text: 'Book a call.', newLine: 2 }
+    ]);
+  });
+
+  test('saves an edit with its diff and pushes the combined prompt', async () => {
+    const client = mockTransaction(versionOne);
+
+    const { version, created } = await AgentPromptService.saveVersion(
+      'agent-1',
+      { system_prompt: 'You are Asha.\nBook a call.' },
+      { author: { id: 'user-1', name: 'Meera' } }
+    );
+
+    expect(created).toBe(true);
+    expect(version).toMatchObject({ version_number: 2, source: 'edit', dynamic_information: 'Offer: 10% off' });
+    expect(version.diff).toEqual([
+      { type: 'removed', text: 'Book a demo.', oldLine: 2, field: 'system_prompt' },
+      { type: 'added', text: 'Book a call.', newLine: 2, field: 'system_prompt' }
+    ]);
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('current_prompt_version_id = $4'))).toBe(true);
+    expect(updateAgentPrompt).toHaveBeenCalledWith('bolna-1', 'You are Asha.\nBook a call.\n\nOffer: 10% off');
+  });
+
+  test('does not create a version when the content is unchanged', async () => {
+    const client = mockTransaction(versionOne);
+
+    const { version, created } = await AgentPromptService.saveVersion('agent-1', { dynamic_information: 'Offer: 10% off' });
+
+    expect(created).toBe(false);
+    expect(version.id).toBe('version-1');
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('INSERT INTO agent_prompt_versions'))).toBe(false);
+    expect(updateAgentPrompt).not.toHaveBeenCalled();
+  });
+
+  test('rolls back by saving the old content as a new version', async () => {
+    const versionTwo = { ...versionOne, id: 'version-2', version_number: 2, system_prompt: 'You are Asha.\nBook a call.' };
+    jest.mocked(pool.query).mockResolvedValue({ rows: [versionOne] } as any);
+    mockTransaction(versionTwo);
+
+    const version = await AgentPromptService.rollback('agent-1', 'version-1', { id: 'user-1' });
+
+    expect(version).toMatchObject({
+      version_number: 3,
+      source: 'rollback',
+      rolled_back_to_version: 1,
+      system_prompt: 'You are Asha.\nBook a demo.'
+    });
+    expect(updateAgentPrompt).toHaveBeenCalledWith('bolna-1', 'You are Asha.\nBook a demo.\n\nOffer: 10% off');
+  });
+
+  test('refuses to roll back to the live version', async () => {
+    jest.mocked(pool.query).mockResolvedValue({ rows: [versionOne] } as any);
+    mockTransaction(versionOne);
+
+    const error = await AgentPromptService.rollback('agent-1', 'version-1').catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentPromptError);
+    expect(error.statusCode).toBe(409);
+  });
+
+  test('splits contacts between variants deterministically', () => {
+    const contacts = Array.from({ length: 1000 }, (_, i) => `contact-${i}`);
+    const variants = contacts.map(contact => AgentPromptService.assignVariant('campaign-1', contact, 30));
+
+    expect(contacts.map(contact => AgentPromptService.assignVariant('campaign-1', contact, 30))).toEqual(variants);
+    const shareB = variants.filter(variant => variant === 'B').length / contacts.length;
+    expect(shareB).toBeGreaterThan(0.25);
+    expect(shareB).toBeLessThan(0.35);
+
+    expect(contacts.every(contact => AgentPromptService.assignVariant('campaign-1', contact, 0) === 'A')).toBe(true);
+    expect(contacts.every(contact => AgentPromptService.assignVariant('campaign-1', contact, 100) === 'B')).toBe(true);
+  });
+});
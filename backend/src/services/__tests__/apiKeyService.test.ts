@@ -0,0 +1,162 @@
+/**
+ * API Key Service Tests
+ *
+ * Verifies per-user API keys for the external API:
+ * - Only the SHA-256 hash of a key is stored; the plaintext is returned once
+ * - Name, scope, rate limit and expiry validation
+ * - Rotation revokes the old key and links the new one to it
+ * - Authentication by hash and throttled last-used tracking
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ApiKeyService, ApiKeyValidationError, DEFAULT_API_KEY_RATE_LIMIT } from '../apiKeyService';
+import { ApiKeyModel, ApiKey } from '../../models/ApiKey';
+import { pool } from '../../config/database';
+
+jest.mock('../../models/ApiKey');
+jest.mock('../../config/database');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockCreate = jest.mocked(ApiKeyModel.create);
+const mockFindByUser = jest.mocked(ApiKeyModel.findByUser);
+const mockFindById = jest.mocked(ApiKeyModel.findById);
+const mockFindActiveByHash = jest.mocked(ApiKeyModel.findActiveByHash);
+const mockRevoke = jest.mocked(ApiKeyModel.revoke);
+const mockUpdate = jest.mocked(ApiKeyModel.update);
+const mockTouchLastUsed = jest.mocked(ApiKeyModel.touchLastUsed);
+const mockTransaction = jest.mocked(pool.transaction);
+
+const buildKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 'key-1',
+  user_id: 'user-123',
+  name: 'CRM sync',
+  key_prefix: 'ak_live_abcdef',
+  key_hash: 'hash',
+  scopes: ['contacts:read'],
+  rate_limit_per_minute: 60,
+  last_used_at: null,
+  last_used_ip: null,
+  expires_at: null,
+  revoked_at: null,
+  rotated_from_id: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindByUser.mockResolvedValue([]);
+    mockCreate.mockImplementation(async (params) => buildKey({
+      name: params.name,
+      key_prefix: params.keyPrefix,
+      scopes: params.scopes,
+      rate_limit_per_minute: params.rateLimitPerMinute,
+      rotated_from_id: params.rotatedFromId || null
+    }));
+    mockTouchLastUsed.mockResolvedValue(undefined);
+    mockTransaction.mockImplementation(async (callback: any) => callback({}));
+  });
+
+  describe('createKey', () => {
+    test('stores only the hash and returns the plaintext key once', async () => {
+      const { apiKey, key } = await ApiKeyService.createKey('user-123', {
+        name: ' CRM sync ',
+        scopes: ['contacts:read', 'contacts:read', 'calls:create']
+      });
+
+      expect(key).toMatch(/^ak_live_[A-Za-z0-9_-]{32}$/);
+      expect(apiKey.key_prefix).toBe(key.substring(0, 14));
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.keyHash).toBe(ApiKeyService.hashKey(key));
+      expect(params.keyHash).not.toContain(key);
+      expect(params.name).toBe('CRM sync');
+      expect(params.scopes).toEqual(['contacts:read', 'calls:create']);
+      expect(params.rateLimitPerMinute).toBe(DEFAULT_API_KEY_RATE_LIMIT);
+    });
+
+    test('rejects unknown scopes, invalid rate limits and past expiry dates', async () => {
+      await expect(ApiKeyService.createKey('user-123', { name: 'k', scopes: ['admin'] }))
+        .rejects.toThrow(ApiKeyValidationError);
+      await expect(ApiKeyService.createKey('user-123', { name: 'k', scopes: [] }))
+        .rejects.toThrow(ApiKeyValidationError);
+      await expect(ApiKeyService.createKey('user-123', { name: 'k', scopes: ['contacts:read'], rate_limit_per_minute: 0 }))
+        .rejects.toThrow(ApiKeyValidationError);
+      await expect(ApiKeyService.createKey('user-123', { name: 'k', scopes: ['contacts:read'], expires_at: '2000-01-01' }))
+        .rejects.toThrow(ApiKeyValidationError);
+      await expect(ApiKeyService.createKey('user-123', { name: '  ', scopes: ['contacts:read'] }))
+        .rejects.toThrow('name is required');
+
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateKey', () => {
+    test('rejects a name that is not a string as a validation error', async () => {
+      await expect(ApiKeyService.updateKey('user-123', 'key-1', { name: 42 as any }))
+        .rejects.toThrow(ApiKeyValidationError);
+      await expect(ApiKeyService.createKey('user-123', { name: {} as any, scopes: ['contacts:read'] }))
+        .rejects.toThrow('name is required');
+
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotateKey', () => {
+    test('revokes the old key and issues a linked replacement with the same settings', async () => {
+      mockFindById.mockResolvedValue(buildKey({ scopes: ['analytics:read'], rate_limit_per_minute: 120 }));
+      mockRevoke.mockResolvedValue(true);
+
+      const result = await ApiKeyService.rotateKey('user-123', 'key-1');
+
+      expect(mockRevoke).toHaveBeenCalledWith('key-1', 'user-123', expect.anything());
+      expect(result?.key).toMatch(/^ak_live_/);
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ scopes: ['analytics:read'], rateLimitPerMinute: 120, rotatedFromId: 'key-1' }),
+        expect.anything()
+      );
+    });
+
+    test('returns null for revoked keys', async () => {
+      mockFindById.mockResolvedValue(buildKey({ revoked_at: new Date() }));
+
+      await expect(ApiKeyService.rotateKey('user-123', 'key-1')).resolves.toBeNull();
+      expect(mockRevoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    test('looks keys up by hash and ignores values without the key prefix', async () => {
+      await expect(ApiKeyService.authenticate('not-a-key', '127.0.0.1')).resolves.toBeNull();
+      expect(mockFindActiveByHash).not.toHaveBeenCalled();
+
+      mockFindActiveByHash.mockResolvedValue(buildKey({ id: 'key-auth' }));
+
+      const apiKey = await ApiKeyService.authenticate('ak_live_secret', '127.0.0.1');
+
+      expect(apiKey?.id).toBe('key-auth');
+      expect(mockFindActiveByHash).toHaveBeenCalledWith(ApiKeyService.hashKey('ak_live_secret'));
+    });
+
+    test('records last use at most once per minute per key', async () => {
+      mockFindActiveByHash.mockResolvedValue(buildKey({ id: 'key-throttled' }));
+
+      await ApiKeyService.authenticate('ak_live_secret', '10.0.0.1');
+      await ApiKeyService.authenticate('ak_live_secret', '10.0.0.1');
+
+      expect(mockTouchLastUsed).toHaveBeenCalledTimes(1);
+      expect(mockTouchLastUsed).toHaveBeenCalledWith('key-throttled', '10.0.0.1');
+    });
+  });
+});
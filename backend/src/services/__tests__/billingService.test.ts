@@ -0,0 +1,155 @@
+/**
+ * Billing Service Tests
+ *
+ * Verifies the credit ledger:
+ * - Deductions past the overdraft limit are rejected and rolled back
+ * - A retried call completion does not charge the call twice
+ * - Call reservations hold at most the available balance
+ * - Negative admin adjustments stop at zero
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { BillingService, InsufficientCreditsError } from '../billingService';
+import { DatabaseService } from '../databaseService';
+import { configService } from '../configService';
+
+jest.mock('../../config/database');
+jest.mock('../databaseService');
+jest.mock('../notificationService', () => ({
+  notificationService: { sendNotification: jest.fn() }
+}));
+jest.mock('../configService', () => ({
+  configService: { get: jest.fn() }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+type QueryHandler = (sql: string, params: any[]) => { rows: any[] } | undefined;
+
+const config: Record<string, number> = {
+  credits_per_minute: 1,
+  billing_pulse_seconds: 60,
+  default_credit_overdraft_limit: 0,
+  credit_reservation_seconds: 300
+};
+
+let handler: QueryHandler;
+const executed: string[] = [];
+const client = {
+  query: jest.fn(async (sql: string, params: any[] = []) => {
+    executed.push(sql.trim());
+    return handler(sql, params) || { rows: [] };
+  }),
+  release: jest.fn()
+};
+
+const user = { id: 'user-1', email: 'owner@example.com', name: 'Owner', credits: '3.00', credit_overdraft_limit: null };
+
+describe('BillingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executed.length = 0;
+    jest.mocked(configService.get).mockImplementation(((key: string) => config[key]) as any);
+    jest.mocked(DatabaseService.getClient).mockResolvedValue(client as any);
+  });
+
+  test('rejects a deduction past the overdraft limit and rolls back', async () => {
+    handler = sql => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('UPDATE users')) return { rows: [] }; // Overdraft guard did not match
+      return undefined;
+    };
+
+    await expect(BillingService.deductCredits('user-1', 5, 'Manual deduction'))
+      .rejects.toBeInstanceOf(InsufficientCreditsError);
+
+    expect(executed).toContain('ROLLBACK');
+    expect(executed.some(sql => sql.includes('INSERT INTO credit_transactions'))).toBe(false);
+  });
+
+  test('does not charge a call twice when completion is retried', async () => {
+    const existing = { id: 'txn-1', amount: '-2.00', call_id: 'call-1' };
+    handler = sql => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('idempotency_key = $2')) return { rows: [existing] };
+      return undefined;
+    };
+
+    const result = await BillingService.processCallCredits('user-1', 'call-1', 90, '+15550100');
+
+    expect(result.transaction).toBe(existing);
+    expect(executed.some(sql => sql.includes('UPDATE users'))).toBe(false);
+    expect(executed).toContain('COMMIT');
+  });
+
+  test('posts call usage with the balance computed in SQL and settles the reservation', async () => {
+    handler = (sql, params) => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('UPDATE users')) return { rows: [{ ...user, credits: '1.00' }] };
+      if (sql.includes('INSERT INTO credit_transactions')) {
+        return { rows: [{ id: 'txn-2', amount: params[2], balance_before: params[3], balance_after: params[4] }] };
+      }
+      return undefined;
+    };
+
+    const result = await BillingService.processCallCredits('user-1', 'call-2', 90, '+15550100');
+
+    expect(result.creditsUsed).toBe(2);
+    expect(result.transaction).toMatchObject({ amount: -2, balance_before: 3, balance_after: 1 });
+    expect(executed.find(sql => sql.includes('UPDATE users'))).toContain('credits = credits + $2');
+    expect(executed.some(sql => sql.includes("SET status = 'settled'"))).toBe(true);
+  });
+
+  test('reserves at most the available balance for a call', async () => {
+    const holdParams: any[][] = [];
+    handler = (sql, params) => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('SUM(amount)')) return { rows: [{ held: '1.00' }] };
+      if (sql.includes('INSERT INTO credit_reservations')) {
+        holdParams.push(params);
+        return { rows: [{ amount: params[2] }] };
+      }
+      return undefined;
+    };
+
+    const result = await BillingService.reserveCallCredits('user-1', 'call-3');
+
+    // 3 credits - 1 held by another call = 2 available, less than the 5-minute estimate
+    expect(result).toEqual({ reserved: 2, available: 2 });
+    expect(holdParams[0].slice(0, 3)).toEqual(['user-1', 'call-3', 2]);
+  });
+
+  test('refuses a reservation when other calls hold the whole balance', async () => {
+    handler = sql => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('SUM(amount)')) return { rows: [{ held: '3.00' }] };
+      return undefined;
+    };
+
+    await expect(BillingService.reserveCallCredits('user-1', 'call-4'))
+      .rejects.toBeInstanceOf(InsufficientCreditsError);
+    expect(executed).toContain('ROLLBACK');
+  });
+
+  test('floors negative admin adjustments at zero', async () => {
+    handler = sql => {
+      if (sql.includes('FROM users WHERE id = $1 FOR UPDATE')) return { rows: [user] };
+      if (sql.includes('UPDATE users')) return { rows: [{ ...user, credits: '0.00' }] };
+      if (sql.includes('INSERT INTO credit_transactions')) return { rows: [{ id: 'txn-3' }] };
+      return undefined;
+    };
+
+    await BillingService.adminAdjustCredits('user-1', -10, 'Chargeback', 'admin-1');
+
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO credit_transactions'));
+    expect(executed.find(sql => sql.includes('UPDATE users'))).toContain('GREATEST(credits + $2, LEAST(credits, 0))');
+    expect(insert?.[1]?.[2]).toBe(-3); // Only the remaining balance is removed
+  });
+});
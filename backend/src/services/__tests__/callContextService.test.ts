@@ -0,0 +1,133 @@
+/**
+ * Call Context Service Tests
+ *
+ * Verifies the variables sent to the voice agent:
+ * - Agents without a mapping get the default variables
+ * - Values come from the contact, lead analysis and upload columns, with defaults and formats
+ * - Dates are formatted in the contact's timezone
+ * - Invalid mappings are rejected
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { CallContextService, CallVariableError } from '../callContextService';
+import LeadAnalytics from '../../models/LeadAnalytics';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../../models/LeadAnalytics', () => ({
+  __esModule: true,
+  default: { getCompleteAnalysisByContact: jest.fn() }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const contact: any = {
+  id: 'contact-1',
+  user_id: 'user-1',
+  name: 'Priya Sharma',
+  phone_number: '+919876543210',
+  company: 'Sharma Textiles',
+  email: null,
+  notes: 'Asked for a callback',
+  tags: ['wholesale', 'repeat'],
+  lead_stage: 'Qualified',
+  timezone: 'Asia/Kolkata',
+  last_contact_at: new Date('2026-03-04T20:00:00Z')
+};
+
+describe('CallContextService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(pool.query).mockResolvedValue({ rows: [{ timezone: 'America/New_York' }] } as any);
+    jest.mocked(LeadAnalytics.getCompleteAnalysisByContact).mockResolvedValue({
+      requirements: 'Bulk cotton orders',
+      transcript_summary: 'Interested in monthly supply',
+      custom_fields: { order_volume: '500 kg' }
+    } as any);
+  });
+
+  test('sends the default variables when the agent has no mapping', async () => {
+    const userData = await CallContextService.buildUserData({
+      agent: { id: 'agent-1', call_variables: null },
+      userId: 'user-1',
+      contact
+    });
+
+    expect(userData).toEqual({
+      lead_name: 'Priya Sharma',
+      business_name: 'Sharma Textiles',
+      email: '',
+      notes: 'Asked for a callback',
+      product_interest: 'Bulk cotton orders',
+      last_interaction_summary: 'Interested in monthly supply',
+      last_interaction_date: 'March 5, 2026' // 01:30 on the 5th in Kolkata
+    });
+  });
+
+  test('resolves a custom mapping with formats, defaults and upload columns', async () => {
+    const preview = await CallContextService.preview({
+      agent: {
+        id: 'agent-1',
+        call_variables: [
+          { key: 'first_name', source: 'contact', field: 'name', format: 'first_name' },
+          { key: 'tags', source: 'contact', field: 'tags' },
+          { key: 'stage', source: 'contact', field: 'lead_stage', format: 'uppercase' },
+          { key: 'volume', source: 'custom_field', field: 'order_volume' },
+          { key: 'branch', source: 'csv_column', field: 'branch' },
+          { key: 'email', source: 'contact', field: 'email', default: 'not shared' },
+          { key: 'offer', source: 'static', default: 'Free delivery this week' }
+        ]
+      },
+      userId: 'user-1',
+      contact,
+      csvColumns: { branch: 'Surat' }
+    });
+
+    expect(preview.user_data).toEqual({
+      first_name: 'Priya',
+      tags: 'wholesale, repeat',
+      stage: 'QUALIFIED',
+      volume: '500 kg',
+      branch: 'Surat',
+      email: 'not shared',
+      offer: 'Free delivery this week'
+    });
+    expect(preview.timezone).toBe('Asia/Kolkata');
+    expect(preview.variables.find(variable => variable.key === 'email')?.used_default).toBe(true);
+    expect(preview.variables.find(variable => variable.key === 'offer')?.used_default).toBe(false);
+  });
+
+  test('falls back to the campaign timezone, then the user timezone', async () => {
+    const agent = { id: 'agent-1', call_variables: [{ key: 'last', source: 'contact' as const, field: 'last_contact_at', format: 'datetime' as const }] };
+    const withoutTimezone = { ...contact, timezone: null };
+
+    const campaign = await CallContextService.preview({ agent, userId: 'user-1', contact: withoutTimezone, timezone: 'Europe/London' });
+    const user = await CallContextService.preview({ agent, userId: 'user-1', contact: withoutTimezone });
+
+    expect(campaign.timezone).toBe('Europe/London');
+    expect(campaign.user_data.last).toMatch(/^March 4, 2026.*8:00\sPM/);
+    expect(user.timezone).toBe('America/New_York');
+    expect(user.user_data.last).toMatch(/^March 4, 2026.*3:00\sPM/);
+  });
+
+  test('rejects invalid mappings', () => {
+    const reject = (variables: unknown) => expect(() => CallContextService.validateVariables(variables)).toThrow(CallVariableError);
+
+    reject({ key: 'lead_name' });
+    reject([{ key: '1st', source: 'contact', field: 'name' }]);
+    reject([{ key: 'name', source: 'contact', field: 'password_hash' }]);
+    reject([{ key: 'offer', source: 'static' }]);
+    reject([{ key: 'a', source: 'contact', field: 'name' }, { key: 'a', source: 'contact', field: 'email' }]);
+
+    expect(CallContextService.validateVariables([
+      { key: 'branch', source: 'csv_column', field: ' Branch Name ', extra: true }
+    ])).toEqual([{ key: 'branch', source: 'csv_column', field: 'branch_name' }]);
+  });
+});
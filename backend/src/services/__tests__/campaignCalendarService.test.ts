@@ -0,0 +1,113 @@
+/**
+ * Campaign Calendar Service Tests
+ *
+ * Verifies when a campaign may dial:
+ * - Weekday windows and blackout dates in the campaign timezone
+ * - Pace gap, rolling hourly cap and daily cap push the next call out
+ * - Invalid calendar settings are rejected
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { CampaignCalendar, CampaignCalendarService, CampaignCallCounts } from '../campaignCalendarService';
+
+const calendar: CampaignCalendar = {
+  timezone: 'Asia/Kolkata',
+  first_call_time: '09:00:00',
+  last_call_time: '18:00:00',
+  weekly_schedule: null,
+  blackout_dates: [],
+  max_calls_per_day: null,
+  max_calls_per_hour: null,
+  call_pace_seconds: 0
+};
+
+const noCalls: CampaignCallCounts = {
+  calls_today: 0,
+  calls_last_hour: 0,
+  oldest_call_last_hour: null,
+  last_call_at: null
+};
+
+// Wednesday 2026-03-04, 10:30 in Kolkata
+const wednesdayMorning = new Date('2026-03-04T05:00:00Z');
+
+describe('CampaignCalendarService', () => {
+  test('follows weekday windows and skips blackout dates', () => {
+    expect(CampaignCalendarService.isOpen(calendar, wednesdayMorning)).toBe(true);
+
+    const weekdaysOnly: CampaignCalendar = {
+      ...calendar,
+      weekly_schedule: {
+        monday: { first_call_time: '09:00:00', last_call_time: '18:00:00' },
+        friday: { first_call_time: '12:00:00', last_call_time: '16:00:00' }
+      }
+    };
+    expect(CampaignCalendarService.isOpen(weekdaysOnly, wednesdayMorning)).toBe(false);
+    // Friday noon in Kolkata
+    expect(CampaignCalendarService.getNextOpening(weekdaysOnly, wednesdayMorning))
+      .toEqual(new Date('2026-03-06T06:30:00Z'));
+
+    const holiday = { ...weekdaysOnly, blackout_dates: ['2026-03-06'] };
+    // Monday 09:00 in Kolkata
+    expect(CampaignCalendarService.getNextOpening(holiday, wednesdayMorning))
+      .toEqual(new Date('2026-03-09T03:30:00Z'));
+  });
+
+  test('waits for the pace gap and the hourly and daily caps', () => {
+    expect(CampaignCalendarService.getNextCallTime(calendar, noCalls, wednesdayMorning)).toEqual(wednesdayMorning);
+
+    const paced = { ...calendar, call_pace_seconds: 90 };
+    expect(CampaignCalendarService.getNextCallTime(paced, {
+      ...noCalls,
+      last_call_at: new Date('2026-03-04T04:59:30Z')
+    }, wednesdayMorning)).toEqual(new Date('2026-03-04T05:01:00Z'));
+
+    const hourlyCap = { ...calendar, max_calls_per_hour: 10 };
+    expect(CampaignCalendarService.getNextCallTime(hourlyCap, {
+      ...noCalls,
+      calls_last_hour: 10,
+      oldest_call_last_hour: new Date('2026-03-04T04:20:00Z')
+    }, wednesdayMorning)).toEqual(new Date('2026-03-04T05:20:00Z'));
+
+    // Daily cap reached: next window opens tomorrow at 09:00 Kolkata
+    const dailyCap = { ...calendar, max_calls_per_day: 50 };
+    expect(CampaignCalendarService.getNextCallTime(dailyCap, { ...noCalls, calls_today: 50 }, wednesdayMorning))
+      .toEqual(new Date('2026-03-05T03:30:00Z'));
+
+    // A pace gap that runs past the window moves to the next window
+    const lateCall = new Date('2026-03-04T12:29:00Z'); // 17:59 in Kolkata
+    expect(CampaignCalendarService.getNextCallTime(paced, { ...noCalls, last_call_at: lateCall }, lateCall))
+      .toEqual(new Date('2026-03-05T03:30:00Z'));
+  });
+
+  test('handles daylight saving changes when opening a window', () => {
+    const newYork: CampaignCalendar = { ...calendar, timezone: 'America/New_York' };
+
+    // Saturday 2026-03-07 20:00 EST; clocks move forward on Sunday the 8th
+    expect(CampaignCalendarService.getNextOpening(newYork, new Date('2026-03-08T01:00:00Z')))
+      .toEqual(new Date('2026-03-08T13:00:00Z')); // 09:00 EDT
+  });
+
+  test('validates calendar settings', () => {
+    expect(CampaignCalendarService.validateSettings({
+      weekly_schedule: { Monday: { first_call_time: '09:00', last_call_time: '17:30' } } as any,
+      blackout_dates: ['2026-12-25', '2026-01-26', '2026-12-25'],
+      max_calls_per_day: '200' as any,
+      call_pace_seconds: null as any
+    })).toEqual({
+      weekly_schedule: { monday: { first_call_time: '09:00:00', last_call_time: '17:30:00' } },
+      blackout_dates: ['2026-01-26', '2026-12-25'],
+      max_calls_per_day: 200,
+      call_pace_seconds: 0
+    });
+    expect(CampaignCalendarService.validateSettings({})).toEqual({});
+
+    const reject = (settings: any) => expect(() => CampaignCalendarService.validateSettings(settings)).toThrow();
+    reject({ weekly_schedule: {} });
+    reject({ weekly_schedule: { funday: { first_call_time: '09:00', last_call_time: '17:00' } } });
+    reject({ weekly_schedule: { monday: { first_call_time: '18:00', last_call_time: '09:00' } } });
+    reject({ blackout_dates: ['25/12/2026'] });
+    reject({ max_calls_per_hour: 0 });
+    reject({ call_pace_seconds: 7200 });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Contact Timezone Service Tests
+ *
+ * Verifies how a contact's timezone is determined:
+ * - The contact's own timezone wins
+ * - Then city, +1 area code, country name and calling code
+ * - Nothing is guessed for numbers without an international prefix
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ContactTimezoneService } from '../contactTimezoneService';
+
+describe('ContactTimezoneService', () => {
+  test('prefers the contact timezone and then the city', () => {
+    expect(ContactTimezoneService.resolve({ timezone: 'Europe/Berlin', city: 'Mumbai', phone_number: '+91 9876543210' }))
+      .toEqual({ timezone: 'Europe/Berlin', source: 'contact' });
+
+    // Invalid override falls through to the city
+    expect(ContactTimezoneService.resolve({ timezone: 'Mars/Base', city: 'Los Angeles', country: 'USA' }))
+      .toEqual({ timezone: 'America/Los_Angeles', source: 'city' });
+
+    // A city on another continent than the number is ignored
+    expect(ContactTimezoneService.resolve({ city: 'Paris', phone_number: '+1 415 555 0100' }))
+      .toEqual({ timezone: 'America/Los_Angeles', source: 'area_code' });
+  });
+
+  test('falls back to area code, country and calling code', () => {
+    expect(ContactTimezoneService.resolve({ phone_number: '+1 (312) 555-0100' }))
+      .toEqual({ timezone: 'America/Chicago', source: 'area_code' });
+    expect(ContactTimezoneService.resolve({ country: 'United Kingdom', phone_number: '+91 9876543210' }))
+      .toEqual({ timezone: 'Europe/London', source: 'country' });
+    expect(ContactTimezoneService.resolve({ phone_number: '0061 2 9876 5432' }))
+      .toEqual({ timezone: 'Australia/Sydney', source: 'phone' });
+  });
+
+  test('returns null when nothing identifies the contact', () => {
+    expect(ContactTimezoneService.resolve({ phone_number: '9876543210' })).toBeNull();
+    expect(ContactTimezoneService.resolve({})).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Email Bounce Service Tests
+ *
+ * Verifies bounce and complaint handling for the email providers:
+ * - ZeptoMail webhook bodies are parsed into delivery events with their send reference
+ * - Hard bounces and complaints mark the contact and suppress the address
+ * - Soft bounces only suppress once SOFT_BOUNCE_LIMIT is reached
+ * - SMTP send errors are classified into hard/soft bounces and retryable failures
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { EmailBounceService, SOFT_BOUNCE_LIMIT } from '../emailBounceService';
+import { SuppressionService } from '../suppressionService';
+import { classifySmtpError } from '../smtpEmailProvider';
+import { EmailSenderIdentityModel } from '../../models/EmailSenderIdentity';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../../models/EmailSenderIdentity');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockQuery = jest.mocked(pool.query);
+const mockFindIdentity = jest.mocked(EmailSenderIdentityModel.findById);
+
+const zeptoMailBody = (eventName: string, details: Record<string, any>) => ({
+  event_name: [eventName],
+  event_message: [
+    {
+      email_info: {
+        client_reference: 'identity-1/tracking-1',
+        to: [{ email_address: { address: 'lead@example.com', name: 'Lead' } }]
+      },
+      event_data: [{ object: eventName, details: [details] }]
+    }
+  ]
+});
+
+describe('EmailBounceService', () => {
+  let addEntrySpy: jest.SpiedFunction<typeof SuppressionService.addEntry>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 } as any);
+    addEntrySpy = jest.spyOn(SuppressionService, 'addEntry').mockResolvedValue([]);
+  });
+
+  describe('parseZeptoMailWebhook', () => {
+    test('parses a hard bounce with its recipient, reason and reference', () => {
+      const events = EmailBounceService.parseZeptoMailWebhook(zeptoMailBody('hardbounce', {
+        bounced_recipient: 'lead@example.com',
+        reason: '550 5.1.1 User unknown',
+        time: '2026-10-18T10:00:00Z'
+      }));
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        eventType: 'hard_bounce',
+        recipient: 'lead@example.com',
+        reason: '550 5.1.1 User unknown',
+        reference: 'identity-1/tracking-1'
+      });
+      expect(events[0].occurredAt.toISOString()).toBe('2026-10-18T10:00:00.000Z');
+    });
+
+    test('maps soft bounces and spam complaints', () => {
+      expect(EmailBounceService.parseZeptoMailWebhook(zeptoMailBody('softbounce', { reason: 'Mailbox full' }))[0])
+        .toMatchObject({ eventType: 'soft_bounce', recipient: 'lead@example.com' });
+      expect(EmailBounceService.parseZeptoMailWebhook(zeptoMailBody('feedback_loop', {}))[0])
+        .toMatchObject({ eventType: 'complaint', recipient: 'lead@example.com' });
+    });
+
+    test('ignores opens, clicks and malformed bodies', () => {
+      expect(EmailBounceService.parseZeptoMailWebhook(zeptoMailBody('email_open', {}))).toEqual([]);
+      expect(EmailBounceService.parseZeptoMailWebhook(undefined)).toEqual([]);
+      expect(EmailBounceService.parseZeptoMailWebhook({ event_message: 'nope' })).toEqual([]);
+    });
+  });
+
+  describe('handleZeptoMailWebhook', () => {
+    test('skips events whose reference does not match a sender', async () => {
+      mockFindIdentity.mockResolvedValue(null);
+
+      const recorded = await EmailBounceService.handleZeptoMailWebhook(zeptoMailBody('hardbounce', {
+        bounced_recipient: 'lead@example.com'
+      }));
+
+      expect(recorded).toBe(0);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordEvent', () => {
+    test('a hard bounce marks the contact bounced and suppresses the address', async () => {
+      await EmailBounceService.recordEvent({
+        userId: 'user-123',
+        provider: 'smtp',
+        eventType: 'hard_bounce',
+        recipient: ' Lead@Example.com ',
+        reason: 'User unknown',
+        emailId: 'email-1'
+      });
+
+      const statements = mockQuery.mock.calls.map(call => String(call[0]));
+      expect(statements.some(sql => sql.includes('INSERT INTO email_delivery_events'))).toBe(true);
+      expect(statements.some(sql => sql.includes("status = 'bounced'") && sql.includes('UPDATE emails'))).toBe(true);
+
+      const contactUpdate = mockQuery.mock.calls.find(call => String(call[0]).includes('SET email_status = $3'));
+      expect(contactUpdate?.[1]).toEqual(['user-123', 'lead@example.com', 'bounced', 'User unknown']);
+
+      expect(addEntrySpy).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ email: 'lead@example.com', reason: 'bounced' }),
+        'bounce',
+        { type: 'system' }
+      );
+    });
+
+    test('a complaint suppresses the address as a complaint', async () => {
+      await EmailBounceService.recordEvent({
+        userId: 'user-123',
+        provider: 'zeptomail',
+        eventType: 'complaint',
+        recipient: 'lead@example.com'
+      });
+
+      expect(addEntrySpy).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ email: 'lead@example.com', reason: 'complaint' }),
+        'bounce',
+        { type: 'system' }
+      );
+    });
+
+    test('soft bounces only suppress once the limit is reached', async () => {
+      const softBounce = () => EmailBounceService.recordEvent({
+        userId: 'user-123',
+        provider: 'smtp',
+        eventType: 'soft_bounce',
+        recipient: 'lead@example.com',
+        reason: 'Mailbox full'
+      });
+
+      mockQuery.mockImplementation(async (sql: any) => (
+        String(sql).includes('email_soft_bounce_count + 1')
+          ? { rows: [{ email_soft_bounce_count: SOFT_BOUNCE_LIMIT - 1 }], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      ) as any);
+      await softBounce();
+      expect(addEntrySpy).not.toHaveBeenCalled();
+
+      mockQuery.mockImplementation(async (sql: any) => (
+        String(sql).includes('email_soft_bounce_count + 1')
+          ? { rows: [{ email_soft_bounce_count: SOFT_BOUNCE_LIMIT }], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      ) as any);
+      await softBounce();
+      expect(addEntrySpy).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ email: 'lead@example.com', reason: 'bounced' }),
+        'bounce',
+        { type: 'system' }
+      );
+    });
+
+    test('ignores events with an invalid recipient', async () => {
+      await EmailBounceService.recordEvent({
+        userId: 'user-123',
+        provider: 'gmail',
+        eventType: 'hard_bounce',
+        recipient: 'not-an-email'
+      });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(addEntrySpy).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('classifySmtpError', () => {
+  test('treats a 5xx recipient rejection as a hard bounce', () => {
+    expect(classifySmtpError({ code: 'EENVELOPE', responseCode: 550 })).toEqual({ retryable: false, bounce: 'hard' });
+  });
+
+  test('treats a 4xx recipient rejection as a retryable soft bounce', () => {
+    expect(classifySmtpError({ code: 'EENVELOPE', responseCode: 452 })).toEqual({ retryable: true, bounce: 'soft' });
+  });
+
+  test('does not retry authentication failures', () => {
+    expect(classifySmtpError({ code: 'EAUTH', responseCode: 535 })).toEqual({ retryable: false });
+  });
+
+  test('retries connection failures and temporary server errors', () => {
+    expect(classifySmtpError({ code: 'ETIMEDOUT' })).toEqual({ retryable: true });
+    expect(classifySmtpError({ code: 'EMESSAGE', responseCode: 421 })).toEqual({ retryable: true });
+    expect(classifySmtpError({ code: 'EMESSAGE', responseCode: 554 })).toEqual({ retryable: false });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Flow Matching Service Tests
+ *
+ * Verifies trigger matching for auto engagement flows:
+ * - Flows without event conditions only run on contact creation
+ * - Event trigger conditions are compared against the event data
+ * - Numeric operators for lead score triggers
+ * - Validation of flows mixing several trigger events
+ * - Contact conditions: tags, numeric/regex operators and nested AND/OR groups
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { FlowMatchingService } from '../flowMatchingService';
+import { AutoEngagementFlowModel } from '../../models/AutoEngagementFlow';
+import { FlowWithDetails } from '../../types/autoEngagement';
+import { ContactInterface } from '../../models/Contact';
+import { pool } from '../../config/database';
+
+jest.mock('../../models/AutoEngagementFlow');
+jest.mock('../../models/FlowExecution');
+jest.mock('../../config/database');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockFindEnabledFlows = jest.mocked(AutoEngagementFlowModel.findEnabledFlowsForMatching);
+const mockQuery = jest.mocked(pool.query);
+
+type TestCondition = {
+  id?: string;
+  parent_id?: string | null;
+  condition_type: string;
+  condition_operator: string;
+  condition_value: string | null;
+  field_name?: string | null;
+};
+
+const buildFlow = (
+  id: string,
+  priority: number,
+  conditions: TestCondition[]
+): FlowWithDetails => ({
+  id,
+  user_id: 'user-123',
+  name: `Flow ${id}`,
+  description: null,
+  is_enabled: true,
+  priority,
+  use_custom_business_hours: false,
+  business_hours_start: null,
+  business_hours_end: null,
+  business_hours_timezone: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  created_by: null,
+  trigger_conditions: conditions.map((condition, index) => ({
+    id: `${id}-condition-${index}`,
+    flow_id: id,
+    parent_id: null,
+    field_name: null,
+    condition_order: index,
+    created_at: new Date(),
+    ...condition
+  })) as FlowWithDetails['trigger_conditions'],
+  actions: []
+});
+
+describe('FlowMatchingService', () => {
+  const contact = {
+    id: 'contact-789',
+    user_id: 'user-123',
+    name: 'John Doe',
+    phone_number: '+919876543210',
+    tags: [],
+    auto_creation_source: 'IndiaMART'
+  } as unknown as ContactInterface;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTriggerEvent', () => {
+    test('should default to contact creation without event conditions', () => {
+      expect(FlowMatchingService.getTriggerEvent([])).toBe('contact_created');
+      expect(FlowMatchingService.getTriggerEvent([{ condition_type: 'lead_source' }])).toBe('contact_created');
+    });
+
+    test('should map event conditions to their event', () => {
+      expect(FlowMatchingService.getTriggerEvent([{ condition_type: 'call_lead_score' }])).toBe('call_completed');
+      expect(FlowMatchingService.getTriggerEvent([
+        { condition_type: 'lead_source' },
+        { condition_type: 'email_clicked' }
+      ])).toBe('email_clicked');
+    });
+  });
+
+  describe('validateTriggerEvents', () => {
+    test('should accept conditions for a single event', () => {
+      const result = FlowMatchingService.validateTriggerEvents([
+        { condition_type: 'call_completed' },
+        { condition_type: 'call_lead_score' },
+        { condition_type: 'lead_source' }
+      ]);
+      expect(result.valid).toBe(true);
+    });
+
+    test('should find events inside condition groups', () => {
+      const result = FlowMatchingService.validateTriggerEvents([
+        { condition_type: 'email_opened' },
+        {
+          condition_type: 'group',
+          conditions: [{ condition_type: 'city' }, { condition_type: 'call_completed' }]
+        }
+      ]);
+      expect(result.valid).toBe(false);
+    });
+
+    test('should reject conditions mixing events', () => {
+      const result = FlowMatchingService.validateTriggerEvents([
+        { condition_type: 'email_opened' },
+        { condition_type: 'lead_stage_changed' }
+      ]);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('email_opened');
+    });
+  });
+
+  describe('findMatchingFlow', () => {
+    test('should not run event flows on contact creation', async () => {
+      mockFindEnabledFlows.mockResolvedValue([
+        buildFlow('stage', 0, [{ condition_type: 'lead_stage_changed', condition_operator: 'any', condition_value: null }]),
+        buildFlow('created', 1, [{ condition_type: 'lead_source', condition_operator: 'equals', condition_value: 'indiamart' }])
+      ]);
+
+      const result = await FlowMatchingService.findMatchingFlow('user-123', contact);
+
+      expect(result.matched).toBe(true);
+      expect(result.flow?.id).toBe('created');
+    });
+
+    test('should match lead stage changes against the new stage', async () => {
+      mockFindEnabledFlows.mockResolvedValue([
+        buildFlow('created', 0, []),
+        buildFlow('stage', 1, [{ condition_type: 'lead_stage_changed', condition_operator: 'equals', condition_value: 'Contacted' }])
+      ]);
+
+      const matched = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'lead_stage_changed',
+        data: { new_stage: 'contacted', previous_stage: 'New Lead' }
+      });
+      expect(matched.flow?.id).toBe('stage');
+
+      const notMatched = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'lead_stage_changed',
+        data: { new_stage: 'Qualified', previous_stage: 'Contacted' }
+      });
+      expect(notMatched.matched).toBe(false);
+    });
+
+    test('should compare lead scores numerically', async () => {
+      mockFindEnabledFlows.mockResolvedValue([
+        buildFlow('hot', 0, [
+          { condition_type: 'call_lead_score', condition_operator: 'greater_than', condition_value: '70' },
+          { condition_type: 'call_completed', condition_operator: 'equals', condition_value: 'High' }
+        ]),
+        buildFlow('cold', 1, [{ condition_type: 'call_lead_score', condition_operator: 'less_than', condition_value: '30' }])
+      ]);
+
+      const hot = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'call_completed',
+        data: { call_id: 'call-1', lead_score: 85, intent_level: 'High' }
+      });
+      expect(hot.flow?.id).toBe('hot');
+
+      const cold = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'call_completed',
+        data: { call_id: 'call-2', lead_score: 12, intent_level: 'Low' }
+      });
+      expect(cold.flow?.id).toBe('cold');
+
+      const neither = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'call_completed',
+        data: { call_id: 'call-3', lead_score: 50, intent_level: 'Medium' }
+      });
+      expect(neither.matched).toBe(false);
+    });
+
+    test('should match clicked links and WhatsApp buttons', async () => {
+      mockFindEnabledFlows.mockResolvedValue([
+        buildFlow('pricing', 0, [{ condition_type: 'email_clicked', condition_operator: 'contains', condition_value: '/pricing' }]),
+        buildFlow('demo', 1, [{ condition_type: 'whatsapp_button_clicked', condition_operator: 'equals', condition_value: 'Book a demo' }])
+      ]);
+
+      const click = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'email_clicked',
+        data: { email_id: 'email-1', clicked_url: 'https://example.com/pricing?ref=mail' }
+      });
+      expect(click.flow?.id).toBe('pricing');
+
+      const button = await FlowMatchingService.findMatchingFlow('user-123', contact, {
+        type: 'whatsapp_button_clicked',
+        data: { button_text: 'book a demo' }
+      });
+      expect(button.flow?.id).toBe('demo');
+    });
+  });
+
+  describe('contact conditions', () => {
+    const lead = {
+      ...contact,
+      city: 'Pune',
+      country: 'India',
+      lead_stage: 'Qualified',
+      tags: ['VIP', 'expo-2026'],
+      company: 'Acme Exports'
+    } as unknown as ContactInterface;
+
+    const matches = async (conditions: TestCondition[], target: ContactInterface = lead): Promise<boolean> => {
+      mockFindEnabledFlows.mockResolvedValue([buildFlow('flow', 0, conditions)]);
+      return (await FlowMatchingService.findMatchingFlow('user-123', target)).matched;
+    };
+
+    test('should match nested AND/OR groups', async () => {
+      // IndiaMART leads in Mumbai OR Pune
+      const conditions: TestCondition[] = [
+        { condition_type: 'lead_source', condition_operator: 'equals', condition_value: 'indiamart' },
+        { id: 'cities', condition_type: 'group', condition_operator: 'or', condition_value: null },
+        { parent_id: 'cities', condition_type: 'city', condition_operator: 'equals', condition_value: 'Mumbai' },
+        { parent_id: 'cities', condition_type: 'city', condition_operator: 'equals', condition_value: 'pune' }
+      ];
+
+      expect(await matches(conditions)).toBe(true);
+      expect(await matches(conditions, { ...lead, city: 'Delhi' } as ContactInterface)).toBe(false);
+      expect(await matches(conditions, { ...lead, auto_creation_source: 'TradeIndia' } as ContactInterface)).toBe(false);
+    });
+
+    test('should match tag membership', async () => {
+      expect(await matches([{ condition_type: 'tag', condition_operator: 'equals', condition_value: 'vip' }])).toBe(true);
+      expect(await matches([{ condition_type: 'tag', condition_operator: 'not_equals', condition_value: 'VIP' }])).toBe(false);
+      expect(await matches([{ condition_type: 'tag', condition_operator: 'matches_regex', condition_value: '^expo-\\d+$' }])).toBe(true);
+    });
+
+    test('should match lead stage and country', async () => {
+      expect(await matches([
+        { condition_type: 'lead_stage', condition_operator: 'equals', condition_value: 'qualified' },
+        { condition_type: 'country', condition_operator: 'not_equals', condition_value: 'USA' }
+      ])).toBe(true);
+    });
+
+    test('should not match invalid regexes', async () => {
+      expect(await matches([{ condition_type: 'city', condition_operator: 'matches_regex', condition_value: '(' }])).toBe(false);
+    });
+
+    test('should compare lead analytics custom fields numerically', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ custom_fields: { budget: '₹75,000', quantity: '2.5 lakh' } }] } as never);
+
+      expect(await matches([
+        { condition_type: 'custom_field', condition_operator: 'greater_than', condition_value: '50k', field_name: 'budget' }
+      ])).toBe(true);
+      expect(await matches([
+        { condition_type: 'custom_field', condition_operator: 'between', condition_value: '200000,300000', field_name: 'quantity' }
+      ])).toBe(true);
+      expect(await matches([
+        { condition_type: 'custom_field', condition_operator: 'less_than', condition_value: '50000', field_name: 'budget' }
+      ])).toBe(false);
+    });
+
+    test('should prefer contact properties over lead analytics custom fields', async () => {
+      expect(await matches([
+        { condition_type: 'custom_field', condition_operator: 'contains', condition_value: 'acme', field_name: 'company' }
+      ])).toBe(true);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
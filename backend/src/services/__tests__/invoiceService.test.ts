@@ -0,0 +1,112 @@
+/**
+ * Invoice Service Tests
+ *
+ * Verifies invoice tax and numbering:
+ * - Tax is backed out of tax-inclusive purchase totals
+ * - GST splits into CGST + SGST within the seller's state, IGST otherwise
+ * - A purchase that already has an issued invoice gets no second number
+ * - GSTINs on billing profiles are validated
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { InvoiceService, InvoiceError } from '../invoiceService';
+import { BillingProfileModel } from '../../models/BillingProfile';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../../models/BillingProfile', () => ({
+  ...(jest.requireActual('../../models/BillingProfile') as object),
+  BillingProfileModel: { findByUser: jest.fn(), upsert: jest.fn() }
+}));
+jest.mock('../stripeService', () => ({
+  StripeService: { getPricingConfig: () => ({ pricePerCredit: 1, minimumPurchase: 1, currency: 'inr' }) }
+}));
+jest.mock('../configService', () => ({
+  configService: { get: jest.fn() }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const gst = { taxName: 'GST', ratePercent: 18, sellerRegion: '29' };
+
+describe('InvoiceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('splits GST into CGST and SGST for a buyer in the seller state', () => {
+    const tax = InvoiceService.computeTaxLines(118, gst, '29');
+
+    expect(tax.subtotal).toBe(100);
+    expect(tax.taxTotal).toBe(18);
+    expect(tax.taxLines).toEqual([
+      { name: 'CGST', rate_percent: 9, amount: 9 },
+      { name: 'SGST', rate_percent: 9, amount: 9 }
+    ]);
+  });
+
+  test('charges IGST for a buyer in another state or without a region', () => {
+    expect(InvoiceService.computeTaxLines(118, gst, '27').taxLines).toEqual([
+      { name: 'IGST', rate_percent: 18, amount: 18 }
+    ]);
+    expect(InvoiceService.computeTaxLines(118, gst, null).taxLines[0].name).toBe('IGST');
+  });
+
+  test('keeps the split tax equal to the total tax when halves round', () => {
+    const tax = InvoiceService.computeTaxLines(10, gst, '29');
+
+    // 10 / 1.18 = 8.47, tax 1.53 split 0.77 + 0.76
+    expect(tax.subtotal).toBe(8.47);
+    expect(tax.taxLines.map(line => line.amount)).toEqual([0.77, 0.76]);
+    expect(tax.subtotal + tax.taxLines[0].amount + tax.taxLines[1].amount).toBeCloseTo(10, 2);
+  });
+
+  test('uses a single line for other taxes and none when no tax is configured', () => {
+    expect(InvoiceService.computeTaxLines(120, { taxName: 'VAT', ratePercent: 20, sellerRegion: '' }, null)).toEqual({
+      subtotal: 100,
+      taxTotal: 20,
+      taxLines: [{ name: 'VAT', rate_percent: 20, amount: 20 }]
+    });
+    expect(InvoiceService.computeTaxLines(50, { taxName: '', ratePercent: 0, sellerRegion: '' }, null).taxLines).toEqual([]);
+  });
+
+  test('returns the issued invoice instead of taking a new number', async () => {
+    const existing = { id: 'inv-1', invoice_number: 'INV-000001', user_id: 'user-1', subtotal: '100.00', tax_total: '18.00', total: '118.00' };
+    const client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM credit_transactions')) return { rows: [{ id: 'txn-1', user_id: 'user-1', type: 'purchase', amount: '118.00' }] };
+        if (sql.includes('FROM invoices')) return { rows: [existing] };
+        return { rows: [] };
+      })
+    };
+    jest.mocked(pool.transaction).mockImplementation(async (callback: any) => callback(client));
+
+    const invoice = await InvoiceService.createPurchaseInvoice('txn-1');
+
+    expect(invoice).toMatchObject({ invoice_number: 'INV-000001', total: 118 });
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('invoice_sequences'))).toBe(false);
+  });
+
+  test('rejects an invalid GSTIN on the billing profile', async () => {
+    await expect(InvoiceService.updateBillingProfile('user-1', { tax_id: '29ABCDE1234', tax_id_type: 'gstin' }))
+      .rejects.toBeInstanceOf(InvoiceError);
+
+    await InvoiceService.updateBillingProfile('user-1', { tax_id: '29abcde1234f1z5', tax_id_type: 'gstin', country: 'in' });
+    expect(BillingProfileModel.upsert).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      tax_id: '29ABCDE1234F1Z5',
+      country: 'IN'
+    }));
+  });
+
+  test('formats sequential invoice numbers', () => {
+    expect(InvoiceService.formatInvoiceNumber('INV', 42)).toBe('INV-000042');
+    expect(InvoiceService.formatInvoiceNumber('', 7)).toBe('000007');
+  });
+});
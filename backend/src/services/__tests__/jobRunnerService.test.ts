@@ -0,0 +1,136 @@
+/**
+ * Job Runner Service Tests
+ *
+ * Verifies how claimed background jobs finish:
+ * - A successful run completes the job
+ * - A failed attempt is retried with exponential backoff
+ * - The last failed attempt dead-letters the job and runs the dead letter handler
+ * - Jobs without a handler fail instead of being dropped
+ * - A deferred job is rescheduled without counting a failed attempt
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { JobRunnerService, JobDeferredError } from '../jobRunnerService';
+import { BackgroundJobModel } from '../../models/BackgroundJob';
+import { BackgroundJob } from '../../types/job';
+
+jest.mock('../../models/BackgroundJob', () => ({
+  BackgroundJobModel: {
+    deadLetterExpired: jest.fn(),
+    claimDue: jest.fn(),
+    extendLease: jest.fn(),
+    markCompleted: jest.fn(),
+    markFailed: jest.fn(),
+    defer: jest.fn()
+  }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const model = BackgroundJobModel as jest.Mocked<typeof BackgroundJobModel>;
+
+const makeJob = (overrides: Partial<BackgroundJob> = {}): BackgroundJob => ({
+  id: 'job-1',
+  job_type: 'scheduled_email',
+  payload: { scheduledEmailId: 'email-1' },
+  user_id: null,
+  status: 'running',
+  run_at: new Date(),
+  attempts: 1,
+  max_attempts: 5,
+  last_error: null,
+  locked_by: 'worker',
+  locked_until: new Date(),
+  dedupe_key: null,
+  started_at: new Date(),
+  completed_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+const runWith = async (runner: JobRunnerService, job: BackgroundJob) => {
+  model.claimDue.mockResolvedValueOnce([job]);
+  return runner.processDueJobs();
+};
+
+describe('JobRunnerService', () => {
+  let runner: JobRunnerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    model.deadLetterExpired.mockResolvedValue([]);
+    model.claimDue.mockResolvedValue([]);
+    runner = new JobRunnerService();
+  });
+
+  test('completes a job whose handler succeeds', async () => {
+    const handler = jest.fn<(job: BackgroundJob) => Promise<void>>().mockResolvedValue(undefined);
+    runner.registerHandler('scheduled_email', handler);
+
+    expect(await runWith(runner, makeJob())).toBe(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }));
+    expect(model.markCompleted).toHaveBeenCalledWith('job-1', expect.any(String));
+    expect(model.markFailed).not.toHaveBeenCalled();
+  });
+
+  test('retries failed attempts with exponential backoff', async () => {
+    runner.registerHandler('scheduled_email', async () => {
+      throw new Error('Gmail rate limit');
+    });
+
+    const before = Date.now();
+    await runWith(runner, makeJob({ attempts: 3 }));
+
+    const [id, , error, retryAt] = model.markFailed.mock.calls[0];
+    expect(id).toBe('job-1');
+    expect(error).toBe('Gmail rate limit');
+    // 30s, 60s, then 120s after the third attempt
+    expect((retryAt as Date).getTime() - before).toBeGreaterThanOrEqual(120 * 1000);
+    expect((retryAt as Date).getTime() - before).toBeLessThan(125 * 1000);
+    expect(runner.getRetryDelaySeconds(20)).toBe(6 * 60 * 60);
+  });
+
+  test('dead-letters a job after its last attempt', async () => {
+    const onDeadLetter = jest.fn<(job: BackgroundJob, error: string) => Promise<void>>().mockResolvedValue(undefined);
+    runner.registerHandler('email_campaign', async () => {
+      throw new Error('Database unavailable');
+    }, onDeadLetter);
+
+    await runWith(runner, makeJob({ job_type: 'email_campaign', attempts: 5 }));
+
+    expect(model.markFailed).toHaveBeenCalledWith('job-1', expect.any(String), 'Database unavailable', null);
+    expect(onDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }), 'Database unavailable');
+  });
+
+  test('fails jobs that have no handler', async () => {
+    await runWith(runner, makeJob({ job_type: 'email_campaign' }));
+
+    expect(model.markCompleted).not.toHaveBeenCalled();
+    expect(model.markFailed).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+      'No handler registered for job type email_campaign',
+      expect.any(Date)
+    );
+  });
+
+  test('defers a job without recording a failure', async () => {
+    const runAt = new Date(Date.now() + 60 * 60 * 1000);
+    runner.registerHandler('email_campaign', async () => {
+      throw new JobDeferredError(runAt, 'Hourly email limit reached');
+    });
+
+    await runWith(runner, makeJob({ job_type: 'email_campaign', attempts: 5 }));
+
+    expect(model.defer).toHaveBeenCalledWith('job-1', expect.any(String), runAt, 'Hourly email limit reached');
+    expect(model.markFailed).not.toHaveBeenCalled();
+  });
+});
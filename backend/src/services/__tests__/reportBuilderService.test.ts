@@ -0,0 +1,104 @@
+/**
+ * Report Builder Service Tests
+ *
+ * Verifies that custom report definitions are safe to run:
+ * - Only whitelisted sources, dimensions, metrics, filters and operators are accepted
+ * - Filter values are passed as parameters, never interpolated into SQL
+ * - User reports are always scoped to the owner
+ * - Results are truncated at the row limit and exported as CSV
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ReportBuilderService, ReportValidationError } from '../reportBuilderService';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+const mockQuery = jest.mocked(pool.query);
+
+describe('ReportBuilderService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validateDefinition', () => {
+    test('rejects unknown sources, fields and operators', () => {
+      expect(() => ReportBuilderService.validateDefinition({ source: 'users', metrics: ['total_calls'] }))
+        .toThrow(ReportValidationError);
+      expect(() => ReportBuilderService.validateDefinition({ source: 'calls', metrics: ['password_hash'] }))
+        .toThrow('Unknown metrics: password_hash');
+      expect(() => ReportBuilderService.validateDefinition({
+        source: 'calls',
+        dimensions: ['status; DROP TABLE calls'],
+        metrics: ['total_calls']
+      })).toThrow(ReportValidationError);
+      expect(() => ReportBuilderService.validateDefinition({
+        source: 'calls',
+        metrics: ['total_calls'],
+        filters: [{ field: 'status', operator: 'gt', value: 'completed' }]
+      })).toThrow(ReportValidationError);
+    });
+
+    test('requires a metric and sorts only on selected fields', () => {
+      expect(() => ReportBuilderService.validateDefinition({ source: 'calls', metrics: [] }))
+        .toThrow('At least one metric is required');
+      expect(() => ReportBuilderService.validateDefinition({
+        source: 'calls',
+        dimensions: ['status'],
+        metrics: ['total_calls'],
+        sort: [{ field: 'c.user_id', direction: 'desc' }]
+      })).toThrow(ReportValidationError);
+    });
+  });
+
+  describe('compile', () => {
+    test('scopes user reports and parameterizes filter values', () => {
+      const definition = ReportBuilderService.validateDefinition({
+        source: 'calls',
+        dimensions: ['status'],
+        metrics: ['total_calls'],
+        filters: [{ field: 'lead_type', operator: 'eq', value: "inbound' OR 1=1 --" }],
+        date_range: { last_days: 7 }
+      });
+
+      const { sql, params } = ReportBuilderService.compile(definition, 'user-1', 'Asia/Kolkata');
+
+      expect(sql).not.toContain('OR 1=1');
+      expect(sql).toContain('c.user_id = $2');
+      expect(sql).toContain('GROUP BY 1');
+      expect(params).toEqual(['Asia/Kolkata', 'user-1', 7, "inbound' OR 1=1 --", 1001]);
+    });
+
+    test('system reports are not scoped and invalid timezones fall back to UTC', () => {
+      const definition = ReportBuilderService.validateDefinition({ source: 'calls', metrics: ['total_calls'] });
+
+      const { sql, params } = ReportBuilderService.compile(definition, null, 'Not/AZone');
+
+      expect(sql).not.toContain('user_id =');
+      expect(params[0]).toBe('UTC');
+    });
+  });
+
+  describe('runReport', () => {
+    test('flags truncated results and exports them as CSV', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { status: 'completed', total_calls: 5 },
+          { status: 'failed, busy', total_calls: 2 },
+          { status: 'no-answer', total_calls: 1 }
+        ]
+      } as any);
+
+      const result = await ReportBuilderService.runReport('user-1', {
+        source: 'calls',
+        dimensions: ['status'],
+        metrics: ['total_calls'],
+        limit: 2
+      });
+
+      expect(result.row_count).toBe(2);
+      expect(result.truncated).toBe(true);
+      expect(ReportBuilderService.toCsv(result).split('\n')[2]).toBe('"failed, busy",2');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Simulator Voice Provider Tests
+ *
+ * Verifies the local call simulator:
+ * - Answered calls go through the full webhook lifecycle with a transcript
+ * - Unanswered calls end with the outcome's failure status
+ * - Stopping an answered call bills the time talked so far
+ * - Configured outcome weights replace the default distribution
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { SimulatorVoiceProvider, parseOutcomes } from '../simulatorVoiceProvider';
+import { CallWebhookPayload } from '../../types/voiceProvider';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const request = {
+  agentId: 'agent-1',
+  toPhoneNumber: '+919876543210',
+  fromPhoneNumber: '+918000000000',
+  userData: { lead_name: 'Priya' },
+  metadata: { campaign_id: 'campaign-1' }
+};
+
+describe('SimulatorVoiceProvider', () => {
+  let delivered: CallWebhookPayload[];
+  const deliver = async (payload: CallWebhookPayload) => {
+    delivered.push(payload);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    delivered = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('delivers the full lifecycle with a transcript for an answered call', async () => {
+    const provider = new SimulatorVoiceProvider({ outcomes: { completed: 1 }, timeScale: 0.01, random: () => 0.5, deliver });
+
+    const { executionId } = await provider.placeCall(request);
+    await jest.runAllTimersAsync();
+
+    expect(delivered.map(payload => payload.status))
+      .toEqual(['initiated', 'ringing', 'in-progress', 'call-disconnected', 'completed']);
+    expect(delivered.every(payload => payload.id === executionId && payload.agent_id === 'agent-1')).toBe(true);
+
+    const completed = delivered[4];
+    expect(completed.conversation_duration).toBe(135); // 30 + floor(0.5 * 210)
+    expect(completed.transcript).toMatch(/^assistant: .*Priya/);
+    expect(completed.telephony_data.recording_url).toContain(executionId);
+    expect(completed.campaign_id).toBe('campaign-1');
+  });
+
+  test('ends an unanswered call with its failure status', async () => {
+    const provider = new SimulatorVoiceProvider({ outcomes: { 'no-answer': 1 }, timeScale: 0.01, deliver });
+
+    await provider.placeCall(request);
+    await jest.runAllTimersAsync();
+
+    expect(delivered.map(payload => payload.status)).toEqual(['initiated', 'ringing', 'no-answer']);
+    expect(delivered[2].telephony_data.hangup_provider_code).toBe(480);
+    expect(delivered[2].transcript).toBeNull();
+  });
+
+  test('bills the time talked when an answered call is stopped', async () => {
+    const provider = new SimulatorVoiceProvider({ outcomes: { completed: 1 }, timeScale: 1, random: () => 0, deliver });
+
+    const { executionId } = await provider.placeCall(request);
+    await jest.advanceTimersByTimeAsync(7000 + 20000); // Answered at 6s, then 20s of talking
+    await provider.stopCall(executionId);
+
+    const statuses = delivered.map(payload => payload.status);
+    expect(statuses.slice(-2)).toEqual(['call-disconnected', 'completed']);
+    expect(delivered[delivered.length - 1].conversation_duration).toBe(20);
+    expect(delivered[delivered.length - 1].telephony_data.hangup_by).toBe('api');
+
+    await jest.runAllTimersAsync();
+    expect(delivered).toHaveLength(statuses.length); // Nothing left scheduled
+  });
+
+  test('uses only the configured outcomes', () => {
+    expect(parseOutcomes('completed:60, busy:40, ringing:5')).toEqual({ completed: 60, busy: 40 });
+
+    const provider = new SimulatorVoiceProvider({ outcomes: parseOutcomes('busy:1'), deliver });
+    expect(provider.getStatus().outcomes).toEqual({ completed: 0, voicemail: 0, 'no-answer': 0, busy: 1, failed: 0 });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Subscription Service Tests
+ *
+ * Verifies plan billing on top of pulse billing:
+ * - Calls use rollover minutes first, then included minutes, then overage
+ * - Mid-cycle plan changes prorate the period's included minutes
+ * - A call already recorded against the plan is not drawn twice
+ * - Monthly periods clamp to the end of shorter months
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { SubscriptionService, BillingPlanError, addMonths } from '../subscriptionService';
+
+jest.mock('../../config/database');
+jest.mock('../chatCreditsService', () => ({
+  chatCreditsService: { adjustCredits: jest.fn() }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const plan = { billing_pulse_seconds: 30, overage_credits_per_minute: 1.5 };
+
+describe('SubscriptionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('draws rollover, then included minutes, then charges overage at the plan rate', () => {
+    const split = SubscriptionService.splitCallUsage(
+      200, // Rounded up to 210s with a 30s pulse
+      { rollover_seconds_remaining: 60, included_seconds_remaining: 90 },
+      plan
+    );
+
+    expect(split).toEqual({
+      billedSeconds: 210,
+      rolloverSecondsUsed: 60,
+      includedSecondsUsed: 90,
+      overageSeconds: 60,
+      creditsCharged: 1.5
+    });
+  });
+
+  test('charges nothing while included minutes cover the call', () => {
+    const split = SubscriptionService.splitCallUsage(
+      45,
+      { rollover_seconds_remaining: 0, included_seconds_remaining: 600 },
+      plan
+    );
+
+    expect(split.includedSecondsUsed).toBe(60);
+    expect(split.creditsCharged).toBe(0);
+  });
+
+  test('prorates included minutes when the plan changes mid-cycle', () => {
+    const prorated = SubscriptionService.prorateIncludedSeconds(
+      {
+        current_period_start: new Date('2026-10-01T00:00:00Z'),
+        current_period_end: new Date('2026-10-31T00:00:00Z'),
+        included_seconds: 100 * 60,
+        included_seconds_remaining: 70 * 60 // 30 minutes used
+      },
+      { included_minutes: 400 },
+      new Date('2026-10-16T00:00:00Z') // Half way through the period
+    );
+
+    // 50 minutes at the old rate + 200 at the new one, less the 30 already used
+    expect(prorated.remainingFraction).toBe(0.5);
+    expect(prorated.includedSeconds).toBe(250 * 60);
+    expect(prorated.includedSecondsRemaining).toBe(220 * 60);
+  });
+
+  test('returns the recorded split for a call already drawn from the plan', async () => {
+    const client = {
+      query: jest.fn(async () => ({
+        rows: [{
+          billed_seconds: 120,
+          rollover_seconds_used: 0,
+          included_seconds_used: 120,
+          overage_seconds: 0,
+          credits_charged: '0.00'
+        }]
+      }))
+    };
+
+    const split = await SubscriptionService.applyCallUsage(client, 'user-1', 'call-1', 110);
+
+    expect(split?.includedSecondsUsed).toBe(120);
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects plans with an invalid pulse size', async () => {
+    await expect(SubscriptionService.createPlan({ name: 'Reseller Pro', billing_pulse_seconds: 90 }))
+      .rejects.toBeInstanceOf(BillingPlanError);
+  });
+
+  test('clamps monthly periods to the end of shorter months', () => {
+    expect(addMonths(new Date('2026-01-31T10:00:00Z'), 1).toISOString()).toBe('2026-02-28T10:00:00.000Z');
+    expect(addMonths(new Date('2026-11-15T00:00:00Z'), 2).toISOString()).toBe('2027-01-15T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Suppression Service Tests
+ *
+ * Verifies the do-not-call / opt-out registry:
+ * - Phone numbers and emails are normalized before matching, in the user's default region;
+ *   numbers that do not parse are still checked on their digits
+ * - Suppressed recipients (list entries or the legacy DNC tag) are blocked and audited
+ * - Bulk senders get allowed and suppressed recipients split in one pass
+ * - Import validation and email unsubscribe links
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { SuppressionService, SuppressedRecipientError } from '../suppressionService';
+import { SuppressionListModel } from '../../models/SuppressionList';
+import { ContactService } from '../contactService';
+import { SuppressionEntry } from '../../types/suppression';
+import { pool } from '../../config/database';
+
+jest.mock('../../models/SuppressionList');
+jest.mock('../../config/database');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockFindMatches = jest.mocked(SuppressionListModel.findMatches);
+const mockCreate = jest.mocked(SuppressionListModel.create);
+const mockCreateAuditEntry = jest.mocked(SuppressionListModel.createAuditEntry);
+const mockQuery = jest.mocked(pool.query);
+const mockGetDefaultPhoneRegion = jest.spyOn(ContactService, 'getDefaultPhoneRegion');
+
+const buildEntry = (overrides: Partial<SuppressionEntry>): SuppressionEntry => ({
+  id: 'entry-1',
+  user_id: 'user-123',
+  phone_number: null,
+  email: null,
+  reason: 'do_not_call',
+  source: 'manual',
+  notes: null,
+  created_by_type: 'user',
+  created_by_id: 'user-123',
+  created_at: new Date(),
+  ...overrides
+});
+
+describe('SuppressionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindMatches.mockResolvedValue([]);
+    mockCreateAuditEntry.mockResolvedValue(undefined);
+    mockQuery.mockResolvedValue({ rows: [] } as any);
+    mockGetDefaultPhoneRegion.mockResolvedValue('IN');
+  });
+
+  describe('normalization', () => {
+    test('normalizes phone numbers to + followed by digits', () => {
+      expect(SuppressionService.normalizePhoneNumber('+91 98765-43210')).toBe('+919876543210');
+      expect(SuppressionService.normalizePhoneNumber('9876543210')).toBe('+919876543210');
+      expect(SuppressionService.normalizePhoneNumber('12')).toBeNull();
+    });
+
+    test('lower-cases emails and rejects invalid ones', () => {
+      expect(SuppressionService.normalizeEmail('  Lead@Example.COM ')).toBe('lead@example.com');
+      expect(SuppressionService.normalizeEmail('not-an-email')).toBeNull();
+    });
+  });
+
+  describe('assertNotSuppressed', () => {
+    test('blocks and audits a suppressed phone number', async () => {
+      mockFindMatches.mockResolvedValue([buildEntry({ phone_number: '+919876543210' })]);
+
+      await expect(
+        SuppressionService.assertNotSuppressed('user-123', { phoneNumber: '+91 9876543210' }, 'call')
+      ).rejects.toBeInstanceOf(SuppressedRecipientError);
+
+      expect(mockFindMatches).toHaveBeenCalledWith('user-123', ['+919876543210'], []);
+      expect(mockCreateAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'blocked',
+        channel: 'call',
+        phoneNumber: '+919876543210'
+      }));
+    });
+
+    test('treats contacts with the legacy DNC tag as suppressed', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ '?column?': 1 }] } as any);
+
+      await expect(
+        SuppressionService.assertNotSuppressed('user-123', { phoneNumber: '9876543210', contactId: 'contact-1' }, 'whatsapp')
+      ).rejects.toMatchObject({ reason: 'dnc_tag', channel: 'whatsapp' });
+    });
+
+    test('allows recipients that are not suppressed', async () => {
+      await expect(
+        SuppressionService.assertNotSuppressed('user-123', { email: 'lead@example.com' }, 'email')
+      ).resolves.toBeUndefined();
+
+      expect(mockCreateAuditEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkRecipient', () => {
+    test("reads numbers without a country code in the user's default region", async () => {
+      mockGetDefaultPhoneRegion.mockResolvedValue('US');
+
+      await SuppressionService.checkRecipient('user-123', { phoneNumber: '(201) 555-0123' });
+
+      expect(mockGetDefaultPhoneRegion).toHaveBeenCalledWith('user-123');
+      expect(mockFindMatches).toHaveBeenCalledWith('user-123', ['+12015550123'], []);
+    });
+
+    test('checks numbers that do not parse on their digits', async () => {
+      mockFindMatches.mockResolvedValue([buildEntry({ phone_number: '+12345' })]);
+
+      const result = await SuppressionService.checkRecipient('user-123', { phoneNumber: '12345' });
+
+      expect(mockFindMatches).toHaveBeenCalledWith('user-123', ['+12345'], []);
+      expect(result).toEqual({ suppressed: true, reason: 'do_not_call', matched: 'phone_number' });
+    });
+  });
+
+  describe('filterRecipients', () => {
+    test('splits a batch into allowed and suppressed recipients', async () => {
+      mockFindMatches.mockResolvedValue([
+        buildEntry({ phone_number: '+919876543210' }),
+        buildEntry({ id: 'entry-2', email: 'optout@example.com', reason: 'unsubscribed' })
+      ]);
+      mockQuery.mockResolvedValue({ rows: [{ id: 'c4' }] } as any);
+
+      const contacts = [
+        { id: 'c1', phone_number: '+91 9876543210', email: null },
+        { id: 'c2', phone_number: '+91 9000000000', email: 'OptOut@example.com' },
+        { id: 'c3', phone_number: '+91 9111111111', email: 'lead@example.com' },
+        { id: 'c4', phone_number: '+91 9222222222', email: null }
+      ];
+
+      const result = await SuppressionService.filterRecipients(
+        'user-123',
+        contacts,
+        contact => ({ phoneNumber: contact.phone_number, email: contact.email, contactId: contact.id }),
+        'campaign'
+      );
+
+      expect(result.allowed.map(c => c.id)).toEqual(['c3']);
+      expect(result.suppressed.map(c => c.id)).toEqual(['c1', 'c2', 'c4']);
+      expect(mockCreateAuditEntry).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('importEntries', () => {
+    test('reports invalid rows and counts duplicates', async () => {
+      mockCreate
+        .mockResolvedValueOnce(buildEntry({ phone_number: '+919876543210' }))
+        .mockResolvedValueOnce(null);
+
+      const result = await SuppressionService.importEntries(
+        'user-123',
+        [
+          { phone_number: '9876543210' },
+          { email: 'lead@example.com', reason: 'opt_out' },
+          { email: 'broken' },
+          { phone_number: '9876543210', reason: 'nope' as any }
+        ],
+        { type: 'user', id: 'user-123' }
+      );
+
+      expect(result.added).toBe(1);
+      expect(result.duplicates).toBe(1);
+      expect(result.invalid).toEqual([
+        { row: 3, error: 'Invalid email: broken' },
+        { row: 4, error: 'Invalid reason: nope' }
+      ]);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ source: 'import' }));
+    });
+  });
+
+  describe('unsubscribeByTrackingId', () => {
+    test('adds the recipient email with the unsubscribe_link source', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [{ id: 'email-1', user_id: 'user-123', to_email: 'Lead@Example.com', campaign_id: null }]
+      } as any);
+      mockCreate.mockResolvedValue(buildEntry({ email: 'lead@example.com', reason: 'unsubscribed' }));
+
+      await expect(SuppressionService.unsubscribeByTrackingId('track-1')).resolves.toBe(true);
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-123',
+        email: 'lead@example.com',
+        reason: 'unsubscribed',
+        source: 'unsubscribe_link',
+        actor: { type: 'recipient' }
+      }));
+    });
+
+    test('returns false for unknown tracking IDs', async () => {
+      await expect(SuppressionService.unsubscribeByTrackingId('missing')).resolves.toBe(false);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Transcript Export Service Tests
+ *
+ * Verifies transcript exports for QA and compliance review:
+ * - Subtitle cues are aligned to segment offsets in the recording
+ * - Consecutive segments from one speaker are merged into turns
+ * - PDF and DOCX documents include the call metadata header
+ * - Bulk exports require a campaign or date range
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import JSZip from 'jszip';
+import { TranscriptExportService, TranscriptExportError } from '../transcriptExportService';
+import { TranscriptService } from '../transcriptService';
+import { TranscriptInterface } from '../../models/Transcript';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../transcriptService');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockQuery = jest.mocked(pool.query);
+const mockGetTranscript = jest.mocked(TranscriptService.getTranscriptByCallId);
+
+const transcript = {
+  id: 'transcript-1',
+  call_id: 'call-1',
+  content: '',
+  speaker_segments: [
+    { speaker: 'agent', text: 'Hello, this is Priya from Acme.', timestamp: 0 },
+    { speaker: 'agent', text: 'Is now a good time?', timestamp: 2500 },
+    { speaker: 'user', text: 'Yes, go ahead.', timestamp: 65000 }
+  ],
+  created_at: new Date('2026-05-01T10:00:00Z')
+} as TranscriptInterface;
+
+const metadata = {
+  call_id: 'call-1',
+  phone_number: '+919876543210',
+  created_at: new Date('2026-05-01T10:00:00Z'),
+  duration_seconds: 66,
+  status: 'completed',
+  agent_name: 'Priya',
+  contact_name: 'Ravi Kumar',
+  campaign_name: 'May outreach',
+  lead_score: 72,
+  lead_status_tag: 'Warm',
+  summary: 'Interested in the premium plan.'
+};
+
+describe('TranscriptExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('builds SRT and VTT cues from segment offsets', () => {
+    const srt = TranscriptExportService.toSubtitles(transcript, 'srt', metadata);
+    expect(srt).toContain('1\n00:00:00,000 --> 00:00:02,500\nAgent (Priya): Hello, this is Priya from Acme.');
+    // The last cue is bounded by the call duration
+    expect(srt).toContain('3\n00:01:05,000 --> 00:01:06,000\nContact (Ravi Kumar): Yes, go ahead.');
+
+    const vtt = TranscriptExportService.toSubtitles(transcript, 'vtt');
+    expect(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nAgent: Hello')).toBe(true);
+  });
+
+  test('merges consecutive segments into speaker turns', () => {
+    const turns = TranscriptExportService.getSpeakerTurns(transcript, 66);
+
+    expect(turns).toHaveLength(2);
+    expect(turns[0]).toMatchObject({
+      speaker: 'agent',
+      start_ms: 0,
+      end_ms: 65000,
+      text: 'Hello, this is Priya from Acme. Is now a good time?'
+    });
+  });
+
+  test('exports a PDF with the call metadata header', async () => {
+    mockGetTranscript.mockResolvedValueOnce(transcript);
+    mockQuery.mockResolvedValueOnce({ rows: [metadata] } as any);
+
+    const file = await TranscriptExportService.exportCallTranscript('call-1', 'user-1', 'pdf');
+    const pdf = file!.content.toString('latin1');
+
+    expect(file!.contentType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Agent: Priya)');
+    expect(pdf).toContain('(Lead Score: 72/100 \\(Warm\\))');
+    expect(pdf).toContain('(Interested in the premium plan.)');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  test('exports a DOCX document', async () => {
+    mockGetTranscript.mockResolvedValueOnce(transcript);
+    mockQuery.mockResolvedValueOnce({ rows: [metadata] } as any);
+
+    const file = await TranscriptExportService.exportCallTranscript('call-1', 'user-1', 'docx');
+    const zip = await JSZip.loadAsync(file!.content);
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+
+    expect(documentXml).toContain('Ravi Kumar - +919876543210');
+    expect(documentXml).toContain('[1:05] Contact (Ravi Kumar): ');
+  });
+
+  test('returns null when the transcript is not accessible', async () => {
+    mockGetTranscript.mockResolvedValueOnce(null);
+
+    await expect(TranscriptExportService.exportCallTranscript('call-2', 'user-1', 'pdf')).resolves.toBeNull();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  test('bulk export requires a campaign or date range', async () => {
+    await expect(TranscriptExportService.exportBulk('user-1', { format: 'txt' }))
+      .rejects.toThrow(TranscriptExportError);
+  });
+
+  test('bulk export zips one file per call with a manifest', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [transcript] } as any)
+      .mockResolvedValueOnce({ rows: [metadata] } as any);
+
+    const file = await TranscriptExportService.exportBulk('user-1', { format: 'srt', campaignId: 'campaign-1' });
+    const zip = await JSZip.loadAsync(file.content);
+
+    expect(Object.keys(zip.files).sort()).toEqual(['2026-05-01_Ravi_Kumar_call-1.srt', 'manifest.csv']);
+    expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', 'campaign-1', 501]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * User Event Service Tests
+ *
+ * Verifies the dashboard event stream:
+ * - Published events reach local subscribers once, even when the NOTIFY copy arrives
+ * - Events for other users are not delivered
+ * - Replay resends events that committed after the client's last one with a lower ID,
+ *   and gives up when the client's last event has been pruned
+ * - Publishing never throws into the flow that triggered it
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { UserEventService } from '../userEventService';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+process.env.ENABLE_EVENT_STREAM = 'true';
+
+const row = {
+  id: '42',
+  user_id: 'user-1',
+  event_type: 'call.status',
+  payload: { callId: 'call-1', status: 'completed' },
+  created_at: '2026-10-18T10:00:00.000Z'
+};
+
+describe('UserEventService', () => {
+  let service: UserEventService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new UserEventService();
+  });
+
+  test('delivers a published event once when its NOTIFY copy also arrives', async () => {
+    jest.mocked(pool.query).mockResolvedValue({ rows: [row] } as any);
+    const listener = jest.fn();
+    service.subscribe('user-1', listener);
+
+    await service.publish('user-1', 'call.status', row.payload);
+    await service.handleNotification(JSON.stringify(row));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      id: '42',
+      userId: 'user-1',
+      type: 'call.status',
+      data: row.payload,
+      createdAt: row.created_at
+    });
+  });
+
+  test('ignores notifications for users without a local stream', async () => {
+    const listener = jest.fn();
+    service.subscribe('user-2', listener);
+
+    await service.handleNotification(JSON.stringify({ id: '43', user_id: 'user-1' }));
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  test('loads events that were too large to send inline', async () => {
+    jest.mocked(pool.query).mockResolvedValue({ rows: [row] } as any);
+    const listener = jest.fn();
+    service.subscribe('user-1', listener);
+
+    await service.handleNotification(JSON.stringify({ id: '42', user_id: 'user-1' }));
+
+    expect(jest.mocked(pool.query).mock.calls[0][1]).toEqual(['42']);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('replays from shortly before the last event so late commits are not skipped', async () => {
+    jest.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ created_at: row.created_at }] } as any)
+      .mockResolvedValueOnce({ rows: [{ ...row, id: '41' }, { ...row, id: '43' }] } as any);
+
+    const events = await service.replay('user-1', '42');
+
+    expect(events?.map(event => event.id)).toEqual(['41', '43']);
+    expect(jest.mocked(pool.query).mock.calls[1][1]).toEqual(['user-1', '42', row.created_at, 5, 501]);
+  });
+
+  test('asks the client to resync when its last event was pruned', async () => {
+    jest.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    await expect(service.replay('user-1', '7')).resolves.toBeNull();
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not throw when the event cannot be recorded', async () => {
+    jest.mocked(pool.query).mockRejectedValue(new Error('connection terminated'));
+
+    await expect(service.publish('user-1', 'queue.updated', { queued: 3 })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Voicemail Service Tests
+ *
+ * Verifies voicemail handling:
+ * - The provider flag or a short greeting-like transcript marks a call as voicemail
+ * - Real conversations are not mistaken for voicemail
+ * - Voicemail billing follows the admin's mode
+ * - Campaign voicemail retry schedules are validated and looked up by attempt
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { VoicemailService } from '../voicemailService';
+import { configService } from '../configService';
+
+jest.mock('../configService', () => ({
+  configService: { get: jest.fn() }
+}));
+
+const settings: Record<string, any> = {};
+
+describe('VoicemailService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    settings.voicemail_billing_mode = 'full';
+    settings.voicemail_billable_seconds = 30;
+    jest.mocked(configService.get).mockImplementation(((key: string) => settings[key]) as any);
+  });
+
+  test('detects voicemail from the provider flag or a short greeting', () => {
+    expect(VoicemailService.detect({ answeredByVoicemail: true, transcript: null, durationSeconds: 90 })).toBe('provider');
+
+    const greeting = [
+      'user: Hi, you have reached Priya. I am not available right now, please leave a message after the tone.',
+      'assistant: Hi Priya, this is Ava calling about your enquiry.'
+    ].join('\n');
+    expect(VoicemailService.detect({ transcript: greeting, durationSeconds: 22 })).toBe('transcript');
+
+    // Same greeting on a long call, e.g. the lead picked up later, is a conversation
+    expect(VoicemailService.detect({ transcript: greeting, durationSeconds: 180 })).toBeNull();
+  });
+
+  test('does not flag conversations that mention voicemail', () => {
+    const conversation = [
+      'assistant: Hi Priya, is now a good time?',
+      'user: Yes. I saw your voicemail from yesterday, what is this about?',
+      'assistant: You asked for pricing on our website.'
+    ].join('\n');
+
+    expect(VoicemailService.detect({ transcript: conversation, durationSeconds: 45 })).toBeNull();
+    expect(VoicemailService.detect({ transcript: 'assistant: Please leave a message after the tone.', durationSeconds: 10 })).toBeNull();
+    expect(VoicemailService.detect({ transcript: 'user: Hello? Who is this?', durationSeconds: 10 })).toBeNull();
+  });
+
+  test('bills voicemail calls per the configured mode', () => {
+    expect(VoicemailService.getBillableSeconds(48)).toBe(48);
+
+    settings.voicemail_billing_mode = 'capped';
+    expect(VoicemailService.getBillableSeconds(48)).toBe(30);
+    expect(VoicemailService.getBillableSeconds(12)).toBe(12);
+
+    settings.voicemail_billing_mode = 'free';
+    expect(VoicemailService.getBillableSeconds(48)).toBe(0);
+  });
+
+  test('validates and reads the campaign voicemail retry schedule', () => {
+    const schedule = VoicemailService.validateRetrySchedule({
+      retries: [{ attempt: 1, delay_minutes: '240' }, { attempt: 2, delay_minutes: 1440 }]
+    });
+
+    expect(schedule).toEqual({ retries: [{ attempt: 1, delay_minutes: 240 }, { attempt: 2, delay_minutes: 1440 }] });
+    expect(VoicemailService.getRetryDelay({ voicemail_retry_schedule: schedule }, 2)).toBe(1440);
+    expect(VoicemailService.getRetryDelay({ voicemail_retry_schedule: schedule }, 3)).toBeNull();
+    expect(VoicemailService.getRetryDelay({ voicemail_retry_schedule: null }, 1)).toBeNull();
+    expect(VoicemailService.validateRetrySchedule(null)).toBeNull();
+
+    expect(() => VoicemailService.validateRetrySchedule({ retries: [] })).toThrow();
+    expect(() => VoicemailService.validateRetrySchedule({ retries: [{ attempt: 2, delay_minutes: 60 }] })).toThrow();
+    expect(() => VoicemailService.validateRetrySchedule({ retries: [{ attempt: 1, delay_minutes: 0 }] })).toThrow();
+  });
+});
@@ -4,6 +4,7 @@ import Agent from '../models/Agent';
 import { bolnaService } from './bolnaService';
 import { logger } from '../utils/logger';
 import { agentCacheService } from './agentCache';
+import { AgentPromptService } from './agentPromptService';
 
 export interface AdminAgentStats {
   totalAgents: number;
@@ -555,6 +556,13 @@ class AdminService {
           dynamic_information: agentData.dynamic_information || null,
         });
 
+        // Starting prompt becomes version 1 (Bolna was already updated above)
+        await AgentPromptService.saveVersion(newAgent.id, {}, {
+          author: { id: adminUserId },
+          note: 'Registered existing Bolna agent',
+          syncProvider: false
+        });
+
         logger.info(`Successfully registered Bolna agent ${agentData.bolna_agent_id} as agent ${newAgent.id} for user ${userId}`);
         
         // Invalidate agent caches for the user after registration
@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import {
+  AgentPromptVersion,
+  AgentPromptVersionModel,
+  PromptContent,
+  PromptVersionDiffLine,
+  PromptVersionSource
+} from '../models/AgentPromptVersion';
+import { AgentInterface } from '../models/Agent';
+import { getVoiceProvider } from './voiceProvider';
+import { changedLines, diffLines } from '../utils/textDiff';
+import { logger } from '../utils/logger';
+
+export class AgentPromptError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'INVALID_PROMPT_VERSION') {
+    super(message);
+    this.name = 'AgentPromptError';
+  }
+}
+
+export interface PromptAuthor {
+  id?: string | null;
+  name?: string | null;
+}
+
+export interface CampaignPromptTest {
+  prompt_version_a_id?: string | null;
+  prompt_version_b_id?: string | null;
+  prompt_split_percent?: number | null;
+}
+
+export type PromptVariant = 'A' | 'B';
+
+interface SaveOptions {
+  author?: PromptAuthor;
+  note?: string | null;
+  source?: PromptVersionSource;
+  rolledBackToVersion?: number;
+  syncProvider?: boolean; // false when the caller has already sent the prompt to the provider
+}
+
+/**
+ * Agent prompt versions
+ *
+ * Every change to an agent's system prompt or dynamic information is saved as a new
+ * immutable version before the combined prompt is pushed to the voice provider, so any
+ * earlier version can be restored. Campaigns can split calls between two versions; a
+ * version that isn't live on the agent runs on its own copy of the provider agent.
+ */
+export class AgentPromptService {
+  // Provider agent copies being created, so concurrent calls share one
+  private static pendingProviderAgents = new Map<string, Promise<string>>();
+
+  /**
+   * Prompt sent to the voice provider: the system prompt followed by the dynamic information
+   */
+  static combinePrompt(systemPrompt: string | null | undefined, dynamicInformation: string | null | undefined): string | null {
+    if (dynamicInformation && systemPrompt) {
+      return `${systemPrompt}\n\n${dynamicInformation}`;
+    }
+    return systemPrompt || dynamicInformation || null;
+  }
+
+  /**
+   * Save a prompt change as a new version and make it live on the agent
+   * Fields left undefined keep their current value. Returns the current version
+   * unchanged when the content is the same.
+   */
+  static async saveVersion(
+    agentId: string,
+    changes: Partial<PromptContent>,
+    options: SaveOptions = {}
+  ): Promise<{ version: AgentPromptVersion; created: boolean }> {
+    return pool.transaction(async client => {
+      const agentResult = await client.query(
+        'SELECT id, bolna_agent_id, system_prompt, dynamic_information FROM agents WHERE id = $1 FOR UPDATE',
+        [agentId]
+      );
+      const agent = agentResult.rows[0];
+      if (!agent) {
+        throw new AgentPromptError('Agent not found', 404, 'AGENT_NOT_FOUND');
+      }
+
+      const latest = await AgentPromptVersionModel.findLatest(client, agentId);
+      const previous: PromptContent = latest || { system_prompt: null, dynamic_information: null };
+      const content: PromptContent = {
+        system_prompt: normalizeText(changes.system_prompt !== undefined ? changes.system_prompt : agent.system_prompt),
+        dynamic_information: normalizeText(changes.dynamic_information !== undefined ? changes.dynamic_information : agent.dynamic_information)
+      };
+
+      if (latest && sameContent(latest, content)) {
+        return { version: latest, created: false };
+      }
+
+      const version = await AgentPromptVersionModel.create(client, agentId, (latest?.version_number || 0) + 1, content, {
+        diff: this.diffContent(previous, content),
+        source: options.source || (latest ? 'edit' : 'initial'),
+        rolledBackToVersion: options.rolledBackToVersion,
+        note: options.note,
+        createdBy: options.author?.id,
+        createdByName: options.author?.name
+      });
+
+      await client.query(
+        `UPDATE agents
+         SET system_prompt = $2, dynamic_information = $3, current_prompt_version_id = $4, updated_at = NOW()
+         WHERE id = $1`,
+        [agentId, content.system_prompt, content.dynamic_information, version.id]
+      );
+
+      // Push before committing: if the provider rejects the prompt, no version is recorded
+      const combinedPrompt = this.combinePrompt(content.system_prompt, content.dynamic_information);
+      if (options.syncProvider !== false && agent.bolna_agent_id && combinedPrompt) {
+        await getVoiceProvider().updateAgentPrompt(agent.bolna_agent_id, combinedPrompt);
+      }
+
+      logger.info('[AgentPromptService] Saved prompt version', {
+        agentId,
+        versionNumber: version.version_number,
+        source: version.source,
+        changedLines: version.diff.length
+      });
+
+      return { version, created: true };
+    });
+  }
+
+  /**
+   * Restore an earlier version; recorded as a new version with the old content
+   */
+  static async rollback(agentId: string, versionId: string, author?: PromptAuthor): Promise<AgentPromptVersion> {
+    const target = await AgentPromptVersionModel.findById(versionId, agentId);
+    if (!target) {
+      throw new AgentPromptError('Prompt version not found', 404, 'PROMPT_VERSION_NOT_FOUND');
+    }
+
+    const { version, created } = await this.saveVersion(
+      agentId,
+      { system_prompt: target.system_prompt, dynamic_information: target.dynamic_information },
+      { author, source: 'rollback', rolledBackToVersion: target.version_number, note: `Rolled back to version ${target.version_number}` }
+    );
+    if (!created) {
+      throw new AgentPromptError(`Version ${target.version_number} is already the live prompt`, 409, 'PROMPT_VERSION_ALREADY_LIVE');
+    }
+    return version;
+  }
+
+  static async listVersions(agent: AgentInterface) {
+    const versions = await AgentPromptVersionModel.listByAgent(agent.id);
+    return versions.map(version => ({
+      ...version,
+      is_current: version.id === agent.current_prompt_version_id
+    }));
+  }
+
+  /**
+   * A version with its diff: the stored diff against the previous version, or a
+   * diff against another version of the same agent
+   */
+  static async getVersion(agentId: string, versionId: string, compareToId?: string): Promise<{
+    version: AgentPromptVersion;
+    compared_to_version: number | null;
+    diff: PromptVersionDiffLine[];
+  }> {
+    const version = await AgentPromptVersionModel.findById(versionId, agentId);
+    if (!version) {
+      throw new AgentPromptError('Prompt version not found', 404, 'PROMPT_VERSION_NOT_FOUND');
+    }
+
+    if (!compareToId) {
+      return {
+        version,
+        compared_to_version: version.version_number > 1 ? version.version_number - 1 : null,
+        diff: version.diff
+      };
+    }
+
+    const other = await AgentPromptVersionModel.findById(compareToId, agentId);
+    if (!other) {
+      throw new AgentPromptError('Version to compare with not found', 404, 'PROMPT_VERSION_NOT_FOUND');
+    }
+    return { version, compared_to_version: other.version_number, diff: this.diffContent(other, version) };
+  }
+
+  /**
+   * Check a campaign's prompt A/B test against the campaign agent
+   */
+  static async validateCampaignTest(agentId: string, test: CampaignPromptTest): Promise<void> {
+    const { prompt_version_a_id: versionA, prompt_version_b_id: versionB, prompt_split_percent: split } = test;
+
+    if (split !== undefined && split !== null && (!Number.isInteger(split) || split < 0 || split > 100)) {
+      throw new AgentPromptError('prompt_split_percent must be a whole number between 0 and 100');
+    }
+    if (!versionA && !versionB) {
+      return; // No test
+    }
+    if (!versionA || !versionB) {
+      throw new AgentPromptError('A prompt test needs both prompt_version_a_id and prompt_version_b_id');
+    }
+    if (versionA === versionB) {
+      throw new AgentPromptError('A prompt test needs two different versions');
+    }
+
+    const [a, b] = await Promise.all([
+      AgentPromptVersionModel.findById(versionA, agentId),
+      AgentPromptVersionModel.findById(versionB, agentId)
+    ]);
+    if (!a || !b) {
+      throw new AgentPromptError('Prompt test versions must belong to the campaign agent');
+    }
+  }
+
+  /**
+   * Variant for a contact: stable for the campaign, so retries use the same version
+   */
+  static assignVariant(campaignId: string, contactKey: string, splitPercent: number): PromptVariant {
+    const hash = crypto.createHash('sha256').update(`${campaignId}:${contactKey}`).digest();
+    return hash.readUInt32BE(0) % 100 < splitPercent ? 'B' : 'A';
+  }
+
+  /**
+   * Prompt version and provider agent for a campaign call
+   */
+  static async resolveCampaignCall(
+    campaign: CampaignPromptTest & { id: string },
+    agent: AgentInterface,
+    contactKey: string
+  ): Promise<{ promptVersionId: string | null; providerAgentId: string; variant: PromptVariant | null }> {
+    const live = { promptVersionId: agent.current_prompt_version_id || null, providerAgentId: agent.bolna_agent_id!, variant: null };
+    if (!campaign.prompt_version_a_id || !campaign.prompt_version_b_id) {
+      return live;
+    }
+
+    const variant = this.assignVariant(campaign.id, contactKey, campaign.prompt_split_percent ?? 50);
+    const versionId = variant === 'B' ? campaign.prompt_version_b_id : campaign.prompt_version_a_id;
+    if (versionId === agent.current_prompt_version_id) {
+      return { ...live, variant };
+    }
+
+    const version = await AgentPromptVersionModel.findById(versionId, agent.id);
+    if (!version) {
+      logger.warn('[AgentPromptService] Campaign prompt version is gone, using the live prompt', {
+        campaignId: campaign.id,
+        versionId
+      });
+      return live;
+    }
+
+    return { promptVersionId: version.id, providerAgentId: await this.ensureProviderAgent(version, agent), variant };
+  }
+
+  /**
+   * Delete the provider agent copies made for an agent's versions
+   */
+  static async deleteProviderAgents(agentId: string): Promise<void> {
+    const providerAgentIds = await AgentPromptVersionModel.listProviderAgents(agentId);
+    await Promise.all(providerAgentIds.map(providerAgentId =>
+      getVoiceProvider().deleteAgent(providerAgentId).catch(error => {
+        logger.warn('[AgentPromptService] Failed to delete prompt version agent', {
+          providerAgentId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      })
+    ));
+  }
+
+  /**
+   * Copy the agent on the voice provider with this version's prompt (once per version)
+   */
+  private static async ensureProviderAgent(version: AgentPromptVersion, agent: AgentInterface): Promise<string> {
+    if (version.provider_agent_id) {
+      return version.provider_agent_id;
+    }
+
+    let pending = this.pendingProviderAgents.get(version.id);
+    if (!pending) {
+      pending = this.createProviderAgent(version, agent).finally(() => this.pendingProviderAgents.delete(version.id));
+      this.pendingProviderAgents.set(version.id, pending);
+    }
+    return pending;
+  }
+
+  private static async createProviderAgent(version: AgentPromptVersion, agent: AgentInterface): Promise<string> {
+    const provider = getVoiceProvider();
+    const base = await provider.getAgent(agent.bolna_agent_id!);
+    if (!base.agent_config) {
+      throw new AgentPromptError('Voice provider did not return the agent configuration to copy', 502, 'PROVIDER_AGENT_UNAVAILABLE');
+    }
+
+    const copy = await provider.createAgent({
+      agent_config: { ...base.agent_config, agent_name: `${agent.name} (prompt v${version.version_number})` },
+      agent_prompts: {
+        task_1: { system_prompt: this.combinePrompt(version.system_prompt, version.dynamic_information) || '' }
+      }
+    });
+
+    // Another instance may have stored a copy first; keep that one
+    const stored = await AgentPromptVersionModel.setProviderAgent(version.id, copy.agent_id);
+    if (stored !== copy.agent_id) {
+      await provider.deleteAgent(copy.agent_id).catch(() => undefined);
+    }
+
+    logger.info('[AgentPromptService] Created provider agent for prompt version', {
+      agentId: agent.id,
+      versionNumber: version.version_number,
+      providerAgentId: stored
+    });
+    return stored;
+  }
+
+  private static diffContent(from: PromptContent, to: PromptContent): PromptVersionDiffLine[] {
+    return [
+      ...changedLines(diffLines(from.system_prompt, to.system_prompt)).map(line => ({ ...line, field: 'system_prompt' as const })),
+      ...changedLines(diffLines(from.dynamic_information, to.dynamic_information)).map(line => ({ ...line, field: 'dynamic_information' as const }))
+    ];
+  }
+}
+
+function normalizeText(value: string | null | undefined): string | null {
+  return value && value.trim() ? value : null;
+}
+
+function sameContent(a: PromptContent, b: PromptContent): boolean {
+  return (a.system_prompt || null) === (b.system_prompt || null)
+    && (a.dynamic_information || null) === (b.dynamic_information || null);
+}
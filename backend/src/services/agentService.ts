@@ -1,5 +1,7 @@
 import Agent from '../models/Agent';
 import { bolnaService, BolnaAgentConfig, BolnaAgent, CreateBolnaAgentRequest } from './bolnaService';
+import { getVoiceProvider } from './voiceProvider';
+import { AgentPromptService } from './agentPromptService';
 import { logger } from '../utils/logger';
 import { AgentInterface } from '../models/Agent';
 import database from '../config/database';
@@ -239,8 +241,8 @@ class AgentService {
         }
       };
 
-      // Create agent in Bolna.ai
-      const bolnaAgent = await bolnaService.createAgent(createRequest);
+      // Create agent with the voice provider
+      const bolnaAgent = await getVoiceProvider().createAgent(createRequest);
 
       // Store agent association in our database
       const agent = await Agent.create({
@@ -252,6 +254,13 @@ class AgentService {
         is_active: true,
       });
 
+      // The prompt the agent was created with becomes version 1
+      await AgentPromptService.saveVersion(
+        agent.id,
+        { system_prompt: createRequest.agent_prompts.task_1.system_prompt },
+        { author: { id: userId }, syncProvider: false }
+      );
+
       logger.info(`Created agent ${agent.id} for user ${userId} with Bolna.ai ID ${bolnaAgent.agent_id}`);
 
       // Invalidate user's agent caches after creation
@@ -482,13 +491,25 @@ class AgentService {
         },
         agent_prompts: {
           task_1: {
-            system_prompt: agentData.system_prompt || "You are a helpful AI assistant."
+            // Keep the live prompt (and its dynamic information) unless a new one is given
+            system_prompt: AgentPromptService.combinePrompt(
+              agentData.system_prompt ?? agent.system_prompt,
+              agent.dynamic_information
+            ) || "You are a helpful AI assistant."
           }
         }
       };
 
-      // Update agent in Bolna.ai
-      const bolnaAgent = await bolnaService.updateAgent(agent.bolna_agent_id, updateRequest);
+      // Update agent with the voice provider
+      const bolnaAgent = await getVoiceProvider().updateAgent(agent.bolna_agent_id, updateRequest);
+
+      if (agentData.system_prompt !== undefined) {
+        await AgentPromptService.saveVersion(
+          agentId,
+          { system_prompt: agentData.system_prompt },
+          { author: { id: userId }, syncProvider: false }
+        );
+      }
 
       // Update local agent record if name, description, or status changed
       const localUpdates: any = {};
@@ -538,12 +559,15 @@ class AgentService {
       // Delete from Bolna.ai if agent is linked
       if (agent.bolna_agent_id) {
         try {
-          await bolnaService.deleteAgent(agent.bolna_agent_id);
+          await getVoiceProvider().deleteAgent(agent.bolna_agent_id);
         } catch (error) {
-          logger.warn(`Failed to delete agent from Bolna.ai: ${error}. Proceeding with local deletion.`);
+          logger.warn(`Failed to delete agent from the voice provider: ${error}. Proceeding with local deletion.`);
         }
       }
 
+      // Agent copies running prompt versions for campaign A/B tests
+      await AgentPromptService.deleteProviderAgents(agentId);
+
       // Delete from our database
       await Agent.delete(agentId);
 
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import { ApiKeyModel, ApiKey, ApiKeyScope } from '../models/ApiKey';
+import { logger } from '../utils/logger';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['contacts:read', 'contacts:write', 'calls:create', 'analytics:read'];
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60; // Requests per minute
+export const MAX_API_KEY_RATE_LIMIT = 1000;
+export const MAX_API_KEYS_PER_USER = 25;
+
+// Keys look like ak_live_<32 random base64url chars>; the prefix identifies a key in the UI
+const API_KEY_PREFIX = 'ak_live_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+// last_used_at is written at most once per key per interval, not on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyInput {
+  name?: string;
+  scopes?: string[];
+  rate_limit_per_minute?: number;
+  expires_at?: string | null;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+
+/**
+ * Thrown for invalid API key input (mapped to 400 by the controller)
+ */
+export class ApiKeyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyValidationError';
+  }
+}
+
+// API key service - creation, rotation, revocation and authentication of per-user API keys
+export class ApiKeyService {
+  private static lastUsedUpdates = new Map<string, number>();
+
+  /**
+   * SHA-256 digest of a plaintext key (keys are random, so a fast hash is sufficient)
+   */
+  static hashKey(plaintextKey: string): string {
+    return crypto.createHash('sha256').update(plaintextKey).digest('hex');
+  }
+
+  /**
+   * Create a key
+   * @returns the stored key and the plaintext key, which is never retrievable again
+   */
+  static async createKey(userId: string, input: ApiKeyInput): Promise<{ apiKey: PublicApiKey; key: string }> {
+    // Request bodies are untyped, so a non-string name is treated as missing
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new ApiKeyValidationError('name is required');
+    }
+    if (name.length > 100) {
+      throw new ApiKeyValidationError('name must be at most 100 characters');
+    }
+
+    const scopes = this.validateScopes(input.scopes);
+    const rateLimitPerMinute = this.validateRateLimit(input.rate_limit_per_minute);
+    const expiresAt = this.validateExpiry(input.expires_at);
+
+    const activeKeys = (await ApiKeyModel.findByUser(userId)).filter(key => !key.revoked_at);
+    if (activeKeys.length >= MAX_API_KEYS_PER_USER) {
+      throw new ApiKeyValidationError(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`);
+    }
+
+    const key = this.generateKey();
+    const apiKey = await ApiKeyModel.create({
+      userId,
+      name,
+      keyPrefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes,
+      rateLimitPerMinute,
+      expiresAt
+    });
+
+    logger.info('[ApiKeyService] API key created', { userId, apiKeyId: apiKey.id, scopes });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Update name, scopes, rate limit or expiry
+   */
+  static async updateKey(userId: string, id: string, input: ApiKeyInput): Promise<PublicApiKey | null> {
+    let name: string | undefined;
+    if (input.name !== undefined) {
+      name = typeof input.name === 'string' ? input.name.trim() : '';
+      if (!name || name.length > 100) {
+        throw new ApiKeyValidationError('name must be 1-100 characters');
+      }
+    }
+
+    return await ApiKeyModel.update(id, userId, {
+      name,
+      scopes: input.scopes !== undefined ? this.validateScopes(input.scopes) : undefined,
+      rateLimitPerMinute: input.rate_limit_per_minute !== undefined
+        ? this.validateRateLimit(input.rate_limit_per_minute)
+        : undefined,
+      expiresAt: input.expires_at !== undefined ? this.validateExpiry(input.expires_at) : undefined
+    });
+  }
+
+  /**
+   * Rotate a key: revoke it and issue a new key with the same name, scopes and limits
+   * @returns null if the key does not exist or is already revoked
+   */
+  static async rotateKey(userId: string, id: string): Promise<{ apiKey: PublicApiKey; key: string } | null> {
+    const existing = await ApiKeyModel.findById(id, userId);
+    if (!existing || existing.revoked_at) {
+      return null;
+    }
+
+    const key = this.generateKey();
+
+    const apiKey = await pool.transaction(async (client) => {
+      const revoked = await ApiKeyModel.revoke(id, userId, client);
+      if (!revoked) {
+        return null;
+      }
+
+      return await ApiKeyModel.create({
+        userId,
+        name: existing.name,
+        keyPrefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: existing.scopes,
+        rateLimitPerMinute: existing.rate_limit_per_minute,
+        expiresAt: existing.expires_at,
+        rotatedFromId: existing.id
+      }, client);
+    });
+
+    if (!apiKey) {
+      return null;
+    }
+
+    logger.info('[ApiKeyService] API key rotated', { userId, oldApiKeyId: id, apiKeyId: apiKey.id });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Revoke a key
+   */
+  static async revokeKey(userId: string, id: string): Promise<boolean> {
+    const revoked = await ApiKeyModel.revoke(id, userId);
+    if (revoked) {
+      logger.info('[ApiKeyService] API key revoked', { userId, apiKeyId: id });
+    }
+    return revoked;
+  }
+
+  /**
+   * Resolve a plaintext key to an active key and record its use
+   */
+  static async authenticate(plaintextKey: string, ipAddress: string | null): Promise<ApiKey | null> {
+    if (!plaintextKey.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await ApiKeyModel.findActiveByHash(this.hashKey(plaintextKey));
+    if (!apiKey) {
+      return null;
+    }
+
+    const now = Date.now();
+    const lastUpdate = this.lastUsedUpdates.get(apiKey.id) || 0;
+    if (now - lastUpdate >= LAST_USED_UPDATE_INTERVAL_MS) {
+      this.lastUsedUpdates.set(apiKey.id, now);
+      ApiKeyModel.touchLastUsed(apiKey.id, ipAddress).catch(error => {
+        logger.warn('[ApiKeyService] Failed to record API key usage', {
+          apiKeyId: apiKey.id,
+          error: error instanceof Error ? error.message : error
+        });
+      });
+    }
+
+    return apiKey;
+  }
+
+  private static generateKey(): string {
+    return API_KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  }
+
+  private static validateScopes(scopes: unknown): ApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new ApiKeyValidationError(`scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    const invalid = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      throw new ApiKeyValidationError(`Invalid scopes: ${invalid.join(', ')}`);
+    }
+
+    return [...new Set(scopes as ApiKeyScope[])];
+  }
+
+  private static validateRateLimit(rateLimit: unknown): number {
+    if (rateLimit === undefined || rateLimit === null) {
+      return DEFAULT_API_KEY_RATE_LIMIT;
+    }
+
+    const value = Number(rateLimit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_API_KEY_RATE_LIMIT) {
+      throw new ApiKeyValidationError(`rate_limit_per_minute must be an integer between 1 and ${MAX_API_KEY_RATE_LIMIT}`);
+    }
+
+    return value;
+  }
+
+  private static validateExpiry(expiresAt: string | null | undefined): Date | null {
+    if (!expiresAt) {
+      return null;
+    }
+
+    const date = new Date(expiresAt);
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      throw new ApiKeyValidationError('expires_at must be a future date');
+    }
+
+    return date;
+  }
+}
@@ -28,7 +28,7 @@ interface JWTPayload {
   email: string;
   iat: number;
   exp: number;
-  type?: 'access' | 'refresh';
+  type?: 'access' | 'refresh' | 'event_stream';
   // Team member specific fields
   isTeamMember?: boolean;
   teamMemberId?: string;
@@ -48,6 +48,7 @@ class AuthService {
   private readonly SALT_ROUNDS = 12;
   private sessionCleanupInterval: NodeJS.Timeout | null = null;
   private readonly SESSION_RETENTION_DAYS = 15; // Keep sessions for 15 days
+  private readonly EVENT_STREAM_TICKET_TTL_SECONDS = 60;
 
   constructor() {
     this.JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
@@ -236,6 +237,35 @@ class AuthService {
     }
   }
 
+  /**
+   * Generate a short-lived ticket for opening the event stream
+   * EventSource cannot send an Authorization header, so the stream URL carries this
+   * ticket instead of the session token. It is only checked when the stream connects.
+   */
+  generateEventStreamTicket(userId: string, teamMemberId?: string): { ticket: string; expiresIn: number } {
+    const now = Math.floor(Date.now() / 1000);
+    const ticket = jwt.sign(
+      { userId, teamMemberId, type: 'event_stream', iat: now, exp: now + this.EVENT_STREAM_TICKET_TTL_SECONDS },
+      this.JWT_SECRET
+    );
+    return { ticket, expiresIn: this.EVENT_STREAM_TICKET_TTL_SECONDS };
+  }
+
+  /**
+   * Verify an event stream ticket (session tokens are rejected)
+   */
+  verifyEventStreamTicket(ticket: string): { userId: string; teamMemberId?: string } | null {
+    try {
+      const decoded = jwt.verify(ticket, this.JWT_SECRET) as JWTPayload;
+      if (decoded.type !== 'event_stream') {
+        return null;
+      }
+      return { userId: decoded.userId, teamMemberId: decoded.teamMemberId };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Generate secure random token for password reset/email verification
    */
@@ -1,11 +1,13 @@
 import { logger } from '../utils/logger';
-import { ContactInterface } from '../models/Contact';
+import ContactModel, { ContactInterface } from '../models/Contact';
+import { TriggerEvent } from '../types/autoEngagement';
 import { FlowMatchingService } from './flowMatchingService';
 import { FlowExecutionService } from './flowExecutionService';
 
 /**
  * AutoEngagementTriggerService
- * Handles triggering of flows when contacts are created
+ * Handles triggering of flows on contact creation and contact events
+ * (lead stage changes, completed calls, email engagement, WhatsApp button clicks)
  */
 export class AutoEngagementTriggerService {
   /**
@@ -15,22 +17,132 @@ export class AutoEngagementTriggerService {
   static async onContactCreated(
     contact: ContactInterface,
     userId: string
+  ): Promise<void> {
+    await this.triggerFlows(contact, userId, { type: 'contact_created' });
+  }
+
+  /**
+   * Trigger flows for a contact whose lead stage changed
+   */
+  static async onLeadStageChanged(
+    contactId: string,
+    userId: string,
+    newStage: string | null,
+    previousStage: string | null
+  ): Promise<void> {
+    await this.triggerFlowsForContactId(contactId, userId, {
+      type: 'lead_stage_changed',
+      data: { new_stage: newStage, previous_stage: previousStage }
+    });
+  }
+
+  /**
+   * Trigger flows for a contact after a call has been completed and analysed
+   */
+  static async onCallCompleted(
+    contactId: string,
+    userId: string,
+    data: {
+      call_id: string;
+      lead_score?: number | null;
+      intent_level?: string | null;
+      lead_status_tag?: string | null;
+    }
+  ): Promise<void> {
+    await this.triggerFlowsForContactId(contactId, userId, { type: 'call_completed', data });
+  }
+
+  /**
+   * Trigger flows for a contact that opened an email or clicked a link in it
+   */
+  static async onEmailEngagement(
+    contactId: string,
+    userId: string,
+    eventType: 'open' | 'click',
+    data: {
+      email_id: string;
+      campaign_id?: string | null;
+      subject?: string | null;
+      clicked_url?: string | null;
+    }
+  ): Promise<void> {
+    await this.triggerFlowsForContactId(contactId, userId, {
+      type: eventType === 'open' ? 'email_opened' : 'email_clicked',
+      data
+    });
+  }
+
+  /**
+   * Trigger flows for a contact that clicked a WhatsApp template button
+   */
+  static async onWhatsAppButtonClicked(
+    contactId: string,
+    userId: string,
+    data: {
+      button_text: string;
+      button_payload?: string | null;
+      template_id?: string | null;
+      message_id?: string | null;
+    }
+  ): Promise<void> {
+    await this.triggerFlowsForContactId(contactId, userId, { type: 'whatsapp_button_clicked', data });
+  }
+
+  /**
+   * Load the contact and trigger flows for an event
+   */
+  private static async triggerFlowsForContactId(
+    contactId: string,
+    userId: string,
+    event: TriggerEvent
+  ): Promise<void> {
+    try {
+      const contact = await ContactModel.findById(contactId);
+      if (!contact || contact.user_id !== userId) {
+        logger.warn('[AutoEngagementTriggerService] Contact not found for trigger event', {
+          contactId,
+          userId,
+          triggerEvent: event.type
+        });
+        return;
+      }
+
+      await this.triggerFlows(contact, userId, event);
+    } catch (error) {
+      logger.error('[AutoEngagementTriggerService] Error loading contact for trigger event', {
+        error: error instanceof Error ? error.message : error,
+        contactId,
+        userId,
+        triggerEvent: event.type
+      });
+    }
+  }
+
+  /**
+   * Find the matching flow for a contact and event and execute it
+   */
+  private static async triggerFlows(
+    contact: ContactInterface,
+    userId: string,
+    event: TriggerEvent
   ): Promise<void> {
     try {
-      logger.info('[AutoEngagementTriggerService] Processing new contact for auto-engagement', {
+      logger.info('[AutoEngagementTriggerService] Processing contact for auto-engagement', {
         contactId: contact.id,
         contactName: contact.name,
         phoneNumber: contact.phone_number,
         userId,
+        triggerEvent: event.type,
         autoCreationSource: contact.auto_creation_source
       });
 
       // Find matching flow
-      const matchResult = await FlowMatchingService.findMatchingFlow(userId, contact);
+      const matchResult = await FlowMatchingService.findMatchingFlow(userId, contact, event);
 
       if (!matchResult.matched || !matchResult.flow) {
         logger.info('[AutoEngagementTriggerService] No matching flow found for contact', {
           contactId: contact.id,
+          triggerEvent: event.type,
           reason: matchResult.reason
         });
         return;
@@ -57,22 +169,25 @@ export class AutoEngagementTriggerService {
         matchResult.flow,
         contact,
         userId,
-        false // Not a test run
+        false, // Not a test run
+        event
       );
 
       logger.info('[AutoEngagementTriggerService] Flow execution triggered successfully', {
         contactId: contact.id,
         flowId: matchResult.flow.id,
         flowName: matchResult.flow.name,
+        triggerEvent: event.type,
         executionId
       });
     } catch (error) {
       logger.error('[AutoEngagementTriggerService] Error triggering auto-engagement flow', {
         error: error instanceof Error ? error.message : error,
         contactId: contact.id,
+        triggerEvent: event.type,
         userId
       });
-      // Don't throw - we don't want to fail contact creation if flow execution fails
+      // Don't throw - we don't want to fail the triggering operation if flow execution fails
     }
   }
 
@@ -1,8 +1,52 @@
+import { PoolClient } from 'pg';
 import UserModel, { UserInterface } from '../models/User';
-import CreditTransactionModel, { CreditTransactionInterface, CreateCreditTransactionData } from '../models/CreditTransaction';
+import CreditTransactionModel, { CreditTransactionInterface } from '../models/CreditTransaction';
+import { CreditReservationModel } from '../models/CreditReservation';
 import { DatabaseService } from './databaseService';
 import { notificationService } from './notificationService';
 import { configService } from './configService';
+import { SubscriptionService } from './subscriptionService';
+import { logger } from '../utils/logger';
+
+// Holds of calls whose completion webhook never arrived stop counting after this
+const RESERVATION_TTL_MINUTES = 120;
+
+/**
+ * Thrown when a deduction or call reservation would take a user past their overdraft limit
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(public readonly available: number, public readonly required: number) {
+    super(`Insufficient credits. Required: ${required}, Available: ${available}`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+export interface CreditBalance {
+  credits: number; // Ledger balance (may be negative down to the overdraft limit)
+  reserved: number; // Held by in-flight calls
+  overdraftLimit: number;
+  available: number; // credits - reserved + overdraftLimit
+  includedSecondsRemaining: number; // Plan minutes left this period (0 without a plan)
+}
+
+interface LedgerEntryParams {
+  userId: string;
+  type: CreditTransactionInterface['type'];
+  amount: number; // Signed: positive adds credits, negative deducts
+  description: string;
+  callId?: string;
+  stripePaymentId?: string;
+  createdBy?: string;
+  idempotencyKey?: string;
+  enforceOverdraftLimit?: boolean; // Reject deductions past the overdraft limit
+  floorAtZero?: boolean; // Deductions stop at zero instead of going negative
+}
+
+interface LedgerEntryResult {
+  user: UserInterface;
+  transaction: CreditTransactionInterface;
+  duplicate: boolean; // An entry with the same idempotency key already existed
+}
 
 // Billing service - business logic for credit management and billing
 export class BillingService {
@@ -52,12 +96,15 @@ export class BillingService {
 
   /**
    * Deduct credits from user account with transaction logging
+   * @param options.force post even past the overdraft limit (usage that already happened)
+   * @throws InsufficientCreditsError when the overdraft limit would be exceeded
    */
   static async deductCredits(
     userId: string, 
     amount: number, 
     description: string,
-    callId?: string
+    callId?: string,
+    options: { force?: boolean; idempotencyKey?: string } = {}
   ): Promise<{
     user: UserInterface;
     transaction: CreditTransactionInterface;
@@ -66,76 +113,22 @@ export class BillingService {
       throw new Error('Credit amount must be positive');
     }
 
-    // Use database transaction to ensure consistency
-    const client = await DatabaseService.getClient();
-    
-    try {
-      await client.query('BEGIN');
-
-      // Get current user with row lock
-      const userQuery = 'SELECT * FROM users WHERE id = $1 FOR UPDATE';
-      const userResult = await client.query(userQuery, [userId]);
-      
-      if (userResult.rows.length === 0) {
-        throw new Error('User not found');
-      }
-
-      const user = userResult.rows[0];
-      
-      // Allow credits to go negative - removed validation check
-      // if (user.credits < amount) {
-      //   throw new Error(`Insufficient credits. Required: ${amount}, Available: ${user.credits}`);
-      // }
-
-      const newBalance = user.credits - amount;
-
-      // Update user credits
-      const updateUserQuery = 'UPDATE users SET credits = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *';
-      const updatedUserResult = await client.query(updateUserQuery, [newBalance, userId]);
-      const updatedUser = updatedUserResult.rows[0];
-
-      // Create transaction record
-      const transactionData: CreateCreditTransactionData = {
-        user_id: userId,
-        type: 'usage',
-        amount: -amount, // Negative for deduction
-        balance_after: newBalance,
-        description,
-        call_id: callId
-      };
-
-      const insertTransactionQuery = `
-        INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, call_id)
-        VALUES ($1, $2, $3, $4, $5, $6)
-        RETURNING *
-      `;
-      
-      const transactionResult = await client.query(insertTransactionQuery, [
-        transactionData.user_id,
-        transactionData.type,
-        transactionData.amount,
-        transactionData.balance_after,
-        transactionData.description,
-        transactionData.call_id
-      ]);
-
-      await client.query('COMMIT');
-
-      return {
-        user: updatedUser,
-        transaction: transactionResult.rows[0]
-      };
-
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    const result = await this.withTransaction(client => this.postLedgerEntry(client, {
+      userId,
+      type: 'usage',
+      amount: -amount, // Negative for deduction
+      description,
+      callId,
+      idempotencyKey: options.idempotencyKey,
+      enforceOverdraftLimit: !options.force
+    }));
+
+    return { user: result.user, transaction: result.transaction };
   }
 
   /**
    * Add credits to user account with transaction logging
+   * Purchases are idempotent per Stripe payment, so a retried webhook cannot add credits twice.
    */
   static async addCredits(
     userId: string, 
@@ -152,91 +145,44 @@ export class BillingService {
       throw new Error('Credit amount must be positive');
     }
 
-    // Use database transaction to ensure consistency
-    const client = await DatabaseService.getClient();
-    
+    const result = await this.withTransaction(client => this.postLedgerEntry(client, {
+      userId,
+      type,
+      amount,
+      description,
+      stripePaymentId,
+      createdBy,
+      idempotencyKey: stripePaymentId ? `stripe:${stripePaymentId}` : undefined
+    }));
+    const { user: updatedUser, transaction } = result;
+
+    // Fire-and-forget: send credits-added notification via unified notification system
     try {
-      await client.query('BEGIN');
-
-      // Get current user with row lock
-      const userQuery = 'SELECT * FROM users WHERE id = $1 FOR UPDATE';
-      const userResult = await client.query(userQuery, [userId]);
-      
-      if (userResult.rows.length === 0) {
-        throw new Error('User not found');
-      }
-
-      const user = userResult.rows[0];
-      const newBalance = user.credits + amount;
-
-      // Update user credits
-      const updateUserQuery = 'UPDATE users SET credits = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *';
-      const updatedUserResult = await client.query(updateUserQuery, [newBalance, userId]);
-      const updatedUser = updatedUserResult.rows[0];
-
-      // Create transaction record
-      const transactionData: CreateCreditTransactionData = {
-        user_id: userId,
-        type,
-        amount,
-        balance_after: newBalance,
-        description,
-        stripe_payment_id: stripePaymentId,
-        created_by: createdBy
-      };
-
-      const insertTransactionQuery = `
-        INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, stripe_payment_id, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *
-      `;
-      
-      const transactionResult = await client.query(insertTransactionQuery, [
-        transactionData.user_id,
-        transactionData.type,
-        transactionData.amount,
-        transactionData.balance_after,
-        transactionData.description,
-        transactionData.stripe_payment_id,
-        transactionData.created_by
-      ]);
-
-      await client.query('COMMIT');
-
-      // Fire-and-forget: send credits-added notification via unified notification system
-      try {
-        if (process.env.EMAIL_CREDITS_ADDED_ENABLED === 'true') {
-          if (updatedUser.email && updatedUser.name) {
-            // Generate idempotency key based on transaction ID
-            const idempotencyKey = `${userId}:credits_added:${transactionResult.rows[0].id}`;
-            
-            notificationService.sendNotification({
-              userId,
-              email: updatedUser.email,
-              notificationType: 'credits_added',
-              relatedTransactionId: transactionResult.rows[0].id,
-              idempotencyKey,
-              notificationData: {
-                userName: updatedUser.name,
-                creditsAdded: amount,
-                newBalance: newBalance
-              }
-            }).catch(() => {}); // Fire-and-forget
-          }
+      if (process.env.EMAIL_CREDITS_ADDED_ENABLED === 'true' && !result.duplicate) {
+        if (updatedUser.email && updatedUser.name) {
+          // Generate idempotency key based on transaction ID
+          const idempotencyKey = `${userId}:credits_added:${transaction.id}`;
+          
+          notificationService.sendNotification({
+            userId,
+            email: updatedUser.email,
+            notificationType: 'credits_added',
+            relatedTransactionId: transaction.id,
+            idempotencyKey,
+            notificationData: {
+              userName: updatedUser.name,
+              creditsAdded: amount,
+              newBalance: Number(updatedUser.credits)
+            }
+          }).catch(() => {}); // Fire-and-forget
         }
-      } catch {}
-
-      return {
-        user: updatedUser,
-        transaction: transactionResult.rows[0]
-      };
+      }
+    } catch {}
 
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    return {
+      user: updatedUser,
+      transaction
+    };
   }
 
   /**
@@ -259,6 +205,9 @@ export class BillingService {
 
   /**
    * Process call completion and deduct credits
+   * Settles the call's credit reservation in the same transaction; the usage entry is
+   * keyed by call, so a retried completion webhook does not charge the call twice.
+   * transaction is null when nothing was charged (the call never connected, or plan minutes covered it).
    */
   static async processCallCredits(
     userId: string,
@@ -268,12 +217,12 @@ export class BillingService {
   ): Promise<{
     creditsUsed: number;
     user: UserInterface;
-    transaction: CreditTransactionInterface;
+    transaction: CreditTransactionInterface | null;
   }> {
-    const creditsUsed = this.calculateCreditsForDuration(durationSeconds);
-    
-    if (creditsUsed === 0) {
-      // No credits to deduct for very short calls
+    if (durationSeconds <= 0) {
+      // No credits to deduct for calls that never connected
+      await this.releaseCallReservation(callId);
+
       const user = await UserModel.findById(userId);
       if (!user) {
         throw new Error('User not found');
@@ -282,22 +231,137 @@ export class BillingService {
       return {
         creditsUsed: 0,
         user,
-        transaction: null as any // No transaction for 0 credits
+        transaction: null // No transaction for 0 credits
       };
     }
 
     const durationMinutes = Math.ceil(durationSeconds / 60);
     const description = `Call to ${phoneNumber} - ${durationMinutes} minute${durationMinutes > 1 ? 's' : ''}`;
 
-    const result = await this.deductCredits(userId, creditsUsed, description, callId);
+    const result = await this.withTransaction<{
+      creditsUsed: number;
+      user: UserInterface;
+      transaction: CreditTransactionInterface | null;
+      duplicate: boolean;
+    }>(async client => {
+      // Users on a plan use their included minutes first; only overage reaches the ledger
+      const planUsage = await SubscriptionService.applyCallUsage(client, userId, callId, durationSeconds);
+      const creditsUsed = planUsage ? planUsage.creditsCharged : this.calculateCreditsForDuration(durationSeconds);
+
+      if (creditsUsed === 0) {
+        await CreditReservationModel.settle(client, callId, 0, null);
+        const user = await this.lockUser(client, userId);
+        return { creditsUsed, user, transaction: null, duplicate: false };
+      }
+
+      // The call already happened, so usage is posted even past the overdraft limit
+      const entry = await this.postLedgerEntry(client, {
+        userId,
+        type: 'usage',
+        amount: -creditsUsed,
+        description: planUsage ? `${description} (plan overage)` : description,
+        callId,
+        idempotencyKey: `call:${callId}:usage`
+      });
+      await CreditReservationModel.settle(client, callId, creditsUsed, entry.transaction.id);
+      return { creditsUsed, ...entry };
+    });
+
+    if (result.duplicate) {
+      logger.warn('[BillingService] Call credits already processed, skipping duplicate charge', { userId, callId });
+    }
 
     return {
-      creditsUsed,
+      creditsUsed: result.creditsUsed,
       user: result.user,
       transaction: result.transaction
     };
   }
 
+  /**
+   * Reserve credits for a call that is about to start
+   * Holds the cost of credit_reservation_seconds of calling (or whatever is left of the
+   * available balance), so concurrent calls cannot collectively overspend it. Plan minutes
+   * are not held; only the part of the estimate they cannot cover is.
+   * @throws InsufficientCreditsError when neither credits nor plan minutes are available
+   */
+  static async reserveCallCredits(userId: string, callId: string): Promise<{ reserved: number; available: number }> {
+    const reservationSeconds = configService.get('credit_reservation_seconds');
+
+    return await this.withTransaction(async client => {
+      const user = await this.lockUser(client, userId);
+      const allowance = await SubscriptionService.getCallAllowance(client, userId);
+      const estimate = allowance
+        ? SubscriptionService.splitCallUsage(
+          reservationSeconds,
+          { rollover_seconds_remaining: 0, included_seconds_remaining: allowance.remainingSeconds },
+          allowance.subscription.plan
+        ).creditsCharged
+        : this.calculateCreditsForDuration(reservationSeconds);
+
+      const held = await CreditReservationModel.getHeldAmount(client, userId, callId);
+      const available = this.round(Number(user.credits) + this.getOverdraftLimit(user) - held);
+      const hasPlanMinutes = !!allowance && allowance.remainingSeconds > 0;
+
+      if (available <= 0 && !hasPlanMinutes) {
+        throw new InsufficientCreditsError(available, estimate);
+      }
+
+      const reservation = await CreditReservationModel.hold(
+        client,
+        userId,
+        callId,
+        Math.min(estimate, Math.max(available, 0)),
+        RESERVATION_TTL_MINUTES
+      );
+
+      return { reserved: Number(reservation.amount), available };
+    });
+  }
+
+  /**
+   * Release a call's credit reservation without charging (no-op once settled)
+   */
+  static async releaseCallReservation(callId: string): Promise<void> {
+    const reservation = await CreditReservationModel.release(callId);
+    if (reservation) {
+      logger.info('[BillingService] Released call credit reservation', {
+        userId: reservation.user_id,
+        callId,
+        amount: Number(reservation.amount)
+      });
+    }
+  }
+
+  /**
+   * Balance, credits held by in-flight calls and what is available for new calls
+   */
+  static async getCreditBalance(userId: string): Promise<CreditBalance> {
+    const client = await DatabaseService.getClient();
+
+    try {
+      const result = await client.query('SELECT credits, credit_overdraft_limit FROM users WHERE id = $1', [userId]);
+      if (result.rows.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const credits = Number(result.rows[0].credits);
+      const overdraftLimit = this.getOverdraftLimit(result.rows[0]);
+      const reserved = await CreditReservationModel.getHeldAmount(client, userId);
+      const allowance = await SubscriptionService.getCallAllowance(client, userId);
+
+      return {
+        credits,
+        reserved,
+        overdraftLimit,
+        available: this.round(credits - reserved + overdraftLimit),
+        includedSecondsRemaining: allowance ? allowance.remainingSeconds : 0
+      };
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Get user's billing history with pagination
    */
@@ -332,11 +396,18 @@ export class BillingService {
   }
 
   /**
-   * Check if user has sufficient credits
+   * Whether a balance allows starting calls: credits above the overdraft limit or plan minutes left
+   */
+  static canPlaceCalls(balance: CreditBalance): boolean {
+    return balance.credits + balance.overdraftLimit > 0 || balance.includedSecondsRemaining > 0;
+  }
+
+  /**
+   * Check if user has sufficient credits (available balance: net of reservations, including overdraft)
    */
   static async hasEnoughCredits(userId: string, requiredCredits: number): Promise<boolean> {
-    const currentCredits = await this.getUserCredits(userId);
-    return currentCredits >= requiredCredits;
+    const balance = await this.getCreditBalance(userId);
+    return balance.available >= requiredCredits;
   }
 
   /**
@@ -353,7 +424,7 @@ export class BillingService {
     userId: string,
     amount: number,
     reason: string,
-    adminUserId: string
+    adminUserId?: string
   ): Promise<{
     user: UserInterface;
     transaction: CreditTransactionInterface;
@@ -366,56 +437,17 @@ export class BillingService {
       // addCredits already triggers email when enabled
       return result;
     } else {
-      // For negative adjustments, we need to handle it carefully
-      
-      const user = await UserModel.findById(userId);
-      
-      if (!user) {
-        throw new Error('User not found');
-      }
+      // Negative adjustments stop at zero rather than pushing the balance negative
+      const result = await this.withTransaction(client => this.postLedgerEntry(client, {
+        userId,
+        type,
+        amount,
+        description,
+        createdBy: adminUserId,
+        floorAtZero: true
+      }));
 
-      // Allow admin to set credits to 0 even if it would go negative
-      const client = await DatabaseService.getClient();
-      
-      try {
-        await client.query('BEGIN');
-
-        const newBalance = Math.max(0, user.credits + amount); // Don't allow negative balance
-
-        // Update user credits
-        const updateUserQuery = 'UPDATE users SET credits = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *';
-        const updatedUserResult = await client.query(updateUserQuery, [newBalance, userId]);
-        const updatedUser = updatedUserResult.rows[0];
-
-        // Create transaction record
-        const insertTransactionQuery = `
-          INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, created_by)
-          VALUES ($1, $2, $3, $4, $5, $6)
-          RETURNING *
-        `;
-        
-        const transactionResult = await client.query(insertTransactionQuery, [
-          userId,
-          type,
-          amount,
-          newBalance,
-          description,
-          adminUserId
-        ]);
-
-        await client.query('COMMIT');
-
-        return {
-          user: updatedUser,
-          transaction: transactionResult.rows[0]
-        };
-
-      } catch (error) {
-        await client.query('ROLLBACK');
-        throw error;
-      } finally {
-        client.release();
-      }
+      return { user: result.user, transaction: result.transaction };
     }
   }
 
@@ -453,4 +485,105 @@ export class BillingService {
       recentTransactions
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Apply a signed amount to the user's balance and record the ledger entry
+   * The balance is computed in SQL (credits = credits + amount) while the user row is
+   * locked, so concurrent entries serialize instead of overwriting each other.
+   */
+  private static async postLedgerEntry(client: PoolClient, params: LedgerEntryParams): Promise<LedgerEntryResult> {
+    const user = await this.lockUser(client, params.userId);
+    const balanceBefore = Number(user.credits);
+
+    if (params.idempotencyKey) {
+      const existing = await client.query(
+        'SELECT * FROM credit_transactions WHERE user_id = $1 AND idempotency_key = $2',
+        [params.userId, params.idempotencyKey]
+      );
+      if (existing.rows.length > 0) {
+        return { user, transaction: existing.rows[0], duplicate: true };
+      }
+    }
+
+    const newBalanceSql = params.floorAtZero && params.amount < 0
+      ? 'GREATEST(credits + $2, LEAST(credits, 0))'
+      : 'credits + $2';
+    const updateResult = await client.query(
+      `UPDATE users
+       SET credits = ${newBalanceSql}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND ($3::boolean = false OR credits + $2 >= -COALESCE(credit_overdraft_limit, $4))
+       RETURNING *`,
+      [
+        params.userId,
+        params.amount,
+        !!params.enforceOverdraftLimit && params.amount < 0,
+        configService.get('default_credit_overdraft_limit')
+      ]
+    );
+
+    if (updateResult.rows.length === 0) {
+      throw new InsufficientCreditsError(
+        this.round(balanceBefore + this.getOverdraftLimit(user)),
+        Math.abs(params.amount)
+      );
+    }
+
+    const updatedUser = updateResult.rows[0];
+    const balanceAfter = Number(updatedUser.credits);
+
+    const transactionResult = await client.query(
+      `INSERT INTO credit_transactions
+        (user_id, type, amount, balance_before, balance_after, description, call_id, stripe_payment_id, created_by, idempotency_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        params.userId,
+        params.type,
+        this.round(balanceAfter - balanceBefore), // The amount actually applied (floorAtZero may reduce it)
+        balanceBefore,
+        balanceAfter,
+        params.description,
+        params.callId || null,
+        params.stripePaymentId || null,
+        params.createdBy || null,
+        params.idempotencyKey || null
+      ]
+    );
+
+    return { user: updatedUser, transaction: transactionResult.rows[0], duplicate: false };
+  }
+
+  private static async lockUser(client: PoolClient, userId: string): Promise<UserInterface> {
+    const result = await client.query('SELECT * FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    if (result.rows.length === 0) {
+      throw new Error('User not found');
+    }
+    return result.rows[0];
+  }
+
+  private static getOverdraftLimit(user: { credit_overdraft_limit?: number | string | null }): number {
+    return user.credit_overdraft_limit !== null && user.credit_overdraft_limit !== undefined
+      ? Number(user.credit_overdraft_limit)
+      : configService.get('default_credit_overdraft_limit');
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static async withTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await DatabaseService.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
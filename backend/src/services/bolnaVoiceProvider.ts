@@ -0,0 +1,78 @@
+import { bolnaService } from './bolnaService';
+import {
+  CallWebhookPayload,
+  VoiceAgent,
+  VoiceAgentDefinition,
+  VoiceCallRequest,
+  VoiceCallResponse,
+  VoiceCallStatus,
+  VoiceProvider
+} from '../types/voiceProvider';
+
+/**
+ * Bolna.ai voice provider
+ * Agent definitions and webhooks already use Bolna's shapes, so this maps call
+ * requests and otherwise delegates to bolnaService.
+ */
+export class BolnaVoiceProvider implements VoiceProvider {
+  readonly name = 'bolna' as const;
+
+  getAgent(agentId: string): Promise<VoiceAgent> {
+    return bolnaService.getAgent(agentId);
+  }
+
+  createAgent(definition: VoiceAgentDefinition): Promise<VoiceAgent> {
+    return bolnaService.createAgent(definition);
+  }
+
+  updateAgent(agentId: string, definition: Partial<VoiceAgentDefinition>): Promise<VoiceAgent> {
+    return bolnaService.updateAgent(agentId, definition);
+  }
+
+  async updateAgentPrompt(agentId: string, systemPrompt: string): Promise<void> {
+    await bolnaService.patchAgentSystemPrompt(agentId, systemPrompt);
+  }
+
+  deleteAgent(agentId: string): Promise<void> {
+    return bolnaService.deleteAgent(agentId);
+  }
+
+  async placeCall(request: VoiceCallRequest): Promise<VoiceCallResponse> {
+    const response = await bolnaService.makeCall({
+      agent_id: request.agentId,
+      recipient_phone_number: request.toPhoneNumber,
+      from_phone_number: request.fromPhoneNumber,
+      webhook_url: request.webhookUrl,
+      user_data: request.userData,
+      metadata: request.metadata
+    });
+
+    return { executionId: response.execution_id, status: response.status };
+  }
+
+  stopCall(executionId: string): Promise<void> {
+    return bolnaService.stopCall(executionId);
+  }
+
+  async getCallStatus(executionId: string): Promise<VoiceCallStatus> {
+    const execution = await bolnaService.getCallStatus(executionId);
+    return {
+      executionId,
+      status: execution?.status || 'unknown',
+      durationSeconds: execution?.conversation_duration !== undefined
+        ? Math.floor(Number(execution.conversation_duration))
+        : undefined,
+      raw: execution
+    };
+  }
+
+  normalizeWebhook(body: any): CallWebhookPayload | null {
+    if (!body || typeof body !== 'object' || !body.status) {
+      return null;
+    }
+
+    // Older payloads only carry execution_id
+    const id = body.id || body.execution_id;
+    return id ? { ...body, id } : null;
+  }
+}
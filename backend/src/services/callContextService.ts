@@ -0,0 +1,363 @@
+import { pool } from '../config/database';
+import { AgentInterface } from '../models/Agent';
+import { ContactInterface } from '../models/Contact';
+import LeadAnalytics, { LeadAnalyticsInterface } from '../models/LeadAnalytics';
+import {
+  CallContextPreview,
+  CallVariableDefinition,
+  CallVariableFormat,
+  CallVariableSource
+} from '../types/callVariables';
+import { isValidTimezone } from '../utils/timezoneUtils';
+import { logger } from '../utils/logger';
+
+export class CallVariableError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'INVALID_CALL_VARIABLES') {
+    super(message);
+    this.name = 'CallVariableError';
+  }
+}
+
+/**
+ * Fields each source can read
+ */
+export const CALL_VARIABLE_FIELDS: Record<Exclude<CallVariableSource, 'custom_field' | 'csv_column' | 'static'>, string[]> = {
+  contact: [
+    'name', 'phone_number', 'email', 'company', 'notes', 'city', 'country', 'business_context',
+    'lead_stage', 'tags', 'last_contact_at', 'created_at', 'auto_creation_source'
+  ],
+  lead_analytics: [
+    'requirements', 'transcript_summary', 'in_detail_summary', 'total_score', 'lead_status_tag',
+    'intent_level', 'urgency_level', 'budget_constraint', 'company_name', 'extracted_name',
+    'extracted_email', 'demo_book_datetime', 'custom_cta'
+  ],
+  previous_call: ['summary', 'date', 'outcome', 'duration_minutes'],
+  next_meeting: ['start_time', 'title', 'duration_minutes']
+};
+
+const FORMATS: CallVariableFormat[] = ['text', 'first_name', 'uppercase', 'lowercase', 'date', 'datetime', 'time'];
+const MAX_VARIABLES = 50;
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,63}$/;
+
+/**
+ * Variables sent when an agent has no mapping of its own
+ */
+export const DEFAULT_CALL_VARIABLES: CallVariableDefinition[] = [
+  { key: 'lead_name', source: 'contact', field: 'name' },
+  { key: 'business_name', source: 'contact', field: 'company' },
+  { key: 'email', source: 'contact', field: 'email' },
+  { key: 'notes', source: 'contact', field: 'notes' },
+  { key: 'product_interest', source: 'lead_analytics', field: 'requirements' },
+  { key: 'last_interaction_summary', source: 'lead_analytics', field: 'transcript_summary' },
+  { key: 'last_interaction_date', source: 'contact', field: 'last_contact_at', format: 'date' }
+];
+
+export interface CallContextInput {
+  agent: Pick<AgentInterface, 'id' | 'call_variables'>;
+  userId: string;
+  contact?: ContactInterface | null;
+  leadAnalytics?: LeadAnalyticsInterface | null; // Already loaded by the caller
+  csvColumns?: Record<string, string> | null;    // Upload row of a campaign contact
+  timezone?: string | null;                      // Campaign timezone, used when the contact has none
+}
+
+interface PreviousCall {
+  summary: string | null;
+  date: Date;
+  outcome: string | null;
+  duration_minutes: number;
+}
+
+interface NextMeeting {
+  start_time: Date;
+  title: string;
+  duration_minutes: number;
+}
+
+/**
+ * Call context variables
+ *
+ * Resolves an agent's variable mapping for a contact into the user_data sent to the
+ * voice agent. Values are read when the call is placed, so they reflect the contact
+ * as it is then; dates are formatted in the contact's timezone.
+ */
+export class CallContextService {
+  static getVariables(agent: Pick<AgentInterface, 'call_variables'>): CallVariableDefinition[] {
+    return agent.call_variables || DEFAULT_CALL_VARIABLES;
+  }
+
+  /**
+   * Check a mapping from a request body; returns it without unknown properties
+   */
+  static validateVariables(input: unknown): CallVariableDefinition[] {
+    if (!Array.isArray(input)) {
+      throw new CallVariableError('variables must be an array');
+    }
+    if (input.length > MAX_VARIABLES) {
+      throw new CallVariableError(`An agent can have at most ${MAX_VARIABLES} variables`);
+    }
+
+    const keys = new Set<string>();
+    return input.map((item, index) => {
+      const label = `Variable ${index + 1}`;
+      if (!item || typeof item !== 'object') {
+        throw new CallVariableError(`${label} must be an object`);
+      }
+      const { key, source, field, format, default: defaultValue } = item as Record<string, unknown>;
+
+      if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+        throw new CallVariableError(`${label}: key must start with a letter and contain only letters, digits and underscores`);
+      }
+      if (keys.has(key)) {
+        throw new CallVariableError(`Variable "${key}" is defined more than once`);
+      }
+      keys.add(key);
+
+      if (format !== undefined && !FORMATS.includes(format as CallVariableFormat)) {
+        throw new CallVariableError(`Variable "${key}": unknown format "${format}"`);
+      }
+      if (defaultValue !== undefined && typeof defaultValue !== 'string') {
+        throw new CallVariableError(`Variable "${key}": default must be a string`);
+      }
+
+      switch (source) {
+        case 'contact':
+        case 'lead_analytics':
+        case 'previous_call':
+        case 'next_meeting':
+          if (typeof field !== 'string' || !CALL_VARIABLE_FIELDS[source].includes(field)) {
+            throw new CallVariableError(
+              `Variable "${key}": field must be one of ${CALL_VARIABLE_FIELDS[source].join(', ')}`
+            );
+          }
+          break;
+        case 'custom_field':
+        case 'csv_column':
+          if (typeof field !== 'string' || !field.trim()) {
+            throw new CallVariableError(`Variable "${key}": field is required`);
+          }
+          break;
+        case 'static':
+          if (defaultValue === undefined) {
+            throw new CallVariableError(`Variable "${key}": a static variable needs a default`);
+          }
+          break;
+        default:
+          throw new CallVariableError(`Variable "${key}": unknown source "${source}"`);
+      }
+
+      const variable: CallVariableDefinition = { key, source };
+      if (source !== 'static') variable.field = source === 'csv_column' ? normalizeColumn(field as string) : field as string;
+      if (format !== undefined) variable.format = format as CallVariableFormat;
+      if (defaultValue !== undefined) variable.default = defaultValue;
+      return variable;
+    });
+  }
+
+  /**
+   * Replace an agent's mapping; null restores the default variables
+   */
+  static async updateVariables(agentId: string, input: unknown): Promise<CallVariableDefinition[]> {
+    const variables = input === null ? null : this.validateVariables(input);
+    await pool.query(
+      'UPDATE agents SET call_variables = $2, updated_at = NOW() WHERE id = $1',
+      [agentId, variables ? JSON.stringify(variables) : null]
+    );
+    return variables || DEFAULT_CALL_VARIABLES;
+  }
+
+  /**
+   * user_data for a call
+   */
+  static async buildUserData(input: CallContextInput): Promise<Record<string, string>> {
+    const { user_data } = await this.preview(input);
+    return user_data;
+  }
+
+  /**
+   * Resolve every variable, keeping track of which ones fell back to their default
+   */
+  static async preview(input: CallContextInput): Promise<CallContextPreview> {
+    const variables = this.getVariables(input.agent);
+    const sources = new Set(variables.map(variable => variable.source));
+    const contact = input.contact || null;
+
+    const [timezone, analytics, previousCall, nextMeeting] = await Promise.all([
+      this.resolveTimezone(input),
+      contact && (sources.has('lead_analytics') || sources.has('custom_field'))
+        ? this.load('lead analytics', () => input.leadAnalytics !== undefined
+          ? Promise.resolve(input.leadAnalytics)
+          : LeadAnalytics.getCompleteAnalysisByContact(input.userId, contact.phone_number))
+        : null,
+      contact && sources.has('previous_call') ? this.load('previous call', () => this.findPreviousCall(contact)) : null,
+      contact && sources.has('next_meeting') ? this.load('next meeting', () => this.findNextMeeting(contact)) : null
+    ]);
+
+    const resolved = variables.map(variable => {
+      let raw: unknown;
+      switch (variable.source) {
+        case 'contact':
+          raw = contact ? (contact as any)[variable.field!] : undefined;
+          break;
+        case 'lead_analytics':
+          raw = analytics ? (analytics as any)[variable.field!] : undefined;
+          break;
+        case 'custom_field':
+          raw = analytics?.custom_fields?.[variable.field!];
+          break;
+        case 'previous_call':
+          raw = previousCall ? (previousCall as any)[variable.field!] : undefined;
+          break;
+        case 'next_meeting':
+          raw = nextMeeting ? (nextMeeting as any)[variable.field!] : undefined;
+          break;
+        case 'csv_column':
+          raw = input.csvColumns?.[variable.field!];
+          break;
+        case 'static':
+          raw = undefined;
+          break;
+      }
+
+      const value = formatValue(raw, variable.format, timezone);
+      return {
+        ...variable,
+        value: value || variable.default || '',
+        used_default: !value && variable.source !== 'static'
+      };
+    });
+
+    return {
+      user_data: Object.fromEntries(resolved.map(variable => [variable.key, variable.value])),
+      timezone,
+      variables: resolved
+    };
+  }
+
+  /**
+   * Upload columns stored on a contact's campaign queue item
+   */
+  static async findCampaignColumns(campaignId: string, contactId: string): Promise<Record<string, string> | null> {
+    const result = await pool.query(
+      `SELECT user_data->'csv_columns' as csv_columns
+       FROM call_queue
+       WHERE campaign_id = $1 AND contact_id = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [campaignId, contactId]
+    );
+    return result.rows[0]?.csv_columns || null;
+  }
+
+  /**
+   * Upload row as variable columns: lowercased headers, empty cells dropped
+   */
+  static toCsvColumns(row: Record<string, unknown>): Record<string, string> {
+    const columns: Record<string, string> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const column = normalizeColumn(header);
+      const text = value === undefined || value === null ? '' : String(value).trim();
+      if (column && text) {
+        columns[column] = text;
+      }
+    }
+    return columns;
+  }
+
+  /**
+   * Contact's timezone, else the campaign's, else the user's
+   */
+  private static async resolveTimezone(input: CallContextInput): Promise<string> {
+    const contactTimezone = input.contact?.timezone;
+    if (contactTimezone && isValidTimezone(contactTimezone)) {
+      return contactTimezone;
+    }
+    if (input.timezone && isValidTimezone(input.timezone)) {
+      return input.timezone;
+    }
+
+    const result = await pool.query('SELECT timezone FROM users WHERE id = $1', [input.userId]);
+    const userTimezone = result.rows[0]?.timezone;
+    return userTimezone && isValidTimezone(userTimezone) ? userTimezone : 'UTC';
+  }
+
+  private static async findPreviousCall(contact: ContactInterface): Promise<PreviousCall | null> {
+    const result = await pool.query(
+      `SELECT c.created_at as date, c.call_lifecycle_status as outcome, c.duration_minutes, la.transcript_summary as summary
+       FROM calls c
+       LEFT JOIN LATERAL (
+         SELECT transcript_summary FROM lead_analytics
+         WHERE call_id = c.id AND analysis_type = 'individual'
+         ORDER BY created_at DESC LIMIT 1
+       ) la ON true
+       WHERE c.contact_id = $1 AND c.user_id = $2 AND c.status IN ('completed', 'failed')
+       ORDER BY c.created_at DESC
+       LIMIT 1`,
+      [contact.id, contact.user_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  private static async findNextMeeting(contact: ContactInterface): Promise<NextMeeting | null> {
+    const result = await pool.query(
+      `SELECT meeting_start_time as start_time, meeting_title as title, meeting_duration_minutes as duration_minutes
+       FROM calendar_meetings
+       WHERE contact_id = $1 AND user_id = $2 AND status = 'scheduled' AND meeting_start_time > NOW()
+       ORDER BY meeting_start_time
+       LIMIT 1`,
+      [contact.id, contact.user_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  // A source that fails to load leaves its variables on their defaults rather than failing the call
+  private static async load<T>(name: string, loader: () => Promise<T>): Promise<T | null> {
+    try {
+      return await loader();
+    } catch (error) {
+      logger.warn(`[CallContextService] Failed to load ${name} for call variables`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+}
+
+function normalizeColumn(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+const DATE_FORMATS: Partial<Record<CallVariableFormat, Intl.DateTimeFormatOptions>> = {
+  date: { year: 'numeric', month: 'long', day: 'numeric' },
+  datetime: { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' },
+  time: { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }
+};
+
+function formatValue(raw: unknown, format: CallVariableFormat | undefined, timezone: string): string {
+  if (raw === undefined || raw === null) {
+    return '';
+  }
+
+  const dateOptions = format && DATE_FORMATS[format];
+  if (dateOptions) {
+    const date = raw instanceof Date ? raw : new Date(String(raw));
+    if (!isNaN(date.getTime())) {
+      return new Intl.DateTimeFormat('en-US', { ...dateOptions, timeZone: timezone }).format(date);
+    }
+  }
+
+  const text = Array.isArray(raw)
+    ? raw.filter(item => item !== null && item !== undefined && item !== '').join(', ')
+    : raw instanceof Date ? raw.toISOString() : String(raw).trim();
+
+  switch (format) {
+    case 'first_name':
+      return text.split(/\s+/)[0] || '';
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    default:
+      return text;
+  }
+}
@@ -1,90 +1,22 @@
 import Call, { CallInterface } from '../models/Call';
 import Transcript, { TranscriptInterface } from '../models/Transcript';
 import LeadAnalytics, { LeadAnalyticsInterface } from '../models/LeadAnalytics';
-import { bolnaService, BolnaCallRequest, BolnaCallResponse } from './bolnaService';
+import { getVoiceProvider } from './voiceProvider';
+import { VoiceCallRequest } from '../types/voiceProvider';
 import Agent from '../models/Agent';
 import PhoneNumber from '../models/PhoneNumber';
 import Contact, { ContactInterface } from '../models/Contact';
 import { CallCampaignModel } from '../models/CallCampaign';
+import { AgentPromptService } from './agentPromptService';
+import { CallContextService } from './callContextService';
 import { ConcurrencyManager } from './ConcurrencyManager';
+import { SuppressionService, SuppressedRecipientError } from './suppressionService';
 import crypto from 'crypto';
 import * as Sentry from '@sentry/node';
 import { hashPhoneNumber, hashUserId } from '../utils/sentryHelpers';
 
 import { logger } from '../utils/logger';
 
-/**
- * Build user_data object for Bolna API calls.
- * Maps contact/queue data to standardized field names for Bolna AI agent.
- * 
- * Field Mapping:
- * - contact.name OR queueUserData.name/lead_name → lead_name
- * - contact.company OR queueUserData.company/business_name → business_name
- * - contact.email OR queueUserData.email → email
- * - contact.notes OR queueUserData.notes → notes
- * - leadAnalytics.requirements OR queueUserData.product_interest → product_interest
- * - leadAnalytics.transcript_summary OR queueUserData.last_interaction_summary → last_interaction_summary
- * - contact.last_contact_at OR queueUserData.last_interaction_date → last_interaction_date
- * 
- * @param contact - Contact data from database (for direct calls)
- * @param queueUserData - User data from campaign queue item (for campaign calls)
- * @param leadAnalytics - Lead analytics data for additional context (optional)
- * @returns Object with lead_name, business_name, email, notes, product_interest, last_interaction_summary, last_interaction_date fields for Bolna API
- */
-function buildUserData(
-  contact: ContactInterface | null, 
-  queueUserData?: Record<string, any>,
-  leadAnalytics?: LeadAnalyticsInterface | null
-): Record<string, any> {
-  // If we have queue user_data (from campaign), use it directly (already contains all fields)
-  if (queueUserData) {
-    return {
-      lead_name: queueUserData.name || queueUserData.lead_name || '',
-      business_name: queueUserData.company || queueUserData.business_name || '',
-      email: queueUserData.email || '',
-      notes: queueUserData.notes || '',
-      product_interest: queueUserData.product_interest || '',
-      last_interaction_summary: queueUserData.last_interaction_summary || '',
-      last_interaction_date: queueUserData.last_interaction_date || ''
-    };
-  }
-  
-  // If we have contact data, build user_data from it + lead analytics
-  if (contact) {
-    // Format last_interaction_date as human-readable string
-    let lastInteractionDate = '';
-    if (contact.last_contact_at) {
-      const date = new Date(contact.last_contact_at);
-      lastInteractionDate = date.toLocaleDateString('en-US', { 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
-      });
-    }
-    
-    return {
-      lead_name: contact.name || '',
-      business_name: contact.company || '',
-      email: contact.email || '',
-      notes: contact.notes || '',
-      product_interest: leadAnalytics?.requirements || '',
-      last_interaction_summary: leadAnalytics?.transcript_summary || '',
-      last_interaction_date: lastInteractionDate
-    };
-  }
-  
-  // Return empty user_data if no data available
-  return {
-    lead_name: '',
-    business_name: '',
-    email: '',
-    notes: '',
-    product_interest: '',
-    last_interaction_summary: '',
-    last_interaction_date: ''
-  };
-}
-
 // Create singleton instance of ConcurrencyManager
 const concurrencyManager = new ConcurrencyManager();
 
@@ -403,7 +335,7 @@ export class CallService {
   }
 
   /**
-   * Initiate a call using Bolna.ai API with atomic concurrency management
+   * Initiate a call through the voice provider with atomic concurrency management
    */
   static async initiateCall(callRequest: CallInitiationRequest): Promise<CallInitiationResponse> {
     // Start Sentry span for call initiation monitoring
@@ -422,6 +354,17 @@ export class CallService {
         try {
           logger.info(`Initiating call for user ${callRequest.userId} to ${callRequest.phoneNumber}`);
 
+          // Never dial numbers on the do-not-call list (checked before a slot is reserved)
+          // Flows can opt out for transactional calls with respect_dnc: false
+          if (callRequest.metadata?.respect_dnc !== false) {
+            await SuppressionService.assertNotSuppressed(
+              callRequest.userId,
+              { phoneNumber: callRequest.phoneNumber, contactId: callRequest.contactId },
+              'call',
+              { agent_id: callRequest.agentId, source: callRequest.metadata?.source || callRequest.metadata?.call_source || null }
+            );
+          }
+
           // Add breadcrumb for debugging
           Sentry.addBreadcrumb({
             category: 'call',
@@ -689,12 +632,17 @@ export class CallService {
               }
             }
             
-            // Prepare Bolna.ai call request
-            const bolnaCallData: BolnaCallRequest = {
-              agent_id: agent.bolna_agent_id,
-              recipient_phone_number: callRequest.phoneNumber,
-              webhook_url: process.env.BOLNA_WEBHOOK_URL || undefined,
-              user_data: buildUserData(contactData, undefined, leadAnalyticsData),
+            // Prepare the voice provider call request
+            const callData: VoiceCallRequest = {
+              agentId: agent.bolna_agent_id,
+              toPhoneNumber: callRequest.phoneNumber,
+              webhookUrl: process.env.BOLNA_WEBHOOK_URL || undefined,
+              userData: await CallContextService.buildUserData({
+                agent,
+                userId: callRequest.userId,
+                contact: contactData,
+                leadAnalytics: leadAnalyticsData
+              }),
               metadata: {
                 user_id: callRequest.userId,
                 agent_id: callRequest.agentId,
@@ -708,10 +656,10 @@ export class CallService {
             // 1. Direct from_phone_number string (from n8n webhook)
             // 2. Phone number from database lookup (callerPhoneNumberId, agent assignment, or user pool)
             if (directFromPhoneNumber) {
-              bolnaCallData.from_phone_number = directFromPhoneNumber;
+              callData.fromPhoneNumber = directFromPhoneNumber;
               logger.info(`Call will use direct from_phone_number: ${directFromPhoneNumber}`);
             } else if (callerPhoneNumber && callerPhoneNumber.phone_number) {
-              bolnaCallData.from_phone_number = callerPhoneNumber.phone_number;
+              callData.fromPhoneNumber = callerPhoneNumber.phone_number;
               logger.info(`Call will use from_phone_number: ${callerPhoneNumber.phone_number} (${callerPhoneNumber.name})`);
             } else {
               logger.warn(`No phone number available for call - Bolna will use default or fail`, {
@@ -738,22 +686,22 @@ export class CallService {
               level: 'info'
             });
             
-            // Make the call via Bolna.ai
-            const bolnaResponse = await bolnaService.makeCall(bolnaCallData);
+            // Make the call via the configured voice provider
+            const providerResponse = await getVoiceProvider().placeCall(callData);
             
             Sentry.addBreadcrumb({
               category: 'call',
               message: 'Bolna.ai call successful',
               level: 'info',
               data: {
-                executionId: bolnaResponse.execution_id
+                executionId: providerResponse.executionId
               }
             });
             
             // Update active_calls with execution_id immediately
             await concurrencyManager.updateActiveCallWithExecutionId(
               preReservedCallId, 
-              bolnaResponse.execution_id
+              providerResponse.executionId
             );
             
             // Create call record in database using pre-reserved ID
@@ -762,21 +710,21 @@ export class CallService {
               agent_id: callRequest.agentId,
               user_id: callRequest.userId,
               contact_id: callRequest.contactId,
-              bolna_execution_id: bolnaResponse.execution_id,
+              bolna_execution_id: providerResponse.executionId,
               phone_number: callRequest.phoneNumber,
               call_source: 'phone',
               status: 'in_progress',
               metadata: {
-                bolna_execution_id: bolnaResponse.execution_id,
+                bolna_execution_id: providerResponse.executionId,
                 initiated_at: new Date().toISOString(),
                 ...callRequest.metadata
               }
             });
             
-            logger.info(`Call initiated successfully. Execution ID: ${bolnaResponse.execution_id}, Call ID: ${callRecord.id}`);
+            logger.info(`Call initiated successfully. Execution ID: ${providerResponse.executionId}, Call ID: ${callRecord.id}`);
             
             return {
-              executionId: bolnaResponse.execution_id,
+              executionId: providerResponse.executionId,
               status: 'initiated',
               callId: callRecord.id
             };
@@ -809,7 +757,7 @@ export class CallService {
                 }
               });
               
-              await concurrencyManager.releaseCallSlot(preReservedCallId);
+              await concurrencyManager.releaseCallSlot(preReservedCallId, { releaseCredits: true });
             } else {
               logger.error(`Bolna API call failed for pre-reserved slot ${preReservedCallId}, controller will handle cleanup:`, apiError);
               
@@ -836,7 +784,11 @@ export class CallService {
           logger.error('Failed to initiate call:', error);
           
           // Capture any other unexpected errors
-          if (error instanceof Error && !error.message.includes('concurrency limit')) {
+          if (
+            error instanceof Error &&
+            !error.message.includes('concurrency limit') &&
+            !(error instanceof SuppressedRecipientError)
+          ) {
             Sentry.captureException(error, {
               tags: {
                 error_type: 'call_initiation_failed',
@@ -889,13 +841,11 @@ export class CallService {
       
       // Priority 1: Campaign's explicitly selected phone number
       const campaignId = callRequest.metadata?.campaign_id;
-      if (campaignId) {
-        const campaign = await CallCampaignModel.findById(campaignId, callRequest.userId);
-        if (campaign?.phone_number_id) {
-          callerPhoneNumber = await PhoneNumber.findById(campaign.phone_number_id);
-          if (callerPhoneNumber) {
-            logger.info(`Campaign call using campaign-selected phone number: ${callerPhoneNumber.name} (${callerPhoneNumber.phone_number})`);
-          }
+      const campaign = campaignId ? await CallCampaignModel.findById(campaignId, callRequest.userId) : null;
+      if (campaign?.phone_number_id) {
+        callerPhoneNumber = await PhoneNumber.findById(campaign.phone_number_id);
+        if (callerPhoneNumber) {
+          logger.info(`Campaign call using campaign-selected phone number: ${callerPhoneNumber.name} (${callerPhoneNumber.phone_number})`);
         }
       }
       
@@ -915,25 +865,40 @@ export class CallService {
         }
       }
       
-      // Prepare Bolna.ai call request
-      // Extract user_data from queue item metadata (built by CallCampaignService.addContactsToQueue)
-      const queueUserData = callRequest.metadata?.user_data;
-      const bolnaCallData: BolnaCallRequest = {
-        agent_id: agent.bolna_agent_id,
-        recipient_phone_number: callRequest.phoneNumber,
-        webhook_url: process.env.BOLNA_WEBHOOK_URL || undefined,
-        user_data: buildUserData(null, queueUserData),
+      // Prompt version for this contact when the campaign runs a prompt A/B test
+      const prompt = campaign
+        ? await AgentPromptService.resolveCampaignCall(campaign, agent, callRequest.contactId || callRequest.phoneNumber)
+        : { promptVersionId: agent.current_prompt_version_id || null, providerAgentId: agent.bolna_agent_id, variant: null };
+
+      // Variables for the agent, read from the contact now rather than when it was queued
+      // (upload columns come from the queue item built by CallCampaignService.addContactsToQueue)
+      const contact = callRequest.contactId ? await Contact.findById(callRequest.contactId) : null;
+      const userData = await CallContextService.buildUserData({
+        agent,
+        userId: callRequest.userId,
+        contact: contact?.user_id === callRequest.userId ? contact : null,
+        csvColumns: callRequest.metadata?.user_data?.csv_columns,
+        timezone: campaign?.campaign_timezone
+      });
+
+      // Prepare the voice provider call request
+      const callData: VoiceCallRequest = {
+        agentId: prompt.providerAgentId,
+        toPhoneNumber: callRequest.phoneNumber,
+        webhookUrl: process.env.BOLNA_WEBHOOK_URL || undefined,
+        userData,
         metadata: {
           user_id: callRequest.userId,
           agent_id: callRequest.agentId,
           contact_id: callRequest.contactId,
-          ...callRequest.metadata
+          ...callRequest.metadata,
+          ...(prompt.variant && { prompt_variant: prompt.variant })
         }
       };
 
       // Add from_phone_number if a phone number is available
       if (callerPhoneNumber && callerPhoneNumber.phone_number) {
-        bolnaCallData.from_phone_number = callerPhoneNumber.phone_number;
+        callData.fromPhoneNumber = callerPhoneNumber.phone_number;
         logger.info(`Campaign call will use from_phone_number: ${callerPhoneNumber.phone_number} (${callerPhoneNumber.name})`);
       } else {
         logger.warn(`No phone number available for campaign call - Bolna will use default or fail`, {
@@ -964,16 +929,16 @@ export class CallService {
       
       logger.info(`Created pending call record with ID: ${callRecord.id}`);
       
-      // Make the call via Bolna.ai
-      let bolnaResponse;
+      // Make the call via the configured voice provider
+      let providerResponse;
       try {
-        bolnaResponse = await bolnaService.makeCall(bolnaCallData);
+        providerResponse = await getVoiceProvider().placeCall(callData);
       } catch (bolnaError) {
         // Bolna API failed - mark call record as failed and release concurrency slot
         logger.error(`Bolna API call failed for call ${callRecord.id}:`, bolnaError);
         
         // CRITICAL: Release the pre-reserved concurrency slot
-        await concurrencyManager.releaseCallSlot(preReservedCallId);
+        await concurrencyManager.releaseCallSlot(preReservedCallId, { releaseCredits: true });
         logger.info(`Released concurrency slot for failed Bolna API call`, {
           call_id: preReservedCallId,
           user_id: callRequest.userId
@@ -981,6 +946,7 @@ export class CallService {
         
         await Call.updateCall(callRecord.id, {
           status: 'failed',
+          prompt_version_id: prompt.promptVersionId,
           metadata: {
             ...callRecord.metadata,
             error: bolnaError instanceof Error ? bolnaError.message : 'Bolna API call failed'
@@ -992,22 +958,24 @@ export class CallService {
       // Update active_calls with execution_id immediately
       await concurrencyManager.updateActiveCallWithExecutionId(
         preReservedCallId, 
-        bolnaResponse.execution_id
+        providerResponse.executionId
       );
       
       // Update call record with Bolna execution ID
       await Call.updateCall(callRecord.id, {
-        bolna_execution_id: bolnaResponse.execution_id,
+        bolna_execution_id: providerResponse.executionId,
+        prompt_version_id: prompt.promptVersionId,
         metadata: {
           ...callRecord.metadata,
-          bolna_execution_id: bolnaResponse.execution_id
+          bolna_execution_id: providerResponse.executionId,
+          ...(prompt.variant && { prompt_variant: prompt.variant })
         }
       });
       
-      logger.info(`Campaign call initiated successfully. Execution ID: ${bolnaResponse.execution_id}, Call ID: ${callRecord.id}`);
+      logger.info(`Campaign call initiated successfully. Execution ID: ${providerResponse.executionId}, Call ID: ${callRecord.id}`);
       
       return {
-        executionId: bolnaResponse.execution_id,
+        executionId: providerResponse.executionId,
         status: 'initiated',
         callId: callRecord.id
       };
@@ -1019,7 +987,7 @@ export class CallService {
   }
   
   /**
-   * Stop an active call using Bolna.ai API
+   * Stop an active call through the voice provider
    */
   static async stopCall(executionId: string, userId: string): Promise<void> {
     try {
@@ -1036,8 +1004,8 @@ export class CallService {
         throw new Error('Call does not belong to user');
       }
       
-      // Stop the call via Bolna.ai
-      await bolnaService.stopCall(executionId);
+      // Stop the call via the voice provider
+      await getVoiceProvider().stopCall(executionId);
       
       // Update call status
       await Call.updateCall(call.id, {
@@ -1058,7 +1026,7 @@ export class CallService {
   }
   
   /**
-   * Get call status from Bolna.ai API
+   * Get call status from the voice provider
    */
   static async getCallStatus(executionId: string, userId: string): Promise<any> {
     try {
@@ -1075,8 +1043,8 @@ export class CallService {
         throw new Error('Call does not belong to user');
       }
       
-      // Get status from Bolna.ai
-      const status = await bolnaService.getCallStatus(executionId);
+      // Get status from the voice provider
+      const status = await getVoiceProvider().getCallStatus(executionId);
       
       logger.info(`Retrieved status for call ${executionId}`);
       return {
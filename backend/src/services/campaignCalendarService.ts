@@ -0,0 +1,301 @@
+import { isValidTimezone } from '../utils/timezoneUtils';
+import { CallCampaign, CampaignDayWindow, CampaignWeekday, WeeklyCallSchedule } from '../types/campaign';
+
+// Index matches Date#getUTCDay() and Postgres EXTRACT(DOW)
+export const CAMPAIGN_WEEKDAYS: CampaignWeekday[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/**
+ * A campaign's calendar and pacing settings, with the timezone it runs in
+ */
+export type CampaignCalendar = Pick<
+  CallCampaign,
+  | 'first_call_time'
+  | 'last_call_time'
+  | 'weekly_schedule'
+  | 'blackout_dates'
+  | 'max_calls_per_day'
+  | 'max_calls_per_hour'
+  | 'call_pace_seconds'
+> & { timezone: string };
+
+/**
+ * A campaign's recent calls, as returned by get_campaign_call_counts()
+ */
+export interface CampaignCallCounts {
+  calls_today: number;
+  calls_last_hour: number;
+  oldest_call_last_hour: Date | null;
+  last_call_at: Date | null;
+}
+
+type CalendarSettings = Pick<
+  CallCampaign,
+  'weekly_schedule' | 'blackout_dates' | 'max_calls_per_day' | 'max_calls_per_hour' | 'call_pace_seconds'
+>;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_BLACKOUT_DATES = 366;
+const MAX_PACE_SECONDS = 3600;
+// Far enough to step over a full year of blackout dates
+const LOOKAHEAD_DAYS = 400;
+
+/**
+ * Campaign calling calendar: weekday windows, blackout dates, daily/hourly caps and pace
+ * get_next_queued_call() applies the same rules in SQL when handing out calls; this is
+ * used to validate settings and to work out when a campaign may dial next.
+ */
+export class CampaignCalendarService {
+  /**
+   * Validate the calendar and pacing fields present on a create/update request
+   * Returns only the fields that were provided, normalized for storage.
+   * @throws Error describing the first problem found
+   */
+  static validateSettings(settings: CalendarSettings): CalendarSettings {
+    const validated: CalendarSettings = {};
+
+    if (settings.weekly_schedule !== undefined) {
+      validated.weekly_schedule = this.validateWeeklySchedule(settings.weekly_schedule);
+    }
+
+    if (settings.blackout_dates !== undefined) {
+      validated.blackout_dates = this.validateBlackoutDates(settings.blackout_dates);
+    }
+
+    for (const field of ['max_calls_per_day', 'max_calls_per_hour'] as const) {
+      const value = settings[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (value === null) {
+        validated[field] = null;
+        continue;
+      }
+      const cap = Number(value);
+      if (!Number.isInteger(cap) || cap < 1) {
+        throw new Error(`${field} must be a whole number of at least 1, or null for no cap`);
+      }
+      validated[field] = cap;
+    }
+
+    if (settings.call_pace_seconds !== undefined) {
+      const pace = Number(settings.call_pace_seconds ?? 0);
+      if (!Number.isInteger(pace) || pace < 0 || pace > MAX_PACE_SECONDS) {
+        throw new Error(`call_pace_seconds must be a whole number from 0 to ${MAX_PACE_SECONDS}`);
+      }
+      validated.call_pace_seconds = pace;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Calling window for a local date (YYYY-MM-DD), or null when the campaign does not call that day
+   * Blackout dates are not considered here.
+   */
+  static getWindowForDate(calendar: CampaignCalendar, date: string): CampaignDayWindow | null {
+    if (!calendar.weekly_schedule) {
+      return {
+        first_call_time: this.normalizeTime(calendar.first_call_time),
+        last_call_time: this.normalizeTime(calendar.last_call_time)
+      };
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const weekday = CAMPAIGN_WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    const window = calendar.weekly_schedule[weekday];
+
+    return window
+      ? {
+        first_call_time: this.normalizeTime(window.first_call_time),
+        last_call_time: this.normalizeTime(window.last_call_time)
+      }
+      : null;
+  }
+
+  /**
+   * Whether `now` falls inside the campaign's calling window for its local date
+   * Ignores caps and pace; see getNextCallTime for those.
+   */
+  static isOpen(calendar: CampaignCalendar, now: Date = new Date()): boolean {
+    return this.getNextOpening(calendar, now)?.getTime() === now.getTime();
+  }
+
+  /**
+   * Earliest moment at or after `now` at which the campaign may place its next call:
+   * after the pace gap, once the hourly/daily cap frees up, inside a calling window and
+   * not on a blackout date. Returns null when the calendar has no opening ahead.
+   */
+  static getNextCallTime(
+    calendar: CampaignCalendar,
+    counts: CampaignCallCounts,
+    now: Date = new Date()
+  ): Date | null {
+    const timezone = this.getTimezone(calendar);
+    let earliest = now.getTime();
+
+    if (calendar.call_pace_seconds && counts.last_call_at) {
+      earliest = Math.max(earliest, new Date(counts.last_call_at).getTime() + calendar.call_pace_seconds * 1000);
+    }
+
+    if (
+      calendar.max_calls_per_hour &&
+      counts.calls_last_hour >= calendar.max_calls_per_hour &&
+      counts.oldest_call_last_hour
+    ) {
+      earliest = Math.max(earliest, new Date(counts.oldest_call_last_hour).getTime() + 60 * 60 * 1000);
+    }
+
+    if (calendar.max_calls_per_day && counts.calls_today >= calendar.max_calls_per_day) {
+      const today = this.getLocalDateTime(timezone, now).date;
+      earliest = Math.max(earliest, this.toInstant(timezone, this.addDays(today, 1), '00:00:00').getTime());
+    }
+
+    return this.getNextOpening(calendar, new Date(earliest));
+  }
+
+  /**
+   * Earliest moment at or after `from` inside a calling window on a non-blackout date
+   */
+  static getNextOpening(calendar: CampaignCalendar, from: Date): Date | null {
+    const timezone = this.getTimezone(calendar);
+    const blackoutDates = new Set((calendar.blackout_dates || []).map(date => this.toDateKey(date)));
+    const local = this.getLocalDateTime(timezone, from);
+
+    for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+      const date = this.addDays(local.date, offset);
+      const window = blackoutDates.has(date) ? null : this.getWindowForDate(calendar, date);
+      if (!window) {
+        continue;
+      }
+
+      if (offset === 0) {
+        if (local.time > window.last_call_time) {
+          continue;
+        }
+        if (local.time >= window.first_call_time) {
+          return from;
+        }
+      }
+
+      return this.toInstant(timezone, date, window.first_call_time);
+    }
+
+    return null;
+  }
+
+  private static validateWeeklySchedule(schedule: unknown): WeeklyCallSchedule | null {
+    if (schedule === null) {
+      return null;
+    }
+    if (typeof schedule !== 'object' || Array.isArray(schedule)) {
+      throw new Error('weekly_schedule must map weekdays to { first_call_time, last_call_time }');
+    }
+
+    const validated: WeeklyCallSchedule = {};
+    for (const [day, window] of Object.entries(schedule as Record<string, any>)) {
+      const weekday = day.toLowerCase() as CampaignWeekday;
+      if (!CAMPAIGN_WEEKDAYS.includes(weekday)) {
+        throw new Error(`weekly_schedule has an unknown day: ${day}`);
+      }
+      if (!TIME_PATTERN.test(window?.first_call_time) || !TIME_PATTERN.test(window?.last_call_time)) {
+        throw new Error(`weekly_schedule.${weekday} needs first_call_time and last_call_time as HH:MM`);
+      }
+
+      const first = this.normalizeTime(window.first_call_time);
+      const last = this.normalizeTime(window.last_call_time);
+      if (first >= last) {
+        throw new Error(`weekly_schedule.${weekday} first_call_time must be before last_call_time`);
+      }
+      validated[weekday] = { first_call_time: first, last_call_time: last };
+    }
+
+    if (Object.keys(validated).length === 0) {
+      throw new Error('weekly_schedule must include at least one day, or be null to call every day');
+    }
+
+    return validated;
+  }
+
+  private static validateBlackoutDates(dates: unknown): string[] {
+    if (!Array.isArray(dates) || dates.length > MAX_BLACKOUT_DATES) {
+      throw new Error(`blackout_dates must be a list of at most ${MAX_BLACKOUT_DATES} dates`);
+    }
+
+    for (const date of dates) {
+      if (typeof date !== 'string' || !DATE_PATTERN.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+        throw new Error(`blackout_dates has an invalid date: ${date} (expected YYYY-MM-DD)`);
+      }
+    }
+
+    return Array.from(new Set(dates as string[])).sort();
+  }
+
+  private static getTimezone(calendar: CampaignCalendar): string {
+    return isValidTimezone(calendar.timezone) ? calendar.timezone : 'UTC';
+  }
+
+  /**
+   * YYYY-MM-DD for a blackout date; campaign rows read with SELECT * carry DATE values as
+   * local-midnight Date objects
+   */
+  private static toDateKey(date: string | Date): string {
+    if (!(date instanceof Date)) {
+      return date;
+    }
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private static normalizeTime(time: string): string {
+    return time.length === 5 ? `${time}:00` : time.slice(0, 8);
+  }
+
+  /**
+   * Local date (YYYY-MM-DD) and time (HH:MM:SS) of an instant in a timezone
+   */
+  private static getLocalDateTime(timezone: string, instant: Date): { date: string; time: string } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(instant);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      time: `${part('hour')}:${part('minute')}:${part('second')}`
+    };
+  }
+
+  /**
+   * Instant at which a timezone's clock shows the given local date and time
+   */
+  private static toInstant(timezone: string, date: string, time: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+    // Offset at the guess, then again at the result in case a DST change lies in between
+    let instant = wallClock - this.getOffsetMs(timezone, wallClock);
+    instant = wallClock - this.getOffsetMs(timezone, instant);
+    return new Date(instant);
+  }
+
+  private static getOffsetMs(timezone: string, instant: number): number {
+    const local = this.getLocalDateTime(timezone, new Date(instant));
+    return new Date(`${local.date}T${local.time}Z`).getTime() - Math.floor(instant / 1000) * 1000;
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+}
@@ -4,6 +4,17 @@ interface SystemConfig {
   // Legacy configuration values
   credits_per_minute: number;
   billing_pulse_seconds: number; // Pulse-based billing: 60 = per minute, 30 = per 30s, 20 = per 20s
+  default_credit_overdraft_limit: number; // How far below zero credits may go (users.credit_overdraft_limit overrides)
+  credit_reservation_seconds: number; // Call duration reserved while a call is in flight
+  voicemail_billing_mode: string; // full | free | capped
+  voicemail_billable_seconds: number; // Longest voicemail duration billed in capped mode
+  invoice_number_prefix: string;
+  invoice_tax_name: string; // e.g. GST or VAT; empty = no tax lines
+  invoice_tax_rate_percent: number; // Included in purchase prices
+  invoice_seller_name: string;
+  invoice_seller_address: string;
+  invoice_seller_tax_id: string;
+  invoice_seller_region: string; // GST state code; buyers in the same state get CGST + SGST
   max_contacts_per_upload: number;
   new_user_bonus_credits: number;
   minimum_credit_purchase: number;
@@ -78,6 +89,17 @@ class ConfigService {
         WHERE config_key IN (
           'credits_per_minute',
           'billing_pulse_seconds',
+          'default_credit_overdraft_limit',
+          'credit_reservation_seconds',
+          'voicemail_billing_mode',
+          'voicemail_billable_seconds',
+          'invoice_number_prefix',
+          'invoice_tax_name',
+          'invoice_tax_rate_percent',
+          'invoice_seller_name',
+          'invoice_seller_address',
+          'invoice_seller_tax_id',
+          'invoice_seller_region',
           'max_contacts_per_upload',
           'new_user_bonus_credits',
           'minimum_credit_purchase',
@@ -107,6 +129,17 @@ class ConfigService {
         // Legacy configuration values
         credits_per_minute: parseInt(configMap.get('credits_per_minute') || '1'),
         billing_pulse_seconds: parseInt(configMap.get('billing_pulse_seconds') || '60'), // Default: 60s (per-minute billing)
+        default_credit_overdraft_limit: parseFloat(configMap.get('default_credit_overdraft_limit') || '0'),
+        credit_reservation_seconds: parseInt(configMap.get('credit_reservation_seconds') || '300'),
+        voicemail_billing_mode: configMap.get('voicemail_billing_mode') || 'full',
+        voicemail_billable_seconds: parseInt(configMap.get('voicemail_billable_seconds') || '30'),
+        invoice_number_prefix: configMap.get('invoice_number_prefix') || 'INV',
+        invoice_tax_name: configMap.get('invoice_tax_name') || '',
+        invoice_tax_rate_percent: parseFloat(configMap.get('invoice_tax_rate_percent') || '0'),
+        invoice_seller_name: configMap.get('invoice_seller_name') || '',
+        invoice_seller_address: configMap.get('invoice_seller_address') || '',
+        invoice_seller_tax_id: configMap.get('invoice_seller_tax_id') || '',
+        invoice_seller_region: configMap.get('invoice_seller_region') || '',
         max_contacts_per_upload: parseInt(configMap.get('max_contacts_per_upload') || '1000'),
         new_user_bonus_credits: parseInt(configMap.get('new_user_bonus_credits') || '15'),
         minimum_credit_purchase: parseInt(configMap.get('minimum_credit_purchase') || '50'),
@@ -145,6 +178,17 @@ class ConfigService {
       // Legacy configuration values
       credits_per_minute: 1,
       billing_pulse_seconds: 60, // Default: 60s (per-minute billing)
+      default_credit_overdraft_limit: 0,
+      credit_reservation_seconds: 300,
+      voicemail_billing_mode: 'full',
+      voicemail_billable_seconds: 30,
+      invoice_number_prefix: 'INV',
+      invoice_tax_name: '',
+      invoice_tax_rate_percent: 0,
+      invoice_seller_name: '',
+      invoice_seller_address: '',
+      invoice_seller_tax_id: '',
+      invoice_seller_region: '',
       max_contacts_per_upload: 1000,
       new_user_bonus_credits: 15,
       minimum_credit_purchase: 50,
@@ -1,6 +1,8 @@
 import database from '../config/database';
 import { logger } from '../utils/logger';
 import { EnhancedLeadData } from './webhookDataProcessor';
+import { ContactService } from './contactService';
+import { DEFAULT_PHONE_REGION, PhoneLineType, isInternationalFormat, parsePhoneNumber, toE164BestEffort } from '../utils/phoneNumber';
 
 export interface ContactCreationResult {
   contactId: string | null;
@@ -9,67 +11,32 @@ export interface ContactCreationResult {
   error?: string;
 }
 
+// Phone number as stored on auto-created contacts
+interface WebhookPhoneNumber {
+  e164: string;
+  country: string | null;
+  lineType: PhoneLineType | null;
+}
+
 /**
  * ContactAutoCreationService - Handles automatic contact creation from webhook extraction data
  * Implements logic to check for existing contacts, create new ones, and prevent duplicates
  */
 export class ContactAutoCreationService {
   /**
-   * Normalize phone number format to [ISD code] [space] [rest of the number]
-   * Takes last 10 digits as number and other digits at front as ISD codes
+   * Parse a webhook phone number in the user's default region
+   * Numbers that do not validate are kept as +digits, without a country or line type.
+   * The region is only looked up for numbers without a country code (calls store E.164).
    */
-  private static normalizePhoneNumber(phoneNumber: string): string {
-    const trimmed = phoneNumber.trim();
-    const hasExplicitCountryCode = trimmed.startsWith('+');
-    const cleaned = trimmed.replace(/[^\d+]/g, '');
-    const digitsOnly = cleaned.replace(/^\+/, '');
-    
-    // Basic validation - should have at least 7 digits for international numbers
-    if (digitsOnly.length < 7) {
-      throw new Error('Invalid phone number format');
-    }
-    
-    let mainNumber: string;
-    let isdCode: string;
-    
-    if (hasExplicitCountryCode) {
-      // User provided explicit country code - extract it
-      const twoDigitCodes = [
-        '91', '92', '93', '94', '95', '98', '60', '61', '62', '63', '64', '65', '66', 
-        '81', '82', '84', '86', '20', '27', '30', '31', '32', '33', '34', '36', '39', 
-        '40', '41', '43', '44', '45', '46', '47', '48', '49', '51', '52', '53', '54', 
-        '55', '56', '57', '58', '70', '71', '72', '73', '74', '75', '76', '77', '78', '79', '80'
-      ];
-      const threeDigitCodes = ['971', '966', '965', '968', '974', '973', '972', '353', '354', '358'];
-      
-      if (digitsOnly.startsWith('1') && digitsOnly.length >= 11) {
-        isdCode = '1';
-        mainNumber = digitsOnly.substring(1);
-      } else if (threeDigitCodes.includes(digitsOnly.substring(0, 3)) && digitsOnly.length >= 10) {
-        isdCode = digitsOnly.substring(0, 3);
-        mainNumber = digitsOnly.substring(3);
-      } else if (twoDigitCodes.includes(digitsOnly.substring(0, 2))) {
-        isdCode = digitsOnly.substring(0, 2);
-        mainNumber = digitsOnly.substring(2);
-      } else {
-        isdCode = digitsOnly.substring(0, 2);
-        mainNumber = digitsOnly.substring(2);
-      }
-    } else {
-      // No explicit + prefix - use length-based defaults
-      if (digitsOnly.length <= 10) {
-        isdCode = '91';
-        mainNumber = digitsOnly;
-      } else if (digitsOnly.length === 11) {
-        isdCode = digitsOnly.substring(0, 1);
-        mainNumber = digitsOnly.substring(1);
-      } else {
-        isdCode = digitsOnly.substring(0, 2);
-        mainNumber = digitsOnly.substring(2);
-      }
+  private static async parsePhoneNumber(userId: string, phoneNumber: string): Promise<WebhookPhoneNumber> {
+    const region = isInternationalFormat(phoneNumber)
+      ? DEFAULT_PHONE_REGION
+      : await ContactService.getDefaultPhoneRegion(userId);
+    try {
+      return parsePhoneNumber(phoneNumber, region);
+    } catch {
+      return { e164: toE164BestEffort(phoneNumber, region), country: null, lineType: null };
     }
-    
-    return `+${isdCode} ${mainNumber}`;
   }
 
   /**
@@ -103,6 +70,9 @@ export class ContactAutoCreationService {
         };
       }
 
+      // Parsed once: used for the lookup and stored on the contact
+      const phone = phoneNumber ? await this.parsePhoneNumber(userId, phoneNumber) : undefined;
+
       // Check for existing contact by email or phone
       let existingContact = null;
 
@@ -115,8 +85,8 @@ export class ContactAutoCreationService {
         });
       }
 
-      if (!existingContact && phoneNumber) {
-        existingContact = await this.findContactByPhone(userId, phoneNumber);
+      if (!existingContact && phone) {
+        existingContact = await this.findContactByPhone(userId, phone.e164);
         logger.debug('Checked for existing contact by phone', {
           userId,
           phoneNumber,
@@ -126,7 +96,7 @@ export class ContactAutoCreationService {
 
       if (existingContact) {
         // Update existing contact with better data
-        const updated = await this.updateContactIfBetter(existingContact.id, leadData, phoneNumber);
+        const updated = await this.updateContactIfBetter(existingContact.id, leadData, phone);
         logger.info('Updated existing contact with better data', {
           userId,
           contactId: existingContact.id,
@@ -141,7 +111,7 @@ export class ContactAutoCreationService {
         };
       } else {
         // Create new contact
-        const contactId = await this.createNewContact(userId, leadData, phoneNumber, callId);
+        const contactId = await this.createNewContact(userId, leadData, phone, callId);
         logger.info('Created new contact from webhook data', {
           userId,
           contactId,
@@ -235,23 +205,24 @@ export class ContactAutoCreationService {
    * 
    * @param userId - The user ID who owns the contact
    * @param leadData - Enhanced lead data extracted from webhook
-   * @param phoneNumber - Phone number from webhook (optional)
+   * @param phone - Parsed phone number from webhook (optional)
    * @param callId - The call ID that triggered contact creation
    * @returns Contact ID of the created contact
    */
   private static async createNewContact(
     userId: string,
     leadData: EnhancedLeadData,
-    phoneNumber: string | undefined,
+    phone: WebhookPhoneNumber | undefined,
     callId: string
   ): Promise<string> {
     try {
       const query = `
         INSERT INTO contacts (
           user_id, name, email, phone_number, company, notes,
-          auto_created_from_call_id, is_auto_created, auto_creation_source
+          auto_created_from_call_id, is_auto_created, auto_creation_source,
+          phone_country, phone_line_type
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
         RETURNING id
       `;
 
@@ -263,12 +234,14 @@ export class ContactAutoCreationService {
         userId,
         contactName, // Always provide a name, use "Anonymous" if none extracted
         leadData.extractedEmail || null,
-        phoneNumber ? this.normalizePhoneNumber(phoneNumber) : null,
+        phone?.e164 || null,
         leadData.companyName || null,
         notes,
         callId, // auto_created_from_call_id
         true,   // is_auto_created
-        'webhook' // auto_creation_source
+        'webhook', // auto_creation_source
+        phone?.country || null,
+        phone?.lineType || null
       ];
 
       const result = await database.query(query, values);
@@ -280,7 +253,7 @@ export class ContactAutoCreationService {
       logger.info('Contact created', {
         contactId: result.rows[0].id,
         name: contactName,
-        phoneNumber,
+        phoneNumber: phone?.e164,
         wasAnonymous: !leadData.extractedName
       });
 
@@ -290,7 +263,7 @@ export class ContactAutoCreationService {
         error: error instanceof Error ? error.message : String(error),
         userId,
         leadData,
-        phoneNumber,
+        phoneNumber: phone?.e164,
         callId
       });
       throw error;
@@ -303,13 +276,13 @@ export class ContactAutoCreationService {
    * 
    * @param contactId - ID of the contact to update
    * @param leadData - Enhanced lead data extracted from webhook
-   * @param phoneNumber - Phone number from webhook (optional)
+   * @param phone - Parsed phone number from webhook (optional)
    * @returns Boolean indicating if any updates were made
    */
   private static async updateContactIfBetter(
     contactId: string,
     leadData: EnhancedLeadData,
-    phoneNumber: string | undefined
+    phone: WebhookPhoneNumber | undefined
   ): Promise<boolean> {
     try {
       // First, get the current contact data to check what needs updating
@@ -350,13 +323,13 @@ export class ContactAutoCreationService {
       }
 
       // Update phone ONLY if current phone is NULL or empty
-      if (phoneNumber && (!currentContact.phone_number || currentContact.phone_number.trim() === '')) {
-        updateFields.push(`phone_number = $${paramIndex}`);
-        values.push(this.normalizePhoneNumber(phoneNumber));
-        paramIndex++;
+      if (phone && (!currentContact.phone_number || currentContact.phone_number.trim() === '')) {
+        updateFields.push(`phone_number = $${paramIndex}`, `phone_country = $${paramIndex + 1}`, `phone_line_type = $${paramIndex + 2}`);
+        values.push(phone.e164, phone.country, phone.lineType);
+        paramIndex += 3;
         logger.info('Adding missing phone to contact', {
           contactId,
-          phone: phoneNumber
+          phone: phone.e164
         });
       }
 
@@ -407,7 +380,7 @@ export class ContactAutoCreationService {
         error: error instanceof Error ? error.message : String(error),
         contactId,
         leadData,
-        phoneNumber
+        phoneNumber: phone?.e164
       });
       throw error;
     }
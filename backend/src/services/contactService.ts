@@ -1,9 +1,23 @@
 import ContactModel, { ContactInterface, CreateContactData, UpdateContactData } from '../models/Contact';
 import { logger } from '../utils/logger';
 import { configService } from './configService';
+import { DEFAULT_PHONE_REGION, PhoneNumberError, isSupportedRegion, parsePhoneNumber } from '../utils/phoneNumber';
 import * as XLSX from 'xlsx';
 import ExcelJS from 'exceljs';
 
+// Lead data received from outside (n8n webhook, lead sources)
+export interface InboundLeadData {
+  phone_number: string;
+  name?: string;
+  email?: string;
+  company?: string;
+  notes?: string;
+  city?: string;
+  country?: string;
+  business_context?: string;
+  custom_fields?: Record<string, string>;
+}
+
 // Contact service - business logic for contact management
 export class ContactService {
   /**
@@ -300,11 +314,17 @@ export class ContactService {
 
   /**
    * Create a new contact
+   * @param region The user's default phone region, when the caller has already looked it up
    */
-  static async createContact(userId: string, contactData: Omit<CreateContactData, 'user_id'>): Promise<ContactInterface> {
+  static async createContact(
+    userId: string,
+    contactData: Omit<CreateContactData, 'user_id'>,
+    region?: string
+  ): Promise<ContactInterface> {
     try {
-      // Validate phone number format
-      const phoneNumber = this.normalizePhoneNumber(contactData.phone_number);
+      // Parse and validate the phone number in the user's region
+      const phone = parsePhoneNumber(contactData.phone_number, region ?? await this.getDefaultPhoneRegion(userId));
+      const phoneNumber = phone.e164;
       
       // Check for duplicate phone number for this user
       const existingContact = await ContactModel.query(
@@ -319,7 +339,9 @@ export class ContactService {
       const newContact = await ContactModel.createContact({
         ...contactData,
         user_id: userId,
-        phone_number: phoneNumber
+        phone_number: phoneNumber,
+        phone_country: phone.country,
+        phone_line_type: phone.lineType
       });
 
       logger.info(`Contact created for user ${userId}:`, { contactId: newContact.id });
@@ -341,7 +363,7 @@ export class ContactService {
     try {
       // Verify contact belongs to user
       const existingContact = await ContactModel.query(
-        'SELECT id FROM contacts WHERE id = $1 AND user_id = $2',
+        'SELECT id, email FROM contacts WHERE id = $1 AND user_id = $2',
         [contactId, userId]
       );
 
@@ -349,9 +371,21 @@ export class ContactService {
         throw new Error('Contact not found or access denied');
       }
 
-      // Normalize phone number if provided
+      // A new email address starts out deliverable (bounces were for the old one)
+      const previousEmail = (existingContact.rows[0].email || '').trim().toLowerCase();
+      if (updateData.email !== undefined && (updateData.email || '').trim().toLowerCase() !== previousEmail) {
+        updateData.email_status = 'valid';
+        updateData.email_status_reason = null;
+        updateData.email_status_updated_at = new Date();
+        updateData.email_soft_bounce_count = 0;
+      }
+
+      // Parse the phone number if provided
       if (updateData.phone_number) {
-        updateData.phone_number = this.normalizePhoneNumber(updateData.phone_number);
+        const phone = parsePhoneNumber(updateData.phone_number, await this.getDefaultPhoneRegion(userId));
+        updateData.phone_number = phone.e164;
+        updateData.phone_country = phone.country;
+        updateData.phone_line_type = phone.lineType;
         
         // Check for duplicate phone number (excluding current contact)
         const duplicateCheck = await ContactModel.query(
@@ -378,6 +412,69 @@ export class ContactService {
     }
   }
 
+  /**
+   * Create or update the contact for an inbound lead (webhook, lead source), matched by phone number
+   * An existing contact only gets the fields that changed; notes are appended and custom fields merged.
+   * @param source Lead source label (auto_creation_source); when missing an existing contact keeps
+   *               its source and a new one gets defaultSource
+   * @param region The user's default phone region, when the caller has already looked it up
+   */
+  static async upsertInboundLead(
+    userId: string,
+    lead: InboundLeadData,
+    source: string | undefined,
+    defaultSource: string,
+    region?: string
+  ): Promise<{ contact: ContactInterface; isNewContact: boolean }> {
+    const phoneRegion = region ?? await this.getDefaultPhoneRegion(userId);
+    const phoneNumber = this.normalizePhoneNumber(lead.phone_number, phoneRegion);
+    const existing = await this.findByPhone(userId, phoneNumber, phoneRegion);
+
+    if (!existing) {
+      const contact = await this.createContact(userId, {
+        name: lead.name || 'Anonymous',
+        phone_number: phoneNumber,
+        email: lead.email || undefined,
+        company: lead.company || undefined,
+        notes: lead.notes || undefined,
+        city: lead.city || undefined,
+        country: lead.country || undefined,
+        business_context: lead.business_context || undefined,
+        custom_fields: lead.custom_fields || {},
+        is_auto_created: true,
+        auto_creation_source: source || defaultSource
+      }, phoneRegion);
+      return { contact, isNewContact: true };
+    }
+
+    const updateData: UpdateContactData = {};
+    for (const field of ['name', 'email', 'company', 'city', 'country', 'business_context'] as const) {
+      const value = lead[field];
+      if (value && value !== existing[field]) {
+        updateData[field] = value;
+      }
+    }
+    if (lead.notes && lead.notes !== existing.notes) {
+      updateData.notes = existing.notes
+        ? `${existing.notes}\n---\n[${new Date().toISOString()}] ${lead.notes}`
+        : lead.notes;
+    }
+    const customFields = lead.custom_fields || {};
+    if (Object.entries(customFields).some(([key, value]) => existing.custom_fields?.[key] !== value)) {
+      updateData.custom_fields = { ...(existing.custom_fields || {}), ...customFields };
+    }
+    // Track the latest lead source
+    if (source) {
+      updateData.auto_creation_source = source;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return { contact: existing, isNewContact: false };
+    }
+    const contact = await this.updateContact(userId, existing.id, updateData);
+    return { contact, isNewContact: false };
+  }
+
   /**
    * Delete a contact
    */
@@ -433,31 +530,13 @@ export class ContactService {
     }
   }
 
-  /**
-   * Lookup contact by phone number (for ElevenLabs integration)
-   */
-  static async lookupContactByPhone(phoneNumber: string): Promise<ContactInterface | null> {
-    try {
-      const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
-      const contact = await ContactModel.findByPhoneNumber(normalizedPhone);
-      
-      if (contact) {
-        logger.info('Contact found for phone lookup:', { phoneNumber: normalizedPhone });
-      }
-      
-      return contact;
-    } catch (error) {
-      logger.error('Error looking up contact by phone:', error);
-      return null; // Return null instead of throwing for external API
-    }
-  }
-
   /**
    * Find contact by phone number for a specific user
+   * @param region The user's default phone region, when the caller has already looked it up
    */
-  static async findByPhone(userId: string, phoneNumber: string): Promise<ContactInterface | null> {
+  static async findByPhone(userId: string, phoneNumber: string, region?: string): Promise<ContactInterface | null> {
     try {
-      const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+      const normalizedPhone = this.normalizePhoneNumber(phoneNumber, region ?? await this.getDefaultPhoneRegion(userId));
       const contact = await ContactModel.findByUserAndPhone(userId, normalizedPhone);
       
       if (contact) {
@@ -514,122 +593,32 @@ export class ContactService {
   }
 
   /**
-   * Normalize phone number format to [ISD code] [space] [rest of the number]
-   * Takes last 10 digits as number and other digits at front as ISD codes
-   * 
+   * Normalize a phone number to E.164 (+919876543210)
+   * Numbers without a country code are read in the given region (see utils/phoneNumber).
+   *
    * Note: Made public to allow external services (webhooks) to normalize phone numbers
    *       before checking for existing contacts
+   * @throws PhoneNumberError when the number is invalid or ambiguous
    */
-  static normalizePhoneNumber(phoneNumber: string): string {
-    // Trim whitespace
-    const trimmed = phoneNumber.trim();
-    
-    // Check if user explicitly provided a country code with + prefix
-    const hasExplicitCountryCode = trimmed.startsWith('+');
-    
-    // Remove all non-digit characters except + for initial parsing
-    const cleaned = trimmed.replace(/[^\d+]/g, '');
-    
-    // Remove leading + to work with digits only
-    const digitsOnly = cleaned.replace(/^\+/, '');
-    
-    // Basic validation - should have at least 7 digits for international numbers
-    // (Some countries like Singapore have 8-digit numbers)
-    if (digitsOnly.length < 7) {
-      throw new Error('Invalid phone number format');
-    }
-    
-    let mainNumber: string;
-    let isdCode: string;
-    
-    // If user explicitly provided + prefix, extract country code from the number
-    if (hasExplicitCountryCode) {
-      // User provided explicit country code - respect it
-      // Country codes are 1-3 digits, most common are 1-2 digits
-      // Try to match known country code patterns
-      
-      // 1-digit country codes: 1 (US/Canada)
-      // 2-digit country codes: 91 (India), 65 (Singapore), 60 (Malaysia), etc.
-      // 3-digit country codes: 971 (UAE), 966 (Saudi), etc.
-      
-      if (digitsOnly.startsWith('1') && digitsOnly.length >= 11) {
-        // US/Canada: +1 followed by 10 digits
-        isdCode = '1';
-        mainNumber = digitsOnly.substring(1);
-      } else if (digitsOnly.length >= 9) {
-        // Try to detect 2-digit country codes for shorter local numbers
-        const twoDigitCC = digitsOnly.substring(0, 2);
-        const threeDigitCC = digitsOnly.substring(0, 3);
-        
-        // Common 3-digit country codes
-        const threeDigitCodes = ['971', '966', '965', '968', '974', '973', '972', '353', '354', '358'];
-        
-        // Common 2-digit country codes (Asia-Pacific, Europe, etc.)
-        const twoDigitCodes = [
-          '91', '92', '93', '94', '95', '98', // South Asia
-          '60', '61', '62', '63', '64', '65', '66', '81', '82', '84', '86', // Asia-Pacific
-          '20', '27', '30', '31', '32', '33', '34', '36', '39', '40', '41', '43', '44', '45', '46', '47', '48', '49', // Europe/Africa
-          '51', '52', '53', '54', '55', '56', '57', '58', // Americas
-          '70', '71', '72', '73', '74', '75', '76', '77', '78', '79', '80', // CIS/Eastern Europe
-        ];
-        
-        if (threeDigitCodes.includes(threeDigitCC) && digitsOnly.length >= 10) {
-          isdCode = threeDigitCC;
-          mainNumber = digitsOnly.substring(3);
-        } else if (twoDigitCodes.includes(twoDigitCC)) {
-          isdCode = twoDigitCC;
-          mainNumber = digitsOnly.substring(2);
-        } else {
-          // Unknown country code pattern - take first 2 digits as country code
-          isdCode = twoDigitCC;
-          mainNumber = digitsOnly.substring(2);
-        }
-      } else {
-        // Very short number with + prefix - take first 1-2 as country code
-        if (digitsOnly.length <= 8) {
-          isdCode = digitsOnly.substring(0, 1);
-          mainNumber = digitsOnly.substring(1);
-        } else {
-          isdCode = digitsOnly.substring(0, 2);
-          mainNumber = digitsOnly.substring(2);
-        }
-      }
-    } else {
-      // No explicit + prefix - apply default logic based on length
-      // Handle different phone number lengths:
-      // - 7-9 digits: Assume local number, default to +91 (India)
-      // - 10 digits: Indian number without code
-      // - 11+ digits: Has country code included
-      
-      if (digitsOnly.length <= 10) {
-        // Local number without country code - default to India (+91)
-        isdCode = '91';
-        mainNumber = digitsOnly;
-      } else if (digitsOnly.length === 11) {
-        // 11 digits - first digit is likely country code (e.g., 1 for US)
-        isdCode = digitsOnly.substring(0, 1);
-        mainNumber = digitsOnly.substring(1);
-      } else if (digitsOnly.length === 12) {
-        // 12 digits - first 2 digits likely country code (e.g., 91 for India)
-        isdCode = digitsOnly.substring(0, 2);
-        mainNumber = digitsOnly.substring(2);
-      } else {
-        // 13+ digits - first 2-3 digits could be country code
-        isdCode = digitsOnly.substring(0, 2);
-        mainNumber = digitsOnly.substring(2);
-      }
-    }
-    
-    // Return formatted as +[ISD] [main number]
-    return `+${isdCode} ${mainNumber}`;
+  static normalizePhoneNumber(phoneNumber: string, region: string = DEFAULT_PHONE_REGION): string {
+    return parsePhoneNumber(phoneNumber, region).e164;
+  }
+
+  /**
+   * Region a user's phone numbers without a country code are read in
+   */
+  static async getDefaultPhoneRegion(userId: string): Promise<string> {
+    const result = await ContactModel.query('SELECT default_phone_region FROM users WHERE id = $1', [userId]);
+    const region = result.rows[0]?.default_phone_region;
+    return isSupportedRegion(region) ? region : DEFAULT_PHONE_REGION;
   }
 
   /**
    * Validate phone number format
    */
-  static validatePhoneNumber(phoneNumber: string): boolean {
+  static validatePhoneNumber(phoneNumber: string, region: string = DEFAULT_PHONE_REGION): boolean {
     try {
-      this.normalizePhoneNumber(phoneNumber);
+      this.normalizePhoneNumber(phoneNumber, region);
       return true;
     } catch {
       return false;
@@ -647,7 +636,7 @@ export class ContactService {
     success: number;
     failed: number;
     duplicates: number;
-    errors: Array<{ row: number; error: string; data?: any }>;
+    errors: Array<{ row: number; error: string; code?: string; data?: any }>;
     totalProcessed: number;
   }> {
     try {
@@ -668,12 +657,13 @@ export class ContactService {
         success: 0,
         failed: 0,
         duplicates: 0,
-        errors: [] as Array<{ row: number; error: string; data?: any }>,
+        errors: [] as Array<{ row: number; error: string; code?: string; data?: any }>,
         totalProcessed: contacts.length
       };
 
       // Get existing phone numbers for this user to check duplicates
       const existingPhones = await this.getExistingPhoneNumbers(userId);
+      const defaultRegion = await this.getDefaultPhoneRegion(userId);
       const processedPhones = new Set<string>();
 
       // Validate and prepare contacts for bulk insert
@@ -697,19 +687,23 @@ export class ContactService {
             return;
           }
 
-          // Normalize and validate phone number
-          let normalizedPhone: string;
+          // Parse the phone number in the row's country (when given as an ISO code) or the user's region;
+          // invalid and ambiguous numbers are reported instead of stored
+          const rowRegion = contact.country?.trim().toUpperCase();
+          let phone: ReturnType<typeof parsePhoneNumber>;
           try {
-            normalizedPhone = this.normalizePhoneNumber(contact.phone_number);
+            phone = parsePhoneNumber(contact.phone_number, isSupportedRegion(rowRegion) ? rowRegion : defaultRegion);
           } catch (error) {
             results.failed++;
             results.errors.push({
               row: rowNumber,
-              error: 'Invalid phone number format',
+              error: error instanceof PhoneNumberError ? error.message : 'Invalid phone number format',
+              code: error instanceof PhoneNumberError ? error.code : 'INVALID_PHONE_NUMBER',
               data: contact
             });
             return;
           }
+          const normalizedPhone = phone.e164;
 
           // Check for duplicates in existing data
           if (existingPhones.has(normalizedPhone)) {
@@ -751,6 +745,8 @@ export class ContactService {
               user_id: userId,
               name: contactName,
               phone_number: normalizedPhone,
+              phone_country: phone.country,
+              phone_line_type: phone.lineType,
               email: contact.email?.trim() || undefined,
               company: contact.company?.trim() || undefined,
               notes: contact.notes?.trim() || undefined,
@@ -0,0 +1,100 @@
+import { isValidTimezone } from '../utils/timezoneUtils';
+import {
+  CALLING_CODE_TIMEZONES,
+  CITY_TIMEZONES,
+  COUNTRY_TIMEZONES,
+  NANP_AREA_CODE_TIMEZONES
+} from '../constants/timezoneRegions';
+
+export type ContactTimezoneSource = 'contact' | 'city' | 'area_code' | 'country' | 'phone';
+
+export interface ContactTimezone {
+  timezone: string;
+  source: ContactTimezoneSource;
+}
+
+const AREA_CODE_TIMEZONES = new Map<string, string>(
+  Object.entries(NANP_AREA_CODE_TIMEZONES).flatMap(([timezone, codes]) =>
+    codes.map(code => [String(code), timezone] as [string, string])
+  )
+);
+
+/**
+ * Where a contact is on the clock
+ * The contact's own timezone wins; otherwise it is inferred from the city, the +1 area
+ * code, the country, then the phone number's calling code.
+ */
+export class ContactTimezoneService {
+  /**
+   * Contact's timezone and how it was determined, or null when nothing identifies it
+   */
+  static resolve(contact: {
+    timezone?: string | null;
+    city?: string | null;
+    country?: string | null;
+    phone_number?: string | null;
+  }): ContactTimezone | null {
+    if (contact.timezone && isValidTimezone(contact.timezone)) {
+      return { timezone: contact.timezone, source: 'contact' };
+    }
+
+    const digits = this.getInternationalDigits(contact.phone_number);
+    const callingCode = digits ? this.getCallingCode(digits) : null;
+    const countryFromName = COUNTRY_TIMEZONES[this.normalizeName(contact.country)];
+    const countryTimezone = countryFromName || (callingCode ? CALLING_CODE_TIMEZONES[callingCode] : undefined);
+
+    // City names repeat across countries, so a city only counts on the country's/number's continent
+    const cityTimezone = CITY_TIMEZONES[this.normalizeName(contact.city)];
+    if (cityTimezone && (!countryTimezone || this.region(cityTimezone) === this.region(countryTimezone))) {
+      return { timezone: cityTimezone, source: 'city' };
+    }
+
+    if (callingCode === '1' && (!countryFromName || this.region(countryFromName) === 'America')) {
+      const areaTimezone = AREA_CODE_TIMEZONES.get(digits?.slice(1, 4) || '');
+      if (areaTimezone) {
+        return { timezone: areaTimezone, source: 'area_code' };
+      }
+    }
+
+    if (countryFromName) {
+      return { timezone: countryFromName, source: 'country' };
+    }
+
+    return countryTimezone ? { timezone: countryTimezone, source: 'phone' } : null;
+  }
+
+  /**
+   * Digits after the international prefix (+ or 00), or null for numbers without one
+   */
+  private static getInternationalDigits(phoneNumber?: string | null): string | null {
+    const compact = (phoneNumber || '').replace(/[\s\-().]/g, '');
+    const match = compact.match(/^(?:\+|00)(\d{6,15})$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Longest known calling code at the start of the digits
+   */
+  private static getCallingCode(digits: string): string | null {
+    for (const length of [3, 2, 1]) {
+      const code = digits.slice(0, length);
+      if (CALLING_CODE_TIMEZONES[code]) {
+        return code;
+      }
+    }
+    return null;
+  }
+
+  private static normalizeName(value?: string | null): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ');
+  }
+
+  private static region(timezone: string): string {
+    return timezone.split('/')[0];
+  }
+}
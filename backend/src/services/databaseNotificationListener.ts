@@ -20,10 +20,15 @@ interface CacheInvalidationNotification {
 /**
  * Database notification listener for automatic cache invalidation
  * Requirements: 6.2 - Add automatic cache invalidation when user data changes
+ *
+ * Other services can receive notifications on their own channels via onChannel()
+ * (e.g. user_events for the dashboard event stream).
  */
 export class DatabaseNotificationListener {
     private client: Client | null = null;
     private isListening = false;
+    private cacheInvalidationEnabled = true;
+    private channelHandlers = new Map<string, (payload: string) => void>();
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000; // Start with 1 second
@@ -34,10 +39,23 @@ export class DatabaseNotificationListener {
     private batchDelay = 100; // 100ms batch window
     private maxBatchSize = 50; // Maximum notifications per batch
 
+    /**
+     * Register a handler for notifications on another channel
+     * Call before startListening(); channels are re-subscribed on reconnect.
+     */
+    onChannel(channel: string, handler: (payload: string) => void): void {
+        this.channelHandlers.set(channel, handler);
+    }
+
     /**
      * Start listening for database notifications
+     * Pass cacheInvalidation: false to listen only on channels registered with onChannel().
      */
-    async startListening(): Promise<void> {
+    async startListening(options?: { cacheInvalidation?: boolean }): Promise<void> {
+        if (options?.cacheInvalidation !== undefined) {
+            this.cacheInvalidationEnabled = options.cacheInvalidation;
+        }
+
         try {
             if (this.isListening) {
                 logger.warn('Database notification listener is already running');
@@ -56,7 +74,13 @@ export class DatabaseNotificationListener {
             await this.client.connect();
 
             // Listen for cache invalidation notifications
-            await this.client.query('LISTEN cache_invalidation');
+            if (this.cacheInvalidationEnabled) {
+                await this.client.query('LISTEN cache_invalidation');
+            }
+
+            for (const channel of this.channelHandlers.keys()) {
+                await this.client.query(`LISTEN ${this.client.escapeIdentifier(channel)}`);
+            }
 
             // Set up notification handler
             this.client.on('notification', this.handleNotification.bind(this));
@@ -98,7 +122,7 @@ export class DatabaseNotificationListener {
             }
 
             // Unlisten from notifications
-            await this.client.query('UNLISTEN cache_invalidation');
+            await this.client.query('UNLISTEN *');
 
             // Close the connection
             await this.client.end();
@@ -115,6 +139,12 @@ export class DatabaseNotificationListener {
      */
     private handleNotification(msg: any): void {
         try {
+            const channelHandler = this.channelHandlers.get(msg.channel);
+            if (channelHandler) {
+                channelHandler(msg.payload);
+                return;
+            }
+
             if (msg.channel !== 'cache_invalidation') {
                 return;
             }
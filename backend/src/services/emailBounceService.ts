@@ -0,0 +1,274 @@
+import { pool } from '../config/database';
+import { SuppressionService } from './suppressionService';
+import { EmailSenderIdentityModel } from '../models/EmailSenderIdentity';
+import { logger } from '../utils/logger';
+import {
+  ContactEmailStatus,
+  EmailDeliveryEventInput,
+  EmailDeliveryEventType
+} from '../types/emailProvider';
+
+// Temporary failures in a row after which an address is treated as bounced
+export const SOFT_BOUNCE_LIMIT = 3;
+
+/**
+ * Bounce or complaint reported by a provider webhook
+ */
+export interface ParsedDeliveryEvent {
+  eventType: EmailDeliveryEventType;
+  recipient: string;
+  reason: string | null;
+  reference: string | null; // The reference the email was sent with (<identity id>/<tracking id>)
+  occurredAt: Date;
+  raw: any;
+}
+
+/**
+ * Map a ZeptoMail webhook event name to a delivery event type (null for opens, clicks, ...)
+ */
+function zeptoMailEventType(name: string): EmailDeliveryEventType | null {
+  const normalized = name.toLowerCase().replace(/[^a-z]/g, '');
+  if (normalized === 'hardbounce') return 'hard_bounce';
+  if (normalized === 'softbounce') return 'soft_bounce';
+  if (/spam|complaint|feedback/.test(normalized)) return 'complaint';
+  return null;
+}
+
+/**
+ * Bounces and complaints
+ *
+ * A hard bounce or complaint marks the contact's address and adds it to the suppression list,
+ * which every email sender checks, so nothing is sent to it again. Soft bounces only count
+ * until SOFT_BOUNCE_LIMIT is reached.
+ */
+export class EmailBounceService {
+  /**
+   * Extract bounces/complaints from a ZeptoMail webhook body
+   */
+  static parseZeptoMailWebhook(body: any): ParsedDeliveryEvent[] {
+    const events: ParsedDeliveryEvent[] = [];
+    const messages: any[] = Array.isArray(body?.event_message) ? body.event_message : [];
+    const eventNames: string[] = Array.isArray(body?.event_name) ? body.event_name : [body?.event_name].filter(Boolean);
+
+    for (const message of messages) {
+      const emailInfo = message?.email_info || {};
+      const reference: string | null = emailInfo.client_reference || null;
+      const toAddresses: string[] = (emailInfo.to || [])
+        .map((to: any) => to?.email_address?.address)
+        .filter(Boolean);
+
+      const eventData: any[] = Array.isArray(message?.event_data) && message.event_data.length > 0
+        ? message.event_data
+        : eventNames.map(name => ({ object: name }));
+
+      for (const data of eventData) {
+        const eventType = zeptoMailEventType(data?.object || eventNames[0] || '');
+        if (!eventType) continue;
+
+        const details: any[] = Array.isArray(data.details) && data.details.length > 0 ? data.details : [{}];
+        for (const detail of details) {
+          const recipients = detail.bounced_recipient ? [detail.bounced_recipient] : toAddresses;
+          for (const recipient of recipients) {
+            events.push({
+              eventType,
+              recipient,
+              reason: detail.reason || detail.diagnostic_message || null,
+              reference,
+              occurredAt: detail.time ? new Date(detail.time) : new Date(),
+              raw: message
+            });
+          }
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Record the bounces/complaints of a ZeptoMail webhook
+   * Events are matched to the sender identity (and so the user) by the send reference.
+   * @returns the number of events recorded
+   */
+  static async handleZeptoMailWebhook(body: any): Promise<number> {
+    let recorded = 0;
+
+    for (const event of this.parseZeptoMailWebhook(body)) {
+      const [identityId, trackingId] = (event.reference || '').split('/');
+      const identity = identityId ? await EmailSenderIdentityModel.findById(identityId).catch(() => null) : null;
+      if (!identity) {
+        logger.warn('[EmailBounceService] ZeptoMail event without a known sender reference', {
+          eventType: event.eventType,
+          reference: event.reference
+        });
+        continue;
+      }
+
+      const emailId = trackingId ? await this.findEmailIdByTrackingId(identity.user_id, trackingId) : null;
+
+      await this.recordEvent({
+        userId: identity.user_id,
+        provider: 'zeptomail',
+        eventType: event.eventType,
+        recipient: event.recipient,
+        reason: event.reason,
+        emailId,
+        senderIdentityId: identity.id,
+        raw: event.raw,
+        occurredAt: event.occurredAt
+      });
+      recorded++;
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Record a bounce/complaint and stop further sends to the address if needed
+   */
+  static async recordEvent(input: EmailDeliveryEventInput): Promise<void> {
+    const recipient = SuppressionService.normalizeEmail(input.recipient);
+    if (!recipient) {
+      logger.warn('[EmailBounceService] Ignoring delivery event with an invalid recipient', {
+        userId: input.userId,
+        recipient: input.recipient
+      });
+      return;
+    }
+
+    const contactResult = await pool.query(
+      'SELECT id FROM contacts WHERE user_id = $1 AND LOWER(email) = $2',
+      [input.userId, recipient]
+    );
+    const contactIds: string[] = contactResult.rows.map((row: { id: string }) => row.id);
+
+    await pool.query(
+      `INSERT INTO email_delivery_events (
+         user_id, email_id, contact_id, sender_identity_id, provider, event_type, recipient, reason, raw, occurred_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        input.userId,
+        input.emailId || null,
+        contactIds[0] || null,
+        input.senderIdentityId || null,
+        input.provider,
+        input.eventType,
+        recipient,
+        input.reason || null,
+        input.raw ? JSON.stringify(input.raw) : null,
+        input.occurredAt || new Date()
+      ]
+    );
+
+    if (input.emailId && input.eventType !== 'complaint') {
+      await pool.query(
+        `UPDATE emails SET status = 'bounced', bounced_at = NOW(), error_message = $3, updated_at = NOW()
+         WHERE id = $1 AND user_id = $2`,
+        [input.emailId, input.userId, input.reason || input.eventType]
+      );
+    }
+
+    let suppressAs: 'bounced' | 'complaint' | null = null;
+
+    if (input.eventType === 'soft_bounce') {
+      const updated = await pool.query(
+        `UPDATE contacts
+         SET email_soft_bounce_count = email_soft_bounce_count + 1,
+             email_status = CASE WHEN email_status = 'valid' THEN 'soft_bounced' ELSE email_status END,
+             email_status_reason = $3,
+             email_status_updated_at = NOW()
+         WHERE user_id = $1 AND LOWER(email) = $2
+         RETURNING email_soft_bounce_count`,
+        [input.userId, recipient, input.reason || 'Soft bounce']
+      );
+      const bounceCount = Math.max(0, ...updated.rows.map((row: any) => row.email_soft_bounce_count));
+      if (bounceCount >= SOFT_BOUNCE_LIMIT) {
+        suppressAs = 'bounced';
+        await this.setContactEmailStatus(input.userId, recipient, 'bounced', `${bounceCount} soft bounces in a row`);
+      }
+    } else {
+      suppressAs = input.eventType === 'complaint' ? 'complaint' : 'bounced';
+      await this.setContactEmailStatus(
+        input.userId,
+        recipient,
+        suppressAs === 'complaint' ? 'complained' : 'bounced',
+        input.reason || null
+      );
+    }
+
+    if (suppressAs) {
+      await SuppressionService.addEntry(
+        input.userId,
+        {
+          email: recipient,
+          reason: suppressAs,
+          notes: `${input.provider} ${input.eventType.replace('_', ' ')}${input.reason ? `: ${input.reason}` : ''}`.slice(0, 500)
+        },
+        'bounce',
+        { type: 'system' }
+      );
+    }
+
+    logger.info('[EmailBounceService] Delivery event recorded', {
+      userId: input.userId,
+      provider: input.provider,
+      eventType: input.eventType,
+      emailId: input.emailId,
+      contacts: contactIds.length,
+      suppressed: !!suppressAs
+    });
+  }
+
+  /**
+   * Bounces and complaints, newest first
+   */
+  static async listEvents(
+    userId: string,
+    options: { eventType?: EmailDeliveryEventType; limit?: number; offset?: number } = {}
+  ): Promise<{ events: any[]; total: number }> {
+    const params: any[] = [userId];
+    let where = 'WHERE user_id = $1';
+    if (options.eventType) {
+      params.push(options.eventType);
+      where += ` AND event_type = $${params.length}`;
+    }
+
+    const limit = Math.min(options.limit || 50, 200);
+    const offset = options.offset || 0;
+
+    const [eventsResult, countResult] = await Promise.all([
+      pool.query(
+        `SELECT id, email_id, contact_id, sender_identity_id, provider, event_type, recipient, reason, occurred_at, created_at
+         FROM email_delivery_events ${where}
+         ORDER BY created_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total FROM email_delivery_events ${where}`, params)
+    ]);
+
+    return { events: eventsResult.rows, total: countResult.rows[0]?.total || 0 };
+  }
+
+  private static async setContactEmailStatus(
+    userId: string,
+    email: string,
+    status: ContactEmailStatus,
+    reason: string | null
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE contacts
+       SET email_status = $3, email_status_reason = $4, email_status_updated_at = NOW()
+       WHERE user_id = $1 AND LOWER(email) = $2`,
+      [userId, email, status, reason]
+    );
+  }
+
+  private static async findEmailIdByTrackingId(userId: string, trackingId: string): Promise<string | null> {
+    const result = await pool.query(
+      'SELECT id FROM emails WHERE user_id = $1 AND tracking_id = $2 LIMIT 1',
+      [userId, trackingId]
+    );
+    return result.rows[0]?.id || null;
+  }
+}
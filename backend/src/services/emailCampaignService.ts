@@ -2,7 +2,19 @@ import { pool } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import gmailService from './gmailService';
 import emailTrackingService from './emailTrackingService';
+import { SuppressionService } from './suppressionService';
+import { EmailSendingService, EmailSenderNotReadyError, EmailThrottledError } from './emailSendingService';
+import { JobDeferredError } from './jobRunnerService';
+import { BackgroundJobModel } from '../models/BackgroundJob';
+import { BackgroundJob } from '../types/job';
+import { EmailSenderIdentity } from '../types/emailProvider';
 import { logger } from '../utils/logger';
+import {
+  AbWinnerMetric,
+  assignTestVariants,
+  nextSendTimeAtHour,
+  pickWinningVariant
+} from '../utils/emailCampaignOptimization';
 import { 
   replaceTokens, 
   validateTokensForContacts, 
@@ -10,12 +22,26 @@ import {
   ValidationResult 
 } from '../utils/emailTokenReplacer';
 
+// A/B test variant keys, in the order variants are given
+const VARIANT_KEYS = ['A', 'B', 'C', 'D'];
+const AB_WINNER_METRICS: AbWinnerMetric[] = ['open_rate', 'click_rate'];
+const DEFAULT_AB_TEST_PERCENTAGE = 20;
+const DEFAULT_AB_TEST_DURATION_HOURS = 4;
+
 interface CreateEmailCampaignRequest {
   campaign_name: string;
   subject: string;
   body: string;
+  variants?: Array<{ subject: string; body: string }>; // 2-4 variants for an A/B test (subject/body are ignored)
+  ab_test?: {
+    test_percentage?: number; // Share of contacts in the test slice (5-50, default 20)
+    winner_metric?: AbWinnerMetric; // Default: open_rate
+    test_duration_hours?: number; // Wait before picking the winner (1-168, default 4)
+  };
+  send_time_optimization?: boolean; // Send each contact at the hour they usually open emails
   contact_ids?: string[];
   schedule?: string;
+  sender_identity_id?: string; // Defaults to the user's default sender
   attachments?: Array<{
     filename: string;
     content: string; // base64
@@ -31,7 +57,7 @@ interface EmailCampaign {
   subject: string;
   body_html: string;
   body_text: string;
-  status: 'draft' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  status: 'draft' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'failed';
   total_contacts: number;
   completed_emails: number;
   successful_emails: number;
@@ -40,10 +66,54 @@ interface EmailCampaign {
   scheduled_at?: Date;
   start_date?: Date;
   end_date?: Date;
+  contact_ids: string[];
+  attachments: CreateEmailCampaignRequest['attachments'] | null;
+  sender_identity_id: string | null;
+  ab_test_enabled: boolean;
+  ab_test_percentage: number | null;
+  ab_winner_metric: AbWinnerMetric | null;
+  ab_test_duration_hours: number | null;
+  ab_test_ends_at: Date | null;
+  ab_winner_variant_id: string | null;
+  ab_winner_selected_at: Date | null;
+  send_time_optimization: boolean;
+  remainder_started_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+interface EmailCampaignVariant {
+  id: string;
+  campaign_id: string;
+  variant_key: string;
+  subject: string;
+  body_html: string;
+  body_text: string | null;
+  created_at: Date;
+}
+
+/**
+ * Subject and body a contact is sent (the campaign's own, or an A/B test variant)
+ */
+interface CampaignEmailContent {
+  subject: string;
+  bodyHtml: string;
+  bodyText: string;
+  variantId: string | null;
+}
+
+/**
+ * State shared by the sends of one campaign run
+ */
+interface CampaignSendContext {
+  campaign: EmailCampaign;
+  identity: EmailSenderIdentity;
+  fromName: string;
+  minIntervalMs: number;
+  successCount: number;
+  failCount: number;
+}
+
 interface EmailAttachmentMetadata {
   id: string;
   email_id: string;
@@ -64,6 +134,7 @@ interface EmailCampaignEmail {
   opened_at: Date | null;
   failed_at: Date | null;
   error_message: string | null;
+  variant_id: string | null;
   contact: {
     id: string;
     name: string | null;
@@ -110,21 +181,22 @@ export class EmailCampaignService {
     userId: string,
     data: CreateEmailCampaignRequest
   ): Promise<EmailCampaign> {
-    // Check Gmail connection before creating campaign
-    const gmailStatus = await this.checkGmailConnection(userId);
-    if (!gmailStatus.connected || !gmailStatus.hasGmailScope) {
-      throw new Error(gmailStatus.requiresReconnect 
-        ? 'Please reconnect Google to enable email sending. Go to Settings > Integrations to reconnect.'
-        : 'Gmail is not connected. Please connect your Gmail account in Settings > Integrations to send emails.');
+    // Check the sender before creating the campaign
+    const sendingStatus = await EmailSendingService.getSendingStatus(userId, data.sender_identity_id);
+    if (!sendingStatus.ready) {
+      throw new Error(sendingStatus.message);
     }
 
+    const abTest = this.validateAbTest(data);
+    const contents = abTest ? abTest.variants : [{ subject: data.subject, body: data.body }];
+
     // Validate tokens if contacts are provided
-    if (data.contact_ids && data.contact_ids.length > 0) {
+    for (const content of data.contact_ids && data.contact_ids.length > 0 ? contents : []) {
       const validation = await this.validateCampaignTokens(
         userId,
-        data.subject,
-        data.body,
-        data.contact_ids
+        content.subject,
+        content.body,
+        data.contact_ids!
       );
 
       if (!validation.valid) {
@@ -143,47 +215,59 @@ export class EmailCampaignService {
 
     return await pool.transaction(async (client) => {
       const campaignId = uuidv4();
-      const bodyText = data.body.replace(/<[^>]*>/g, ''); // Strip HTML for text version
+      // With an A/B test the campaign shows variant A until a winner is picked
+      const { subject, body } = contents[0];
+      const bodyText = body.replace(/<[^>]*>/g, ''); // Strip HTML for text version
 
-      // Create email campaign with 'draft' status - emails will be sent in background
-      // Valid statuses: draft, scheduled, in_progress, completed, cancelled
+      // Create email campaign with 'draft' status (or 'scheduled' with scheduled_at) - emails are
+      // sent by an 'email_campaign' background job, which survives restarts mid-send
+      // Valid statuses: draft, scheduled, in_progress, completed, cancelled, failed
+      const scheduledAt = data.schedule ? new Date(data.schedule) : null;
       const campaignResult = await client.query(
         `INSERT INTO email_campaigns (
-          id, user_id, name, subject, body_html, body_text, status, scheduled_at, total_contacts
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          id, user_id, name, subject, body_html, body_text, status, scheduled_at, total_contacts,
+          contact_ids, attachments, sender_identity_id, ab_test_enabled, ab_test_percentage,
+          ab_winner_metric, ab_test_duration_hours, send_time_optimization
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
         RETURNING *`,
         [
           campaignId,
           userId,
           data.campaign_name,
-          data.subject,
-          data.body,
+          subject,
+          body,
           bodyText,
-          data.schedule ? 'scheduled' : 'draft', // Use 'draft' as initial status
-          data.schedule ? new Date(data.schedule) : null,
+          scheduledAt ? 'scheduled' : 'draft', // Use 'draft' as initial status
+          scheduledAt,
           data.contact_ids?.length || 0,
+          data.contact_ids || [],
+          data.attachments && data.attachments.length > 0 ? JSON.stringify(data.attachments) : null,
+          sendingStatus.identity?.id || null,
+          !!abTest,
+          abTest?.testPercentage ?? null,
+          abTest?.winnerMetric ?? null,
+          abTest?.testDurationHours ?? null,
+          !!data.send_time_optimization,
         ]
       );
 
       const campaign = campaignResult.rows[0];
 
-      // Store contact IDs and attachments for background processing
+      for (const [index, variant] of (abTest?.variants || []).entries()) {
+        await client.query(
+          `INSERT INTO email_campaign_variants (campaign_id, variant_key, subject, body_html, body_text)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [campaignId, VARIANT_KEYS[index], variant.subject, variant.body, variant.body.replace(/<[^>]*>/g, '')]
+        );
+      }
+
       if (data.contact_ids && data.contact_ids.length > 0) {
-        // Start background email processing after transaction commits
-        // Use setImmediate to not block the response
-        setImmediate(() => {
-          this.processEmailCampaignInBackground(
-            userId,
-            campaignId,
-            data.contact_ids!,
-            data.subject,
-            data.body,
-            bodyText,
-            data.attachments
-          ).catch(error => {
-            logger.error(`Background email campaign processing failed for ${campaignId}:`, error);
-          });
-        });
+        await BackgroundJobModel.enqueue(
+          'email_campaign',
+          { emailCampaignId: campaignId },
+          { runAt: scheduledAt || new Date(), userId, dedupeKey: `email_campaign:${campaignId}` },
+          client
+        );
       }
 
       logger.info(`Email campaign created: ${campaignId} for user ${userId}`);
@@ -193,186 +277,488 @@ export class EmailCampaignService {
   }
 
   /**
-   * Process email campaign in background (non-blocking)
+   * Send an email campaign ('email_campaign' job handler)
+   * Throws on errors worth retrying; the job runner retries with backoff.
    */
-  private static async processEmailCampaignInBackground(
-    userId: string,
-    campaignId: string,
-    contactIds: string[],
-    subject: string,
-    bodyHtml: string,
-    bodyText: string,
-    attachments?: Array<{
-      filename: string;
-      content: string;
-      contentType: string;
-      size: number;
-    }>
-  ): Promise<void> {
+  static async runEmailCampaignJob(job: BackgroundJob): Promise<void> {
+    const result = await pool.query('SELECT * FROM email_campaigns WHERE id = $1', [job.payload.emailCampaignId]);
+    const campaign: EmailCampaign | undefined = result.rows[0];
+
+    // 'failed' campaigns are sent again when an admin retries their dead job
+    if (!campaign || !['draft', 'scheduled', 'in_progress', 'failed'].includes(campaign.status)) {
+      logger.info(`Email campaign ${job.payload.emailCampaignId} no longer needs sending`, { status: campaign?.status });
+      return; // Cancelled, finished or deleted in the meantime
+    }
+
+    await this.processEmailCampaign(campaign);
+  }
+
+  /**
+   * Mark an email campaign as failed once its send job is dead-lettered
+   */
+  static async failEmailCampaign(job: BackgroundJob, error: string): Promise<void> {
+    logger.error(`Email campaign ${job.payload.emailCampaignId} failed: ${error}`);
+    await pool.query(
+      `UPDATE email_campaigns SET status = 'failed', end_date = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('draft', 'scheduled', 'in_progress')`,
+      [job.payload.emailCampaignId]
+    );
+  }
+
+  /**
+   * Send the campaign's emails
+   * Contacts that already have an email for the campaign are skipped, so a send that was
+   * interrupted (restart, crash) or deferred resumes where it stopped.
+   *
+   * With an A/B test, the test slice gets the variants first and the job is deferred until the
+   * test window ends; the winning variant then goes to the other contacts. With send-time
+   * optimization, those contacts are sent at the hour they usually open emails (within a day),
+   * deferring the job between hours.
+   */
+  private static async processEmailCampaign(campaign: EmailCampaign): Promise<void> {
+    const { id: campaignId, user_id: userId } = campaign;
+
+    // Update status to in_progress
+    await pool.query(
+      `UPDATE email_campaigns
+       SET status = 'in_progress', start_date = COALESCE(start_date, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND status IN ('draft', 'scheduled', 'in_progress', 'failed')`,
+      [campaignId]
+    );
+
+    // Sender identity chosen for the campaign (or the user's default / connected Gmail)
+    let identity: EmailSenderIdentity;
     try {
-      // Update status to in_progress
+      identity = await EmailSendingService.resolveIdentity(userId, campaign.sender_identity_id || undefined);
+    } catch (error) {
+      if (!(error instanceof EmailSenderNotReadyError)) {
+        throw error;
+      }
       await pool.query(
-        `UPDATE email_campaigns SET status = 'in_progress', start_date = CURRENT_TIMESTAMP WHERE id = $1`,
+        `UPDATE email_campaigns SET status = 'failed', end_date = CURRENT_TIMESTAMP WHERE id = $1`,
         [campaignId]
       );
+      logger.error(`Email campaign ${campaignId} failed: ${error.message}`);
+      return;
+    }
+
+    // Get user's name for the sender display name when the identity has none
+    const userResult = await pool.query(
+      'SELECT name FROM users WHERE id = $1',
+      [userId]
+    );
+
+    // Get contacts
+    const contactsResult = await pool.query(
+      'SELECT id, email, name, phone_number, company, city, country, business_context FROM contacts WHERE id = ANY($1::uuid[]) AND user_id = $2',
+      [campaign.contact_ids, userId]
+    );
+    // Recipients on the suppression list are not emailed and count as failed
+    const { allowed: contacts, suppressed } = await SuppressionService.filterRecipients(
+      userId,
+      contactsResult.rows,
+      (contact: any) => ({ email: contact.email, contactId: contact.id }),
+      'email_campaign',
+      { email_campaign_id: campaignId }
+    );
+
+    // Emails sent before an interruption
+    const sentResult = await pool.query(
+      'SELECT DISTINCT contact_id FROM emails WHERE campaign_id = $1 AND contact_id IS NOT NULL',
+      [campaignId]
+    );
+    const sentContactIds = new Set<string>(sentResult.rows.map((row: any) => row.contact_id));
+    if (sentContactIds.size > 0) {
+      logger.info(`Resuming email campaign ${campaignId}: ${sentContactIds.size} emails already sent`);
+    }
+
+    const context: CampaignSendContext = {
+      campaign,
+      identity,
+      fromName: identity.from_name || userResult.rows[0]?.name || '',
+      minIntervalMs: EmailSendingService.getLimits(identity).minIntervalMs,
+      successCount: sentContactIds.size,
+      failCount: suppressed.length
+    };
+
+    const unsent = contacts.filter((contact: any) => !sentContactIds.has(contact.id));
+    let remaining = unsent;
+    let remainderContent: CampaignEmailContent = {
+      subject: campaign.subject,
+      bodyHtml: campaign.body_html,
+      bodyText: campaign.body_text,
+      variantId: null
+    };
+
+    if (campaign.ab_test_enabled) {
+      const variants = await this.getCampaignVariants(campaignId);
+      // Slice over all the campaign's contacts so it stays the same when some are suppressed later
+      const testAssignments = assignTestVariants(
+        campaignId,
+        campaign.contact_ids,
+        campaign.ab_test_percentage || DEFAULT_AB_TEST_PERCENTAGE,
+        variants.length
+      );
+      remaining = unsent.filter((contact: any) => !testAssignments.has(contact.id));
 
-      // Get Gmail status to get sender email
-      const gmailStatus = await gmailService.getGmailStatus(userId);
-      if (!gmailStatus.connected || !gmailStatus.hasGmailScope) {
-        await pool.query(
-          `UPDATE email_campaigns SET status = 'failed', end_date = CURRENT_TIMESTAMP WHERE id = $1`,
-          [campaignId]
+      let winnerId = campaign.ab_winner_variant_id;
+      if (!winnerId) {
+        const testContacts = unsent.filter((contact: any) => testAssignments.has(contact.id));
+        const completed = await this.sendToContacts(context, testContacts, contact =>
+          this.variantContent(variants[testAssignments.get(contact.id)!])
         );
-        throw new Error('Gmail is not connected. Cannot send campaign emails.');
+        if (!completed) return;
+
+        const testEndsAt = campaign.ab_test_ends_at
+          ? new Date(campaign.ab_test_ends_at)
+          : await this.startAbTestWindow(campaign);
+        if (testEndsAt.getTime() > Date.now()) {
+          await this.saveProgress(context);
+          throw new JobDeferredError(testEndsAt, `A/B test running until ${testEndsAt.toISOString()}`);
+        }
+
+        winnerId = await this.selectAbTestWinner(campaign, variants);
       }
 
-      const fromEmail = gmailStatus.email || '';
+      const winner = variants.find(variant => variant.id === winnerId) || variants[0];
+      remainderContent = this.variantContent(winner);
+    }
 
-      // Get user's name for the sender display name
-      const userResult = await pool.query(
-        'SELECT name FROM users WHERE id = $1',
-        [userId]
-      );
-      const fromName = userResult.rows[0]?.name || '';
+    let due = remaining;
+    let nextSendAt: Date | null = null;
 
-      // Get contacts
-      const contactsResult = await pool.query(
-        'SELECT id, email, name, phone_number, company, city, country, business_context FROM contacts WHERE id = ANY($1::uuid[]) AND user_id = $2',
-        [contactIds, userId]
+    if (campaign.send_time_optimization && remaining.length > 0) {
+      const sendTimes = await this.getOptimizedSendTimes(campaign, remaining.map((contact: any) => contact.id));
+      const now = Date.now();
+      due = remaining.filter((contact: any) => (sendTimes.get(contact.id)?.getTime() ?? 0) <= now);
+      for (const contact of remaining) {
+        const sendAt = sendTimes.get(contact.id);
+        if (sendAt && sendAt.getTime() > now && (!nextSendAt || sendAt < nextSendAt)) {
+          nextSendAt = sendAt;
+        }
+      }
+    }
+
+    const completed = await this.sendToContacts(context, due, () => remainderContent);
+    if (!completed) return;
+
+    if (nextSendAt) {
+      await this.saveProgress(context);
+      throw new JobDeferredError(
+        nextSendAt,
+        `Waiting to send ${remaining.length - due.length} emails at their contacts' usual open hours`
       );
-      const contacts = contactsResult.rows;
+    }
 
-      let successCount = 0;
-      let failCount = 0;
+    // Final update - mark campaign as completed
+    const { successCount, failCount } = context;
+    await pool.query(
+      `UPDATE email_campaigns 
+       SET completed_emails = $1, successful_emails = $2, failed_emails = $3,
+           status = 'completed', end_date = CURRENT_TIMESTAMP
+       WHERE id = $4 AND status = 'in_progress'`,
+      [successCount + failCount, successCount, failCount, campaignId]
+    );
 
-      // Send emails to each contact
-      for (const contact of contacts) {
-        if (!contact.email) {
-          failCount++;
-          continue;
-        }
+    logger.info(`Email campaign ${campaignId} completed: ${successCount} sent, ${failCount} failed`);
+  }
 
-        try {
-          // Personalize subject and body with token replacement
-          const personalizedSubject = replaceTokens(subject, contact);
-          const personalizedBodyHtml = replaceTokens(bodyHtml, contact);
-          const personalizedBodyText = replaceTokens(bodyText, contact);
-
-          // Generate tracking ID for this email
-          const trackingId = emailTrackingService.generateTrackingId();
-
-          // Send email via Gmail API with tracking enabled
-          const result = await gmailService.sendEmail(userId, {
-            to: { address: contact.email, name: contact.name || contact.email.split('@')[0] },
-            subject: personalizedSubject,
-            htmlBody: personalizedBodyHtml,
-            textBody: personalizedBodyText,
-            fromName,
-            fromEmail,
-            attachments: attachments?.map(att => ({
-              filename: att.filename,
-              content: att.content,
-              contentType: att.contentType || 'application/octet-stream',
-            })),
-            trackingId,
-            enableTracking: true,
-            enableLinkTracking: true
-          });
-
-          if (result.success) {
-            // Store email record with tracking ID
-            const emailId = uuidv4();
-            await pool.query(
-              `INSERT INTO emails (
-                id, user_id, contact_id, campaign_id, from_email, from_name,
-                to_email, to_name, subject, body_html, body_text,
-                has_attachments, attachment_count, status, tracking_id
-              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'sent', $14)`,
-              [
-                emailId,
-                userId,
-                contact.id,
-                campaignId,
-                fromEmail,
-                fromName,
-                contact.email,
-                contact.name || contact.email.split('@')[0],
-                personalizedSubject,
-                personalizedBodyHtml,
-                personalizedBodyText,
-                attachments && attachments.length > 0,
-                attachments?.length || 0,
-                trackingId,
-              ]
-            );
+  /**
+   * Send campaign emails to contacts, counting them on the context
+   * Defers the job (JobDeferredError) when the sender's limit is reached.
+   * @returns false if the campaign was cancelled or failed meanwhile
+   */
+  private static async sendToContacts(
+    context: CampaignSendContext,
+    contacts: any[],
+    contentFor: (contact: any) => CampaignEmailContent
+  ): Promise<boolean> {
+    const { campaign, identity, fromName } = context;
+    const { id: campaignId, user_id: userId } = campaign;
+    const attachments = campaign.attachments || undefined;
 
-            // Link email to lead_analytics if exists
-            await pool.query(
-              `UPDATE lead_analytics 
-               SET email_id = $1
-               WHERE id = (
-                 SELECT id FROM lead_analytics
-                 WHERE user_id = $2 AND phone_number = $3 AND email_id IS NULL
-                 ORDER BY created_at DESC
-                 LIMIT 1
-               )`,
-              [emailId, userId, contact.phone_number]
-            );
+    // Send emails to each contact
+    for (const contact of contacts) {
+      if (!contact.email) {
+        context.failCount++;
+        continue;
+      }
 
-            // Store attachments metadata if any
-            if (attachments && attachments.length > 0) {
-              const attachmentQueries = attachments.map((att) =>
-                pool.query(
-                  `INSERT INTO email_attachments (email_id, filename, content_type, file_size)
-                   VALUES ($1, $2, $3, $4)`,
-                  [emailId, att.filename, att.contentType || 'application/octet-stream', att.size || 0]
-                )
-              );
-              await Promise.all(attachmentQueries);
-            }
-
-            successCount++;
-          } else {
-            failCount++;
-            logger.error(`Failed to send campaign email to ${contact.email}: ${result.error}`);
-          }
+      try {
+        const content = contentFor(contact);
+
+        // Personalize subject and body with token replacement
+        const personalizedSubject = replaceTokens(content.subject, contact);
+        const personalizedBodyHtml = replaceTokens(content.bodyHtml, contact);
+        const personalizedBodyText = replaceTokens(content.bodyText, contact);
+
+        // Generate tracking ID for this email
+        const trackingId = emailTrackingService.generateTrackingId();
+
+        // Send email through the campaign's sender with tracking enabled
+        const result = await EmailSendingService.send(userId, {
+          to: { address: contact.email, name: contact.name || contact.email.split('@')[0] },
+          subject: personalizedSubject,
+          htmlBody: personalizedBodyHtml,
+          textBody: personalizedBodyText,
+          fromName,
+          senderIdentityId: identity.id,
+          attachments: attachments?.map(att => ({
+            filename: att.filename,
+            content: att.content,
+            contentType: att.contentType || 'application/octet-stream',
+          })),
+          trackingId,
+          enableTracking: true,
+          enableLinkTracking: true
+        });
+
+        if (result.success) {
+          // Store email record with tracking ID
+          const emailId = uuidv4();
+          await pool.query(
+            `INSERT INTO emails (
+              id, user_id, contact_id, campaign_id, from_email, from_name,
+              to_email, to_name, subject, body_html, body_text,
+              has_attachments, attachment_count, status, tracking_id,
+              external_message_id, sender_identity_id, provider, variant_id
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'sent', $14, $15, $16, $17, $18)`,
+            [
+              emailId,
+              userId,
+              contact.id,
+              campaignId,
+              result.fromEmail,
+              fromName,
+              contact.email,
+              contact.name || contact.email.split('@')[0],
+              personalizedSubject,
+              personalizedBodyHtml,
+              personalizedBodyText,
+              attachments && attachments.length > 0,
+              attachments?.length || 0,
+              trackingId,
+              result.messageId || null,
+              identity.id,
+              identity.provider,
+              content.variantId,
+            ]
+          );
+
+          // Link email to lead_analytics if exists
+          await pool.query(
+            `UPDATE lead_analytics 
+             SET email_id = $1
+             WHERE id = (
+               SELECT id FROM lead_analytics
+               WHERE user_id = $2 AND phone_number = $3 AND email_id IS NULL
+               ORDER BY created_at DESC
+               LIMIT 1
+             )`,
+            [emailId, userId, contact.phone_number]
+          );
 
-          // Update progress periodically (every 10 emails)
-          if ((successCount + failCount) % 10 === 0) {
-            await pool.query(
-              `UPDATE email_campaigns 
-               SET completed_emails = $1, successful_emails = $2, failed_emails = $3
-               WHERE id = $4`,
-              [successCount + failCount, successCount, failCount, campaignId]
+          // Store attachments metadata if any
+          if (attachments && attachments.length > 0) {
+            const attachmentQueries = attachments.map((att) =>
+              pool.query(
+                `INSERT INTO email_attachments (email_id, filename, content_type, file_size)
+                 VALUES ($1, $2, $3, $4)`,
+                [emailId, att.filename, att.contentType || 'application/octet-stream', att.size || 0]
+              )
             );
+            await Promise.all(attachmentQueries);
           }
-        } catch (error: any) {
-          logger.error(`Failed to send email to ${contact.email}:`, error);
-          failCount++;
+
+          context.successCount++;
+        } else {
+          context.failCount++;
+          logger.error(`Failed to send campaign email to ${contact.email}: ${result.error}`);
+        }
+
+        // Update progress periodically (every 10 emails); stop if the campaign was cancelled
+        if ((context.successCount + context.failCount) % 10 === 0 && !(await this.saveProgress(context))) {
+          logger.info(`Email campaign ${campaignId} was cancelled, stopping after ${context.successCount} sent`);
+          return false;
+        }
+      } catch (error: any) {
+        if (error instanceof EmailThrottledError) {
+          // Sender's hourly/daily limit reached: save progress and resume when it frees up
+          await this.saveProgress(context);
+          throw new JobDeferredError(error.retryAt, error.message);
+        }
+        if (error instanceof EmailSenderNotReadyError) {
+          const { successCount, failCount } = context;
+          await pool.query(
+            `UPDATE email_campaigns
+             SET completed_emails = $1, successful_emails = $2, failed_emails = $3,
+                 status = 'failed', end_date = CURRENT_TIMESTAMP
+             WHERE id = $4`,
+            [successCount + failCount, successCount, failCount, campaignId]
+          );
+          logger.error(`Email campaign ${campaignId} failed: ${error.message}`);
+          return false;
         }
+        logger.error(`Failed to send email to ${contact.email}:`, error);
+        context.failCount++;
       }
 
-      // Final update - mark campaign as completed
-      await pool.query(
-        `UPDATE email_campaigns 
-         SET completed_emails = $1, successful_emails = $2, failed_emails = $3,
-             status = 'completed', end_date = CURRENT_TIMESTAMP
-         WHERE id = $4`,
-        [successCount + failCount, successCount, failCount, campaignId]
-      );
+      // Space sends out to stay within the provider's rate limits
+      await new Promise(resolve => setTimeout(resolve, context.minIntervalMs));
+    }
 
-      logger.info(`Email campaign ${campaignId} completed: ${successCount} sent, ${failCount} failed`);
-    } catch (error: any) {
-      logger.error(`Email campaign ${campaignId} failed:`, error);
-      await pool.query(
-        `UPDATE email_campaigns SET status = 'failed', end_date = CURRENT_TIMESTAMP WHERE id = $1`,
-        [campaignId]
+    return true;
+  }
+
+  /**
+   * Store the send counts of a running campaign
+   * @returns false if the campaign is no longer in progress (cancelled)
+   */
+  private static async saveProgress(context: CampaignSendContext): Promise<boolean> {
+    const { successCount, failCount } = context;
+    const progress = await pool.query(
+      `UPDATE email_campaigns 
+       SET completed_emails = $1, successful_emails = $2, failed_emails = $3
+       WHERE id = $4 AND status = 'in_progress'`,
+      [successCount + failCount, successCount, failCount, context.campaign.id]
+    );
+    return (progress.rowCount ?? 0) > 0;
+  }
+
+  private static async getCampaignVariants(campaignId: string): Promise<EmailCampaignVariant[]> {
+    const result = await pool.query(
+      'SELECT * FROM email_campaign_variants WHERE campaign_id = $1 ORDER BY variant_key',
+      [campaignId]
+    );
+    return result.rows;
+  }
+
+  private static variantContent(variant: EmailCampaignVariant): CampaignEmailContent {
+    return {
+      subject: variant.subject,
+      bodyHtml: variant.body_html,
+      bodyText: variant.body_text || variant.body_html.replace(/<[^>]*>/g, ''),
+      variantId: variant.id
+    };
+  }
+
+  /**
+   * Start the A/B test window once the test slice is sent
+   */
+  private static async startAbTestWindow(campaign: EmailCampaign): Promise<Date> {
+    const hours = campaign.ab_test_duration_hours || DEFAULT_AB_TEST_DURATION_HOURS;
+    const result = await pool.query(
+      `UPDATE email_campaigns
+       SET ab_test_ends_at = COALESCE(ab_test_ends_at, NOW() + ($2 || ' hours')::interval)
+       WHERE id = $1
+       RETURNING ab_test_ends_at`,
+      [campaign.id, hours]
+    );
+    return new Date(result.rows[0].ab_test_ends_at);
+  }
+
+  /**
+   * Pick the variant with the best open or click rate in the test slice
+   * The campaign's subject and body become the winner's, so listings show what most contacts got.
+   */
+  private static async selectAbTestWinner(
+    campaign: EmailCampaign,
+    variants: EmailCampaignVariant[]
+  ): Promise<string> {
+    const metric = campaign.ab_winner_metric || 'open_rate';
+    const performance = await emailTrackingService.getVariantPerformance(campaign.id);
+    const best = pickWinningVariant(performance, metric);
+    const winner = variants.find(variant => variant.id === best?.variantId) || variants[0];
+
+    await pool.query(
+      `UPDATE email_campaigns
+       SET ab_winner_variant_id = $2, ab_winner_selected_at = NOW(),
+           subject = $3, body_html = $4, body_text = COALESCE($5, body_text)
+       WHERE id = $1 AND ab_winner_variant_id IS NULL`,
+      [campaign.id, winner.id, winner.subject, winner.body_html, winner.body_text]
+    );
+
+    logger.info(`Email campaign ${campaign.id} A/B test winner: variant ${winner.variant_key}`, {
+      metric,
+      performance
+    });
+    return winner.id;
+  }
+
+  /**
+   * Send time of each contact that has opened emails before: the next start of the hour
+   * they usually open them, counted from when sending to the remaining contacts began
+   * Contacts without open history are not in the map and are sent right away.
+   */
+  private static async getOptimizedSendTimes(
+    campaign: EmailCampaign,
+    contactIds: string[]
+  ): Promise<Map<string, Date>> {
+    let startedAt = campaign.remainder_started_at ? new Date(campaign.remainder_started_at) : null;
+    if (!startedAt) {
+      const result = await pool.query(
+        `UPDATE email_campaigns SET remainder_started_at = COALESCE(remainder_started_at, NOW())
+         WHERE id = $1
+         RETURNING remainder_started_at`,
+        [campaign.id]
       );
+      startedAt = new Date(result.rows[0].remainder_started_at);
     }
+
+    const openHours = await emailTrackingService.getUsualOpenHours(campaign.user_id, contactIds);
+    const sendTimes = new Map<string, Date>();
+    for (const [contactId, hour] of openHours) {
+      sendTimes.set(contactId, nextSendTimeAtHour(startedAt, hour));
+    }
+    return sendTimes;
   }
 
   /**
-   * Send emails to all contacts in the campaign (DEPRECATED - use processEmailCampaignInBackground)
+   * Validate the A/B test settings of a new campaign
+   * @returns null for a campaign without variants
+   */
+  private static validateAbTest(data: CreateEmailCampaignRequest): {
+    variants: Array<{ subject: string; body: string }>;
+    testPercentage: number;
+    winnerMetric: AbWinnerMetric;
+    testDurationHours: number;
+  } | null {
+    if (!data.variants || data.variants.length === 0) {
+      if (data.ab_test) {
+        throw new Error('An A/B test needs 2 to 4 variants');
+      }
+      return null;
+    }
+
+    if (!Array.isArray(data.variants) || data.variants.length < 2 || data.variants.length > VARIANT_KEYS.length) {
+      throw new Error(`An A/B test needs 2 to ${VARIANT_KEYS.length} variants`);
+    }
+    data.variants.forEach((variant, index) => {
+      if (!variant?.subject?.trim() || !variant?.body?.trim()) {
+        throw new Error(`Variant ${VARIANT_KEYS[index]} needs a subject and a body`);
+      }
+    });
+
+    const testPercentage = Number(data.ab_test?.test_percentage ?? DEFAULT_AB_TEST_PERCENTAGE);
+    if (!Number.isInteger(testPercentage) || testPercentage < 5 || testPercentage > 50) {
+      throw new Error('test_percentage must be a whole number between 5 and 50');
+    }
+
+    const winnerMetric = data.ab_test?.winner_metric ?? 'open_rate';
+    if (!AB_WINNER_METRICS.includes(winnerMetric)) {
+      throw new Error(`winner_metric must be one of: ${AB_WINNER_METRICS.join(', ')}`);
+    }
+
+    const testDurationHours = Number(data.ab_test?.test_duration_hours ?? DEFAULT_AB_TEST_DURATION_HOURS);
+    if (!Number.isInteger(testDurationHours) || testDurationHours < 1 || testDurationHours > 168) {
+      throw new Error('test_duration_hours must be a whole number between 1 and 168');
+    }
+
+    return { variants: data.variants, testPercentage, winnerMetric, testDurationHours };
+  }
+
+  /**
+   * Send emails to all contacts in the campaign (DEPRECATED - use processEmailCampaign)
    */
   private static async sendCampaignEmails(
     client: any,
@@ -409,10 +795,16 @@ export class EmailCampaignService {
       'SELECT id, email, name, phone_number, company, city, country, business_context FROM contacts WHERE id = ANY($1::uuid[]) AND user_id = $2',
       [contactIds, userId]
     );
-    const contacts = contactsResult.rows;
+    const { allowed: contacts, suppressed } = await SuppressionService.filterRecipients(
+      userId,
+      contactsResult.rows,
+      (contact: any) => ({ email: contact.email, contactId: contact.id }),
+      'email_campaign',
+      { email_campaign_id: campaignId }
+    );
 
     let successCount = 0;
-    let failCount = 0;
+    let failCount = suppressed.length;
 
     // Send emails to each contact
     for (const contact of contacts) {
@@ -541,7 +933,7 @@ export class EmailCampaignService {
   static async getEmailCampaignDetails(
     id: string,
     userId: string
-  ): Promise<{ campaign: EmailCampaign; emails: EmailCampaignEmail[] } | null> {
+  ): Promise<{ campaign: EmailCampaign; emails: EmailCampaignEmail[]; variants: EmailCampaignVariant[] } | null> {
     const campaign = await this.getEmailCampaign(id, userId);
     if (!campaign) return null;
 
@@ -557,6 +949,7 @@ export class EmailCampaignService {
         e.opened_at,
         e.failed_at,
         e.error_message,
+        e.variant_id,
         c.name AS contact_name,
         c.email AS contact_email
       FROM emails e
@@ -577,6 +970,7 @@ export class EmailCampaignService {
       opened_at: Date | null;
       failed_at: Date | null;
       error_message: string | null;
+      variant_id: string | null;
       contact_name: string | null;
       contact_email: string | null;
     }>;
@@ -609,13 +1003,16 @@ export class EmailCampaignService {
       opened_at: row.opened_at,
       failed_at: row.failed_at,
       error_message: row.error_message,
+      variant_id: row.variant_id,
       contact: row.contact_id
         ? { id: row.contact_id, name: row.contact_name, email: row.contact_email }
         : null,
       attachments: attachmentsByEmailId[row.id] || [],
     }));
 
-    return { campaign, emails };
+    const variants = campaign.ab_test_enabled ? await this.getCampaignVariants(id) : [];
+
+    return { campaign, emails, variants };
   }
 
   /**
@@ -634,13 +1031,18 @@ export class EmailCampaignService {
    * Cancel email campaign
    */
   static async cancelEmailCampaign(id: string, userId: string): Promise<void> {
-    await pool.query(
+    const result = await pool.query(
       `UPDATE email_campaigns 
        SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP 
        WHERE id = $1 AND user_id = $2`,
       [id, userId]
     );
 
+    // A scheduled send that has not started is dropped; a running one stops at its next progress check
+    if ((result.rowCount ?? 0) > 0) {
+      await BackgroundJobModel.cancelByDedupeKey(`email_campaign:${id}`);
+    }
+
     logger.info(`Email campaign ${id} cancelled by user ${userId}`);
   }
 }
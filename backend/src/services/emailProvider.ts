@@ -0,0 +1,30 @@
+import { GmailEmailProvider } from './gmailEmailProvider';
+import { SmtpEmailProvider } from './smtpEmailProvider';
+import { ZeptoMailEmailProvider } from './zeptomailEmailProvider';
+import { EmailProvider, EmailProviderName } from '../types/emailProvider';
+
+export const EMAIL_PROVIDER_NAMES: EmailProviderName[] = ['gmail', 'smtp', 'zeptomail'];
+
+const EMAIL_PROVIDERS: Record<EmailProviderName, () => EmailProvider> = {
+  gmail: () => new GmailEmailProvider(),
+  smtp: () => new SmtpEmailProvider(),
+  zeptomail: () => new ZeptoMailEmailProvider()
+};
+
+const instances = new Map<EmailProviderName, EmailProvider>();
+
+/**
+ * Email provider by name
+ */
+export function getEmailProvider(name: EmailProviderName): EmailProvider {
+  let provider = instances.get(name);
+  if (!provider) {
+    const factory = EMAIL_PROVIDERS[name];
+    if (!factory) {
+      throw new Error(`Unknown email provider "${name}" (expected one of: ${EMAIL_PROVIDER_NAMES.join(', ')})`);
+    }
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,535 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import gmailService from './gmailService';
+import emailTrackingService from './emailTrackingService';
+import { EmailBounceService } from './emailBounceService';
+import { SuppressionService } from './suppressionService';
+import { getEmailProvider, EMAIL_PROVIDER_NAMES } from './emailProvider';
+import { EmailSenderIdentityModel, SenderIdentityColumns } from '../models/EmailSenderIdentity';
+import { Encryption } from '../utils/encryption';
+import { logger } from '../utils/logger';
+import {
+  CreateSenderIdentityInput,
+  EmailAddress,
+  EmailSendLimits,
+  EmailSendResult,
+  EmailSenderIdentity,
+  OutgoingEmailAttachment,
+  PublicEmailSenderIdentity,
+  UpdateSenderIdentityInput
+} from '../types/emailProvider';
+
+// Verification links expire after 3 days
+const VERIFICATION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when the user has no sender identity that can send (none configured, not verified,
+ * Gmail disconnected)
+ */
+export class EmailSenderNotReadyError extends Error {
+  public readonly code = 'EMAIL_SENDER_NOT_READY';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailSenderNotReadyError';
+  }
+}
+
+/**
+ * Thrown when a sender identity has reached its hourly or daily limit
+ */
+export class EmailThrottledError extends Error {
+  public readonly code = 'EMAIL_THROTTLED';
+
+  constructor(public readonly retryAt: Date, public readonly senderIdentityId: string, limit: 'hourly' | 'daily') {
+    super(`The ${limit} email limit for this sender is reached; sending resumes at ${retryAt.toISOString()}`);
+    this.name = 'EmailThrottledError';
+  }
+}
+
+export interface SendUserEmailOptions {
+  to: EmailAddress;
+  cc?: EmailAddress[];
+  bcc?: EmailAddress[];
+  subject: string;
+  htmlBody: string;
+  textBody?: string;
+  attachments?: OutgoingEmailAttachment[];
+  fromName?: string; // Overrides the identity's display name
+  senderIdentityId?: string; // Defaults to the user's default identity
+  trackingId?: string; // Pre-generated tracking ID (campaign emails store it on the emails row)
+  enableTracking?: boolean; // Tracking pixel (default: true)
+  enableLinkTracking?: boolean; // Wrap links for click tracking (default: false)
+}
+
+export interface UserEmailSendResult extends EmailSendResult {
+  identity: EmailSenderIdentity;
+  fromEmail: string;
+  fromName: string | null;
+  trackingId?: string;
+}
+
+/**
+ * Sends users' emails through their chosen provider
+ *
+ * Each user sends from sender identities on Gmail (their connected Google account), their own
+ * SMTP server or the platform's ZeptoMail account. Identities other than Gmail are verified by a
+ * link mailed through them, and every identity is throttled by its hourly and daily limits.
+ * Users without an identity keep sending from their connected Gmail account.
+ */
+export class EmailSendingService {
+  /**
+   * Send an email as the user
+   * Throws EmailSenderNotReadyError / EmailThrottledError; provider failures come back as
+   * success: false (a rejected recipient is recorded as a bounce).
+   */
+  static async send(userId: string, options: SendUserEmailOptions): Promise<UserEmailSendResult> {
+    const identity = await this.resolveIdentity(userId, options.senderIdentityId);
+    await this.assertWithinLimits(identity);
+
+    const enableTracking = options.enableTracking !== false;
+    const trackingId = enableTracking ? options.trackingId || emailTrackingService.generateTrackingId() : undefined;
+
+    let html = options.htmlBody;
+    if (trackingId) {
+      html = emailTrackingService.injectTrackingPixel(html, trackingId);
+      if (options.enableLinkTracking) {
+        html = emailTrackingService.wrapLinksForTracking(html, trackingId);
+      }
+    }
+
+    const sender = options.fromName ? { ...identity, from_name: options.fromName } : identity;
+    const result = await getEmailProvider(identity.provider).send(sender, {
+      to: options.to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: options.subject,
+      html,
+      text: options.textBody,
+      attachments: options.attachments,
+      reference: `${identity.id}/${trackingId || crypto.randomUUID()}`
+    });
+
+    if (result.success) {
+      await EmailSenderIdentityModel.recordSend(identity.id);
+    } else {
+      logger.warn('Email send failed', {
+        userId,
+        provider: identity.provider,
+        senderIdentityId: identity.id,
+        error: result.error,
+        bounce: result.bounce,
+        retryable: result.retryable
+      });
+
+      if (result.bounce) {
+        await EmailBounceService.recordEvent({
+          userId,
+          provider: identity.provider,
+          eventType: result.bounce === 'hard' ? 'hard_bounce' : 'soft_bounce',
+          recipient: options.to.address,
+          reason: result.error,
+          senderIdentityId: identity.id
+        });
+      }
+    }
+
+    return {
+      ...result,
+      identity,
+      fromEmail: identity.from_email,
+      fromName: sender.from_name,
+      trackingId
+    };
+  }
+
+  /**
+   * Whether the user can send email, and from which identity
+   */
+  static async getSendingStatus(userId: string, senderIdentityId?: string): Promise<{
+    ready: boolean;
+    message: string;
+    identity?: PublicEmailSenderIdentity;
+  }> {
+    try {
+      const identity = await this.resolveIdentity(userId, senderIdentityId);
+      return { ready: true, message: `Sending from ${identity.from_email} via ${identity.provider}`, identity: this.toPublic(identity) };
+    } catch (error) {
+      if (error instanceof EmailSenderNotReadyError) {
+        return { ready: false, message: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Identity to send from: the given one, else the user's default, else their connected Gmail account
+   */
+  static async resolveIdentity(userId: string, senderIdentityId?: string): Promise<EmailSenderIdentity> {
+    let identity = senderIdentityId
+      ? await EmailSenderIdentityModel.findById(senderIdentityId, userId)
+      : await EmailSenderIdentityModel.findDefault(userId);
+
+    if (senderIdentityId && !identity) {
+      throw new EmailSenderNotReadyError('Email sender not found');
+    }
+
+    if (!identity) {
+      identity = await this.getGmailIdentity(userId);
+    }
+
+    if (identity.verification_status !== 'verified') {
+      throw new EmailSenderNotReadyError(
+        `${identity.from_email} is not verified yet. Open the verification link we emailed to it, or resend it from Settings > Integrations.`
+      );
+    }
+
+    return identity;
+  }
+
+  /**
+   * Send limits of an identity (its own or the provider defaults)
+   */
+  static getLimits(identity: EmailSenderIdentity): EmailSendLimits {
+    const defaults = getEmailProvider(identity.provider).defaultLimits;
+    return {
+      hourly: identity.hourly_limit || defaults.hourly,
+      daily: identity.daily_limit || defaults.daily,
+      minIntervalMs: defaults.minIntervalMs
+    };
+  }
+
+  /**
+   * Throw EmailThrottledError if the identity has used up its hourly or daily limit
+   */
+  static async assertWithinLimits(identity: EmailSenderIdentity): Promise<void> {
+    const limits = this.getLimits(identity);
+    const usage = await EmailSenderIdentityModel.getUsage(identity.id);
+
+    if (usage.lastDay >= limits.daily) {
+      // Counted per hour over the last 24 hours: the oldest hour frees up first
+      const retryAt = new Date(Date.now() + 60 * 60 * 1000);
+      retryAt.setMinutes(0, 0, 0);
+      throw new EmailThrottledError(retryAt, identity.id, 'daily');
+    }
+
+    if (usage.lastHour >= limits.hourly) {
+      const retryAt = new Date(Date.now() + 60 * 60 * 1000);
+      retryAt.setMinutes(0, 0, 0);
+      throw new EmailThrottledError(retryAt, identity.id, 'hourly');
+    }
+  }
+
+  // ============================================================================
+  // SENDER IDENTITIES
+  // ============================================================================
+
+  static async listIdentities(userId: string): Promise<PublicEmailSenderIdentity[]> {
+    const identities = await EmailSenderIdentityModel.findByUser(userId);
+    return identities.map(identity => this.toPublic(identity));
+  }
+
+  /**
+   * Add a sender identity
+   * Gmail identities must be the connected Google account and are verified right away; SMTP
+   * connections are checked before saving. Others get a verification link mailed to them.
+   */
+  static async createIdentity(userId: string, input: CreateSenderIdentityInput): Promise<PublicEmailSenderIdentity> {
+    if (!EMAIL_PROVIDER_NAMES.includes(input.provider)) {
+      throw new Error(`Invalid provider. Use one of: ${EMAIL_PROVIDER_NAMES.join(', ')}`);
+    }
+
+    const fromEmail = SuppressionService.normalizeEmail(input.from_email);
+    if (!fromEmail) {
+      throw new Error('A valid from_email is required');
+    }
+
+    if (await EmailSenderIdentityModel.findByAddress(userId, input.provider, fromEmail)) {
+      throw new Error(`${fromEmail} is already set up for ${input.provider}`);
+    }
+
+    const columns = this.validateColumns(input);
+    let identity: EmailSenderIdentity;
+
+    if (input.provider === 'gmail') {
+      const status = await gmailService.getGmailStatus(userId);
+      if (!status.connected || !status.hasGmailScope || !status.email) {
+        throw new Error(status.message);
+      }
+      if (status.email.toLowerCase() !== fromEmail) {
+        throw new Error(`Gmail can only send from the connected Google account (${status.email})`);
+      }
+      identity = await EmailSenderIdentityModel.create(userId, 'gmail', fromEmail, columns, 'verified');
+    } else {
+      if (input.provider === 'smtp') {
+        if (!columns.smtp_host || !columns.smtp_port) {
+          throw new Error('smtp_host and smtp_port are required for SMTP senders');
+        }
+        await getEmailProvider('smtp').verifyConnection(this.draftIdentity(userId, 'smtp', fromEmail, columns));
+      } else {
+        await getEmailProvider('zeptomail').verifyConnection(this.draftIdentity(userId, 'zeptomail', fromEmail, columns));
+      }
+
+      identity = await EmailSenderIdentityModel.create(userId, input.provider, fromEmail, columns);
+    }
+
+    const existing = await EmailSenderIdentityModel.findByUser(userId);
+    if ((input.is_default || existing.length === 1) && identity.verification_status === 'verified') {
+      identity = (await EmailSenderIdentityModel.setDefault(identity.id, userId)) || identity;
+    }
+
+    if (identity.verification_status !== 'verified') {
+      await this.sendVerification(identity).catch(error => {
+        logger.warn('Failed to send sender verification email', { identityId: identity.id, error: error.message });
+      });
+      identity = (await EmailSenderIdentityModel.findById(identity.id)) || identity;
+    }
+
+    logger.info('Email sender identity created', { userId, identityId: identity.id, provider: identity.provider });
+    return this.toPublic(identity);
+  }
+
+  /**
+   * Update an identity's display name, reply-to, limits or SMTP settings
+   * Changed SMTP settings are checked before they are saved.
+   */
+  static async updateIdentity(
+    userId: string,
+    id: string,
+    input: UpdateSenderIdentityInput
+  ): Promise<PublicEmailSenderIdentity | null> {
+    const identity = await EmailSenderIdentityModel.findById(id, userId);
+    if (!identity) {
+      return null;
+    }
+
+    const columns = this.validateColumns(input);
+    const smtpChanged = identity.provider === 'smtp' &&
+      ['smtp_host', 'smtp_port', 'smtp_secure', 'smtp_username', 'smtp_password_encrypted']
+        .some(column => columns[column as keyof SenderIdentityColumns] !== undefined);
+
+    if (smtpChanged) {
+      await getEmailProvider('smtp').verifyConnection({ ...identity, ...columns, updated_at: new Date() });
+    }
+
+    let updated = await EmailSenderIdentityModel.update(id, userId, columns);
+    if (updated && input.is_default) {
+      updated = await this.setDefaultIdentity(userId, id);
+    }
+    return updated ? this.toPublic(updated) : null;
+  }
+
+  static async setDefaultIdentity(userId: string, id: string): Promise<EmailSenderIdentity | null> {
+    const identity = await EmailSenderIdentityModel.findById(id, userId);
+    if (!identity) {
+      return null;
+    }
+    if (identity.verification_status !== 'verified') {
+      throw new Error('Only verified senders can be the default');
+    }
+    return EmailSenderIdentityModel.setDefault(id, userId);
+  }
+
+  static async deleteIdentity(userId: string, id: string): Promise<boolean> {
+    return EmailSenderIdentityModel.delete(id, userId);
+  }
+
+  /**
+   * Mail a verification link through the identity itself
+   * Receiving it proves the user owns the address and that the transport delivers.
+   */
+  static async sendVerification(identity: EmailSenderIdentity): Promise<void> {
+    const token = crypto.randomBytes(24).toString('hex');
+    await EmailSenderIdentityModel.setVerificationToken(identity.id, token);
+
+    const baseUrl = process.env.BACKEND_URL || process.env.API_BASE_URL || 'http://localhost:3000';
+    const link = `${baseUrl}/api/email-senders/verify/${token}`;
+    const address = identity.provider === 'zeptomail' ? identity.reply_to || identity.from_email : identity.from_email;
+
+    const result = await getEmailProvider(identity.provider).send(identity, {
+      to: { address },
+      subject: 'Verify your sending address',
+      html: `<p>Confirm that emails may be sent from <strong>${address}</strong> via ${identity.provider}:</p>
+<p><a href="${link}">Verify sending address</a></p>
+<p>The link expires in 3 days. If you did not add this address, ignore this email.</p>`,
+      text: `Confirm that emails may be sent from ${address} via ${identity.provider}: ${link}\n\nThe link expires in 3 days.`
+    });
+
+    if (!result.success) {
+      await EmailSenderIdentityModel.setVerificationStatus(identity.id, 'failed', result.error || 'Verification email failed');
+      throw new Error(result.error || 'Failed to send the verification email');
+    }
+  }
+
+  /**
+   * Mail a new verification link for an unverified identity
+   * @returns false if the identity does not exist
+   */
+  static async resendVerification(userId: string, id: string): Promise<boolean> {
+    const identity = await EmailSenderIdentityModel.findById(id, userId);
+    if (!identity) {
+      return false;
+    }
+    if (identity.verification_status === 'verified') {
+      throw new Error('Sender is already verified');
+    }
+
+    await this.sendVerification(identity);
+    return true;
+  }
+
+  /**
+   * Verify an identity from its emailed link
+   * @returns the identity, or null if the token is unknown or expired
+   */
+  static async verifyToken(token: string): Promise<EmailSenderIdentity | null> {
+    const identity = await EmailSenderIdentityModel.findByVerificationToken(token);
+    if (!identity || !identity.verification_sent_at) {
+      return null;
+    }
+    if (Date.now() - new Date(identity.verification_sent_at).getTime() > VERIFICATION_TTL_MS) {
+      return null;
+    }
+
+    const verified = await EmailSenderIdentityModel.setVerificationStatus(identity.id, 'verified');
+    if (verified && !(await EmailSenderIdentityModel.findDefault(verified.user_id))) {
+      return EmailSenderIdentityModel.setDefault(verified.id, verified.user_id);
+    }
+    return verified;
+  }
+
+  /**
+   * Check an identity's connection and its usage against its limits
+   */
+  static async testIdentity(userId: string, id: string): Promise<{
+    ok: boolean;
+    error?: string;
+    limits: EmailSendLimits;
+    usage: { lastHour: number; lastDay: number };
+  } | null> {
+    const identity = await EmailSenderIdentityModel.findById(id, userId);
+    if (!identity) {
+      return null;
+    }
+
+    const limits = this.getLimits(identity);
+    const usage = await EmailSenderIdentityModel.getUsage(identity.id);
+    try {
+      await getEmailProvider(identity.provider).verifyConnection(identity);
+      return { ok: true, limits, usage };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Connection failed', limits, usage };
+    }
+  }
+
+  static toPublic(identity: EmailSenderIdentity): PublicEmailSenderIdentity {
+    const publicIdentity: Partial<EmailSenderIdentity> = { ...identity };
+    delete publicIdentity.smtp_password_encrypted;
+    delete publicIdentity.verification_token;
+    return publicIdentity as PublicEmailSenderIdentity;
+  }
+
+  /**
+   * Gmail identity for the connected Google account (created on first use)
+   */
+  private static async getGmailIdentity(userId: string): Promise<EmailSenderIdentity> {
+    const status = await gmailService.getGmailStatus(userId);
+    if (!status.connected || !status.hasGmailScope || !status.email) {
+      throw new EmailSenderNotReadyError(
+        status.connected
+          ? status.message
+          : 'No email sender is set up. Connect Gmail or add an SMTP or ZeptoMail sender in Settings > Integrations.'
+      );
+    }
+
+    const existing = await EmailSenderIdentityModel.findByAddress(userId, 'gmail', status.email);
+    if (existing) {
+      return existing;
+    }
+
+    const user = await pool.query('SELECT name FROM users WHERE id = $1', [userId]);
+    return EmailSenderIdentityModel.create(
+      userId,
+      'gmail',
+      status.email.toLowerCase(),
+      { from_name: user.rows[0]?.name || null },
+      'verified'
+    );
+  }
+
+  /**
+   * Validate user input into model columns (encrypts the SMTP password)
+   */
+  private static validateColumns(input: UpdateSenderIdentityInput): SenderIdentityColumns {
+    const columns: SenderIdentityColumns = {};
+
+    if (input.from_name !== undefined) columns.from_name = input.from_name?.trim() || null;
+
+    if (input.reply_to !== undefined) {
+      const replyTo = SuppressionService.normalizeEmail(input.reply_to);
+      if (input.reply_to && !replyTo) {
+        throw new Error('reply_to must be a valid email address');
+      }
+      columns.reply_to = replyTo;
+    }
+
+    for (const limit of ['hourly_limit', 'daily_limit'] as const) {
+      const value = input[limit];
+      if (value === undefined) continue;
+      if (value !== null && (!Number.isInteger(Number(value)) || Number(value) <= 0)) {
+        throw new Error(`${limit} must be a positive whole number`);
+      }
+      columns[limit] = value === null ? null : Number(value);
+    }
+
+    if (input.smtp_host !== undefined) columns.smtp_host = input.smtp_host?.trim() || null;
+    if (input.smtp_port !== undefined) {
+      const port = Number(input.smtp_port);
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error('smtp_port must be a valid port number');
+      }
+      columns.smtp_port = port;
+    }
+    if (input.smtp_secure !== undefined) columns.smtp_secure = !!input.smtp_secure;
+    if (input.smtp_username !== undefined) columns.smtp_username = input.smtp_username?.trim() || null;
+    if (input.smtp_password !== undefined) {
+      columns.smtp_password_encrypted = input.smtp_password ? Encryption.encryptSecret(input.smtp_password) : null;
+    }
+
+    return columns;
+  }
+
+  /**
+   * Unsaved identity used to check a connection before it is stored
+   */
+  private static draftIdentity(
+    userId: string,
+    provider: EmailSenderIdentity['provider'],
+    fromEmail: string,
+    columns: SenderIdentityColumns
+  ): EmailSenderIdentity {
+    return {
+      id: `draft:${crypto.randomUUID()}`,
+      user_id: userId,
+      provider,
+      from_email: fromEmail,
+      from_name: columns.from_name ?? null,
+      reply_to: columns.reply_to ?? null,
+      is_default: false,
+      smtp_host: columns.smtp_host ?? null,
+      smtp_port: columns.smtp_port ?? null,
+      smtp_secure: columns.smtp_secure ?? false,
+      smtp_username: columns.smtp_username ?? null,
+      smtp_password_encrypted: columns.smtp_password_encrypted ?? null,
+      verification_status: 'pending',
+      verification_token: null,
+      verification_sent_at: null,
+      verified_at: null,
+      last_error: null,
+      hourly_limit: columns.hourly_limit ?? null,
+      daily_limit: columns.daily_limit ?? null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+  }
+}
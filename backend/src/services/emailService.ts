@@ -25,6 +25,10 @@ interface PasswordResetEmailData {
   resetUrl: string;
 }
 
+// User-provided text embedded in HTML emails
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 class EmailService {
   /**
    * Send email using ZeptoMail API
@@ -508,6 +512,77 @@ Campaign Summary: ${campaignName}\n\nContacts: ${stats.totalContacts}\nCompleted
     });
   }
 
+  /**
+   * Send a scheduled report with the export attached (one email per recipient)
+   * @returns number of recipients the email was sent to
+   */
+  async sendScheduledReportEmail(params: {
+    recipients: string[];
+    reportName: string;
+    description?: string | null;
+    rowCount: number;
+    truncated: boolean;
+    attachment: { filename: string; content: Buffer; contentType: string };
+  }): Promise<number> {
+    const { recipients, reportName, description, rowCount, truncated, attachment } = params;
+    const generatedAt = new Date().toUTCString();
+    const safeName = escapeHtml(reportName);
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${safeName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 680px; margin: 0 auto; padding: 20px; }
+          .header { background: #3b82f6; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9f9f9; }
+          .footer { padding: 20px; text-align: center; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📈 ${safeName}</h1>
+          </div>
+          <div class="content">
+            ${description ? `<p>${escapeHtml(description)}</p>` : ''}
+            <p>Your scheduled report is attached (${rowCount} rows, generated ${generatedAt}).</p>
+            ${truncated ? '<p><strong>Note:</strong> the report hit its row limit; narrow the filters or raise the limit to see everything.</p>' : ''}
+          </div>
+          <div class="footer">
+            <p>© 2024 AI Calling Agent Platform. All rights reserved.</p>
+            <p>You receive this email because this address is a recipient of a scheduled report.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+${reportName}\n\n${description ? `${description}\n\n` : ''}Your scheduled report is attached (${rowCount} rows, generated ${generatedAt}).${truncated ? '\nNote: the report hit its row limit.' : ''}
+    `;
+
+    let sent = 0;
+    for (const to of recipients) {
+      const success = await this.sendEmail({
+        to,
+        subject: `📈 Scheduled report — ${reportName}`,
+        html,
+        text,
+        attachments: [attachment]
+      });
+      if (success) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
   /**
    * Send meeting booked notification to dashboard user
    * Full context including transcript, recording, AI analysis
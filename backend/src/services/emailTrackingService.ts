@@ -12,12 +12,16 @@
 import { pool } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
+import { AbWinnerMetric, VariantPerformance, variantRate } from '../utils/emailCampaignOptimization';
 import crypto from 'crypto';
 
 // 1x1 transparent PNG pixel (base64 encoded)
 const TRANSPARENT_PIXEL_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
 const TRANSPARENT_PIXEL = Buffer.from(TRANSPARENT_PIXEL_BASE64, 'base64');
 
+// Opens considered when working out the hour a contact usually reads email
+const OPEN_HISTORY_DAYS = 180;
+
 interface TrackingEventData {
   emailId: string;
   eventType: 'open' | 'click';
@@ -158,7 +162,7 @@ class EmailTrackingService {
       
       // Check if emailId is a tracking_id or actual email id
       emailResult = await pool.query(
-        `SELECT e.id, e.user_id, e.campaign_id, e.contact_id
+        `SELECT e.id, e.user_id, e.campaign_id, e.contact_id, e.subject
          FROM emails e
          WHERE e.tracking_id = $1 OR e.id::text = $1
          LIMIT 1`,
@@ -199,6 +203,19 @@ class EmailTrackingService {
         ipAddress: data.ipAddress
       });
 
+      // Trigger email_opened / email_clicked auto engagement flows (non-blocking)
+      if (email.contact_id) {
+        const { AutoEngagementTriggerService } = await import('./autoEngagementTriggerService');
+        AutoEngagementTriggerService.onEmailEngagement(email.contact_id, email.user_id, data.eventType, {
+          email_id: email.id,
+          campaign_id: email.campaign_id,
+          subject: email.subject,
+          clicked_url: data.clickedUrl || null
+        }).catch(error => {
+          logger.error('Failed to trigger email engagement flows:', error);
+        });
+      }
+
       return true;
     } catch (error) {
       logger.error('Failed to record tracking event:', error);
@@ -316,13 +333,28 @@ class EmailTrackingService {
     openRate: number;
     clickRate: number;
     clickToOpenRate: number;
+    abTest: {
+      status: 'testing' | 'winner_selected';
+      winnerMetric: AbWinnerMetric;
+      testPercentage: number;
+      testEndsAt: Date | null;
+      winnerVariantId: string | null;
+      winnerSelectedAt: Date | null;
+      variants: Array<VariantPerformance & { openRate: number; clickRate: number; isWinner: boolean }>;
+    } | null;
   }> {
     const result = await pool.query(
       `SELECT 
         total_contacts,
         completed_emails as sent_emails,
         opened_emails,
-        clicked_emails
+        clicked_emails,
+        ab_test_enabled,
+        ab_test_percentage,
+        ab_winner_metric,
+        ab_test_ends_at,
+        ab_winner_variant_id,
+        ab_winner_selected_at
        FROM email_campaigns
        WHERE id = $1 AND user_id = $2`,
       [campaignId, userId]
@@ -337,6 +369,25 @@ class EmailTrackingService {
     const opened = campaign.opened_emails || 0;
     const clicked = campaign.clicked_emails || 0;
 
+    let abTest = null;
+    if (campaign.ab_test_enabled) {
+      const variants = await this.getVariantPerformance(campaignId);
+      abTest = {
+        status: campaign.ab_winner_variant_id ? 'winner_selected' as const : 'testing' as const,
+        winnerMetric: campaign.ab_winner_metric,
+        testPercentage: campaign.ab_test_percentage,
+        testEndsAt: campaign.ab_test_ends_at,
+        winnerVariantId: campaign.ab_winner_variant_id,
+        winnerSelectedAt: campaign.ab_winner_selected_at,
+        variants: variants.map(variant => ({
+          ...variant,
+          openRate: variantRate(variant, 'open_rate') * 100,
+          clickRate: variantRate(variant, 'click_rate') * 100,
+          isWinner: variant.variantId === campaign.ab_winner_variant_id
+        }))
+      };
+    }
+
     return {
       totalEmails: campaign.total_contacts,
       sentEmails: sent,
@@ -344,9 +395,73 @@ class EmailTrackingService {
       clickedEmails: clicked,
       openRate: sent > 0 ? (opened / sent) * 100 : 0,
       clickRate: sent > 0 ? (clicked / sent) * 100 : 0,
-      clickToOpenRate: opened > 0 ? (clicked / opened) * 100 : 0
+      clickToOpenRate: opened > 0 ? (clicked / opened) * 100 : 0,
+      abTest
     };
   }
+
+  /**
+   * Sends, opens and clicks per A/B test variant of a campaign
+   */
+  async getVariantPerformance(campaignId: string): Promise<VariantPerformance[]> {
+    const result = await pool.query(
+      `SELECT
+        v.id AS variant_id,
+        v.variant_key,
+        COUNT(e.id)::int AS sent,
+        COUNT(e.first_opened_at)::int AS opened,
+        COUNT(e.first_clicked_at)::int AS clicked
+       FROM email_campaign_variants v
+       LEFT JOIN emails e ON e.variant_id = v.id AND e.campaign_id = v.campaign_id
+       WHERE v.campaign_id = $1
+       GROUP BY v.id, v.variant_key
+       ORDER BY v.variant_key`,
+      [campaignId]
+    );
+
+    return result.rows.map((row: any) => ({
+      variantId: row.variant_id,
+      variantKey: row.variant_key,
+      sent: row.sent,
+      opened: row.opened,
+      clicked: row.clicked
+    }));
+  }
+
+  /**
+   * UTC hour at which each contact has opened the most emails recently
+   * Contacts without opens are left out; ties go to the hour of the latest open.
+   */
+  async getUsualOpenHours(userId: string, contactIds: string[]): Promise<Map<string, number>> {
+    const hours = new Map<string, number>();
+    if (contactIds.length === 0) {
+      return hours;
+    }
+
+    const result = await pool.query(
+      `SELECT DISTINCT ON (contact_id) contact_id, open_hour
+       FROM (
+         SELECT e.contact_id,
+                EXTRACT(HOUR FROM ev.occurred_at AT TIME ZONE 'UTC')::int AS open_hour,
+                COUNT(DISTINCT ev.email_id) AS opens,
+                MAX(ev.occurred_at) AS last_open
+         FROM email_tracking_events ev
+         JOIN emails e ON e.id = ev.email_id
+         WHERE ev.user_id = $1
+           AND ev.event_type = 'open'
+           AND e.contact_id = ANY($2::uuid[])
+           AND ev.occurred_at > NOW() - ($3 || ' days')::interval
+         GROUP BY e.contact_id, open_hour
+       ) hourly
+       ORDER BY contact_id, opens DESC, last_open DESC`,
+      [userId, contactIds, OPEN_HISTORY_DAYS]
+    );
+
+    for (const row of result.rows) {
+      hours.set(row.contact_id, row.open_hour);
+    }
+    return hours;
+  }
 }
 
 // Export singleton instance
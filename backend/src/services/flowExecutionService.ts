@@ -1,19 +1,49 @@
 import { logger } from '../utils/logger';
 import { pool } from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
 import axios from 'axios';
-import { gmailService } from './gmailService';
+import { EmailSendingService } from './emailSendingService';
 import { FlowExecutionModel, FlowActionLogModel } from '../models/FlowExecution';
+import { AutoEngagementFlowModel } from '../models/AutoEngagementFlow';
 import {
   FlowWithDetails,
   FlowAction,
+  FlowExecution,
+  CallOutcome,
+  TriggerEvent,
   AICallActionConfig,
   WhatsAppActionConfig,
   EmailActionConfig,
-  WaitActionConfig
+  WaitActionConfig,
+  UpdateLeadStageActionConfig,
+  UpdateTagsActionConfig,
+  AssignTeamMemberActionConfig,
+  WebhookActionConfig
 } from '../types/autoEngagement';
-import { ContactInterface } from '../models/Contact';
+import ContactModel, { ContactInterface } from '../models/Contact';
+import TeamMemberModel from '../models/TeamMember';
+import LeadIntelligenceEventModel from '../models/LeadIntelligenceEvent';
+import { TeamMemberNotificationModel } from '../models/TeamMemberNotification';
+import { LeadStageService } from './leadStageService';
 import { CallService } from './callService';
+import { SuppressionService, SuppressedRecipientError } from './suppressionService';
+import { getNextTimeWindowStart } from '../utils/timezoneUtils';
+import { assertOutboundUrl, outboundHttpAgent, outboundHttpsAgent } from '../utils/outboundUrl';
+
+// Longest supported wait step (90 days)
+const MAX_WAIT_DURATION_MINUTES = 90 * 24 * 60;
+
+// How long an execution waits for the call webhook before treating the call as missed
+const CALL_OUTCOME_TIMEOUT_MINUTES = 3 * 60;
+
+// Webhook action request timeout
+const WEBHOOK_TIMEOUT_MS = 15000;
+
+// Default in-app notification for assign_team_member actions
+const DEFAULT_ASSIGNMENT_MESSAGE = 'New lead assigned to you: {{name}} ({{phone_number}})';
+
+type ActionsRunResult = 'completed' | 'waiting';
 
 /**
  * FlowExecutionService
@@ -27,7 +57,8 @@ export class FlowExecutionService {
     flow: FlowWithDetails,
     contact: ContactInterface,
     userId: string,
-    isTestRun: boolean = false
+    isTestRun: boolean = false,
+    trigger: TriggerEvent = { type: 'contact_created' }
   ): Promise<string> {
     try {
       // Create execution record
@@ -37,7 +68,8 @@ export class FlowExecutionService {
         userId,
         {
           flow_name: flow.name,
-          trigger_source: 'contact_creation',
+          trigger_source: trigger.type,
+          trigger_data: trigger.data || {},
           contact_phone: contact.phone_number,
           contact_name: contact.name
         },
@@ -50,65 +82,186 @@ export class FlowExecutionService {
         flowName: flow.name,
         contactId: contact.id,
         contactName: contact.name,
+        triggerSource: trigger.type,
         isTestRun
       });
 
-      // Execute actions sequentially
-      try {
-        await this.executeActions(execution.id, flow, contact, userId, isTestRun);
+      await this.runExecution(execution.id, flow, contact, userId, isTestRun);
+
+      return execution.id;
+    } catch (error) {
+      logger.error('[FlowExecutionService] Error creating flow execution', {
+        error: error instanceof Error ? error.message : error,
+        flowId: flow.id,
+        contactId: contact.id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resume executions that were waiting for the outcome of a call
+   * Called from the call webhooks once the call has been answered, missed or failed.
+   * Returns the number of executions resumed.
+   */
+  static async resumeAfterCall(
+    callId: string,
+    outcome: CallOutcome,
+    details: Record<string, any> = {}
+  ): Promise<number> {
+    const executions = await FlowExecutionModel.claimByAwaitingCall(callId);
+
+    for (const execution of executions) {
+      await this.resumeExecution(execution, {
+        ...details,
+        call_outcome: outcome,
+        outcome_received_at: new Date().toISOString()
+      });
+    }
 
-        // Mark execution as completed
-        await FlowExecutionModel.updateStatus(execution.id, 'completed');
+    return executions.length;
+  }
 
-        logger.info('[FlowExecutionService] Flow execution completed successfully', {
+  /**
+   * Resume an execution that was suspended by a wait or AI call action
+   * Called once the execution has been claimed (status 'running'), either by the
+   * flow scheduler or by resumeAfterCall. callResult carries the resolved call
+   * outcome and is merged into the AI call's result for the next conditions.
+   */
+  static async resumeExecution(
+    execution: FlowExecution,
+    callResult: Record<string, any> | null = null
+  ): Promise<void> {
+    try {
+      if (!callResult && execution.awaiting_call_id) {
+        // The scheduler picked this up because no call webhook arrived in time
+        logger.warn('[FlowExecutionService] Timed out waiting for call outcome, treating call as missed', {
           executionId: execution.id,
-          flowId: flow.id
+          callId: execution.awaiting_call_id
         });
-      } catch (error) {
-        // Mark execution as failed
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        await FlowExecutionModel.updateStatus(execution.id, 'failed', errorMessage);
+        callResult = { call_outcome: 'missed', outcome_timed_out: true };
+      }
 
-        logger.error('[FlowExecutionService] Flow execution failed', {
-          executionId: execution.id,
-          flowId: flow.id,
-          error: errorMessage
+      await FlowActionLogModel.completeWaiting(execution.id, callResult || {});
+
+      const flow = await AutoEngagementFlowModel.findByIdWithDetails(execution.flow_id, execution.user_id);
+      if (!flow) {
+        await FlowExecutionModel.updateStatus(execution.id, 'failed', 'Flow no longer exists');
+        return;
+      }
+
+      const contact = await ContactModel.findById(execution.contact_id);
+      if (!contact || contact.user_id !== execution.user_id) {
+        await FlowExecutionModel.updateStatus(execution.id, 'failed', 'Contact no longer exists');
+        return;
+      }
+
+      logger.info('[FlowExecutionService] Resuming flow execution', {
+        executionId: execution.id,
+        flowId: flow.id,
+        contactId: contact.id,
+        resumeActionOrder: execution.resume_action_order,
+        callOutcome: callResult?.call_outcome
+      });
+
+      const lastActionResult = execution.metadata?.last_action_result || null;
+
+      await this.runExecution(
+        execution.id,
+        flow,
+        contact,
+        execution.user_id,
+        execution.is_test_run,
+        execution.resume_action_order || 1,
+        callResult ? { ...(lastActionResult || {}), ...callResult } : lastActionResult
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await FlowExecutionModel.updateStatus(execution.id, 'failed', errorMessage);
+
+      logger.error('[FlowExecutionService] Error resuming flow execution', {
+        executionId: execution.id,
+        error: errorMessage
+      });
+    }
+  }
+
+  /**
+   * Run actions from the given step and record the final execution status
+   */
+  private static async runExecution(
+    executionId: string,
+    flow: FlowWithDetails,
+    contact: ContactInterface,
+    userId: string,
+    isTestRun: boolean,
+    fromActionOrder: number = 1,
+    previousActionResult: any = null
+  ): Promise<void> {
+    try {
+      const outcome = await this.executeActions(
+        executionId,
+        flow,
+        contact,
+        userId,
+        isTestRun,
+        fromActionOrder,
+        previousActionResult
+      );
+
+      if (outcome === 'waiting') {
+        logger.info('[FlowExecutionService] Flow execution suspended', {
+          executionId,
+          flowId: flow.id
         });
+        return;
       }
 
-      return execution.id;
+      // Mark execution as completed
+      await FlowExecutionModel.updateStatus(executionId, 'completed');
+
+      logger.info('[FlowExecutionService] Flow execution completed successfully', {
+        executionId,
+        flowId: flow.id
+      });
     } catch (error) {
-      logger.error('[FlowExecutionService] Error creating flow execution', {
-        error: error instanceof Error ? error.message : error,
+      // Mark execution as failed
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await FlowExecutionModel.updateStatus(executionId, 'failed', errorMessage);
+
+      logger.error('[FlowExecutionService] Flow execution failed', {
+        executionId,
         flowId: flow.id,
-        contactId: contact.id
+        error: errorMessage
       });
-      throw error;
     }
   }
 
   /**
-   * Execute all actions in a flow sequentially
+   * Execute actions in a flow sequentially, starting at fromActionOrder
+   * Returns 'waiting' when a wait or AI call action suspended the execution.
    */
   private static async executeActions(
     executionId: string,
     flow: FlowWithDetails,
     contact: ContactInterface,
     userId: string,
-    isTestRun: boolean
-  ): Promise<void> {
+    isTestRun: boolean,
+    fromActionOrder: number = 1,
+    previousActionResult: any = null
+  ): Promise<ActionsRunResult> {
     if (!flow.actions || flow.actions.length === 0) {
       logger.warn('[FlowExecutionService] No actions to execute in flow', {
         executionId,
         flowId: flow.id
       });
-      return;
+      return 'completed';
     }
 
-    // Sort actions by order
-    const sortedActions = [...flow.actions].sort((a, b) => a.action_order - b.action_order);
-
-    let previousActionResult: any = null;
+    // Sort actions by order and skip the ones that already ran before a wait
+    const sortedActions = [...flow.actions]
+      .sort((a, b) => a.action_order - b.action_order)
+      .filter(action => action.action_order >= fromActionOrder);
 
     for (const action of sortedActions) {
       // Update current action step
@@ -152,11 +305,61 @@ export class FlowExecutionService {
         // Execute the action
         const result = await this.executeAction(
           action,
+          flow,
           contact,
           userId,
-          isTestRun
+          isTestRun,
+          executionId
         );
 
+        const nextAction = sortedActions.find(a => a.action_order > action.action_order);
+        const resumeActionOrder = nextAction ? nextAction.action_order : action.action_order + 1;
+
+        // Wait actions suspend the execution; the scheduler resumes it at resume_at
+        if (action.action_type === 'wait' && result?.resume_at) {
+          const resumeAt = new Date(result.resume_at);
+
+          await FlowActionLogModel.markAsWaiting(actionLog.id, resumeAt, result);
+          await FlowExecutionModel.scheduleResume(
+            executionId,
+            resumeActionOrder,
+            resumeAt,
+            previousActionResult
+          );
+
+          logger.info('[FlowExecutionService] Wait action scheduled', {
+            executionId,
+            actionId: action.id,
+            resumeAt: resumeAt.toISOString()
+          });
+
+          return 'waiting';
+        }
+
+        // AI calls suspend the execution until the call webhook reports the outcome,
+        // so the next action's condition sees answered/missed/failed and the lead score
+        if (action.action_type === 'ai_call' && result?.call_id && !isTestRun) {
+          const timeoutAt = new Date(Date.now() + CALL_OUTCOME_TIMEOUT_MINUTES * 60 * 1000);
+
+          await FlowActionLogModel.markAsWaiting(actionLog.id, timeoutAt, result);
+          await FlowExecutionModel.scheduleResume(
+            executionId,
+            resumeActionOrder,
+            timeoutAt,
+            result,
+            result.call_id
+          );
+
+          logger.info('[FlowExecutionService] Waiting for call outcome', {
+            executionId,
+            actionId: action.id,
+            callId: result.call_id,
+            timeoutAt: timeoutAt.toISOString()
+          });
+
+          return 'waiting';
+        }
+
         // Update action log with success
         await FlowActionLogModel.updateStatus(
           actionLog.id,
@@ -174,6 +377,21 @@ export class FlowExecutionService {
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+        // Suppressed recipients skip the action instead of failing it
+        if (error instanceof SuppressedRecipientError) {
+          await FlowActionLogModel.updateStatus(actionLog.id, 'skipped', null, null, errorMessage);
+
+          logger.info('[FlowExecutionService] Action skipped, recipient is suppressed', {
+            executionId,
+            actionId: action.id,
+            actionType: action.action_type,
+            reason: error.reason
+          });
+
+          previousActionResult = { skipped: true, suppressed: true, reason: error.reason };
+          continue;
+        }
+
         // Update action log with failure
         await FlowActionLogModel.updateStatus(
           actionLog.id,
@@ -193,6 +411,8 @@ export class FlowExecutionService {
         previousActionResult = { error: errorMessage };
       }
     }
+
+    return 'completed';
   }
 
   /**
@@ -203,6 +423,9 @@ export class FlowExecutionService {
    * - condition_value "missed" means: Execute this action ONLY if call was NOT answered (fallback action)
    * - condition_value "failed" means: Execute this action ONLY if call failed (error handling)
    * 
+   * lead_score conditions execute the action only if the previous call's lead
+   * analytics total score is at least condition_value.
+   * 
    * Example flow:
    * 1. AI Call action (no condition)
    * 2. WhatsApp action (condition: "missed") -> Only executes if call was missed
@@ -239,6 +462,11 @@ export class FlowExecutionService {
         return { execute: true };
       }
 
+      // If we expect "voicemail" and call reached voicemail, DO execute
+      if (expectedOutcome === 'voicemail' && actualOutcome === 'voicemail') {
+        return { execute: true };
+      }
+
       // If we expect "failed" and call DID fail, DO execute (error handling)
       if (expectedOutcome === 'failed' && actualOutcome === 'failed') {
         return { execute: true };
@@ -247,6 +475,25 @@ export class FlowExecutionService {
       return { execute: false, reason: `Call outcome (${actualOutcome}) doesn't match condition (${expectedOutcome})` };
     }
 
+    if (action.condition_type === 'lead_score') {
+      const minScore = Number(action.condition_value);
+      const score = previousActionResult?.lead_score;
+
+      if (score === undefined || score === null) {
+        return { execute: false, reason: 'No lead score available for lead_score condition' };
+      }
+
+      if (!Number.isFinite(minScore)) {
+        return { execute: false, reason: `Invalid lead score threshold (${action.condition_value})` };
+      }
+
+      if (Number(score) >= minScore) {
+        return { execute: true };
+      }
+
+      return { execute: false, reason: `Lead score (${score}) is below ${minScore}` };
+    }
+
     if (action.condition_type === 'previous_action_status') {
       if (!previousActionResult) {
         return { execute: true }; // No previous action, execute anyway
@@ -270,9 +517,11 @@ export class FlowExecutionService {
    */
   private static async executeAction(
     action: FlowAction,
+    flow: FlowWithDetails,
     contact: ContactInterface,
     userId: string,
-    isTestRun: boolean
+    isTestRun: boolean,
+    executionId: string
   ): Promise<any> {
     if (isTestRun) {
       // In test mode, just simulate the action
@@ -291,7 +540,21 @@ export class FlowExecutionService {
       case 'email':
         return await this.executeEmailAction(action.action_config as EmailActionConfig, contact, userId);
       case 'wait':
-        return await this.executeWaitAction(action.action_config as WaitActionConfig);
+        return await this.executeWaitAction(action.action_config as WaitActionConfig, flow);
+      case 'update_lead_stage':
+        return await this.executeUpdateLeadStageAction(action.action_config as UpdateLeadStageActionConfig, contact, userId);
+      case 'update_tags':
+        return await this.executeUpdateTagsAction(action.action_config as UpdateTagsActionConfig, contact, userId);
+      case 'assign_team_member':
+        return await this.executeAssignTeamMemberAction(
+          action.action_config as AssignTeamMemberActionConfig,
+          flow,
+          contact,
+          userId,
+          executionId
+        );
+      case 'webhook':
+        return await this.executeWebhookAction(action.action_config as WebhookActionConfig, flow, contact, executionId);
       default:
         throw new Error(`Unknown action type: ${action.action_type}`);
     }
@@ -315,12 +578,13 @@ export class FlowExecutionService {
       });
 
       // Call Bolna directly for immediate execution
+      // respect_dnc: false is for transactional calls and skips the do-not-call list check
       const callResult = await CallService.initiateCall({
         userId: userId,
         contactId: contact.id,
         agentId: config.agent_id,
         phoneNumber: contact.phone_number,
-        metadata: { source: 'auto_engagement_flow' }
+        metadata: { source: 'auto_engagement_flow', respect_dnc: config.respect_dnc !== false }
       });
 
       logger.info('[FlowExecutionService] Call initiated successfully', {
@@ -333,7 +597,7 @@ export class FlowExecutionService {
         call_initiated: true,
         call_id: callResult.callId,
         execution_id: callResult.executionId,
-        call_outcome: 'initiated', // Will be updated by webhook
+        call_outcome: 'initiated', // Replaced with the real outcome when the call webhook arrives
         agent_id: config.agent_id
       };
     } catch (error) {
@@ -366,6 +630,13 @@ export class FlowExecutionService {
         throw new Error('Contact does not have a phone number');
       }
 
+      await SuppressionService.assertNotSuppressed(
+        userId,
+        { phoneNumber: contact.phone_number, contactId: contact.id },
+        'whatsapp',
+        { source: 'auto_engagement_flow', template_id: config.template_id }
+      );
+
       // Check if Chat Agent Server is configured
       const chatAgentServerUrl = process.env.CHAT_AGENT_SERVER_URL;
       if (!chatAgentServerUrl) {
@@ -458,6 +729,13 @@ export class FlowExecutionService {
         throw new Error('Contact has no email address');
       }
 
+      await SuppressionService.assertNotSuppressed(
+        userId,
+        { email: contact.email, contactId: contact.id },
+        'email',
+        { source: 'auto_engagement_flow', email_template_id: config.email_template_id }
+      );
+
       // Import pool for email record creation
       // uuid imported at top of file
 
@@ -497,22 +775,11 @@ export class FlowExecutionService {
         bodyText = bodyText.replace(regex, () => value);
       }
 
-      // Check Gmail connection
-      const gmailStatus = await gmailService.getGmailStatus(userId);
-      if (!gmailStatus.connected || !gmailStatus.hasGmailScope) {
-        throw new Error('Gmail is not connected. Please connect Gmail in Settings > Integrations.');
-      }
-
-      // Verify Gmail email address is available
-      if (!gmailStatus.email) {
-        throw new Error('Gmail email address not available. Please reconnect Gmail in Settings > Integrations.');
-      }
-
-      // Send email via Gmail with correct parameter format
+      // Send email through the user's default sender
       // Compute the effective text body (what will actually be sent)
       const effectiveTextBody = bodyText || bodyHtml.replace(/<[^>]*>/g, ''); // Strip HTML for text version
 
-      const result = await gmailService.sendEmail(userId, {
+      const result = await EmailSendingService.send(userId, {
         to: {
           address: contact.email,
           name: contact.name || undefined
@@ -520,13 +787,12 @@ export class FlowExecutionService {
         subject: subject,
         htmlBody: bodyHtml,
         textBody: effectiveTextBody,
-        fromEmail: gmailStatus.email,
         fromName: config.from_name
       });
 
       // Check if email send was successful
       if (!result.success) {
-        throw new Error(result.error || 'Failed to send email via Gmail');
+        throw new Error(result.error || `Failed to send email via ${result.identity.provider}`);
       }
 
       // Create email record in database with the exact text body that was sent
@@ -534,13 +800,14 @@ export class FlowExecutionService {
       await pool.query(
         `INSERT INTO emails (
           id, user_id, contact_id, from_email, from_name, to_email, to_name,
-          subject, body_html, body_text, status, sent_at, external_message_id
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), $12)`,
+          subject, body_html, body_text, status, sent_at, external_message_id,
+          tracking_id, sender_identity_id, provider
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), $12, $13, $14, $15)`,
         [
           emailId,
           userId,
           contact.id,
-          gmailStatus.email, // Already verified to exist above
+          result.fromEmail,
           config.from_name || 'Auto Engagement',
           contact.email,
           contact.name,
@@ -548,7 +815,10 @@ export class FlowExecutionService {
           bodyHtml,
           effectiveTextBody, // Use the same text body that was sent
           'sent',
-          result.messageId
+          result.messageId,
+          result.trackingId || null,
+          result.identity.id,
+          result.identity.provider
         ]
       );
 
@@ -577,66 +847,318 @@ export class FlowExecutionService {
   }
 
   /**
-   * Execute wait action
-   * Schedules the flow to continue after a specified delay
-   * 
-   * ⚠️ IMPLEMENTATION NOTE:
-   * This uses in-memory setTimeout which has limitations:
-   * - Ties up the execution worker/slot for the full duration
-   * - Lost on process restart or crash
-   * - Not suitable for very long delays beyond the configured maximum (currently 24 hours)
-   * 
-   * For production at scale, consider:
-   * - Persisting scheduled state to database
-   * - Using job queue (Bull/BullMQ) for reliable scheduling
-   * - Enforcing maximum duration limits
-   * 
-   * ⚠️ wait_until_business_hours flag is logged but not currently implemented.
-   * Future enhancement should add business hours scheduling logic.
+   * Execute update lead stage action
+   * Goes through LeadStageService so stage change flows are triggered as for manual updates.
    */
-  private static async executeWaitAction(config: WaitActionConfig): Promise<any> {
+  private static async executeUpdateLeadStageAction(
+    config: UpdateLeadStageActionConfig,
+    contact: ContactInterface,
+    userId: string
+  ): Promise<any> {
     try {
-      logger.info('[FlowExecutionService] Executing wait action', {
-        durationMinutes: config.duration_minutes,
-        waitUntilBusinessHours: config.wait_until_business_hours
+      logger.info('[FlowExecutionService] Executing update lead stage action', {
+        contactId: contact.id,
+        stage: config.stage
       });
 
-      // Note: wait_until_business_hours is currently not implemented
-      // The action will always wait for the specified duration regardless of business hours
-      if (config.wait_until_business_hours) {
-        logger.warn('[FlowExecutionService] wait_until_business_hours flag is set but not implemented');
+      const previousStage = contact.lead_stage || null;
+      // Stage changes made by a flow don't start lead_stage_changed flows (flows could trigger each other forever)
+      await LeadStageService.bulkUpdateLeadStage(userId, [contact.id], config.stage, { triggerFlows: false });
+      contact.lead_stage = config.stage;
+
+      return {
+        stage_updated: true,
+        status: 'success',
+        previous_stage: previousStage,
+        new_stage: config.stage
+      };
+    } catch (error) {
+      logger.error('[FlowExecutionService] Error executing update lead stage action', {
+        error: error instanceof Error ? error.message : error,
+        contactId: contact.id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute update tags action
+   * Adds and removes contact tags in one statement, keeping the existing tag order.
+   */
+  private static async executeUpdateTagsAction(
+    config: UpdateTagsActionConfig,
+    contact: ContactInterface,
+    userId: string
+  ): Promise<any> {
+    try {
+      const addTags = (config.add_tags || []).map(tag => tag.trim()).filter(Boolean);
+      const removeTags = (config.remove_tags || []).map(tag => tag.trim()).filter(Boolean);
+
+      logger.info('[FlowExecutionService] Executing update tags action', {
+        contactId: contact.id,
+        addTags,
+        removeTags
+      });
+
+      const result = await pool.query(
+        `UPDATE contacts
+         SET tags = ARRAY(
+               SELECT t
+               FROM unnest(array_cat(tags, $1::text[])) WITH ORDINALITY AS u(t, ord)
+               WHERE NOT (t = ANY($2::text[]))
+               GROUP BY t
+               ORDER BY MIN(ord)
+             ),
+             updated_at = NOW()
+         WHERE id = $3 AND user_id = $4
+         RETURNING tags`,
+        [addTags, removeTags, contact.id, userId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(`Contact not found: ${contact.id}`);
       }
 
-      // Validate duration_minutes to prevent extremely long waits
-      // Node.js setTimeout has a max of ~24.8 days (2^31-1 ms)
-      const MAX_DURATION_MINUTES = 1440; // 24 hours
-      if (!Number.isFinite(config.duration_minutes) || config.duration_minutes <= 0) {
-        throw new Error(`Invalid duration_minutes: ${config.duration_minutes}. Must be a positive finite number.`);
+      contact.tags = result.rows[0].tags;
+
+      return {
+        tags_updated: true,
+        status: 'success',
+        added_tags: addTags,
+        removed_tags: removeTags,
+        tags: contact.tags
+      };
+    } catch (error) {
+      logger.error('[FlowExecutionService] Error executing update tags action', {
+        error: error instanceof Error ? error.message : error,
+        contactId: contact.id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute assign team member action
+   * Assigns the contact's lead (lead intelligence record) to the team member,
+   * records the assignment on the lead timeline and notifies the team member in-app.
+   */
+  private static async executeAssignTeamMemberAction(
+    config: AssignTeamMemberActionConfig,
+    flow: FlowWithDetails,
+    contact: ContactInterface,
+    userId: string,
+    executionId: string
+  ): Promise<any> {
+    try {
+      logger.info('[FlowExecutionService] Executing assign team member action', {
+        contactId: contact.id,
+        teamMemberId: config.team_member_id
+      });
+
+      const teamMember = await TeamMemberModel.findById(config.team_member_id);
+      if (!teamMember || teamMember.tenant_user_id !== userId || !teamMember.is_active) {
+        throw new Error(`Team member not found or inactive: ${config.team_member_id}`);
+      }
+      if (teamMember.role === 'viewer') {
+        throw new Error(`Team member ${teamMember.name} is a viewer and cannot be assigned leads`);
       }
-      if (config.duration_minutes > MAX_DURATION_MINUTES) {
-        logger.warn('[FlowExecutionService] duration_minutes exceeds maximum', {
-          requested: config.duration_minutes,
-          max: MAX_DURATION_MINUTES
+
+      // Leads are grouped by phone number; assign the AI and human edited records
+      const assignResult = await pool.query(
+        `UPDATE lead_analytics
+         SET assigned_to_team_member_id = $1
+         WHERE user_id = $2
+           AND phone_number = $3
+           AND analysis_type IN ('complete', 'human_edit')
+         RETURNING id`,
+        [teamMember.id, userId, contact.phone_number]
+      );
+
+      await LeadIntelligenceEventModel.createAssignEvent({
+        tenant_user_id: userId,
+        phone_number: contact.phone_number,
+        lead_analytics_id: assignResult.rows[0]?.id,
+        actor_type: 'system',
+        actor_name: `Auto Engagement: ${flow.name}`,
+        assigned_to_name: teamMember.name
+      });
+
+      let notificationId: string | null = null;
+      if (config.notify !== false) {
+        const message = (config.message || DEFAULT_ASSIGNMENT_MESSAGE)
+          .replace(/{{name}}/g, () => contact.name || contact.phone_number)
+          .replace(/{{phone_number}}/g, () => contact.phone_number || '');
+
+        const notification = await TeamMemberNotificationModel.create({
+          tenantUserId: userId,
+          teamMemberId: teamMember.id,
+          contactId: contact.id,
+          notificationType: 'lead_assigned',
+          message,
+          notificationData: {
+            flow_id: flow.id,
+            flow_execution_id: executionId,
+            phone_number: contact.phone_number,
+            email: contact.email || null
+          }
         });
-        throw new Error(`duration_minutes (${config.duration_minutes}) exceeds maximum of ${MAX_DURATION_MINUTES} minutes (24 hours)`);
+        notificationId = notification.id;
+      }
+
+      return {
+        assigned: true,
+        status: 'success',
+        team_member_id: teamMember.id,
+        team_member_name: teamMember.name,
+        lead_records_updated: assignResult.rowCount || 0,
+        notification_id: notificationId
+      };
+    } catch (error) {
+      logger.error('[FlowExecutionService] Error executing assign team member action', {
+        error: error instanceof Error ? error.message : error,
+        contactId: contact.id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute webhook action
+   * POSTs the contact and flow as JSON. The receiver verifies the request with
+   * X-Webhook-Signature: sha256=HMAC-SHA256(secret, "<X-Webhook-Timestamp>.<body>").
+   */
+  private static async executeWebhookAction(
+    config: WebhookActionConfig,
+    flow: FlowWithDetails,
+    contact: ContactInterface,
+    executionId: string
+  ): Promise<any> {
+    try {
+      logger.info('[FlowExecutionService] Executing webhook action', {
+        contactId: contact.id,
+        url: config.url
+      });
+
+      // Flows saved before URLs were checked may still point at internal hosts
+      assertOutboundUrl(config.url);
+
+      const body = JSON.stringify({
+        event: 'auto_engagement.flow_action',
+        flow: { id: flow.id, name: flow.name },
+        execution_id: executionId,
+        contact: {
+          id: contact.id,
+          name: contact.name,
+          phone_number: contact.phone_number,
+          email: contact.email || null,
+          company: contact.company || null,
+          city: contact.city || null,
+          country: contact.country || null,
+          lead_stage: contact.lead_stage || null,
+          lead_source: contact.auto_creation_source || null,
+          tags: contact.tags || []
+        },
+        sent_at: new Date().toISOString()
+      });
+
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto
+        .createHmac('sha256', config.secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+
+      // The agents refuse hosts that resolve to loopback, private or link-local addresses;
+      // redirects are not followed so the target cannot be swapped for an internal one
+      const response = await axios.post(config.url, body, {
+        timeout: WEBHOOK_TIMEOUT_MS,
+        httpAgent: outboundHttpAgent,
+        httpsAgent: outboundHttpsAgent,
+        maxRedirects: 0,
+        proxy: false,
+        headers: {
+          ...(config.headers || {}),
+          'Content-Type': 'application/json',
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signature}`
+        },
+        validateStatus: () => true
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Webhook responded with HTTP ${response.status}`);
       }
 
-      // Simple in-memory delay - suitable for short waits only
-      const durationMs = config.duration_minutes * 60 * 1000;
+      logger.info('[FlowExecutionService] Webhook delivered successfully', {
+        contactId: contact.id,
+        url: config.url,
+        responseStatus: response.status
+      });
 
-      // Create a promise that resolves after the specified duration
-      await new Promise(resolve => setTimeout(resolve, durationMs));
+      return {
+        webhook_sent: true,
+        status: 'sent',
+        url: config.url,
+        response_status: response.status
+      };
+    } catch (error) {
+      logger.error('[FlowExecutionService] Error executing webhook action', {
+        error: error instanceof Error ? error.message : error,
+        contactId: contact.id,
+        url: config.url
+      });
+      throw error;
+    }
+  }
 
-      logger.info('[FlowExecutionService] Wait action completed', {
+  /**
+   * Execute wait action
+   * Computes when the flow should continue; the execution itself is persisted as
+   * 'waiting' and resumed by the flow scheduler, so waits survive restarts.
+   * When wait_until_business_hours is set, the resume time is pushed forward to the
+   * next opening of the flow's custom business hours.
+   */
+  private static async executeWaitAction(config: WaitActionConfig, flow: FlowWithDetails): Promise<any> {
+    try {
+      logger.info('[FlowExecutionService] Executing wait action', {
         durationMinutes: config.duration_minutes,
-        actualWaitMs: durationMs
+        waitUntilBusinessHours: config.wait_until_business_hours
       });
 
+      if (!Number.isFinite(config.duration_minutes) || config.duration_minutes <= 0) {
+        throw new Error(`Invalid duration_minutes: ${config.duration_minutes}. Must be a positive finite number.`);
+      }
+      if (config.duration_minutes > MAX_WAIT_DURATION_MINUTES) {
+        throw new Error(`duration_minutes (${config.duration_minutes}) exceeds maximum of ${MAX_WAIT_DURATION_MINUTES} minutes (90 days)`);
+      }
+
+      const waitEndsAt = new Date(Date.now() + config.duration_minutes * 60 * 1000);
+      let resumeAt = waitEndsAt;
+      let businessHoursAdjusted = false;
+
+      if (config.wait_until_business_hours) {
+        if (flow.use_custom_business_hours && flow.business_hours_start && flow.business_hours_end) {
+          resumeAt = getNextTimeWindowStart(
+            flow.business_hours_start,
+            flow.business_hours_end,
+            flow.business_hours_timezone || 'UTC',
+            waitEndsAt
+          );
+          businessHoursAdjusted = resumeAt.getTime() !== waitEndsAt.getTime();
+        } else {
+          logger.warn('[FlowExecutionService] wait_until_business_hours is set but flow has no custom business hours', {
+            flowId: flow.id
+          });
+        }
+      }
+
       return {
-        waited: true,
-        status: 'completed',
+        waiting: true,
+        status: 'waiting',
         duration_minutes: config.duration_minutes,
-        message: `Waited for ${config.duration_minutes} minutes`
+        wait_until_business_hours: !!config.wait_until_business_hours,
+        business_hours_adjusted: businessHoursAdjusted,
+        resume_at: resumeAt.toISOString(),
+        message: `Waiting until ${resumeAt.toISOString()}`
       };
     } catch (error) {
       logger.error('[FlowExecutionService] Error executing wait action', {
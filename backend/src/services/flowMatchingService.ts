@@ -1,34 +1,131 @@
+import { pool } from '../config/database';
 import { logger } from '../utils/logger';
 import { AutoEngagementFlowModel } from '../models/AutoEngagementFlow';
 import { FlowExecutionModel } from '../models/FlowExecution';
 import {
   FlowWithDetails,
+  FlowTriggerCondition,
+  ConditionType,
+  ConditionOperator,
+  TriggerEvent,
+  TriggerEventType,
   TriggerMatchResult
 } from '../types/autoEngagement';
 import { ContactInterface } from '../models/Contact';
 
+/**
+ * Event trigger condition types, the event they belong to and the event data
+ * field they are compared against
+ */
+const EVENT_TRIGGER_CONDITIONS: Partial<Record<ConditionType, { event: TriggerEventType; field: string }>> = {
+  lead_stage_changed: { event: 'lead_stage_changed', field: 'new_stage' },
+  call_completed: { event: 'call_completed', field: 'intent_level' },
+  call_lead_score: { event: 'call_completed', field: 'lead_score' },
+  email_opened: { event: 'email_opened', field: 'subject' },
+  email_clicked: { event: 'email_clicked', field: 'clicked_url' },
+  whatsapp_button_clicked: { event: 'whatsapp_button_clicked', field: 'button_text' }
+};
+
+/**
+ * Multipliers for amount suffixes used in lead data ("50k", "2.5 lakh", "1cr")
+ */
+const NUMBER_SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7
+};
+
+/**
+ * State shared while evaluating the conditions of one contact
+ * Lead analytics custom fields are only loaded when a condition needs them.
+ */
+interface ConditionContext {
+  contact: ContactInterface;
+  event: TriggerEvent;
+  leadCustomFields?: Promise<Record<string, unknown>>;
+}
+
+/**
+ * Condition types of a (possibly nested) list of conditions
+ */
+const collectConditionTypes = (
+  conditions: Array<{ condition_type: string; conditions?: Array<{ condition_type: string }> }>
+): string[] => conditions.flatMap(condition => [
+  condition.condition_type,
+  ...collectConditionTypes(condition.conditions || [])
+]);
+
 /**
  * FlowMatchingService
  * Handles matching contacts to flows based on trigger conditions
  */
 export class FlowMatchingService {
   /**
-   * Find matching flow for a contact
+   * Get the event a flow is triggered by
+   * Flows without event trigger conditions run on contact creation.
+   */
+  static getTriggerEvent(conditions: Array<{ condition_type: string }>): TriggerEventType {
+    for (const condition of conditions) {
+      const eventCondition = EVENT_TRIGGER_CONDITIONS[condition.condition_type as ConditionType];
+      if (eventCondition) {
+        return eventCondition.event;
+      }
+    }
+    return 'contact_created';
+  }
+
+  /**
+   * Check that a set of trigger conditions doesn't mix events
+   * A flow can only be triggered by one kind of event.
+   */
+  static validateTriggerEvents(
+    conditions: Array<{ condition_type: string; conditions?: Array<{ condition_type: string }> }>
+  ): { valid: boolean; error?: string } {
+    const events = new Set(
+      collectConditionTypes(conditions)
+        .map(conditionType => EVENT_TRIGGER_CONDITIONS[conditionType as ConditionType]?.event)
+        .filter(Boolean)
+    );
+
+    if (events.size > 1) {
+      return {
+        valid: false,
+        error: `Trigger conditions can only refer to one event, got: ${Array.from(events).join(', ')}`
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Find matching flow for a contact and trigger event
    * Returns highest priority matching flow
    */
   static async findMatchingFlow(
     userId: string,
-    contact: ContactInterface
+    contact: ContactInterface,
+    event: TriggerEvent = { type: 'contact_created' }
   ): Promise<TriggerMatchResult> {
     try {
-      // Get all enabled flows ordered by priority
-      const flows = await AutoEngagementFlowModel.findEnabledFlowsForMatching(userId);
+      // Get all enabled flows for this event ordered by priority
+      const flows = (await AutoEngagementFlowModel.findEnabledFlowsForMatching(userId))
+        .filter(flow => this.getTriggerEvent(flow.trigger_conditions || []) === event.type);
 
       if (flows.length === 0) {
         return {
           matched: false,
           flow: null,
-          reason: 'No enabled flows found for user'
+          reason: `No enabled flows found for ${event.type} trigger`
         };
       }
 
@@ -46,8 +143,9 @@ export class FlowMatchingService {
       }
 
       // Try to match flows in priority order
+      const context: ConditionContext = { contact, event };
       for (const flow of flows) {
-        const isMatch = await this.evaluateTriggerConditions(flow, contact);
+        const isMatch = await this.evaluateTriggerConditions(flow, context);
         
         if (isMatch) {
           // Check business hours if configured
@@ -72,6 +170,7 @@ export class FlowMatchingService {
             flowId: flow.id,
             flowName: flow.name,
             contactId: contact.id,
+            triggerEvent: event.type,
             priority: flow.priority
           });
 
@@ -100,36 +199,71 @@ export class FlowMatchingService {
 
   /**
    * Evaluate all trigger conditions for a flow
-   * All conditions must match (AND logic)
+   * Top level conditions must all match (AND logic); group conditions
+   * combine their children with AND or OR.
    */
   private static async evaluateTriggerConditions(
     flow: FlowWithDetails,
-    contact: ContactInterface
+    context: ConditionContext
   ): Promise<boolean> {
     if (!flow.trigger_conditions || flow.trigger_conditions.length === 0) {
       // No conditions means always match
       return true;
     }
 
-    // All conditions must match (AND logic)
+    const conditionsByParent = new Map<string | null, FlowTriggerCondition[]>();
     for (const condition of flow.trigger_conditions) {
-      const matches = this.evaluateSingleCondition(condition, contact);
-      if (!matches) {
+      const parentId = condition.parent_id || null;
+      conditionsByParent.set(parentId, [...(conditionsByParent.get(parentId) || []), condition]);
+    }
+
+    return this.evaluateConditionGroup(conditionsByParent.get(null) || [], 'and', conditionsByParent, context);
+  }
+
+  /**
+   * Evaluate a list of conditions combined with AND or OR
+   * An empty group always matches.
+   */
+  private static async evaluateConditionGroup(
+    conditions: FlowTriggerCondition[],
+    groupOperator: ConditionOperator,
+    conditionsByParent: Map<string | null, FlowTriggerCondition[]>,
+    context: ConditionContext
+  ): Promise<boolean> {
+    if (conditions.length === 0) {
+      return true;
+    }
+
+    for (const condition of conditions) {
+      const matches = condition.condition_type === 'group'
+        ? await this.evaluateConditionGroup(
+          conditionsByParent.get(condition.id) || [],
+          condition.condition_operator,
+          conditionsByParent,
+          context
+        )
+        : await this.evaluateSingleCondition(condition, context);
+
+      if (groupOperator === 'or' && matches) {
+        return true;
+      }
+      if (groupOperator !== 'or' && !matches) {
         return false;
       }
     }
 
-    return true;
+    return groupOperator !== 'or';
   }
 
   /**
    * Evaluate a single trigger condition
    */
-  private static evaluateSingleCondition(
-    condition: any,
-    contact: ContactInterface
-  ): boolean {
+  private static async evaluateSingleCondition(
+    condition: FlowTriggerCondition,
+    context: ConditionContext
+  ): Promise<boolean> {
     const { condition_type, condition_operator, condition_value } = condition;
+    const { contact, event } = context;
 
     // Handle 'any' operator - always matches
     if (condition_operator === 'any') {
@@ -138,54 +272,207 @@ export class FlowMatchingService {
 
     let actualValue: string | null = null;
 
-    // Get actual value from contact based on condition type
-    switch (condition_type) {
-      case 'lead_source':
-        actualValue = contact.auto_creation_source || null;
-        break;
-      case 'entry_type':
-        // Infer entry type from contact properties
-        if (contact.is_auto_created) {
-          actualValue = 'auto';
-        } else if (contact.email) {
-          actualValue = 'email';
-        } else {
-          actualValue = 'manual';
+    // Event trigger conditions are compared against the event data
+    const eventCondition = EVENT_TRIGGER_CONDITIONS[condition_type];
+
+    if (eventCondition) {
+      actualValue = this.toConditionString(event.data?.[eventCondition.field]);
+    } else {
+      // Get actual value from contact based on condition type
+      switch (condition_type) {
+        case 'lead_source':
+          actualValue = contact.auto_creation_source || null;
+          break;
+        case 'entry_type':
+          // Infer entry type from contact properties
+          if (contact.is_auto_created) {
+            actualValue = 'auto';
+          } else if (contact.email) {
+            actualValue = 'email';
+          } else {
+            actualValue = 'manual';
+          }
+          break;
+        case 'lead_stage':
+          actualValue = contact.lead_stage || null;
+          break;
+        case 'city':
+          actualValue = contact.city || null;
+          break;
+        case 'country':
+          actualValue = contact.country || null;
+          break;
+        case 'tag': {
+          // Tags are a list: not_equals means the contact has no such tag,
+          // every other operator matches when any tag matches
+          const tags = contact.tags || [];
+          if (condition_operator === 'not_equals') {
+            return !tags.some(tag => this.compareValues('equals', tag, condition_value));
+          }
+          return tags.some(tag => this.compareValues(condition_operator, tag, condition_value));
         }
-        break;
-      case 'custom_field':
-        // For custom fields, check tags or other custom properties
-        actualValue = this.getCustomFieldValue(contact, condition_value);
-        break;
-      default:
-        logger.warn('[FlowMatchingService] Unknown condition type', {
-          condition_type
-        });
-        return false;
+        case 'custom_field':
+          if (condition.field_name) {
+            actualValue = await this.getFieldValue(context, condition.field_name);
+          } else {
+            // Legacy conditions without a field name check tags or other custom properties
+            actualValue = this.getCustomFieldValue(contact, condition_value);
+          }
+          break;
+        default:
+          logger.warn('[FlowMatchingService] Unknown condition type', {
+            condition_type
+          });
+          return false;
+      }
     }
 
-    // Evaluate based on operator
-    switch (condition_operator) {
+    return this.compareValues(condition_operator, actualValue, condition_value);
+  }
+
+  /**
+   * Compare an actual value with a condition value using a condition operator
+   */
+  private static compareValues(
+    operator: ConditionOperator,
+    actualValue: string | null,
+    conditionValue: string | null
+  ): boolean {
+    switch (operator) {
+      case 'any':
+        return true;
       case 'equals':
         // Case-insensitive comparison for string values
-        if (actualValue === null && condition_value === null) return true;
-        if (actualValue === null || condition_value === null) return false;
-        return actualValue.toLowerCase() === condition_value.toLowerCase();
+        if (actualValue === null && conditionValue === null) return true;
+        if (actualValue === null || conditionValue === null) return false;
+        return actualValue.toLowerCase() === conditionValue.toLowerCase();
       case 'not_equals':
         // Case-insensitive comparison for string values
-        if (actualValue === null && condition_value === null) return false;
-        if (actualValue === null || condition_value === null) return true;
-        return actualValue.toLowerCase() !== condition_value.toLowerCase();
+        if (actualValue === null && conditionValue === null) return false;
+        if (actualValue === null || conditionValue === null) return true;
+        return actualValue.toLowerCase() !== conditionValue.toLowerCase();
       case 'contains':
-        return actualValue ? actualValue.toLowerCase().includes((condition_value || '').toLowerCase()) : false;
+        return actualValue ? actualValue.toLowerCase().includes((conditionValue || '').toLowerCase()) : false;
+      case 'greater_than':
+      case 'less_than': {
+        if (actualValue === null || conditionValue === null) return false;
+        const actualNumber = this.parseNumber(actualValue);
+        const expectedNumber = this.parseNumber(conditionValue);
+        if (actualNumber === null || expectedNumber === null) return false;
+        return operator === 'greater_than'
+          ? actualNumber > expectedNumber
+          : actualNumber < expectedNumber;
+      }
+      case 'between': {
+        // Inclusive range given as "min,max"
+        if (actualValue === null || conditionValue === null) return false;
+        const bounds = conditionValue.split(',');
+        if (bounds.length !== 2) return false;
+        const [min, max] = bounds.map(bound => this.parseNumber(bound));
+        const actualNumber = this.parseNumber(actualValue);
+        if (actualNumber === null || min === null || max === null) return false;
+        return actualNumber >= min && actualNumber <= max;
+      }
+      case 'matches_regex':
+        if (actualValue === null || !conditionValue) return false;
+        try {
+          return new RegExp(conditionValue, 'i').test(actualValue);
+        } catch (error) {
+          logger.warn('[FlowMatchingService] Invalid regex in trigger condition', {
+            pattern: conditionValue,
+            error: error instanceof Error ? error.message : error
+          });
+          return false;
+        }
       default:
         logger.warn('[FlowMatchingService] Unknown condition operator', {
-          condition_operator
+          condition_operator: operator
         });
         return false;
     }
   }
 
+  /**
+   * Parse a number from lead data
+   * Accepts thousands separators, currency symbols and amount suffixes,
+   * e.g. "₹50,000", "50k", "2.5 lakh", "1 cr".
+   */
+  private static parseNumber(value: string): number | null {
+    const normalized = value
+      .trim()
+      .toLowerCase()
+      .replace(/^(rs\.?|inr|usd)\s*/, '')
+      .replace(/[₹$€£,\s]/g, '');
+
+    const match = normalized.match(/^(-?\d+(?:\.\d+)?)([a-z]*)$/);
+    if (!match) {
+      return null;
+    }
+
+    const multiplier = match[2] ? NUMBER_SUFFIXES[match[2]] : 1;
+    if (multiplier === undefined) {
+      return null;
+    }
+
+    return Number(match[1]) * multiplier;
+  }
+
+  /**
+   * Get a named field for a custom_field condition
+   * Contact properties take precedence over custom fields extracted by lead analytics.
+   */
+  private static async getFieldValue(context: ConditionContext, fieldName: string): Promise<string | null> {
+    const contactValue = this.toConditionString((context.contact as unknown as Record<string, unknown>)[fieldName]);
+    if (contactValue !== null) {
+      return contactValue;
+    }
+
+    if (!context.leadCustomFields) {
+      context.leadCustomFields = this.loadLeadCustomFields(context.contact);
+    }
+
+    return this.toConditionString((await context.leadCustomFields)[fieldName]);
+  }
+
+  /**
+   * Load the most recent custom fields extracted by lead analytics for a contact
+   */
+  private static async loadLeadCustomFields(contact: ContactInterface): Promise<Record<string, unknown>> {
+    try {
+      const result = await pool.query(
+        `SELECT custom_fields
+         FROM lead_analytics
+         WHERE user_id = $1
+           AND phone_number = $2
+           AND custom_fields IS NOT NULL
+           AND custom_fields <> '{}'::jsonb
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [contact.user_id, contact.phone_number]
+      );
+      return result.rows[0]?.custom_fields || {};
+    } catch (error) {
+      logger.warn('[FlowMatchingService] Failed to load lead custom fields', {
+        contactId: contact.id,
+        error: error instanceof Error ? error.message : error
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Convert a contact, event or custom field value to a comparable string
+   */
+  private static toConditionString(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (Array.isArray(value)) {
+      return value.join(', ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
   /**
    * Get custom field value from contact
    */
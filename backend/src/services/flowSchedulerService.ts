@@ -0,0 +1,88 @@
+import { logger } from '../utils/logger';
+import { FlowExecutionModel } from '../models/FlowExecution';
+import { FlowExecutionService } from './flowExecutionService';
+
+/**
+ * Service that resumes auto engagement flow executions suspended by wait actions
+ *
+ * Wait steps are persisted on flow_executions (status 'waiting' + next_run_at), so
+ * this poller picks them up again after deploys or restarts.
+ */
+export class FlowSchedulerService {
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+  private readonly POLL_INTERVAL = 60 * 1000; // Check every minute
+  private readonly BATCH_SIZE = 50;
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    if (this.pollIntervalId) {
+      return; // Already running
+    }
+
+    this.pollIntervalId = setInterval(() => {
+      this.processDueExecutions().catch(error => {
+        logger.error('Error processing waiting flow executions', { error: error.message });
+      });
+    }, this.POLL_INTERVAL);
+
+    // Pick up anything that became due while the server was down
+    this.processDueExecutions().catch(error => {
+      logger.error('Error processing waiting flow executions on startup', { error: error.message });
+    });
+
+    logger.info('Flow scheduler started', {
+      pollInterval: `${this.POLL_INTERVAL / 1000} seconds`
+    });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.pollIntervalId) {
+      clearInterval(this.pollIntervalId);
+      this.pollIntervalId = null;
+      logger.info('Flow scheduler stopped');
+    }
+  }
+
+  /**
+   * Resume all waiting executions whose wait step has ended
+   * Returns the number of executions resumed.
+   */
+  async processDueExecutions(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let resumed = 0;
+
+    try {
+      // Keep claiming batches until nothing is due
+      let claimed: number;
+      do {
+        const executions = await FlowExecutionModel.claimDueExecutions(this.BATCH_SIZE);
+        claimed = executions.length;
+
+        if (claimed > 0) {
+          logger.info(`Resuming ${claimed} waiting flow executions`);
+        }
+
+        for (const execution of executions) {
+          await FlowExecutionService.resumeExecution(execution);
+          resumed++;
+        }
+      } while (claimed === this.BATCH_SIZE);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return resumed;
+  }
+}
+
+export const flowSchedulerService = new FlowSchedulerService();
@@ -1,9 +1,13 @@
 import { emailService } from './emailService';
-import { gmailService } from './gmailService';
+import { EmailSendingService, EmailSenderNotReadyError, EmailThrottledError } from './emailSendingService';
+import { SuppressionService, SuppressedRecipientError } from './suppressionService';
+import { JobDeferredError } from './jobRunnerService';
 import UserEmailSettingsModel, { UserEmailSettingsInterface, DEFAULT_BODY_TEMPLATE, DEFAULT_SUBJECT_TEMPLATE } from '../models/UserEmailSettings';
 import openaiPromptService from './openaiPromptService';
 import { logger } from '../utils/logger';
 import { pool } from '../config/database';
+import { BackgroundJobModel } from '../models/BackgroundJob';
+import { BackgroundJob } from '../types/job';
 import axios from 'axios';
 import DOMPurify from 'isomorphic-dompurify';
 
@@ -98,6 +102,11 @@ class FollowUpEmailService {
 
       // Send immediately
       const result = await this.sendFollowUpEmail(callData, settings, contactEmail!);
+      if (result.retryAt) {
+        // Sender's email limit reached: send once it frees up
+        await this.scheduleFollowUpEmail(callData, settings, contactEmail!, result.retryAt);
+        return { sent: true, reason: `Email limit reached, scheduled for ${result.retryAt.toISOString()}` };
+      }
       return result;
     } catch (error) {
       logger.error('Error processing call for follow-up email', {
@@ -115,8 +124,15 @@ class FollowUpEmailService {
     callData: FollowUpCallData,
     settings: UserEmailSettingsInterface,
     contactEmail: string
-  ): Promise<{ sent: boolean; reason: string; emailId?: string }> {
+  ): Promise<{ sent: boolean; reason: string; emailId?: string; retryable?: boolean; retryAt?: Date }> {
     try {
+      await SuppressionService.assertNotSuppressed(
+        callData.userId,
+        { email: contactEmail, contactId: callData.contactId },
+        'email',
+        { source: 'follow_up_email', call_id: callData.callId }
+      );
+
       // Get additional context for template variables
       const context = await this.getEmailContext(callData);
       
@@ -212,83 +228,172 @@ class FollowUpEmailService {
         });
       }
 
-      // Send the email via Gmail API (user's connected Gmail account)
-      const gmailResult = await gmailService.sendEmail(callData.userId, {
+      // Send the email through the user's default sender (their connected Gmail account if none is set up)
+      const sendResult = await EmailSendingService.send(callData.userId, {
         to: { address: contactEmail },
         subject,
         htmlBody: body,
         textBody: this.htmlToPlainText(body)
       });
 
-      if (gmailResult.success) {
-        logger.info('Follow-up email sent successfully via Gmail', {
+      if (sendResult.success) {
+        logger.info('Follow-up email sent successfully', {
           callId: callData.callId,
           to: contactEmail,
-          messageId: gmailResult.messageId
+          provider: sendResult.identity.provider,
+          messageId: sendResult.messageId
         });
-        return { sent: true, reason: 'Email sent successfully via Gmail', emailId: gmailResult.messageId };
+        return {
+          sent: true,
+          reason: `Email sent successfully via ${sendResult.identity.provider}`,
+          emailId: sendResult.messageId
+        };
       } else {
         // Gmail failed - check if user needs to reconnect
-        if (gmailResult.requiresReconnect) {
+        if (sendResult.requiresReconnect) {
           // Send notification to user via ZeptoMail that they need to reconnect Gmail
           await this.sendGmailReconnectNotification(callData.userId, context.userName || 'User');
           logger.warn('Gmail requires reconnection, notification sent', {
             callId: callData.callId,
             userId: callData.userId,
-            error: gmailResult.error
+            error: sendResult.error
           });
-          return { sent: false, reason: `Gmail not connected or permission revoked. Notification sent to reconnect. Error: ${gmailResult.error}` };
+          return { sent: false, reason: `Gmail not connected or permission revoked. Notification sent to reconnect. Error: ${sendResult.error}` };
         }
         
-        logger.error('Failed to send follow-up email via Gmail', {
+        logger.error('Failed to send follow-up email', {
           callId: callData.callId,
-          error: gmailResult.error
+          provider: sendResult.identity.provider,
+          error: sendResult.error
         });
-        return { sent: false, reason: gmailResult.error || 'Gmail service failed to send' };
+        return {
+          sent: false,
+          reason: sendResult.error || `${sendResult.identity.provider} failed to send`,
+          retryable: sendResult.retryable
+        };
       }
     } catch (error) {
+      if (error instanceof EmailThrottledError) {
+        return { sent: false, reason: error.message, retryAt: error.retryAt };
+      }
+      if (error instanceof SuppressedRecipientError || error instanceof EmailSenderNotReadyError) {
+        logger.info('Follow-up email not sent', { callId: callData.callId, reason: error.message });
+        return { sent: false, reason: error.message };
+      }
       logger.error('Error sending follow-up email', {
         callId: callData.callId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      return { sent: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+      return { sent: false, reason: error instanceof Error ? error.message : 'Unknown error', retryable: true };
     }
   }
 
   /**
    * Schedule a follow-up email for later
+   * The email is stored in scheduled_emails and sent by a 'scheduled_email' background job.
    */
   private async scheduleFollowUpEmail(
     callData: FollowUpCallData,
     settings: UserEmailSettingsInterface,
-    contactEmail: string
-  ): Promise<void> {
-    // For now, store in a simple way. In production, use a proper job queue
-    const scheduledTime = new Date(Date.now() + settings.send_delay_minutes * 60 * 1000);
-    
+    contactEmail: string,
+    scheduledTime: Date = new Date(Date.now() + settings.send_delay_minutes * 60 * 1000)
+  ): Promise<void> {    
     logger.info('Scheduling follow-up email', {
       callId: callData.callId,
       scheduledFor: scheduledTime,
       delay: settings.send_delay_minutes
     });
 
-    // Store scheduled email in database for later processing
-    await pool.query(
-      `INSERT INTO scheduled_emails (
-        call_id, user_id, contact_email, scheduled_at, status, created_at
-      ) VALUES ($1, $2, $3, $4, 'pending', CURRENT_TIMESTAMP)
-      ON CONFLICT (call_id) DO UPDATE SET
-        scheduled_at = EXCLUDED.scheduled_at,
-        status = 'pending',
-        updated_at = CURRENT_TIMESTAMP`,
-      [callData.callId, callData.userId, contactEmail, scheduledTime]
-    ).catch(async () => {
-      // Table might not exist yet, log warning and send immediately as fallback
-      logger.warn('scheduled_emails table not available, sending immediately instead');
-      await this.sendFollowUpEmail(callData, settings, contactEmail);
+    await pool.transaction(async (client) => {
+      // A follow-up that was already sent for this call is not sent again
+      const result = await client.query(
+        `INSERT INTO scheduled_emails (
+          call_id, user_id, contact_email, scheduled_at, status, call_data
+        ) VALUES ($1, $2, $3, $4, 'pending', $5)
+        ON CONFLICT (call_id) DO UPDATE SET
+          contact_email = EXCLUDED.contact_email,
+          scheduled_at = EXCLUDED.scheduled_at,
+          status = 'pending',
+          call_data = EXCLUDED.call_data,
+          error = NULL,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE scheduled_emails.status <> 'sent'
+        RETURNING id`,
+        [callData.callId, callData.userId, contactEmail, scheduledTime, JSON.stringify(callData)]
+      );
+
+      const scheduledEmailId = result.rows[0]?.id;
+      if (!scheduledEmailId) {
+        logger.info('Follow-up email already sent for call, not rescheduling', { callId: callData.callId });
+        return;
+      }
+
+      const job = await BackgroundJobModel.enqueue(
+        'scheduled_email',
+        { scheduledEmailId },
+        { runAt: scheduledTime, userId: callData.userId, dedupeKey: `scheduled_email:${scheduledEmailId}` },
+        client
+      );
+      if (job) {
+        await client.query('UPDATE scheduled_emails SET job_id = $1 WHERE id = $2', [job.id, scheduledEmailId]);
+      }
     });
   }
 
+  /**
+   * Send a scheduled follow-up email ('scheduled_email' job handler)
+   * Throws on failures worth retrying (provider errors) and defers the job while the sender is over its limit.
+   */
+  async sendScheduledEmail(job: BackgroundJob): Promise<void> {
+    const result = await pool.query('SELECT * FROM scheduled_emails WHERE id = $1', [job.payload.scheduledEmailId]);
+    const scheduled = result.rows[0];
+
+    // 'failed' emails are sent again when an admin retries their dead job
+    if (!scheduled || !['pending', 'failed'].includes(scheduled.status)) {
+      return; // Sent, cancelled or deleted in the meantime
+    }
+
+    const settings = await UserEmailSettingsModel.findByUserId(scheduled.user_id);
+    if (!settings) {
+      await this.updateScheduledEmail(scheduled.id, 'failed', 'No email settings configured for user');
+      return;
+    }
+
+    const callData: FollowUpCallData = {
+      ...scheduled.call_data,
+      createdAt: new Date(scheduled.call_data.createdAt)
+    };
+    const sendResult = await this.sendFollowUpEmail(callData, settings, scheduled.contact_email);
+
+    if (sendResult.sent) {
+      await this.updateScheduledEmail(scheduled.id, 'sent', null);
+    } else if (sendResult.retryAt) {
+      throw new JobDeferredError(sendResult.retryAt, sendResult.reason);
+    } else if (sendResult.retryable) {
+      throw new Error(sendResult.reason);
+    } else {
+      await this.updateScheduledEmail(scheduled.id, 'failed', sendResult.reason);
+    }
+  }
+
+  /**
+   * Mark a scheduled follow-up as failed once its job is dead-lettered
+   */
+  async failScheduledEmail(job: BackgroundJob, error: string): Promise<void> {
+    await this.updateScheduledEmail(job.payload.scheduledEmailId, 'failed', error);
+  }
+
+  private async updateScheduledEmail(id: string, status: 'sent' | 'failed', error: string | null): Promise<void> {
+    await pool.query(
+      `UPDATE scheduled_emails
+       SET status = $2, error = $3,
+           sent_at = CASE WHEN $2 = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('pending', 'failed')`,
+      [id, status, error]
+    );
+  }
+
   /**
    * Get contact email from contact or lead analytics
    */
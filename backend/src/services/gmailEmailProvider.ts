@@ -0,0 +1,64 @@
+import gmailService from './gmailService';
+import {
+  EmailProvider,
+  EmailSendLimits,
+  EmailSendResult,
+  EmailSenderIdentity,
+  OutgoingEmail
+} from '../types/emailProvider';
+
+// Gmail API errors for a malformed or nonexistent recipient (not worth retrying)
+const INVALID_RECIPIENT_PATTERN = /invalid to header|invalid recipient|recipient address rejected/i;
+
+/**
+ * Email provider sending through the user's connected Google account (Gmail API)
+ * The identity's from_email is the connected account, verified by the OAuth connection.
+ */
+export class GmailEmailProvider implements EmailProvider {
+  readonly name = 'gmail' as const;
+
+  // Google Workspace allows 2,000 messages a day, consumer accounts 500; stay under the lower one
+  readonly defaultLimits: EmailSendLimits = { hourly: 100, daily: 500, minIntervalMs: 1000 };
+
+  async send(identity: EmailSenderIdentity, email: OutgoingEmail): Promise<EmailSendResult> {
+    const result = await gmailService.sendEmail(identity.user_id, {
+      to: email.to,
+      cc: email.cc,
+      bcc: email.bcc,
+      subject: email.subject,
+      htmlBody: email.html,
+      textBody: email.text,
+      attachments: email.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType || 'application/octet-stream'
+      })),
+      fromName: identity.from_name || undefined,
+      fromEmail: identity.from_email,
+      enableTracking: false // Tracking is added by EmailSendingService for every provider
+    });
+
+    if (result.success) {
+      return { success: true, messageId: result.messageId };
+    }
+
+    const invalidRecipient = INVALID_RECIPIENT_PATTERN.test(result.error || '');
+    return {
+      success: false,
+      error: result.error,
+      requiresReconnect: result.requiresReconnect,
+      bounce: invalidRecipient ? 'hard' : undefined,
+      retryable: !result.requiresReconnect && !invalidRecipient
+    };
+  }
+
+  async verifyConnection(identity: EmailSenderIdentity): Promise<void> {
+    const status = await gmailService.getGmailStatus(identity.user_id);
+    if (!status.connected || !status.hasGmailScope) {
+      throw new Error(status.message);
+    }
+    if (status.email && status.email.toLowerCase() !== identity.from_email.toLowerCase()) {
+      throw new Error(`The connected Google account is ${status.email}, not ${identity.from_email}`);
+    }
+  }
+}
@@ -0,0 +1,582 @@
+import { pool } from '../config/database';
+import {
+  BILLING_PROFILE_FIELDS,
+  BillingProfile,
+  BillingProfileFields,
+  BillingProfileModel
+} from '../models/BillingProfile';
+import { Invoice, InvoiceContent, InvoiceModel, InvoiceParty, InvoiceStatus, InvoiceTaxLine } from '../models/Invoice';
+import { configService } from './configService';
+import { StripeService } from './stripeService';
+import { createTextPdf, PdfBlock } from '../utils/pdf';
+import { toCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+export type DocumentFormat = 'pdf' | 'csv';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Thrown for invalid billing profiles and invoice operations (mapped to 4xx by controllers)
+ */
+export class InvoiceError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+export interface TaxSettings {
+  taxName: string;
+  ratePercent: number;
+  sellerRegion: string;
+}
+
+export interface TaxBreakdown {
+  subtotal: number;
+  taxTotal: number;
+  taxLines: InvoiceTaxLine[];
+}
+
+export interface StatementTransaction {
+  id: string;
+  type: string;
+  amount: number;
+  balance_after: number;
+  description: string;
+  call_id: string | null;
+  created_at: Date;
+}
+
+export interface Statement {
+  userId: string;
+  month: string; // YYYY-MM in the user's timezone
+  timezone: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totalsByType: Record<string, number>;
+  callUsage: { calls: number; seconds: number; credits: number };
+  transactions: StatementTransaction[];
+}
+
+export interface RenderedDocument {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Invoices for credit purchases and monthly account statements
+ *
+ * Credit prices are tax-inclusive: an invoice's total is what the customer paid and
+ * the tax lines are backed out of it. Invoices snapshot the buyer's billing profile
+ * and the seller settings when issued, so later edits only reach an invoice when an
+ * admin regenerates it. Statements are built on demand from the credit ledger.
+ */
+export class InvoiceService {
+  static async getBillingProfile(userId: string): Promise<BillingProfile | null> {
+    return BillingProfileModel.findByUser(userId);
+  }
+
+  static async updateBillingProfile(userId: string, input: Record<string, any>): Promise<BillingProfile> {
+    return BillingProfileModel.upsert(userId, this.validateProfileInput(input));
+  }
+
+  /**
+   * Issue the invoice for a credit purchase (returns the existing one if already issued)
+   */
+  static async createPurchaseInvoice(creditTransactionId: string): Promise<Invoice> {
+    const invoice = await pool.transaction(async client => {
+      const transaction = await this.lockPurchase(client, creditTransactionId);
+      const existing = await InvoiceModel.findIssuedByTransaction(client, creditTransactionId);
+      if (existing) {
+        return existing;
+      }
+      return this.issueLocked(client, transaction);
+    });
+
+    logger.info('[InvoiceService] Invoice issued', {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      userId: invoice.user_id
+    });
+    return invoice;
+  }
+
+  static async listInvoices(
+    filters: { userId?: string; status?: InvoiceStatus },
+    page = 1,
+    limit = 20
+  ): Promise<{ invoices: Invoice[]; total: number; page: number; limit: number }> {
+    const pageSize = Math.min(Math.max(limit, 1), 100);
+    const pageNumber = Math.max(page, 1);
+    const { invoices, total } = await InvoiceModel.list(filters, pageSize, (pageNumber - 1) * pageSize);
+    return { invoices, total, page: pageNumber, limit: pageSize };
+  }
+
+  /**
+   * Find an invoice, scoped to its owner unless userId is omitted (admin)
+   */
+  static async getInvoice(invoiceId: string, userId?: string): Promise<Invoice> {
+    const invoice = await InvoiceModel.findById(invoiceId, userId);
+    if (!invoice) {
+      throw new InvoiceError('Invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  /**
+   * Rebuild an invoice from its purchase with the current billing profile and tax settings
+   * An issued invoice keeps its number; a voided one is reissued under a new number.
+   */
+  static async regenerateInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+
+    const regenerated = await pool.transaction(async client => {
+      const transaction = await this.lockPurchase(client, invoice.credit_transaction_id);
+
+      if (invoice.status === 'issued') {
+        const content = await this.buildContent(transaction);
+        const updated = await InvoiceModel.replaceContent(client, invoice.id, content);
+        if (!updated) {
+          throw new InvoiceError('Invoice was voided while regenerating', 409);
+        }
+        return updated;
+      }
+
+      const reissued = await InvoiceModel.findIssuedByTransaction(client, invoice.credit_transaction_id);
+      if (reissued) {
+        throw new InvoiceError(`This purchase has already been reissued as ${reissued.invoice_number}`, 409);
+      }
+      return this.issueLocked(client, transaction);
+    });
+
+    logger.info('[InvoiceService] Invoice regenerated', {
+      invoiceId: invoice.id,
+      regeneratedId: regenerated.id,
+      invoiceNumber: regenerated.invoice_number
+    });
+    return regenerated;
+  }
+
+  /**
+   * Void an issued invoice; its number is not reused
+   */
+  static async voidInvoice(invoiceId: string, reason: string, adminUserId: string | null): Promise<Invoice> {
+    if (!reason || !reason.trim()) {
+      throw new InvoiceError('A reason is required to void an invoice');
+    }
+
+    const invoice = await this.getInvoice(invoiceId);
+    if (invoice.status === 'void') {
+      throw new InvoiceError('Invoice is already void', 409);
+    }
+
+    const voided = await InvoiceModel.markVoid(invoiceId, adminUserId, reason.trim());
+    if (!voided) {
+      throw new InvoiceError('Invoice is already void', 409);
+    }
+
+    logger.info('[InvoiceService] Invoice voided', { invoiceId, adminUserId, reason: voided.void_reason });
+    return voided;
+  }
+
+  /**
+   * Account statement for a calendar month in the user's timezone
+   */
+  static async getStatement(userId: string, month: string): Promise<Statement> {
+    if (!MONTH_PATTERN.test(month)) {
+      throw new InvoiceError('Month must be in YYYY-MM format');
+    }
+
+    const userResult = await pool.query('SELECT timezone FROM users WHERE id = $1', [userId]);
+    if (!userResult.rows[0]) {
+      throw new InvoiceError('User not found', 404);
+    }
+    const timezone = this.resolveTimezone(userResult.rows[0].timezone);
+
+    const periodResult = await pool.query(
+      `SELECT ($1::text || '-01')::timestamp AT TIME ZONE $2::text AS period_start,
+              (($1::text || '-01')::timestamp + INTERVAL '1 month') AT TIME ZONE $2::text AS period_end`,
+      [month, timezone]
+    );
+    const { period_start: periodStart, period_end: periodEnd } = periodResult.rows[0];
+    if (periodStart > new Date()) {
+      throw new InvoiceError('Statements are not available for future months');
+    }
+
+    const [opening, transactions, usage] = await Promise.all([
+      pool.query(
+        `SELECT balance_after FROM credit_transactions
+         WHERE user_id = $1 AND created_at < $2
+         ORDER BY created_at DESC LIMIT 1`,
+        [userId, periodStart]
+      ),
+      pool.query(
+        `SELECT id, type, amount, balance_after, description, call_id, created_at
+         FROM credit_transactions
+         WHERE user_id = $1 AND created_at >= $2 AND created_at < $3
+         ORDER BY created_at ASC`,
+        [userId, periodStart, periodEnd]
+      ),
+      pool.query(
+        `SELECT COUNT(*)::int AS calls,
+                COALESCE(SUM(duration_seconds), 0)::int AS seconds,
+                COALESCE(SUM(credits_used), 0) AS credits
+         FROM calls
+         WHERE user_id = $1 AND status = 'completed' AND created_at >= $2 AND created_at < $3`,
+        [userId, periodStart, periodEnd]
+      )
+    ]);
+
+    const rows: StatementTransaction[] = transactions.rows.map((row: any) => ({
+      ...row,
+      amount: Number(row.amount),
+      balance_after: Number(row.balance_after)
+    }));
+    const openingBalance = opening.rows[0] ? Number(opening.rows[0].balance_after) : 0;
+
+    const totalsByType: Record<string, number> = {};
+    for (const row of rows) {
+      totalsByType[row.type] = round((totalsByType[row.type] || 0) + row.amount);
+    }
+
+    return {
+      userId,
+      month,
+      timezone,
+      periodStart,
+      periodEnd,
+      openingBalance,
+      closingBalance: rows.length ? rows[rows.length - 1].balance_after : openingBalance,
+      totalsByType,
+      callUsage: {
+        calls: usage.rows[0].calls,
+        seconds: usage.rows[0].seconds,
+        credits: Number(usage.rows[0].credits)
+      },
+      transactions: rows
+    };
+  }
+
+  static renderInvoice(invoice: Invoice, format: DocumentFormat): RenderedDocument {
+    const filename = `invoice-${invoice.invoice_number}.${format}`;
+    const currency = invoice.currency;
+
+    if (format === 'csv') {
+      const rows: unknown[][] = invoice.line_items.map(item => [
+        invoice.invoice_number, 'item', item.description, item.quantity, item.unit_price, item.amount, currency
+      ]);
+      rows.push([invoice.invoice_number, 'subtotal', 'Subtotal', '', '', invoice.subtotal, currency]);
+      for (const tax of invoice.tax_lines) {
+        rows.push([invoice.invoice_number, 'tax', `${tax.name} ${tax.rate_percent}%`, '', '', tax.amount, currency]);
+      }
+      rows.push([invoice.invoice_number, 'total', 'Total', '', '', invoice.total, currency]);
+
+      return {
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+        body: Buffer.from(toCsv(['invoice_number', 'line', 'description', 'quantity', 'unit_price', 'amount', 'currency'], rows))
+      };
+    }
+
+    const blocks: PdfBlock[] = [
+      { text: invoice.status === 'void' ? 'Invoice (VOID)' : 'Invoice', bold: true, size: 18 },
+      { text: `Invoice number: ${invoice.invoice_number}`, spaceBefore: 8 },
+      { text: `Issue date: ${formatDate(invoice.issued_at)}` }
+    ];
+    if (invoice.status === 'void') {
+      blocks.push({ text: `Voided on ${formatDate(invoice.voided_at as Date)}: ${invoice.void_reason || ''}`, bold: true });
+    }
+
+    blocks.push(...partyBlocks('From', invoice.seller_details), ...partyBlocks('Bill to', invoice.billing_details));
+
+    blocks.push({ text: 'Items', bold: true, size: 12, spaceBefore: 14 });
+    for (const item of invoice.line_items) {
+      blocks.push({
+        text: `${item.description}: ${item.quantity} x ${formatMoney(item.unit_price, currency)} = ${formatMoney(item.amount, currency)}`,
+        indent: 10
+      });
+    }
+
+    blocks.push({ text: `Subtotal: ${formatMoney(invoice.subtotal, currency)}`, spaceBefore: 10 });
+    for (const tax of invoice.tax_lines) {
+      blocks.push({ text: `${tax.name} (${tax.rate_percent}%): ${formatMoney(tax.amount, currency)}` });
+    }
+    blocks.push({ text: `Total: ${formatMoney(invoice.total, currency)}`, bold: true });
+    if (invoice.tax_lines.length) {
+      blocks.push({ text: 'Prices include tax.', size: 8, spaceBefore: 10 });
+    }
+
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: createTextPdf(blocks, `Invoice ${invoice.invoice_number}`)
+    };
+  }
+
+  static renderStatement(statement: Statement, format: DocumentFormat): RenderedDocument {
+    const filename = `statement-${statement.month}.${format}`;
+
+    if (format === 'csv') {
+      const rows = statement.transactions.map(row => [
+        formatDateTime(row.created_at, statement.timezone),
+        row.type,
+        row.description,
+        row.amount,
+        row.balance_after,
+        row.call_id
+      ]);
+      return {
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+        body: Buffer.from(toCsv(['date', 'type', 'description', 'amount', 'balance_after', 'call_id'], rows))
+      };
+    }
+
+    const blocks: PdfBlock[] = [
+      { text: `Account statement: ${statement.month}`, bold: true, size: 18 },
+      { text: `Times shown in ${statement.timezone}`, size: 8, spaceBefore: 4 },
+      { text: `Opening balance: ${formatCredits(statement.openingBalance)}`, spaceBefore: 10 },
+      { text: `Closing balance: ${formatCredits(statement.closingBalance)}` },
+      { text: 'Summary', bold: true, size: 12, spaceBefore: 14 },
+      ...Object.entries(statement.totalsByType).map(([type, total]) => ({
+        text: `${type}: ${formatCredits(total)}`,
+        indent: 10
+      })),
+      {
+        text: `Completed calls: ${statement.callUsage.calls} (${Math.ceil(statement.callUsage.seconds / 60)} min, ` +
+          `${formatCredits(statement.callUsage.credits)})`,
+        indent: 10
+      },
+      { text: 'Transactions', bold: true, size: 12, spaceBefore: 14 }
+    ];
+
+    if (!statement.transactions.length) {
+      blocks.push({ text: 'No transactions in this period.', indent: 10 });
+    }
+    for (const row of statement.transactions) {
+      blocks.push({
+        text: `${formatDateTime(row.created_at, statement.timezone)}  ${row.description}  ` +
+          `${row.amount > 0 ? '+' : ''}${row.amount.toFixed(2)}  (balance ${row.balance_after.toFixed(2)})`,
+        indent: 10
+      });
+    }
+
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: createTextPdf(blocks, `Statement ${statement.month}`)
+    };
+  }
+
+  /**
+   * Back the tax out of a tax-inclusive total
+   * GST is split into CGST + SGST when buyer and seller are in the same state, IGST otherwise.
+   */
+  static computeTaxLines(total: number, settings: TaxSettings, buyerRegion: string | null): TaxBreakdown {
+    const taxName = settings.taxName.trim();
+    if (!taxName || settings.ratePercent <= 0) {
+      return { subtotal: round(total), taxTotal: 0, taxLines: [] };
+    }
+
+    const subtotal = round(total / (1 + settings.ratePercent / 100));
+    const taxTotal = round(total - subtotal);
+
+    if (taxName.toUpperCase() !== 'GST') {
+      return { subtotal, taxTotal, taxLines: [{ name: taxName, rate_percent: settings.ratePercent, amount: taxTotal }] };
+    }
+
+    const sameState = !!buyerRegion && !!settings.sellerRegion &&
+      normalizeRegion(buyerRegion) === normalizeRegion(settings.sellerRegion);
+    if (!sameState) {
+      return { subtotal, taxTotal, taxLines: [{ name: 'IGST', rate_percent: settings.ratePercent, amount: taxTotal }] };
+    }
+
+    const halfRate = settings.ratePercent / 2;
+    const cgst = round(taxTotal / 2);
+    return {
+      subtotal,
+      taxTotal,
+      taxLines: [
+        { name: 'CGST', rate_percent: halfRate, amount: cgst },
+        { name: 'SGST', rate_percent: halfRate, amount: round(taxTotal - cgst) }
+      ]
+    };
+  }
+
+  static formatInvoiceNumber(prefix: string, sequence: number): string {
+    return `${prefix ? `${prefix}-` : ''}${String(sequence).padStart(6, '0')}`;
+  }
+
+  private static async lockPurchase(client: Queryable, creditTransactionId: string): Promise<any> {
+    const result = await client.query(
+      'SELECT * FROM credit_transactions WHERE id = $1 FOR UPDATE',
+      [creditTransactionId]
+    );
+    const transaction = result.rows[0];
+    if (!transaction) {
+      throw new InvoiceError('Credit transaction not found', 404);
+    }
+    if (transaction.type !== 'purchase') {
+      throw new InvoiceError('Invoices are only issued for credit purchases');
+    }
+    return transaction;
+  }
+
+  private static async issueLocked(client: Queryable, transaction: any): Promise<Invoice> {
+    const content = await this.buildContent(transaction);
+    const sequence = await InvoiceModel.nextNumber(client, transaction.user_id);
+    const invoiceNumber = this.formatInvoiceNumber(configService.get('invoice_number_prefix'), sequence);
+    return InvoiceModel.create(client, transaction.user_id, invoiceNumber, transaction.id, content);
+  }
+
+  private static async buildContent(transaction: any): Promise<InvoiceContent> {
+    const [profile, userResult] = await Promise.all([
+      BillingProfileModel.findByUser(transaction.user_id),
+      pool.query('SELECT name, email FROM users WHERE id = $1', [transaction.user_id])
+    ]);
+    const user = userResult.rows[0] || {};
+
+    const { pricePerCredit, currency } = StripeService.getPricingConfig();
+    const credits = Number(transaction.amount);
+    const total = round(credits * pricePerCredit);
+
+    const buyerRegion = profile?.tax_id_type === 'gstin' && profile.tax_id
+      ? profile.tax_id.slice(0, 2)
+      : profile?.region || null;
+    const tax = this.computeTaxLines(total, {
+      taxName: configService.get('invoice_tax_name'),
+      ratePercent: configService.get('invoice_tax_rate_percent'),
+      sellerRegion: configService.get('invoice_seller_region')
+    }, buyerRegion);
+
+    return {
+      currency,
+      subtotal: tax.subtotal,
+      tax_total: tax.taxTotal,
+      total,
+      line_items: [{
+        description: transaction.description || 'Credit purchase',
+        quantity: credits,
+        unit_price: pricePerCredit,
+        amount: total
+      }],
+      tax_lines: tax.taxLines,
+      billing_details: {
+        name: profile?.company_name || user.name || '',
+        tax_id: profile?.tax_id || null,
+        address_lines: profile ? addressLines(profile) : [],
+        email: profile?.billing_email || user.email || null
+      },
+      seller_details: {
+        name: configService.get('invoice_seller_name'),
+        tax_id: configService.get('invoice_seller_tax_id') || null,
+        address_lines: configService.get('invoice_seller_address')
+          .split('\n')
+          .map(line => line.trim())
+          .filter(Boolean)
+      }
+    };
+  }
+
+  private static validateProfileInput(input: Record<string, any>): BillingProfileFields {
+    const fields = {} as BillingProfileFields;
+    for (const field of BILLING_PROFILE_FIELDS) {
+      const value = input[field];
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        throw new InvoiceError(`${field} must be a string`);
+      }
+      (fields as any)[field] = value && value.trim() ? value.trim() : null;
+    }
+
+    if (fields.country) {
+      fields.country = fields.country.toUpperCase();
+      if (!COUNTRY_PATTERN.test(fields.country)) {
+        throw new InvoiceError('country must be a two-letter ISO country code');
+      }
+    }
+
+    if (fields.tax_id_type && !['gstin', 'vat', 'other'].includes(fields.tax_id_type)) {
+      throw new InvoiceError('tax_id_type must be gstin, vat or other');
+    }
+    if (fields.tax_id) {
+      fields.tax_id = fields.tax_id.toUpperCase().replace(/\s+/g, '');
+      fields.tax_id_type = fields.tax_id_type || 'other';
+      if (fields.tax_id_type === 'gstin' && !GSTIN_PATTERN.test(fields.tax_id)) {
+        throw new InvoiceError('tax_id is not a valid GSTIN');
+      }
+    }
+
+    if (fields.billing_email && !EMAIL_PATTERN.test(fields.billing_email)) {
+      throw new InvoiceError('billing_email must be a valid email address');
+    }
+
+    return fields;
+  }
+
+  private static resolveTimezone(timezone: string | null): string {
+    if (!timezone) {
+      return 'UTC';
+    }
+    try {
+      Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return timezone;
+    } catch {
+      return 'UTC';
+    }
+  }
+}
+
+function addressLines(profile: BillingProfile): string[] {
+  const locality = [profile.city, profile.region, profile.postal_code].filter(Boolean).join(', ');
+  return [profile.address_line1, profile.address_line2, locality, profile.country]
+    .filter((line): line is string => !!line);
+}
+
+function partyBlocks(label: string, party: InvoiceParty): PdfBlock[] {
+  const blocks: PdfBlock[] = [{ text: label, bold: true, size: 12, spaceBefore: 14 }];
+  if (party.name) {
+    blocks.push({ text: party.name });
+  }
+  blocks.push(...(party.address_lines || []).map(line => ({ text: line })));
+  if (party.tax_id) {
+    blocks.push({ text: `Tax ID: ${party.tax_id}` });
+  }
+  if (party.email) {
+    blocks.push({ text: party.email });
+  }
+  return blocks;
+}
+
+// GST state codes are numeric; compare names case-insensitively
+function normalizeRegion(region: string): string {
+  return region.trim().toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency.toUpperCase()} ${amount.toFixed(2)}`;
+}
+
+function formatCredits(amount: number): string {
+  return `${amount.toFixed(2)} credits`;
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function formatDateTime(date: Date, timezone: string): string {
+  return new Date(date).toLocaleString('sv-SE', { timeZone: timezone });
+}
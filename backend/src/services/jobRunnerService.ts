@@ -0,0 +1,226 @@
+import os from 'os';
+import { logger } from '../utils/logger';
+import { BackgroundJobModel } from '../models/BackgroundJob';
+import { BackgroundJob, BackgroundJobType, EnqueueJobOptions } from '../types/job';
+
+/**
+ * Runs one claimed job; throwing records a failed attempt and retries with backoff
+ */
+export type JobHandler = (job: BackgroundJob) => Promise<void>;
+
+/**
+ * Thrown by a handler to run the job again later without counting a failed attempt
+ * (e.g. the sender's hourly email limit is reached)
+ */
+export class JobDeferredError extends Error {
+  public readonly code = 'JOB_DEFERRED';
+
+  constructor(public readonly runAt: Date, reason: string) {
+    super(reason);
+    this.name = 'JobDeferredError';
+  }
+}
+
+interface RegisteredHandler {
+  run: JobHandler;
+  onDeadLetter?: (job: BackgroundJob, error: string) => Promise<void>;
+}
+
+/**
+ * Service that executes jobs from the background_jobs table
+ *
+ * Jobs are leased to this process with SKIP LOCKED (safe with several replicas) and the
+ * lease is extended while a job runs, so a job whose worker dies mid-run is picked up
+ * again once its lease expires. Failed attempts are retried with exponential backoff
+ * until max_attempts, after which the job is dead-lettered for an admin to inspect.
+ */
+export class JobRunnerService {
+  private handlers = new Map<BackgroundJobType, RegisteredHandler>();
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly POLL_INTERVAL = 15 * 1000; // Check every 15 seconds
+  private readonly BATCH_SIZE = 10;
+  private readonly LEASE_SECONDS = 5 * 60;
+  private readonly BASE_BACKOFF_SECONDS = 30;
+  private readonly MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+
+  /**
+   * Register the handler for a job type
+   * onDeadLetter runs once the job has failed its last attempt.
+   */
+  registerHandler(
+    jobType: BackgroundJobType,
+    run: JobHandler,
+    onDeadLetter?: (job: BackgroundJob, error: string) => Promise<void>
+  ): void {
+    this.handlers.set(jobType, { run, onDeadLetter });
+  }
+
+  /**
+   * Queue a job (see BackgroundJobModel.enqueue for dedupe keys)
+   */
+  async enqueue(
+    jobType: BackgroundJobType,
+    payload: Record<string, any>,
+    options: EnqueueJobOptions = {}
+  ): Promise<BackgroundJob | null> {
+    return BackgroundJobModel.enqueue(jobType, payload, options);
+  }
+
+  /**
+   * Start the runner
+   */
+  start(): void {
+    if (this.pollIntervalId) {
+      return; // Already running
+    }
+
+    this.pollIntervalId = setInterval(() => {
+      this.processDueJobs().catch(error => {
+        logger.error('Error processing background jobs', { error: error.message });
+      });
+    }, this.POLL_INTERVAL);
+
+    // Pick up jobs that became due (or were interrupted) while the server was down
+    this.processDueJobs().catch(error => {
+      logger.error('Error processing background jobs on startup', { error: error.message });
+    });
+
+    logger.info('Job runner started', {
+      workerId: this.workerId,
+      jobTypes: Array.from(this.handlers.keys()),
+      pollInterval: `${this.POLL_INTERVAL / 1000} seconds`
+    });
+  }
+
+  /**
+   * Stop the runner
+   * Jobs in progress keep their lease and are picked up again after it expires.
+   */
+  stop(): void {
+    if (this.pollIntervalId) {
+      clearInterval(this.pollIntervalId);
+      this.pollIntervalId = null;
+      logger.info('Job runner stopped');
+    }
+  }
+
+  /**
+   * Run all jobs that are due
+   * Returns the number of jobs run.
+   */
+  async processDueJobs(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+
+    try {
+      const expired = await BackgroundJobModel.deadLetterExpired();
+      for (const job of expired) {
+        await this.deadLetter(job, job.last_error || 'Worker stopped before the job finished');
+      }
+
+      let claimed: number;
+      do {
+        const jobs = await BackgroundJobModel.claimDue(this.BATCH_SIZE, this.workerId, this.LEASE_SECONDS);
+        claimed = jobs.length;
+
+        for (const job of jobs) {
+          await this.runJob(job);
+          processed++;
+        }
+      } while (claimed === this.BATCH_SIZE);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failed ones
+   */
+  getRetryDelaySeconds(attempts: number): number {
+    return Math.min(this.BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), this.MAX_BACKOFF_SECONDS);
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const handler = this.handlers.get(job.job_type);
+    if (!handler) {
+      await this.recordFailure(job, `No handler registered for job type ${job.job_type}`);
+      return;
+    }
+
+    // Keep the lease while the job runs (long campaign sends outlive a single lease)
+    const heartbeat = setInterval(() => {
+      BackgroundJobModel.extendLease(job.id, this.workerId, this.LEASE_SECONDS).catch(error => {
+        logger.warn('Failed to extend background job lease', { jobId: job.id, error: error.message });
+      });
+    }, (this.LEASE_SECONDS * 1000) / 3);
+
+    try {
+      await handler.run(job);
+      await BackgroundJobModel.markCompleted(job.id, this.workerId);
+    } catch (error) {
+      if (error instanceof JobDeferredError) {
+        await BackgroundJobModel.defer(job.id, this.workerId, error.runAt, error.message);
+        logger.info('Background job deferred', {
+          jobId: job.id,
+          jobType: job.job_type,
+          runAt: error.runAt.toISOString(),
+          reason: error.message
+        });
+      } else {
+        await this.recordFailure(job, error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async recordFailure(job: BackgroundJob, message: string): Promise<void> {
+    const exhausted = job.attempts >= job.max_attempts;
+    const retryAt = exhausted
+      ? null
+      : new Date(Date.now() + this.getRetryDelaySeconds(job.attempts) * 1000);
+
+    await BackgroundJobModel.markFailed(job.id, this.workerId, message, retryAt);
+
+    if (retryAt) {
+      logger.warn('Background job failed, will retry', {
+        jobId: job.id,
+        jobType: job.job_type,
+        attempt: job.attempts,
+        maxAttempts: job.max_attempts,
+        retryAt: retryAt.toISOString(),
+        error: message
+      });
+    } else {
+      await this.deadLetter(job, message);
+    }
+  }
+
+  private async deadLetter(job: BackgroundJob, message: string): Promise<void> {
+    logger.error('Background job moved to dead letter', {
+      jobId: job.id,
+      jobType: job.job_type,
+      attempts: job.attempts,
+      error: message
+    });
+
+    try {
+      await this.handlers.get(job.job_type)?.onDeadLetter?.(job, message);
+    } catch (error) {
+      logger.error('Dead letter handler failed', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export const jobRunnerService = new JobRunnerService();
@@ -0,0 +1,545 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { LeadSourceModel, LeadSourceColumns } from '../models/LeadSource';
+import {
+  LEAD_SOURCE_PRESETS,
+  LEAD_SOURCE_PRESET_NAMES,
+  facebookLeadgenIds
+} from '../config/leadSourcePresets';
+import {
+  CreateLeadSourceInput,
+  LeadSource,
+  LeadSourceAuthMode,
+  LeadSourcePresetName,
+  LeadSourceRequest,
+  LeadSourceRequestStatus,
+  LeadSourceSettings,
+  MappedLead,
+  PublicLeadSource,
+  UpdateLeadSourceInput
+} from '../types/leadSource';
+import { mapLeadRecord, validateFieldMapping, verifyLeadSourceSignature } from '../utils/leadSourceMapping';
+import { ContactService } from './contactService';
+import { AutoEngagementTriggerService } from './autoEngagementTriggerService';
+import { Encryption } from '../utils/encryption';
+import { logger } from '../utils/logger';
+
+const AUTH_MODES: LeadSourceAuthMode[] = ['hmac_sha256', 'shared_secret'];
+const FACEBOOK_GRAPH_URL = 'https://graph.facebook.com/v19.0';
+const MAX_LEADS_PER_REQUEST = 100;
+
+// Headers never written to the request log
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+export class LeadSourceNotFoundError extends Error {
+  public readonly code = 'LEAD_SOURCE_NOT_FOUND';
+
+  constructor() {
+    super('Lead source not found or inactive');
+    this.name = 'LeadSourceNotFoundError';
+  }
+}
+
+/**
+ * An inbound request as received by the endpoint
+ */
+export interface InboundLeadRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+  rawBody?: Buffer;
+}
+
+export interface InboundLeadResult {
+  requestId: string;
+  status: LeadSourceRequestStatus;
+  error: string | null;
+  leadsReceived: number;
+  contactsCreated: number;
+  contactsUpdated: number;
+  contactIds: string[];
+}
+
+/**
+ * Lead sources - named inbound endpoints that verify each request with the source's secret,
+ * map its lead records to contacts and log it for inspection and replay
+ */
+export class LeadSourceService {
+  /**
+   * Presets for the "add lead source" form
+   */
+  static listPresets() {
+    return LEAD_SOURCE_PRESET_NAMES.map(name => {
+      const preset = LEAD_SOURCE_PRESETS[name];
+      return {
+        name: preset.name,
+        label: preset.label,
+        description: preset.description,
+        auth_mode: preset.auth_mode,
+        signature_header: preset.signature_header,
+        source_label: preset.source_label,
+        field_mapping: preset.field_mapping
+      };
+    });
+  }
+
+  static async listSources(userId: string): Promise<PublicLeadSource[]> {
+    const sources = await LeadSourceModel.findByUser(userId);
+    return sources.map(source => this.toPublic(source));
+  }
+
+  static async getSource(userId: string, id: string): Promise<PublicLeadSource | null> {
+    const source = await LeadSourceModel.findById(id, userId);
+    return source ? this.toPublic(source) : null;
+  }
+
+  /**
+   * Create a lead source from a preset
+   * @returns the source and its secret, which is only shown here and on rotation
+   */
+  static async createSource(
+    userId: string,
+    input: CreateLeadSourceInput
+  ): Promise<{ source: PublicLeadSource; secret: string }> {
+    const presetName: LeadSourcePresetName = input.preset ?? 'custom';
+    const preset = LEAD_SOURCE_PRESETS[presetName];
+    if (!preset) {
+      throw new Error(`preset must be one of: ${LEAD_SOURCE_PRESET_NAMES.join(', ')}`);
+    }
+
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > 100) {
+      throw new Error('name is required (at most 100 characters)');
+    }
+    if (await LeadSourceModel.findByName(userId, name)) {
+      throw new Error('A lead source with this name already exists');
+    }
+
+    const secret = input.secret === undefined ? crypto.randomBytes(32).toString('hex') : this.validateSecret(input.secret);
+    const columns = this.validateColumns({
+      auth_mode: input.auth_mode ?? preset.auth_mode,
+      signature_header: input.signature_header ?? preset.signature_header,
+      field_mapping: input.field_mapping ?? preset.field_mapping,
+      source_label: input.source_label ?? preset.source_label,
+      facebook_page_access_token: input.facebook_page_access_token,
+      facebook_verify_token: input.facebook_verify_token,
+      is_active: input.is_active
+    }, {});
+
+    const source = await LeadSourceModel.create(userId, {
+      name,
+      preset: presetName,
+      endpoint_token: crypto.randomBytes(24).toString('hex'),
+      auth_mode: columns.auth_mode!,
+      secret_encrypted: Encryption.encryptSecret(secret),
+      signature_header: columns.signature_header!,
+      field_mapping: columns.field_mapping!,
+      source_label: columns.source_label!,
+      settings: columns.settings ?? {},
+      is_active: columns.is_active ?? true
+    });
+
+    logger.info(`Lead source created for user ${userId}`, { leadSourceId: source.id, preset: presetName });
+    return { source: this.toPublic(source), secret };
+  }
+
+  static async updateSource(
+    userId: string,
+    id: string,
+    input: UpdateLeadSourceInput
+  ): Promise<PublicLeadSource | null> {
+    const existing = await LeadSourceModel.findById(id, userId);
+    if (!existing) return null;
+
+    const columns = this.validateColumns(input, existing.settings || {});
+    if (input.name !== undefined) {
+      const name = typeof input.name === 'string' ? input.name.trim() : '';
+      if (!name || name.length > 100) {
+        throw new Error('name is required (at most 100 characters)');
+      }
+      const sameName = await LeadSourceModel.findByName(userId, name);
+      if (sameName && sameName.id !== id) {
+        throw new Error('A lead source with this name already exists');
+      }
+      columns.name = name;
+    }
+
+    const source = await LeadSourceModel.update(id, userId, columns);
+    return source ? this.toPublic(source) : null;
+  }
+
+  /**
+   * Replace the source's secret (generated unless given, e.g. a new Facebook app secret)
+   */
+  static async rotateSecret(
+    userId: string,
+    id: string,
+    newSecret?: string
+  ): Promise<{ source: PublicLeadSource; secret: string } | null> {
+    const secret = newSecret === undefined ? crypto.randomBytes(32).toString('hex') : this.validateSecret(newSecret);
+    const source = await LeadSourceModel.setSecret(id, userId, Encryption.encryptSecret(secret));
+    return source ? { source: this.toPublic(source), secret } : null;
+  }
+
+  static async deleteSource(userId: string, id: string): Promise<boolean> {
+    return LeadSourceModel.delete(id, userId);
+  }
+
+  /**
+   * Contact data a payload would produce, without creating contacts
+   * @param fieldMapping Mapping being edited (the saved one when omitted)
+   */
+  static async previewMapping(
+    userId: string,
+    id: string,
+    payload: unknown,
+    fieldMapping?: unknown
+  ): Promise<{ leads: MappedLead[]; warnings: string[] } | null> {
+    const source = await LeadSourceModel.findById(id, userId);
+    if (!source) return null;
+
+    const mapping = fieldMapping === undefined ? source.field_mapping : validateFieldMapping(fieldMapping);
+    const records = LEAD_SOURCE_PRESETS[source.preset].extractRecords(payload);
+    const leads = records.map(record => mapLeadRecord(record, mapping));
+
+    const warnings: string[] = [];
+    if (records.length === 0) {
+      warnings.push(source.preset === 'facebook_lead_ads' && facebookLeadgenIds(payload).length > 0
+        ? 'Facebook webhooks only carry lead ids; the leads are fetched with the page access token when received'
+        : 'No lead records found in the payload');
+    }
+    leads.forEach((lead, index) => {
+      if (!lead.fields.phone_number) warnings.push(`Lead ${index + 1} has no phone number and would be skipped`);
+    });
+
+    return { leads, warnings };
+  }
+
+  /**
+   * Answer Facebook's webhook subscription check (GET with hub.mode, hub.verify_token, hub.challenge)
+   * @returns the challenge to echo, or null when the request is not a valid check
+   */
+  static async verifySubscription(token: string, query: Record<string, unknown>): Promise<string | null> {
+    if (query['hub.mode'] !== 'subscribe' || typeof query['hub.challenge'] !== 'string') return null;
+
+    const source = await LeadSourceModel.findByEndpointToken(token);
+    const verifyToken = source?.settings?.facebook_verify_token;
+    if (!source || !source.is_active || !verifyToken || query['hub.verify_token'] !== verifyToken) return null;
+
+    return query['hub.challenge'] as string;
+  }
+
+  /**
+   * Handle a request to a source's endpoint: verify it, create/update contacts and log it
+   * @throws LeadSourceNotFoundError for an unknown or inactive endpoint
+   */
+  static async receive(token: string, request: InboundLeadRequest): Promise<InboundLeadResult> {
+    const startTime = Date.now();
+    const source = await LeadSourceModel.findByEndpointToken(token);
+    if (!source || !source.is_active) {
+      throw new LeadSourceNotFoundError();
+    }
+
+    await LeadSourceModel.markReceived(source.id);
+
+    const headers = this.normalizeHeaders(request.headers);
+    const provided = headers[source.signature_header.toLowerCase()]
+      || (source.auth_mode === 'shared_secret' && typeof request.query.secret === 'string' ? request.query.secret : undefined);
+    const rawBody = request.rawBody ?? Buffer.from(request.body === undefined ? '' : JSON.stringify(request.body));
+    const signatureValid = verifyLeadSourceSignature(
+      source.auth_mode,
+      Encryption.decryptSecret(source.secret_encrypted),
+      rawBody,
+      provided
+    );
+
+    const logged = {
+      method: request.method,
+      headers: this.redactHeaders(headers, source),
+      query: this.withoutSecret(request.query),
+      body: request.body
+    };
+
+    if (!signatureValid) {
+      logger.warn(`Lead source ${source.id} rejected a request with an invalid signature`);
+      const entry = await LeadSourceModel.logRequest(source, {
+        ...logged,
+        signature_valid: false,
+        status: 'rejected',
+        error_message: provided ? 'Invalid signature' : `Missing ${source.signature_header} header`,
+        processing_time_ms: Date.now() - startTime
+      });
+      return this.toResult(entry);
+    }
+
+    return this.processAndLog(source, { ...logged, signature_valid: true }, null, startTime);
+  }
+
+  /**
+   * Process a logged request again with the source's current mapping
+   * Requests rejected for their signature are not replayed.
+   */
+  static async replayRequest(userId: string, sourceId: string, requestId: string): Promise<InboundLeadResult | null> {
+    const source = await LeadSourceModel.findById(sourceId, userId);
+    const original = source ? await LeadSourceModel.findRequest(requestId, sourceId, userId) : null;
+    if (!source || !original) return null;
+
+    if (original.signature_valid === false) {
+      throw new Error('Requests that failed signature verification cannot be replayed');
+    }
+
+    return this.processAndLog(source, {
+      method: original.method,
+      headers: original.headers,
+      query: original.query,
+      body: original.body,
+      signature_valid: null
+    }, original.replay_of || original.id, Date.now());
+  }
+
+  static async listRequests(
+    userId: string,
+    sourceId: string,
+    options: { status?: LeadSourceRequestStatus; limit: number; offset: number }
+  ): Promise<{ requests: LeadSourceRequest[]; total: number } | null> {
+    const source = await LeadSourceModel.findById(sourceId, userId);
+    if (!source) return null;
+    return LeadSourceModel.listRequests(sourceId, userId, options);
+  }
+
+  static async getRequest(userId: string, sourceId: string, requestId: string): Promise<LeadSourceRequest | null> {
+    return LeadSourceModel.findRequest(requestId, sourceId, userId);
+  }
+
+  private static async processAndLog(
+    source: LeadSource,
+    logged: Pick<LeadSourceRequest, 'method' | 'headers' | 'query' | 'body' | 'signature_valid'>,
+    replayOf: string | null,
+    startTime: number
+  ): Promise<InboundLeadResult> {
+    const counts = { leadsReceived: 0, contactsCreated: 0, contactsUpdated: 0, contactIds: [] as string[] };
+    const errors: string[] = [];
+
+    try {
+      const records = await this.extractRecords(source, this.payloadOf(logged.body, logged.query));
+      counts.leadsReceived = records.length;
+      if (records.length === 0) {
+        errors.push('No leads found in the request');
+      } else if (records.length > MAX_LEADS_PER_REQUEST) {
+        errors.push(`At most ${MAX_LEADS_PER_REQUEST} leads are accepted per request`);
+      }
+
+      const phoneRegion = await ContactService.getDefaultPhoneRegion(source.user_id);
+      for (const [index, record] of records.slice(0, MAX_LEADS_PER_REQUEST).entries()) {
+        const { fields, custom_fields: customFields } = mapLeadRecord(record, source.field_mapping);
+        if (!fields.phone_number) {
+          errors.push(`Lead ${index + 1}: no phone number`);
+          continue;
+        }
+
+        try {
+          const { contact, isNewContact } = await ContactService.upsertInboundLead(
+            source.user_id,
+            { ...fields, phone_number: fields.phone_number, custom_fields: customFields },
+            source.source_label,
+            source.source_label,
+            phoneRegion
+          );
+          counts.contactIds.push(contact.id);
+          if (isNewContact) {
+            counts.contactsCreated++;
+            // Auto Engagement Flows match on the source label - don't wait for them
+            AutoEngagementTriggerService.onContactCreated(contact, source.user_id).catch(err => {
+              logger.error(`Lead source ${source.id}: Auto Engagement Flow trigger failed (non-blocking)`, {
+                error: err.message,
+                contactId: contact.id
+              });
+            });
+          } else {
+            counts.contactsUpdated++;
+          }
+        } catch (error) {
+          errors.push(`Lead ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } catch (error) {
+      logger.error(`Lead source ${source.id}: failed to process request`, error);
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    const entry = await LeadSourceModel.logRequest(source, {
+      ...logged,
+      status: counts.contactIds.length > 0 ? 'processed' : 'failed',
+      error_message: errors.length > 0 ? errors.join('\n') : null,
+      leads_received: counts.leadsReceived,
+      contacts_created: counts.contactsCreated,
+      contacts_updated: counts.contactsUpdated,
+      contact_ids: counts.contactIds,
+      replay_of: replayOf,
+      processing_time_ms: Date.now() - startTime
+    });
+
+    logger.info(`Lead source ${source.id} request ${entry.id} ${entry.status}`, {
+      leadsReceived: counts.leadsReceived,
+      contactsCreated: counts.contactsCreated,
+      contactsUpdated: counts.contactsUpdated,
+      replayOf
+    });
+    return this.toResult(entry);
+  }
+
+  /**
+   * Lead records of a payload; Facebook page webhooks only carry lead ids, so those leads are
+   * fetched from the Graph API with the page access token
+   */
+  private static async extractRecords(source: LeadSource, payload: unknown): Promise<Record<string, any>[]> {
+    const records = LEAD_SOURCE_PRESETS[source.preset].extractRecords(payload);
+    if (records.length > 0 || source.preset !== 'facebook_lead_ads') return records;
+
+    const leadIds = facebookLeadgenIds(payload);
+    if (leadIds.length === 0) return [];
+
+    const accessToken = source.settings?.facebook_page_access_token;
+    if (!accessToken) {
+      throw new Error('Facebook webhooks only carry lead ids; set a page access token on the lead source to fetch the leads');
+    }
+
+    const leads = await Promise.all(leadIds.slice(0, MAX_LEADS_PER_REQUEST).map(async leadId => {
+      const response = await axios.get(`${FACEBOOK_GRAPH_URL}/${encodeURIComponent(leadId)}`, {
+        params: {
+          access_token: Encryption.decryptSecret(accessToken),
+          fields: 'id,created_time,form_id,ad_id,campaign_id,field_data'
+        },
+        timeout: 10000
+      });
+      return response.data;
+    }));
+    return LEAD_SOURCE_PRESETS.facebook_lead_ads.extractRecords(leads);
+  }
+
+  // The body, or the query parameters for portals that send leads in the URL (e.g. JustDial GET)
+  private static payloadOf(body: unknown, query: Record<string, unknown>): unknown {
+    const hasBody = Array.isArray(body) || (typeof body === 'object' && body !== null && Object.keys(body).length > 0);
+    return hasBody ? body : query;
+  }
+
+  /**
+   * Validate editable settings into model columns (encrypts the Facebook page access token)
+   */
+  private static validateColumns(
+    input: UpdateLeadSourceInput,
+    currentSettings: LeadSourceSettings
+  ): LeadSourceColumns {
+    const columns: LeadSourceColumns = {};
+
+    if (input.auth_mode !== undefined) {
+      if (!AUTH_MODES.includes(input.auth_mode)) {
+        throw new Error(`auth_mode must be one of: ${AUTH_MODES.join(', ')}`);
+      }
+      columns.auth_mode = input.auth_mode;
+    }
+
+    if (input.signature_header !== undefined) {
+      const header = typeof input.signature_header === 'string' ? input.signature_header.trim().toLowerCase() : '';
+      if (!/^[a-z0-9-]{1,100}$/.test(header) || REDACTED_HEADERS.includes(header)) {
+        throw new Error('signature_header must be a header name (letters, digits and dashes)');
+      }
+      columns.signature_header = header;
+    }
+
+    if (input.field_mapping !== undefined) {
+      columns.field_mapping = validateFieldMapping(input.field_mapping);
+    }
+
+    if (input.source_label !== undefined) {
+      const label = typeof input.source_label === 'string' ? input.source_label.trim() : '';
+      if (!label || label.length > 100) {
+        throw new Error('source_label is required (at most 100 characters)');
+      }
+      columns.source_label = label;
+    }
+
+    if (input.is_active !== undefined) {
+      columns.is_active = input.is_active === true;
+    }
+
+    if (input.facebook_page_access_token !== undefined || input.facebook_verify_token !== undefined) {
+      const settings: LeadSourceSettings = { ...currentSettings };
+      if (input.facebook_page_access_token !== undefined) {
+        settings.facebook_page_access_token = input.facebook_page_access_token
+          ? Encryption.encryptSecret(String(input.facebook_page_access_token))
+          : undefined;
+      }
+      if (input.facebook_verify_token !== undefined) {
+        settings.facebook_verify_token = input.facebook_verify_token ? String(input.facebook_verify_token) : undefined;
+      }
+      columns.settings = settings;
+    }
+
+    return columns;
+  }
+
+  private static validateSecret(secret: unknown): string {
+    if (typeof secret !== 'string' || secret.length < 16 || secret.length > 256) {
+      throw new Error('secret must be 16 to 256 characters');
+    }
+    return secret;
+  }
+
+  private static normalizeHeaders(headers: InboundLeadRequest['headers']): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined) {
+        normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    return normalized;
+  }
+
+  // A shared secret sent as a header must not end up in the log
+  private static redactHeaders(headers: Record<string, string>, source: LeadSource): Record<string, string> {
+    const redacted = { ...headers };
+    for (const name of REDACTED_HEADERS) delete redacted[name];
+    if (source.auth_mode === 'shared_secret') delete redacted[source.signature_header.toLowerCase()];
+    return redacted;
+  }
+
+  private static withoutSecret(query: Record<string, unknown>): Record<string, unknown> {
+    const rest = { ...query };
+    delete rest.secret;
+    return rest;
+  }
+
+  private static toResult(entry: LeadSourceRequest): InboundLeadResult {
+    return {
+      requestId: entry.id,
+      status: entry.status,
+      error: entry.error_message,
+      leadsReceived: entry.leads_received,
+      contactsCreated: entry.contacts_created,
+      contactsUpdated: entry.contacts_updated,
+      contactIds: entry.contact_ids
+    };
+  }
+
+  /**
+   * Source as returned by the API: the inbound URL instead of secrets
+   */
+  static toPublic(source: LeadSource): PublicLeadSource {
+    const publicSource: Partial<LeadSource> = { ...source };
+    delete publicSource.secret_encrypted;
+    delete publicSource.settings;
+
+    const { settings } = source;
+    const baseUrl = process.env.BACKEND_URL || process.env.API_BASE_URL || 'http://localhost:3000';
+    return {
+      ...(publicSource as Omit<LeadSource, 'secret_encrypted' | 'settings'>),
+      endpoint_url: `${baseUrl}/api/webhooks/lead-sources/${source.endpoint_token}`,
+      settings: {
+        facebook_page_access_token_set: !!settings?.facebook_page_access_token,
+        facebook_verify_token: settings?.facebook_verify_token ?? null
+      }
+    };
+  }
+}
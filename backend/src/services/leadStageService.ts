@@ -501,11 +501,14 @@ export class LeadStageService {
 
   /**
    * Bulk update lead stage for multiple contacts
+   * @param options.triggerFlows Fire lead_stage_changed flows (default true). Flow actions pass false
+   *                             so two flows moving a lead into each other's trigger stage cannot loop.
    */
   static async bulkUpdateLeadStage(
     userId: string,
     contactIds: string[],
-    newStage: string | null
+    newStage: string | null,
+    options: { triggerFlows?: boolean } = {}
   ): Promise<number> {
     try {
       // Validate stage exists if not null
@@ -519,14 +522,40 @@ export class LeadStageService {
         }
       }
       
+      // Return the previous stage so stage change triggers only fire for real changes
       const result = await pool.query(
-        `UPDATE contacts 
+        `WITH previous AS (
+          SELECT id, lead_stage FROM contacts
+          WHERE user_id = $2 AND id = ANY($3::uuid[])
+          FOR UPDATE
+        )
+        UPDATE contacts c
         SET lead_stage = $1, updated_at = NOW() 
-        WHERE user_id = $2 AND id = ANY($3::uuid[])`,
+        FROM previous p
+        WHERE c.id = p.id
+        RETURNING c.id, p.lead_stage AS previous_stage`,
         [newStage, userId, contactIds]
       );
       
       logger.info(`Bulk updated ${result.rowCount} contacts to stage "${newStage}" for user ${userId}`);
+
+      if (options.triggerFlows === false) {
+        return result.rowCount || 0;
+      }
+
+      const changed = result.rows.filter(
+        (row: { previous_stage: string | null }) =>
+          (row.previous_stage || '').toLowerCase() !== (newStage || '').toLowerCase()
+      );
+      this.triggerStageChangeFlows(
+        userId,
+        changed.map((row: { id: string; previous_stage: string | null }) => ({
+          contactId: row.id,
+          previousStage: row.previous_stage
+        })),
+        newStage
+      );
+
       return result.rowCount || 0;
     } catch (error) {
       logger.error('Error bulk updating lead stage:', error);
@@ -551,7 +580,7 @@ export class LeadStageService {
   static async autoProgressStage(
     contactId: string,
     userId: string,
-    callOutcome: 'answered' | 'busy' | 'no-answer' | 'failed'
+    callOutcome: 'answered' | 'busy' | 'no-answer' | 'failed' | 'voicemail'
   ): Promise<string | null> {
     try {
       // Get current contact stage
@@ -577,7 +606,7 @@ export class LeadStageService {
           newStage = 'Contacted';
         }
       } else {
-        // Call failed (busy/no-answer/failed) - progress to "Attempted to Contact"
+        // Call failed (busy/no-answer/failed/voicemail) - progress to "Attempted to Contact"
         // Only upgrade if current stage is "New Lead" (order = 0)
         if (currentStageOrder === 0) {
           newStage = 'Attempted to Contact';
@@ -600,6 +629,12 @@ export class LeadStageService {
           fromStage: currentStage,
           toStage: newStage
         });
+
+        this.triggerStageChangeFlows(
+          userId,
+          [{ contactId, previousStage: contactResult.rows[0].lead_stage }],
+          newStage
+        );
         
         return newStage;
       }
@@ -619,6 +654,34 @@ export class LeadStageService {
       return null;
     }
   }
+
+  /**
+   * Trigger lead_stage_changed auto engagement flows (non-blocking)
+   */
+  private static triggerStageChangeFlows(
+    userId: string,
+    changes: Array<{ contactId: string; previousStage: string | null }>,
+    newStage: string | null
+  ): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    import('./autoEngagementTriggerService')
+      .then(async ({ AutoEngagementTriggerService }) => {
+        for (const change of changes) {
+          await AutoEngagementTriggerService.onLeadStageChanged(
+            change.contactId,
+            userId,
+            newStage,
+            change.previousStage
+          );
+        }
+      })
+      .catch(error => {
+        logger.error('Error triggering lead stage change flows:', error);
+      });
+  }
 }
 
 export default LeadStageService;
@@ -1,6 +1,7 @@
 import { NotificationModel, NotificationType, CreateNotificationParams } from '../models/Notification';
 import { NotificationPreferenceModel } from '../models/NotificationPreference';
 import { emailService } from './emailService';
+import { userEventService } from './userEventService';
 import { logger } from '../utils/logger';
 
 export interface SendNotificationParams {
@@ -76,7 +77,7 @@ export class NotificationService {
       const status = emailSent ? 'sent' : 'failed';
       const errorMessage = emailSent ? undefined : 'Email delivery failed';
 
-      await NotificationModel.create({
+      const notificationId = await NotificationModel.create({
         userId,
         notificationType,
         recipientEmail: email,
@@ -88,6 +89,15 @@ export class NotificationService {
         errorMessage
       });
 
+      if (notificationId) {
+        await userEventService.publish(userId, 'notification.created', {
+          notificationId,
+          notificationType,
+          status,
+          relatedCampaignId: relatedCampaignId || null
+        });
+      }
+
       logger.info('Notification processed', {
         userId,
         notificationType,
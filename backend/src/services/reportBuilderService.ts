@@ -0,0 +1,606 @@
+import * as XLSX from 'xlsx';
+import { pool } from '../config/database';
+import { toCsv } from '../utils/csv';
+import { isValidTimezone } from '../utils/timezoneUtils';
+import {
+  ReportDefinition,
+  ReportFieldType,
+  ReportFilter,
+  ReportFilterOperator,
+  ReportResult,
+  ReportSource
+} from '../types/report';
+
+export const DEFAULT_REPORT_ROW_LIMIT = 1000;
+export const MAX_REPORT_ROW_LIMIT = 10000;
+const MAX_DIMENSIONS = 5;
+const MAX_METRICS = 15;
+const MAX_FILTERS = 20;
+const MAX_IN_VALUES = 500;
+const MAX_LAST_DAYS = 3660;
+
+/**
+ * Thrown for report definitions that reference unknown fields or invalid values (mapped to 400)
+ */
+export class ReportValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+interface ReportFieldSpec {
+  label: string;
+  sql: string; // {tz} is replaced with the report timezone parameter
+  type: ReportFieldType;
+}
+
+interface ReportMetricSpec {
+  label: string;
+  sql: string;
+}
+
+interface ReportSourceSpec {
+  label: string;
+  from: string;
+  userColumn: string;
+  dateColumn: string;
+  where?: string;
+  dimensions: Record<string, ReportFieldSpec>;
+  metrics: Record<string, ReportMetricSpec>;
+  filters: Record<string, ReportFieldSpec>;
+}
+
+/**
+ * Day/week/month buckets of a timestamp column in the report timezone
+ */
+const dateDimensions = (column: string, prefix: string): Record<string, ReportFieldSpec> => ({
+  [`${prefix}_day`]: { label: 'Day', sql: `to_char(${column} AT TIME ZONE {tz}, 'YYYY-MM-DD')`, type: 'string' },
+  [`${prefix}_week`]: { label: 'Week', sql: `to_char(date_trunc('week', ${column} AT TIME ZONE {tz}), 'YYYY-MM-DD')`, type: 'string' },
+  [`${prefix}_month`]: { label: 'Month', sql: `to_char(${column} AT TIME ZONE {tz}, 'YYYY-MM')`, type: 'string' },
+  [`${prefix}_hour_of_day`]: { label: 'Hour of day', sql: `EXTRACT(HOUR FROM ${column} AT TIME ZONE {tz})::int`, type: 'number' },
+  [`${prefix}_day_of_week`]: { label: 'Day of week', sql: `to_char(${column} AT TIME ZONE {tz}, 'FMDay')`, type: 'string' }
+});
+
+// Whitelisted sources, dimensions, metrics and filters - nothing else reaches SQL
+const REPORT_SOURCES: Record<ReportSource, ReportSourceSpec> = {
+  calls: {
+    label: 'Calls',
+    from: `calls c
+      LEFT JOIN agents a ON a.id = c.agent_id
+      LEFT JOIN call_campaigns cp ON cp.id = c.campaign_id`,
+    userColumn: 'c.user_id',
+    dateColumn: 'c.created_at',
+    dimensions: {
+      status: { label: 'Status', sql: 'c.status', type: 'string' },
+      call_source: { label: 'Call source', sql: 'c.call_source', type: 'string' },
+      lead_type: { label: 'Lead type', sql: 'c.lead_type', type: 'string' },
+      hangup_by: { label: 'Hung up by', sql: 'c.hangup_by', type: 'string' },
+      agent_name: { label: 'Agent', sql: 'a.name', type: 'string' },
+      campaign_name: { label: 'Campaign', sql: 'cp.name', type: 'string' },
+      phone_number: { label: 'Phone number', sql: 'c.phone_number', type: 'string' },
+      ...dateDimensions('c.created_at', 'created')
+    },
+    metrics: {
+      total_calls: { label: 'Total calls', sql: 'COUNT(*)' },
+      completed_calls: { label: 'Completed calls', sql: "COUNT(*) FILTER (WHERE c.status = 'completed')" },
+      failed_calls: { label: 'Failed calls', sql: "COUNT(*) FILTER (WHERE c.status = 'failed')" },
+      success_rate: { label: 'Success rate (%)', sql: "ROUND(100.0 * COUNT(*) FILTER (WHERE c.status = 'completed') / NULLIF(COUNT(*), 0), 2)" },
+      avg_duration_seconds: { label: 'Avg duration (s)', sql: 'ROUND(AVG(c.duration_seconds), 1)' },
+      total_duration_minutes: { label: 'Total minutes', sql: 'SUM(c.duration_minutes)' },
+      credits_used: { label: 'Credits used', sql: 'SUM(c.credits_used)' },
+      unique_numbers: { label: 'Unique numbers', sql: 'COUNT(DISTINCT c.phone_number)' }
+    },
+    filters: {
+      status: { label: 'Status', sql: 'c.status', type: 'string' },
+      call_source: { label: 'Call source', sql: 'c.call_source', type: 'string' },
+      lead_type: { label: 'Lead type', sql: 'c.lead_type', type: 'string' },
+      agent_id: { label: 'Agent', sql: 'c.agent_id::text', type: 'string' },
+      campaign_id: { label: 'Campaign', sql: 'c.campaign_id::text', type: 'string' },
+      duration_seconds: { label: 'Duration (s)', sql: 'c.duration_seconds', type: 'number' },
+      created_at: { label: 'Created at', sql: 'c.created_at', type: 'date' }
+    }
+  },
+
+  leads: {
+    label: 'Leads',
+    from: 'lead_analytics la',
+    userColumn: 'la.user_id',
+    dateColumn: 'la.created_at',
+    where: "la.analysis_type = 'complete'",
+    dimensions: {
+      lead_stage: { label: 'Lead stage', sql: 'la.lead_stage', type: 'string' },
+      lead_status_tag: { label: 'Lead status', sql: 'la.lead_status_tag', type: 'string' },
+      intent_level: { label: 'Intent', sql: 'la.intent_level', type: 'string' },
+      urgency_level: { label: 'Urgency', sql: 'la.urgency_level', type: 'string' },
+      budget_constraint: { label: 'Budget', sql: 'la.budget_constraint', type: 'string' },
+      fit_alignment: { label: 'Fit', sql: 'la.fit_alignment', type: 'string' },
+      engagement_health: { label: 'Engagement', sql: 'la.engagement_health', type: 'string' },
+      company_name: { label: 'Company', sql: 'la.company_name', type: 'string' },
+      lead_name: { label: 'Lead name', sql: 'la.extracted_name', type: 'string' },
+      phone_number: { label: 'Phone number', sql: 'la.phone_number', type: 'string' },
+      ...dateDimensions('la.created_at', 'created')
+    },
+    metrics: {
+      total_leads: { label: 'Leads', sql: 'COUNT(*)' },
+      avg_total_score: { label: 'Avg total score', sql: 'ROUND(AVG(la.total_score), 1)' },
+      avg_intent_score: { label: 'Avg intent score', sql: 'ROUND(AVG(la.intent_score), 1)' },
+      avg_engagement_score: { label: 'Avg engagement score', sql: 'ROUND(AVG(la.engagement_score), 1)' },
+      hot_leads: { label: 'Hot leads', sql: "COUNT(*) FILTER (WHERE LOWER(la.lead_status_tag) = 'hot')" },
+      demos_booked: { label: 'Demos booked', sql: 'COUNT(*) FILTER (WHERE la.demo_book_datetime IS NOT NULL)' },
+      demo_cta_clicks: { label: 'Demo CTA clicks', sql: 'COUNT(*) FILTER (WHERE la.cta_demo_clicked = true)' },
+      pricing_cta_clicks: { label: 'Pricing CTA clicks', sql: 'COUNT(*) FILTER (WHERE la.cta_pricing_clicked = true)' },
+      escalations: { label: 'Escalated to human', sql: 'COUNT(*) FILTER (WHERE la.cta_escalated_to_human = true)' },
+      calls_analyzed: { label: 'Calls analyzed', sql: 'SUM(la.previous_calls_analyzed)' }
+    },
+    filters: {
+      lead_stage: { label: 'Lead stage', sql: 'la.lead_stage', type: 'string' },
+      lead_status_tag: { label: 'Lead status', sql: 'la.lead_status_tag', type: 'string' },
+      intent_level: { label: 'Intent', sql: 'la.intent_level', type: 'string' },
+      total_score: { label: 'Total score', sql: 'la.total_score', type: 'number' },
+      intent_score: { label: 'Intent score', sql: 'la.intent_score', type: 'number' },
+      demo_booked: { label: 'Demo booked', sql: '(la.demo_book_datetime IS NOT NULL)', type: 'boolean' },
+      created_at: { label: 'Created at', sql: 'la.created_at', type: 'date' }
+    }
+  },
+
+  contacts: {
+    label: 'Contacts',
+    from: 'contacts ct',
+    userColumn: 'ct.user_id',
+    dateColumn: 'ct.created_at',
+    dimensions: {
+      company: { label: 'Company', sql: 'ct.company', type: 'string' },
+      city: { label: 'City', sql: 'ct.city', type: 'string' },
+      country: { label: 'Country', sql: 'ct.country', type: 'string' },
+      auto_creation_source: { label: 'Creation source', sql: "COALESCE(ct.auto_creation_source, 'manual')", type: 'string' },
+      is_customer: { label: 'Customer', sql: 'ct.is_customer', type: 'boolean' },
+      ...dateDimensions('ct.created_at', 'created')
+    },
+    metrics: {
+      total_contacts: { label: 'Contacts', sql: 'COUNT(*)' },
+      customers: { label: 'Customers', sql: 'COUNT(*) FILTER (WHERE ct.is_customer = true)' },
+      auto_created: { label: 'Auto-created', sql: 'COUNT(*) FILTER (WHERE ct.is_auto_created = true)' },
+      with_email: { label: 'With email', sql: "COUNT(*) FILTER (WHERE ct.email IS NOT NULL AND ct.email <> '')" },
+      contacted: { label: 'Contacted', sql: 'COUNT(*) FILTER (WHERE ct.last_contact_at IS NOT NULL)' },
+      busy_attempts: { label: 'Busy attempts', sql: 'SUM(ct.call_attempted_busy)' },
+      no_answer_attempts: { label: 'No-answer attempts', sql: 'SUM(ct.call_attempted_no_answer)' }
+    },
+    filters: {
+      company: { label: 'Company', sql: 'ct.company', type: 'string' },
+      city: { label: 'City', sql: 'ct.city', type: 'string' },
+      country: { label: 'Country', sql: 'ct.country', type: 'string' },
+      tags: { label: 'Tags', sql: 'ct.tags', type: 'string_array' },
+      is_customer: { label: 'Customer', sql: 'ct.is_customer', type: 'boolean' },
+      auto_creation_source: { label: 'Creation source', sql: "COALESCE(ct.auto_creation_source, 'manual')", type: 'string' },
+      created_at: { label: 'Created at', sql: 'ct.created_at', type: 'date' },
+      last_contact_at: { label: 'Last contacted at', sql: 'ct.last_contact_at', type: 'date' }
+    }
+  },
+
+  campaigns: {
+    label: 'Call campaigns',
+    from: `call_campaigns cp
+      LEFT JOIN agents a ON a.id = cp.agent_id`,
+    userColumn: 'cp.user_id',
+    dateColumn: 'cp.created_at',
+    dimensions: {
+      campaign_name: { label: 'Campaign', sql: 'cp.name', type: 'string' },
+      status: { label: 'Status', sql: 'cp.status', type: 'string' },
+      agent_name: { label: 'Agent', sql: 'a.name', type: 'string' },
+      ...dateDimensions('cp.created_at', 'created')
+    },
+    metrics: {
+      total_campaigns: { label: 'Campaigns', sql: 'COUNT(*)' },
+      total_contacts: { label: 'Contacts', sql: 'SUM(cp.total_contacts)' },
+      completed_calls: { label: 'Completed calls', sql: 'SUM(cp.completed_calls)' },
+      successful_calls: { label: 'Successful calls', sql: 'SUM(cp.successful_calls)' },
+      failed_calls: { label: 'Failed calls', sql: 'SUM(cp.failed_calls)' },
+      success_rate: { label: 'Success rate (%)', sql: 'ROUND(100.0 * SUM(cp.successful_calls) / NULLIF(SUM(cp.completed_calls), 0), 2)' },
+      completion_rate: { label: 'Completion rate (%)', sql: 'ROUND(100.0 * SUM(cp.completed_calls) / NULLIF(SUM(cp.total_contacts), 0), 2)' }
+    },
+    filters: {
+      status: { label: 'Status', sql: 'cp.status', type: 'string' },
+      campaign_id: { label: 'Campaign', sql: 'cp.id::text', type: 'string' },
+      agent_id: { label: 'Agent', sql: 'cp.agent_id::text', type: 'string' },
+      created_at: { label: 'Created at', sql: 'cp.created_at', type: 'date' }
+    }
+  },
+
+  credit_transactions: {
+    label: 'Credit transactions',
+    from: 'credit_transactions tx',
+    userColumn: 'tx.user_id',
+    dateColumn: 'tx.created_at',
+    dimensions: {
+      type: { label: 'Type', sql: 'tx.type', type: 'string' },
+      ...dateDimensions('tx.created_at', 'created')
+    },
+    metrics: {
+      transactions: { label: 'Transactions', sql: 'COUNT(*)' },
+      credits_added: { label: 'Credits added', sql: 'COALESCE(SUM(tx.amount) FILTER (WHERE tx.amount > 0), 0)' },
+      credits_spent: { label: 'Credits spent', sql: 'COALESCE(-SUM(tx.amount) FILTER (WHERE tx.amount < 0), 0)' },
+      net_change: { label: 'Net change', sql: 'SUM(tx.amount)' },
+      closing_balance: { label: 'Closing balance', sql: '(ARRAY_AGG(tx.balance_after ORDER BY tx.created_at DESC))[1]' }
+    },
+    filters: {
+      type: { label: 'Type', sql: 'tx.type', type: 'string' },
+      amount: { label: 'Amount', sql: 'tx.amount', type: 'number' },
+      created_at: { label: 'Created at', sql: 'tx.created_at', type: 'date' }
+    }
+  }
+};
+
+const OPERATORS_BY_TYPE: Record<ReportFieldType, ReportFilterOperator[]> = {
+  string: ['eq', 'neq', 'in', 'not_in', 'contains', 'is_empty', 'is_not_empty'],
+  number: ['eq', 'neq', 'in', 'gt', 'gte', 'lt', 'lte', 'between', 'is_empty', 'is_not_empty'],
+  boolean: ['eq'],
+  date: ['gt', 'gte', 'lt', 'lte', 'between', 'is_empty', 'is_not_empty'],
+  string_array: ['contains', 'is_empty', 'is_not_empty']
+};
+
+const COMPARISON_SQL: Partial<Record<ReportFilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+const PARAM_CASTS: Record<ReportFieldType, string> = {
+  string: 'text',
+  number: 'numeric',
+  boolean: 'boolean',
+  date: 'timestamptz',
+  string_array: 'text'
+};
+
+// Report builder - validates declarative report definitions and compiles them to parameterized SQL
+export class ReportBuilderService {
+  /**
+   * Sources with their selectable dimensions, metrics and filters (for the report builder UI)
+   */
+  static getCatalog() {
+    return Object.entries(REPORT_SOURCES).map(([source, spec]) => ({
+      source,
+      label: spec.label,
+      dimensions: Object.entries(spec.dimensions).map(([key, field]) => ({ key, label: field.label, type: field.type })),
+      metrics: Object.entries(spec.metrics).map(([key, metric]) => ({ key, label: metric.label })),
+      filters: Object.entries(spec.filters).map(([key, field]) => ({
+        key,
+        label: field.label,
+        type: field.type,
+        operators: OPERATORS_BY_TYPE[field.type]
+      }))
+    }));
+  }
+
+  /**
+   * Validate a definition against the whitelist
+   * @returns the normalized definition (unknown properties dropped)
+   * @throws ReportValidationError
+   */
+  static validateDefinition(input: unknown): ReportDefinition {
+    if (!input || typeof input !== 'object') {
+      throw new ReportValidationError('definition is required');
+    }
+    const raw = input as Record<string, any>;
+
+    const spec = REPORT_SOURCES[raw.source as ReportSource];
+    if (!spec || !Object.prototype.hasOwnProperty.call(REPORT_SOURCES, raw.source)) {
+      throw new ReportValidationError(`source must be one of: ${Object.keys(REPORT_SOURCES).join(', ')}`);
+    }
+
+    const dimensions = this.validateKeys(raw.dimensions ?? [], spec.dimensions, 'dimensions', MAX_DIMENSIONS);
+    const metrics = this.validateKeys(raw.metrics, spec.metrics, 'metrics', MAX_METRICS);
+    if (metrics.length === 0) {
+      throw new ReportValidationError('At least one metric is required');
+    }
+
+    if (raw.filters !== undefined && !Array.isArray(raw.filters)) {
+      throw new ReportValidationError('filters must be an array');
+    }
+    const filters = (raw.filters || []) as unknown[];
+    if (filters.length > MAX_FILTERS) {
+      throw new ReportValidationError(`At most ${MAX_FILTERS} filters are allowed`);
+    }
+
+    const definition: ReportDefinition = {
+      source: raw.source,
+      dimensions,
+      metrics,
+      filters: filters.map(filter => this.validateFilter(filter, spec))
+    };
+
+    if (raw.date_range) {
+      definition.date_range = this.validateDateRange(raw.date_range);
+    }
+
+    if (raw.sort !== undefined) {
+      if (!Array.isArray(raw.sort)) {
+        throw new ReportValidationError('sort must be an array');
+      }
+      definition.sort = raw.sort.map((sort: any) => {
+        if (!sort || (!dimensions.includes(sort.field) && !metrics.includes(sort.field))) {
+          throw new ReportValidationError('sort fields must be selected dimensions or metrics');
+        }
+        return { field: sort.field, direction: sort.direction === 'desc' ? 'desc' : 'asc' };
+      });
+    }
+
+    if (raw.limit !== undefined && raw.limit !== null) {
+      const limit = Number(raw.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_ROW_LIMIT) {
+        throw new ReportValidationError(`limit must be an integer between 1 and ${MAX_REPORT_ROW_LIMIT}`);
+      }
+      definition.limit = limit;
+    }
+
+    return definition;
+  }
+
+  /**
+   * Compile a validated definition to a parameterized query
+   * @param userId owner whose data is reported on; null only for system-wide admin reports
+   */
+  static compile(definition: ReportDefinition, userId: string | null, timezone: string): { sql: string; params: unknown[] } {
+    const spec = REPORT_SOURCES[definition.source];
+    const params: unknown[] = [isValidTimezone(timezone) ? timezone : 'UTC'];
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const withTimezone = (sql: string) => sql.replace(/\{tz\}/g, '$1::text');
+
+    const select = [
+      ...definition.dimensions.map(key => `${withTimezone(spec.dimensions[key].sql)} AS "${key}"`),
+      ...definition.metrics.map(key => `(${spec.metrics[key].sql})::float8 AS "${key}"`)
+    ];
+
+    const where: string[] = [];
+    if (userId !== null) {
+      where.push(`${spec.userColumn} = ${addParam(userId)}`);
+    }
+    if (spec.where) {
+      where.push(spec.where);
+    }
+
+    const range = definition.date_range;
+    if (range?.last_days) {
+      where.push(`${spec.dateColumn} >= NOW() - (${addParam(range.last_days)}::integer * INTERVAL '1 day')`);
+    }
+    if (range?.start) {
+      where.push(`${spec.dateColumn} >= ${addParam(range.start)}::timestamptz`);
+    }
+    if (range?.end) {
+      where.push(`${spec.dateColumn} <= ${addParam(range.end)}::timestamptz`);
+    }
+
+    for (const filter of definition.filters || []) {
+      where.push(this.compileFilter(filter, spec.filters[filter.field], addParam));
+    }
+
+    let sql = `SELECT ${select.join(', ')} FROM ${spec.from}`;
+    if (where.length > 0) {
+      sql += ` WHERE ${where.join(' AND ')}`;
+    }
+    if (definition.dimensions.length > 0) {
+      sql += ` GROUP BY ${definition.dimensions.map((_, index) => index + 1).join(', ')}`;
+    }
+
+    const sort = definition.sort && definition.sort.length > 0
+      ? definition.sort
+      : definition.dimensions.map(field => ({ field, direction: 'asc' as const }));
+    if (sort.length > 0) {
+      sql += ` ORDER BY ${sort.map(s => `"${s.field}" ${s.direction === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`).join(', ')}`;
+    }
+
+    // One extra row tells whether the result was truncated
+    sql += ` LIMIT ${addParam((definition.limit || DEFAULT_REPORT_ROW_LIMIT) + 1)}`;
+
+    return { sql, params };
+  }
+
+  /**
+   * Run a report on a user's data
+   */
+  static async runReport(userId: string, input: unknown, timezone: string = 'UTC'): Promise<ReportResult> {
+    return this.execute(this.validateDefinition(input), userId, timezone);
+  }
+
+  /**
+   * Run a report across all users (admin reporting)
+   */
+  static async runSystemReport(input: unknown, timezone: string = 'UTC'): Promise<ReportResult> {
+    return this.execute(this.validateDefinition(input), null, timezone);
+  }
+
+  static toCsv(result: ReportResult): string {
+    return toCsv(
+      result.columns.map(column => column.label),
+      result.rows.map(row => result.columns.map(column => row[column.key]))
+    );
+  }
+
+  static toXlsx(result: ReportResult, sheetName: string = 'Report'): Buffer {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      result.columns.map(column => column.label),
+      ...result.rows.map(row => result.columns.map(column => row[column.key] ?? ''))
+    ]);
+    const workbook = XLSX.utils.book_new();
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Report');
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+
+  private static async execute(definition: ReportDefinition, userId: string | null, timezone: string): Promise<ReportResult> {
+    const spec = REPORT_SOURCES[definition.source];
+    const { sql, params } = this.compile(definition, userId, timezone);
+    const result = await pool.query(sql, params);
+
+    const limit = definition.limit || DEFAULT_REPORT_ROW_LIMIT;
+    const rows = result.rows.slice(0, limit);
+
+    return {
+      columns: [
+        ...definition.dimensions.map(key => ({ key, label: spec.dimensions[key].label, kind: 'dimension' as const })),
+        ...definition.metrics.map(key => ({ key, label: spec.metrics[key].label, kind: 'metric' as const }))
+      ],
+      rows,
+      row_count: rows.length,
+      truncated: result.rows.length > limit,
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  private static validateKeys(
+    value: unknown,
+    allowed: Record<string, unknown>,
+    name: string,
+    max: number
+  ): string[] {
+    if (!Array.isArray(value)) {
+      throw new ReportValidationError(`${name} must be an array`);
+    }
+
+    const keys = [...new Set(value)];
+    const invalid = keys.filter(key => typeof key !== 'string' || !Object.prototype.hasOwnProperty.call(allowed, key));
+    if (invalid.length > 0) {
+      throw new ReportValidationError(`Unknown ${name}: ${invalid.join(', ')}`);
+    }
+    if (keys.length > max) {
+      throw new ReportValidationError(`At most ${max} ${name} are allowed`);
+    }
+
+    return keys as string[];
+  }
+
+  private static validateFilter(input: unknown, spec: ReportSourceSpec): ReportFilter {
+    const filter = (input || {}) as Record<string, any>;
+    if (typeof filter.field !== 'string' || !Object.prototype.hasOwnProperty.call(spec.filters, filter.field)) {
+      throw new ReportValidationError(`Unknown filter field: ${filter.field}`);
+    }
+
+    const field = spec.filters[filter.field];
+    const operator = filter.operator as ReportFilterOperator;
+    if (!OPERATORS_BY_TYPE[field.type].includes(operator)) {
+      throw new ReportValidationError(
+        `Operator for ${filter.field} must be one of: ${OPERATORS_BY_TYPE[field.type].join(', ')}`
+      );
+    }
+
+    if (operator === 'is_empty' || operator === 'is_not_empty') {
+      return { field: filter.field, operator };
+    }
+
+    const value = filter.value;
+    if (operator === 'in' || operator === 'not_in') {
+      if (!Array.isArray(value) || value.length === 0 || value.length > MAX_IN_VALUES) {
+        throw new ReportValidationError(`${filter.field} ${operator} needs a list of 1-${MAX_IN_VALUES} values`);
+      }
+      return { field: filter.field, operator, value: value.map(item => this.validateFilterValue(item, field, filter.field)) };
+    }
+    if (operator === 'between') {
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new ReportValidationError(`${filter.field} between needs [from, to]`);
+      }
+      return { field: filter.field, operator, value: value.map(item => this.validateFilterValue(item, field, filter.field)) };
+    }
+
+    return { field: filter.field, operator, value: this.validateFilterValue(value, field, filter.field) };
+  }
+
+  private static validateFilterValue(value: unknown, field: ReportFieldSpec, name: string): string | number | boolean {
+    switch (field.type) {
+      case 'number': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+          throw new ReportValidationError(`${name} must be a number`);
+        }
+        return number;
+      }
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          throw new ReportValidationError(`${name} must be true or false`);
+        }
+        return value;
+      case 'date':
+        if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+          throw new ReportValidationError(`${name} must be a date`);
+        }
+        return value;
+      default:
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          throw new ReportValidationError(`${name} must be text`);
+        }
+        if (String(value).length > 500) {
+          throw new ReportValidationError(`${name} is too long`);
+        }
+        return String(value);
+    }
+  }
+
+  private static validateDateRange(input: unknown): ReportDefinition['date_range'] {
+    const range = input as Record<string, unknown>;
+    const result: NonNullable<ReportDefinition['date_range']> = {};
+
+    if (range.last_days !== undefined && range.last_days !== null) {
+      const lastDays = Number(range.last_days);
+      if (!Number.isInteger(lastDays) || lastDays < 1 || lastDays > MAX_LAST_DAYS) {
+        throw new ReportValidationError(`date_range.last_days must be an integer between 1 and ${MAX_LAST_DAYS}`);
+      }
+      result.last_days = lastDays;
+    }
+
+    for (const key of ['start', 'end'] as const) {
+      const value = range[key];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+        throw new ReportValidationError(`date_range.${key} must be a date`);
+      }
+      result[key] = value;
+    }
+
+    return result;
+  }
+
+  private static compileFilter(
+    filter: ReportFilter,
+    field: ReportFieldSpec,
+    addParam: (value: unknown) => string
+  ): string {
+    const cast = PARAM_CASTS[field.type];
+
+    switch (filter.operator) {
+      case 'is_empty':
+        return field.type === 'string_array'
+          ? `COALESCE(cardinality(${field.sql}), 0) = 0`
+          : field.type === 'string'
+            ? `(${field.sql} IS NULL OR ${field.sql} = '')`
+            : `${field.sql} IS NULL`;
+      case 'is_not_empty':
+        return field.type === 'string_array'
+          ? `COALESCE(cardinality(${field.sql}), 0) > 0`
+          : field.type === 'string'
+            ? `(${field.sql} IS NOT NULL AND ${field.sql} <> '')`
+            : `${field.sql} IS NOT NULL`;
+      case 'in':
+        return `${field.sql} = ANY(${addParam(filter.value)}::${cast}[])`;
+      case 'not_in':
+        return `(${field.sql} IS NULL OR ${field.sql} <> ALL(${addParam(filter.value)}::${cast}[]))`;
+      case 'contains':
+        return field.type === 'string_array'
+          ? `${addParam(filter.value)}::text = ANY(${field.sql})`
+          : `${field.sql} ILIKE '%' || ${addParam(String(filter.value).replace(/[\\%_]/g, '\\$&'))} || '%'`;
+      case 'between': {
+        const [from, to] = filter.value as unknown[];
+        return `${field.sql} BETWEEN ${addParam(from)}::${cast} AND ${addParam(to)}::${cast}`;
+      }
+      default:
+        return `${field.sql} ${COMPARISON_SQL[filter.operator]} ${addParam(filter.value)}::${cast}`;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { logger } from '../utils/logger';
+import { SavedReportModel } from '../models/SavedReport';
+import { SavedReportService } from './savedReportService';
+
+/**
+ * Service that emails saved reports on their cron schedule
+ *
+ * The next run of each scheduled report is stored on saved_reports.next_run_at, so
+ * runs are claimed from the database (safe with several replicas) and reports that
+ * became due while the server was down are sent on startup.
+ */
+export class ReportSchedulerService {
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+  private readonly POLL_INTERVAL = 60 * 1000; // Check every minute
+  private readonly BATCH_SIZE = 10;
+  private readonly LEASE_MINUTES = 15; // Claimed reports are retried after this if a run crashes
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    if (this.pollIntervalId) {
+      return; // Already running
+    }
+
+    this.pollIntervalId = setInterval(() => {
+      this.processDueReports().catch(error => {
+        logger.error('Error processing scheduled reports', { error: error.message });
+      });
+    }, this.POLL_INTERVAL);
+
+    this.processDueReports().catch(error => {
+      logger.error('Error processing scheduled reports on startup', { error: error.message });
+    });
+
+    logger.info('Report scheduler started', {
+      pollInterval: `${this.POLL_INTERVAL / 1000} seconds`
+    });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.pollIntervalId) {
+      clearInterval(this.pollIntervalId);
+      this.pollIntervalId = null;
+      logger.info('Report scheduler stopped');
+    }
+  }
+
+  /**
+   * Send all scheduled reports that are due
+   * Returns the number of reports processed.
+   */
+  async processDueReports(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+
+    try {
+      let claimed: number;
+      do {
+        const reports = await SavedReportModel.claimDueReports(this.BATCH_SIZE, this.LEASE_MINUTES);
+        claimed = reports.length;
+
+        for (const report of reports) {
+          await SavedReportService.runScheduledReport(report);
+          processed++;
+        }
+      } while (claimed === this.BATCH_SIZE);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+}
+
+export const reportSchedulerService = new ReportSchedulerService();
@@ -0,0 +1,209 @@
+import { SavedReportModel, SavedReportSchedule } from '../models/SavedReport';
+import { ReportBuilderService, ReportValidationError } from './reportBuilderService';
+import { getNextCronRun, isValidCronExpression } from '../utils/cronSchedule';
+import { isValidTimezone } from '../utils/timezoneUtils';
+import { isValidEmail } from '../utils/validation';
+import { logger } from '../utils/logger';
+import { ReportFormat, ReportResult, SavedReport, SavedReportInput, ReportScheduleInput } from '../types/report';
+
+export const MAX_SAVED_REPORTS_PER_USER = 100;
+export const MAX_REPORT_RECIPIENTS = 20;
+const MIN_SCHEDULE_INTERVAL_MS = 60 * 60 * 1000; // Scheduled reports are sent at most hourly
+
+export interface ReportExport {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Saved report service - per-user report definitions, exports and scheduled email delivery
+export class SavedReportService {
+  static async listReports(userId: string): Promise<SavedReport[]> {
+    return await SavedReportModel.findByUser(userId);
+  }
+
+  static async getReport(userId: string, id: string): Promise<SavedReport | null> {
+    return await SavedReportModel.findById(id, userId);
+  }
+
+  /**
+   * Save a report definition, optionally with an email schedule
+   * @throws ReportValidationError
+   */
+  static async createReport(userId: string, input: SavedReportInput, defaultTimezone: string = 'UTC'): Promise<SavedReport> {
+    const name = this.validateName(input.name);
+    const definition = ReportBuilderService.validateDefinition(input.definition);
+    const schedule = input.schedule ? this.validateSchedule(input.schedule, defaultTimezone) : null;
+
+    if (await SavedReportModel.countByUser(userId) >= MAX_SAVED_REPORTS_PER_USER) {
+      throw new ReportValidationError(`You can save at most ${MAX_SAVED_REPORTS_PER_USER} reports`);
+    }
+
+    const report = await SavedReportModel.create({
+      userId,
+      name,
+      description: input.description?.trim() || null,
+      definition,
+      schedule
+    });
+
+    logger.info('[SavedReportService] Report saved', { userId, reportId: report.id, scheduled: !!schedule });
+
+    return report;
+  }
+
+  /**
+   * Update a saved report; schedule: null removes the schedule
+   * @throws ReportValidationError
+   */
+  static async updateReport(
+    userId: string,
+    id: string,
+    input: SavedReportInput,
+    defaultTimezone: string = 'UTC'
+  ): Promise<SavedReport | null> {
+    return await SavedReportModel.update(id, userId, {
+      name: input.name !== undefined ? this.validateName(input.name) : undefined,
+      description: input.description !== undefined ? input.description?.trim() || null : undefined,
+      definition: input.definition !== undefined ? ReportBuilderService.validateDefinition(input.definition) : undefined,
+      schedule: input.schedule === undefined
+        ? undefined
+        : input.schedule === null ? null : this.validateSchedule(input.schedule, defaultTimezone)
+    });
+  }
+
+  static async deleteReport(userId: string, id: string): Promise<boolean> {
+    return await SavedReportModel.delete(id, userId);
+  }
+
+  /**
+   * Render a report result as a downloadable file
+   */
+  static toExport(result: ReportResult, name: string, format: ReportFormat): ReportExport {
+    const slug = name.replace(/[^a-z0-9_-]+/gi, '_').replace(/^_+|_+$/g, '') || 'report';
+    const filename = `${slug}_${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return {
+      filename,
+      content: format === 'xlsx'
+        ? ReportBuilderService.toXlsx(result, name)
+        : Buffer.from(ReportBuilderService.toCsv(result), 'utf8'),
+      contentType: CONTENT_TYPES[format]
+    };
+  }
+
+  /**
+   * Run a scheduled report, email it to its recipients and schedule the next run
+   */
+  static async runScheduledReport(report: SavedReport): Promise<void> {
+    const nextRunAt = report.schedule_cron
+      ? getNextCronRun(report.schedule_cron, report.schedule_timezone)
+      : null;
+
+    try {
+      const result = await ReportBuilderService.runReport(report.user_id, report.definition, report.schedule_timezone);
+      const attachment = this.toExport(result, report.name, report.schedule_format);
+
+      const { emailService } = await import('./emailService');
+      const sent = await emailService.sendScheduledReportEmail({
+        recipients: report.schedule_recipients,
+        reportName: report.name,
+        description: report.description,
+        rowCount: result.row_count,
+        truncated: result.truncated,
+        attachment
+      });
+
+      if (sent === 0) {
+        throw new Error('Report email could not be sent to any recipient');
+      }
+
+      await SavedReportModel.recordRun(report.id, 'success', null, nextRunAt);
+
+      logger.info('[SavedReportService] Scheduled report sent', {
+        reportId: report.id,
+        userId: report.user_id,
+        rows: result.row_count,
+        recipients: sent
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await SavedReportModel.recordRun(report.id, 'failed', message, nextRunAt);
+
+      logger.error('[SavedReportService] Scheduled report failed', {
+        reportId: report.id,
+        userId: report.user_id,
+        error: message
+      });
+    }
+  }
+
+  private static validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > 255) {
+      throw new ReportValidationError('name is required (max 255 characters)');
+    }
+    return trimmed;
+  }
+
+  private static validateSchedule(input: ReportScheduleInput, defaultTimezone: string): SavedReportSchedule {
+    const cron = typeof input.cron === 'string' ? input.cron.trim() : '';
+    if (!isValidCronExpression(cron)) {
+      throw new ReportValidationError('schedule.cron must be a 5-field cron expression (e.g. "0 9 * * 1")');
+    }
+
+    const timezone = input.timezone || defaultTimezone;
+    if (!isValidTimezone(timezone)) {
+      throw new ReportValidationError('schedule.timezone must be a valid IANA timezone');
+    }
+
+    const format = input.format || 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new ReportValidationError('schedule.format must be csv or xlsx');
+    }
+
+    const recipients = Array.isArray(input.recipients)
+      ? [...new Set(input.recipients.map(email => String(email).trim().toLowerCase()).filter(Boolean))]
+      : [];
+    if (recipients.length === 0 || recipients.length > MAX_REPORT_RECIPIENTS) {
+      throw new ReportValidationError(`schedule.recipients must list 1-${MAX_REPORT_RECIPIENTS} email addresses`);
+    }
+    const invalid = recipients.filter(email => !isValidEmail(email));
+    if (invalid.length > 0) {
+      throw new ReportValidationError(`Invalid recipient emails: ${invalid.join(', ')}`);
+    }
+
+    const nextRunAt = getNextCronRun(cron, timezone);
+    if (!nextRunAt) {
+      throw new ReportValidationError('schedule.cron never runs');
+    }
+    // Check a few consecutive runs: gaps can differ within a day (e.g. "0,30 9 * * *")
+    let previousRunAt = nextRunAt;
+    for (let run = 0; run < 10; run++) {
+      const followingRunAt = getNextCronRun(cron, timezone, previousRunAt);
+      if (!followingRunAt) {
+        break;
+      }
+      if (followingRunAt.getTime() - previousRunAt.getTime() < MIN_SCHEDULE_INTERVAL_MS) {
+        throw new ReportValidationError('Scheduled reports can be sent at most once per hour');
+      }
+      previousRunAt = followingRunAt;
+    }
+
+    const enabled = input.enabled !== false;
+
+    return {
+      cron,
+      timezone,
+      format,
+      recipients,
+      enabled,
+      nextRunAt: enabled ? nextRunAt : null
+    };
+  }
+}
@@ -0,0 +1,381 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import {
+  CallWebhookPayload,
+  VoiceAgent,
+  VoiceAgentDefinition,
+  VoiceCallRequest,
+  VoiceCallResponse,
+  VoiceCallStatus,
+  VoiceProvider
+} from '../types/voiceProvider';
+
+export type SimulatedOutcome = 'completed' | 'voicemail' | 'no-answer' | 'busy' | 'failed';
+
+export interface SimulatorOptions {
+  outcomes?: Partial<Record<SimulatedOutcome, number>>; // Relative weights
+  timeScale?: number; // 0.1 = ten times faster than real time
+  random?: () => number;
+  deliver?: (payload: CallWebhookPayload) => Promise<void>;
+}
+
+interface SimulatedCall {
+  request: VoiceCallRequest;
+  executionId: string;
+  outcome: SimulatedOutcome;
+  status: string;
+  createdAt: Date;
+  answeredAt?: Date;
+  durationSeconds: number;
+  transcript: string | null;
+  summary: string | null;
+  timers: ReturnType<typeof setTimeout>[];
+  delivery: Promise<void>; // Webhooks are delivered one after another, in lifecycle order
+}
+
+const DEFAULT_OUTCOMES: Record<SimulatedOutcome, number> = {
+  completed: 65,
+  voicemail: 5,
+  'no-answer': 15,
+  busy: 10,
+  failed: 5
+};
+
+// The first webhook must not arrive before CallService has stored the execution ID
+const MIN_STEP_MS = 1000;
+
+const CONVERSATIONS: Array<{ summary: string; lines: (name: string) => string[] }> = [
+  {
+    summary: 'Lead is interested and asked for a demo next week.',
+    lines: name => [
+      `assistant: Hi ${name}, this is Ava calling about your enquiry. Is now a good time?`,
+      'user: Yes, I have a few minutes.',
+      'assistant: Great. What made you look for a solution like ours?',
+      'user: Our team spends hours every day calling leads by hand.',
+      'assistant: That is exactly what we help with. Would a short demo next week work for you?',
+      'user: Sure, Tuesday afternoon would be good.',
+      'assistant: Perfect, I will send an invite for Tuesday. Thanks for your time!'
+    ]
+  },
+  {
+    summary: 'Lead asked to be called back later in the month.',
+    lines: name => [
+      `assistant: Hello ${name}, I am calling to follow up on your request for pricing.`,
+      'user: I am in the middle of something right now.',
+      'assistant: No problem. When would be a better time to talk?',
+      'user: Call me back in a couple of weeks, after our budget review.',
+      'assistant: Will do. I will reach out after your budget review. Have a good day!'
+    ]
+  },
+  {
+    summary: 'Lead is not interested at the moment.',
+    lines: name => [
+      `assistant: Hi ${name}, I am reaching out about automating your sales calls.`,
+      'user: Thanks, but we already have a provider we are happy with.',
+      'assistant: Understood. May I check back with you in a few months?',
+      'user: No, please remove me from your list.',
+      'assistant: Of course, I have noted that. Sorry for the interruption.'
+    ]
+  }
+];
+
+const VOICEMAIL_GREETING = (name: string) => [
+  `user: Hi, you have reached ${name}. I can't take your call right now, please leave a message after the tone.`,
+  `assistant: Hi ${name}, this is Ava following up on your enquiry. I will try you again later. Thank you!`
+];
+
+/**
+ * Local voice provider simulator
+ *
+ * Places no real calls: each call is given an outcome from the configured distribution
+ * and the matching webhook sequence (initiated, ringing, in-progress, call-disconnected
+ * with a transcript, completed) is delivered to the webhook pipeline on a timer, so
+ * campaigns can be dry-run end to end. Calls live in memory and end on restart.
+ */
+export class SimulatorVoiceProvider implements VoiceProvider {
+  readonly name = 'simulator' as const;
+
+  private agents = new Map<string, VoiceAgent>();
+  private calls = new Map<string, SimulatedCall>();
+  private readonly outcomes: Record<SimulatedOutcome, number>;
+  private readonly timeScale: number;
+  private readonly random: () => number;
+  private readonly deliverWebhook: (payload: CallWebhookPayload) => Promise<void>;
+
+  constructor(options: SimulatorOptions = {}) {
+    // Outcomes left out of a configured distribution don't happen
+    const configured = options.outcomes || parseOutcomes(process.env.VOICE_SIMULATOR_OUTCOMES);
+    this.outcomes = Object.keys(configured).length > 0
+      ? { completed: 0, voicemail: 0, 'no-answer': 0, busy: 0, failed: 0, ...configured }
+      : { ...DEFAULT_OUTCOMES };
+    this.timeScale = options.timeScale ?? (Number(process.env.VOICE_SIMULATOR_TIME_SCALE) || 0.1);
+    this.random = options.random || Math.random;
+    this.deliverWebhook = options.deliver || (async payload => {
+      const { webhookService } = await import('./webhookService');
+      await webhookService.processWebhook(payload, payload.status);
+    });
+
+    if (Object.values(this.outcomes).every(weight => weight <= 0)) {
+      throw new Error('VOICE_SIMULATOR_OUTCOMES must give at least one outcome a positive weight');
+    }
+  }
+
+  async getAgent(agentId: string): Promise<VoiceAgent> {
+    // Agents created before switching to the simulator are not known here; accept them
+    return this.agents.get(agentId) || { agent_id: agentId, status: 'active' };
+  }
+
+  async createAgent(definition: VoiceAgentDefinition): Promise<VoiceAgent> {
+    const agent: VoiceAgent = {
+      agent_id: `sim_agent_${crypto.randomUUID()}`,
+      status: 'created',
+      agent_config: definition.agent_config,
+      agent_prompts: definition.agent_prompts,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    this.agents.set(agent.agent_id, agent);
+    return agent;
+  }
+
+  async updateAgent(agentId: string, definition: Partial<VoiceAgentDefinition>): Promise<VoiceAgent> {
+    const existing = await this.getAgent(agentId);
+    const agent: VoiceAgent = {
+      ...existing,
+      agent_config: definition.agent_config || existing.agent_config,
+      agent_prompts: definition.agent_prompts || existing.agent_prompts,
+      updated_at: new Date().toISOString()
+    };
+    this.agents.set(agentId, agent);
+    return agent;
+  }
+
+  async updateAgentPrompt(agentId: string, systemPrompt: string): Promise<void> {
+    await this.updateAgent(agentId, { agent_prompts: { task_1: { system_prompt: systemPrompt } } });
+  }
+
+  async deleteAgent(agentId: string): Promise<void> {
+    this.agents.delete(agentId);
+  }
+
+  async placeCall(request: VoiceCallRequest): Promise<VoiceCallResponse> {
+    if (!request.agentId || !request.toPhoneNumber) {
+      throw new Error('Agent ID and recipient phone number are required');
+    }
+
+    const outcome = this.pickOutcome();
+    const durationSeconds = outcome === 'completed'
+      ? 30 + Math.floor(this.random() * 210)
+      : outcome === 'voicemail' ? 15 + Math.floor(this.random() * 15) : 0;
+    const conversation = CONVERSATIONS[Math.floor(this.random() * CONVERSATIONS.length)];
+    const leadName = request.userData?.lead_name || 'there';
+    const call: SimulatedCall = {
+      request,
+      executionId: `sim_${crypto.randomUUID()}`,
+      outcome,
+      status: 'queued',
+      createdAt: new Date(),
+      durationSeconds,
+      transcript: outcome === 'completed'
+        ? conversation.lines(leadName).join('\n')
+        : outcome === 'voicemail' ? VOICEMAIL_GREETING(leadName).join('\n') : null,
+      summary: outcome === 'completed' ? conversation.summary : null,
+      timers: [],
+      delivery: Promise.resolve()
+    };
+    this.calls.set(call.executionId, call);
+
+    this.scheduleLifecycle(call);
+
+    logger.info('[VoiceSimulator] Call placed', {
+      executionId: call.executionId,
+      agentId: request.agentId,
+      outcome,
+      durationSeconds
+    });
+
+    return { executionId: call.executionId, status: 'queued' };
+  }
+
+  async stopCall(executionId: string): Promise<void> {
+    const call = this.calls.get(executionId);
+    if (!call) {
+      throw new Error('Call not found');
+    }
+
+    call.timers.forEach(timer => clearTimeout(timer));
+    call.timers = [];
+
+    if (call.answeredAt) {
+      call.durationSeconds = Math.max(1, Math.round((Date.now() - call.answeredAt.getTime()) / 1000 / this.timeScale));
+      call.transcript = call.transcript?.split('\n').slice(0, 2).join('\n') || null;
+      await this.emit(call, 'call-disconnected', { hangup_by: 'api', hangup_reason: 'Call stopped' });
+      await this.emit(call, 'completed', { hangup_by: 'api', hangup_reason: 'Call stopped' });
+    } else {
+      await this.emit(call, 'failed', { hangup_by: 'api', hangup_reason: 'Call stopped before it was answered' });
+    }
+    this.calls.delete(executionId);
+  }
+
+  async getCallStatus(executionId: string): Promise<VoiceCallStatus> {
+    const call = this.calls.get(executionId);
+    if (!call) {
+      throw new Error('Call not found');
+    }
+    return {
+      executionId,
+      status: call.status,
+      durationSeconds: call.answeredAt ? call.durationSeconds : undefined,
+      raw: { outcome: call.outcome }
+    };
+  }
+
+  normalizeWebhook(body: any): CallWebhookPayload | null {
+    return body && body.id && body.status ? body : null;
+  }
+
+  getStatus(): { activeCalls: number; outcomes: Record<SimulatedOutcome, number>; timeScale: number } {
+    return { activeCalls: this.calls.size, outcomes: this.outcomes, timeScale: this.timeScale };
+  }
+
+  /**
+   * Queue the call's webhooks; offsets are in simulated seconds from placing the call
+   */
+  private scheduleLifecycle(call: SimulatedCall): void {
+    const steps: Array<{ at: number; status: string; extra?: Record<string, any> }> = [
+      { at: 0, status: 'initiated' }
+    ];
+
+    switch (call.outcome) {
+      case 'completed':
+      case 'voicemail': {
+        const answerAt = 2 + 4 + Math.floor(this.random() * 10);
+        steps.push({ at: 2, status: 'ringing' });
+        steps.push({ at: answerAt, status: 'in-progress' });
+        steps.push({ at: answerAt + call.durationSeconds, status: 'call-disconnected', extra: { hangup_by: 'user', hangup_reason: 'Call recipient hungup' } });
+        steps.push({ at: answerAt + call.durationSeconds + 5, status: 'completed', extra: { hangup_by: 'user', hangup_reason: 'Call recipient hungup' } });
+        break;
+      }
+      case 'no-answer':
+        steps.push({ at: 2, status: 'ringing' });
+        steps.push({ at: 32, status: 'no-answer', extra: { hangup_reason: 'No answer', hangup_provider_code: 480 } });
+        break;
+      case 'busy':
+        steps.push({ at: 3, status: 'busy', extra: { hangup_reason: 'User busy', hangup_provider_code: 486 } });
+        break;
+      case 'failed':
+        steps.push({ at: 2, status: 'failed', extra: { hangup_reason: 'Unreachable number', hangup_provider_code: 404, error_message: 'Simulated carrier failure' } });
+        break;
+    }
+
+    for (const step of steps) {
+      call.timers.push(setTimeout(() => {
+        this.emit(call, step.status, step.extra);
+      }, MIN_STEP_MS + step.at * 1000 * this.timeScale));
+    }
+  }
+
+  private emit(call: SimulatedCall, status: string, extra: Record<string, any> = {}): Promise<void> {
+    call.status = status;
+    if (status === 'in-progress') {
+      call.answeredAt = new Date();
+    }
+    if (['completed', 'no-answer', 'busy', 'failed'].includes(status)) {
+      this.calls.delete(call.executionId);
+    }
+
+    const payload = this.buildPayload(call, status, extra);
+    call.delivery = call.delivery.then(() => this.deliverWebhook(payload)).catch(error => {
+      logger.error('[VoiceSimulator] Failed to deliver webhook', {
+        executionId: call.executionId,
+        status,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+    return call.delivery;
+  }
+
+  private buildPayload(call: SimulatedCall, status: string, extra: Record<string, any>): CallWebhookPayload {
+    const hasEnded = status === 'call-disconnected' || status === 'completed';
+    const now = new Date().toISOString();
+
+    return {
+      id: call.executionId,
+      execution_id: call.executionId,
+      agent_id: call.request.agentId,
+      batch_id: null,
+      created_at: call.createdAt.toISOString(),
+      updated_at: now,
+      scheduled_at: call.createdAt.toISOString(),
+      status: status as CallWebhookPayload['status'],
+      answered_by_voice_mail: call.outcome === 'voicemail',
+      conversation_duration: hasEnded ? call.durationSeconds : 0,
+      total_cost: 0,
+      transcript: hasEnded ? call.transcript : null,
+      telephony_data: {
+        duration: String(hasEnded ? call.durationSeconds : 0),
+        to_number: call.request.toPhoneNumber,
+        from_number: call.request.fromPhoneNumber || '',
+        recording_url: status === 'completed' ? `https://simulator.invalid/recordings/${call.executionId}.wav` : null,
+        hosted_telephony: false,
+        provider_call_id: call.executionId,
+        call_type: 'outbound',
+        provider: 'simulator',
+        hangup_by: extra.hangup_by ?? null,
+        hangup_reason: extra.hangup_reason ?? null,
+        hangup_provider_code: extra.hangup_provider_code ?? null
+      },
+      context_details: {
+        recipient_data: call.request.userData || null,
+        recipient_phone_number: call.request.toPhoneNumber
+      },
+      usage_breakdown: null,
+      cost_breakdown: null,
+      extracted_data: null,
+      agent_extraction: null,
+      summary: status === 'completed' ? call.summary : null,
+      error_message: extra.error_message ?? null,
+      workflow_retries: null,
+      custom_extractions: null,
+      campaign_id: call.request.metadata?.campaign_id ?? null,
+      smart_status: null,
+      arq_job_id: null,
+      transfer_call_data: null,
+      batch_run_details: null,
+      provider: 'simulator'
+    };
+  }
+
+  private pickOutcome(): SimulatedOutcome {
+    const entries = Object.entries(this.outcomes).filter(([, weight]) => weight > 0) as Array<[SimulatedOutcome, number]>;
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.random() * total;
+    for (const [outcome, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) {
+        return outcome;
+      }
+    }
+    return entries[entries.length - 1][0];
+  }
+}
+
+/**
+ * Parse VOICE_SIMULATOR_OUTCOMES, e.g. "completed:60,no-answer:20,busy:10,failed:10"
+ */
+export function parseOutcomes(value?: string): Partial<Record<SimulatedOutcome, number>> {
+  const outcomes: Partial<Record<SimulatedOutcome, number>> = {};
+  if (!value) {
+    return outcomes;
+  }
+
+  for (const part of value.split(',')) {
+    const [name, weight] = part.split(':').map(piece => piece.trim());
+    if (name in DEFAULT_OUTCOMES && Number.isFinite(Number(weight)) && Number(weight) >= 0) {
+      outcomes[name as SimulatedOutcome] = Number(weight);
+    } else if (name) {
+      logger.warn('[VoiceSimulator] Ignoring invalid outcome weight', { entry: part });
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,128 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { Encryption } from '../utils/encryption';
+import {
+  EmailProvider,
+  EmailSendLimits,
+  EmailSendResult,
+  EmailSenderIdentity,
+  OutgoingEmail
+} from '../types/emailProvider';
+
+// Connection-level failures: the server may accept the message on a later attempt
+const TRANSIENT_ERROR_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET'];
+
+/**
+ * Classify an SMTP send error
+ * 5xx on the envelope is a permanent rejection of the recipient (hard bounce), 4xx a
+ * temporary one (soft bounce); authentication and other 5xx errors are the sender's problem.
+ */
+export function classifySmtpError(error: any): Pick<EmailSendResult, 'retryable' | 'bounce'> {
+  const responseCode: number | undefined = error?.responseCode;
+
+  if (error?.code === 'EENVELOPE' && responseCode) {
+    if (responseCode >= 500) {
+      return { retryable: false, bounce: 'hard' };
+    }
+    if (responseCode >= 400) {
+      return { retryable: true, bounce: 'soft' };
+    }
+  }
+
+  if (error?.code === 'EAUTH') {
+    return { retryable: false };
+  }
+
+  if (TRANSIENT_ERROR_CODES.includes(error?.code) || (responseCode !== undefined && responseCode < 500)) {
+    return { retryable: true };
+  }
+
+  return { retryable: false };
+}
+
+/**
+ * Email provider sending through the user's own SMTP server
+ */
+export class SmtpEmailProvider implements EmailProvider {
+  readonly name = 'smtp' as const;
+
+  readonly defaultLimits: EmailSendLimits = { hourly: 200, daily: 2000, minIntervalMs: 500 };
+
+  // Pooled transport per identity, rebuilt when the identity's settings change
+  private transporters = new Map<string, { version: string; transporter: Transporter }>();
+
+  async send(identity: EmailSenderIdentity, email: OutgoingEmail): Promise<EmailSendResult> {
+    try {
+      const info = await this.getTransporter(identity).sendMail({
+        from: { address: identity.from_email, name: identity.from_name || '' },
+        replyTo: identity.reply_to || undefined,
+        to: { address: email.to.address, name: email.to.name || '' },
+        cc: email.cc?.map(recipient => ({ address: recipient.address, name: recipient.name || '' })),
+        bcc: email.bcc?.map(recipient => ({ address: recipient.address, name: recipient.name || '' })),
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: email.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          encoding: 'base64',
+          contentType: attachment.contentType
+        })),
+        headers: email.reference ? { 'X-Email-Reference': email.reference } : undefined
+      });
+
+      return { success: true, messageId: info.messageId };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error?.response || error?.message || 'SMTP send failed',
+        ...classifySmtpError(error)
+      };
+    }
+  }
+
+  async verifyConnection(identity: EmailSenderIdentity): Promise<void> {
+    // One-off connection: the settings being checked may not be saved yet
+    const transporter = this.createTransporter(identity, false);
+    try {
+      await transporter.verify();
+    } catch (error: any) {
+      throw new Error(`SMTP connection failed: ${error?.response || error?.message || 'unknown error'}`);
+    } finally {
+      transporter.close();
+    }
+  }
+
+  private getTransporter(identity: EmailSenderIdentity): Transporter {
+    const version = new Date(identity.updated_at).toISOString();
+    const cached = this.transporters.get(identity.id);
+    if (cached && cached.version === version) {
+      return cached.transporter;
+    }
+
+    cached?.transporter.close();
+    const transporter = this.createTransporter(identity, true);
+    this.transporters.set(identity.id, { version, transporter });
+    return transporter;
+  }
+
+  private createTransporter(identity: EmailSenderIdentity, pooled: boolean): Transporter {
+    const options = {
+      host: identity.smtp_host!,
+      port: identity.smtp_port!,
+      secure: identity.smtp_secure,
+      auth: identity.smtp_username
+        ? {
+            user: identity.smtp_username,
+            pass: identity.smtp_password_encrypted ? Encryption.decryptSecret(identity.smtp_password_encrypted) : ''
+          }
+        : undefined,
+      connectionTimeout: 15000,
+      greetingTimeout: 15000,
+      socketTimeout: 60000
+    };
+
+    return pooled
+      ? nodemailer.createTransport({ ...options, pool: true, maxConnections: 2 })
+      : nodemailer.createTransport(options);
+  }
+}
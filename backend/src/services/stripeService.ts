@@ -1,7 +1,11 @@
 import Stripe from 'stripe';
 import { BillingService } from './billingService';
 import CreditTransactionModel from '../models/CreditTransaction';
+import { BillingPlanModel } from '../models/BillingPlan';
+import { SubscriptionStatus, SubscriptionWithPlan } from '../models/UserSubscription';
 import { configService } from './configService';
+import { BillingPlanError, SubscriptionService } from './subscriptionService';
+import { pool } from '../config/database';
 
 export class StripeService {
   private static stripe: Stripe | null = null;
@@ -133,6 +137,8 @@ export class StripeService {
       const existingTransaction = await CreditTransactionModel.getByStripePaymentId(paymentIntentId);
       if (existingTransaction) {
         console.log(`Payment ${paymentIntentId} already processed`);
+        // Retries also issue an invoice the first attempt failed to create
+        await this.issuePurchaseInvoice(existingTransaction.id);
         return {
           success: true,
           userId,
@@ -152,6 +158,8 @@ export class StripeService {
 
       console.log(`Successfully processed payment ${paymentIntentId}: ${creditAmount} credits added to user ${userId}`);
 
+      await this.issuePurchaseInvoice(result.transaction.id);
+
       return {
         success: true,
         userId,
@@ -217,6 +225,36 @@ export class StripeService {
         }
           break;
 
+        // Plan subscriptions: the paid invoice starts (or renews) the billing period
+        case 'invoice.paid': {
+          const invoice = event.data.object as Stripe.Invoice;
+          const subscriptionId = typeof invoice.subscription === 'string'
+            ? invoice.subscription
+            : invoice.subscription?.id;
+
+          if (subscriptionId) {
+            const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+            await SubscriptionService.startStripePeriod(
+              subscription.id,
+              new Date(subscription.current_period_start * 1000),
+              new Date(subscription.current_period_end * 1000)
+            );
+          }
+          break;
+        }
+
+        case 'customer.subscription.updated':
+        case 'customer.subscription.deleted': {
+          const subscription = event.data.object as Stripe.Subscription;
+          await SubscriptionService.syncStripeSubscription(
+            subscription.id,
+            this.toSubscriptionStatus(subscription.status),
+            subscription.items.data[0]?.price.id || null,
+            subscription.cancel_at_period_end
+          );
+          break;
+        }
+
         case 'payment_intent.payment_failed':
           const failedPayment = event.data.object as Stripe.PaymentIntent;
           console.log(`Payment failed: ${failedPayment.id}`, failedPayment.last_payment_error);
@@ -337,6 +375,164 @@ export class StripeService {
     }
   }
 
+  /**
+   * Subscribe a user to a plan
+   * Creates the Stripe subscription with an incomplete first invoice; the returned client
+   * secret confirms its payment, and the invoice.paid webhook activates the plan.
+   */
+  static async createSubscription(
+    userId: string,
+    userEmail: string,
+    planId: string
+  ): Promise<{
+    clientSecret: string | null;
+    subscriptionId: string;
+    subscription: SubscriptionWithPlan;
+  }> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const plan = await BillingPlanModel.findById(planId);
+    if (!plan || !plan.is_active) {
+      throw new BillingPlanError('Plan not found', 404);
+    }
+    if (!plan.stripe_price_id) {
+      throw new BillingPlanError('This plan cannot be purchased online');
+    }
+    if (await SubscriptionService.getSubscription(userId)) {
+      throw new BillingPlanError('You already have a subscription; change its plan instead', 409);
+    }
+
+    const stripe = this.getStripe();
+    const customerId = await this.getOrCreateCustomer(userId, userEmail);
+
+    const stripeSubscription = await stripe.subscriptions.create({
+      customer: customerId,
+      items: [{ price: plan.stripe_price_id }],
+      payment_behavior: 'default_incomplete',
+      payment_settings: { save_default_payment_method: 'on_subscription' },
+      expand: ['latest_invoice.payment_intent'],
+      metadata: {
+        userId,
+        planId: plan.id,
+        type: 'plan_subscription'
+      }
+    });
+
+    const subscription = await SubscriptionService.assignPlan(userId, plan.id, {
+      status: 'incomplete',
+      periodStart: new Date(stripeSubscription.current_period_start * 1000),
+      periodEnd: new Date(stripeSubscription.current_period_end * 1000),
+      stripeSubscriptionId: stripeSubscription.id
+    });
+
+    const invoice = stripeSubscription.latest_invoice as Stripe.Invoice | null;
+    const paymentIntent = invoice?.payment_intent as Stripe.PaymentIntent | null;
+
+    return {
+      clientSecret: paymentIntent?.client_secret || null,
+      subscriptionId: stripeSubscription.id,
+      subscription
+    };
+  }
+
+  /**
+   * Move a subscription to another plan mid-cycle
+   * Stripe prorates the price; included minutes are prorated locally.
+   */
+  static async changeSubscriptionPlan(userId: string, planId: string): Promise<SubscriptionWithPlan> {
+    const current = await SubscriptionService.getSubscription(userId);
+    if (!current) {
+      throw new BillingPlanError('No active subscription to change', 404);
+    }
+
+    if (current.stripe_subscription_id) {
+      const plan = await BillingPlanModel.findById(planId);
+      if (!plan || !plan.is_active) {
+        throw new BillingPlanError('Plan not found', 404);
+      }
+      if (!plan.stripe_price_id) {
+        throw new BillingPlanError('This plan cannot be purchased online');
+      }
+
+      const stripe = this.getStripe();
+      const stripeSubscription = await stripe.subscriptions.retrieve(current.stripe_subscription_id);
+      await stripe.subscriptions.update(current.stripe_subscription_id, {
+        items: [{ id: stripeSubscription.items.data[0].id, price: plan.stripe_price_id }],
+        proration_behavior: 'create_prorations',
+        metadata: { ...stripeSubscription.metadata, planId: plan.id }
+      });
+    }
+
+    return await SubscriptionService.changePlan(userId, planId);
+  }
+
+  /**
+   * Cancel a subscription at the end of the current period
+   */
+  static async cancelSubscription(userId: string): Promise<void> {
+    const current = await SubscriptionService.getSubscription(userId);
+    if (!current) {
+      throw new BillingPlanError('No active subscription to cancel', 404);
+    }
+
+    if (current.stripe_subscription_id) {
+      await this.getStripe().subscriptions.update(current.stripe_subscription_id, {
+        cancel_at_period_end: true
+      });
+    }
+
+    await SubscriptionService.cancel(userId, true);
+  }
+
+  private static async getOrCreateCustomer(userId: string, email: string): Promise<string> {
+    const result = await pool.query('SELECT stripe_customer_id, name FROM users WHERE id = $1', [userId]);
+    const existing = result.rows[0]?.stripe_customer_id;
+    if (existing) {
+      return existing;
+    }
+
+    const customer = await this.getStripe().customers.create({
+      email,
+      name: result.rows[0]?.name || undefined,
+      metadata: { userId }
+    });
+    await pool.query('UPDATE users SET stripe_customer_id = $2 WHERE id = $1', [userId, customer.id]);
+    return customer.id;
+  }
+
+  private static toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+    switch (status) {
+      case 'active':
+      case 'trialing':
+        return 'active';
+      case 'past_due':
+      case 'unpaid':
+      case 'paused':
+        return 'past_due';
+      case 'canceled':
+      case 'incomplete_expired':
+        return 'canceled';
+      default:
+        return 'incomplete';
+    }
+  }
+
+  /**
+   * Issue the invoice for a confirmed purchase
+   * Failures are logged, not thrown: the credits are already added, and the next
+   * confirmation of the same payment retries the invoice.
+   */
+  private static async issuePurchaseInvoice(creditTransactionId: string): Promise<void> {
+    try {
+      const { InvoiceService } = await import('./invoiceService');
+      await InvoiceService.createPurchaseInvoice(creditTransactionId);
+    } catch (error) {
+      console.error(`Error issuing invoice for credit transaction ${creditTransactionId}:`, error);
+    }
+  }
+
   /**
    * Get pricing configuration from system config
    */
@@ -0,0 +1,80 @@
+import { logger } from '../utils/logger';
+import { SubscriptionService } from './subscriptionService';
+
+/**
+ * Service that starts new billing periods for admin-assigned plans
+ *
+ * Rolls unused included minutes over (up to the plan's limit), expires last period's
+ * rollover, grants the period's chat credits and ends subscriptions canceled at period
+ * end. Stripe-billed subscriptions renew from the invoice.paid webhook instead.
+ */
+export class SubscriptionRenewalService {
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+  private readonly POLL_INTERVAL = 15 * 60 * 1000; // Check every 15 minutes
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    if (this.pollIntervalId) {
+      return; // Already running
+    }
+
+    this.pollIntervalId = setInterval(() => {
+      this.processRenewals().catch(error => {
+        logger.error('Error renewing subscriptions', { error: error.message });
+      });
+    }, this.POLL_INTERVAL);
+
+    this.processRenewals().catch(error => {
+      logger.error('Error renewing subscriptions on startup', { error: error.message });
+    });
+
+    logger.info('Subscription renewal scheduler started', {
+      pollInterval: `${this.POLL_INTERVAL / 1000} seconds`
+    });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.pollIntervalId) {
+      clearInterval(this.pollIntervalId);
+      this.pollIntervalId = null;
+      logger.info('Subscription renewal scheduler stopped');
+    }
+  }
+
+  /**
+   * Renew every subscription whose period has ended
+   * Returns the number of subscriptions processed.
+   */
+  async processRenewals(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+
+    try {
+      let batch: number;
+      do {
+        batch = await SubscriptionService.processDueRenewals();
+        processed += batch;
+      } while (batch > 0 && this.pollIntervalId);
+
+      if (processed > 0) {
+        logger.info('Subscriptions renewed', { processed });
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+}
+
+export const subscriptionRenewalService = new SubscriptionRenewalService();
@@ -0,0 +1,611 @@
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { BillingPlan, BillingPlanFields, BillingPlanModel } from '../models/BillingPlan';
+import {
+  SubscriptionStatus,
+  SubscriptionUsage,
+  SubscriptionWithPlan,
+  UserSubscription,
+  UserSubscriptionModel
+} from '../models/UserSubscription';
+import { chatCreditsService } from './chatCreditsService';
+import { logger } from '../utils/logger';
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const RENEWAL_BATCH_SIZE = 50;
+
+/**
+ * Thrown for invalid plan definitions and subscription changes (mapped to 4xx by controllers)
+ */
+export class BillingPlanError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'BillingPlanError';
+  }
+}
+
+export interface CallUsageSplit {
+  billedSeconds: number; // Duration rounded up to the plan's pulse
+  rolloverSecondsUsed: number;
+  includedSecondsUsed: number;
+  overageSeconds: number;
+  creditsCharged: number; // Overage at the plan's rate
+}
+
+export interface PlanPeriodOptions {
+  periodStart?: Date;
+  periodEnd?: Date;
+  status?: SubscriptionStatus;
+  stripeSubscriptionId?: string | null;
+}
+
+/**
+ * Subscription plans: per-user pricing on top of pulse billing
+ *
+ * A subscription gives the user a monthly allowance of included minutes. Calls draw on
+ * minutes rolled over from the previous period first, then on the included minutes;
+ * only the remainder is charged to the credit ledger, at the plan's overage rate.
+ * Unused included minutes roll over up to the plan's rollover_max_minutes and expire
+ * at the end of the following period.
+ */
+export class SubscriptionService {
+  static async listPlans(includeInactive = false): Promise<BillingPlan[]> {
+    return BillingPlanModel.findAll(includeInactive);
+  }
+
+  static async createPlan(input: Record<string, any>): Promise<BillingPlan> {
+    const fields = this.validatePlanInput(input, false) as BillingPlanFields;
+    try {
+      return await BillingPlanModel.create(fields);
+    } catch (error: any) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  static async updatePlan(planId: string, input: Record<string, any>): Promise<BillingPlan> {
+    const fields = this.validatePlanInput(input, true);
+    let plan: BillingPlan | null;
+    try {
+      plan = await BillingPlanModel.update(planId, fields);
+    } catch (error: any) {
+      throw this.translateUniqueViolation(error);
+    }
+    if (!plan) {
+      throw new BillingPlanError('Plan not found', 404);
+    }
+    return plan;
+  }
+
+  static async getSubscription(userId: string): Promise<SubscriptionWithPlan | null> {
+    return UserSubscriptionModel.findLiveByUser(pool, userId);
+  }
+
+  /**
+   * Put a user on a plan
+   * Starts a new period when the user has no live subscription, otherwise changes the
+   * plan mid-cycle with prorated included minutes.
+   */
+  static async assignPlan(userId: string, planId: string, options: PlanPeriodOptions = {}): Promise<SubscriptionWithPlan> {
+    const plan = await this.getAssignablePlan(planId);
+
+    const { subscription, chatCredits } = await pool.transaction(async client => {
+      const current = await UserSubscriptionModel.findLiveByUser(client, userId, true);
+      if (current) {
+        return this.changePlanLocked(client, current, plan, new Date());
+      }
+
+      const periodStart = options.periodStart || new Date();
+      const created = await UserSubscriptionModel.create(client, userId, {
+        plan_id: plan.id,
+        status: options.status || 'active',
+        current_period_start: periodStart,
+        current_period_end: options.periodEnd || addMonths(periodStart, 1),
+        included_seconds: plan.included_minutes * 60,
+        included_seconds_remaining: plan.included_minutes * 60,
+        stripe_subscription_id: options.stripeSubscriptionId || null
+      });
+      await this.applyConcurrencyLimit(client, userId, plan);
+
+      // Incomplete (unpaid) Stripe subscriptions get their allowance when the first invoice is paid
+      const granted = created.status === 'active' ? plan.chat_credit_allowance : 0;
+      return { subscription: { ...created, plan }, chatCredits: granted };
+    });
+
+    await this.grantChatCredits(userId, chatCredits, `Plan allowance: ${plan.name}`);
+    logger.info('[SubscriptionService] Plan assigned', { userId, planId: plan.id, status: subscription.status });
+    return subscription;
+  }
+
+  /**
+   * Change a user's plan mid-cycle
+   */
+  static async changePlan(userId: string, planId: string): Promise<SubscriptionWithPlan> {
+    const plan = await this.getAssignablePlan(planId);
+
+    const { subscription, chatCredits } = await pool.transaction(async client => {
+      const current = await UserSubscriptionModel.findLiveByUser(client, userId, true);
+      if (!current) {
+        throw new BillingPlanError('No active subscription to change', 404);
+      }
+      return this.changePlanLocked(client, current, plan, new Date());
+    });
+
+    await this.grantChatCredits(userId, chatCredits, `Plan change: ${plan.name} (prorated)`);
+    return subscription;
+  }
+
+  /**
+   * Cancel a subscription now or at the end of the current period
+   */
+  static async cancel(userId: string, atPeriodEnd: boolean): Promise<UserSubscription> {
+    return await pool.transaction(async client => {
+      const current = await UserSubscriptionModel.findLiveByUser(client, userId, true);
+      if (!current) {
+        throw new BillingPlanError('No active subscription to cancel', 404);
+      }
+
+      const updated = atPeriodEnd
+        ? await UserSubscriptionModel.update(client, current.id, { cancel_at_period_end: true })
+        : await UserSubscriptionModel.update(client, current.id, { status: 'canceled', canceled_at: new Date() });
+
+      logger.info('[SubscriptionService] Subscription canceled', { userId, subscriptionId: current.id, atPeriodEnd });
+      return updated;
+    });
+  }
+
+  /**
+   * Start the period a Stripe invoice paid for
+   * Activates an incomplete subscription, or renews an active one when the period is new.
+   * Replayed webhooks for a period already started are ignored.
+   */
+  static async startStripePeriod(
+    stripeSubscriptionId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<UserSubscription | null> {
+    const { subscription, grantPlan } = await pool.transaction(async client => {
+      const current = await UserSubscriptionModel.findByStripeSubscriptionId(client, stripeSubscriptionId);
+      if (!current || current.status === 'canceled') {
+        return { subscription: null, grantPlan: null };
+      }
+
+      if (current.status === 'incomplete') {
+        const activated = await UserSubscriptionModel.update(client, current.id, {
+          status: 'active',
+          current_period_start: periodStart,
+          current_period_end: periodEnd
+        });
+        return { subscription: activated, grantPlan: current.plan };
+      }
+
+      if (periodStart.getTime() <= new Date(current.current_period_start).getTime()) {
+        return { subscription: current, grantPlan: null }; // Period already started
+      }
+
+      const renewed = await this.renewLocked(client, current, periodStart, periodEnd);
+      return { subscription: renewed, grantPlan: current.plan };
+    });
+
+    if (subscription && grantPlan) {
+      await this.grantChatCredits(subscription.user_id, grantPlan.chat_credit_allowance, `Plan allowance: ${grantPlan.name}`);
+    }
+    return subscription;
+  }
+
+  /**
+   * Mirror a Stripe subscription's status and price onto the local subscription
+   */
+  static async syncStripeSubscription(
+    stripeSubscriptionId: string,
+    status: SubscriptionStatus,
+    stripePriceId: string | null,
+    cancelAtPeriodEnd: boolean
+  ): Promise<UserSubscription | null> {
+    const current = await UserSubscriptionModel.findByStripeSubscriptionId(pool, stripeSubscriptionId);
+    if (!current) {
+      return null;
+    }
+
+    const plan = stripePriceId ? await BillingPlanModel.findByStripePriceId(stripePriceId) : null;
+    if (plan && plan.id !== current.plan_id && current.status === 'active') {
+      await this.changePlan(current.user_id, plan.id);
+    }
+
+    return await UserSubscriptionModel.update(pool, current.id, {
+      // Activation is left to invoice.paid, which also starts the period's allowance
+      status: current.status === 'incomplete' && status === 'active' ? undefined : status,
+      cancel_at_period_end: cancelAtPeriodEnd,
+      canceled_at: status === 'canceled' ? new Date() : undefined
+    });
+  }
+
+  /**
+   * Draw a completed call from the user's plan (inside the billing transaction)
+   * Returns null when the user has no active plan for the current period, so the call is
+   * billed at the system rates. A call already recorded returns its original split.
+   */
+  static async applyCallUsage(
+    client: Queryable,
+    userId: string,
+    callId: string,
+    durationSeconds: number
+  ): Promise<CallUsageSplit | null> {
+    const recorded = await UserSubscriptionModel.findUsageByCallId(client, callId);
+    if (recorded) {
+      return usageToSplit(recorded);
+    }
+
+    const subscription = await UserSubscriptionModel.findLiveByUser(client, userId, true);
+    if (!subscription || !this.isInCurrentPeriod(subscription)) {
+      return null;
+    }
+
+    const split = this.splitCallUsage(durationSeconds, subscription, subscription.plan);
+    const usage = await UserSubscriptionModel.recordUsage(client, {
+      subscription_id: subscription.id,
+      user_id: userId,
+      call_id: callId,
+      billed_seconds: split.billedSeconds,
+      rollover_seconds_used: split.rolloverSecondsUsed,
+      included_seconds_used: split.includedSecondsUsed,
+      overage_seconds: split.overageSeconds,
+      credits_charged: split.creditsCharged
+    });
+
+    if (usage) {
+      await UserSubscriptionModel.update(client, subscription.id, {
+        rollover_seconds_remaining: subscription.rollover_seconds_remaining - split.rolloverSecondsUsed,
+        included_seconds_remaining: subscription.included_seconds_remaining - split.includedSecondsUsed
+      });
+    }
+
+    return split;
+  }
+
+  /**
+   * The active plan for the current period and the plan minutes left in it
+   */
+  static async getCallAllowance(db: Queryable, userId: string): Promise<{
+    subscription: SubscriptionWithPlan;
+    remainingSeconds: number;
+  } | null> {
+    const subscription = await UserSubscriptionModel.findLiveByUser(db, userId);
+    if (!subscription || !this.isInCurrentPeriod(subscription)) {
+      return null;
+    }
+    return {
+      subscription,
+      remainingSeconds: subscription.rollover_seconds_remaining + subscription.included_seconds_remaining
+    };
+  }
+
+  /**
+   * Renew admin-assigned subscriptions whose period has ended
+   * Returns the number of subscriptions renewed or canceled.
+   */
+  static async processDueRenewals(now: Date = new Date()): Promise<number> {
+    const due = await UserSubscriptionModel.findDueForRenewal(RENEWAL_BATCH_SIZE);
+    let processed = 0;
+
+    for (const candidate of due) {
+      try {
+        const renewed = await pool.transaction(async client => {
+          const current = await UserSubscriptionModel.findLiveByUser(client, candidate.user_id, true);
+          if (!current || current.id !== candidate.id || new Date(current.current_period_end) > now) {
+            return null; // Handled by another instance
+          }
+
+          if (current.cancel_at_period_end) {
+            await UserSubscriptionModel.update(client, current.id, { status: 'canceled', canceled_at: now });
+            return null;
+          }
+
+          // Skip whole periods missed while the scheduler was not running
+          let periodStart = new Date(current.current_period_end);
+          let periodEnd = addMonths(periodStart, 1);
+          while (periodEnd <= now) {
+            periodStart = periodEnd;
+            periodEnd = addMonths(periodStart, 1);
+          }
+
+          await this.renewLocked(client, current, periodStart, periodEnd);
+          return current;
+        });
+
+        if (renewed) {
+          await this.grantChatCredits(renewed.user_id, renewed.plan.chat_credit_allowance, `Plan allowance: ${renewed.plan.name}`);
+        }
+        processed++;
+      } catch (error) {
+        logger.error('[SubscriptionService] Failed to renew subscription', {
+          subscriptionId: candidate.id,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+
+    return processed;
+  }
+
+  /**
+   * Split a call between rollover minutes, included minutes and overage
+   */
+  static splitCallUsage(
+    durationSeconds: number,
+    subscription: Pick<UserSubscription, 'rollover_seconds_remaining' | 'included_seconds_remaining'>,
+    plan: Pick<BillingPlan, 'billing_pulse_seconds' | 'overage_credits_per_minute'>
+  ): CallUsageSplit {
+    if (durationSeconds <= 0) {
+      return { billedSeconds: 0, rolloverSecondsUsed: 0, includedSecondsUsed: 0, overageSeconds: 0, creditsCharged: 0 };
+    }
+
+    // Partial pulses count as full, as with pay-as-you-go billing
+    const billedSeconds = Math.ceil(durationSeconds / plan.billing_pulse_seconds) * plan.billing_pulse_seconds;
+    const rolloverSecondsUsed = Math.min(Math.max(subscription.rollover_seconds_remaining, 0), billedSeconds);
+    const includedSecondsUsed = Math.min(
+      Math.max(subscription.included_seconds_remaining, 0),
+      billedSeconds - rolloverSecondsUsed
+    );
+    const overageSeconds = billedSeconds - rolloverSecondsUsed - includedSecondsUsed;
+    const creditsCharged = Math.round((overageSeconds / 60) * plan.overage_credits_per_minute * 100) / 100;
+
+    return { billedSeconds, rolloverSecondsUsed, includedSecondsUsed, overageSeconds, creditsCharged };
+  }
+
+  /**
+   * Included seconds after a mid-cycle plan change
+   * The period allowance becomes the old plan's share for the elapsed part of the period
+   * plus the new plan's share for the rest; minutes already used this period still count.
+   */
+  static prorateIncludedSeconds(
+    subscription: Pick<UserSubscription, 'current_period_start' | 'current_period_end' | 'included_seconds' | 'included_seconds_remaining'>,
+    newPlan: Pick<BillingPlan, 'included_minutes'>,
+    now: Date
+  ): { includedSeconds: number; includedSecondsRemaining: number; remainingFraction: number } {
+    const start = new Date(subscription.current_period_start).getTime();
+    const end = new Date(subscription.current_period_end).getTime();
+    const remainingFraction = end > start
+      ? Math.min(Math.max((end - now.getTime()) / (end - start), 0), 1)
+      : 0;
+
+    const used = subscription.included_seconds - subscription.included_seconds_remaining;
+    const includedSeconds = Math.round(
+      subscription.included_seconds * (1 - remainingFraction) + newPlan.included_minutes * 60 * remainingFraction
+    );
+
+    return {
+      includedSeconds,
+      includedSecondsRemaining: Math.max(includedSeconds - used, 0),
+      remainingFraction
+    };
+  }
+
+  private static async changePlanLocked(
+    client: PoolClient,
+    current: SubscriptionWithPlan,
+    plan: BillingPlan,
+    now: Date
+  ): Promise<{ subscription: SubscriptionWithPlan; chatCredits: number }> {
+    if (current.plan_id === plan.id) {
+      return { subscription: current, chatCredits: 0 };
+    }
+
+    const prorated = this.prorateIncludedSeconds(current, plan, now);
+    const updated = await UserSubscriptionModel.update(client, current.id, {
+      plan_id: plan.id,
+      included_seconds: prorated.includedSeconds,
+      included_seconds_remaining: prorated.includedSecondsRemaining
+    });
+    await this.applyConcurrencyLimit(client, current.user_id, plan);
+
+    // Upgrades get the prorated difference in chat credits; downgrades keep what was granted
+    const chatCredits = current.status === 'active'
+      ? Math.max(Math.round((plan.chat_credit_allowance - current.plan.chat_credit_allowance) * prorated.remainingFraction), 0)
+      : 0;
+
+    logger.info('[SubscriptionService] Plan changed mid-cycle', {
+      userId: current.user_id,
+      fromPlanId: current.plan_id,
+      toPlanId: plan.id,
+      includedSecondsRemaining: prorated.includedSecondsRemaining
+    });
+
+    return { subscription: { ...updated, plan }, chatCredits };
+  }
+
+  private static async renewLocked(
+    client: PoolClient,
+    current: SubscriptionWithPlan,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<UserSubscription> {
+    const rolloverSeconds = Math.min(
+      Math.max(current.included_seconds_remaining, 0),
+      current.plan.rollover_max_minutes * 60
+    );
+    const includedSeconds = current.plan.included_minutes * 60;
+
+    const renewed = await UserSubscriptionModel.update(client, current.id, {
+      current_period_start: periodStart,
+      current_period_end: periodEnd,
+      included_seconds: includedSeconds,
+      included_seconds_remaining: includedSeconds,
+      rollover_seconds_remaining: rolloverSeconds // Last period's rollover expires
+    });
+    await this.applyConcurrencyLimit(client, current.user_id, current.plan);
+
+    logger.info('[SubscriptionService] Subscription renewed', {
+      userId: current.user_id,
+      subscriptionId: current.id,
+      rolloverSeconds,
+      expiredSeconds: Math.max(current.included_seconds_remaining, 0) - rolloverSeconds + current.rollover_seconds_remaining
+    });
+    return renewed;
+  }
+
+  private static async getAssignablePlan(planId: string): Promise<BillingPlan> {
+    const plan = await BillingPlanModel.findById(planId);
+    if (!plan) {
+      throw new BillingPlanError('Plan not found', 404);
+    }
+    if (!plan.is_active) {
+      throw new BillingPlanError('Plan is no longer available');
+    }
+    return plan;
+  }
+
+  private static async applyConcurrencyLimit(client: Queryable, userId: string, plan: BillingPlan): Promise<void> {
+    if (plan.concurrent_calls_limit) {
+      await client.query('UPDATE users SET concurrent_calls_limit = $2 WHERE id = $1', [userId, plan.concurrent_calls_limit]);
+    }
+  }
+
+  /**
+   * Chat credits live in the Chat Agent Server; a failed grant is logged for manual follow-up
+   */
+  private static async grantChatCredits(userId: string, amount: number, reason: string): Promise<void> {
+    if (amount <= 0) {
+      return;
+    }
+
+    const result = await chatCreditsService.adjustCredits(userId, amount, 'add', reason);
+    if (!result.success) {
+      logger.error('[SubscriptionService] Failed to grant plan chat credits', {
+        userId,
+        amount,
+        reason,
+        error: result.error || result.message
+      });
+    }
+  }
+
+  private static isInCurrentPeriod(subscription: UserSubscription): boolean {
+    return subscription.status === 'active' && new Date(subscription.current_period_end).getTime() > Date.now();
+  }
+
+  private static validatePlanInput(input: Record<string, any>, partial: boolean): Partial<BillingPlanFields> {
+    const fields: Partial<BillingPlanFields> = {};
+    const has = (key: string) => input[key] !== undefined;
+
+    if (has('name') || !partial) {
+      if (typeof input.name !== 'string' || !input.name.trim() || input.name.trim().length > 100) {
+        throw new BillingPlanError('name is required and must be at most 100 characters');
+      }
+      fields.name = input.name.trim();
+    }
+
+    if (has('slug') || !partial) {
+      const slug = has('slug') ? input.slug : slugify(fields.name || '');
+      if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug) || slug.length > 100) {
+        throw new BillingPlanError('slug must contain only lowercase letters, numbers and hyphens');
+      }
+      fields.slug = slug;
+    }
+
+    if (has('description')) {
+      fields.description = input.description === null ? null : String(input.description);
+    }
+
+    const integerFields: [keyof BillingPlanFields, number, number][] = [
+      ['monthly_price_cents', 0, Number.MAX_SAFE_INTEGER],
+      ['included_minutes', 0, 1000000],
+      ['billing_pulse_seconds', 1, 60],
+      ['chat_credit_allowance', 0, 10000000],
+      ['rollover_max_minutes', 0, 1000000]
+    ];
+    for (const [key, min, max] of integerFields) {
+      if (has(key)) {
+        const value = Number(input[key]);
+        if (!Number.isInteger(value) || value < min || value > max) {
+          throw new BillingPlanError(`${key} must be an integer between ${min} and ${max}`);
+        }
+        (fields as any)[key] = value;
+      }
+    }
+
+    if (has('overage_credits_per_minute')) {
+      const value = Number(input.overage_credits_per_minute);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new BillingPlanError('overage_credits_per_minute must be a non-negative number');
+      }
+      fields.overage_credits_per_minute = value;
+    }
+
+    if (has('concurrent_calls_limit')) {
+      const value = input.concurrent_calls_limit === null ? null : Number(input.concurrent_calls_limit);
+      if (value !== null && (!Number.isInteger(value) || value < 1)) {
+        throw new BillingPlanError('concurrent_calls_limit must be a positive integer or null');
+      }
+      fields.concurrent_calls_limit = value;
+    }
+
+    if (has('currency')) {
+      if (typeof input.currency !== 'string' || !/^[a-zA-Z]{3}$/.test(input.currency)) {
+        throw new BillingPlanError('currency must be a 3-letter ISO code');
+      }
+      fields.currency = input.currency.toLowerCase();
+    }
+
+    if (has('stripe_price_id')) {
+      fields.stripe_price_id = input.stripe_price_id ? String(input.stripe_price_id) : null;
+    }
+
+    if (has('is_active')) {
+      fields.is_active = Boolean(input.is_active);
+    }
+
+    if (!partial) {
+      return {
+        description: null,
+        monthly_price_cents: 0,
+        currency: 'usd',
+        included_minutes: 0,
+        overage_credits_per_minute: 1,
+        billing_pulse_seconds: 60,
+        concurrent_calls_limit: null,
+        chat_credit_allowance: 0,
+        rollover_max_minutes: 0,
+        stripe_price_id: null,
+        is_active: true,
+        ...fields
+      };
+    }
+    return fields;
+  }
+
+  private static translateUniqueViolation(error: any): Error {
+    if (error?.code === '23505') {
+      return new BillingPlanError('A plan with this slug or Stripe price already exists', 409);
+    }
+    return error;
+  }
+}
+
+/**
+ * Same day next month, clamped to the month's last day (Jan 31 -> Feb 28)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function usageToSplit(usage: SubscriptionUsage): CallUsageSplit {
+  return {
+    billedSeconds: usage.billed_seconds,
+    rolloverSecondsUsed: usage.rollover_seconds_used,
+    includedSecondsUsed: usage.included_seconds_used,
+    overageSeconds: usage.overage_seconds,
+    creditsCharged: Number(usage.credits_charged)
+  };
+}
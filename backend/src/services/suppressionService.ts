@@ -0,0 +1,535 @@
+import * as XLSX from 'xlsx';
+import { pool } from '../config/database';
+import { SuppressionListModel } from '../models/SuppressionList';
+import { ContactService } from './contactService';
+import { logger } from '../utils/logger';
+import { escapeCsvValue } from '../utils/csv';
+import { DEFAULT_PHONE_REGION, isInternationalFormat, toE164BestEffort } from '../utils/phoneNumber';
+import {
+  SuppressionEntry,
+  SuppressionEntryInput,
+  SuppressionActor,
+  SuppressionChannel,
+  SuppressionCheckResult,
+  SuppressionImportResult,
+  SuppressionReason,
+  SuppressionSource
+} from '../types/suppression';
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = [
+  'do_not_call', 'opt_out', 'unsubscribed', 'complaint', 'bounced', 'legal', 'other'
+];
+
+// Contacts tagged with this are treated as suppressed even without a list entry
+export const LEGACY_DNC_TAG = 'DNC';
+
+export const MAX_SUPPRESSION_IMPORT_ROWS = 10000;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SYSTEM_ACTOR: SuppressionActor = { type: 'system' };
+
+/**
+ * Recipient of an outbound call, message or email
+ */
+export interface SuppressionRecipient {
+  phoneNumber?: string | null;
+  email?: string | null;
+  contactId?: string | null;
+}
+
+/**
+ * Thrown when an outbound send targets a suppressed phone number or email
+ */
+export class SuppressedRecipientError extends Error {
+  public readonly code = 'RECIPIENT_SUPPRESSED';
+
+  constructor(
+    public readonly channel: SuppressionChannel,
+    public readonly reason: SuppressionCheckResult['reason']
+  ) {
+    super(`Recipient is on the do-not-contact list (${reason})`);
+    this.name = 'SuppressedRecipientError';
+  }
+}
+
+/**
+ * Do-not-call / opt-out registry
+ *
+ * Every outbound channel consults the list before contacting someone:
+ * direct calls, campaign queues, email campaigns, flow emails and WhatsApp sends.
+ */
+export class SuppressionService {
+  /**
+   * Normalize a phone number to E.164 (+<digits>), or null if it is not a valid number
+   * Numbers without a country code are read in the given region (the user's default region).
+   */
+  static normalizePhoneNumber(phoneNumber: string | null | undefined, region: string = DEFAULT_PHONE_REGION): string | null {
+    if (!phoneNumber || !phoneNumber.trim()) {
+      return null;
+    }
+
+    try {
+      return ContactService.normalizePhoneNumber(phoneNumber, region);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Phone number a recipient is checked on: E.164 when it parses, otherwise + and its digits,
+   * so a number that does not parse is still compared with the list instead of let through
+   */
+  static matchPhoneNumber(phoneNumber: string | null | undefined, region: string = DEFAULT_PHONE_REGION): string | null {
+    if (!phoneNumber || !/\d/.test(phoneNumber)) {
+      return null;
+    }
+    return toE164BestEffort(phoneNumber, region);
+  }
+
+  /**
+   * Normalize an email to lower case, or null if it is not a valid address
+   */
+  static normalizeEmail(email: string | null | undefined): string | null {
+    const normalized = (email || '').trim().toLowerCase();
+    return EMAIL_REGEX.test(normalized) ? normalized : null;
+  }
+
+  /**
+   * Check a recipient against the list and the legacy DNC contact tag
+   */
+  static async checkRecipient(
+    userId: string,
+    recipient: SuppressionRecipient,
+    region?: string
+  ): Promise<SuppressionCheckResult> {
+    const phoneRegion = region ?? await this.getPhoneRegion(userId, [recipient.phoneNumber]);
+    const phoneNumber = this.matchPhoneNumber(recipient.phoneNumber, phoneRegion);
+    const email = this.normalizeEmail(recipient.email);
+
+    const matches = await SuppressionListModel.findMatches(
+      userId,
+      phoneNumber ? [phoneNumber] : [],
+      email ? [email] : []
+    );
+
+    if (matches.length > 0) {
+      const match = matches[0];
+      return {
+        suppressed: true,
+        reason: match.reason,
+        matched: match.phone_number ? 'phone_number' : 'email'
+      };
+    }
+
+    if (await this.hasLegacyDncTag(userId, recipient.contactId, phoneNumber)) {
+      return { suppressed: true, reason: 'dnc_tag', matched: 'tag' };
+    }
+
+    return { suppressed: false };
+  }
+
+  /**
+   * Throw SuppressedRecipientError (and audit the blocked send) if the recipient is suppressed
+   */
+  static async assertNotSuppressed(
+    userId: string,
+    recipient: SuppressionRecipient,
+    channel: SuppressionChannel,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    const region = await this.getPhoneRegion(userId, [recipient.phoneNumber]);
+    const check = await this.checkRecipient(userId, recipient, region);
+    if (!check.suppressed) {
+      return;
+    }
+
+    await this.recordBlockedSend(userId, recipient, channel, check, details, region);
+    throw new SuppressedRecipientError(channel, check.reason);
+  }
+
+  /**
+   * Split a batch of recipients into allowed and suppressed ones
+   * Used by bulk senders (campaign queues, email campaigns) to avoid a query per recipient.
+   */
+  static async filterRecipients<T>(
+    userId: string,
+    items: T[],
+    getRecipient: (item: T) => SuppressionRecipient,
+    channel: SuppressionChannel,
+    details: Record<string, any> = {}
+  ): Promise<{ allowed: T[]; suppressed: T[] }> {
+    if (items.length === 0) {
+      return { allowed: [], suppressed: [] };
+    }
+
+    const region = await this.getPhoneRegion(userId, items.map(item => getRecipient(item).phoneNumber));
+    const recipients = items.map(item => {
+      const recipient = getRecipient(item);
+      return {
+        recipient,
+        phoneNumber: this.matchPhoneNumber(recipient.phoneNumber, region),
+        email: this.normalizeEmail(recipient.email)
+      };
+    });
+
+    const matches = await SuppressionListModel.findMatches(
+      userId,
+      recipients.map(r => r.phoneNumber).filter((p): p is string => !!p),
+      recipients.map(r => r.email).filter((e): e is string => !!e)
+    );
+    const suppressedPhones = new Map(matches.filter(m => m.phone_number).map(m => [m.phone_number!, m.reason]));
+    const suppressedEmails = new Map(matches.filter(m => m.email).map(m => [m.email!, m.reason]));
+    const taggedContactIds = await this.getLegacyDncContactIds(
+      userId,
+      recipients.map(r => r.recipient.contactId).filter((id): id is string => !!id)
+    );
+
+    const allowed: T[] = [];
+    const suppressed: T[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const { recipient, phoneNumber, email } = recipients[i];
+      let reason: SuppressionCheckResult['reason'];
+
+      if (phoneNumber && suppressedPhones.has(phoneNumber)) {
+        reason = suppressedPhones.get(phoneNumber);
+      } else if (email && suppressedEmails.has(email)) {
+        reason = suppressedEmails.get(email);
+      } else if (recipient.contactId && taggedContactIds.has(recipient.contactId)) {
+        reason = 'dnc_tag';
+      }
+
+      if (reason) {
+        suppressed.push(items[i]);
+        await this.recordBlockedSend(userId, recipient, channel, { suppressed: true, reason }, details, region);
+      } else {
+        allowed.push(items[i]);
+      }
+    }
+
+    if (suppressed.length > 0) {
+      logger.info('[SuppressionService] Suppressed recipients removed from batch', {
+        userId,
+        channel,
+        suppressed: suppressed.length,
+        allowed: allowed.length
+      });
+    }
+
+    return { allowed, suppressed };
+  }
+
+  /**
+   * Add a phone number and/or email to the list
+   * A phone number and an email given together become two entries.
+   * @param region The user's default phone region, when the caller has already looked it up
+   * @returns the created entries (existing ones are left untouched)
+   */
+  static async addEntry(
+    userId: string,
+    input: SuppressionEntryInput,
+    source: SuppressionSource,
+    actor: SuppressionActor,
+    region?: string
+  ): Promise<SuppressionEntry[]> {
+    const { phoneNumber, email, reason } = this.validateInput(
+      input,
+      region ?? await this.getPhoneRegion(userId, [input.phone_number])
+    );
+    const created: SuppressionEntry[] = [];
+
+    for (const target of [{ phoneNumber }, { email }]) {
+      if (!target.phoneNumber && !target.email) continue;
+
+      const entry = await SuppressionListModel.create({
+        userId,
+        ...target,
+        reason,
+        source,
+        notes: input.notes,
+        actor
+      });
+
+      if (entry) {
+        created.push(entry);
+        await SuppressionListModel.createAuditEntry({
+          userId,
+          action: 'added',
+          phoneNumber: entry.phone_number,
+          email: entry.email,
+          reason,
+          source,
+          actor
+        });
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Remove an entry from the list
+   * @returns false if the entry does not exist
+   */
+  static async removeEntry(userId: string, entryId: string, actor: SuppressionActor): Promise<boolean> {
+    const entry = await SuppressionListModel.delete(entryId, userId);
+    if (!entry) {
+      return false;
+    }
+
+    await SuppressionListModel.createAuditEntry({
+      userId,
+      action: 'removed',
+      phoneNumber: entry.phone_number,
+      email: entry.email,
+      reason: entry.reason,
+      source: entry.source,
+      actor,
+      details: { entry_created_at: entry.created_at }
+    });
+
+    return true;
+  }
+
+  /**
+   * Bulk import entries
+   * Invalid rows are reported (1-based, excluding the header) and skipped.
+   */
+  static async importEntries(
+    userId: string,
+    inputs: SuppressionEntryInput[],
+    actor: SuppressionActor
+  ): Promise<SuppressionImportResult> {
+    if (inputs.length > MAX_SUPPRESSION_IMPORT_ROWS) {
+      throw new Error(`Too many rows. At most ${MAX_SUPPRESSION_IMPORT_ROWS} entries can be imported at once.`);
+    }
+
+    const result: SuppressionImportResult = { added: 0, duplicates: 0, invalid: [] };
+    const region = await this.getPhoneRegion(userId, inputs.map(input => input.phone_number));
+
+    for (let i = 0; i < inputs.length; i++) {
+      try {
+        const created = await this.addEntry(userId, inputs[i], 'import', actor, region);
+        const targets = [inputs[i].phone_number, inputs[i].email].filter(Boolean).length;
+        result.added += created.length;
+        result.duplicates += targets - created.length;
+      } catch (error) {
+        result.invalid.push({
+          row: i + 1,
+          error: error instanceof Error ? error.message : 'Invalid row'
+        });
+      }
+    }
+
+    logger.info('[SuppressionService] Suppression list import finished', {
+      userId,
+      added: result.added,
+      duplicates: result.duplicates,
+      invalid: result.invalid.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Parse an uploaded CSV or Excel file into import rows
+   * Recognized columns: phone_number (or phone), email, reason, notes.
+   */
+  static parseImportFile(buffer: Buffer): SuppressionEntryInput[] {
+    const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      return [];
+    }
+
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+
+    return rows.map(row => {
+      const columns: Record<string, string> = {};
+      for (const [key, value] of Object.entries(row)) {
+        columns[key.trim().toLowerCase().replace(/\s+/g, '_')] = String(value ?? '').trim();
+      }
+
+      return {
+        phone_number: columns.phone_number || columns.phone || null,
+        email: columns.email || null,
+        reason: (columns.reason || undefined) as SuppressionReason | undefined,
+        notes: columns.notes || null
+      };
+    });
+  }
+
+  /**
+   * Export the whole list as CSV and audit the export
+   */
+  static async exportCsv(userId: string, actor: SuppressionActor): Promise<string> {
+    const { entries } = await SuppressionListModel.findByUser(userId);
+
+    const header = ['phone_number', 'email', 'reason', 'source', 'notes', 'created_at'];
+    const lines = entries.map(entry => [
+      entry.phone_number || '',
+      entry.email || '',
+      entry.reason,
+      entry.source,
+      entry.notes || '',
+      new Date(entry.created_at).toISOString()
+    ].map(escapeCsvValue).join(','));
+
+    await SuppressionListModel.createAuditEntry({
+      userId,
+      action: 'exported',
+      actor,
+      details: { entries: entries.length }
+    });
+
+    return [header.join(','), ...lines].join('\n');
+  }
+
+  /**
+   * Unsubscribe the recipient of a tracked email (email unsubscribe link)
+   * @returns false if no email has this tracking ID
+   */
+  static async unsubscribeByTrackingId(trackingId: string): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT id, user_id, to_email, campaign_id FROM emails
+       WHERE tracking_id = $1 OR id::text = $1
+       LIMIT 1`,
+      [trackingId]
+    );
+
+    const email = result.rows[0];
+    if (!email?.to_email) {
+      return false;
+    }
+
+    await this.addEntry(
+      email.user_id,
+      { email: email.to_email, reason: 'unsubscribed' },
+      'unsubscribe_link',
+      { type: 'recipient' }
+    );
+
+    logger.info('[SuppressionService] Recipient unsubscribed via email link', {
+      userId: email.user_id,
+      emailId: email.id,
+      campaignId: email.campaign_id
+    });
+
+    return true;
+  }
+
+  /**
+   * Validate and normalize an entry submitted by a user
+   */
+  private static validateInput(input: SuppressionEntryInput, region: string): {
+    phoneNumber: string | null;
+    email: string | null;
+    reason: SuppressionReason;
+  } {
+    const reason = input.reason || 'do_not_call';
+    if (!SUPPRESSION_REASONS.includes(reason)) {
+      throw new Error(`Invalid reason: ${reason}`);
+    }
+
+    const phoneNumber = this.normalizePhoneNumber(input.phone_number, region);
+    if (input.phone_number && input.phone_number.trim() && !phoneNumber) {
+      throw new Error(`Invalid phone number: ${input.phone_number}`);
+    }
+
+    const email = this.normalizeEmail(input.email);
+    if (input.email && input.email.trim() && !email) {
+      throw new Error(`Invalid email: ${input.email}`);
+    }
+
+    if (!phoneNumber && !email) {
+      throw new Error('A phone number or email is required');
+    }
+
+    return { phoneNumber, email, reason };
+  }
+
+  /**
+   * The user's default phone region, looked up only when a number lacks a country code
+   */
+  private static async getPhoneRegion(userId: string, phoneNumbers: Array<string | null | undefined>): Promise<string> {
+    const needsRegion = phoneNumbers.some(phoneNumber => phoneNumber && phoneNumber.trim() && !isInternationalFormat(phoneNumber));
+    return needsRegion ? await ContactService.getDefaultPhoneRegion(userId) : DEFAULT_PHONE_REGION;
+  }
+
+  /**
+   * Whether the recipient's contact carries the legacy DNC tag
+   */
+  private static async hasLegacyDncTag(
+    userId: string,
+    contactId: string | null | undefined,
+    phoneNumber: string | null
+  ): Promise<boolean> {
+    if (!contactId && !phoneNumber) {
+      return false;
+    }
+
+    const result = await pool.query(
+      `SELECT 1 FROM contacts
+       WHERE user_id = $1
+         AND $2 = ANY(tags)
+         AND (id::text = $3 OR '+' || regexp_replace(phone_number, '\\D', '', 'g') = $4)
+       LIMIT 1`,
+      [userId, LEGACY_DNC_TAG, contactId || '', phoneNumber || '']
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Contacts among contactIds that carry the legacy DNC tag
+   */
+  private static async getLegacyDncContactIds(userId: string, contactIds: string[]): Promise<Set<string>> {
+    if (contactIds.length === 0) {
+      return new Set();
+    }
+
+    const result = await pool.query(
+      `SELECT id FROM contacts
+       WHERE user_id = $1 AND id = ANY($2::uuid[]) AND $3 = ANY(tags)`,
+      [userId, contactIds, LEGACY_DNC_TAG]
+    );
+
+    return new Set(result.rows.map((row: { id: string }) => row.id));
+  }
+
+  /**
+   * Audit a send blocked by the list
+   * Never throws - a failed audit write must not let the send through or break the caller.
+   */
+  static async recordBlockedSend(
+    userId: string,
+    recipient: SuppressionRecipient,
+    channel: SuppressionChannel,
+    check: SuppressionCheckResult,
+    details: Record<string, any>,
+    region?: string
+  ): Promise<void> {
+    try {
+      await SuppressionListModel.createAuditEntry({
+        userId,
+        action: 'blocked',
+        phoneNumber: this.matchPhoneNumber(
+          recipient.phoneNumber,
+          region ?? await this.getPhoneRegion(userId, [recipient.phoneNumber])
+        ),
+        email: this.normalizeEmail(recipient.email),
+        reason: check.reason === 'dnc_tag' ? 'do_not_call' : check.reason,
+        channel,
+        actor: SYSTEM_ACTOR,
+        details: { ...details, contact_id: recipient.contactId || null, matched: check.matched || null }
+      });
+    } catch (error) {
+      logger.error('[SuppressionService] Failed to audit blocked send', {
+        userId,
+        channel,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+}
@@ -0,0 +1,433 @@
+import JSZip from 'jszip';
+import { pool } from '../config/database';
+import { TranscriptInterface, SpeakerSegment } from '../models/Transcript';
+import { TranscriptService } from './transcriptService';
+import { createTextPdf, PdfBlock } from '../utils/pdf';
+import { createDocx, DocxParagraph } from '../utils/docx';
+import { toCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+
+export type TranscriptExportFormat = 'txt' | 'json' | 'csv' | 'srt' | 'vtt' | 'pdf' | 'docx';
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ['txt', 'json', 'csv', 'srt', 'vtt', 'pdf', 'docx'];
+export const MAX_BULK_TRANSCRIPTS = 500;
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  txt: 'text/plain',
+  json: 'application/json',
+  csv: 'text/csv',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+// Subtitle cues last until the next segment starts; the last one is estimated from its length
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+
+/**
+ * Thrown for invalid export requests (mapped to 400)
+ */
+export class TranscriptExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptExportError';
+  }
+}
+
+export interface TranscriptCallMetadata {
+  call_id: string;
+  phone_number: string | null;
+  created_at: Date;
+  duration_seconds: number | null;
+  status: string | null;
+  agent_name: string | null;
+  contact_name: string | null;
+  campaign_name: string | null;
+  lead_score: number | null;
+  lead_status_tag: string | null;
+  summary: string | null;
+}
+
+export interface SpeakerTurn {
+  speaker: SpeakerSegment['speaker'];
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+export interface TranscriptExportFile {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface BulkTranscriptExportOptions {
+  format: TranscriptExportFormat;
+  campaignId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Format an offset from the start of the call (h:mm:ss, or m:ss for calls under an hour)
+ */
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Subtitle timestamp: 00:01:02,345 (SRT) or 00:01:02.345 (VTT)
+ */
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const hours = Math.floor(ms / 3600000).toString().padStart(2, '0');
+  const minutes = Math.floor((ms % 3600000) / 60000).toString().padStart(2, '0');
+  const seconds = Math.floor((ms % 60000) / 1000).toString().padStart(2, '0');
+  const millis = Math.floor(ms % 1000).toString().padStart(3, '0');
+  return `${hours}:${minutes}:${seconds}${separator}${millis}`;
+}
+
+// Transcript export service - document, subtitle and bulk (zip) exports with call metadata
+export class TranscriptExportService {
+  /**
+   * Segments with start/end offsets, ordered by time
+   * @param durationSeconds call duration, bounds the end of the last segment
+   */
+  static getTimedSegments(transcript: TranscriptInterface, durationSeconds?: number | null): SpeakerTurn[] {
+    const segments = [...(transcript.speaker_segments || [])]
+      .filter(segment => segment.text && segment.text.trim())
+      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+    const callEndMs = durationSeconds ? durationSeconds * 1000 : null;
+
+    return segments.map((segment, index) => {
+      const start = Math.max(0, segment.timestamp || 0);
+      const next = segments[index + 1];
+      const estimatedEnd = start + Math.max(MIN_CUE_MS, segment.text.split(/\s+/).length * MS_PER_WORD);
+      let end = next ? next.timestamp : estimatedEnd;
+      if (!next && callEndMs && callEndMs > start) {
+        end = Math.min(end, callEndMs);
+      }
+
+      return {
+        speaker: segment.speaker,
+        start_ms: start,
+        end_ms: Math.max(end, start + MIN_CUE_MS / 2),
+        text: segment.text.trim()
+      };
+    });
+  }
+
+  /**
+   * Consecutive segments from the same speaker merged into turns
+   */
+  static getSpeakerTurns(transcript: TranscriptInterface, durationSeconds?: number | null): SpeakerTurn[] {
+    const turns: SpeakerTurn[] = [];
+
+    for (const segment of this.getTimedSegments(transcript, durationSeconds)) {
+      const previous = turns[turns.length - 1];
+      if (previous && previous.speaker === segment.speaker) {
+        previous.text += ` ${segment.text}`;
+        previous.end_ms = segment.end_ms;
+      } else {
+        turns.push({ ...segment });
+      }
+    }
+
+    return turns;
+  }
+
+  /**
+   * SRT or WebVTT subtitles aligned to the call recording
+   */
+  static toSubtitles(
+    transcript: TranscriptInterface,
+    format: 'srt' | 'vtt',
+    metadata?: TranscriptCallMetadata | null
+  ): string {
+    const separator = format === 'srt' ? ',' : '.';
+    const cues = this.getTimedSegments(transcript, metadata?.duration_seconds).map((segment, index) => {
+      const timing = `${formatCueTime(segment.start_ms, separator)} --> ${formatCueTime(segment.end_ms, separator)}`;
+      const text = `${this.speakerLabel(segment.speaker, metadata)}: ${segment.text.replace(/\n+/g, ' ')}`;
+      // WebVTT cue text cannot contain "-->"
+      return format === 'srt'
+        ? `${index + 1}\n${timing}\n${text}`
+        : `${timing}\n${text.replace(/-->/g, '->')}`;
+    });
+
+    return format === 'srt'
+      ? `${cues.join('\n\n')}\n`
+      : `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+
+  /**
+   * Export the transcript of one call
+   * @returns null if the call does not belong to the user or has no transcript
+   */
+  static async exportCallTranscript(
+    callId: string,
+    userId: string,
+    format: TranscriptExportFormat
+  ): Promise<TranscriptExportFile | null> {
+    const transcript = await TranscriptService.getTranscriptByCallId(callId, userId);
+    if (!transcript) {
+      return null;
+    }
+
+    const metadata = (await this.getCallMetadata(userId, [callId])).get(callId) || null;
+
+    return {
+      filename: `transcript_${callId}.${format}`,
+      content: await this.render(transcript, metadata, format),
+      contentType: CONTENT_TYPES[format]
+    };
+  }
+
+  /**
+   * Zip the transcripts of a campaign and/or date range, one file per call plus a manifest.csv
+   * @throws TranscriptExportError
+   */
+  static async exportBulk(userId: string, options: BulkTranscriptExportOptions): Promise<TranscriptExportFile> {
+    if (!options.campaignId && !options.startDate && !options.endDate) {
+      throw new TranscriptExportError('A campaign or date range is required for bulk export');
+    }
+    if (options.startDate && options.endDate && options.startDate > options.endDate) {
+      throw new TranscriptExportError('start_date must be before end_date');
+    }
+
+    const conditions = ['t.user_id = $1'];
+    const params: unknown[] = [userId];
+    if (options.campaignId) {
+      params.push(options.campaignId);
+      conditions.push(`c.campaign_id = $${params.length}`);
+    }
+    if (options.startDate) {
+      params.push(options.startDate);
+      conditions.push(`c.created_at >= $${params.length}`);
+    }
+    if (options.endDate) {
+      params.push(options.endDate);
+      conditions.push(`c.created_at <= $${params.length}`);
+    }
+    params.push(MAX_BULK_TRANSCRIPTS + 1);
+
+    const result = await pool.query(
+      `SELECT t.*
+       FROM transcripts t
+       JOIN calls c ON c.id = t.call_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY c.created_at ASC
+       LIMIT $${params.length}`,
+      params
+    );
+    const transcripts: TranscriptInterface[] = result.rows;
+
+    if (transcripts.length === 0) {
+      throw new TranscriptExportError('No transcripts found for the selected campaign or date range');
+    }
+    if (transcripts.length > MAX_BULK_TRANSCRIPTS) {
+      throw new TranscriptExportError(
+        `More than ${MAX_BULK_TRANSCRIPTS} transcripts match; narrow the date range or export per campaign`
+      );
+    }
+
+    const metadataByCall = await this.getCallMetadata(userId, transcripts.map(transcript => transcript.call_id));
+    const zip = new JSZip();
+    const manifest: unknown[][] = [];
+    const usedNames = new Set<string>();
+
+    for (const transcript of transcripts) {
+      const metadata = metadataByCall.get(transcript.call_id) || null;
+      const filename = this.uniqueFilename(this.bulkFilename(transcript, metadata, options.format), usedNames);
+      zip.file(filename, await this.render(transcript, metadata, options.format));
+
+      manifest.push([
+        filename,
+        transcript.call_id,
+        metadata?.created_at ? new Date(metadata.created_at).toISOString() : '',
+        metadata?.phone_number,
+        metadata?.contact_name,
+        metadata?.agent_name,
+        metadata?.campaign_name,
+        metadata?.duration_seconds,
+        metadata?.lead_score,
+        metadata?.lead_status_tag
+      ]);
+    }
+
+    zip.file('manifest.csv', toCsv(
+      ['File', 'Call ID', 'Call Time', 'Phone Number', 'Contact', 'Agent', 'Campaign', 'Duration (s)', 'Lead Score', 'Lead Status'],
+      manifest
+    ));
+
+    logger.info('[TranscriptExportService] Bulk transcript export generated', {
+      userId,
+      format: options.format,
+      campaignId: options.campaignId,
+      count: transcripts.length
+    });
+
+    return {
+      filename: `transcripts_${new Date().toISOString().slice(0, 10)}.zip`,
+      content: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+      contentType: 'application/zip'
+    };
+  }
+
+  private static async render(
+    transcript: TranscriptInterface,
+    metadata: TranscriptCallMetadata | null,
+    format: TranscriptExportFormat
+  ): Promise<Buffer> {
+    switch (format) {
+      case 'srt':
+      case 'vtt':
+        return Buffer.from(this.toSubtitles(transcript, format, metadata), 'utf8');
+      case 'pdf':
+        return createTextPdf(this.toPdfBlocks(transcript, metadata), `Call transcript ${transcript.call_id}`);
+      case 'docx':
+        return await createDocx(this.toDocxParagraphs(transcript, metadata), `Call transcript ${transcript.call_id}`);
+      default:
+        return Buffer.from(TranscriptService.exportTranscript(transcript, format), 'utf8');
+    }
+  }
+
+  /**
+   * Header fields shown at the top of document exports
+   */
+  private static headerFields(transcript: TranscriptInterface, metadata: TranscriptCallMetadata | null): Array<[string, string]> {
+    const fields: Array<[string, string | number | null | undefined]> = [
+      ['Call ID', transcript.call_id],
+      ['Date', metadata?.created_at ? new Date(metadata.created_at).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : null],
+      ['Agent', metadata?.agent_name],
+      ['Contact', [metadata?.contact_name, metadata?.phone_number].filter(Boolean).join(' - ')],
+      ['Campaign', metadata?.campaign_name],
+      ['Duration', metadata?.duration_seconds ? formatOffset(metadata.duration_seconds * 1000) : null],
+      ['Status', metadata?.status],
+      ['Lead Score', metadata?.lead_score !== null && metadata?.lead_score !== undefined
+        ? `${metadata.lead_score}/100${metadata.lead_status_tag ? ` (${metadata.lead_status_tag})` : ''}`
+        : null]
+    ];
+
+    return fields
+      .filter((field): field is [string, string | number] => field[1] !== null && field[1] !== undefined && field[1] !== '')
+      .map(([label, value]) => [label, String(value)]);
+  }
+
+  private static toPdfBlocks(transcript: TranscriptInterface, metadata: TranscriptCallMetadata | null): PdfBlock[] {
+    const blocks: PdfBlock[] = [{ text: 'Call Transcript', bold: true, size: 16 }];
+
+    for (const [label, value] of this.headerFields(transcript, metadata)) {
+      blocks.push({ text: `${label}: ${value}`, spaceBefore: blocks.length === 1 ? 8 : 0 });
+    }
+    if (metadata?.summary) {
+      blocks.push({ text: 'Summary', bold: true, size: 12, spaceBefore: 12 });
+      blocks.push({ text: metadata.summary, spaceBefore: 2 });
+    }
+
+    blocks.push({ text: 'Transcript', bold: true, size: 12, spaceBefore: 12 });
+    const turns = this.getSpeakerTurns(transcript, metadata?.duration_seconds);
+    if (turns.length === 0) {
+      blocks.push({ text: transcript.content || '', spaceBefore: 2 });
+    }
+    for (const turn of turns) {
+      blocks.push({
+        text: `[${formatOffset(turn.start_ms)}] ${this.speakerLabel(turn.speaker, metadata)}`,
+        bold: true,
+        spaceBefore: 6
+      });
+      blocks.push({ text: turn.text, indent: 12 });
+    }
+
+    return blocks;
+  }
+
+  private static toDocxParagraphs(transcript: TranscriptInterface, metadata: TranscriptCallMetadata | null): DocxParagraph[] {
+    const paragraphs: DocxParagraph[] = [{ runs: [{ text: 'Call Transcript', bold: true, size: 16 }] }];
+
+    for (const [label, value] of this.headerFields(transcript, metadata)) {
+      paragraphs.push({ runs: [{ text: `${label}: `, bold: true }, { text: value }] });
+    }
+    if (metadata?.summary) {
+      paragraphs.push({ runs: [{ text: 'Summary', bold: true, size: 13 }], spaceBefore: 12 });
+      paragraphs.push({ runs: [{ text: metadata.summary }] });
+    }
+
+    paragraphs.push({ runs: [{ text: 'Transcript', bold: true, size: 13 }], spaceBefore: 12 });
+    const turns = this.getSpeakerTurns(transcript, metadata?.duration_seconds);
+    if (turns.length === 0) {
+      paragraphs.push({ runs: [{ text: transcript.content || '' }] });
+    }
+    for (const turn of turns) {
+      paragraphs.push({
+        runs: [
+          { text: `[${formatOffset(turn.start_ms)}] ${this.speakerLabel(turn.speaker, metadata)}: `, bold: true },
+          { text: turn.text }
+        ],
+        spaceBefore: 4
+      });
+    }
+
+    return paragraphs;
+  }
+
+  private static speakerLabel(speaker: SpeakerSegment['speaker'], metadata: TranscriptCallMetadata | null | undefined): string {
+    if (speaker === 'agent') {
+      return metadata?.agent_name ? `Agent (${metadata.agent_name})` : 'Agent';
+    }
+    return metadata?.contact_name ? `Contact (${metadata.contact_name})` : 'Contact';
+  }
+
+  private static bulkFilename(
+    transcript: TranscriptInterface,
+    metadata: TranscriptCallMetadata | null,
+    format: TranscriptExportFormat
+  ): string {
+    const date = metadata?.created_at ? new Date(metadata.created_at).toISOString().slice(0, 10) : 'unknown-date';
+    const who = (metadata?.contact_name || metadata?.phone_number || 'call')
+      .replace(/[^a-z0-9+_-]+/gi, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 40) || 'call';
+    return `${date}_${who}_${transcript.call_id.slice(0, 8)}.${format}`;
+  }
+
+  private static uniqueFilename(filename: string, usedNames: Set<string>): string {
+    let candidate = filename;
+    for (let suffix = 2; usedNames.has(candidate); suffix++) {
+      candidate = filename.replace(/(\.[a-z]+)$/, `_${suffix}$1`);
+    }
+    usedNames.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Agent, contact, campaign and lead scoring details for the given calls
+   */
+  private static async getCallMetadata(userId: string, callIds: string[]): Promise<Map<string, TranscriptCallMetadata>> {
+    const result = await pool.query(
+      `SELECT c.id AS call_id, c.phone_number, c.created_at, c.duration_seconds, c.status,
+              a.name AS agent_name, ct.name AS contact_name, cp.name AS campaign_name,
+              la.total_score AS lead_score, la.lead_status_tag,
+              COALESCE(la.transcript_summary, la.in_detail_summary) AS summary
+       FROM calls c
+       LEFT JOIN agents a ON a.id = c.agent_id
+       LEFT JOIN contacts ct ON ct.id = c.contact_id
+       LEFT JOIN call_campaigns cp ON cp.id = c.campaign_id
+       LEFT JOIN LATERAL (
+         SELECT total_score, lead_status_tag, transcript_summary, in_detail_summary
+         FROM lead_analytics
+         WHERE call_id = c.id AND analysis_type = 'individual'
+         ORDER BY created_at DESC
+         LIMIT 1
+       ) la ON true
+       WHERE c.user_id = $1 AND c.id = ANY($2::uuid[])`,
+      [userId, callIds]
+    );
+
+    return new Map(result.rows.map((row: TranscriptCallMetadata) => [row.call_id, row]));
+  }
+}
@@ -0,0 +1,257 @@
+import { pool } from '../config/database';
+import { logger } from '../utils/logger';
+
+export type UserEventType =
+  | 'call.status'
+  | 'queue.updated'
+  | 'campaign.progress'
+  | 'lead_analytics.created'
+  | 'notification.created';
+
+export interface UserEvent {
+  id: string; // BIGSERIAL, sent as the SSE event ID
+  userId: string;
+  type: UserEventType;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type UserEventListener = (event: UserEvent) => void;
+
+interface Subscription {
+  listener: UserEventListener;
+  delivered: Set<string>; // Recent event IDs, so local and NOTIFY delivery don't duplicate
+}
+
+export const USER_EVENTS_CHANNEL = 'user_events';
+
+const REPLAY_LIMIT = 500;
+// IDs are taken before commit, so an event can become visible after one with a higher ID;
+// replay also resends events from shortly before the client's last one (clients drop duplicates)
+const REPLAY_OVERLAP_SECONDS = 5;
+const DELIVERED_ID_WINDOW = 200;
+// NOTIFY payloads are capped at 8000 bytes; larger events are sent as a reference and loaded
+const MAX_INLINE_PAYLOAD_BYTES = 7000;
+
+/**
+ * Per-user dashboard event stream
+ *
+ * Events are written to user_events and announced with NOTIFY user_events, so every
+ * API instance can push them to the clients connected to it (the notification
+ * listener calls handleNotification). The publishing instance also delivers its own
+ * events immediately. Events are kept for RETENTION_HOURS so a reconnecting client can
+ * resume from its Last-Event-ID; clients further behind are told to resync.
+ */
+export class UserEventService {
+  private subscriptions = new Map<string, Set<Subscription>>();
+  private pruneIntervalId: ReturnType<typeof setInterval> | null = null;
+  private readonly PRUNE_INTERVAL = 60 * 60 * 1000; // Prune hourly
+  private readonly RETENTION_HOURS = 24;
+  // Off unless ENABLE_EVENT_STREAM=true (it needs a dedicated LISTEN connection)
+  private readonly enabled = process.env.ENABLE_EVENT_STREAM === 'true';
+
+  /**
+   * Record an event for a user and push it to their connected clients
+   * Never throws: the dashboard stream must not break the flow that triggered the event.
+   */
+  async publish(userId: string, type: UserEventType, data: Record<string, unknown>): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const result = await pool.query(
+        `WITH event AS (
+           INSERT INTO user_events (user_id, event_type, payload)
+           VALUES ($1, $2, $3)
+           RETURNING id, user_id, event_type, payload, created_at
+         )
+         SELECT event.*, pg_notify($4, CASE
+           WHEN octet_length(payload::text) <= $5
+             THEN json_build_object('id', id, 'user_id', user_id, 'event_type', event_type, 'payload', payload, 'created_at', created_at)
+           ELSE json_build_object('id', id, 'user_id', user_id)
+         END::text)
+         FROM event`,
+        [userId, type, JSON.stringify(data), USER_EVENTS_CHANNEL, MAX_INLINE_PAYLOAD_BYTES]
+      );
+
+      this.deliver(toUserEvent(result.rows[0]));
+    } catch (error) {
+      logger.error('[UserEventService] Failed to publish event', {
+        userId,
+        type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Deliver a user_events notification (from any instance) to local subscribers
+   */
+  async handleNotification(payload: string): Promise<void> {
+    try {
+      const notification = JSON.parse(payload);
+      if (!this.subscriptions.has(notification.user_id)) {
+        return; // No client for this user on this instance
+      }
+
+      let row = notification;
+      if (notification.payload === undefined) {
+        const result = await pool.query(
+          'SELECT id, user_id, event_type, payload, created_at FROM user_events WHERE id = $1',
+          [notification.id]
+        );
+        row = result.rows[0];
+      }
+
+      if (row) {
+        this.deliver(toUserEvent(row));
+      }
+    } catch (error) {
+      logger.error('[UserEventService] Failed to handle event notification', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Receive a user's events; returns the unsubscribe function
+   */
+  subscribe(userId: string, listener: UserEventListener): () => void {
+    const subscription: Subscription = { listener, delivered: new Set() };
+    const userSubscriptions = this.subscriptions.get(userId) || new Set<Subscription>();
+    userSubscriptions.add(subscription);
+    this.subscriptions.set(userId, userSubscriptions);
+
+    return () => {
+      userSubscriptions.delete(subscription);
+      if (userSubscriptions.size === 0 && this.subscriptions.get(userId) === userSubscriptions) {
+        this.subscriptions.delete(userId);
+      }
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  connectionCount(userId: string): number {
+    return this.subscriptions.get(userId)?.size || 0;
+  }
+
+  /**
+   * Events after the given ID, oldest first, plus the other events created up to
+   * REPLAY_OVERLAP_SECONDS before it (an event that committed late may have a lower ID)
+   * Returns null when the gap can't be replayed (pruned or too many events) and the
+   * client should reload its data instead.
+   */
+  async replay(userId: string, afterId: string): Promise<UserEvent[] | null> {
+    // The client's last event is pruned with everything before it
+    const last = await pool.query(
+      'SELECT created_at FROM user_events WHERE id = $1 AND user_id = $2',
+      [afterId, userId]
+    );
+    if (last.rows.length === 0) {
+      return null;
+    }
+
+    const result = await pool.query(
+      `SELECT id, user_id, event_type, payload, created_at
+       FROM user_events
+       WHERE user_id = $1
+         AND id <> $2
+         AND (id > $2 OR created_at > $3::timestamptz - INTERVAL '1 second' * $4)
+       ORDER BY id ASC
+       LIMIT $5`,
+      [userId, afterId, last.rows[0].created_at, REPLAY_OVERLAP_SECONDS, REPLAY_LIMIT + 1]
+    );
+    if (result.rows.length > REPLAY_LIMIT) {
+      return null;
+    }
+    return result.rows.map(toUserEvent);
+  }
+
+  /**
+   * Start pruning events past the retention window
+   */
+  start(): void {
+    if (this.pruneIntervalId) {
+      return; // Already running
+    }
+
+    this.pruneIntervalId = setInterval(() => {
+      this.pruneExpired().catch(error => {
+        logger.error('[UserEventService] Error pruning events', { error: error.message });
+      });
+    }, this.PRUNE_INTERVAL);
+
+    logger.info('[UserEventService] Event stream started', { retentionHours: this.RETENTION_HOURS });
+  }
+
+  stop(): void {
+    if (this.pruneIntervalId) {
+      clearInterval(this.pruneIntervalId);
+      this.pruneIntervalId = null;
+      logger.info('[UserEventService] Event stream stopped');
+    }
+  }
+
+  async pruneExpired(): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM user_events WHERE created_at < NOW() - INTERVAL '1 hour' * $1`,
+      [this.RETENTION_HOURS]
+    );
+    if (result.rowCount > 0) {
+      logger.info('[UserEventService] Pruned expired events', { deleted: result.rowCount });
+    }
+    return result.rowCount || 0;
+  }
+
+  getStatus(): { connectedUsers: number; connections: number } {
+    let connections = 0;
+    for (const userSubscriptions of this.subscriptions.values()) {
+      connections += userSubscriptions.size;
+    }
+    return { connectedUsers: this.subscriptions.size, connections };
+  }
+
+  private deliver(event: UserEvent): void {
+    const userSubscriptions = this.subscriptions.get(event.userId);
+    if (!userSubscriptions) {
+      return;
+    }
+
+    for (const subscription of userSubscriptions) {
+      if (subscription.delivered.has(event.id)) {
+        continue;
+      }
+      subscription.delivered.add(event.id);
+      if (subscription.delivered.size > DELIVERED_ID_WINDOW) {
+        // Sets iterate in insertion order: drop the oldest ID
+        subscription.delivered.delete(subscription.delivered.values().next().value as string);
+      }
+
+      try {
+        subscription.listener(event);
+      } catch (error) {
+        logger.error('[UserEventService] Event listener failed', {
+          userId: event.userId,
+          eventId: event.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
+
+function toUserEvent(row: any): UserEvent {
+  return {
+    id: String(row.id),
+    userId: row.user_id,
+    type: row.event_type,
+    data: row.payload || {},
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+export const userEventService = new UserEventService();
@@ -6,6 +6,7 @@ import { notificationService } from './notificationService';
 import * as Sentry from '@sentry/node';
 import { hashUserId } from '../utils/sentryHelpers';
 import { isValidTimezone } from '../utils/timezoneUtils';
+import { DEFAULT_PHONE_REGION, isSupportedRegion } from '../utils/phoneNumber';
 
 interface UserProfile {
   id: string;
@@ -30,6 +31,8 @@ interface UserProfile {
   timezone_auto_detected?: boolean;
   timezone_manually_set?: boolean;
   timezone_updated_at?: Date | null;
+  // Region for phone numbers without a country code
+  default_phone_region: string;
 }
 
 interface UserStats {
@@ -46,6 +49,7 @@ interface ProfileUpdateData {
   website?: string | null;
   timezone?: string;
   timezone_manually_set?: boolean;
+  default_phone_region?: string | null;
   location?: string | null;
   bio?: string | null;
   phone?: string | null;
@@ -141,6 +145,14 @@ class UserService {
       }
     }
 
+    // Validate default phone region if provided
+    if (data.default_phone_region && !isSupportedRegion(data.default_phone_region)) {
+      errors.push({
+        field: 'default_phone_region',
+        message: 'Please provide a supported ISO 3166-1 alpha-2 region code (e.g., "IN", "US")'
+      });
+    }
+
     return errors;
   }
 
@@ -169,6 +181,11 @@ class UserService {
     if (data.timezone !== undefined) sanitized.timezone = sanitizeString(data.timezone);
     if (data.timezone_manually_set !== undefined) sanitized.timezone_manually_set = data.timezone_manually_set;
 
+    // Phone region (null resets to the default)
+    if (data.default_phone_region !== undefined) {
+      sanitized.default_phone_region = sanitizeString(data.default_phone_region)?.toUpperCase() ?? null;
+    }
+
     return sanitized;
   }
 
@@ -274,6 +291,7 @@ class UserService {
         timezone_auto_detected: user.timezone_auto_detected,
         timezone_manually_set: user.timezone_manually_set,
         timezone_updated_at: user.timezone_updated_at,
+        default_phone_region: user.default_phone_region || DEFAULT_PHONE_REGION,
       };
     } catch (error) {
       console.error('Error getting user profile:', error);
@@ -0,0 +1,37 @@
+import { BolnaVoiceProvider } from './bolnaVoiceProvider';
+import { SimulatorVoiceProvider } from './simulatorVoiceProvider';
+import { VoiceProvider, VoiceProviderName } from '../types/voiceProvider';
+import { logger } from '../utils/logger';
+
+const VOICE_PROVIDERS: Record<VoiceProviderName, () => VoiceProvider> = {
+  bolna: () => new BolnaVoiceProvider(),
+  simulator: () => new SimulatorVoiceProvider()
+};
+
+const instances = new Map<VoiceProviderName, VoiceProvider>();
+
+/**
+ * Voice provider by name, or the one selected with VOICE_PROVIDER (default bolna)
+ */
+export function getVoiceProvider(name?: VoiceProviderName): VoiceProvider {
+  const providerName = name || configuredProviderName();
+
+  let provider = instances.get(providerName);
+  if (!provider) {
+    provider = VOICE_PROVIDERS[providerName]();
+    instances.set(providerName, provider);
+
+    if (providerName === 'simulator' && process.env.NODE_ENV === 'production') {
+      logger.warn('[VoiceProvider] The call simulator is active in production: no real calls will be placed');
+    }
+  }
+  return provider;
+}
+
+function configuredProviderName(): VoiceProviderName {
+  const configured = (process.env.VOICE_PROVIDER || 'bolna').toLowerCase();
+  if (configured in VOICE_PROVIDERS) {
+    return configured as VoiceProviderName;
+  }
+  throw new Error(`Unknown VOICE_PROVIDER "${configured}" (expected one of: ${Object.keys(VOICE_PROVIDERS).join(', ')})`);
+}
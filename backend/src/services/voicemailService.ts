@@ -0,0 +1,115 @@
+import { configService } from './configService';
+import { CallCampaign, CustomRetrySchedule } from '../types/campaign';
+
+export type VoicemailDetectionSource = 'provider' | 'transcript';
+
+export type VoicemailBillingMode = 'full' | 'free' | 'capped';
+
+export const VOICEMAIL_BILLING_MODES: VoicemailBillingMode[] = ['full', 'free', 'capped'];
+
+// Greetings only count when the whole call was short; a person can say the same words
+const MAX_GREETING_CALL_SECONDS = 60;
+const MAX_GREETING_WORDS = 80;
+
+const GREETING_PATTERNS: RegExp[] = [
+  /leave (me )?(a|your) (brief |short )?(message|name and number)/,
+  /after the (tone|beep)/,
+  /at the (tone|beep)/,
+  /(reached|this is|forwarded to) (the )?(voice ?mail|mailbox|an automated voice messaging)/,
+  /mailbox (is full|belonging to)/,
+  /record your message/,
+  /(is|are) (not available|unavailable) (right now|at the moment|to take your call)/,
+  /can'?t (take|come to) (your call|the phone)/
+];
+
+const MAX_RETRIES = 5;
+const MAX_DELAY_MINUTES = 7 * 24 * 60;
+
+/**
+ * Voicemail handling: detection, billing rule and campaign retry schedule
+ */
+export class VoicemailService {
+  /**
+   * Decide whether an ended call reached an answering machine
+   * The provider's own flag wins; otherwise a short call whose caller side reads like
+   * a voicemail greeting counts. Returns null for calls that reached a person.
+   */
+  static detect(input: {
+    answeredByVoicemail?: boolean | null;
+    transcript?: string | null;
+    durationSeconds: number;
+  }): VoicemailDetectionSource | null {
+    if (input.answeredByVoicemail) {
+      return 'provider';
+    }
+
+    if (!input.transcript || input.durationSeconds > MAX_GREETING_CALL_SECONDS) {
+      return null;
+    }
+
+    const userLines = input.transcript
+      .split('\n')
+      .map(line => line.match(/^user:\s*(.+)$/i)?.[1])
+      .filter((text): text is string => !!text);
+
+    if (userLines.length === 0 || userLines.join(' ').split(/\s+/).length > MAX_GREETING_WORDS) {
+      return null;
+    }
+
+    // A greeting is the first thing heard on the line
+    const opening = userLines[0].toLowerCase();
+    return GREETING_PATTERNS.some(pattern => pattern.test(opening)) ? 'transcript' : null;
+  }
+
+  /**
+   * Seconds of a voicemail call that are billed, per the admin's voicemail_billing_mode
+   */
+  static getBillableSeconds(durationSeconds: number): number {
+    const mode = configService.get('voicemail_billing_mode') as VoicemailBillingMode;
+
+    if (mode === 'free') {
+      return 0;
+    }
+    if (mode === 'capped') {
+      return Math.min(durationSeconds, Math.max(configService.get('voicemail_billable_seconds'), 0));
+    }
+    return durationSeconds;
+  }
+
+  /**
+   * Delay before the given voicemail retry (1-based), or null when the campaign's
+   * voicemail schedule has no such attempt
+   */
+  static getRetryDelay(campaign: Pick<CallCampaign, 'voicemail_retry_schedule'>, attempt: number): number | null {
+    const entry = campaign.voicemail_retry_schedule?.retries.find(retry => retry.attempt === attempt);
+    return entry ? entry.delay_minutes : null;
+  }
+
+  /**
+   * Validate a campaign's voicemail_retry_schedule (null turns voicemail retries off)
+   * @throws Error describing the first problem found
+   */
+  static validateRetrySchedule(schedule: unknown): CustomRetrySchedule | null {
+    if (schedule === null) {
+      return null;
+    }
+
+    const retries = (schedule as CustomRetrySchedule | undefined)?.retries;
+    if (!Array.isArray(retries) || retries.length === 0 || retries.length > MAX_RETRIES) {
+      throw new Error(`voicemail_retry_schedule must list between 1 and ${MAX_RETRIES} retries`);
+    }
+
+    return {
+      retries: retries.map((retry, index) => {
+        const delay = Number(retry?.delay_minutes);
+        if (retry?.attempt !== index + 1) {
+          throw new Error('voicemail_retry_schedule attempts must be numbered 1, 2, 3, ... in order');
+        }
+        if (!Number.isInteger(delay) || delay < 1 || delay > MAX_DELAY_MINUTES) {
+          throw new Error(`voicemail_retry_schedule delay_minutes must be a whole number from 1 to ${MAX_DELAY_MINUTES}`);
+        }
+        return { attempt: retry.attempt, delay_minutes: delay };
+      })
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import Call from '../models/Call';
+import Call, { CallInterface } from '../models/Call';
 import Agent from '../models/Agent';
 import Transcript from '../models/Transcript';
 import CallQueue from '../models/CallQueue';
@@ -7,13 +7,18 @@ import { CallCampaignModel } from '../models/CallCampaign';
 import ContactModel from '../models/Contact';
 import { BillingService } from './billingService';
 import { ContactAutoCreationService } from './contactAutoCreationService';
+import { ContactService } from './contactService';
 import { openaiExtractionService } from './openaiExtractionService';
 import { leadAnalyticsService } from './leadAnalyticsService';
 import { userService } from './userService';
 import { concurrencyManager } from './ConcurrencyManager';
 import { notificationService } from './notificationService';
+import { userEventService } from './userEventService';
+import { VoicemailService, VoicemailDetectionSource } from './voicemailService';
 import { BolnaWebhookPayload } from '../types/webhook';
+import { CallOutcome } from '../types/autoEngagement';
 import { logger } from '../utils/logger';
+import { isInternationalFormat, toE164BestEffort } from '../utils/phoneNumber';
 import database from '../config/database';
 import * as Sentry from '@sentry/node';
 
@@ -32,60 +37,16 @@ import * as Sentry from '@sentry/node';
  */
 
 /**
- * Normalize phone number format to [ISD code] [space] [rest of the number]
- * Properly handles explicit country codes (with + prefix) and international numbers
+ * E.164 form of a caller / recipient number, read in the agent owner's default region
+ * (never rejected: ambiguous numbers are read in that region rather than as another country,
+ * numbers that do not validate keep their digits). The region is only looked up for numbers
+ * without a country code.
  */
-function normalizePhoneNumber(phoneNumber: string): string {
-  const trimmed = phoneNumber.trim();
-  const hasExplicitCountryCode = trimmed.startsWith('+');
-  const cleaned = trimmed.replace(/[^\d+]/g, '');
-  const digitsOnly = cleaned.replace(/^\+/, '');
-  
-  if (digitsOnly.length < 7) {
-    throw new Error('Invalid phone number format');
+async function normalizePhoneNumber(userId: string, phoneNumber: string): Promise<string> {
+  if (isInternationalFormat(phoneNumber)) {
+    return toE164BestEffort(phoneNumber);
   }
-  
-  let mainNumber: string;
-  let isdCode: string;
-  
-  if (hasExplicitCountryCode) {
-    // User provided explicit country code - extract it
-    const twoDigitCodes = [
-      '91', '92', '93', '94', '95', '98', '60', '61', '62', '63', '64', '65', '66', 
-      '81', '82', '84', '86', '20', '27', '30', '31', '32', '33', '34', '36', '39', 
-      '40', '41', '43', '44', '45', '46', '47', '48', '49', '51', '52', '53', '54', 
-      '55', '56', '57', '58', '70', '71', '72', '73', '74', '75', '76', '77', '78', '79', '80'
-    ];
-    const threeDigitCodes = ['971', '966', '965', '968', '974', '973', '972', '353', '354', '358'];
-    
-    if (digitsOnly.startsWith('1') && digitsOnly.length >= 11) {
-      isdCode = '1';
-      mainNumber = digitsOnly.substring(1);
-    } else if (threeDigitCodes.includes(digitsOnly.substring(0, 3)) && digitsOnly.length >= 10) {
-      isdCode = digitsOnly.substring(0, 3);
-      mainNumber = digitsOnly.substring(3);
-    } else if (twoDigitCodes.includes(digitsOnly.substring(0, 2))) {
-      isdCode = digitsOnly.substring(0, 2);
-      mainNumber = digitsOnly.substring(2);
-    } else {
-      isdCode = digitsOnly.substring(0, 2);
-      mainNumber = digitsOnly.substring(2);
-    }
-  } else {
-    // No explicit + prefix - use length-based defaults
-    if (digitsOnly.length <= 10) {
-      isdCode = '91';
-      mainNumber = digitsOnly;
-    } else if (digitsOnly.length === 11) {
-      isdCode = digitsOnly.substring(0, 1);
-      mainNumber = digitsOnly.substring(1);
-    } else {
-      isdCode = digitsOnly.substring(0, 2);
-      mainNumber = digitsOnly.substring(2);
-    }
-  }
-  
-  return `+${isdCode} ${mainNumber}`;
+  return toE164BestEffort(phoneNumber, await ContactService.getDefaultPhoneRegion(userId));
 }
 
 /**
@@ -166,6 +127,11 @@ class WebhookService {
         
         default:
           logger.warn('⚠️  Unknown webhook status', { status, execution_id: executionId });
+          return;
+      }
+
+      if (executionId) {
+        this.publishCallStatus(executionId, status);
       }
     } catch (error) {
       logger.error('❌ Webhook processing error', {
@@ -241,7 +207,7 @@ class WebhookService {
       throw new Error(`Phone number not found in ${callType} call payload`);
     }
 
-    const normalizedPhone = normalizePhoneNumber(phoneNumber);
+    const normalizedPhone = await normalizePhoneNumber(agent.user_id, phoneNumber);
     
     // Check if contact exists for this phone number
     let contactId: string | undefined = undefined;
@@ -626,7 +592,7 @@ class WebhookService {
         user_id: agent.user_id,
         bolna_conversation_id: executionId,
         bolna_execution_id: executionId,
-        phone_number: normalizePhoneNumber(phoneNumber),
+        phone_number: await normalizePhoneNumber(agent.user_id, phoneNumber),
         call_source: 'phone',
         status: 'completed',
         call_lifecycle_status: 'completed',
@@ -698,12 +664,41 @@ class WebhookService {
       throw new Error(`Agent not found: ${call.agent_id}`);
     }
 
+    // Calculate billing
+    const durationSeconds = Math.floor(payload.conversation_duration || 0); // Convert float to integer
+    const durationMinutes = Math.ceil(durationSeconds / 60);
+
+    // Answering machine: flagged by the provider, or a short transcript that reads like a greeting
+    let transcriptContent = payload.transcript;
+    if (!transcriptContent && call.transcript_id) {
+      transcriptContent = (await Transcript.findById(call.transcript_id))?.content || null;
+    }
+    const voicemailSource = VoicemailService.detect({
+      answeredByVoicemail: payload.answered_by_voice_mail,
+      transcript: transcriptContent,
+      durationSeconds
+    });
+
+    // Voicemail calls are billed per the admin's voicemail billing rule
+    const billableSeconds = voicemailSource ? VoicemailService.getBillableSeconds(durationSeconds) : durationSeconds;
+    const creditsUsed = Math.ceil(billableSeconds / 60);
+
     const updateData: any = {
-      call_lifecycle_status: 'completed',
+      call_lifecycle_status: voicemailSource ? 'voicemail' : 'completed',
       status: 'completed',
-      completed_at: new Date()
+      completed_at: new Date(),
+      voicemail_detected_by: voicemailSource
     };
 
+    if (voicemailSource) {
+      logger.info('📼 Call reached voicemail', {
+        execution_id: executionId,
+        detected_by: voicemailSource,
+        duration_seconds: durationSeconds,
+        billable_seconds: billableSeconds
+      });
+    }
+
     // ✅ SAVE RECORDING URL - This is where it appears
     if (payload.telephony_data?.recording_url) {
       updateData.recording_url = payload.telephony_data.recording_url;
@@ -713,11 +708,6 @@ class WebhookService {
       });
     }
 
-    // Calculate billing
-    const durationSeconds = Math.floor(payload.conversation_duration || 0); // Convert float to integer
-    const durationMinutes = Math.ceil(durationSeconds / 60);
-    const creditsUsed = durationMinutes;
-
     updateData.duration_seconds = durationSeconds;
     updateData.duration_minutes = durationMinutes;
     updateData.credits_used = creditsUsed;
@@ -753,7 +743,7 @@ class WebhookService {
         const result = await BillingService.processCallCredits(
           call.user_id,
           call.id,
-          durationSeconds,
+          billableSeconds,
           call.phone_number
         );
         
@@ -799,6 +789,9 @@ class WebhookService {
             logger.error('Failed to send credit notification:', error);
           });
         }
+      } else {
+        // Nothing to charge (e.g. unbilled voicemail); free the credits held for the call
+        await BillingService.releaseCallReservation(call.id);
       }
     } catch (error) {
       logger.error('❌ Failed to deduct credits', {
@@ -810,9 +803,12 @@ class WebhookService {
       // Don't fail webhook - log for manual review
     }
 
-    // Run OpenAI analysis if transcript exists (async, don't block)
-    // Use updatedCall to ensure we have the latest transcript_id
-    if (updatedCall.transcript_id) {
+    // Voicemail greetings carry no lead information, so they skip OpenAI analysis
+    if (voicemailSource) {
+      await this.handleVoicemail(updatedCall, voicemailSource);
+    } else if (updatedCall.transcript_id) {
+      // Run OpenAI analysis if transcript exists (async, don't block)
+      // Use updatedCall to ensure we have the latest transcript_id
       logger.info('🤖 Running OpenAI analysis', { 
         execution_id: executionId,
         transcript_id: updatedCall.transcript_id 
@@ -828,6 +824,7 @@ class WebhookService {
         .then(async (transcript) => {
           if (!transcript) {
             logger.warn('Transcript not found', { transcript_id: updatedCall.transcript_id });
+            this.resumeFlowsAwaitingCall(updatedCall.id, 'answered', { call_status: 'completed' });
             return;
           }
 
@@ -928,7 +925,7 @@ class WebhookService {
             }
 
             // Process dual analysis
-            await leadAnalyticsService.processDualAnalysis(
+            const analysis = await leadAnalyticsService.processDualAnalysis(
               individualData,
               completeData,
               updatedCall.id,
@@ -937,6 +934,24 @@ class WebhookService {
               previousCallsCount
             );
 
+            userEventService.publish(updatedCall.user_id, 'lead_analytics.created', {
+              callId: updatedCall.id,
+              leadAnalyticsId: analysis.individual.id,
+              phoneNumber: updatedCall.phone_number,
+              totalScore: analysis.individual.total_score,
+              leadStatusTag: analysis.individual.lead_status_tag,
+              intentLevel: analysis.individual.intent_level
+            });
+
+            // Auto engagement flows waiting on this call can branch on the lead score now
+            this.resumeFlowsAwaitingCall(updatedCall.id, 'answered', {
+              call_status: 'completed',
+              duration_seconds: updatedCall.duration_seconds,
+              lead_score: analysis.individual.total_score,
+              lead_status_tag: analysis.individual.lead_status_tag,
+              intent_level: analysis.individual.intent_level
+            });
+
             // ⚠️ DEBUG: Verify individualData after processDualAnalysis
             logger.info('🔍 DEBUG: IndividualData after processDualAnalysis', {
               execution_id: executionId,
@@ -1036,6 +1051,21 @@ class WebhookService {
                   was_created: contactResult.created,
                   was_updated: contactResult.updated
                 });
+
+                // Trigger call_completed auto engagement flows (non-blocking)
+                const { AutoEngagementTriggerService } = await import('./autoEngagementTriggerService');
+                AutoEngagementTriggerService.onCallCompleted(contactResult.contactId, updatedCall.user_id, {
+                  call_id: updatedCall.id,
+                  lead_score: analysis.individual.total_score,
+                  intent_level: analysis.individual.intent_level,
+                  lead_status_tag: analysis.individual.lead_status_tag
+                }).catch(triggerError => {
+                  logger.error('❌ Failed to trigger call completed flows', {
+                    execution_id: executionId,
+                    contact_id: contactResult.contactId,
+                    error: triggerError instanceof Error ? triggerError.message : String(triggerError)
+                  });
+                });
               }
 
               logger.info('✅ Contact updated with AI extracted data', {
@@ -1322,6 +1352,8 @@ class WebhookService {
               execution_id: executionId,
               error: error instanceof Error ? error.message : String(error)
             });
+            // No-op if the flows were already resumed after the analysis step
+            this.resumeFlowsAwaitingCall(updatedCall.id, 'answered', { call_status: 'completed' });
           }
         })
         .catch((error: any) => {
@@ -1329,6 +1361,7 @@ class WebhookService {
             execution_id: executionId,
             error: error instanceof Error ? error.message : String(error)
           });
+          this.resumeFlowsAwaitingCall(updatedCall.id, 'answered', { call_status: 'completed' });
         });
     } else {
       logger.warn('⚠️  No transcript found, skipping OpenAI analysis', { 
@@ -1336,6 +1369,10 @@ class WebhookService {
         call_id: updatedCall.id,
         transcript_id: updatedCall.transcript_id
       });
+      this.resumeFlowsAwaitingCall(updatedCall.id, 'answered', {
+        call_status: 'completed',
+        duration_seconds: updatedCall.duration_seconds
+      });
     }
 
     logger.info('✅ Call completed successfully', { 
@@ -1361,7 +1398,79 @@ class WebhookService {
     }
 
     // Update queue item status if this call was part of a campaign
-    await this.updateQueueItemStatus(call.id, 'completed');
+    if (voicemailSource) {
+      // Voicemail calls may be retried on the campaign's voicemail schedule
+      await this.handleQueueItemFailureAndRetry(call.id, 'voicemail', call.metadata?.queue_id);
+    } else {
+      await this.updateQueueItemStatus(call.id, 'completed');
+    }
+  }
+
+  /**
+   * Record a call that reached voicemail on the contact and continue what waits on it
+   * Mirrors the busy/no-answer handling in handleFailed; the call still counts as a contact attempt.
+   */
+  private async handleVoicemail(call: CallInterface, detectedBy: VoicemailDetectionSource): Promise<void> {
+    if (call.contact_id) {
+      try {
+        await database.query(
+          `UPDATE contacts 
+           SET call_attempted_voicemail = call_attempted_voicemail + 1,
+               last_contact_at = NOW()
+           WHERE id = $1`,
+          [call.contact_id]
+        );
+        logger.info('Updated contact - incremented voicemail counter', {
+          contact_id: call.contact_id,
+          call_id: call.id,
+          detected_by: detectedBy
+        });
+
+        const { LeadStageService } = await import('./leadStageService');
+        await LeadStageService.autoProgressStage(call.contact_id, call.user_id, 'voicemail');
+      } catch (error) {
+        logger.error('Failed to update contact for voicemail call', {
+          contact_id: call.contact_id,
+          call_id: call.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        // Continue - this is not critical for webhook processing
+      }
+    }
+
+    try {
+      const { followUpEmailService } = await import('./followUpEmailService');
+      const emailResult = await followUpEmailService.processCallForFollowUp({
+        callId: call.id,
+        userId: call.user_id,
+        contactId: call.contact_id || undefined,
+        phoneNumber: call.phone_number,
+        callStatus: 'voicemail',
+        leadStatus: undefined,
+        transcript: undefined,
+        durationMinutes: call.duration_minutes,
+        retryCount: 0,
+        createdAt: new Date(call.created_at)
+      });
+
+      logger.info('📧 Follow-up email processing result for voicemail call', {
+        call_id: call.id,
+        sent: emailResult.sent,
+        reason: emailResult.reason
+      });
+    } catch (emailError) {
+      logger.error('❌ Failed to process follow-up email for voicemail call', {
+        call_id: call.id,
+        error: emailError instanceof Error ? emailError.message : 'Unknown error'
+      });
+      // Don't fail webhook - email is not critical
+    }
+
+    this.resumeFlowsAwaitingCall(call.id, 'voicemail', {
+      call_status: 'voicemail',
+      duration_seconds: call.duration_seconds,
+      voicemail_detected_by: detectedBy
+    });
   }
 
   /**
@@ -1513,7 +1622,7 @@ class WebhookService {
     // Release concurrency slot for failed call
     if (call) {
       try {
-        await concurrencyManager.releaseCallSlot(call.id);
+        await concurrencyManager.releaseCallSlot(call.id, { releaseCredits: true });
         logger.info('🔓 Released concurrency slot for failed call', { 
           execution_id: executionId,
           call_id: call.id,
@@ -1529,6 +1638,14 @@ class WebhookService {
       }
     }
 
+    // Continue auto engagement flows that were waiting on this call
+    if (call) {
+      this.resumeFlowsAwaitingCall(call.id, status === 'failed' ? 'failed' : 'missed', {
+        call_status: status,
+        error_message: payload.error_message
+      });
+    }
+
     // Update queue item and check if retry is needed
     if (call) {
       // Pass queue_id from call metadata as fallback for race condition handling
@@ -1541,7 +1658,7 @@ class WebhookService {
    * Handle queue item failure and schedule retry if applicable
    * 
    * @param callId - The call record ID
-   * @param callOutcome - The call outcome (busy, no-answer, etc.)
+   * @param callOutcome - The call outcome (busy, no-answer, voicemail, etc.)
    * @param queueIdFromMetadata - Optional queue_id from call metadata (fallback)
    */
   private async handleQueueItemFailureAndRetry(
@@ -1598,16 +1715,29 @@ class WebhookService {
         call_outcome: callOutcome
       });
 
+      const isVoicemail = callOutcome === 'voicemail';
+
       // Check if this is a campaign call with retry enabled
-      if (queueItem.campaign_id && (callOutcome === 'busy' || callOutcome === 'no-answer')) {
+      if (queueItem.campaign_id && (callOutcome === 'busy' || callOutcome === 'no-answer' || isVoicemail)) {
         const campaign = await CallCampaignModel.findById(queueItem.campaign_id, queueItem.user_id);
+
+        // Voicemail retries follow their own schedule, counted apart from busy/no-answer retries
+        let voicemailDelay: number | null = null;
+        if (campaign && isVoicemail) {
+          const voicemailRetries = await CallQueueModel.countRetriesByOutcome(
+            queueItem.campaign_id,
+            queueItem.contact_id,
+            'voicemail'
+          );
+          voicemailDelay = VoicemailService.getRetryDelay(campaign, voicemailRetries + 1);
+        }
         
-        if (campaign && campaign.max_retries > 0) {
-          // Check if we should retry
+        if (campaign && (isVoicemail ? voicemailDelay !== null : campaign.max_retries > 0)) {
+          // Check if we should retry (the voicemail schedule is its own limit)
           const { shouldRetry, currentRetryCount } = await CallQueueModel.shouldRetry(
             queueItem.campaign_id,
             queueItem.contact_id,
-            campaign.max_retries
+            isVoicemail ? Number.POSITIVE_INFINITY : campaign.max_retries
           );
           
           if (shouldRetry) {
@@ -1626,7 +1756,14 @@ class WebhookService {
               // Calculate retry delay based on strategy
               let retryIntervalMinutes = campaign.retry_interval_minutes; // Default to simple mode
               
-              if (campaign.retry_strategy === 'custom' && campaign.custom_retry_schedule) {
+              if (voicemailDelay !== null) {
+                retryIntervalMinutes = voicemailDelay;
+                logger.info('🔄 Using voicemail retry delay', {
+                  retry_count: newRetryCount,
+                  delay_minutes: retryIntervalMinutes,
+                  strategy: 'voicemail'
+                });
+              } else if (campaign.retry_strategy === 'custom' && campaign.custom_retry_schedule) {
                 // Find the retry entry for this attempt number
                 const retryEntry = campaign.custom_retry_schedule.retries.find(
                   (r: any) => r.attempt === newRetryCount
@@ -1661,7 +1798,8 @@ class WebhookService {
                 campaign_first_call_time: campaign.first_call_time,
                 campaign_last_call_time: campaign.last_call_time,
                 campaign_timezone: campaign.campaign_timezone,
-                use_custom_timezone: campaign.use_custom_timezone
+                use_custom_timezone: campaign.use_custom_timezone,
+                contact_timezone: queueItem.contact_timezone
               });
               
               logger.info('🔄 Scheduled retry for failed call', {
@@ -1710,6 +1848,17 @@ class WebhookService {
         }
       }
       
+      if (isVoicemail) {
+        // Without a retry a voicemail call ends its queue item like a completed call
+        await CallQueue.markAsCompleted(queueItem.id, queueItem.user_id, callId);
+        logger.info('📋 Queue item marked as completed after voicemail', {
+          queue_item_id: queueItem.id,
+          call_id: callId,
+          campaign_id: queueItem.campaign_id
+        });
+        return;
+      }
+
       // Mark queue item as failed (no retry or retry failed)
       await CallQueue.markAsFailed(
         queueItem.id, 
@@ -1735,6 +1884,64 @@ class WebhookService {
     }
   }
 
+  /**
+   * Push a call's lifecycle transition to the owner's dashboard event stream
+   * Runs in the background so the stream never holds up webhook processing.
+   */
+  private publishCallStatus(executionId: string, status: string): void {
+    Call.findByExecutionId(executionId)
+      .then(call => {
+        if (!call) {
+          return;
+        }
+        return userEventService.publish(call.user_id, 'call.status', {
+          callId: call.id,
+          executionId,
+          status,
+          callStatus: call.status,
+          agentId: call.agent_id,
+          phoneNumber: call.phone_number,
+          durationSeconds: call.duration_seconds
+        });
+      })
+      .catch(error => {
+        logger.error('❌ Failed to publish call status event', {
+          execution_id: executionId,
+          status,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  /**
+   * Resume auto engagement flow executions that are waiting on this call's outcome
+   * Runs in the background so flow actions never hold up webhook processing.
+   */
+  private resumeFlowsAwaitingCall(
+    callId: string,
+    outcome: CallOutcome,
+    details: Record<string, any> = {}
+  ): void {
+    import('./flowExecutionService')
+      .then(({ FlowExecutionService }) => FlowExecutionService.resumeAfterCall(callId, outcome, details))
+      .then(resumed => {
+        if (resumed > 0) {
+          logger.info('🔁 Resumed auto engagement flows after call outcome', {
+            call_id: callId,
+            outcome,
+            resumed
+          });
+        }
+      })
+      .catch(error => {
+        logger.error('❌ Failed to resume auto engagement flows after call outcome', {
+          call_id: callId,
+          outcome,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
   /**
    * Update queue item status when call completes
    * Releases queue slot for next call allocation
@@ -1844,6 +2051,8 @@ class WebhookService {
             user_id: userId
           });
 
+          await CallQueueModel.publishCampaignProgress(campaignId, userId);
+
           // Send campaign summary email if feature enabled
           if (process.env.EMAIL_CAMPAIGN_SUMMARY_ENABLED === 'true') {
             // Run async without blocking
@@ -0,0 +1,59 @@
+import zeptomailService from './zeptomailService';
+import {
+  EmailProvider,
+  EmailSendLimits,
+  EmailSendResult,
+  EmailSenderIdentity,
+  OutgoingEmail
+} from '../types/emailProvider';
+
+/**
+ * Email provider sending through the platform's ZeptoMail account
+ *
+ * ZeptoMail only sends from domains verified on the platform account, so mail goes out from
+ * ZEPTOMAIL_FROM_EMAIL with the user's display name and their verified address as Reply-To.
+ * Bounces arrive on the ZeptoMail webhook (/api/webhooks/email/zeptomail).
+ */
+export class ZeptoMailEmailProvider implements EmailProvider {
+  readonly name = 'zeptomail' as const;
+
+  readonly defaultLimits: EmailSendLimits = { hourly: 1000, daily: 10000, minIntervalMs: 100 };
+
+  async send(identity: EmailSenderIdentity, email: OutgoingEmail): Promise<EmailSendResult> {
+    const result = await zeptomailService.send({
+      to: email.to,
+      cc: email.cc,
+      bcc: email.bcc,
+      subject: email.subject,
+      htmlbody: email.html,
+      textbody: email.text,
+      attachments: email.attachments,
+      from: {
+        address: zeptomailService.getFromEmail(),
+        name: identity.from_name || zeptomailService.getFromName()
+      },
+      replyTo: { address: identity.reply_to || identity.from_email, name: identity.from_name || undefined },
+      clientReference: email.reference
+    });
+
+    if (result.success) {
+      return { success: true, messageId: result.requestId };
+    }
+
+    // TM_4xxx: the request itself was rejected (bad address, unverified domain) - sending again won't help
+    const rejected = !!result.errorCode && result.errorCode.startsWith('TM_4');
+    const invalidRecipient = rejected && /address|recipient/i.test(result.error || '');
+    return {
+      success: false,
+      error: result.error,
+      bounce: invalidRecipient ? 'hard' : undefined,
+      retryable: !rejected
+    };
+  }
+
+  async verifyConnection(): Promise<void> {
+    if (!zeptomailService.isReady()) {
+      throw new Error('ZeptoMail is not configured on this server');
+    }
+  }
+}
@@ -26,6 +26,16 @@ interface SendEmailOptions {
   cc?: EmailRecipient[];
   bcc?: EmailRecipient[];
   attachments?: EmailAttachment[];
+  from?: EmailRecipient; // Defaults to ZEPTOMAIL_FROM_EMAIL / ZEPTOMAIL_FROM_NAME
+  replyTo?: EmailRecipient;
+  clientReference?: string; // Echoed back in bounce webhooks
+}
+
+export interface ZeptoMailSendResult {
+  success: boolean;
+  requestId?: string;
+  error?: string;
+  errorCode?: string; // ZeptoMail error code, e.g. TM_4001
 }
 
 class ZeptoMailService {
@@ -70,9 +80,17 @@ class ZeptoMailService {
    * Send email via ZeptoMail API
    */
   async sendEmail(options: SendEmailOptions): Promise<boolean> {
+    const result = await this.send(options);
+    return result.success;
+  }
+
+  /**
+   * Send email via ZeptoMail API, returning the request ID or ZeptoMail's error
+   */
+  async send(options: SendEmailOptions): Promise<ZeptoMailSendResult> {
     if (!this.isConfigured || !this.client) {
       console.error('❌ ZeptoMail service not configured');
-      return false;
+      return { success: false, error: 'ZeptoMail service not configured' };
     }
 
     try {
@@ -88,13 +106,21 @@ class ZeptoMailService {
       // Prepare email payload
       const emailPayload: any = {
         from: {
-          address: this.fromEmail,
-          name: this.fromName
+          address: options.from?.address || this.fromEmail,
+          name: options.from?.name || this.fromName
         },
         to,
         subject: options.subject
       };
 
+      if (options.replyTo) {
+        emailPayload.reply_to = [{ address: options.replyTo.address, name: options.replyTo.name || options.replyTo.address }];
+      }
+
+      if (options.clientReference) {
+        emailPayload.client_reference = options.clientReference;
+      }
+
       // Add HTML body if provided
       if (options.htmlbody) {
         emailPayload.htmlbody = options.htmlbody;
@@ -158,20 +184,29 @@ class ZeptoMailService {
       }
 
       // Send email
-      const response = await this.client.sendMail(emailPayload);
+      const response: any = await this.client.sendMail(emailPayload);
       
       console.log('✅ Email sent successfully via ZeptoMail API', {
         to: toRecipients.map(r => r.address),
         subject: options.subject
       });
 
-      return true;
-    } catch (error) {
+      return { success: true, requestId: response?.request_id };
+    } catch (error: any) {
       console.error('❌ Failed to send email via ZeptoMail API:', error);
       if (error instanceof Error) {
         console.error('Error details:', error.message);
+        return { success: false, error: error.message };
       }
-      return false;
+
+      // The client rejects with ZeptoMail's error body: { error: { code, message, details } }
+      const apiError = error?.error;
+      const detail = Array.isArray(apiError?.details) ? apiError.details[0] : undefined;
+      return {
+        success: false,
+        error: detail?.message || apiError?.message || 'Failed to send email via ZeptoMail',
+        errorCode: detail?.code || apiError?.code
+      };
     }
   }
 
@@ -5,6 +5,7 @@
  */
 export type ExecutionStatus = 
   | 'running'     // Currently executing
+  | 'waiting'     // Suspended until next_run_at (wait action)
   | 'completed'   // Successfully completed
   | 'failed'      // Failed with error
   | 'cancelled'   // Manually cancelled
@@ -16,6 +17,7 @@ export type ExecutionStatus =
 export type ActionLogStatus = 
   | 'pending'   // Waiting to execute
   | 'running'   // Currently executing
+  | 'waiting'   // Wait action in progress (until scheduled_for)
   | 'success'   // Successfully completed
   | 'failed'    // Failed with error
   | 'skipped';  // Skipped based on condition
@@ -27,15 +29,31 @@ export type ActionType =
   | 'ai_call'           // AI voice call
   | 'whatsapp_message'  // WhatsApp template message
   | 'email'             // Email
-  | 'wait';             // Wait/delay action
+  | 'wait'              // Wait/delay action
+  | 'update_lead_stage' // Move the contact to a lead stage
+  | 'update_tags'       // Add and/or remove contact tags
+  | 'assign_team_member' // Assign the lead to a team member and notify them
+  | 'webhook';          // POST a signed JSON payload to an HTTP endpoint
 
 /**
  * Trigger Condition Types
  */
 export type ConditionType = 
-  | 'lead_source'    // Based on contact source
-  | 'entry_type'     // Based on entry method
-  | 'custom_field';  // Based on custom field value
+  | 'lead_source'              // Based on contact source
+  | 'entry_type'               // Based on entry method
+  | 'custom_field'             // Based on custom field value (field_name)
+  | 'tag'                      // Based on contact tags
+  | 'lead_stage'               // Based on current lead stage
+  | 'city'                     // Based on contact city
+  | 'country'                  // Based on contact country
+  | 'group'                    // Nested group of conditions combined with and/or
+  // Event triggers - flows with one of these run on that event instead of contact creation
+  | 'lead_stage_changed'       // New lead stage of the contact
+  | 'call_completed'           // Intent level of the completed call's lead analysis
+  | 'call_lead_score'          // Lead score of the completed call
+  | 'email_opened'             // Subject of the opened email
+  | 'email_clicked'            // URL of the clicked link
+  | 'whatsapp_button_clicked'; // Text of the clicked WhatsApp button
 
 /**
  * Trigger Condition Operators
@@ -43,8 +61,35 @@ export type ConditionType =
 export type ConditionOperator = 
   | 'equals'      // Exact match
   | 'not_equals'  // Does not match
-  | 'contains'    // Contains substring
-  | 'any';        // Matches any value
+  | 'contains'      // Contains substring
+  | 'greater_than'  // Numeric comparison
+  | 'less_than'     // Numeric comparison
+  | 'between'       // Numeric range, condition_value "min,max" (inclusive)
+  | 'matches_regex' // Case-insensitive regular expression
+  | 'any'           // Matches any value
+  | 'and'           // Group: all child conditions must match
+  | 'or';           // Group: at least one child condition must match
+
+/**
+ * Events that can start a flow execution
+ */
+export type TriggerEventType = 
+  | 'contact_created'
+  | 'lead_stage_changed'
+  | 'call_completed'
+  | 'email_opened'
+  | 'email_clicked'
+  | 'whatsapp_button_clicked';
+
+/**
+ * Trigger Event
+ * data holds the event details trigger conditions are evaluated against
+ * (e.g. new_stage, lead_score, clicked_url) and is stored on the execution.
+ */
+export interface TriggerEvent {
+  type: TriggerEventType;
+  data?: Record<string, any>;
+}
 
 /**
  * Action Condition Types
@@ -52,6 +97,7 @@ export type ConditionOperator =
 export type ActionConditionType = 
   | 'call_outcome'              // Based on call result
   | 'previous_action_status'    // Based on previous action status
+  | 'lead_score'                // Lead analytics score of the previous call (condition_value = minimum score)
   | 'always';                   // Always execute
 
 /**
@@ -60,6 +106,7 @@ export type ActionConditionType =
 export type CallOutcome = 
   | 'answered'  // Call was answered
   | 'missed'    // Call was not answered
+  | 'voicemail' // Call reached an answering machine (also matches 'missed' conditions)
   | 'failed';   // Call failed to connect
 
 /**
@@ -91,12 +138,27 @@ export interface AutoEngagementFlow {
 export interface FlowTriggerCondition {
   id: string;
   flow_id: string;
+  parent_id: string | null;     // Group this condition belongs to (NULL = top level)
   condition_type: ConditionType;
   condition_operator: ConditionOperator;
   condition_value: string | null;
+  field_name: string | null;    // Field compared by custom_field conditions
+  condition_order: number;
   created_at: Date;
 }
 
+/**
+ * Trigger condition as submitted by the flow builder
+ * Groups carry their child conditions in `conditions`.
+ */
+export interface TriggerConditionInput {
+  condition_type: ConditionType;
+  condition_operator: ConditionOperator;
+  condition_value: string | null;
+  field_name?: string | null;
+  conditions?: TriggerConditionInput[];
+}
+
 /**
  * Flow Action Configuration Types
  */
@@ -104,7 +166,7 @@ export interface AICallActionConfig {
   agent_id: string;
   phone_number_id: string;  // Which caller ID to use
   max_retries?: number;
-  respect_dnc?: boolean;
+  respect_dnc?: boolean;    // Skip contacts on the do-not-call list (default true); false for transactional calls
 }
 
 export interface WhatsAppActionConfig {
@@ -124,11 +186,36 @@ export interface WaitActionConfig {
   wait_until_business_hours?: boolean;
 }
 
+export interface UpdateLeadStageActionConfig {
+  stage: string;  // Name of one of the user's lead stages
+}
+
+export interface UpdateTagsActionConfig {
+  add_tags?: string[];
+  remove_tags?: string[];
+}
+
+export interface AssignTeamMemberActionConfig {
+  team_member_id: string;
+  notify?: boolean;        // Send the team member an in-app notification (default true)
+  message?: string | null; // Notification text, supports {{name}} and {{phone_number}}
+}
+
+export interface WebhookActionConfig {
+  url: string;
+  secret: string;                   // HMAC-SHA256 key for the X-Webhook-Signature header
+  headers?: Record<string, string>; // Extra request headers
+}
+
 export type ActionConfig = 
   | AICallActionConfig 
   | WhatsAppActionConfig 
   | EmailActionConfig 
-  | WaitActionConfig;
+  | WaitActionConfig
+  | UpdateLeadStageActionConfig
+  | UpdateTagsActionConfig
+  | AssignTeamMemberActionConfig
+  | WebhookActionConfig;
 
 /**
  * Flow Action
@@ -160,6 +247,13 @@ export interface FlowExecution {
   status: ExecutionStatus;
   current_action_step: number;
   
+  // Scheduled resumption (wait actions)
+  next_run_at: Date | null;
+  resume_action_order: number | null;
+  
+  // Call whose outcome a waiting execution needs (ai_call actions)
+  awaiting_call_id: string | null;
+  
   completed_at: Date | null;
   error_message: string | null;
   
@@ -188,6 +282,7 @@ export interface FlowActionLog {
   
   started_at: Date;
   completed_at: Date | null;
+  scheduled_for: Date | null;
   
   status: ActionLogStatus;
   
@@ -221,11 +316,7 @@ export interface CreateFlowRequest {
   business_hours_timezone?: string;
   
   // Triggers and actions (optional on create)
-  trigger_conditions?: Array<{
-    condition_type: ConditionType;
-    condition_operator: ConditionOperator;
-    condition_value: string | null;
-  }>;
+  trigger_conditions?: TriggerConditionInput[];
   
   actions?: Array<{
     action_order: number;
@@ -269,6 +360,7 @@ export interface FlowExecutionStats {
   completed: number;
   failed: number;
   running: number;
+  waiting: number;
   cancelled: number;
   skipped: number;
 }
@@ -0,0 +1,39 @@
+// Call context variables - values sent to the voice agent as user_data with each call
+
+/**
+ * Where a variable's value comes from
+ */
+export type CallVariableSource =
+  | 'contact'        // Contact column (name, company, tags, lead_stage, ...)
+  | 'custom_field'   // Custom field extracted from the contact's calls
+  | 'lead_analytics' // Contact's overall lead analysis (requirements, total_score, ...)
+  | 'previous_call'  // Contact's most recent finished call
+  | 'next_meeting'   // Contact's next scheduled meeting
+  | 'csv_column'     // Column from the campaign upload file
+  | 'static';        // Fixed text (the variable's default)
+
+export type CallVariableFormat =
+  | 'text'
+  | 'first_name'
+  | 'uppercase'
+  | 'lowercase'
+  | 'date'      // e.g. "March 5, 2026" in the contact's timezone
+  | 'datetime'  // e.g. "March 5, 2026 at 3:30 PM IST"
+  | 'time';     // e.g. "3:30 PM IST"
+
+export interface CallVariableDefinition {
+  key: string;          // Name used in the agent prompt, e.g. {lead_name}
+  source: CallVariableSource;
+  field?: string;       // Field within the source (not used by 'static')
+  format?: CallVariableFormat;
+  default?: string;     // Used when the value is empty
+}
+
+/**
+ * Payload a contact would get, with where each value came from
+ */
+export interface CallContextPreview {
+  user_data: Record<string, string>;
+  timezone: string;
+  variables: Array<CallVariableDefinition & { value: string; used_default: boolean }>;
+}
@@ -47,6 +47,31 @@ export interface CustomRetrySchedule {
   retries: CustomRetryEntry[];
 }
 
+/**
+ * Day of the week, as used for keys of a weekly calling schedule
+ */
+export type CampaignWeekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/**
+ * Calling window for one weekday (HH:MM:SS in the campaign timezone)
+ */
+export interface CampaignDayWindow {
+  first_call_time: string;
+  last_call_time: string;
+}
+
+/**
+ * Per-weekday calling windows; weekdays that are not listed are not called
+ */
+export type WeeklyCallSchedule = Partial<Record<CampaignWeekday, CampaignDayWindow>>;
+
 /**
  * Call Campaign Interface
  */
@@ -71,11 +96,25 @@ export interface CallCampaign {
   campaign_timezone?: string | null;      // Optional override timezone
   use_custom_timezone?: boolean;          // Use campaign timezone vs user timezone
   
+  // Calendar and pacing
+  weekly_schedule?: WeeklyCallSchedule | null; // Per-weekday windows (null = every day, first/last_call_time)
+  blackout_dates?: string[];         // YYYY-MM-DD dates with no calls (campaign timezone)
+  max_calls_per_day?: number | null; // Cap per calendar day in the campaign timezone (null = no cap)
+  max_calls_per_hour?: number | null; // Cap per rolling 60 minutes (null = no cap)
+  call_pace_seconds?: number;        // Minimum seconds between two calls (0 = no pacing)
+  use_contact_timezone?: boolean;    // Apply the window in each contact's timezone
+  
   // Retry configuration for busy/no-answer calls
   max_retries: number;           // Number of retry attempts (0 = no retries)
   retry_interval_minutes: number; // Minutes between retry attempts
   retry_strategy: RetryStrategy;  // 'simple' or 'custom'
   custom_retry_schedule?: CustomRetrySchedule | null; // Custom schedule when strategy is 'custom'
+  voicemail_retry_schedule?: CustomRetrySchedule | null; // Retries for voicemail calls (null = not retried)
+  
+  // Prompt A/B test between two versions of the agent's prompt
+  prompt_version_a_id?: string | null;
+  prompt_version_b_id?: string | null;
+  prompt_split_percent?: number; // Share of contacts called with version B (0-100)
   
   // Status
   status: CampaignStatus;
@@ -132,6 +171,7 @@ export interface CallQueueItem {
   
   // Scheduling
   scheduled_for: string;
+  contact_timezone?: string | null; // Contact's timezone when queued (override or inferred)
   
   // Execution
   started_at?: string;
@@ -181,11 +221,25 @@ export interface CreateCampaignRequest {
   campaign_timezone?: string | null;  // IANA timezone (e.g., "America/New_York")
   use_custom_timezone?: boolean;      // If true, use campaign_timezone; else use user timezone
   
+  // Calendar and pacing (optional)
+  weekly_schedule?: WeeklyCallSchedule | null; // Default: every day, first_call_time-last_call_time
+  blackout_dates?: string[];          // YYYY-MM-DD dates with no calls
+  max_calls_per_day?: number | null;  // Default: no cap
+  max_calls_per_hour?: number | null; // Default: no cap
+  call_pace_seconds?: number;         // Minimum seconds between calls (default: 0)
+  use_contact_timezone?: boolean;     // Window in each contact's timezone (default: false)
+  
   // Retry configuration
   max_retries?: number;           // Number of retries for busy/no-answer (default: 0)
   retry_interval_minutes?: number; // Minutes between retries (default: 60)
   retry_strategy?: RetryStrategy;  // 'simple' or 'custom' (default: 'simple')
   custom_retry_schedule?: CustomRetrySchedule; // Custom schedule when strategy is 'custom'
+  voicemail_retry_schedule?: CustomRetrySchedule | null; // Retries for voicemail calls (default: none)
+  
+  // Prompt A/B test (optional)
+  prompt_version_a_id?: string | null;
+  prompt_version_b_id?: string | null;
+  prompt_split_percent?: number;   // Share of contacts called with version B (default: 50)
   
   // Contacts
   contact_ids: string[]; // Array of contact IDs to add to campaign
@@ -254,10 +308,20 @@ export interface UpdateCampaignRequest {
   status?: CampaignStatus;
   campaign_timezone?: string | null;
   use_custom_timezone?: boolean;
+  weekly_schedule?: WeeklyCallSchedule | null;
+  blackout_dates?: string[];
+  max_calls_per_day?: number | null;
+  max_calls_per_hour?: number | null;
+  call_pace_seconds?: number;
+  use_contact_timezone?: boolean;
   max_retries?: number;
   retry_interval_minutes?: number;
   retry_strategy?: RetryStrategy;
   custom_retry_schedule?: CustomRetrySchedule | null;
+  voicemail_retry_schedule?: CustomRetrySchedule | null;
+  prompt_version_a_id?: string | null;
+  prompt_version_b_id?: string | null;
+  prompt_split_percent?: number;
 }
 
 /**
@@ -329,6 +393,7 @@ export interface CampaignAnalytics {
     no_answer: number;      // call_lifecycle_status = 'no-answer'
     contacted: number;      // call_lifecycle_status IN ('completed', 'in-progress')
     failed: number;         // call_lifecycle_status = 'failed'
+    voicemail: number;      // call_lifecycle_status = 'voicemail'
     not_attempted: number;  // Still queued
   };
   
@@ -348,6 +413,24 @@ export interface CampaignAnalytics {
     successful: number;
     failed: number;
   }>;
+  
+  // Results per agent prompt version (prompt A/B tests)
+  prompt_versions: PromptVersionStats[];
+}
+
+/**
+ * Campaign results for one agent prompt version
+ */
+export interface PromptVersionStats {
+  prompt_version_id: string;
+  version_number: number;
+  variant: 'A' | 'B' | null; // null when the version isn't part of the campaign's test
+  attempted_calls: number;   // Calls with a terminal outcome
+  answered_calls: number;
+  answer_rate: number;       // answered_calls / attempted_calls * 100
+  average_lead_score: number | null;
+  meetings_booked: number;
+  meeting_booked_rate: number; // meetings_booked / answered_calls * 100
 }
 
 /**
@@ -0,0 +1,130 @@
+// Email provider types - the transport a user's campaign, follow-up and flow emails go out through
+
+export type EmailProviderName = 'gmail' | 'smtp' | 'zeptomail';
+
+export type SenderVerificationStatus = 'pending' | 'verified' | 'failed';
+
+export interface EmailSenderIdentity {
+  id: string;
+  user_id: string;
+  provider: EmailProviderName;
+  from_email: string;
+  from_name: string | null;
+  reply_to: string | null;
+  is_default: boolean;
+  smtp_host: string | null;
+  smtp_port: number | null;
+  smtp_secure: boolean;
+  smtp_username: string | null;
+  smtp_password_encrypted: string | null;
+  verification_status: SenderVerificationStatus;
+  verification_token: string | null;
+  verification_sent_at: Date | null;
+  verified_at: Date | null;
+  last_error: string | null;
+  hourly_limit: number | null;
+  daily_limit: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Identity as returned by the API (no SMTP password or verification token)
+ */
+export type PublicEmailSenderIdentity = Omit<EmailSenderIdentity, 'smtp_password_encrypted' | 'verification_token'>;
+
+export interface CreateSenderIdentityInput {
+  provider: EmailProviderName;
+  from_email: string;
+  from_name?: string | null;
+  reply_to?: string | null;
+  smtp_host?: string | null;
+  smtp_port?: number | null;
+  smtp_secure?: boolean;
+  smtp_username?: string | null;
+  smtp_password?: string | null;
+  hourly_limit?: number | null;
+  daily_limit?: number | null;
+  is_default?: boolean;
+}
+
+export type UpdateSenderIdentityInput = Partial<Omit<CreateSenderIdentityInput, 'provider'>>;
+
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface OutgoingEmailAttachment {
+  filename: string;
+  content: string; // base64
+  contentType?: string;
+}
+
+/**
+ * Email handed to a provider (tracking pixel and links are already in html)
+ */
+export interface OutgoingEmail {
+  to: EmailAddress;
+  cc?: EmailAddress[];
+  bcc?: EmailAddress[];
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: OutgoingEmailAttachment[];
+  /**
+   * Echoed back by provider webhooks to match bounces to the send
+   */
+  reference?: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  retryable?: boolean; // Temporary failure: sending again later may work
+  bounce?: 'hard' | 'soft'; // The provider rejected the recipient address while sending
+  requiresReconnect?: boolean; // Gmail permission revoked
+}
+
+/**
+ * Send limits for an identity
+ */
+export interface EmailSendLimits {
+  hourly: number;
+  daily: number;
+  minIntervalMs: number; // Spacing between bulk sends
+}
+
+/**
+ * Email provider
+ * Sends one email for a sender identity. Providers never throw for send failures; they
+ * return success: false with retryable / bounce set so callers can decide what to do.
+ */
+export interface EmailProvider {
+  readonly name: EmailProviderName;
+  readonly defaultLimits: EmailSendLimits;
+
+  send(identity: EmailSenderIdentity, email: OutgoingEmail): Promise<EmailSendResult>;
+
+  /**
+   * Check that the identity can send (credentials, connection); throws with the reason if not
+   */
+  verifyConnection(identity: EmailSenderIdentity): Promise<void>;
+}
+
+export type EmailDeliveryEventType = 'hard_bounce' | 'soft_bounce' | 'complaint';
+
+export interface EmailDeliveryEventInput {
+  userId: string;
+  provider: EmailProviderName;
+  eventType: EmailDeliveryEventType;
+  recipient: string;
+  reason?: string | null;
+  emailId?: string | null;
+  senderIdentityId?: string | null;
+  raw?: any;
+  occurredAt?: Date;
+}
+
+export type ContactEmailStatus = 'valid' | 'soft_bounced' | 'bounced' | 'complained';
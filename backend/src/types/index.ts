@@ -2,4 +2,6 @@
 export * from './api';
 export * from './auth';
 export * from './webhook';
-export * from './autoEngagement';
\ No newline at end of file
+export * from './autoEngagement';
+export * from './suppression';
+export * from './report';
@@ -0,0 +1,51 @@
+// Type definitions for the persistent background job runner
+
+export type BackgroundJobStatus = 'pending' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+/**
+ * Jobs the runner knows how to execute
+ */
+export type BackgroundJobType =
+  | 'scheduled_email'   // Delayed follow-up email (payload: scheduledEmailId)
+  | 'email_campaign';   // Email campaign send (payload: emailCampaignId)
+
+export interface BackgroundJob<TPayload = Record<string, any>> {
+  id: string;
+  job_type: BackgroundJobType;
+  payload: TPayload;
+  user_id: string | null;
+  status: BackgroundJobStatus;
+  run_at: Date;
+  attempts: number;      // Runs started so far, including the current one
+  max_attempts: number;
+  last_error: string | null;
+  locked_by: string | null;
+  locked_until: Date | null;
+  dedupe_key: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EnqueueJobOptions {
+  runAt?: Date;          // Default: now
+  maxAttempts?: number;  // Default: 5
+  userId?: string | null;
+  dedupeKey?: string;    // Replaces the payload/run_at of a pending job with the same key
+}
+
+export interface BackgroundJobFilters {
+  status?: BackgroundJobStatus;
+  jobType?: BackgroundJobType;
+  userId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BackgroundJobStats {
+  job_type: BackgroundJobType;
+  status: BackgroundJobStatus;
+  count: number;
+  oldest_run_at: Date | null;
+}
@@ -0,0 +1,106 @@
+// Lead source types - named inbound endpoints that turn third-party lead payloads into contacts
+
+export type LeadSourcePresetName = 'custom' | 'indiamart' | 'tradeindia' | 'justdial' | 'facebook_lead_ads';
+
+/**
+ * How an inbound request proves it comes from the source:
+ * - hmac_sha256: HMAC-SHA256 of the raw body with the secret, in the signature header (hex, optional "sha256=" prefix)
+ * - shared_secret: the secret itself, in the signature header or the `secret` query parameter
+ *   (for portals that cannot sign requests)
+ */
+export type LeadSourceAuthMode = 'hmac_sha256' | 'shared_secret';
+
+export type LeadSourceRequestStatus = 'processed' | 'rejected' | 'failed';
+
+// Contact columns a mapping can fill; `custom.<key>` targets go to contacts.custom_fields
+export const LEAD_CONTACT_FIELDS = [
+  'name',
+  'phone_number',
+  'email',
+  'company',
+  'city',
+  'country',
+  'notes',
+  'business_context'
+] as const;
+
+export type LeadContactField = typeof LEAD_CONTACT_FIELDS[number];
+
+export interface LeadFieldMapping {
+  source_path: string; // JSON path into a lead record, e.g. "SENDER_MOBILE" or "lead.phones[0]"
+  target: string; // A LeadContactField or "custom.<key>"
+}
+
+export interface LeadSourceSettings {
+  facebook_page_access_token?: string; // Encrypted; used to fetch Facebook leads from their leadgen_id
+  facebook_verify_token?: string; // Answers Facebook's subscription challenge
+}
+
+export interface LeadSource {
+  id: string;
+  user_id: string;
+  name: string;
+  preset: LeadSourcePresetName;
+  endpoint_token: string;
+  auth_mode: LeadSourceAuthMode;
+  secret_encrypted: string;
+  signature_header: string;
+  field_mapping: LeadFieldMapping[];
+  source_label: string; // Stored as the contact's auto_creation_source (Auto Engagement Flow matching)
+  settings: LeadSourceSettings;
+  is_active: boolean;
+  last_received_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Lead source as returned by the API (secrets replaced by whether they are set)
+ */
+export type PublicLeadSource = Omit<LeadSource, 'secret_encrypted' | 'settings'> & {
+  endpoint_url: string;
+  settings: { facebook_page_access_token_set: boolean; facebook_verify_token: string | null };
+};
+
+export interface CreateLeadSourceInput {
+  name: string;
+  preset?: LeadSourcePresetName;
+  auth_mode?: LeadSourceAuthMode;
+  secret?: string; // Generated when omitted (Facebook needs the app secret)
+  signature_header?: string;
+  field_mapping?: LeadFieldMapping[];
+  source_label?: string;
+  facebook_page_access_token?: string | null;
+  facebook_verify_token?: string | null;
+  is_active?: boolean;
+}
+
+export type UpdateLeadSourceInput = Partial<Omit<CreateLeadSourceInput, 'preset' | 'secret'>>;
+
+export interface LeadSourceRequest {
+  id: string;
+  lead_source_id: string;
+  user_id: string;
+  method: string;
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  body: unknown;
+  signature_valid: boolean | null; // null for replays, which are not re-verified
+  status: LeadSourceRequestStatus;
+  error_message: string | null;
+  leads_received: number;
+  contacts_created: number;
+  contacts_updated: number;
+  contact_ids: string[];
+  replay_of: string | null;
+  processing_time_ms: number | null;
+  received_at: Date;
+}
+
+/**
+ * Contact data mapped from one lead record
+ */
+export interface MappedLead {
+  fields: Partial<Record<LeadContactField, string>>;
+  custom_fields: Record<string, string>;
+}
@@ -0,0 +1,115 @@
+// Type definitions for the custom report builder and saved reports
+
+/**
+ * Data a report can be built from
+ */
+export type ReportSource =
+  | 'calls'
+  | 'leads'                // Complete lead analysis (one row per lead, lead_analytics)
+  | 'contacts'
+  | 'campaigns'            // Call campaigns
+  | 'credit_transactions';
+
+export type ReportFieldType = 'string' | 'number' | 'boolean' | 'date' | 'string_array';
+
+export type ReportFilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'contains'   // Substring for text, membership for arrays (tags)
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface ReportFilter {
+  field: string;
+  operator: ReportFilterOperator;
+  value?: unknown;
+}
+
+export interface ReportSort {
+  field: string; // A selected dimension or metric
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Absolute (start/end) or rolling (last_days) window on the source's date column
+ */
+export interface ReportDateRange {
+  start?: string;
+  end?: string;
+  last_days?: number;
+}
+
+/**
+ * Declarative report definition - only whitelisted fields of the source are accepted
+ */
+export interface ReportDefinition {
+  source: ReportSource;
+  dimensions: string[];
+  metrics: string[];
+  filters?: ReportFilter[];
+  date_range?: ReportDateRange;
+  sort?: ReportSort[];
+  limit?: number;
+}
+
+export type ReportFormat = 'csv' | 'xlsx';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  kind: 'dimension' | 'metric';
+}
+
+export interface ReportResult {
+  columns: ReportColumn[];
+  rows: Array<Record<string, unknown>>;
+  row_count: number;
+  truncated: boolean; // More rows matched than the limit
+  generated_at: string;
+}
+
+export type ReportRunStatus = 'success' | 'failed';
+
+export interface SavedReport {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  definition: ReportDefinition;
+  schedule_cron: string | null;
+  schedule_timezone: string;
+  schedule_format: ReportFormat;
+  schedule_recipients: string[];
+  schedule_enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_run_status: ReportRunStatus | null;
+  last_run_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Email delivery of a saved report on a cron schedule
+ */
+export interface ReportScheduleInput {
+  cron: string;
+  timezone?: string;
+  format?: ReportFormat;
+  recipients: string[];
+  enabled?: boolean;
+}
+
+export interface SavedReportInput {
+  name?: string;
+  description?: string | null;
+  definition?: ReportDefinition;
+  schedule?: ReportScheduleInput | null;
+}
@@ -0,0 +1,94 @@
+// Type definitions for the do-not-call / opt-out suppression list
+
+/**
+ * Why an entry is on the list
+ */
+export type SuppressionReason =
+  | 'do_not_call'   // Asked not to be called
+  | 'opt_out'       // Opted out of all communication
+  | 'unsubscribed'  // Clicked an email unsubscribe link
+  | 'complaint'     // Complained / reported as spam
+  | 'bounced'       // Hard bounce or invalid number
+  | 'legal'         // Regulatory registry (e.g., NDNC / TPS)
+  | 'other';
+
+/**
+ * How an entry got on the list
+ */
+export type SuppressionSource =
+  | 'manual'            // Added in the app
+  | 'import'            // Bulk import
+  | 'unsubscribe_link'  // Email unsubscribe link
+  | 'api'               // External API
+  | 'flow'              // Auto engagement flow
+  | 'bounce';           // Hard bounce or complaint reported by the email provider
+
+/**
+ * Outbound channels that consult the list
+ */
+export type SuppressionChannel = 'call' | 'campaign' | 'email' | 'email_campaign' | 'whatsapp';
+
+export type SuppressionActorType = 'user' | 'team_member' | 'system' | 'recipient';
+
+export type SuppressionAuditAction = 'added' | 'removed' | 'blocked' | 'exported';
+
+export interface SuppressionEntry {
+  id: string;
+  user_id: string;
+  phone_number: string | null;
+  email: string | null;
+  reason: SuppressionReason;
+  source: SuppressionSource;
+  notes: string | null;
+  created_by_type: SuppressionActorType;
+  created_by_id: string | null;
+  created_at: Date;
+}
+
+export interface SuppressionAuditLogEntry {
+  id: string;
+  user_id: string;
+  action: SuppressionAuditAction;
+  phone_number: string | null;
+  email: string | null;
+  reason: SuppressionReason | null;
+  source: SuppressionSource | null;
+  channel: SuppressionChannel | null;
+  actor_type: SuppressionActorType;
+  actor_id: string | null;
+  details: Record<string, any>;
+  created_at: Date;
+}
+
+/**
+ * Who performed a suppression list change
+ */
+export interface SuppressionActor {
+  type: SuppressionActorType;
+  id?: string | null;
+}
+
+/**
+ * Entry as submitted to add/import (raw, not yet normalized)
+ */
+export interface SuppressionEntryInput {
+  phone_number?: string | null;
+  email?: string | null;
+  reason?: SuppressionReason;
+  notes?: string | null;
+}
+
+/**
+ * Result of checking a recipient against the list
+ */
+export interface SuppressionCheckResult {
+  suppressed: boolean;
+  reason?: SuppressionReason | 'dnc_tag';
+  matched?: 'phone_number' | 'email' | 'tag';
+}
+
+export interface SuppressionImportResult {
+  added: number;
+  duplicates: number;
+  invalid: Array<{ row: number; error: string }>;
+}
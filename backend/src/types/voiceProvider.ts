@@ -0,0 +1,64 @@
+// Voice provider types - the telephony / voice-agent backend that places calls
+
+import { BolnaWebhookPayload } from './webhook';
+import { BolnaAgent, CreateBolnaAgentRequest } from '../services/bolnaService';
+
+export type VoiceProviderName = 'bolna' | 'simulator';
+
+/**
+ * Agent definition sent to the provider
+ * The app builds agents in Bolna's agent schema; other providers translate from it.
+ */
+export type VoiceAgentDefinition = CreateBolnaAgentRequest;
+
+export type VoiceAgent = BolnaAgent;
+
+/**
+ * Call webhook in the shape webhookService processes
+ * Providers normalize their own payloads to this (Bolna's payload is used as-is).
+ */
+export type CallWebhookPayload = BolnaWebhookPayload;
+
+export interface VoiceCallRequest {
+  agentId: string; // Provider agent ID (agents.bolna_agent_id)
+  toPhoneNumber: string;
+  fromPhoneNumber?: string;
+  webhookUrl?: string;
+  userData?: Record<string, any>; // Variables available to the agent's prompt
+  metadata?: Record<string, any>;
+}
+
+export interface VoiceCallResponse {
+  executionId: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed';
+}
+
+export interface VoiceCallStatus {
+  executionId: string;
+  status: string; // Webhook lifecycle status, e.g. 'ringing' or 'completed'
+  durationSeconds?: number;
+  raw?: any; // Provider response
+}
+
+/**
+ * Voice provider
+ * Everything the app needs from the service that hosts voice agents and places calls.
+ */
+export interface VoiceProvider {
+  readonly name: VoiceProviderName;
+
+  getAgent(agentId: string): Promise<VoiceAgent>;
+  createAgent(definition: VoiceAgentDefinition): Promise<VoiceAgent>;
+  updateAgent(agentId: string, definition: Partial<VoiceAgentDefinition>): Promise<VoiceAgent>;
+  updateAgentPrompt(agentId: string, systemPrompt: string): Promise<void>;
+  deleteAgent(agentId: string): Promise<void>;
+
+  placeCall(request: VoiceCallRequest): Promise<VoiceCallResponse>;
+  stopCall(executionId: string): Promise<void>;
+  getCallStatus(executionId: string): Promise<VoiceCallStatus>;
+
+  /**
+   * Convert a webhook body received from the provider; null if it isn't a call event
+   */
+  normalizeWebhook(body: any): CallWebhookPayload | null;
+}
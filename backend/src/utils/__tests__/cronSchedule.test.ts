@@ -0,0 +1,43 @@
+import { describe, test, expect } from '@jest/globals';
+import { isValidCronExpression, getNextCronRun } from '../../utils/cronSchedule';
+
+describe('Cron Schedule Utilities', () => {
+  describe('isValidCronExpression', () => {
+    test('should accept standard 5-field expressions', () => {
+      expect(isValidCronExpression('0 9 * * 1')).toBe(true);
+      expect(isValidCronExpression('*/15 8-18 * * mon-fri')).toBe(true);
+      expect(isValidCronExpression('0 0 1 jan,jul *')).toBe(true);
+      expect(isValidCronExpression('0 6 * * 7')).toBe(true);
+    });
+
+    test('should reject malformed or out of range expressions', () => {
+      expect(isValidCronExpression('')).toBe(false);
+      expect(isValidCronExpression('0 9 * *')).toBe(false);
+      expect(isValidCronExpression('60 9 * * *')).toBe(false);
+      expect(isValidCronExpression('0 9 * * 1; rm -rf /')).toBe(false);
+      expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    });
+  });
+
+  describe('getNextCronRun', () => {
+    test('should return the next matching minute in UTC', () => {
+      const after = new Date('2026-03-02T08:30:00Z'); // Monday
+      expect(getNextCronRun('0 9 * * 1', 'UTC', after)?.toISOString()).toBe('2026-03-02T09:00:00.000Z');
+      expect(getNextCronRun('0 9 * * 1', 'UTC', new Date('2026-03-02T09:00:00Z'))?.toISOString())
+        .toBe('2026-03-09T09:00:00.000Z');
+    });
+
+    test('should evaluate the expression in the given timezone', () => {
+      const after = new Date('2026-03-02T00:00:00Z');
+      // 09:00 IST is 03:30 UTC
+      expect(getNextCronRun('0 9 * * *', 'Asia/Kolkata', after)?.toISOString()).toBe('2026-03-02T03:30:00.000Z');
+      // 09:00 in New York during daylight saving time is 13:00 UTC
+      expect(getNextCronRun('0 9 * * *', 'America/New_York', new Date('2026-07-01T00:00:00Z'))?.toISOString())
+        .toBe('2026-07-01T13:00:00.000Z');
+    });
+
+    test('should return null for expressions that never fire', () => {
+      expect(getNextCronRun('0 9 30 2 *', 'UTC', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Email Campaign Optimization Tests
+ *
+ * Verifies the pure parts of campaign A/B testing and send-time optimization:
+ * - The test slice is stable, sized by percentage and has a contact for every variant
+ * - The winning variant is picked by the chosen rate, with tie-breaks
+ * - Send times fall on the next start of the contact's usual hour
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  assignTestVariants,
+  pickWinningVariant,
+  nextSendTimeAtHour,
+  VariantPerformance
+} from '../emailCampaignOptimization';
+
+const contactIds = Array.from({ length: 100 }, (_, i) => `contact-${i}`);
+
+describe('assignTestVariants', () => {
+  test('puts the configured share of contacts in the slice, spread over the variants', () => {
+    const assignments = assignTestVariants('campaign-1', contactIds, 20, 2);
+
+    expect(assignments.size).toBe(20);
+    const counts = [0, 0];
+    assignments.forEach(index => counts[index]++);
+    expect(counts).toEqual([10, 10]);
+  });
+
+  test('gives the same slice for the same campaign regardless of contact order', () => {
+    const first = assignTestVariants('campaign-1', contactIds, 20, 3);
+    const second = assignTestVariants('campaign-1', [...contactIds].reverse(), 20, 3);
+
+    expect([...second.entries()].sort()).toEqual([...first.entries()].sort());
+    expect(assignTestVariants('campaign-2', contactIds, 20, 3)).not.toEqual(first);
+  });
+
+  test('includes at least one contact per variant for small campaigns', () => {
+    expect(assignTestVariants('campaign-1', contactIds.slice(0, 5), 5, 4).size).toBe(4);
+    expect(assignTestVariants('campaign-1', contactIds.slice(0, 2), 50, 4).size).toBe(2);
+  });
+});
+
+describe('pickWinningVariant', () => {
+  const variant = (variantKey: string, sent: number, opened: number, clicked: number): VariantPerformance => ({
+    variantId: `variant-${variantKey}`,
+    variantKey,
+    sent,
+    opened,
+    clicked
+  });
+
+  test('picks the highest rate for the chosen metric', () => {
+    const variants = [variant('A', 10, 5, 1), variant('B', 10, 3, 4)];
+
+    expect(pickWinningVariant(variants, 'open_rate')?.variantKey).toBe('A');
+    expect(pickWinningVariant(variants, 'click_rate')?.variantKey).toBe('B');
+  });
+
+  test('compares rates rather than counts', () => {
+    expect(pickWinningVariant([variant('A', 20, 6, 0), variant('B', 10, 4, 0)], 'open_rate')?.variantKey).toBe('B');
+  });
+
+  test('breaks ties on the other metric, then on the earlier variant', () => {
+    expect(pickWinningVariant([variant('A', 10, 5, 1), variant('B', 10, 5, 2)], 'open_rate')?.variantKey).toBe('B');
+    expect(pickWinningVariant([variant('B', 10, 5, 2), variant('A', 10, 5, 2)], 'open_rate')?.variantKey).toBe('A');
+  });
+
+  test('returns null when no variant was sent', () => {
+    expect(pickWinningVariant([variant('A', 0, 0, 0), variant('B', 0, 0, 0)], 'open_rate')).toBeNull();
+  });
+});
+
+describe('nextSendTimeAtHour', () => {
+  const from = new Date('2026-10-18T14:25:00Z');
+
+  test('sends later the same day when the hour is still ahead', () => {
+    expect(nextSendTimeAtHour(from, 18).toISOString()).toBe('2026-10-18T18:00:00.000Z');
+  });
+
+  test('sends right away when the usual hour is the current one', () => {
+    expect(nextSendTimeAtHour(from, 14).toISOString()).toBe('2026-10-18T14:00:00.000Z');
+  });
+
+  test('moves to the next day when the hour has passed', () => {
+    expect(nextSendTimeAtHour(from, 9).toISOString()).toBe('2026-10-19T09:00:00.000Z');
+  });
+});
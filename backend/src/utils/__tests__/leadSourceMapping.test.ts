@@ -0,0 +1,176 @@
+/**
+ * Lead Source Mapping Tests
+ *
+ * Verifies how inbound lead payloads become contact data:
+ * - JSON paths with nested keys and array indexes
+ * - Preset payload formats (IndiaMART, JustDial, Facebook Lead Ads) mapped with their default mappings
+ * - Field mapping validation for the mapping editor
+ * - HMAC-SHA256 and shared-secret request verification
+ */
+
+import crypto from 'crypto';
+import { describe, test, expect } from '@jest/globals';
+import {
+  getValueAtPath,
+  mapLeadRecord,
+  parseJsonPath,
+  validateFieldMapping,
+  verifyLeadSourceSignature
+} from '../leadSourceMapping';
+import { LEAD_SOURCE_PRESETS, facebookLeadgenIds } from '../../config/leadSourcePresets';
+
+describe('JSON paths', () => {
+  test('parses keys and array indexes', () => {
+    expect(parseJsonPath('lead.phones[0].number')).toEqual(['lead', 'phones', 0, 'number']);
+    expect(parseJsonPath('SENDER_NAME')).toEqual(['SENDER_NAME']);
+  });
+
+  test('rejects malformed paths', () => {
+    expect(parseJsonPath('')).toBeNull();
+    expect(parseJsonPath('lead..name')).toBeNull();
+    expect(parseJsonPath('lead.')).toBeNull();
+    expect(parseJsonPath('phones[x]')).toBeNull();
+  });
+
+  test('reads nested values and returns undefined for missing steps', () => {
+    const payload = { lead: { phones: [{ number: '+919876543210' }] } };
+
+    expect(getValueAtPath(payload, 'lead.phones[0].number')).toBe('+919876543210');
+    expect(getValueAtPath(payload, 'lead.phones[1].number')).toBeUndefined();
+    expect(getValueAtPath(payload, 'lead.name.first')).toBeUndefined();
+  });
+});
+
+describe('mapLeadRecord', () => {
+  test('maps an IndiaMART push with the preset mapping', () => {
+    const preset = LEAD_SOURCE_PRESETS.indiamart;
+    const records = preset.extractRecords({
+      CODE: 200,
+      STATUS: 'SUCCESS',
+      RESPONSE: {
+        UNIQUE_QUERY_ID: '2883451234',
+        SENDER_NAME: 'Ravi Kumar',
+        SENDER_MOBILE: '+91-9876543210',
+        SENDER_EMAIL: 'ravi@example.com',
+        SENDER_COMPANY: 'Kumar Traders',
+        SENDER_CITY: 'Pune',
+        SENDER_STATE: 'Maharashtra',
+        SENDER_COUNTRY_ISO: 'IN',
+        SUBJECT: 'Requirement for steel pipes',
+        QUERY_MESSAGE: 'Need 200 units',
+        QUERY_PRODUCT_NAME: 'Steel Pipe'
+      }
+    });
+
+    expect(records).toHaveLength(1);
+    expect(mapLeadRecord(records[0], preset.field_mapping)).toEqual({
+      fields: {
+        name: 'Ravi Kumar',
+        phone_number: '+91-9876543210',
+        email: 'ravi@example.com',
+        company: 'Kumar Traders',
+        city: 'Pune',
+        country: 'IN',
+        notes: 'Requirement for steel pipes\nNeed 200 units'
+      },
+      custom_fields: {
+        product: 'Steel Pipe',
+        state: 'Maharashtra',
+        indiamart_query_id: '2883451234'
+      }
+    });
+  });
+
+  test('falls back to the next mapping for a field when the first is empty', () => {
+    const preset = LEAD_SOURCE_PRESETS.justdial;
+    const [record] = preset.extractRecords({ leadid: 'JD1', name: 'Asha', mobile: '', phone: '9812345678' });
+
+    const lead = mapLeadRecord(record, preset.field_mapping);
+    expect(lead.fields.phone_number).toBe('9812345678');
+    expect(lead.custom_fields).toEqual({ justdial_lead_id: 'JD1' });
+  });
+
+  test('flattens Facebook field_data and ignores page webhooks without lead data', () => {
+    const preset = LEAD_SOURCE_PRESETS.facebook_lead_ads;
+    const records = preset.extractRecords({
+      data: [{
+        id: '1234567890',
+        form_id: '555',
+        field_data: [
+          { name: 'full_name', values: ['Meera Shah'] },
+          { name: 'phone_number', values: ['+919900112233'] },
+          { name: 'email', values: ['meera@example.com'] }
+        ]
+      }]
+    });
+
+    expect(mapLeadRecord(records[0], preset.field_mapping)).toEqual({
+      fields: { name: 'Meera Shah', phone_number: '+919900112233', email: 'meera@example.com' },
+      custom_fields: { facebook_form_id: '555', facebook_lead_id: '1234567890' }
+    });
+
+    const webhook = {
+      object: 'page',
+      entry: [{ changes: [{ field: 'leadgen', value: { leadgen_id: '777', form_id: '555' } }] }]
+    };
+    expect(preset.extractRecords(webhook)).toEqual([]);
+    expect(facebookLeadgenIds(webhook)).toEqual(['777']);
+  });
+
+  test('skips nested objects and joins lists', () => {
+    const lead = mapLeadRecord(
+      { contact: { name: { first: 'A' } }, tags: ['hot', 'export'], phone: 9876543210 },
+      [
+        { source_path: 'contact.name', target: 'name' },
+        { source_path: 'tags', target: 'custom.tags' },
+        { source_path: 'phone', target: 'phone_number' }
+      ]
+    );
+
+    expect(lead).toEqual({ fields: { phone_number: '9876543210' }, custom_fields: { tags: 'hot, export' } });
+  });
+});
+
+describe('validateFieldMapping', () => {
+  test('accepts contact fields and custom keys, trimming entries', () => {
+    expect(validateFieldMapping([
+      { source_path: ' mobile ', target: 'phone_number' },
+      { source_path: 'budget', target: 'custom.budget' }
+    ])).toEqual([
+      { source_path: 'mobile', target: 'phone_number' },
+      { source_path: 'budget', target: 'custom.budget' }
+    ]);
+  });
+
+  test('requires a phone number mapping', () => {
+    expect(() => validateFieldMapping([{ source_path: 'name', target: 'name' }]))
+      .toThrow('field_mapping must map a field to phone_number');
+  });
+
+  test('rejects unknown targets and malformed paths', () => {
+    expect(() => validateFieldMapping([{ source_path: 'mobile', target: 'lead_stage' }])).toThrow('target');
+    expect(() => validateFieldMapping([{ source_path: 'a..b', target: 'phone_number' }])).toThrow('source_path');
+    expect(() => validateFieldMapping([])).toThrow('non-empty');
+  });
+});
+
+describe('verifyLeadSourceSignature', () => {
+  const secret = 'a-long-enough-secret-value';
+  const body = Buffer.from('{"phone":"+919876543210"}');
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  test('accepts a valid HMAC with or without the sha256= prefix', () => {
+    expect(verifyLeadSourceSignature('hmac_sha256', secret, body, signature)).toBe(true);
+    expect(verifyLeadSourceSignature('hmac_sha256', secret, body, `sha256=${signature.toUpperCase()}`)).toBe(true);
+  });
+
+  test('rejects a wrong or missing HMAC', () => {
+    expect(verifyLeadSourceSignature('hmac_sha256', secret, Buffer.from('{}'), signature)).toBe(false);
+    expect(verifyLeadSourceSignature('hmac_sha256', secret, body, undefined)).toBe(false);
+  });
+
+  test('compares shared secrets exactly', () => {
+    expect(verifyLeadSourceSignature('shared_secret', secret, body, secret)).toBe(true);
+    expect(verifyLeadSourceSignature('shared_secret', secret, body, `${secret} `)).toBe(false);
+  });
+});
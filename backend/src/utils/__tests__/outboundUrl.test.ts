@@ -0,0 +1,53 @@
+/**
+ * Outbound URL Tests
+ *
+ * Verifies the SSRF guard for user-supplied webhook URLs:
+ * - Public and non-public (loopback, private, link-local, IPv4-mapped) addresses
+ * - URL checks when a flow is saved
+ * - Connections refused when the host resolves to a non-public address
+ */
+
+import http from 'http';
+import { describe, test, expect } from '@jest/globals';
+import { UnsafeUrlError, assertOutboundUrl, isPublicAddress, outboundHttpAgent } from '../outboundUrl';
+
+describe('isPublicAddress', () => {
+  test('accepts public addresses', () => {
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  test('rejects loopback, private, link-local and reserved addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test('rejects values that are not IP addresses', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('assertOutboundUrl', () => {
+  test('accepts http(s) URLs with public hosts', () => {
+    expect(assertOutboundUrl('https://hooks.example.com/flow').hostname).toBe('hooks.example.com');
+    expect(assertOutboundUrl('http://8.8.8.8/hook').hostname).toBe('8.8.8.8');
+  });
+
+  test('rejects other schemes, localhost and internal IP literals', () => {
+    for (const url of ['ftp://example.com/', 'file:///etc/passwd', 'not a url', 'http://localhost:3000/', 'http://api.localhost/', 'http://127.0.0.1/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'http://10.0.0.5:8080/']) {
+      expect(() => assertOutboundUrl(url)).toThrow(UnsafeUrlError);
+    }
+  });
+});
+
+describe('outbound agents', () => {
+  test('refuse to connect to hosts that resolve to loopback', async () => {
+    const error = await new Promise<Error>((resolve) => {
+      const request = http.get({ host: 'localhost', port: 9, path: '/', agent: outboundHttpAgent }, () => resolve(new Error('connected')));
+      request.on('error', resolve);
+    });
+
+    expect(error).toBeInstanceOf(UnsafeUrlError);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Phone Number Tests
+ *
+ * Verifies parsing against per-country numbering metadata:
+ * - International (+, 00) and national input formatted as E.164 with country and line type
+ * - The default region for numbers without a country code
+ * - Invalid and ambiguous numbers rejected with their error code
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_PHONE_REGION,
+  PhoneNumberError,
+  isInternationalFormat,
+  isSupportedRegion,
+  parsePhoneNumber,
+  toE164BestEffort
+} from '../phoneNumber';
+
+function errorCode(input: string, region?: string): string | undefined {
+  try {
+    parsePhoneNumber(input, region);
+    return undefined;
+  } catch (error) {
+    return error instanceof PhoneNumberError ? error.code : 'UNEXPECTED';
+  }
+}
+
+describe('parsePhoneNumber', () => {
+  test('formats international numbers as E.164 with country and line type', () => {
+    expect(parsePhoneNumber('+44 7400 123456')).toEqual({
+      e164: '+447400123456',
+      country: 'GB',
+      countryCallingCode: '44',
+      nationalNumber: '7400123456',
+      lineType: 'mobile'
+    });
+    expect(parsePhoneNumber('00 1 201-555-0123', 'IN').e164).toBe('+12015550123');
+  });
+
+  test('reads numbers without a country code in the default region', () => {
+    expect(DEFAULT_PHONE_REGION).toBe('IN');
+    expect(parsePhoneNumber('98765 43210')).toMatchObject({ e164: '+919876543210', country: 'IN', lineType: 'mobile' });
+    expect(parsePhoneNumber('09876543210').e164).toBe('+919876543210');
+    expect(parsePhoneNumber('022 2345 6789', 'IN')).toMatchObject({ e164: '+912223456789', lineType: 'landline' });
+    expect(parsePhoneNumber('020 7946 0018', 'GB')).toMatchObject({ e164: '+442079460018', country: 'GB' });
+  });
+
+  test('accepts a country code written without the +', () => {
+    expect(parsePhoneNumber('919876543210', 'IN').e164).toBe('+919876543210');
+    expect(parsePhoneNumber('4915123456789', 'US')).toMatchObject({ e164: '+4915123456789', country: 'DE' });
+  });
+
+  test('reads a full national number nationally even when it is also valid with a +', () => {
+    // +6591234567 is a Singapore number, +6421234567 a New Zealand one
+    expect(parsePhoneNumber('6591234567', 'IN')).toMatchObject({ e164: '+916591234567', country: 'IN' });
+    expect(parsePhoneNumber('6421234567', 'IN')).toMatchObject({ e164: '+916421234567', country: 'IN' });
+    expect(parsePhoneNumber('5016221234', 'US').e164).toBe('+15016221234');
+    expect(parsePhoneNumber('(501) 622-1234', 'US').e164).toBe('+15016221234');
+  });
+
+  test('rejects numbers that are valid in two readings', () => {
+    // Moscow with the trunk prefix 8, or Vietnam +84
+    expect(errorCode('84951234567', 'RU')).toBe('AMBIGUOUS_PHONE_NUMBER');
+  });
+
+  test('rejects invalid numbers', () => {
+    expect(errorCode('')).toBe('INVALID_PHONE_NUMBER');
+    expect(errorCode('12345')).toBe('INVALID_PHONE_NUMBER');
+    expect(errorCode('+91 02345 67890')).toBe('INVALID_PHONE_NUMBER');
+    expect(errorCode('6123456789', 'AU')).toBe('INVALID_PHONE_NUMBER');
+  });
+
+  test('falls back to the default region for unsupported regions', () => {
+    expect(parsePhoneNumber('98765 43210', 'XX').e164).toBe('+919876543210');
+  });
+});
+
+describe('isSupportedRegion', () => {
+  test('accepts uppercase ISO codes with metadata only', () => {
+    expect(isSupportedRegion('US')).toBe(true);
+    expect(isSupportedRegion('us')).toBe(false);
+    expect(isSupportedRegion('XX')).toBe(false);
+    expect(isSupportedRegion(undefined)).toBe(false);
+  });
+});
+
+describe('isInternationalFormat', () => {
+  test('detects numbers written with a country code', () => {
+    expect(isInternationalFormat(' +91 98765 43210')).toBe(true);
+    expect(isInternationalFormat('0044 7400 123456')).toBe(true);
+    expect(isInternationalFormat('09876543210')).toBe(false);
+    expect(isInternationalFormat('919876543210')).toBe(false);
+  });
+});
+
+describe('toE164BestEffort', () => {
+  test('keeps the digits of numbers that do not validate', () => {
+    expect(toE164BestEffort('98765 43210')).toBe('+919876543210');
+    expect(toE164BestEffort('+1 555 0100')).toBe('+15550100');
+  });
+
+  test('uses the national reading for ambiguous numbers', () => {
+    expect(toE164BestEffort('6591234567', 'IN')).toBe('+916591234567');
+    expect(toE164BestEffort('84951234567', 'RU')).toBe('+74951234567');
+  });
+});
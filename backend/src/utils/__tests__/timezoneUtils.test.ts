@@ -6,7 +6,8 @@ import {
   convertBetweenTimezones,
   getValidTimezones,
   parseTimeStringInTimezone,
-  isWithinTimeWindow
+  isWithinTimeWindow,
+  getNextTimeWindowStart
 } from '../../utils/timezoneUtils';
 
 describe('Timezone Utilities', () => {
@@ -241,6 +242,44 @@ describe('Timezone Utilities', () => {
     });
   });
 
+  describe('getNextTimeWindowStart', () => {
+    test('should return the same date when already within window', () => {
+      const date = new Date('2025-01-15T10:00:00Z');
+      const result = getNextTimeWindowStart('09:00', '17:00', 'UTC', date);
+
+      expect(result.toISOString()).toBe(date.toISOString());
+    });
+
+    test('should move to window start later the same day', () => {
+      const date = new Date('2025-01-15T06:30:00Z');
+      const result = getNextTimeWindowStart('09:00', '17:00', 'UTC', date);
+
+      expect(result.toISOString()).toBe('2025-01-15T09:00:00.000Z');
+    });
+
+    test('should move to window start on the next day when after window', () => {
+      const date = new Date('2025-01-15T18:00:00Z');
+      const result = getNextTimeWindowStart('09:00', '17:00', 'UTC', date);
+
+      expect(result.toISOString()).toBe('2025-01-16T09:00:00.000Z');
+    });
+
+    test('should work with different timezones', () => {
+      // 8 PM IST = 14:30 UTC; next 09:00 IST = 03:30 UTC next day
+      const date = new Date('2025-01-15T14:30:00Z');
+      const result = getNextTimeWindowStart('09:00:00', '18:00:00', 'Asia/Kolkata', date);
+
+      expect(result.toISOString()).toBe('2025-01-16T03:30:00.000Z');
+    });
+
+    test('should handle overnight windows (crosses midnight)', () => {
+      const date = new Date('2025-01-15T12:00:00Z');
+      const result = getNextTimeWindowStart('22:00', '06:00', 'UTC', date);
+
+      expect(result.toISOString()).toBe('2025-01-15T22:00:00.000Z');
+    });
+  });
+
   describe('Edge Cases and DST Handling', () => {
     test('should handle daylight saving time transitions', () => {
       // Spring forward: March 10, 2024, 2:00 AM -> 3:00 AM (EST -> EDT)
@@ -0,0 +1,167 @@
+import { getTimezoneOffset } from './timezoneUtils';
+
+// Standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+// used for persisted schedules, where the next run time has to be stored.
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7] // day of week (0 and 7 are Sunday)
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Upper bound on search steps, enough to find a match years ahead (e.g. Feb 29)
+const MAX_SEARCH_STEPS = 100000;
+
+function parseValue(value: string, fieldIndex: number): number {
+  const lower = value.toLowerCase();
+  if (fieldIndex === 3 && MONTH_NAMES.includes(lower)) {
+    return MONTH_NAMES.indexOf(lower) + 1;
+  }
+  if (fieldIndex === 4 && DAY_NAMES.includes(lower)) {
+    return DAY_NAMES.indexOf(lower);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value: ${value}`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, fieldIndex: number): Set<number> {
+  const [min, max] = FIELD_RANGES[fieldIndex];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, fieldIndex);
+      end = parseValue(to, fieldIndex);
+    } else {
+      start = parseValue(range, fieldIndex);
+      end = stepText !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Day of week 7 is Sunday
+      values.add(fieldIndex === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = (expression || '').trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  return {
+    minutes: parseField(fields[0], 0),
+    hours: parseField(fields[1], 1),
+    daysOfMonth: parseField(fields[2], 2),
+    months: parseField(fields[3], 3),
+    daysOfWeek: parseField(fields[4], 4),
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, wallClock: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(wallClock.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(wallClock.getUTCDay());
+
+  // Like cron: when both day fields are restricted, either one may match
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Next time a cron expression fires after the given date, evaluated in a timezone
+ * @returns null if the expression never fires (e.g. 30 February)
+ */
+export function getNextCronRun(expression: string, timezone: string = 'UTC', after: Date = new Date()): Date | null {
+  const fields = parseCronExpression(expression);
+  const offsetMinutes = getTimezoneOffset(timezone, after);
+
+  // Walk the wall clock of the timezone, represented as UTC fields
+  const wallClock = new Date(after.getTime() + offsetMinutes * 60000);
+  wallClock.setUTCSeconds(0, 0);
+  wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!fields.months.has(wallClock.getUTCMonth() + 1)) {
+      wallClock.setUTCMonth(wallClock.getUTCMonth() + 1, 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(fields, wallClock)) {
+      wallClock.setUTCDate(wallClock.getUTCDate() + 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(wallClock.getUTCHours())) {
+      wallClock.setUTCHours(wallClock.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(wallClock.getUTCMinutes())) {
+      wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    // Convert the wall clock time back to an instant using the offset in effect then
+    const guess = new Date(wallClock.getTime() - offsetMinutes * 60000);
+    const instant = new Date(wallClock.getTime() - getTimezoneOffset(timezone, guess) * 60000);
+    if (instant.getTime() > after.getTime()) {
+      return instant;
+    }
+
+    wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
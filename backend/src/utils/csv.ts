@@ -0,0 +1,30 @@
+// CSV helpers shared by exports
+
+/**
+ * Quote a CSV value and neutralize spreadsheet formulas
+ */
+export function escapeCsvValue(value: string): string {
+  const safe = /^[=+\-@]/.test(value) && !/^\+\d+$/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  const lines = rows.map(row => row.map(value => escapeCsvValue(formatCsvCell(value))).join(','));
+  return [header.map(escapeCsvValue).join(','), ...lines].join('\n');
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
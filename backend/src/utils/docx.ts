@@ -0,0 +1,90 @@
+import JSZip from 'jszip';
+
+// Minimal DOCX (Office Open XML) writer: paragraphs of plain or bold runs, no styles part.
+
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  size?: number; // Font size in points (default 11)
+}
+
+export interface DocxParagraph {
+  runs: DocxRun[];
+  spaceBefore?: number; // Extra space above the paragraph in points
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+/**
+ * Escape text for XML, dropping control characters that are invalid in XML 1.0
+ */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderRun(run: DocxRun): string {
+  const properties = [
+    run.bold ? '<w:b/>' : '',
+    run.size ? `<w:sz w:val="${Math.round(run.size * 2)}"/>` : ''
+  ].join('');
+  const text = run.text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${text}</w:r>`;
+}
+
+function renderParagraph(paragraph: DocxParagraph): string {
+  const spacing = paragraph.spaceBefore
+    ? `<w:pPr><w:spacing w:before="${Math.round(paragraph.spaceBefore * 20)}"/></w:pPr>`
+    : '';
+  return `<w:p>${spacing}${paragraph.runs.map(renderRun).join('')}</w:p>`;
+}
+
+/**
+ * Render paragraphs to a .docx document
+ */
+export async function createDocx(paragraphs: DocxParagraph[], title?: string): Promise<Buffer> {
+  const documentXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    paragraphs.map(renderParagraph).join('') +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/>' +
+    '</w:sectPr></w:body></w:document>';
+
+  const coreXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (title ? `<dc:title>${escapeXml(title)}</dc:title>` : '') +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', RELS_XML);
+  zip.file('docProps/core.xml', coreXml);
+  zip.file('word/document.xml', documentXml);
+
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
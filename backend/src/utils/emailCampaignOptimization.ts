@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+
+// A/B test slices, winner selection and send-time optimization for email campaigns.
+// Kept free of database access so a campaign that resumes after a restart or a deferral
+// computes the same slice and send times again.
+
+export type AbWinnerMetric = 'open_rate' | 'click_rate';
+
+export interface VariantPerformance {
+  variantId: string;
+  variantKey: string;
+  sent: number;
+  opened: number;
+  clicked: number;
+}
+
+/**
+ * Contacts in the A/B test slice, mapped to the index of the variant they get
+ * The slice is a stable pseudo-random share of the contacts (hash of campaign and contact id),
+ * with at least one contact per variant; variants are dealt out in turn.
+ */
+export function assignTestVariants(
+  campaignId: string,
+  contactIds: string[],
+  testPercentage: number,
+  variantCount: number
+): Map<string, number> {
+  const sliceSize = Math.min(
+    contactIds.length,
+    Math.max(variantCount, Math.ceil((contactIds.length * testPercentage) / 100))
+  );
+
+  const ordered = contactIds
+    .map(id => ({ id, rank: crypto.createHash('sha256').update(`${campaignId}:${id}`).digest('hex') }))
+    .sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0));
+
+  const assignments = new Map<string, number>();
+  ordered.slice(0, sliceSize).forEach((contact, index) => {
+    assignments.set(contact.id, index % variantCount);
+  });
+  return assignments;
+}
+
+/**
+ * Rate of a variant for a metric (0-1)
+ */
+export function variantRate(performance: VariantPerformance, metric: AbWinnerMetric): number {
+  if (performance.sent === 0) return 0;
+  return (metric === 'open_rate' ? performance.opened : performance.clicked) / performance.sent;
+}
+
+/**
+ * Best variant by the metric; ties go to the other metric, then to the earlier variant
+ * @returns null when no variant was sent
+ */
+export function pickWinningVariant(
+  variants: VariantPerformance[],
+  metric: AbWinnerMetric
+): VariantPerformance | null {
+  const tieBreaker: AbWinnerMetric = metric === 'open_rate' ? 'click_rate' : 'open_rate';
+  const candidates = variants
+    .filter(variant => variant.sent > 0)
+    .sort((a, b) =>
+      variantRate(b, metric) - variantRate(a, metric) ||
+      variantRate(b, tieBreaker) - variantRate(a, tieBreaker) ||
+      a.variantKey.localeCompare(b.variantKey)
+    );
+  return candidates[0] || null;
+}
+
+/**
+ * First start of the given UTC hour at or after the start of the hour of `from`
+ * (a contact whose usual hour is the current one is due right away)
+ */
+export function nextSendTimeAtHour(from: Date, utcHour: number): Date {
+  const hourStart = new Date(from);
+  hourStart.setUTCMinutes(0, 0, 0);
+
+  const sendAt = new Date(hourStart);
+  sendAt.setUTCHours(utcHour);
+  if (sendAt < hourStart) {
+    sendAt.setUTCDate(sendAt.getUTCDate() + 1);
+  }
+  return sendAt;
+}
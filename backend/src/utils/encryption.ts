@@ -36,4 +36,34 @@ export class Encryption {
   static hash(text: string): string {
     return crypto.createHash('sha256').update(text).digest('hex');
   }
+
+  /**
+   * Encrypt a stored credential (e.g. an SMTP password) with AES-256-GCM
+   * Returns iv:tag:ciphertext (hex); the key is derived from CREDENTIALS_ENCRYPTION_KEY.
+   */
+  static encryptSecret(text: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(this.algorithm, this.secretKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    return [iv.toString('hex'), cipher.getAuthTag().toString('hex'), encrypted.toString('hex')].join(':');
+  }
+
+  static decryptSecret(value: string): string {
+    const [iv, tag, encrypted] = value.split(':');
+    if (!iv || !tag || encrypted === undefined) {
+      throw new Error('Invalid encrypted value');
+    }
+
+    const decipher = crypto.createDecipheriv(this.algorithm, this.secretKey(), Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8');
+  }
+
+  private static secretKey(): Buffer {
+    const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+  }
 }
\ No newline at end of file
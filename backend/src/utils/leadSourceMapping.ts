@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import {
+  LEAD_CONTACT_FIELDS,
+  LeadContactField,
+  LeadFieldMapping,
+  LeadSourceAuthMode,
+  MappedLead
+} from '../types/leadSource';
+
+// Field mapping and signature checks for inbound lead sources (no database access, so the
+// mapping preview and request replay give the same result as the live endpoint).
+
+export const MAX_FIELD_MAPPINGS = 50;
+
+const CUSTOM_TARGET_PATTERN = /^custom\.[a-z0-9_]{1,64}$/i;
+const PATH_PATTERN = /^(?:[^.[\]]+|\[\d+\])(?:\.[^.[\]]+|\[\d+\])*$/;
+const PATH_TOKEN_PATTERN = /([^.[\]]+)|\[(\d+)\]/g;
+
+/**
+ * Keys and array indexes of a JSON path like "lead.phones[0].number"
+ * @returns null when the path is malformed
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  const trimmed = typeof path === 'string' ? path.trim() : '';
+  if (!trimmed || trimmed.length > 200 || !PATH_PATTERN.test(trimmed)) return null;
+
+  return Array.from(trimmed.matchAll(PATH_TOKEN_PATTERN), match =>
+    match[2] !== undefined ? Number(match[2]) : match[1]
+  );
+}
+
+/**
+ * Value at a JSON path, or undefined when any step is missing
+ */
+export function getValueAtPath(source: unknown, path: string): unknown {
+  const tokens = parseJsonPath(path);
+  if (!tokens) return undefined;
+
+  let value: any = source;
+  for (const token of tokens) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = value[token as any];
+  }
+  return value;
+}
+
+/**
+ * Value as text for a contact field: trimmed strings, numbers and booleans, lists of those
+ * joined with commas; empty for missing values and nested objects
+ */
+function toFieldText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map(toFieldText).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+/**
+ * Contact data of one lead record
+ * When several mappings fill the same field, the first non-empty value wins, except for notes,
+ * which are joined line by line.
+ */
+export function mapLeadRecord(record: Record<string, any>, mapping: LeadFieldMapping[]): MappedLead {
+  const lead: MappedLead = { fields: {}, custom_fields: {} };
+
+  for (const { source_path: sourcePath, target } of mapping) {
+    const text = toFieldText(getValueAtPath(record, sourcePath));
+    if (!text) continue;
+
+    if (target.startsWith('custom.')) {
+      const key = target.slice('custom.'.length);
+      if (!lead.custom_fields[key]) lead.custom_fields[key] = text;
+      continue;
+    }
+
+    const field = target as LeadContactField;
+    if (field === 'notes') {
+      lead.fields.notes = lead.fields.notes ? `${lead.fields.notes}\n${text}` : text;
+    } else if (!lead.fields[field]) {
+      lead.fields[field] = text;
+    }
+  }
+
+  return lead;
+}
+
+/**
+ * Check a field mapping from the editor
+ * @throws Error describing the first problem
+ */
+export function validateFieldMapping(mapping: unknown): LeadFieldMapping[] {
+  if (!Array.isArray(mapping) || mapping.length === 0) {
+    throw new Error('field_mapping must be a non-empty list');
+  }
+  if (mapping.length > MAX_FIELD_MAPPINGS) {
+    throw new Error(`field_mapping can have at most ${MAX_FIELD_MAPPINGS} entries`);
+  }
+
+  const validated = mapping.map((entry, index) => {
+    const sourcePath = typeof entry?.source_path === 'string' ? entry.source_path.trim() : '';
+    const target = typeof entry?.target === 'string' ? entry.target.trim() : '';
+
+    if (!parseJsonPath(sourcePath)) {
+      throw new Error(`field_mapping[${index}].source_path is not a valid JSON path`);
+    }
+    if (!(LEAD_CONTACT_FIELDS as readonly string[]).includes(target) && !CUSTOM_TARGET_PATTERN.test(target)) {
+      throw new Error(
+        `field_mapping[${index}].target must be one of ${LEAD_CONTACT_FIELDS.join(', ')} or custom.<key>`
+      );
+    }
+    return { source_path: sourcePath, target };
+  });
+
+  if (!validated.some(entry => entry.target === 'phone_number')) {
+    throw new Error('field_mapping must map a field to phone_number');
+  }
+  return validated;
+}
+
+/**
+ * Check the signature (or shared secret) of an inbound request
+ * @param provided Signature header value, or the secret from the query string
+ */
+export function verifyLeadSourceSignature(
+  authMode: LeadSourceAuthMode,
+  secret: string,
+  rawBody: Buffer | string,
+  provided: string | undefined
+): boolean {
+  if (!provided || !secret) return false;
+
+  const expected = authMode === 'hmac_sha256'
+    ? crypto.createHmac('sha256', secret).update(rawBody).digest('hex')
+    : secret;
+  const received = authMode === 'hmac_sha256'
+    ? provided.trim().replace(/^sha256=/i, '').toLowerCase()
+    : provided;
+
+  // Compare digests so the lengths match and the comparison takes constant time
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  const receivedHash = crypto.createHash('sha256').update(received).digest();
+  return crypto.timingSafeEqual(expectedHash, receivedHash);
+}
@@ -0,0 +1,121 @@
+/**
+ * Outbound URL Utilities
+ *
+ * Guards requests the server makes to user-supplied URLs (flow webhook actions) against
+ * server-side request forgery: only http(s) URLs are accepted and the host must resolve to
+ * public addresses - loopback, private, link-local (cloud metadata) and other reserved
+ * ranges are refused.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export class UnsafeUrlError extends Error {
+  public readonly code = 'UNSAFE_URL';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+// Addresses a user-supplied URL may not reach
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, cloud metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 3]       // multicast and reserved, incl. broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8]          // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a URL before it is saved: http(s) only, and no host that is obviously internal
+ * (localhost or a non-public IP literal). Hostnames are resolved again when the request is made.
+ * @throws UnsafeUrlError
+ */
+export function assertOutboundUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UnsafeUrlError('Invalid URL');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new UnsafeUrlError('URL must use http or https');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new UnsafeUrlError('URL host must not be localhost');
+  }
+  if (net.isIP(host) !== 0 && !isPublicAddress(host)) {
+    throw new UnsafeUrlError('URL host must be a public address');
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for outbound sockets that fails when the host resolves to a non-public address.
+ * Used as the agent's lookup so the address that is checked is the one connected to.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const resolved = addresses as dns.LookupAddress[];
+    const blocked = resolved.find(entry => !isPublicAddress(entry.address));
+    if (blocked || resolved.length === 0) {
+      callback(new UnsafeUrlError(`Host ${hostname} resolves to a non-public address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, resolved);
+    } else {
+      callback(null, resolved[0].address, resolved[0].family);
+    }
+  });
+};
+
+/**
+ * HTTP(S) agents for requests to user-supplied URLs (pass as httpAgent / httpsAgent)
+ */
+export const outboundHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+export const outboundHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
@@ -0,0 +1,160 @@
+// Minimal text-only PDF writer (A4, built-in Helvetica fonts, word wrapping and page breaks).
+// Enough for generated documents like transcripts without pulling in a PDF library.
+
+export interface PdfBlock {
+  text: string;
+  bold?: boolean;
+  size?: number; // Font size in points (default 10)
+  indent?: number; // Left indent in points
+  spaceBefore?: number; // Extra space above the block in points
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_HEIGHT = 1.35;
+
+// Helvetica glyph widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const BOLD_WIDTH_FACTOR = 1.08; // Helvetica-Bold is slightly wider
+
+// Characters outside Latin-1 that have a close WinAnsi/ASCII equivalent
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '\u2018': '\'', '\u2019': '\'', '\u201c': '"', '\u201d': '"',
+  '\u2013': '-', '\u2014': '-', '\u2026': '...', '\u20b9': 'Rs.', '\u20ac': 'EUR'
+};
+
+/**
+ * Reduce text to characters the built-in fonts can render
+ */
+function toPdfText(text: string): string {
+  return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    '))
+    .map(char => {
+      if (CHARACTER_REPLACEMENTS[char] !== undefined) {
+        return CHARACTER_REPLACEMENTS[char];
+      }
+      const code = char.charCodeAt(0);
+      if (char === '\n' || (code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+        return char;
+      }
+      return '?';
+    })
+    .join('');
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * Split text into lines that fit the given width (long words are broken)
+ */
+function wrapText(text: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > maxWidth) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+/**
+ * Render blocks of text to a PDF document
+ */
+export function createTextPdf(blocks: PdfBlock[], title?: string): Buffer {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size || DEFAULT_FONT_SIZE;
+    const indent = block.indent || 0;
+    const font = block.bold ? 'F2' : 'F1';
+    const lineHeight = size * LINE_HEIGHT;
+    y -= block.spaceBefore || 0;
+
+    for (const line of wrapText(toPdfText(block.text), contentWidth - indent, size, !!block.bold)) {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      if (line) {
+        pages[pages.length - 1].push(
+          `BT /${font} ${size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`
+        );
+      }
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(title ? `<< /Title (${escapePdfString(toPdfText(title))}) >>` : '<< >>');
+
+  pages.forEach((commands, index) => {
+    const content = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,163 @@
+/**
+ * Phone Number Utilities
+ *
+ * Parses and validates phone numbers against per-country numbering metadata (libphonenumber)
+ * and formats them as E.164 (+919876543210), the format phone numbers are stored in.
+ * Numbers without a country code are read in the user's default region.
+ */
+
+import {
+  CountryCode,
+  NumberType,
+  isSupportedCountry,
+  parsePhoneNumberFromString
+} from 'libphonenumber-js/max';
+
+// Region used when the user has not chosen one
+export const DEFAULT_PHONE_REGION: CountryCode = 'IN';
+
+export type PhoneLineType =
+  | 'mobile'
+  | 'landline'
+  | 'landline_or_mobile'
+  | 'toll_free'
+  | 'premium_rate'
+  | 'shared_cost'
+  | 'voip'
+  | 'personal_number'
+  | 'pager'
+  | 'uan'
+  | 'voicemail'
+  | 'unknown';
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  country: string | null;
+  countryCallingCode: string;
+  nationalNumber: string;
+  lineType: PhoneLineType;
+}
+
+export type PhoneNumberErrorCode = 'INVALID_PHONE_NUMBER' | 'AMBIGUOUS_PHONE_NUMBER';
+
+export class PhoneNumberError extends Error {
+  public readonly code: PhoneNumberErrorCode;
+
+  constructor(message: string, code: PhoneNumberErrorCode) {
+    super(message);
+    this.name = 'PhoneNumberError';
+    this.code = code;
+  }
+}
+
+const LINE_TYPES: Record<NumberType & string, PhoneLineType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  FIXED_LINE_OR_MOBILE: 'landline_or_mobile',
+  TOLL_FREE: 'toll_free',
+  PREMIUM_RATE: 'premium_rate',
+  SHARED_COST: 'shared_cost',
+  VOIP: 'voip',
+  PERSONAL_NUMBER: 'personal_number',
+  PAGER: 'pager',
+  UAN: 'uan',
+  VOICEMAIL: 'voicemail'
+};
+
+/**
+ * Whether a value is an ISO 3166-1 alpha-2 region with numbering metadata (e.g. "IN", "US")
+ */
+export function isSupportedRegion(region: unknown): region is CountryCode {
+  return typeof region === 'string' && /^[A-Z]{2}$/.test(region) && isSupportedCountry(region);
+}
+
+/**
+ * Whether a number is written with its country code (+ or 00 prefix), so the default region does not apply
+ */
+export function isInternationalFormat(input: string): boolean {
+  return /^(\+|00)/.test((input ?? '').toString().trim());
+}
+
+/**
+ * Parse and validate a phone number
+ *
+ * A number starting with + or 00 is read as international. Any other number is read in
+ * defaultRegion: a valid national number written in full (e.g. 6591234567 in India, although
+ * +6591234567 is a Singapore number) is always taken as national. Otherwise it is read as an
+ * international number missing its +; when that and a national reading with a prefix dropped
+ * are both valid and differ, the number is ambiguous and rejected rather than guessed.
+ *
+ * @throws PhoneNumberError with code INVALID_PHONE_NUMBER or AMBIGUOUS_PHONE_NUMBER
+ */
+export function parsePhoneNumber(input: string, defaultRegion: string = DEFAULT_PHONE_REGION): ParsedPhoneNumber {
+  const region = isSupportedRegion(defaultRegion) ? defaultRegion : DEFAULT_PHONE_REGION;
+  const trimmed = (input ?? '').toString().trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (digits.length === 0) {
+    throw new PhoneNumberError('Phone number is empty', 'INVALID_PHONE_NUMBER');
+  }
+
+  if (isInternationalFormat(trimmed)) {
+    const international = parsePhoneNumberFromString(`+${digits.replace(/^00/, '')}`);
+    if (!international?.isValid()) {
+      throw new PhoneNumberError(`Invalid phone number: ${trimmed}`, 'INVALID_PHONE_NUMBER');
+    }
+    return toParsedPhoneNumber(international);
+  }
+
+  const national = parsePhoneNumberFromString(trimmed, region);
+  const nationalValid = national?.isValid() ? national : undefined;
+
+  // The digits are the national number itself (after any leading trunk zeros)
+  if (nationalValid && digits.replace(/^0+/, '') === nationalValid.nationalNumber) {
+    return toParsedPhoneNumber(nationalValid);
+  }
+
+  const international = parsePhoneNumberFromString(`+${digits}`);
+  const internationalValid = international?.isValid() ? international : undefined;
+
+  if (nationalValid && internationalValid && nationalValid.number !== internationalValid.number) {
+    throw new PhoneNumberError(
+      `Ambiguous phone number: ${trimmed} could be ${nationalValid.number} or ${internationalValid.number}, add the country code`,
+      'AMBIGUOUS_PHONE_NUMBER'
+    );
+  }
+
+  const parsed = nationalValid || internationalValid;
+  if (!parsed) {
+    throw new PhoneNumberError(`Invalid phone number for region ${region}: ${trimmed}`, 'INVALID_PHONE_NUMBER');
+  }
+  return toParsedPhoneNumber(parsed);
+}
+
+/**
+ * E.164 form of a number that must not be rejected (caller IDs in telephony webhooks):
+ * the parsed number when it is valid, the national reading in defaultRegion when it is
+ * ambiguous (never a guessed country), otherwise its digits after a +
+ */
+export function toE164BestEffort(input: string, defaultRegion: string = DEFAULT_PHONE_REGION): string {
+  try {
+    return parsePhoneNumber(input, defaultRegion).e164;
+  } catch (error) {
+    if (error instanceof PhoneNumberError && error.code === 'AMBIGUOUS_PHONE_NUMBER') {
+      const region = isSupportedRegion(defaultRegion) ? defaultRegion : DEFAULT_PHONE_REGION;
+      const national = parsePhoneNumberFromString((input ?? '').toString().trim(), region);
+      if (national) {
+        return national.number;
+      }
+    }
+    return `+${(input ?? '').toString().replace(/\D/g, '').replace(/^00/, '')}`;
+  }
+}
+
+function toParsedPhoneNumber(phone: NonNullable<ReturnType<typeof parsePhoneNumberFromString>>): ParsedPhoneNumber {
+  const type = phone.getType();
+  return {
+    e164: phone.number,
+    country: phone.country ?? null,
+    countryCallingCode: phone.countryCallingCode,
+    nationalNumber: phone.nationalNumber,
+    lineType: type ? LINE_TYPES[type] : 'unknown'
+  };
+}
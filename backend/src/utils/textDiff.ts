@@ -0,0 +1,104 @@
+/**
+ * Line-based text diff (longest common subsequence)
+ */
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLine?: number; // 1-based line in the old text
+  newLine?: number; // 1-based line in the new text
+}
+
+// Prompts are short; larger inputs fall back to replacing the whole text
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(oldText: string | null | undefined, newText: string | null | undefined): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Skip the common prefix and suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_LCS_CELLS) {
+    oldMiddle.forEach((text, i) => result.push({ type: 'removed', text, oldLine: start + i + 1 }));
+    newMiddle.forEach((text, i) => result.push({ type: 'added', text, newLine: start + i + 1 }));
+  } else {
+    result.push(...diffMiddle(oldMiddle, newMiddle, start));
+  }
+
+  for (let i = 0; i < oldLines.length - oldEnd; i++) {
+    result.push({
+      type: 'unchanged',
+      text: oldLines[oldEnd + i],
+      oldLine: oldEnd + i + 1,
+      newLine: newEnd + i + 1
+    });
+  }
+  return result;
+}
+
+/**
+ * Only the added and removed lines of a diff
+ */
+export function changedLines(diff: DiffLine[]): DiffLine[] {
+  return diff.filter(line => line.type !== 'unchanged');
+}
+
+function diffMiddle(oldLines: string[], newLines: string[], offset: number): DiffLine[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLine: offset + i + 1, newLine: offset + j + 1 });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+      j++;
+    }
+  }
+  for (; i < rows; i++) {
+    result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+  }
+  for (; j < cols; j++) {
+    result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+  }
+  return result;
+}
+
+function splitLines(text: string | null | undefined): string[] {
+  return text ? text.replace(/\r\n/g, '\n').split('\n') : [];
+}
@@ -466,3 +466,54 @@ export function isWithinTimeWindow(
     return false;
   }
 }
+
+/**
+ * Get the earliest moment at or after fromDate that falls inside a daily time window
+ * Returns fromDate unchanged when it is already inside the window.
+ */
+export function getNextTimeWindowStart(
+  startTime: string,
+  endTime: string,
+  timezone: string,
+  fromDate: Date = new Date()
+): Date {
+  try {
+    if (!isValidTimezone(timezone)) {
+      timezone = 'UTC';
+    }
+
+    if (isWithinTimeWindow(startTime, endTime, timezone, fromDate)) {
+      return fromDate;
+    }
+
+    // Get time components from fromDate in the specified timezone
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    });
+
+    const parts = formatter.formatToParts(fromDate);
+    const currentHour = parseInt(parts.find(p => p.type === 'hour')?.value || '0') % 24;
+    const currentMinute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
+    const currentSecond = parseInt(parts.find(p => p.type === 'second')?.value || '0');
+
+    const currentSeconds = currentHour * 3600 + currentMinute * 60 + currentSecond;
+
+    const [startHour, startMinute] = startTime.split(':').map(Number);
+    const startSeconds = startHour * 3600 + startMinute * 60;
+
+    // Outside the window: move forward to the next occurrence of the start time
+    let secondsUntilStart = startSeconds - currentSeconds;
+    if (secondsUntilStart <= 0) {
+      secondsUntilStart += 24 * 3600;
+    }
+
+    return new Date(fromDate.getTime() + secondsUntilStart * 1000 - fromDate.getMilliseconds());
+  } catch (error) {
+    logger.error('Next time window calculation failed', { startTime, endTime, timezone, error });
+    return fromDate;
+  }
+}